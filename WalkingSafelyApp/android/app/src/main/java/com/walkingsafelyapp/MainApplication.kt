@@ -11,6 +11,8 @@ import com.facebook.react.defaults.DefaultReactHost.getDefaultReactHost
 import com.facebook.react.defaults.DefaultReactNativeHost
 import com.facebook.react.flipper.ReactNativeFlipper
 import com.facebook.soloader.SoLoader
+import com.walkingsafelyapp.notifications.RiskNotificationPackage
+import com.walkingsafelyapp.riskzones.RiskZoneMonitorPackage
 
 class MainApplication : Application(), ReactApplication {
 
@@ -20,6 +22,8 @@ class MainApplication : Application(), ReactApplication {
             PackageList(this).packages.apply {
               // Packages that cannot be autolinked yet can be added manually here, for example:
               // add(MyReactNativePackage())
+              add(RiskNotificationPackage())
+              add(RiskZoneMonitorPackage())
             }
 
         override fun getJSMainModuleName(): String = "index"
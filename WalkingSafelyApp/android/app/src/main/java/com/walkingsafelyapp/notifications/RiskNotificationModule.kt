@@ -0,0 +1,99 @@
+package com.walkingsafelyapp.notifications
+
+import android.Manifest
+import android.app.NotificationChannel
+import android.app.NotificationManager
+import android.app.PendingIntent
+import android.content.Context
+import android.content.pm.PackageManager
+import android.os.Build
+import androidx.core.app.NotificationCompat
+import androidx.core.app.NotificationManagerCompat
+import androidx.core.content.ContextCompat
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.walkingsafelyapp.R
+
+/**
+ * Posts local notifications for risk zones the user walks into while the app
+ * is not on screen.
+ */
+class RiskNotificationModule(reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+  override fun getName(): String = NAME
+
+  /**
+   * Show a notification, replacing the previous one of the same id.
+   * Resolves false when the user hasn't allowed notifications.
+   */
+  @ReactMethod
+  fun show(id: Int, title: String, body: String, promise: Promise) {
+    val context = reactApplicationContext
+    if (!canNotify(context)) {
+      promise.resolve(false)
+      return
+    }
+
+    ensureChannel(context)
+
+    val launchIntent = context.packageManager.getLaunchIntentForPackage(context.packageName)
+    val contentIntent =
+        launchIntent?.let {
+          PendingIntent.getActivity(
+              context, 0, it, PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE)
+        }
+
+    val notification =
+        NotificationCompat.Builder(context, CHANNEL_ID)
+            .setSmallIcon(R.mipmap.ic_launcher)
+            .setContentTitle(title)
+            .setContentText(body)
+            .setStyle(NotificationCompat.BigTextStyle().bigText(body))
+            .setPriority(NotificationCompat.PRIORITY_HIGH)
+            .setCategory(NotificationCompat.CATEGORY_NAVIGATION)
+            .setAutoCancel(true)
+            .setContentIntent(contentIntent)
+            .build()
+
+    try {
+      NotificationManagerCompat.from(context).notify(id, notification)
+      promise.resolve(true)
+    } catch (error: SecurityException) {
+      promise.resolve(false)
+    }
+  }
+
+  private fun canNotify(context: Context): Boolean {
+    if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.TIRAMISU &&
+        ContextCompat.checkSelfPermission(context, Manifest.permission.POST_NOTIFICATIONS) !=
+            PackageManager.PERMISSION_GRANTED) {
+      return false
+    }
+    return NotificationManagerCompat.from(context).areNotificationsEnabled()
+  }
+
+  private fun ensureChannel(context: Context) {
+    if (Build.VERSION.SDK_INT < Build.VERSION_CODES.O) {
+      return
+    }
+    val manager = context.getSystemService(NotificationManager::class.java)
+    if (manager.getNotificationChannel(CHANNEL_ID) != null) {
+      return
+    }
+    val channel =
+        NotificationChannel(CHANNEL_ID, CHANNEL_NAME, NotificationManager.IMPORTANCE_HIGH).apply {
+          description = CHANNEL_DESCRIPTION
+        }
+    manager.createNotificationChannel(channel)
+  }
+
+  companion object {
+    const val NAME = "RiskNotifications"
+    private const val CHANNEL_ID = "risk_zones"
+    private const val CHANNEL_NAME = "Áreas de risco"
+    private const val CHANNEL_DESCRIPTION = "Avisos ao entrar em áreas de alto risco"
+  }
+}
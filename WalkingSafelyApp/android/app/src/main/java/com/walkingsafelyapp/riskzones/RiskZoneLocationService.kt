@@ -0,0 +1,151 @@
+package com.walkingsafelyapp.riskzones
+
+import android.Manifest
+import android.app.NotificationChannel
+import android.app.NotificationManager
+import android.app.PendingIntent
+import android.app.Service
+import android.content.Context
+import android.content.Intent
+import android.content.pm.PackageManager
+import android.content.pm.ServiceInfo
+import android.location.Location
+import android.location.LocationListener
+import android.location.LocationManager
+import android.os.Build
+import android.os.Bundle
+import android.os.IBinder
+import android.os.Looper
+import androidx.core.app.NotificationCompat
+import androidx.core.app.ServiceCompat
+import androidx.core.content.ContextCompat
+import com.facebook.react.HeadlessJsTaskService
+import com.walkingsafelyapp.R
+
+/**
+ * Foreground service that keeps receiving coarse location updates while risk
+ * zone alerts are on, also with the app in the background or closed, and hands
+ * each position to the RiskZoneCheck JS task.
+ */
+class RiskZoneLocationService : Service(), LocationListener {
+
+  override fun onBind(intent: Intent?): IBinder? = null
+
+  override fun onStartCommand(intent: Intent?, flags: Int, startId: Int): Int {
+    if (!hasLocationPermission(this)) {
+      stopSelf()
+      return START_NOT_STICKY
+    }
+
+    ensureChannel()
+    ServiceCompat.startForeground(
+        this,
+        NOTIFICATION_ID,
+        buildNotification(),
+        if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q)
+            ServiceInfo.FOREGROUND_SERVICE_TYPE_LOCATION
+        else 0)
+    requestUpdates()
+
+    return START_STICKY
+  }
+
+  override fun onDestroy() {
+    getSystemService(LocationManager::class.java).removeUpdates(this)
+    super.onDestroy()
+  }
+
+  override fun onLocationChanged(location: Location) {
+    val intent =
+        Intent(this, RiskZoneTaskService::class.java).apply {
+          putExtra("latitude", location.latitude)
+          putExtra("longitude", location.longitude)
+        }
+    try {
+      startService(intent)
+      HeadlessJsTaskService.acquireWakeLockNow(this)
+    } catch (error: IllegalStateException) {
+      // The system refused to start the task, the next position tries again
+    }
+  }
+
+  @Deprecated("Still called before Android 10")
+  override fun onStatusChanged(provider: String?, status: Int, extras: Bundle?) {}
+
+  override fun onProviderEnabled(provider: String) {}
+
+  override fun onProviderDisabled(provider: String) {}
+
+  /**
+   * Network positions only after moving a block or so, plus whatever other apps
+   * already asked for, which is all the zone checks need and keeps battery use low
+   */
+  private fun requestUpdates() {
+    val manager = getSystemService(LocationManager::class.java)
+    manager.removeUpdates(this)
+
+    val provider =
+        if (manager.allProviders.contains(LocationManager.NETWORK_PROVIDER))
+            LocationManager.NETWORK_PROVIDER
+        else LocationManager.GPS_PROVIDER
+
+    try {
+      manager.requestLocationUpdates(
+          provider, MIN_INTERVAL_MS, MIN_DISTANCE_METERS, this, Looper.getMainLooper())
+      manager.requestLocationUpdates(
+          LocationManager.PASSIVE_PROVIDER,
+          MIN_INTERVAL_MS,
+          MIN_DISTANCE_METERS,
+          this,
+          Looper.getMainLooper())
+    } catch (error: SecurityException) {
+      stopSelf()
+    }
+  }
+
+  private fun buildNotification() =
+      NotificationCompat.Builder(this, CHANNEL_ID)
+          .setSmallIcon(R.mipmap.ic_launcher)
+          .setContentTitle(NOTIFICATION_TITLE)
+          .setContentText(NOTIFICATION_TEXT)
+          .setPriority(NotificationCompat.PRIORITY_LOW)
+          .setOngoing(true)
+          .setContentIntent(
+              packageManager.getLaunchIntentForPackage(packageName)?.let {
+                PendingIntent.getActivity(
+                    this,
+                    0,
+                    it,
+                    PendingIntent.FLAG_UPDATE_CURRENT or PendingIntent.FLAG_IMMUTABLE)
+              })
+          .build()
+
+  private fun ensureChannel() {
+    if (Build.VERSION.SDK_INT < Build.VERSION_CODES.O) {
+      return
+    }
+    val manager = getSystemService(NotificationManager::class.java)
+    if (manager.getNotificationChannel(CHANNEL_ID) != null) {
+      return
+    }
+    manager.createNotificationChannel(
+        NotificationChannel(CHANNEL_ID, CHANNEL_NAME, NotificationManager.IMPORTANCE_LOW))
+  }
+
+  companion object {
+    private const val NOTIFICATION_ID = 1002
+    private const val CHANNEL_ID = "risk_zone_monitor"
+    private const val CHANNEL_NAME = "Monitoramento de áreas de risco"
+    private const val NOTIFICATION_TITLE = "Alertas de áreas de risco ativos"
+    private const val NOTIFICATION_TEXT = "Você será avisado ao entrar em uma área de alto risco"
+    private const val MIN_INTERVAL_MS = 60_000L
+    private const val MIN_DISTANCE_METERS = 50f
+
+    fun hasLocationPermission(context: Context): Boolean =
+        ContextCompat.checkSelfPermission(context, Manifest.permission.ACCESS_FINE_LOCATION) ==
+            PackageManager.PERMISSION_GRANTED ||
+            ContextCompat.checkSelfPermission(
+                context, Manifest.permission.ACCESS_COARSE_LOCATION) ==
+                PackageManager.PERMISSION_GRANTED
+  }
+}
@@ -0,0 +1,51 @@
+package com.walkingsafelyapp.riskzones
+
+import android.content.Intent
+import androidx.core.content.ContextCompat
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+
+/**
+ * Starts and stops the service that watches for risk zones outside navigation.
+ */
+class RiskZoneMonitorModule(reactContext: ReactApplicationContext) :
+    ReactContextBaseJavaModule(reactContext) {
+
+  override fun getName(): String = NAME
+
+  /**
+   * Start watching. Resolves false without location permission or when the
+   * system doesn't allow starting it, e.g. from the background.
+   */
+  @ReactMethod
+  fun start(promise: Promise) {
+    val context = reactApplicationContext
+    if (!RiskZoneLocationService.hasLocationPermission(context)) {
+      promise.resolve(false)
+      return
+    }
+
+    try {
+      ContextCompat.startForegroundService(
+          context, Intent(context, RiskZoneLocationService::class.java))
+      promise.resolve(true)
+    } catch (error: IllegalStateException) {
+      promise.resolve(false)
+    } catch (error: SecurityException) {
+      promise.resolve(false)
+    }
+  }
+
+  @ReactMethod
+  fun stop(promise: Promise) {
+    val context = reactApplicationContext
+    context.stopService(Intent(context, RiskZoneLocationService::class.java))
+    promise.resolve(null)
+  }
+
+  companion object {
+    const val NAME = "RiskZoneMonitor"
+  }
+}
@@ -0,0 +1,23 @@
+package com.walkingsafelyapp.riskzones
+
+import android.content.Intent
+import com.facebook.react.HeadlessJsTaskService
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.jstasks.HeadlessJsTaskConfig
+
+/**
+ * Runs the RiskZoneCheck JS task for a position, starting the JS runtime when
+ * the app is closed.
+ */
+class RiskZoneTaskService : HeadlessJsTaskService() {
+
+  override fun getTaskConfig(intent: Intent?): HeadlessJsTaskConfig? {
+    val extras = intent?.extras ?: return null
+    return HeadlessJsTaskConfig(TASK_NAME, Arguments.fromBundle(extras), TASK_TIMEOUT_MS, true)
+  }
+
+  companion object {
+    private const val TASK_NAME = "RiskZoneCheck"
+    private const val TASK_TIMEOUT_MS = 30_000L
+  }
+}
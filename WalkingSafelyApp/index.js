@@ -5,6 +5,10 @@
 import { AppRegistry } from 'react-native';
 
 import App from './src/app/App';
+import { riskZoneCheckTask } from './src/hooks/useRiskZoneMonitor';
+import { RISK_ZONE_TASK } from './src/services/riskZoneMonitor';
 import { name as appName } from './app.json';
 
 AppRegistry.registerComponent(appName, () => App);
+// Risk zone checks from the native monitor, also with the app closed
+AppRegistry.registerHeadlessTask(RISK_ZONE_TASK, () => riskZoneCheckTask);
@@ -10,7 +10,8 @@
 import React, { useEffect } from 'react';
 import { StatusBar } from 'react-native';
 import KeepAwake from 'react-native-keep-awake';
-import { ThemeProvider, useThemeName } from '@/shared/theme';
+import { ThemeProvider, useTheme, useThemeName } from '@/shared/theme';
+import { useSettingsStore } from '@/store/settingsStore';
 import { RootNavigator } from './navigation';
 
 // Initialize i18n
@@ -34,25 +35,51 @@ const StatusBarManager: React.FC = () => {
 };
 
 /**
- * App component
+ * SettingsManager component
  * 
- * Main application component that sets up:
- * - ThemeProvider for light/dark mode support (Requirement 5.1)
- * - RootNavigator with NavigationContainer (Requirement 4.1)
- * - KeepAwake to prevent screen from sleeping during navigation
+ * Applies the saved appearance and screen settings.
+ * Must be inside ThemeProvider to access theme context.
  */
-const App: React.FC = () => {
+const SettingsManager: React.FC = () => {
+  const { setTheme, setUseSystemTheme } = useTheme();
+  const themeMode = useSettingsStore((state) => state.themeMode);
+  const keepScreenAwake = useSettingsStore((state) => state.keepScreenAwake);
+
+  useEffect(() => {
+    if (themeMode === 'system') {
+      setUseSystemTheme(true);
+    } else {
+      setTheme(themeMode);
+    }
+  }, [themeMode, setTheme, setUseSystemTheme]);
+
   // Mantém a tela ligada enquanto o app está aberto
   useEffect(() => {
+    if (!keepScreenAwake) {
+      return;
+    }
     KeepAwake.activate();
     return () => {
       KeepAwake.deactivate();
     };
-  }, []);
+  }, [keepScreenAwake]);
 
+  return null;
+};
+
+/**
+ * App component
+ * 
+ * Main application component that sets up:
+ * - ThemeProvider for light/dark mode support (Requirement 5.1)
+ * - RootNavigator with NavigationContainer (Requirement 4.1)
+ * - KeepAwake to prevent screen from sleeping, unless turned off in settings
+ */
+const App: React.FC = () => {
   return (
     <ThemeProvider>
       <StatusBarManager />
+      <SettingsManager />
       <RootNavigator />
     </ThemeProvider>
   );
@@ -8,15 +8,33 @@
  * @requirements 4.1, 4.2, 11.1, 17.3
  */
 
-import React from 'react';
+import React, {useEffect} from 'react';
 import {createNativeStackNavigator} from '@react-navigation/native-stack';
-import {Coordinates, RouteResponse} from '@/types/models';
+import {useAuthStore, selectIsModerator} from '@/features/auth/store/authStore';
+import {useAlertPreferencesStore} from '@/store/alertPreferencesStore';
+import {useRiskZoneMonitor} from '@/hooks/useRiskZoneMonitor';
+import {Coordinates, Occurrence, RouteResponse} from '@/types/models';
 
 // Screens
 import MapScreen from '@/screens/main/MapScreen';
 import OccurrenceCreateScreen from '@/screens/occurrence/OccurrenceCreateScreen';
+import {OccurrenceDetailScreen} from '@/screens/occurrence/OccurrenceDetailScreen';
+import {MyReportsScreen} from '@/screens/occurrence/MyReportsScreen';
+import {ModerationScreen} from '@/screens/moderation/ModerationScreen';
+import {StatisticsScreen} from '@/screens/statistics/StatisticsScreen';
+import {RegionDetailScreen} from '@/screens/statistics/RegionDetailScreen';
+import {
+  AboutScreen,
+  AlertPreferencesScreen,
+  GeneralSettingsScreen,
+  LanguageSettingsScreen,
+  PrivacySettingsScreen,
+  SettingsScreen,
+} from '@/screens/settings';
 import {RoutePreviewScreen} from '@/screens/route/RoutePreviewScreen';
+import {RouteComparisonScreen} from '@/screens/route/RouteComparisonScreen';
 import {NavigationScreen} from '@/screens/navigation/NavigationScreen';
+import {TrustedContactsScreen} from '@/screens/emergency/TrustedContactsScreen';
 
 /**
  * App stack parameter list type definition
@@ -24,15 +42,36 @@ import {NavigationScreen} from '@/screens/navigation/NavigationScreen';
 export type AppStackParamList = {
   MapScreen: undefined;
   OccurrenceCreate: {coordinates: Coordinates};
+  OccurrenceDetail: {
+    occurrenceId: string;
+    occurrence?: Occurrence;
+  };
   RoutePreview: {
     origin: Coordinates;
     destination: Coordinates;
     destinationAddress?: string;
   };
+  RouteComparison: {
+    origin: Coordinates;
+    destination: Coordinates;
+    destinationAddress?: string;
+  };
   ActiveNavigation: {
     route: RouteResponse;
     sessionId: string;
+    resume?: boolean;
   };
+  TrustedContacts: undefined;
+  MyReports: undefined;
+  Moderation: undefined;
+  StatisticsHome: undefined;
+  RegionDetail: {regionId: string};
+  SettingsHome: undefined;
+  GeneralSettings: undefined;
+  AlertPreferences: undefined;
+  LanguageSettings: undefined;
+  PrivacySettings: undefined;
+  About: undefined;
 };
 
 const Stack = createNativeStackNavigator<AppStackParamList>();
@@ -44,6 +83,17 @@ const Stack = createNativeStackNavigator<AppStackParamList>();
  * Includes MapScreen and OccurrenceCreate screens.
  */
 const AppNavigator: React.FC = () => {
+  const isModerator = useAuthStore(selectIsModerator);
+  const loadAlertPreferences = useAlertPreferencesStore(state => state.load);
+
+  // Risk alerts follow the preferences saved on the account
+  useEffect(() => {
+    void loadAlertPreferences();
+  }, [loadAlertPreferences]);
+
+  // Opt-in alerts for risk zones while not navigating
+  useRiskZoneMonitor();
+
   return (
     <Stack.Navigator
       initialRouteName="MapScreen"
@@ -62,16 +112,84 @@ const AppNavigator: React.FC = () => {
         component={OccurrenceCreateScreen}
         options={{title: 'Reportar Ocorrência'}}
       />
+      <Stack.Screen
+        name="OccurrenceDetail"
+        component={OccurrenceDetailScreen}
+        options={{title: 'Detalhes da Ocorrência'}}
+      />
       <Stack.Screen
         name="RoutePreview"
         component={RoutePreviewScreen}
         options={{title: 'Preview da Rota'}}
       />
+      <Stack.Screen
+        name="RouteComparison"
+        component={RouteComparisonScreen}
+        options={{title: 'Comparar Rotas'}}
+      />
       <Stack.Screen
         name="ActiveNavigation"
         component={NavigationScreen}
         options={{title: 'Navegação'}}
       />
+      <Stack.Screen
+        name="TrustedContacts"
+        component={TrustedContactsScreen}
+        options={{title: 'Contatos de Confiança'}}
+      />
+      <Stack.Screen
+        name="MyReports"
+        component={MyReportsScreen}
+        options={{title: 'Meus Reportes'}}
+      />
+      <Stack.Screen
+        name="StatisticsHome"
+        component={StatisticsScreen}
+        options={{title: 'Estatísticas'}}
+      />
+      <Stack.Screen
+        name="RegionDetail"
+        component={RegionDetailScreen}
+        options={{title: 'Detalhes da Região'}}
+      />
+      <Stack.Screen
+        name="SettingsHome"
+        component={SettingsScreen}
+        options={{title: 'Configurações'}}
+      />
+      <Stack.Screen
+        name="GeneralSettings"
+        component={GeneralSettingsScreen}
+        options={{title: 'Geral'}}
+      />
+      <Stack.Screen
+        name="AlertPreferences"
+        component={AlertPreferencesScreen}
+        options={{title: 'Alertas'}}
+      />
+      <Stack.Screen
+        name="LanguageSettings"
+        component={LanguageSettingsScreen}
+        options={{title: 'Idioma'}}
+      />
+      <Stack.Screen
+        name="PrivacySettings"
+        component={PrivacySettingsScreen}
+        options={{title: 'Privacidade'}}
+      />
+      <Stack.Screen
+        name="About"
+        component={AboutScreen}
+        options={{title: 'Sobre'}}
+      />
+      {/* Role-gated: the route does not exist for regular users */}
+      {isModerator && (
+        <Stack.Screen
+          name="Moderation"
+          component={ModerationScreen}
+          options={{title: 'Moderação'}}
+        />
+      )}
     </Stack.Navigator>
   );
 };
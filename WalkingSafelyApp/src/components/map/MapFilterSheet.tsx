@@ -0,0 +1,248 @@
+/**
+ * MapFilterSheet Component
+ * Bottom sheet for choosing which occurrences the map and the heatmap show
+ */
+
+import React, {memo, useEffect, useState} from 'react';
+import {Modal, Pressable, ScrollView, StyleSheet, Text, TouchableOpacity, View} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {tokens} from '@/shared/theme/tokens';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {OCCURRENCE_TYPES} from '@/utils/occurrenceTypes';
+import {SEVERITY_LEVELS} from '@/utils/severityLevels';
+import {EMPTY_OCCURRENCE_FILTERS, FILTER_PERIODS} from '@/utils/occurrenceFilters';
+import type {OccurrenceFilters} from '@/types/models';
+
+export interface MapFilterSheetProps {
+  visible: boolean;
+  /** Filters currently applied */
+  filters: OccurrenceFilters;
+  onApply: (filters: OccurrenceFilters) => void;
+  onClose: () => void;
+}
+
+/**
+ * Add the value to the list, or remove it when already there
+ */
+const toggleValue = <T,>(values: T[] = [], value: T): T[] =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  isDark: boolean;
+  color?: string;
+}
+
+const Chip: React.FC<ChipProps> = ({label, selected, onPress, isDark, color}) => (
+  <TouchableOpacity
+    style={[
+      styles.chip,
+      {borderColor: color ?? tokens.colors.primary[500]},
+      selected && {backgroundColor: color ?? tokens.colors.primary[500]},
+    ]}
+    onPress={onPress}
+    accessibilityRole="checkbox"
+    accessibilityState={{checked: selected}}>
+    <Text
+      style={[
+        styles.chipText,
+        {color: isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light},
+        selected && styles.chipTextSelected,
+      ]}>
+      {label}
+    </Text>
+  </TouchableOpacity>
+);
+
+const MapFilterSheetComponent: React.FC<MapFilterSheetProps> = ({
+  visible,
+  filters,
+  onApply,
+  onClose,
+}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  // Changes only reach the map when applied
+  const [draft, setDraft] = useState<OccurrenceFilters>(filters);
+
+  useEffect(() => {
+    if (visible) {
+      setDraft(filters);
+    }
+  }, [visible, filters]);
+
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[
+            styles.sheet,
+            {backgroundColor: isDark ? tokens.colors.surface.dark : tokens.colors.background.light},
+          ]}
+          onPress={e => e.stopPropagation()}>
+          <View style={styles.header}>
+            <Text style={[styles.title, {color: textColor}]}>{t('map.filters.title')}</Text>
+            <TouchableOpacity
+              onPress={() => setDraft(EMPTY_OCCURRENCE_FILTERS)}
+              accessibilityRole="button">
+              <Text style={styles.clearText}>{t('map.filters.clear')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView>
+            {/* Time window */}
+            <Text style={[styles.sectionTitle, {color: textColor}]}>{t('map.filters.period')}</Text>
+            <View style={styles.chips}>
+              <Chip
+                label={t('map.filters.periods.all')}
+                selected={!draft.period}
+                onPress={() => setDraft(current => ({...current, period: undefined}))}
+                isDark={isDark}
+              />
+              {FILTER_PERIODS.map(period => (
+                <Chip
+                  key={period}
+                  label={t(`map.filters.periods.${period}`)}
+                  selected={draft.period === period}
+                  onPress={() => setDraft(current => ({...current, period}))}
+                  isDark={isDark}
+                />
+              ))}
+            </View>
+
+            {/* Severity */}
+            <Text style={[styles.sectionTitle, {color: textColor}]}>
+              {t('map.filters.severity')}
+            </Text>
+            <View style={styles.chips}>
+              {SEVERITY_LEVELS.map(level => (
+                <Chip
+                  key={level.value}
+                  label={t(level.labelKey)}
+                  color={level.color}
+                  selected={draft.severity?.includes(level.value) ?? false}
+                  onPress={() =>
+                    setDraft(current => ({
+                      ...current,
+                      severity: toggleValue(current.severity, level.value),
+                    }))
+                  }
+                  isDark={isDark}
+                />
+              ))}
+            </View>
+
+            {/* Crime types */}
+            <Text style={[styles.sectionTitle, {color: textColor}]}>
+              {t('map.filters.crimeTypes')}
+            </Text>
+            <View style={styles.chips}>
+              {OCCURRENCE_TYPES.map(type => (
+                <Chip
+                  key={type.id}
+                  label={t(type.nameKey)}
+                  selected={draft.crimeTypes?.includes(type.id) ?? false}
+                  onPress={() =>
+                    setDraft(current => ({
+                      ...current,
+                      crimeTypes: toggleValue(current.crimeTypes, type.id),
+                    }))
+                  }
+                  isDark={isDark}
+                />
+              ))}
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity
+            style={styles.applyButton}
+            onPress={() => onApply(draft)}
+            accessibilityRole="button">
+            <Text style={styles.applyButtonText}>{t('map.filters.apply')}</Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '80%',
+    borderTopLeftRadius: tokens.borderRadius.xl,
+    borderTopRightRadius: tokens.borderRadius.xl,
+    padding: tokens.spacing.lg,
+    ...tokens.shadow.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: tokens.spacing.md,
+  },
+  title: {
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  clearText: {
+    color: tokens.colors.primary[500],
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+    marginTop: tokens.spacing.md,
+    marginBottom: tokens.spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: tokens.spacing.sm,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: tokens.borderRadius.full,
+    paddingHorizontal: tokens.spacing.md,
+    paddingVertical: tokens.spacing.xs,
+  },
+  chipText: {
+    fontSize: tokens.typography.fontSize.sm,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  applyButton: {
+    backgroundColor: tokens.colors.primary[500],
+    borderRadius: tokens.borderRadius.md,
+    paddingVertical: tokens.spacing.md,
+    alignItems: 'center',
+    marginTop: tokens.spacing.lg,
+  },
+  applyButtonText: {
+    color: '#FFFFFF',
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+});
+
+/**
+ * Memoized MapFilterSheet to prevent unnecessary re-renders
+ */
+export const MapFilterSheet = memo(MapFilterSheetComponent);
+
+MapFilterSheet.displayName = 'MapFilterSheet';
+
+export default MapFilterSheet;
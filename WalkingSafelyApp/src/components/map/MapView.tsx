@@ -13,8 +13,11 @@ import React, {
 } from 'react';
 import {StyleSheet, View} from 'react-native';
 import {WebView} from 'react-native-webview';
+import {useMapStore} from '../../store/mapStore';
 import {Coordinates, MapBounds} from '../../types/models';
 import {DEFAULT_LOCATION} from '../../utils/constants';
+import {buildHeatmapLayerData} from './heatmapLayer';
+import {clusterMarkers} from './markerClustering';
 
 export interface Region {
   latitude: number;
@@ -38,18 +41,25 @@ export interface MapViewProps {
   userHeading?: number;
   compassMode?: boolean;
   destination?: Coordinates | null;
+  /** Intermediate stops, drawn as numbered markers */
+  stops?: Coordinates[];
   routeCoordinates?: Coordinates[];
+  /** Several routes drawn at once, each in its own color */
+  routeOptions?: MapRouteOption[];
+  onRouteOptionPress?: (routeId: string) => void;
   occurrences?: Array<{
     id: string;
     location: Coordinates;
     crimeType: string;
     severity: string;
+    /** Delivery status of reports still in the outbox */
+    status?: 'pending' | 'failed';
   }>;
   heatmapEnabled?: boolean;
   tapToSelectEnabled?: boolean;
   onMapTap?: (coordinates: Coordinates) => void;
   onLongPress?: (coordinates: Coordinates) => void;
-  onOccurrencePress?: (occurrence: {id: string; location: Coordinates; crimeType: string; severity: string}) => void;
+  onOccurrencePress?: (occurrence: {id: string; location: Coordinates; crimeType: string; severity: string; status?: 'pending' | 'failed'}) => void;
   onRegionChange?: (region: Region) => void;
   onRegionChangeComplete?: (region: Region, bounds: MapBounds) => void;
   onMapReady?: () => void;
@@ -63,6 +73,14 @@ export interface RouteSegmentData {
   color: string;
 }
 
+export interface MapRouteOption {
+  id: string;
+  coordinates: Coordinates[];
+  color: string;
+  /** Selected route is drawn on top, the others are faded */
+  selected?: boolean;
+}
+
 export interface MapViewRef {
   animateToCoordinate: (coordinate: Coordinates, duration?: number) => void;
   animateToRegion: (region: Region, duration?: number) => void;
@@ -133,6 +151,13 @@ const generateMapHTML = (initialLat?: number, initialLng?: number) => {
       border-radius: 50% 50% 50% 0; transform: rotate(-45deg);
       box-shadow: 0 2px 6px rgba(0,0,0,0.3);
     }
+    .stop-marker {
+      width: 26px; height: 26px;
+      display: flex; align-items: center; justify-content: center;
+      background: #FF9800; border: 3px solid white; border-radius: 50%;
+      color: white; font-size: 13px; font-weight: bold;
+      box-shadow: 0 2px 6px rgba(0,0,0,0.3);
+    }
     .selected-marker {
       width: 40px; height: 40px;
       display: flex; align-items: center; justify-content: center;
@@ -149,6 +174,13 @@ const generateMapHTML = (initialLat?: number, initialLng?: number) => {
     .occurrence-marker.high { background: #F44336; }
     .occurrence-marker.medium { background: #FF9800; }
     .occurrence-marker.low { background: #FFC107; }
+    .occurrence-marker.pending { opacity: 0.6; border-style: dashed; }
+    .occurrence-marker.failed { border-color: #F44336; border-width: 3px; }
+    .occurrence-cluster {
+      display: flex; align-items: center; justify-content: center;
+      border-radius: 50%; border: 3px solid white; color: white;
+      box-shadow: 0 2px 6px rgba(0,0,0,0.4); font-size: 14px; font-weight: 700;
+    }
     .occurrence-popup { font-family: -apple-system, BlinkMacSystemFont, sans-serif; min-width: 150px; }
     .occurrence-popup .crime-type { font-weight: 600; font-size: 14px; margin-bottom: 4px; }
     .occurrence-popup .severity { font-size: 12px; color: #666; text-transform: capitalize; }
@@ -221,10 +253,14 @@ const generateMapHTML = (initialLat?: number, initialLng?: number) => {
     L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', { maxZoom: 19 }).addTo(map);
     
     var userMarker = null, destinationMarker = null, selectedMarker = null;
-    var routePolyline = null, occurrenceMarkers = [];
+    var routePolyline = null, occurrenceMarkers = {}, occurrenceClusters = {};
     var heatmapLayer = null;
     var heatmapEnabled = false;
     var heatmapData = [];
+    var heatmapGrid = [];
+    var heatmapOptions = null;
+    var heatmapGradient = null;
+    var externalHeatmap = false;
     var hasCenteredOnUser = ${hasValidInitial};
     
     // Update compass icon rotation when map bearing changes
@@ -549,13 +585,31 @@ const generateMapHTML = (initialLat?: number, initialLng?: number) => {
       }
     }
     
-    function setOccurrences(occs) {
-      occurrenceMarkers.forEach(function(m) { map.removeLayer(m); });
-      occurrenceMarkers = [];
-      if (!occs || !Array.isArray(occs)) { return; }
+    var stopMarkers = [];
+
+    function setStops(stops) {
+      stopMarkers.forEach(function(m) { map.removeLayer(m); });
+      stopMarkers = [];
+      (stops || []).forEach(function(stop, index) {
+        if (!stop || isNaN(stop.lat) || isNaN(stop.lng)) return;
+        var icon = L.divIcon({ className: '', html: '<div class="stop-marker">' + (index + 1) + '</div>', iconSize: [26, 26], iconAnchor: [13, 13] });
+        stopMarkers.push(L.marker([stop.lat, stop.lng], { icon: icon }).addTo(map));
+      });
+    }
+
+    // Markers are kept by occurrence id and only redrawn when they change,
+    // so reloading the same area or changing filters doesn't flicker.
+    // Occurrences inside a cluster are drawn as the cluster badge instead.
+    function setOccurrences(occs, clusters) {
+      var nextMarkers = {}, clustered = {};
+      if (!occs || !Array.isArray(occs)) { occs = []; }
+      if (!clusters || !Array.isArray(clusters)) { clusters = []; }
+      clusters.forEach(function(cluster) {
+        cluster.ids.forEach(function(id) { clustered[id] = true; });
+      });
       
-      // Store data for heatmap
-      heatmapData = [];
+      // Store data for heatmap (unless the app provides heatmap data itself)
+      if (!externalHeatmap) heatmapData = [];
       
       occs.forEach(function(occ) {
         if (!occ.lat || !occ.lng || isNaN(occ.lat) || isNaN(occ.lng)) { return; }
@@ -566,9 +620,20 @@ const generateMapHTML = (initialLat?: number, initialLng?: number) => {
         else if (occ.severity === 'high') weight = 0.8;
         else if (occ.severity === 'medium') weight = 0.5;
         else if (occ.severity === 'low') weight = 0.3;
-        heatmapData.push([occ.lat, occ.lng, weight]);
+        if (!externalHeatmap && !occ.status) heatmapData.push([occ.lat, occ.lng, weight]);
+        if (clustered[occ.id]) { return; }
         
-        var iconHtml = '<div class="occurrence-marker ' + (occ.severity || 'medium') + '">&#x26A0;</div>';
+        var markerKey = [occ.lat, occ.lng, occ.severity, occ.status, occ.crimeType].join('|');
+        var existing = occurrenceMarkers[occ.id];
+        if (existing && existing.key === markerKey) {
+          nextMarkers[occ.id] = existing;
+          delete occurrenceMarkers[occ.id];
+          return;
+        }
+        
+        // Reports still in the outbox are drawn dashed (pending) or outlined red (failed)
+        var statusClass = occ.status ? ' ' + occ.status : '';
+        var iconHtml = '<div class="occurrence-marker ' + (occ.severity || 'medium') + statusClass + '">' + (occ.status === 'failed' ? '!' : '&#x26A0;') + '</div>';
         var icon = L.divIcon({ className: '', html: iconHtml, iconSize: [32, 32], iconAnchor: [16, 16] });
         var marker = L.marker([occ.lat, occ.lng], { icon: icon }).addTo(map);
         // Requirement 3.1: Send message to React Native when occurrence marker is tapped
@@ -580,19 +645,52 @@ const generateMapHTML = (initialLat?: number, initialLng?: number) => {
               latitude: occ.lat,
               longitude: occ.lng,
               crimeType: occ.crimeType,
-              severity: occ.severity
+              severity: occ.severity,
+              status: occ.status
             }
           }));
         });
-        occurrenceMarkers.push(marker);
+        nextMarkers[occ.id] = { marker: marker, key: markerKey };
       });
       
+      // Remove markers that are gone or were redrawn above
+      Object.keys(occurrenceMarkers).forEach(function(id) { map.removeLayer(occurrenceMarkers[id].marker); });
+      occurrenceMarkers = nextMarkers;
+      setClusters(clusters);
+      
       // Update heatmap if enabled
       if (heatmapEnabled) {
         updateHeatmap();
       }
     }
     
+    // Cluster badges show the marker count in the colour of the highest severity,
+    // tapping one zooms in until it splits
+    function setClusters(clusters) {
+      var nextClusters = {};
+      clusters.forEach(function(cluster) {
+        var clusterKey = [cluster.lat, cluster.lng, cluster.count, cluster.color].join('|');
+        var existing = occurrenceClusters[cluster.id];
+        if (existing && existing.key === clusterKey) {
+          nextClusters[cluster.id] = existing;
+          delete occurrenceClusters[cluster.id];
+          return;
+        }
+        
+        var size = cluster.count < 10 ? 36 : cluster.count < 100 ? 42 : 48;
+        var iconHtml = '<div class="occurrence-cluster" style="width: ' + size + 'px; height: ' + size + 'px; background: ' + cluster.color + ';">' + cluster.count + '</div>';
+        var icon = L.divIcon({ className: '', html: iconHtml, iconSize: [size, size], iconAnchor: [size / 2, size / 2] });
+        var marker = L.marker([cluster.lat, cluster.lng], { icon: icon }).addTo(map);
+        marker.on('click', function() {
+          map.setView([cluster.lat, cluster.lng], cluster.expansionZoom, { animate: true });
+        });
+        nextClusters[cluster.id] = { marker: marker, key: clusterKey };
+      });
+      
+      Object.keys(occurrenceClusters).forEach(function(id) { map.removeLayer(occurrenceClusters[id].marker); });
+      occurrenceClusters = nextClusters;
+    }
+    
     // Heatmap functions
     function setHeatmapEnabled(enabled) {
       heatmapEnabled = enabled;
@@ -616,25 +714,39 @@ const generateMapHTML = (initialLat?: number, initialLng?: number) => {
         return;
       }
       
-      // Create heatmap layer with custom gradient (green to red)
-      heatmapLayer = L.heatLayer(heatmapData, {
-        radius: 30,
-        blur: 20,
-        maxZoom: 18,
-        max: 1.0,
-        minOpacity: 0.35,
-        gradient: {
-          0.0: '#22c55e',  // Green - safe
-          0.25: '#84cc16', // Lime
-          0.4: '#eab308',  // Yellow - caution
-          0.55: '#f97316', // Orange - warning
-          0.7: '#ef4444',  // Red - danger
-          1.0: '#dc2626'   // Dark red - high danger
-        }
-      }).addTo(map);
+      if (typeof L.heatLayer !== 'function') {
+        // leaflet.heat failed to load - draw the clustered grid instead
+        heatmapLayer = L.layerGroup(heatmapGrid.map(function(cell) {
+          return L.rectangle([[cell.south, cell.west], [cell.north, cell.east]], {
+            stroke: false,
+            fillColor: cell.color,
+            fillOpacity: 0.2 + cell.weight * 0.4,
+            interactive: false
+          });
+        })).addTo(map);
+      } else {
+        // Create heatmap layer with custom gradient (green to red)
+        var options = heatmapOptions || { radius: 30, blur: 20, max: 1.0, minOpacity: 0.35 };
+        heatmapLayer = L.heatLayer(heatmapData, {
+          radius: options.radius,
+          blur: options.blur,
+          maxZoom: 18,
+          max: options.max,
+          minOpacity: options.minOpacity,
+          gradient: heatmapGradient || {
+            0.0: '#22c55e',  // Green - safe
+            0.25: '#84cc16', // Lime
+            0.4: '#eab308',  // Yellow - caution
+            0.55: '#f97316', // Orange - warning
+            0.7: '#ef4444',  // Red - danger
+            1.0: '#dc2626'   // Dark red - high danger
+          }
+        }).addTo(map);
+      }
       
       // Bring markers to front so they're visible over heatmap
-      occurrenceMarkers.forEach(function(m) { m.bringToFront(); });
+      Object.keys(occurrenceMarkers).forEach(function(id) { occurrenceMarkers[id].marker.bringToFront(); });
+      Object.keys(occurrenceClusters).forEach(function(id) { occurrenceClusters[id].marker.bringToFront(); });
       if (userMarker) userMarker.bringToFront();
     }
     
@@ -651,6 +763,20 @@ const generateMapHTML = (initialLat?: number, initialLng?: number) => {
       }
     }
     
+    // Heatmap data prepared by the app (points, fallback grid and zoom-scaled options)
+    function setHeatmapLayer(payload) {
+      externalHeatmap = true;
+      heatmapData = (payload.points || []).map(function(point) {
+        return [point.lat, point.lng, point.weight];
+      });
+      heatmapGrid = payload.grid || [];
+      heatmapOptions = payload.options || null;
+      heatmapGradient = payload.gradient || null;
+      if (heatmapEnabled) {
+        updateHeatmap();
+      }
+    }
+    
     function drawRoute(coords) {
       clearRoute();
       if (!coords || !Array.isArray(coords) || coords.length < 2) {
@@ -716,6 +842,54 @@ const generateMapHTML = (initialLat?: number, initialLng?: number) => {
       });
     }
     
+    // Alternative routes shown side by side, kept apart from the active route
+    var routeOptionPolylines = [];
+    var routeOptionIds = '';
+
+    function drawRouteOptions(options) {
+      routeOptionPolylines.forEach(function(p) { map.removeLayer(p); });
+      routeOptionPolylines = [];
+      if (!options || !Array.isArray(options) || options.length === 0) {
+        routeOptionIds = '';
+        return;
+      }
+
+      // Selected route last so it is drawn above the others
+      var ordered = options.filter(function(o) { return !o.selected; })
+        .concat(options.filter(function(o) { return o.selected; }));
+      var bounds = null;
+
+      ordered.forEach(function(option) {
+        var latLngs = (option.coords || []).filter(function(c) {
+          return c && typeof c.lat === 'number' && typeof c.lng === 'number' &&
+                 !isNaN(c.lat) && !isNaN(c.lng);
+        }).map(function(c) { return [c.lat, c.lng]; });
+        if (latLngs.length < 2) {
+          return;
+        }
+
+        var polyline = L.polyline(latLngs, {
+          color: option.color || '#4285F4',
+          weight: option.selected ? 7 : 5,
+          opacity: option.selected ? 0.95 : 0.5,
+          lineJoin: 'round',
+          lineCap: 'round'
+        }).addTo(map);
+        polyline.on('click', function() {
+          window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'routeOptionPress', routeId: option.id }));
+        });
+        routeOptionPolylines.push(polyline);
+        bounds = bounds ? bounds.extend(polyline.getBounds()) : polyline.getBounds();
+      });
+
+      // Fit all routes only when the set of routes changes, not on selection
+      var ids = options.map(function(o) { return o.id; }).join(',');
+      if (bounds && ids !== routeOptionIds) {
+        map.fitBounds(bounds, { padding: [50, 50] });
+      }
+      routeOptionIds = ids;
+    }
+
     function clearRoute() { 
       // Clear single polyline
       if (routePolyline) { 
@@ -748,6 +922,7 @@ const generateMapHTML = (initialLat?: number, initialLng?: number) => {
       window.ReactNativeWebView.postMessage(JSON.stringify({
         type: 'regionChange',
         region: { latitude: center.lat, longitude: center.lng, latitudeDelta: delta, longitudeDelta: delta },
+        zoom: zoom,
         bounds: { northEast: { latitude: bounds.getNorth(), longitude: bounds.getEast() }, southWest: { latitude: bounds.getSouth(), longitude: bounds.getWest() } }
       }));
     }
@@ -772,7 +947,10 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(
       userHeading = 0,
       compassMode = false,
       destination,
+      stops,
       routeCoordinates,
+      routeOptions,
+      onRouteOptionPress,
       occurrences,
       heatmapEnabled = false,
       tapToSelectEnabled = false,
@@ -793,6 +971,10 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(
     const hasInitializedRef = useRef(false);
     const pendingPositionRef = useRef<Coordinates | null>(null);
     const lastNavigationModeRef = useRef(false);
+    const [zoomLevel, setZoomLevel] = useState(DEFAULT_ZOOM);
+
+    // Requirement 9.1: Heatmap points loaded for the visible region
+    const heatmapData = useMapStore(state => state.heatmapData);
     
     const mapHTML = React.useMemo(() => {
       const lat = userPosition?.latitude;
@@ -862,7 +1044,8 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(
         const markers = occs.filter(o => o?.location?.latitude && o?.location?.longitude).map(o => ({
           id: o.id, lat: o.location.latitude, lng: o.location.longitude, crimeType: o.crimeType, severity: o.severity,
         }));
-        injectJS(`setOccurrences(${JSON.stringify(markers)})`);
+        const {clusters} = clusterMarkers(markers, zoomLevel);
+        injectJS(`setOccurrences(${JSON.stringify(markers)}, ${JSON.stringify(clusters)})`);
       },
       enableTapToSelect: (enable: boolean) => injectJS(`tapToSelectEnabled = ${enable}`),
       setSelectedLocation: (coordinate: Coordinates | null) => {
@@ -947,6 +1130,14 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(
       }
     }, [isMapReady, heatmapEnabled, injectJS]);
 
+    // Push heatmap points with zoom-scaled options (Requirements 9.1, 9.6)
+    useEffect(() => {
+      if (isMapReady && heatmapEnabled) {
+        const layerData = buildHeatmapLayerData(heatmapData, zoomLevel);
+        injectJS(`setHeatmapLayer(${JSON.stringify(layerData)})`);
+      }
+    }, [isMapReady, heatmapEnabled, heatmapData, zoomLevel, injectJS]);
+
     // Update map rotation based on user heading
     // Only apply rotation when we have a valid heading (> 0)
     useEffect(() => {
@@ -971,6 +1162,12 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(
       }
     }, [isMapReady, destination, injectJS]);
 
+    useEffect(() => {
+      if (!isMapReady || !stops) return;
+      const coords = stops.map(stop => ({lat: stop.latitude, lng: stop.longitude}));
+      injectJS(`setStops(${JSON.stringify(coords)})`);
+    }, [isMapReady, stops, injectJS]);
+
     useEffect(() => {
       if (isMapReady && routeCoordinates && routeCoordinates.length > 0) {
         const coords = routeCoordinates.filter(c => c?.latitude && c?.longitude).map(c => ({lat: c.latitude, lng: c.longitude}));
@@ -978,19 +1175,32 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(
       }
     }, [isMapReady, routeCoordinates, injectJS]);
 
+    useEffect(() => {
+      if (!isMapReady || !routeOptions) return;
+      const options = routeOptions.map(option => ({
+        id: option.id,
+        color: option.color,
+        selected: option.selected === true,
+        coords: option.coordinates.filter(c => c?.latitude && c?.longitude).map(c => ({lat: c.latitude, lng: c.longitude})),
+      }));
+      injectJS(`drawRouteOptions(${JSON.stringify(options)})`);
+    }, [isMapReady, routeOptions, injectJS]);
+
     useEffect(() => {
       if (!isMapReady || !occurrences) return;
       
       // Small delay to ensure WebView has processed mapReady
       const timer = setTimeout(() => {
         const markers = occurrences.filter(o => o?.location?.latitude && o?.location?.longitude).map(o => ({
-          id: o.id, lat: o.location.latitude, lng: o.location.longitude, crimeType: o.crimeType, severity: o.severity,
+          id: o.id, lat: o.location.latitude, lng: o.location.longitude, crimeType: o.crimeType, severity: o.severity, status: o.status,
         }));
-        injectJS(`setOccurrences(${JSON.stringify(markers)})`);
+        // Nearby markers are grouped into clusters when zoomed out
+        const {clusters} = clusterMarkers(markers, zoomLevel);
+        injectJS(`setOccurrences(${JSON.stringify(markers)}, ${JSON.stringify(clusters)})`);
       }, 100);
       
       return () => clearTimeout(timer);
-    }, [isMapReady, occurrences, injectJS]);
+    }, [isMapReady, occurrences, zoomLevel, injectJS]);
 
     const handleMessage = useCallback((event: any) => {
       try {
@@ -1003,12 +1213,14 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(
         }
         else if (data.type === 'regionChange') {
           if (data.bounds) currentBoundsRef.current = data.bounds;
+          if (typeof data.zoom === 'number') setZoomLevel(Math.round(data.zoom));
           onRegionChange?.(data.region);
           onRegionChangeComplete?.(data.region, data.bounds);
         }
         else if (data.type === 'mapTap') { onMapTap?.({ latitude: data.latitude, longitude: data.longitude }); }
         else if (data.type === 'longPress') { onLongPress?.({ latitude: data.latitude, longitude: data.longitude }); }
         else if (data.type === 'compassModeChanged') { onCompassModeChange?.(data.enabled); }
+        else if (data.type === 'routeOptionPress') { onRouteOptionPress?.(data.routeId); }
         else if (data.type === 'occurrencePress') {
           // Requirement 3.1: Handle occurrence marker tap
           const occ = data.occurrence;
@@ -1017,10 +1229,11 @@ export const MapView = forwardRef<MapViewRef, MapViewProps>(
             location: { latitude: occ.latitude, longitude: occ.longitude },
             crimeType: occ.crimeType,
             severity: occ.severity,
+            status: occ.status,
           });
         }
       } catch (e) { console.warn('MapView message parse error:', e); }
-    }, [onMapReady, onRegionChange, onRegionChangeComplete, onMapTap, onLongPress, onOccurrencePress, onCompassModeChange]);
+    }, [onMapReady, onRegionChange, onRegionChangeComplete, onMapTap, onLongPress, onOccurrencePress, onCompassModeChange, onRouteOptionPress]);
 
     return (
       <View style={[styles.container, style]}>
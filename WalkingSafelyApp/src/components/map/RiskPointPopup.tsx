@@ -24,6 +24,7 @@ export interface RiskPointPopupProps {
   visible: boolean;
   onClose: () => void;
   onDelete?: (id: string) => void;
+  onViewDetails?: (id: string) => void;
 }
 
 /**
@@ -72,7 +73,7 @@ const getSeverityLabel = (severity: OccurrenceSeverity): string => {
  * - 3.5: Allow user to close and return to map
  */
 export const RiskPointPopup: React.FC<RiskPointPopupProps> = memo(
-  ({occurrence, visible, onClose, onDelete}) => {
+  ({occurrence, visible, onClose, onDelete, onViewDetails}) => {
     const {theme} = useTheme();
     const isDark = theme === 'dark';
     const {user} = useAuthStore();
@@ -87,8 +88,13 @@ export const RiskPointPopup: React.FC<RiskPointPopupProps> = memo(
     const hasDescription = description !== null && description !== undefined && description.trim() !== '';
     
     // Check if current user owns this occurrence
+    // Anonymous reports never show who sent them, not even to their reporter
     console.log('[RiskPointPopup] user:', user?.id, 'createdBy:', occurrence.createdBy);
-    const canDelete = user && occurrence.createdBy && String(occurrence.createdBy) === String(user.id);
+    const canDelete =
+      !occurrence.isAnonymous &&
+      user &&
+      occurrence.createdBy &&
+      String(occurrence.createdBy) === String(user.id);
 
     const handleDelete = () => {
       Alert.alert(
@@ -263,6 +269,20 @@ export const RiskPointPopup: React.FC<RiskPointPopupProps> = memo(
                   </View>
                 )}
 
+                {/* Details and voting */}
+                {onViewDetails && (
+                  <TouchableOpacity
+                    onPress={() => onViewDetails(occurrence.id)}
+                    style={[
+                      styles.actionButton,
+                      {backgroundColor: tokens.colors.info},
+                    ]}
+                    accessibilityRole="button"
+                    accessibilityLabel="Ver detalhes e confirmar ocorrência">
+                    <Text style={styles.actionButtonText}>Ver detalhes</Text>
+                  </TouchableOpacity>
+                )}
+
                 {/* Close button (Req 3.5) */}
                 <TouchableOpacity
                   onPress={onClose}
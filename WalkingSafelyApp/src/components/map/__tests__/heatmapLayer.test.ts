@@ -0,0 +1,126 @@
+/**
+ * Tests for the Heatmap Layer data preparation
+ *
+ * **Property 21: Heatmap Layer Weights and Zoom Scaling**
+ * **Validates: Requirements 9.1, 9.3, 9.6**
+ *
+ * For a fixed set of heatmap points, the layer SHALL normalize weights to 0..1,
+ * shrink the heat radius when zooming out, and cluster points into a grid whose
+ * cells conserve every point when the heat layer is unavailable.
+ */
+
+import type {HeatmapPoint} from '../../../types/models';
+import {
+  HEATMAP_GRADIENT,
+  buildHeatmapGrid,
+  buildHeatmapLayerData,
+  getHeatmapColor,
+  getHeatmapLayerOptions,
+  normalizeHeatmapPoints,
+} from '../heatmapLayer';
+
+/**
+ * Fixture: three reports around Praça da Sé, a zero-weight point and an invalid point
+ */
+const FIXTURE_POINTS: HeatmapPoint[] = [
+  {latitude: -23.5505, longitude: -46.6333, weight: 8},
+  {latitude: -23.5506, longitude: -46.6334, weight: 2},
+  {latitude: -23.561, longitude: -46.656, weight: 4},
+  {latitude: -23.5489, longitude: -46.6388, weight: 0},
+  {latitude: NaN, longitude: -46.6, weight: 3},
+];
+
+describe('Heatmap Layer', () => {
+  describe('normalizeHeatmapPoints', () => {
+    it('should scale weights relative to the heaviest point', () => {
+      const points = normalizeHeatmapPoints(FIXTURE_POINTS);
+
+      expect(points).toEqual([
+        {lat: -23.5505, lng: -46.6333, weight: 1},
+        {lat: -23.5506, lng: -46.6334, weight: 0.25},
+        {lat: -23.561, lng: -46.656, weight: 0.5},
+      ]);
+    });
+
+    it('should return no points for an empty dataset', () => {
+      expect(normalizeHeatmapPoints([])).toEqual([]);
+    });
+  });
+
+  describe('getHeatmapLayerOptions', () => {
+    it('should grow the radius and lower the max intensity when zooming in', () => {
+      const city = getHeatmapLayerOptions(11);
+      const street = getHeatmapLayerOptions(17);
+
+      expect(street.radius).toBeGreaterThan(city.radius);
+      expect(street.blur).toBeGreaterThan(city.blur);
+      expect(street.max).toBeLessThan(city.max);
+    });
+
+    it('should clamp zoom levels outside the supported range', () => {
+      expect(getHeatmapLayerOptions(3)).toEqual(getHeatmapLayerOptions(10));
+      expect(getHeatmapLayerOptions(21)).toEqual(getHeatmapLayerOptions(18));
+      expect(getHeatmapLayerOptions(18)).toEqual({
+        radius: 40,
+        blur: 25,
+        max: 0.6,
+        minOpacity: 0.35,
+      });
+    });
+  });
+
+  describe('getHeatmapColor', () => {
+    it('should map weights to the gradient stop at or below them', () => {
+      expect(getHeatmapColor(0)).toBe(HEATMAP_GRADIENT[0]);
+      expect(getHeatmapColor(0.3)).toBe(HEATMAP_GRADIENT[0.25]);
+      expect(getHeatmapColor(0.7)).toBe(HEATMAP_GRADIENT[0.7]);
+      expect(getHeatmapColor(1)).toBe(HEATMAP_GRADIENT[1]);
+      expect(getHeatmapColor(5)).toBe(HEATMAP_GRADIENT[1]);
+    });
+  });
+
+  describe('buildHeatmapGrid', () => {
+    it('should merge nearby points into a single cell at city zoom', () => {
+      const grid = buildHeatmapGrid(FIXTURE_POINTS, 14);
+      const totalCount = grid.reduce((sum, cell) => sum + cell.count, 0);
+      const hottest = grid.find(cell => cell.weight === 1);
+
+      // The invalid point is skipped, every other point lands in a cell
+      expect(totalCount).toBe(4);
+      expect(hottest?.count).toBe(2);
+      expect(hottest?.color).toBe(HEATMAP_GRADIENT[1]);
+    });
+
+    it('should split points into more cells when zooming in', () => {
+      expect(buildHeatmapGrid(FIXTURE_POINTS, 18).length).toBeGreaterThan(
+        buildHeatmapGrid(FIXTURE_POINTS, 10).length,
+      );
+    });
+
+    it('should produce cells that contain their points', () => {
+      const grid = buildHeatmapGrid(FIXTURE_POINTS.slice(0, 3), 16);
+
+      FIXTURE_POINTS.slice(0, 3).forEach(point => {
+        const containing = grid.filter(
+          cell =>
+            point.latitude >= cell.south &&
+            point.latitude < cell.north &&
+            point.longitude >= cell.west &&
+            point.longitude < cell.east,
+        );
+        expect(containing).toHaveLength(1);
+      });
+    });
+  });
+
+  describe('buildHeatmapLayerData', () => {
+    it('should bundle points, grid and options for the same zoom', () => {
+      const data = buildHeatmapLayerData(FIXTURE_POINTS, 15);
+
+      expect(data.points).toHaveLength(3);
+      expect(data.grid).toEqual(buildHeatmapGrid(FIXTURE_POINTS, 15));
+      expect(data.options).toEqual(getHeatmapLayerOptions(15));
+      expect(data.gradient).toBe(HEATMAP_GRADIENT);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Property-Based Tests for Marker Clustering
+ *
+ * **Property 33: Marker Clustering**
+ *
+ * For any set of markers and zoom level, every marker SHALL be drawn exactly
+ * once, either on its own or inside a cluster coloured by its highest severity,
+ * zooming in SHALL only split clusters, and tapping a cluster SHALL zoom to a
+ * level where it no longer holds all of its markers.
+ */
+
+import * as fc from 'fast-check';
+
+import {SEVERITY_COLORS, getSeverityByValue} from '../../../utils/severityLevels';
+import {
+  CLUSTER_MAX_ZOOM,
+  ClusterablePoint,
+  MIN_CLUSTER_SIZE,
+  clusterMarkers,
+  getHighestSeverity,
+} from '../markerClustering';
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+/**
+ * Helper: Markers around the center of São Paulo, close enough to cluster
+ */
+const pointsArbitrary = fc
+  .array(
+    fc.record({
+      lat: fc.double({min: -23.6, max: -23.5, noNaN: true}),
+      lng: fc.double({min: -46.7, max: -46.6, noNaN: true}),
+      severity: fc.constantFrom(...SEVERITIES),
+      status: fc.option(fc.constantFrom('pending' as const, 'failed' as const), {
+        nil: undefined,
+        freq: 5,
+      }),
+    }),
+    {maxLength: 60},
+  )
+  .map(items => items.map((item, index): ClusterablePoint => ({id: String(index), ...item})));
+
+const zoomArbitrary = fc.integer({min: 3, max: CLUSTER_MAX_ZOOM + 2});
+
+describe('Marker Clustering', () => {
+  describe('Property 33: Marker clustering', () => {
+    it('should draw every marker exactly once', () => {
+      fc.assert(
+        fc.property(pointsArbitrary, zoomArbitrary, (points, zoom) => {
+          const {clusters, markers} = clusterMarkers(points, zoom);
+          const drawn = [
+            ...markers.map(point => point.id),
+            ...clusters.flatMap(cluster => cluster.ids),
+          ];
+          return (
+            drawn.length === points.length &&
+            new Set(drawn).size === points.length &&
+            clusters.every(
+              cluster => cluster.count === cluster.ids.length && cluster.count >= MIN_CLUSTER_SIZE,
+            )
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should colour clusters by the highest severity inside', () => {
+      fc.assert(
+        fc.property(pointsArbitrary, zoomArbitrary, (points, zoom) => {
+          const byId = new Map(points.map(point => [point.id, point]));
+          return clusterMarkers(points, zoom).clusters.every(cluster => {
+            const orders = cluster.ids.map(
+              id =>
+                getSeverityByValue(byId.get(id)!.severity as (typeof SEVERITIES)[number])!.order,
+            );
+            return (
+              getSeverityByValue(cluster.severity)!.order === Math.max(...orders) &&
+              cluster.color === SEVERITY_COLORS[cluster.severity]
+            );
+          });
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should place clusters among their markers', () => {
+      fc.assert(
+        fc.property(pointsArbitrary, zoomArbitrary, (points, zoom) => {
+          const byId = new Map(points.map(point => [point.id, point]));
+          return clusterMarkers(points, zoom).clusters.every(cluster => {
+            const members = cluster.ids.map(id => byId.get(id)!);
+            const epsilon = 1e-9;
+            return (
+              cluster.lat >= Math.min(...members.map(point => point.lat)) - epsilon &&
+              cluster.lat <= Math.max(...members.map(point => point.lat)) + epsilon &&
+              cluster.lng >= Math.min(...members.map(point => point.lng)) - epsilon &&
+              cluster.lng <= Math.max(...members.map(point => point.lng)) + epsilon
+            );
+          });
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should only split clusters when zooming in', () => {
+      fc.assert(
+        fc.property(
+          pointsArbitrary,
+          fc.integer({min: 3, max: CLUSTER_MAX_ZOOM}),
+          (points, zoom) => {
+            const outer = clusterMarkers(points, zoom).clusters.map(
+              cluster => new Set(cluster.ids),
+            );
+            return clusterMarkers(points, zoom + 1).clusters.every(cluster =>
+              outer.some(ids => cluster.ids.every(id => ids.has(id))),
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+
+    it('should zoom tapped clusters in until they split', () => {
+      fc.assert(
+        fc.property(pointsArbitrary, zoomArbitrary, (points, zoom) => {
+          const byId = new Map(points.map(point => [point.id, point]));
+          return clusterMarkers(points, zoom).clusters.every(cluster => {
+            const members = cluster.ids.map(id => byId.get(id)!);
+            const expanded = clusterMarkers(members, cluster.expansionZoom);
+            return (
+              cluster.expansionZoom > zoom &&
+              !expanded.clusters.some(inner => inner.count === members.length)
+            );
+          });
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should not cluster past the maximum zoom', () => {
+    const points: ClusterablePoint[] = [
+      {id: '1', lat: -23.5505, lng: -46.6333, severity: 'low'},
+      {id: '2', lat: -23.5505, lng: -46.6333, severity: 'high'},
+    ];
+
+    expect(clusterMarkers(points, CLUSTER_MAX_ZOOM).clusters).toHaveLength(1);
+    expect(clusterMarkers(points, CLUSTER_MAX_ZOOM + 1)).toEqual({clusters: [], markers: points});
+  });
+
+  it('should keep reports still in the outbox out of clusters', () => {
+    const points: ClusterablePoint[] = [
+      {id: '1', lat: -23.5505, lng: -46.6333, severity: 'low'},
+      {id: '2', lat: -23.5505, lng: -46.6333, severity: 'low'},
+      {id: '3', lat: -23.5505, lng: -46.6333, severity: 'critical', status: 'pending'},
+    ];
+
+    const {clusters, markers} = clusterMarkers(points, 10);
+
+    expect(clusters.map(cluster => cluster.ids)).toEqual([['1', '2']]);
+    expect(markers.map(point => point.id)).toEqual(['3']);
+  });
+
+  it('should treat unknown severities as medium', () => {
+    expect(getHighestSeverity([{id: '1', lat: 0, lng: 0, severity: 'unknown'}])).toBe('medium');
+  });
+});
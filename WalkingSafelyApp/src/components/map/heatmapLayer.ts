@@ -0,0 +1,173 @@
+/**
+ * Heatmap Layer
+ * Prepares HeatmapPoint data for the Leaflet heat layer inside MapView,
+ * with a clustered grid fallback when leaflet.heat is not available
+ * Requirements: 9.1, 9.3, 9.6
+ */
+
+import {HeatmapPoint} from '../../types/models';
+
+/**
+ * Gradient stops shared by the heat layer and the grid fallback (green to red)
+ */
+export const HEATMAP_GRADIENT: Record<number, string> = {
+  0.0: '#22c55e', // Green - safe
+  0.25: '#84cc16', // Lime
+  0.4: '#eab308', // Yellow - caution
+  0.55: '#f97316', // Orange - warning
+  0.7: '#ef4444', // Red - danger
+  1.0: '#dc2626', // Dark red - high danger
+};
+
+/**
+ * Zoom range used to interpolate the layer options
+ */
+const MIN_HEATMAP_ZOOM = 10;
+const MAX_HEATMAP_ZOOM = 18;
+
+/**
+ * Grid cells per 256px map tile in the fallback layer
+ */
+const GRID_CELLS_PER_TILE = 4;
+
+/**
+ * Options passed to L.heatLayer
+ */
+export interface HeatmapLayerOptions {
+  radius: number;
+  blur: number;
+  max: number;
+  minOpacity: number;
+}
+
+/**
+ * Point in the format consumed by the WebView
+ */
+export interface HeatmapLayerPoint {
+  lat: number;
+  lng: number;
+  weight: number;
+}
+
+/**
+ * Grid cell drawn when the heat layer is unavailable
+ */
+export interface HeatmapGridCell {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+  count: number;
+  weight: number;
+  color: string;
+}
+
+/**
+ * Full payload sent to setHeatmapLayer() in the WebView
+ */
+export interface HeatmapLayerData {
+  points: HeatmapLayerPoint[];
+  grid: HeatmapGridCell[];
+  options: HeatmapLayerOptions;
+  gradient: Record<number, string>;
+}
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Scale the heat layer by zoom level.
+ * Zoomed out, each point stands for a larger area so blobs stay small and
+ * only the densest cells reach the top of the gradient; zoomed in, a single
+ * cluster of reports is already worth highlighting.
+ * Requirement 9.6: Adjust the overlay to the zoom level
+ */
+export const getHeatmapLayerOptions = (zoom: number): HeatmapLayerOptions => {
+  const ratio =
+    (clamp(zoom, MIN_HEATMAP_ZOOM, MAX_HEATMAP_ZOOM) - MIN_HEATMAP_ZOOM) /
+    (MAX_HEATMAP_ZOOM - MIN_HEATMAP_ZOOM);
+
+  return {
+    radius: Math.round(18 + ratio * 22),
+    blur: Math.round(12 + ratio * 13),
+    max: Number((1 - ratio * 0.4).toFixed(2)),
+    minOpacity: 0.35,
+  };
+};
+
+/**
+ * Normalize weights to 0..1 relative to the heaviest point
+ */
+export const normalizeHeatmapPoints = (points: HeatmapPoint[]): HeatmapLayerPoint[] => {
+  const valid = points.filter(
+    point =>
+      Number.isFinite(point.latitude) &&
+      Number.isFinite(point.longitude) &&
+      Number.isFinite(point.weight) &&
+      point.weight > 0,
+  );
+  const maxWeight = valid.reduce((max, point) => Math.max(max, point.weight), 0);
+
+  return valid.map(point => ({
+    lat: point.latitude,
+    lng: point.longitude,
+    weight: maxWeight > 0 ? point.weight / maxWeight : 0,
+  }));
+};
+
+/**
+ * Pick the gradient colour for a normalized weight
+ */
+export const getHeatmapColor = (weight: number): string => {
+  const stops = Object.keys(HEATMAP_GRADIENT)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const stop = stops.filter(value => value <= clamp(weight, 0, 1)).pop() ?? stops[0];
+  return HEATMAP_GRADIENT[stop];
+};
+
+/**
+ * Cluster points into a square grid sized to the zoom level
+ */
+export const buildHeatmapGrid = (points: HeatmapPoint[], zoom: number): HeatmapGridCell[] => {
+  const cellSize = 360 / Math.pow(2, Math.round(zoom)) / GRID_CELLS_PER_TILE;
+  const cells = new Map<string, {row: number; col: number; count: number; weight: number}>();
+
+  points.forEach(point => {
+    if (!Number.isFinite(point.latitude) || !Number.isFinite(point.longitude)) {
+      return;
+    }
+    const row = Math.floor(point.latitude / cellSize);
+    const col = Math.floor(point.longitude / cellSize);
+    const key = `${row}:${col}`;
+    const cell = cells.get(key) ?? {row, col, count: 0, weight: 0};
+    cell.count += 1;
+    cell.weight += point.weight;
+    cells.set(key, cell);
+  });
+
+  const maxWeight = Array.from(cells.values()).reduce((max, cell) => Math.max(max, cell.weight), 0);
+
+  return Array.from(cells.values()).map(cell => {
+    const weight = maxWeight > 0 ? cell.weight / maxWeight : 0;
+    return {
+      south: cell.row * cellSize,
+      west: cell.col * cellSize,
+      north: (cell.row + 1) * cellSize,
+      east: (cell.col + 1) * cellSize,
+      count: cell.count,
+      weight,
+      color: getHeatmapColor(weight),
+    };
+  });
+};
+
+/**
+ * Build everything the WebView needs to draw the heatmap at a zoom level
+ */
+export const buildHeatmapLayerData = (points: HeatmapPoint[], zoom: number): HeatmapLayerData => ({
+  points: normalizeHeatmapPoints(points),
+  grid: buildHeatmapGrid(points, zoom),
+  options: getHeatmapLayerOptions(zoom),
+  gradient: HEATMAP_GRADIENT,
+});
@@ -3,7 +3,13 @@
  * Export all map-related components
  */
 
-export {MapView, type MapViewProps, type MapViewRef, type RouteSegmentData} from './MapView';
+export {
+  MapView,
+  type MapViewProps,
+  type MapViewRef,
+  type RouteSegmentData,
+  type MapRouteOption,
+} from './MapView';
 export {
   RoutePolyline,
   type RoutePolylineProps,
@@ -15,6 +21,7 @@ export {
   getMarkerColor,
 } from './RiskPointMarker';
 export {RiskPointPopup, type RiskPointPopupProps} from './RiskPointPopup';
+export {MapFilterSheet, type MapFilterSheetProps} from './MapFilterSheet';
 export {
   splitRouteByPosition,
   getRouteSegmentColor,
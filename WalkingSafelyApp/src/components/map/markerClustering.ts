@@ -0,0 +1,158 @@
+/**
+ * Marker Clustering
+ * Groups nearby occurrence markers into count badges when the map is zoomed out,
+ * using a grid of web-mercator cells sized to the zoom level
+ */
+
+import {latitudeToTileY, longitudeToTileX} from '../../utils/mapTiles';
+import {
+  SEVERITY_COLORS,
+  SeverityValue,
+  getSeverityByValue,
+  isValidSeverity,
+} from '../../utils/severityLevels';
+
+/**
+ * Above this zoom every marker is drawn on its own
+ */
+export const CLUSTER_MAX_ZOOM = 16;
+
+/**
+ * Fewest markers sharing a cell that are drawn as a cluster
+ */
+export const MIN_CLUSTER_SIZE = 2;
+
+/**
+ * Grid cells are the map tiles this many zoom levels deeper (64px on screen)
+ */
+const CLUSTER_CELL_ZOOM_OFFSET = 2;
+
+/**
+ * Marker in the format consumed by the WebView
+ */
+export interface ClusterablePoint {
+  id: string;
+  lat: number;
+  lng: number;
+  severity: string;
+  /** Delivery status of reports still in the outbox */
+  status?: 'pending' | 'failed';
+}
+
+/**
+ * Badge standing for several markers
+ */
+export interface MarkerCluster {
+  id: string;
+  lat: number;
+  lng: number;
+  count: number;
+  /** Highest severity inside the cluster */
+  severity: SeverityValue;
+  color: string;
+  /** Ids of the markers inside the cluster */
+  ids: string[];
+  /** Zoom at which the cluster splits, the map zooms there when it is tapped */
+  expansionZoom: number;
+}
+
+/**
+ * Markers split into clusters and markers drawn on their own
+ */
+export interface ClusteredMarkers<T extends ClusterablePoint> {
+  clusters: MarkerCluster[];
+  markers: T[];
+}
+
+/**
+ * Grid cell of a point at the given map zoom
+ */
+export const getClusterCellKey = (point: ClusterablePoint, zoom: number): string => {
+  const cellZoom = zoom + CLUSTER_CELL_ZOOM_OFFSET;
+  return `${longitudeToTileX(point.lng, cellZoom)}/${latitudeToTileY(point.lat, cellZoom)}`;
+};
+
+/**
+ * Unknown severities are drawn as medium, like the single markers
+ */
+const toSeverity = (severity: string): SeverityValue =>
+  isValidSeverity(severity) ? severity : 'medium';
+
+/**
+ * Highest severity among the points
+ */
+export const getHighestSeverity = (points: ClusterablePoint[]): SeverityValue =>
+  points
+    .map(point => toSeverity(point.severity))
+    .reduce<SeverityValue>(
+      (highest, severity) =>
+        (getSeverityByValue(severity)?.order ?? 0) > (getSeverityByValue(highest)?.order ?? 0)
+          ? severity
+          : highest,
+      'low',
+    );
+
+/**
+ * First zoom at which the points no longer share a single cell
+ */
+export const getClusterExpansionZoom = (points: ClusterablePoint[], zoom: number): number => {
+  for (let nextZoom = zoom + 1; nextZoom <= CLUSTER_MAX_ZOOM; nextZoom++) {
+    if (new Set(points.map(point => getClusterCellKey(point, nextZoom))).size > 1) {
+      return nextZoom;
+    }
+  }
+  return CLUSTER_MAX_ZOOM + 1;
+};
+
+/**
+ * Group the markers sharing a grid cell at the zoom level.
+ * Reports still in the outbox are never clustered so their status stays visible.
+ */
+export const clusterMarkers = <T extends ClusterablePoint>(
+  points: T[],
+  zoom: number,
+): ClusteredMarkers<T> => {
+  const level = Math.round(zoom);
+  const valid = points.filter(point => Number.isFinite(point.lat) && Number.isFinite(point.lng));
+
+  if (level > CLUSTER_MAX_ZOOM) {
+    return {clusters: [], markers: valid};
+  }
+
+  const markers: T[] = [];
+  const cells = new Map<string, T[]>();
+  valid.forEach(point => {
+    if (point.status) {
+      markers.push(point);
+      return;
+    }
+    const key = getClusterCellKey(point, level);
+    const members = cells.get(key);
+    if (members) {
+      members.push(point);
+    } else {
+      cells.set(key, [point]);
+    }
+  });
+
+  const clusters: MarkerCluster[] = [];
+  cells.forEach((members, key) => {
+    if (members.length < MIN_CLUSTER_SIZE) {
+      markers.push(...members);
+      return;
+    }
+    const severity = getHighestSeverity(members);
+    clusters.push({
+      id: `cluster:${level}/${key}`,
+      lat: members.reduce((sum, point) => sum + point.lat, 0) / members.length,
+      lng: members.reduce((sum, point) => sum + point.lng, 0) / members.length,
+      count: members.length,
+      severity,
+      color: SEVERITY_COLORS[severity],
+      ids: members.map(point => point.id),
+      expansionZoom: getClusterExpansionZoom(members, level),
+    });
+  });
+
+  return {clusters, markers};
+};
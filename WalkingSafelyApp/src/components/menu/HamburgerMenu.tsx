@@ -17,8 +17,11 @@ import {
 import { tokens } from '@/shared/theme/tokens';
 import { useTheme } from '@/shared/theme/ThemeProvider';
 import { logoutUseCase } from '@/features/auth/domain/useCases/logoutUseCase';
-import { useAuthStore } from '@/features/auth/store/authStore';
+import { useAuthStore, selectIsModerator } from '@/features/auth/store/authStore';
 import { Button } from '@/shared/components/Button';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { AppStackParamList } from '@/app/navigation/AppNavigator';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const MENU_WIDTH = SCREEN_WIDTH * 0.75;
@@ -38,12 +41,14 @@ interface HamburgerMenuProps {
 export const HamburgerMenu: React.FC<HamburgerMenuProps> = ({ style }) => {
   const { theme } = useTheme();
   const isDark = theme === 'dark';
+  const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>();
   const [isOpen, setIsOpen] = useState(false);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const slideAnim = useRef(new Animated.Value(-MENU_WIDTH)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
   
   const user = useAuthStore(state => state.user);
+  const isModerator = useAuthStore(selectIsModerator);
   const firstName = user?.name?.split(' ')[0] || 'Usuário';
 
   const openMenu = () => {
@@ -102,6 +107,24 @@ export const HamburgerMenu: React.FC<HamburgerMenuProps> = ({ style }) => {
   const handleMenuItemPress = (item: MenuItem) => {
     if (item.id === 'logout') {
       handleLogout();
+    } else if (item.id === 'contacts') {
+      closeMenu();
+      navigation.navigate('TrustedContacts');
+    } else if (item.id === 'reports') {
+      closeMenu();
+      navigation.navigate('MyReports');
+    } else if (item.id === 'statistics') {
+      closeMenu();
+      navigation.navigate('StatisticsHome');
+    } else if (item.id === 'moderation') {
+      closeMenu();
+      navigation.navigate('Moderation');
+    } else if (item.id === 'notifications') {
+      closeMenu();
+      navigation.navigate('AlertPreferences');
+    } else if (item.id === 'settings') {
+      closeMenu();
+      navigation.navigate('SettingsHome');
     } else {
       closeMenu();
       // Placeholder para futuras funcionalidades - sem alert
@@ -109,6 +132,11 @@ export const HamburgerMenu: React.FC<HamburgerMenuProps> = ({ style }) => {
   };
 
   const menuItems: MenuItem[] = [
+    { id: 'contacts', icon: '🆘', label: 'Contatos de confiança' },
+    { id: 'reports', icon: '📋', label: 'Meus reportes' },
+    { id: 'statistics', icon: '📊', label: 'Estatísticas' },
+    // Only moderators and admins see the console
+    ...(isModerator ? [{ id: 'moderation', icon: '🛡️', label: 'Moderação' }] : []),
     { id: 'notifications', icon: '🔔', label: 'Notificações' },
     { id: 'settings', icon: '⚙️', label: 'Configurações' },
     { id: 'help', icon: '❓', label: 'Ajuda' },
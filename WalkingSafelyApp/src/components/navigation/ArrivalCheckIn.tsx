@@ -0,0 +1,231 @@
+/**
+ * ArrivalCheckIn Component
+ * Shows the expected arrival time and asks the user to confirm they are
+ * safe once it has passed
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {Alert, AppState, Modal, StyleSheet, Text, TouchableOpacity, View} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {colors} from '../../theme/colors';
+import {spacing, borderRadius, shadows} from '../../theme/spacing';
+import {fontSize, fontWeight} from '../../theme/typography';
+import {useCheckInStore} from '../../store/checkInStore';
+
+/**
+ * Interval between check-in timer evaluations (milliseconds)
+ */
+const CHECK_IN_TICK_INTERVAL = 1000;
+
+/**
+ * ArrivalCheckIn props interface
+ */
+export interface ArrivalCheckInProps {
+  /** Custom style overrides for the expected time pill */
+  style?: object;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+/**
+ * Format an epoch time as HH:MM in the device timezone
+ */
+export const formatCheckInTime = (time: number): string => {
+  const date = new Date(time);
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+};
+
+/**
+ * ArrivalCheckIn Component
+ *
+ * Drives the check-in timers while mounted and whenever the app returns to
+ * the foreground. The state itself lives in checkInStore.
+ *
+ * @example
+ * ```tsx
+ * <ArrivalCheckIn style={styles.checkIn} />
+ * ```
+ */
+export const ArrivalCheckIn: React.FC<ArrivalCheckInProps> = ({
+  style,
+  testID = 'arrival-check-in',
+}) => {
+  const {t} = useTranslation();
+  const phase = useCheckInStore(state => state.phase);
+  const expectedArrivalAt = useCheckInStore(state => state.expectedArrivalAt);
+  const respondBy = useCheckInStore(state => state.respondBy);
+  const escalationError = useCheckInStore(state => state.escalationError);
+  const tick = useCheckInStore(state => state.tick);
+  const extend = useCheckInStore(state => state.extend);
+  const confirmSafe = useCheckInStore(state => state.confirmSafe);
+
+  const [now, setNow] = useState(Date.now());
+
+  const isRunning = phase === 'armed' || phase === 'prompting';
+
+  useEffect(() => {
+    if (!isRunning) {
+      return;
+    }
+
+    const evaluate = () => {
+      const current = Date.now();
+      setNow(current);
+      tick(current);
+    };
+
+    evaluate();
+    const timer = setInterval(evaluate, CHECK_IN_TICK_INTERVAL);
+    // Timers don't run in the background, catch up when the app is reopened
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        evaluate();
+      }
+    });
+
+    return () => {
+      clearInterval(timer);
+      subscription.remove();
+    };
+  }, [isRunning, tick]);
+
+  const handleEarlyConfirm = useCallback(() => {
+    Alert.alert(t('checkIn.confirmTitle'), t('checkIn.confirmMessage'), [
+      {text: t('common.cancel'), style: 'cancel'},
+      {text: t('checkIn.imSafe'), onPress: confirmSafe},
+    ]);
+  }, [confirmSafe, t]);
+
+  if (phase === 'armed' && expectedArrivalAt !== null) {
+    return (
+      <TouchableOpacity
+        testID={testID}
+        onPress={handleEarlyConfirm}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={t('checkIn.expectedAccessibilityLabel', {
+          time: formatCheckInTime(expectedArrivalAt),
+        })}
+        style={[styles.pill, style]}>
+        <Text style={styles.pillText}>🛡️ {formatCheckInTime(expectedArrivalAt)}</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  if (phase !== 'prompting' && phase !== 'escalated') {
+    return null;
+  }
+
+  const isEscalated = phase === 'escalated';
+  const secondsLeft = respondBy !== null ? Math.max(0, Math.ceil((respondBy - now) / 1000)) : 0;
+
+  let message = t('checkIn.promptMessage', {count: secondsLeft});
+  if (isEscalated) {
+    message = escalationError
+      ? escalationError.startsWith('checkIn.')
+        ? t(escalationError)
+        : escalationError
+      : t('checkIn.escalatedMessage');
+  }
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={() => undefined}>
+      <View style={styles.overlay}>
+        <View testID={`${testID}-prompt`} style={styles.dialog}>
+          <Text style={styles.title}>
+            {isEscalated ? t('checkIn.escalatedTitle') : t('checkIn.promptTitle')}
+          </Text>
+          <Text style={styles.message} accessibilityLiveRegion="assertive">
+            {message}
+          </Text>
+          <TouchableOpacity
+            testID={`${testID}-safe`}
+            onPress={confirmSafe}
+            style={[styles.dialogButton, styles.safeButton]}
+            accessibilityRole="button">
+            <Text style={styles.safeText}>{t('checkIn.imSafe')}</Text>
+          </TouchableOpacity>
+          {!isEscalated && (
+            <TouchableOpacity
+              testID={`${testID}-extend`}
+              onPress={extend}
+              style={[styles.dialogButton, styles.extendButton]}
+              accessibilityRole="button">
+              <Text style={styles.extendText}>{t('checkIn.needMoreTime')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 40,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.neutral.white,
+    ...shadows.md,
+  },
+  pillText: {
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.semibold,
+    color: colors.neutral.gray800,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dialog: {
+    width: '85%',
+    maxWidth: 360,
+    backgroundColor: colors.neutral.white,
+    borderRadius: borderRadius.xl,
+    padding: spacing.xl,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: fontSize.lg,
+    fontWeight: fontWeight.bold,
+    color: colors.neutral.gray800,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: fontSize.md,
+    color: colors.neutral.gray600,
+    textAlign: 'center',
+    marginVertical: spacing.base,
+  },
+  dialogButton: {
+    width: '100%',
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.lg,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  safeButton: {
+    backgroundColor: colors.success.main,
+  },
+  safeText: {
+    fontSize: fontSize.base,
+    fontWeight: fontWeight.semibold,
+    color: colors.neutral.white,
+  },
+  extendButton: {
+    backgroundColor: colors.neutral.gray200,
+  },
+  extendText: {
+    fontSize: fontSize.base,
+    fontWeight: fontWeight.semibold,
+    color: colors.neutral.gray800,
+  },
+});
+
+export default ArrivalCheckIn;
@@ -0,0 +1,171 @@
+/**
+ * HourlyRiskChart Component
+ * Bar chart of a route's risk for each hour of the day, used to pick when to leave
+ */
+
+import React, {memo} from 'react';
+import {View, Text, StyleSheet, TouchableOpacity} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {colors, getRiskColor} from '../../theme/colors';
+import {spacing, borderRadius} from '../../theme/spacing';
+import {textStyles} from '../../theme/typography';
+
+/** Height of a bar at risk 100 */
+const CHART_HEIGHT = 56;
+
+/** Bars are never drawn shorter than this so every hour stays tappable */
+const MIN_BAR_HEIGHT = 3;
+
+/** Hours labelled under the chart */
+const LABELLED_HOURS = [0, 6, 12, 18];
+
+/**
+ * Props for HourlyRiskChart component
+ */
+export interface HourlyRiskChartProps {
+  /** Risk index (0-100) for each hour, from getHourlyRiskProfile */
+  profile: number[];
+  /** Planned departure hour, highlighted in the chart */
+  selectedHour: number;
+  /** Called when the user taps an hour */
+  onSelectHour?: (hour: number) => void;
+  /** Hour with the lowest risk, suggested to the user */
+  safestHour?: number;
+}
+
+/**
+ * Format an hour of the day as "08h"
+ */
+export const formatHour = (hour: number): string => `${String(hour).padStart(2, '0')}h`;
+
+const HourlyRiskChartComponent: React.FC<HourlyRiskChartProps> = ({
+  profile,
+  selectedHour,
+  onSelectHour,
+  safestHour,
+}) => {
+  const {t} = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{t('route.hourlyRisk.title')}</Text>
+        <Text style={styles.selectedRisk}>
+          {t('route.hourlyRisk.departure', {
+            hour: formatHour(selectedHour),
+            risk: profile[selectedHour] ?? 0,
+          })}
+        </Text>
+      </View>
+
+      <View style={styles.bars}>
+        {profile.map((risk, hour) => {
+          const isSelected = hour === selectedHour;
+          return (
+            <TouchableOpacity
+              key={hour}
+              style={[styles.barSlot, isSelected && styles.barSlotSelected]}
+              onPress={onSelectHour ? () => onSelectHour(hour) : undefined}
+              disabled={!onSelectHour}
+              accessibilityRole="button"
+              accessibilityState={{selected: isSelected}}
+              accessibilityLabel={t('route.hourlyRisk.hourLabel', {hour: formatHour(hour), risk})}>
+              <View
+                style={[
+                  styles.bar,
+                  {
+                    height: Math.max(MIN_BAR_HEIGHT, (risk / 100) * CHART_HEIGHT),
+                    backgroundColor: getRiskColor(risk),
+                    opacity: isSelected ? 1 : 0.6,
+                  },
+                ]}
+              />
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.axis}>
+        {LABELLED_HOURS.map(hour => (
+          <Text key={hour} style={styles.axisLabel}>
+            {formatHour(hour)}
+          </Text>
+        ))}
+      </View>
+
+      {safestHour !== undefined && profile[safestHour] < profile[selectedHour] && (
+        <Text style={styles.suggestion}>
+          {t('route.hourlyRisk.suggestion', {
+            hour: formatHour(safestHour),
+            risk: profile[safestHour],
+          })}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.background.secondary,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  title: {
+    ...textStyles.label,
+    color: colors.text.primary,
+    fontWeight: '600',
+  },
+  selectedRisk: {
+    ...textStyles.caption,
+    color: colors.text.secondary,
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: CHART_HEIGHT,
+  },
+  barSlot: {
+    flex: 1,
+    height: CHART_HEIGHT,
+    justifyContent: 'flex-end',
+    paddingHorizontal: 1,
+  },
+  barSlotSelected: {
+    backgroundColor: colors.border.light,
+    borderRadius: borderRadius.sm,
+  },
+  bar: {
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.xs,
+  },
+  axisLabel: {
+    ...textStyles.caption,
+    color: colors.text.secondary,
+  },
+  suggestion: {
+    ...textStyles.caption,
+    color: colors.primary.main,
+    marginTop: spacing.xs,
+  },
+});
+
+/**
+ * Memoized HourlyRiskChart to prevent unnecessary re-renders
+ */
+export const HourlyRiskChart = memo(HourlyRiskChartComponent);
+
+HourlyRiskChart.displayName = 'HourlyRiskChart';
+
+export default HourlyRiskChart;
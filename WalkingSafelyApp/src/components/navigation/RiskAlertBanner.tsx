@@ -20,6 +20,8 @@ import {spacing, borderRadius, shadows} from '../../theme/spacing';
 import {textStyles} from '../../theme/typography';
 import {Occurrence, OccurrenceSeverity} from '../../types/models';
 import {SEVERITY_COLORS} from '../../utils/severityLevels';
+import {ROUTE_OCCURRENCE_PERIOD_DAYS} from '../../utils/navigationConstants';
+import type {RiskSegmentSummary} from '../../utils/riskSegments';
 
 /**
  * Props for RiskAlertBanner component
@@ -31,6 +33,8 @@ export interface RiskAlertBannerProps {
   visible: boolean;
   /** Distance to the risk point in meters */
   distance: number | null;
+  /** Summary shown instead of the crime type when the alert covers a stretch */
+  segment?: RiskSegmentSummary | null;
   /** Callback when alert is dismissed */
   onDismiss: () => void;
   /** Whether to vibrate on alert (default: true) */
@@ -84,6 +88,7 @@ export const RiskAlertBanner: React.FC<RiskAlertBannerProps> = ({
   occurrence,
   visible,
   distance,
+  segment = null,
   onDismiss,
   enableVibration = true,
   animationDuration = 300,
@@ -145,6 +150,14 @@ export const RiskAlertBanner: React.FC<RiskAlertBannerProps> = ({
 
   const severityColor = getSeverityColor(occurrence.severity);
   const alertIcon = getAlertIcon(occurrence.severity);
+  const description = segment
+    ? t(segment.singleType ? 'navigation.riskSegment' : 'navigation.riskSegmentMixed', {
+        length: formatAlertDistance(segment.length),
+        count: segment.count,
+        crimeType: segment.crimeType,
+        days: ROUTE_OCCURRENCE_PERIOD_DAYS,
+      })
+    : occurrence.crimeType.name;
 
   return (
     <Animated.View
@@ -160,7 +173,7 @@ export const RiskAlertBanner: React.FC<RiskAlertBannerProps> = ({
         activeOpacity={0.9}
         accessibilityRole="alert"
         accessibilityLabel={t('navigation.riskAlertAccessibility', {
-          crimeType: occurrence.crimeType.name,
+          crimeType: description,
           distance: distance ? formatAlertDistance(distance) : '',
         })}>
         {/* Alert Icon */}
@@ -171,7 +184,7 @@ export const RiskAlertBanner: React.FC<RiskAlertBannerProps> = ({
         {/* Alert Content */}
         <View style={styles.content}>
           <Text style={styles.title}>{t('navigation.riskAlert')}</Text>
-          <Text style={styles.crimeType}>{occurrence.crimeType.name}</Text>
+          <Text style={styles.crimeType}>{description}</Text>
 
           {/* Distance to Risk */}
           {distance !== null && distance !== undefined && (
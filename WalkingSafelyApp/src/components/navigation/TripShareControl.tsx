@@ -0,0 +1,197 @@
+/**
+ * TripShareControl Component
+ * Start, pause and stop live trip sharing during navigation
+ */
+
+import React, {useCallback, useEffect} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Share,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {colors} from '../../theme/colors';
+import {spacing, borderRadius, shadows} from '../../theme/spacing';
+import {fontSize, fontWeight} from '../../theme/typography';
+import {useTripSharingStore} from '../../store/tripSharingStore';
+
+/**
+ * TripShareControl props interface
+ */
+export interface TripShareControlProps {
+  /** Custom style overrides */
+  style?: object;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+/**
+ * TripShareControl Component
+ *
+ * While idle shows a single "share trip" button. Once a share is open the
+ * link can be sent again, and the share can be paused or stopped. The store
+ * ends the share on its own when the user arrives or leaves navigation.
+ *
+ * @example
+ * ```tsx
+ * <TripShareControl style={styles.tripShare} />
+ * ```
+ */
+export const TripShareControl: React.FC<TripShareControlProps> = ({
+  style,
+  testID = 'trip-share-control',
+}) => {
+  const {t} = useTranslation();
+  const status = useTripSharingStore(state => state.status);
+  const shareUrl = useTripSharingStore(state => state.shareUrl);
+  const error = useTripSharingStore(state => state.error);
+  const startSharing = useTripSharingStore(state => state.startSharing);
+  const pauseSharing = useTripSharingStore(state => state.pauseSharing);
+  const resumeSharing = useTripSharingStore(state => state.resumeSharing);
+  const stopSharing = useTripSharingStore(state => state.stopSharing);
+  const clearError = useTripSharingStore(state => state.clearError);
+
+  /**
+   * Hand the link to the system share sheet
+   */
+  const shareLink = useCallback(async () => {
+    if (!shareUrl) {
+      return;
+    }
+    try {
+      await Share.share({message: t('tripSharing.shareMessage', {url: shareUrl})});
+    } catch (shareError) {
+      console.warn('[TripShareControl] Failed to open share sheet:', shareError);
+    }
+  }, [shareUrl, t]);
+
+  // Offer the link as soon as the share is created
+  useEffect(() => {
+    if (shareUrl) {
+      void shareLink();
+    }
+  }, [shareUrl, shareLink]);
+
+  useEffect(() => {
+    if (error) {
+      Alert.alert(
+        t('tripSharing.failedTitle'),
+        error.startsWith('tripSharing.') ? t(error) : error,
+      );
+      clearError();
+    }
+  }, [error, clearError, t]);
+
+  const handleStop = useCallback(() => {
+    Alert.alert(t('tripSharing.stopTitle'), t('tripSharing.stopMessage'), [
+      {text: t('common.cancel'), style: 'cancel'},
+      {
+        text: t('tripSharing.stop'),
+        style: 'destructive',
+        onPress: () => void stopSharing('stopped'),
+      },
+    ]);
+  }, [stopSharing, t]);
+
+  if (status === 'idle' || status === 'starting') {
+    return (
+      <TouchableOpacity
+        testID={testID}
+        onPress={() => void startSharing()}
+        disabled={status === 'starting'}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={t('tripSharing.start')}
+        style={[styles.pill, style]}>
+        {status === 'starting' ? (
+          <ActivityIndicator size="small" color={colors.primary.main} />
+        ) : (
+          <Text style={styles.pillText}>👥 {t('tripSharing.start')}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  }
+
+  const isPaused = status === 'paused';
+
+  return (
+    <View testID={testID} style={[styles.pill, styles.activePill, style]}>
+      <View style={[styles.liveDot, isPaused && styles.liveDotPaused]} />
+      <Text style={styles.statusText} accessibilityLiveRegion="polite">
+        {isPaused ? t('tripSharing.paused') : t('tripSharing.active')}
+      </Text>
+      <TouchableOpacity
+        testID={`${testID}-link`}
+        onPress={() => void shareLink()}
+        style={styles.iconButton}
+        accessibilityRole="button"
+        accessibilityLabel={t('tripSharing.shareLink')}>
+        <Text style={styles.iconText}>🔗</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        testID={`${testID}-${isPaused ? 'resume' : 'pause'}`}
+        onPress={() => void (isPaused ? resumeSharing() : pauseSharing())}
+        style={styles.iconButton}
+        accessibilityRole="button"
+        accessibilityLabel={isPaused ? t('tripSharing.resume') : t('tripSharing.pause')}>
+        <Text style={styles.iconText}>{isPaused ? '▶️' : '⏸️'}</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        testID={`${testID}-stop`}
+        onPress={handleStop}
+        style={styles.iconButton}
+        accessibilityRole="button"
+        accessibilityLabel={t('tripSharing.stop')}>
+        <Text style={styles.iconText}>⏹️</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 40,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.neutral.white,
+    ...shadows.md,
+  },
+  activePill: {
+    paddingRight: spacing.xs,
+  },
+  pillText: {
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.semibold,
+    color: colors.neutral.gray800,
+  },
+  liveDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: colors.success.main,
+    marginRight: spacing.sm,
+  },
+  liveDotPaused: {
+    backgroundColor: colors.warning.main,
+  },
+  statusText: {
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.semibold,
+    color: colors.neutral.gray800,
+    marginRight: spacing.xs,
+  },
+  iconButton: {
+    padding: spacing.sm,
+  },
+  iconText: {
+    fontSize: fontSize.base,
+  },
+});
+
+export default TripShareControl;
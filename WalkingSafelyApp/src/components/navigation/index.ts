@@ -22,6 +22,9 @@ export {
 } from './RouteInfoPanel';
 export type {RouteInfoPanelProps} from './RouteInfoPanel';
 
+export {HourlyRiskChart, formatHour} from './HourlyRiskChart';
+export type {HourlyRiskChartProps} from './HourlyRiskChart';
+
 export {InstructionModal} from './InstructionModal';
 export type {InstructionModalProps} from './InstructionModal';
 
@@ -36,3 +39,9 @@ export type {ManeuverIndicatorProps, ManeuverType} from './ManeuverIndicator';
 
 export {MuteButton, getMuteButtonState} from './MuteButton';
 export type {MuteButtonProps} from './MuteButton';
+
+export {TripShareControl} from './TripShareControl';
+export type {TripShareControlProps} from './TripShareControl';
+
+export {ArrivalCheckIn, formatCheckInTime} from './ArrivalCheckIn';
+export type {ArrivalCheckInProps} from './ArrivalCheckIn';
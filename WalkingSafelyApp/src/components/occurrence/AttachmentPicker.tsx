@@ -0,0 +1,281 @@
+/**
+ * AttachmentPicker Component
+ * Photos and a short voice note attached as evidence to an occurrence report
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {Image, ScrollView, StyleSheet, Text, TouchableOpacity, View, ViewStyle} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {tokens} from '@/shared/theme/tokens';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {attachmentCaptureService, PhotoSource} from '@/services/attachmentCapture';
+import {attachmentFiles} from '@/services/attachmentFiles';
+import {MAX_PHOTO_ATTACHMENTS} from '@/utils/constants';
+import type {LocalAttachment} from '@/types/models';
+
+export interface AttachmentPickerProps {
+  attachments: LocalAttachment[];
+  onChange: (attachments: LocalAttachment[]) => void;
+  disabled?: boolean;
+  style?: ViewStyle;
+  testID?: string;
+}
+
+/**
+ * Format a voice note length as M:SS
+ */
+export const formatVoiceNoteDuration = (durationMs: number): string => {
+  const seconds = Math.floor(durationMs / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * AttachmentPicker Component
+ * Up to MAX_PHOTO_ATTACHMENTS photos and one voice note
+ */
+export const AttachmentPicker: React.FC<AttachmentPickerProps> = ({
+  attachments,
+  onChange,
+  disabled = false,
+  style,
+  testID,
+}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const [recordingMs, setRecordingMs] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const photos = attachments.filter(attachment => attachment.kind === 'photo');
+  const voiceNote = attachments.find(attachment => attachment.kind === 'audio');
+  const remainingPhotos = MAX_PHOTO_ATTACHMENTS - photos.length;
+  const isRecording = recordingMs !== null;
+
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+  const surfaceColor = isDark ? tokens.colors.surface.dark : tokens.colors.surface.light;
+
+  const showError = (err: unknown) => {
+    const message = err instanceof Error ? err.message : '';
+    setError(
+      message.startsWith('occurrence.') ? message : 'occurrence.attachments.errors.captureFailed',
+    );
+  };
+
+  // Don't leave the microphone on when the form closes mid-recording
+  useEffect(
+    () => () => {
+      void attachmentCaptureService
+        .stopVoiceNote()
+        .then(recorded => (recorded ? attachmentFiles.remove([recorded]) : undefined))
+        .catch(() => undefined);
+    },
+    [],
+  );
+
+  const handlePickPhotos = useCallback(
+    async (source: PhotoSource) => {
+      setError(null);
+      try {
+        const picked = await attachmentCaptureService.pickPhotos(source, remainingPhotos);
+        if (picked.length > 0) {
+          onChange([...attachments, ...picked]);
+        }
+      } catch (err) {
+        showError(err);
+      }
+    },
+    [attachments, onChange, remainingPhotos],
+  );
+
+  const handleStopRecording = useCallback(async () => {
+    try {
+      const recorded = await attachmentCaptureService.stopVoiceNote();
+      setRecordingMs(null);
+      if (recorded) {
+        onChange([...attachments, recorded]);
+      }
+    } catch (err) {
+      setRecordingMs(null);
+      showError(err);
+    }
+  }, [attachments, onChange]);
+
+  const handleStartRecording = useCallback(async () => {
+    setError(null);
+    try {
+      setRecordingMs(0);
+      await attachmentCaptureService.startVoiceNote(setRecordingMs, () => {
+        void handleStopRecording();
+      });
+    } catch (err) {
+      setRecordingMs(null);
+      showError(err);
+    }
+  }, [handleStopRecording]);
+
+  const handleRemove = useCallback(
+    (id: string) => {
+      void attachmentFiles.remove(attachments.filter(attachment => attachment.id === id));
+      onChange(attachments.filter(attachment => attachment.id !== id));
+    },
+    [attachments, onChange],
+  );
+
+  return (
+    <View style={style} testID={testID}>
+      <Text style={[styles.hint, {color: secondaryColor}]}>
+        {t('occurrence.attachments.hint', {max: MAX_PHOTO_ATTACHMENTS})}
+      </Text>
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionButton, {backgroundColor: surfaceColor}]}
+          onPress={() => void handlePickPhotos('camera')}
+          disabled={disabled || isRecording || remainingPhotos <= 0}
+          accessibilityRole="button"
+          testID="attachment-camera">
+          <Text style={[styles.actionText, {color: textColor}]}>
+            📷 {t('occurrence.attachments.takePhoto')}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, {backgroundColor: surfaceColor}]}
+          onPress={() => void handlePickPhotos('library')}
+          disabled={disabled || isRecording || remainingPhotos <= 0}
+          accessibilityRole="button"
+          testID="attachment-library">
+          <Text style={[styles.actionText, {color: textColor}]}>
+            🖼️ {t('occurrence.attachments.choosePhoto')}
+          </Text>
+        </TouchableOpacity>
+        {!voiceNote && (
+          <TouchableOpacity
+            style={[
+              styles.actionButton,
+              {backgroundColor: isRecording ? tokens.colors.error : surfaceColor},
+            ]}
+            onPress={() => void (isRecording ? handleStopRecording() : handleStartRecording())}
+            disabled={disabled}
+            accessibilityRole="button"
+            testID="attachment-voice">
+            <Text style={[styles.actionText, {color: isRecording ? '#FFFFFF' : textColor}]}>
+              {isRecording
+                ? `⏹ ${t('occurrence.attachments.stopRecording', {
+                    duration: formatVoiceNoteDuration(recordingMs ?? 0),
+                  })}`
+                : `🎙️ ${t('occurrence.attachments.recordVoice')}`}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {attachments.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.list}>
+          {photos.map(photo => (
+            <View key={photo.id} style={styles.item}>
+              <Image source={{uri: photo.uri}} style={styles.thumbnail} />
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => handleRemove(photo.id)}
+                disabled={disabled}
+                accessibilityRole="button"
+                accessibilityLabel={t('occurrence.attachments.remove')}>
+                <Text style={styles.removeText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+          {voiceNote && (
+            <View style={styles.item}>
+              <View style={[styles.thumbnail, styles.voiceNote, {backgroundColor: surfaceColor}]}>
+                <Text style={styles.voiceIcon}>🎙️</Text>
+                <Text style={[styles.voiceDuration, {color: secondaryColor}]}>
+                  {formatVoiceNoteDuration(voiceNote.durationMs ?? 0)}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => handleRemove(voiceNote.id)}
+                disabled={disabled}
+                accessibilityRole="button"
+                accessibilityLabel={t('occurrence.attachments.remove')}>
+                <Text style={styles.removeText}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+      )}
+
+      {error && <Text style={styles.errorText}>{t(error)}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  hint: {
+    fontSize: tokens.typography.fontSize.xs,
+    marginBottom: tokens.spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: tokens.spacing.sm,
+  },
+  actionButton: {
+    borderRadius: tokens.borderRadius.md,
+    paddingHorizontal: tokens.spacing.md,
+    paddingVertical: tokens.spacing.sm,
+  },
+  actionText: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '500',
+  },
+  list: {
+    marginTop: tokens.spacing.md,
+  },
+  item: {
+    marginRight: tokens.spacing.sm,
+  },
+  thumbnail: {
+    width: 72,
+    height: 72,
+    borderRadius: tokens.borderRadius.md,
+  },
+  voiceNote: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  voiceIcon: {
+    fontSize: 24,
+  },
+  voiceDuration: {
+    fontSize: tokens.typography.fontSize.xs,
+    marginTop: tokens.spacing.xs,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  removeText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  errorText: {
+    color: tokens.colors.error,
+    fontSize: tokens.typography.fontSize.sm,
+    marginTop: tokens.spacing.sm,
+  },
+});
+
+export default AttachmentPicker;
@@ -0,0 +1,210 @@
+/**
+ * DuplicateReportPrompt Component
+ * Bottom sheet offered before sending a report that matches reports already
+ * on the map, letting the user confirm one of them instead
+ */
+
+import React from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {tokens} from '@/shared/theme/tokens';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {SEVERITY_COLORS} from '@/utils/severityLevels';
+import {getOccurrenceAge} from '@/screens/occurrence/OccurrenceDetailScreen';
+import type {DuplicateOccurrence} from '@/utils/occurrenceDuplicates';
+
+export interface DuplicateReportPromptProps {
+  /** Matching reports, the prompt is hidden when empty */
+  duplicates: DuplicateOccurrence[];
+  /** Report being confirmed */
+  confirmingId?: string | null;
+  /** Translation key of the last confirmation error */
+  error?: string | null;
+  onConfirm: (occurrenceId: string) => void;
+  onSubmitAnyway: () => void;
+  onClose: () => void;
+}
+
+export const DuplicateReportPrompt: React.FC<DuplicateReportPromptProps> = ({
+  duplicates,
+  confirmingId = null,
+  error,
+  onConfirm,
+  onSubmitAnyway,
+  onClose,
+}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+  const isConfirming = confirmingId !== null;
+
+  return (
+    <Modal
+      visible={duplicates.length > 0}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[
+            styles.sheet,
+            {backgroundColor: isDark ? tokens.colors.surface.dark : tokens.colors.background.light},
+          ]}
+          onPress={e => e.stopPropagation()}>
+          <Text style={[styles.title, {color: textColor}]}>{t('occurrence.duplicates.title')}</Text>
+          <Text style={[styles.message, {color: secondaryColor}]}>
+            {t('occurrence.duplicates.message')}
+          </Text>
+
+          {duplicates.map(({occurrence, distance}) => {
+            const age = getOccurrenceAge(occurrence.timestamp);
+            return (
+              <View
+                key={occurrence.id}
+                style={[
+                  styles.item,
+                  {borderColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'},
+                ]}>
+                <View
+                  style={[
+                    styles.severityDot,
+                    {
+                      backgroundColor:
+                        SEVERITY_COLORS[occurrence.severity] ?? SEVERITY_COLORS.medium,
+                    },
+                  ]}
+                />
+                <View style={styles.itemText}>
+                  <Text style={[styles.itemTitle, {color: textColor}]} numberOfLines={1}>
+                    {occurrence.crimeType?.localizedName || occurrence.crimeType?.name}
+                  </Text>
+                  <Text style={[styles.itemMeta, {color: secondaryColor}]}>
+                    {t('occurrence.duplicates.distance', {meters: Math.round(distance)})}
+                    {age ? ` · ${t(`occurrence.detail.ago.${age.unit}`, {count: age.value})}` : ''}
+                  </Text>
+                  <Text style={[styles.itemMeta, {color: secondaryColor}]}>
+                    {t('occurrence.detail.confirmations', {count: occurrence.confirmations ?? 0})}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={styles.confirmButton}
+                  onPress={() => onConfirm(occurrence.id)}
+                  disabled={isConfirming}
+                  accessibilityRole="button"
+                  testID={`confirm-duplicate-${occurrence.id}`}>
+                  {confirmingId === occurrence.id ? (
+                    <ActivityIndicator color="#FFFFFF" />
+                  ) : (
+                    <Text style={styles.confirmButtonText}>
+                      {t('occurrence.duplicates.confirm')}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+
+          {error ? <Text style={styles.errorText}>{t(error)}</Text> : null}
+
+          <TouchableOpacity
+            style={styles.submitAnyway}
+            onPress={onSubmitAnyway}
+            disabled={isConfirming}
+            accessibilityRole="button"
+            testID="submit-anyway">
+            <Text style={[styles.submitAnywayText, {color: tokens.colors.primary[500]}]}>
+              {t('occurrence.duplicates.submitAnyway')}
+            </Text>
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: tokens.borderRadius.xl,
+    borderTopRightRadius: tokens.borderRadius.xl,
+    padding: tokens.spacing.lg,
+    ...tokens.shadow.lg,
+  },
+  title: {
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  message: {
+    fontSize: tokens.typography.fontSize.sm,
+    marginTop: tokens.spacing.xs,
+    marginBottom: tokens.spacing.md,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: tokens.spacing.sm,
+    paddingVertical: tokens.spacing.sm,
+    borderBottomWidth: 1,
+  },
+  severityDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  itemText: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+  itemMeta: {
+    fontSize: tokens.typography.fontSize.xs,
+  },
+  confirmButton: {
+    minWidth: 96,
+    alignItems: 'center',
+    borderRadius: tokens.borderRadius.md,
+    paddingHorizontal: tokens.spacing.md,
+    paddingVertical: tokens.spacing.sm,
+    backgroundColor: tokens.colors.primary[500],
+  },
+  confirmButtonText: {
+    color: '#FFFFFF',
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: tokens.colors.error,
+    fontSize: tokens.typography.fontSize.sm,
+    marginTop: tokens.spacing.sm,
+  },
+  submitAnyway: {
+    alignItems: 'center',
+    paddingVertical: tokens.spacing.md,
+    marginTop: tokens.spacing.sm,
+  },
+  submitAnywayText: {
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+});
+
+export default DuplicateReportPrompt;
@@ -15,14 +15,16 @@ import {
   ViewStyle,
   TouchableOpacity,
   TextInput,
+  Switch,
 } from 'react-native';
 import {useTranslation} from 'react-i18next';
 import {colors} from '../../theme/colors';
 import {OccurrenceTypeSelector} from './OccurrenceTypeSelector';
 import {SeveritySelector} from './SeveritySelector';
+import {AttachmentPicker} from './AttachmentPicker';
 import {SeverityValue} from '../../utils/severityLevels';
 import {validateOccurrenceForm, OccurrenceFormData} from '../../store/occurrenceStore';
-import type {Coordinates, OccurrenceSeverity} from '../../types/models';
+import type {Coordinates, LocalAttachment, OccurrenceSeverity} from '../../types/models';
 
 export interface OccurrenceFormProps {
   coordinates: Coordinates;
@@ -39,6 +41,10 @@ export interface OccurrenceFormSubmitData {
   severity: OccurrenceSeverity;
   description?: string;
   coordinates: Coordinates;
+  /** Photos and voice note, uploaded after the report is created */
+  attachments?: LocalAttachment[];
+  /** Hide the reporter from other users */
+  anonymous?: boolean;
 }
 
 // Quick suggestion chips for description
@@ -90,6 +96,8 @@ export const OccurrenceForm: React.FC<OccurrenceFormProps> = ({
   const [selectedSeverity, setSelectedSeverity] = useState<SeverityValue | null>(null);
   const [description, setDescription] = useState('');
   const [selectedChips, setSelectedChips] = useState<Set<string>>(new Set());
+  const [attachments, setAttachments] = useState<LocalAttachment[]>([]);
+  const [anonymous, setAnonymous] = useState(false);
 
   // Validation errors
   const [typeError, setTypeError] = useState<string | null>(null);
@@ -166,8 +174,10 @@ export const OccurrenceForm: React.FC<OccurrenceFormProps> = ({
       severity: selectedSeverity as OccurrenceSeverity,
       description: description.trim() || undefined,
       coordinates,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      anonymous,
     });
-  }, [selectedTypeId, selectedSeverity, description, coordinates, onSubmit, t]);
+  }, [selectedTypeId, selectedSeverity, description, coordinates, attachments, anonymous, onSubmit, t]);
 
   /**
    * Check if form can be submitted
@@ -257,6 +267,33 @@ export const OccurrenceForm: React.FC<OccurrenceFormProps> = ({
             <Text style={styles.charCount}>{description.length}/300</Text>
           </View>
 
+          {/* Evidence */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitleSmall}>{t('occurrence.attachments.title')}</Text>
+            <AttachmentPicker
+              attachments={attachments}
+              onChange={setAttachments}
+              disabled={isSubmitting}
+              testID="attachment-picker"
+            />
+          </View>
+
+          {/* Anonymous reporting */}
+          <View style={[styles.section, styles.anonymousRow]}>
+            <View style={styles.anonymousText}>
+              <Text style={styles.sectionTitleSmall}>{t('occurrence.anonymous.title')}</Text>
+              <Text style={styles.anonymousHint}>{t('occurrence.anonymous.hint')}</Text>
+            </View>
+            <Switch
+              value={anonymous}
+              onValueChange={setAnonymous}
+              disabled={isSubmitting}
+              trackColor={{false: colors.neutral.gray400, true: colors.primary.main}}
+              accessibilityLabel={t('occurrence.anonymous.title')}
+              testID="anonymous-switch"
+            />
+          </View>
+
           {/* Submit Error */}
           {submitError && (
             <View style={styles.errorContainer}>
@@ -382,6 +419,19 @@ const styles = StyleSheet.create({
     textAlign: 'right',
     marginTop: 4,
   },
+  anonymousRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  anonymousText: {
+    flex: 1,
+  },
+  anonymousHint: {
+    fontSize: 12,
+    color: colors.text.tertiary,
+    marginTop: -6,
+  },
   errorContainer: {
     backgroundColor: colors.error.light,
     borderRadius: 8,
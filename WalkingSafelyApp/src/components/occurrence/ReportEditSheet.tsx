@@ -0,0 +1,245 @@
+/**
+ * ReportEditSheet Component
+ * Bottom sheet where users change the type, severity or description of their
+ * own report while it can still be edited
+ */
+
+import React, {useEffect, useState} from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {tokens} from '@/shared/theme/tokens';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {OccurrenceTypeSelector} from './OccurrenceTypeSelector';
+import {SeveritySelector} from './SeveritySelector';
+import type {Occurrence, OccurrenceSeverity, UpdateOccurrenceData} from '@/types/models';
+
+/**
+ * Longest description the server accepts
+ */
+const MAX_DESCRIPTION_LENGTH = 500;
+
+export interface ReportEditSheetProps {
+  /** Report being edited, the sheet is hidden when null */
+  report: Occurrence | null;
+  isSaving?: boolean;
+  /** Translation key of the last save error */
+  error?: string | null;
+  onSave: (data: UpdateOccurrenceData) => void;
+  onClose: () => void;
+}
+
+/**
+ * Only the fields that changed, so an untouched field is never sent
+ */
+export const getReportChanges = (
+  report: Occurrence,
+  crimeTypeId: string,
+  severity: OccurrenceSeverity,
+  description: string,
+): UpdateOccurrenceData => {
+  const changes: UpdateOccurrenceData = {};
+  if (crimeTypeId !== report.crimeType?.id) {
+    changes.crimeTypeId = crimeTypeId;
+  }
+  if (severity !== report.severity) {
+    changes.severity = severity;
+  }
+  if (description.trim() !== (report.description ?? '')) {
+    changes.description = description.trim();
+  }
+  return changes;
+};
+
+export const ReportEditSheet: React.FC<ReportEditSheetProps> = ({
+  report,
+  isSaving = false,
+  error,
+  onSave,
+  onClose,
+}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const [crimeTypeId, setCrimeTypeId] = useState<string | null>(null);
+  const [severity, setSeverity] = useState<OccurrenceSeverity | null>(null);
+  const [description, setDescription] = useState('');
+
+  // Start from the report every time the sheet opens
+  useEffect(() => {
+    if (report) {
+      setCrimeTypeId(report.crimeType?.id ?? null);
+      setSeverity(report.severity);
+      setDescription(report.description ?? '');
+    }
+  }, [report]);
+
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+
+  const changes =
+    report && crimeTypeId && severity
+      ? getReportChanges(report, crimeTypeId, severity, description)
+      : {};
+  const hasChanges = Object.keys(changes).length > 0;
+
+  return (
+    <Modal visible={report !== null} transparent animationType="slide" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable
+          style={[
+            styles.sheet,
+            {backgroundColor: isDark ? tokens.colors.surface.dark : tokens.colors.background.light},
+          ]}
+          onPress={e => e.stopPropagation()}>
+          <Text style={[styles.title, {color: textColor}]}>
+            {t('occurrence.myReports.editTitle')}
+          </Text>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={[styles.sectionTitle, {color: textColor}]}>{t('occurrence.type')}</Text>
+            <OccurrenceTypeSelector
+              selectedTypeId={crimeTypeId}
+              onSelectType={setCrimeTypeId}
+              disabled={isSaving}
+            />
+
+            <Text style={[styles.sectionTitle, {color: textColor}]}>
+              {t('occurrence.severity')}
+            </Text>
+            <SeveritySelector
+              selectedSeverity={severity}
+              onSelectSeverity={setSeverity}
+              disabled={isSaving}
+            />
+
+            <Text style={[styles.sectionTitle, {color: textColor}]}>
+              {t('occurrence.description')}
+            </Text>
+            <TextInput
+              style={[
+                styles.descriptionInput,
+                {
+                  color: textColor,
+                  backgroundColor: isDark
+                    ? tokens.colors.background.dark
+                    : tokens.colors.surface.light,
+                },
+              ]}
+              value={description}
+              onChangeText={setDescription}
+              multiline
+              maxLength={MAX_DESCRIPTION_LENGTH}
+              editable={!isSaving}
+              textAlignVertical="top"
+              placeholderTextColor={secondaryColor}
+              testID="report-edit-description"
+            />
+
+            {error ? <Text style={styles.errorText}>{t(error)}</Text> : null}
+          </ScrollView>
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.button, styles.cancelButton]}
+              onPress={onClose}
+              disabled={isSaving}
+              accessibilityRole="button">
+              <Text style={[styles.buttonText, {color: textColor}]}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.saveButton, !hasChanges && styles.buttonDisabled]}
+              onPress={() => onSave(changes)}
+              disabled={!hasChanges || isSaving}
+              accessibilityRole="button"
+              testID="report-edit-save">
+              {isSaving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={[styles.buttonText, styles.saveButtonText]}>{t('common.save')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    maxHeight: '85%',
+    borderTopLeftRadius: tokens.borderRadius.xl,
+    borderTopRightRadius: tokens.borderRadius.xl,
+    padding: tokens.spacing.lg,
+    ...tokens.shadow.lg,
+  },
+  title: {
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+    marginBottom: tokens.spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+    marginTop: tokens.spacing.md,
+    marginBottom: tokens.spacing.sm,
+  },
+  descriptionInput: {
+    minHeight: 80,
+    borderRadius: tokens.borderRadius.md,
+    padding: tokens.spacing.md,
+    fontSize: tokens.typography.fontSize.sm,
+  },
+  errorText: {
+    color: tokens.colors.error,
+    fontSize: tokens.typography.fontSize.sm,
+    marginTop: tokens.spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: tokens.spacing.md,
+    marginTop: tokens.spacing.lg,
+  },
+  button: {
+    flex: 1,
+    borderRadius: tokens.borderRadius.md,
+    paddingVertical: tokens.spacing.md,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(0,0,0,0.05)',
+  },
+  saveButton: {
+    backgroundColor: tokens.colors.primary[500],
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+  },
+});
+
+export default ReportEditSheet;
@@ -10,3 +10,12 @@ export type {SeveritySelectorProps, SeverityLevel} from './SeveritySelector';
 
 export {OccurrenceForm} from './OccurrenceForm';
 export type {OccurrenceFormProps} from './OccurrenceForm';
+
+export {AttachmentPicker} from './AttachmentPicker';
+export type {AttachmentPickerProps} from './AttachmentPicker';
+
+export {ReportEditSheet, getReportChanges} from './ReportEditSheet';
+export type {ReportEditSheetProps} from './ReportEditSheet';
+
+export {DuplicateReportPrompt} from './DuplicateReportPrompt';
+export type {DuplicateReportPromptProps} from './DuplicateReportPrompt';
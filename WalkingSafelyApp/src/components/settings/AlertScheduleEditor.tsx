@@ -0,0 +1,201 @@
+/**
+ * AlertScheduleEditor Component
+ * Limits risk alerts to some hours and days of the week
+ */
+
+import React, {memo} from 'react';
+import {StyleSheet, Text, TouchableOpacity, View} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {tokens} from '@/shared/theme/tokens';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {AlertSchedule} from '@/types/models';
+import {
+  ALL_WEEKDAYS,
+  parseScheduleTime,
+  shiftScheduleTime,
+  toggleScheduleDay,
+} from '@/utils/alertSchedule';
+import {SettingsRow} from './SettingsRow';
+
+/** Step of the time buttons */
+const SCHEDULE_STEP_MINUTES = 30;
+
+/** Window offered when the schedule is turned on: nights only */
+const DEFAULT_SCHEDULE: AlertSchedule = {
+  startTime: '20:00',
+  endTime: '06:00',
+  daysOfWeek: [],
+};
+
+/** Weekday keys, from Sunday */
+const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Props for AlertScheduleEditor component
+ */
+export interface AlertScheduleEditorProps {
+  /** Null when alerts may come at any time */
+  schedule: AlertSchedule | null;
+  onChange: (schedule: AlertSchedule | null) => void;
+  disabled?: boolean;
+}
+
+const AlertScheduleEditorComponent: React.FC<AlertScheduleEditorProps> = ({
+  schedule,
+  onChange,
+  disabled = false,
+}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+  const surfaceColor = isDark ? tokens.colors.surface.dark : tokens.colors.surface.light;
+
+  const renderTime = (label: string, field: 'startTime' | 'endTime', current: AlertSchedule) => {
+    const otherEnd = field === 'startTime' ? current.endTime : current.startTime;
+    const shift = (delta: number) =>
+      onChange({...current, [field]: shiftScheduleTime(current[field], delta, otherEnd)});
+
+    return (
+      <View style={[styles.timeRow, {backgroundColor: surfaceColor}]}>
+        <Text style={[styles.timeLabel, {color: textColor}]}>{label}</Text>
+        <TouchableOpacity
+          style={styles.stepButton}
+          onPress={() => shift(-SCHEDULE_STEP_MINUTES)}
+          disabled={disabled}
+          accessibilityRole="button"
+          accessibilityLabel={t('settings.alerts.schedule.earlier', {label})}>
+          <Text style={styles.stepText}>−</Text>
+        </TouchableOpacity>
+        <Text style={[styles.timeValue, {color: textColor}]}>{current[field]}</Text>
+        <TouchableOpacity
+          style={styles.stepButton}
+          onPress={() => shift(SCHEDULE_STEP_MINUTES)}
+          disabled={disabled}
+          accessibilityRole="button"
+          accessibilityLabel={t('settings.alerts.schedule.later', {label})}>
+          <Text style={styles.stepText}>+</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const crossesMidnight =
+    schedule !== null &&
+    (parseScheduleTime(schedule.startTime) ?? 0) > (parseScheduleTime(schedule.endTime) ?? 0);
+
+  return (
+    <View style={styles.container}>
+      <SettingsRow
+        label={t('settings.alerts.schedule.limit')}
+        description={t('settings.alerts.schedule.limitHint')}
+        value={schedule !== null}
+        onValueChange={limited => onChange(limited ? DEFAULT_SCHEDULE : null)}
+        disabled={disabled}
+      />
+
+      {schedule && (
+        <View style={[styles.container, disabled && styles.disabled]}>
+          {renderTime(t('settings.alerts.schedule.from'), 'startTime', schedule)}
+          {renderTime(t('settings.alerts.schedule.until'), 'endTime', schedule)}
+          {crossesMidnight && (
+            <Text style={[styles.hint, {color: secondaryColor}]}>
+              {t('settings.alerts.schedule.overnight')}
+            </Text>
+          )}
+
+          <View style={styles.days}>
+            {ALL_WEEKDAYS.map(day => {
+              const active = schedule.daysOfWeek.length === 0 || schedule.daysOfWeek.includes(day);
+              const label = t(`settings.alerts.schedule.days.${WEEKDAY_KEYS[day]}`);
+              return (
+                <TouchableOpacity
+                  key={day}
+                  style={[
+                    styles.day,
+                    {backgroundColor: active ? tokens.colors.primary[500] : surfaceColor},
+                  ]}
+                  onPress={() =>
+                    onChange({...schedule, daysOfWeek: toggleScheduleDay(schedule.daysOfWeek, day)})
+                  }
+                  disabled={disabled}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{checked: active, disabled}}
+                  accessibilityLabel={label}>
+                  <Text style={[styles.dayText, {color: active ? '#FFFFFF' : textColor}]}>
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: tokens.spacing.sm,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: tokens.spacing.md,
+    paddingVertical: tokens.spacing.sm,
+    borderRadius: tokens.borderRadius.md,
+    gap: tokens.spacing.sm,
+  },
+  timeLabel: {
+    flex: 1,
+    fontSize: tokens.typography.fontSize.md,
+  },
+  timeValue: {
+    minWidth: 56,
+    textAlign: 'center',
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: tokens.borderRadius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: tokens.colors.primary[100],
+  },
+  stepText: {
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '700',
+    color: tokens.colors.primary[700],
+  },
+  hint: {
+    fontSize: tokens.typography.fontSize.sm,
+  },
+  days: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: tokens.spacing.xs,
+  },
+  day: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: tokens.spacing.sm,
+    borderRadius: tokens.borderRadius.md,
+  },
+  dayText: {
+    fontSize: tokens.typography.fontSize.xs,
+    fontWeight: '600',
+  },
+});
+
+export const AlertScheduleEditor = memo(AlertScheduleEditorComponent);
+
+export default AlertScheduleEditor;
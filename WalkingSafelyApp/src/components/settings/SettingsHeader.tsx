@@ -0,0 +1,75 @@
+/**
+ * SettingsHeader Component
+ * Title bar of the settings screens, with a back button
+ */
+
+import React, {memo} from 'react';
+import {StyleSheet, Text, TouchableOpacity, View} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {tokens} from '@/shared/theme/tokens';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+
+/**
+ * Props for SettingsHeader component
+ */
+export interface SettingsHeaderProps {
+  title: string;
+  onBack: () => void;
+}
+
+const SettingsHeaderComponent: React.FC<SettingsHeaderProps> = ({title, onBack}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+
+  return (
+    <View
+      style={[
+        styles.header,
+        {borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'},
+      ]}>
+      <TouchableOpacity
+        onPress={onBack}
+        style={styles.backButton}
+        accessibilityRole="button"
+        accessibilityLabel={t('common.back')}>
+        <Text style={[styles.backText, {color: textColor}]}>←</Text>
+      </TouchableOpacity>
+      <Text style={[styles.title, {color: textColor}]} numberOfLines={1}>
+        {title}
+      </Text>
+      <View style={styles.spacer} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: tokens.spacing.lg,
+    paddingVertical: tokens.spacing.md,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    padding: tokens.spacing.sm,
+  },
+  backText: {
+    fontSize: 24,
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  spacer: {
+    width: 40,
+  },
+});
+
+export const SettingsHeader = memo(SettingsHeaderComponent);
+
+export default SettingsHeader;
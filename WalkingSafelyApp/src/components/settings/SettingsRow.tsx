@@ -0,0 +1,132 @@
+/**
+ * SettingsRow Component
+ * One setting: a switch, a choice among options or a link to another screen
+ */
+
+import React, {memo} from 'react';
+import {StyleSheet, Switch, Text, TouchableOpacity, View} from 'react-native';
+import {tokens} from '@/shared/theme/tokens';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+
+/**
+ * Props for SettingsRow component
+ */
+export interface SettingsRowProps {
+  label: string;
+  icon?: string;
+  description?: string;
+  /** Shows a switch with this value */
+  value?: boolean;
+  onValueChange?: (value: boolean) => void;
+  /** Shows a check mark, for one option among several */
+  selected?: boolean;
+  /** Makes the row pressable, with a chevron unless it is an option */
+  onPress?: () => void;
+  disabled?: boolean;
+}
+
+const SettingsRowComponent: React.FC<SettingsRowProps> = ({
+  label,
+  icon,
+  description,
+  value,
+  onValueChange,
+  selected,
+  onPress,
+  disabled = false,
+}) => {
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+  const isSwitch = value !== undefined;
+  const isOption = selected !== undefined;
+
+  const content = (
+    <>
+      {icon ? <Text style={styles.icon}>{icon}</Text> : null}
+      <View style={styles.texts}>
+        <Text style={[styles.label, {color: textColor}]}>{label}</Text>
+        {description ? (
+          <Text style={[styles.description, {color: secondaryColor}]}>{description}</Text>
+        ) : null}
+      </View>
+      {isSwitch && (
+        <Switch
+          value={value}
+          onValueChange={onValueChange}
+          disabled={disabled}
+          trackColor={{true: tokens.colors.primary[500]}}
+          accessibilityLabel={label}
+        />
+      )}
+      {isOption && selected && <Text style={styles.check}>✓</Text>}
+      {!isSwitch && !isOption && onPress && (
+        <Text style={[styles.chevron, {color: secondaryColor}]}>›</Text>
+      )}
+    </>
+  );
+
+  const rowStyle = [
+    styles.row,
+    {backgroundColor: isDark ? tokens.colors.surface.dark : tokens.colors.surface.light},
+    disabled && styles.disabled,
+  ];
+
+  if (isSwitch || !onPress) {
+    return <View style={rowStyle}>{content}</View>;
+  }
+
+  return (
+    <TouchableOpacity
+      style={rowStyle}
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityRole={isOption ? 'radio' : 'button'}
+      accessibilityState={isOption ? {selected, disabled} : {disabled}}
+      accessibilityLabel={label}>
+      {content}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: tokens.spacing.md,
+    paddingVertical: tokens.spacing.md,
+    borderRadius: tokens.borderRadius.md,
+    gap: tokens.spacing.md,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  icon: {
+    fontSize: tokens.typography.fontSize.xl,
+  },
+  texts: {
+    flex: 1,
+  },
+  label: {
+    fontSize: tokens.typography.fontSize.md,
+  },
+  description: {
+    fontSize: tokens.typography.fontSize.sm,
+    marginTop: 2,
+  },
+  check: {
+    fontSize: tokens.typography.fontSize.lg,
+    color: tokens.colors.primary[500],
+    fontWeight: '700',
+  },
+  chevron: {
+    fontSize: tokens.typography.fontSize.xxl,
+  },
+});
+
+export const SettingsRow = memo(SettingsRowComponent);
+
+export default SettingsRow;
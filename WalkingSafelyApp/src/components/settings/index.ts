@@ -0,0 +1,12 @@
+/**
+ * Settings Components exports
+ */
+
+export {SettingsHeader} from './SettingsHeader';
+export type {SettingsHeaderProps} from './SettingsHeader';
+
+export {SettingsRow} from './SettingsRow';
+export type {SettingsRowProps} from './SettingsRow';
+
+export {AlertScheduleEditor} from './AlertScheduleEditor';
+export type {AlertScheduleEditorProps} from './AlertScheduleEditor';
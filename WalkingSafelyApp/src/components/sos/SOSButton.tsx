@@ -0,0 +1,294 @@
+/**
+ * SOSButton Component
+ * Floating emergency button that alerts the user's trusted contacts
+ * after a short cancellable countdown
+ */
+
+import React, {useCallback, useEffect, useRef, useState} from 'react';
+import {Alert, Modal, StyleSheet, Text, TouchableOpacity, View} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {colors} from '../../theme/colors';
+import {spacing, borderRadius, shadows} from '../../theme/spacing';
+import {fontSize, fontWeight} from '../../theme/typography';
+import {Coordinates} from '../../types/models';
+import {
+  isRejectedSosError,
+  SOS_COUNTDOWN_SECONDS,
+  SOS_RETRY_INTERVAL,
+  useSosStore,
+} from '../../store/sosStore';
+import {isParsedApiError} from '../../shared/services/api';
+
+/**
+ * SOSButton props interface
+ */
+export interface SOSButtonProps {
+  /** Last known position of the user */
+  position: Coordinates | null;
+  /** Destination of the active route, if navigating */
+  destination?: Coordinates | null;
+  /** Called when the user has no trusted contacts and wants to add some */
+  onManageContacts?: () => void;
+  /** Custom style overrides */
+  style?: object;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+/**
+ * SOSButton Component
+ *
+ * Pressing the button opens a countdown; the alert is sent when it reaches
+ * zero unless the user cancels. Alerts the server has not confirmed yet are
+ * retried while the button is mounted.
+ *
+ * @example
+ * ```tsx
+ * <SOSButton position={currentPosition} destination={destination} />
+ * ```
+ */
+export const SOSButton: React.FC<SOSButtonProps> = ({
+  position,
+  destination = null,
+  onManageContacts,
+  style,
+  testID = 'sos-button',
+}) => {
+  const {t} = useTranslation();
+  const contacts = useSosStore(state => state.contacts);
+  const hasPendingAlerts = useSosStore(state => state.pendingAlerts.length > 0);
+  const sendSos = useSosStore(state => state.sendSos);
+  const flushPendingAlerts = useSosStore(state => state.flushPendingAlerts);
+  const fetchContacts = useSosStore(state => state.fetchContacts);
+
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const countdownRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopCountdown = useCallback(() => {
+    if (countdownRef.current) {
+      clearInterval(countdownRef.current);
+      countdownRef.current = null;
+    }
+    setSecondsLeft(null);
+  }, []);
+
+  /**
+   * Send the alert with the position and destination at the moment it fires
+   */
+  const send = useCallback(async () => {
+    stopCountdown();
+
+    if (!position) {
+      Alert.alert(t('sos.failedTitle'), t('sos.errors.noLocation'));
+      return;
+    }
+
+    try {
+      const confirmation = await sendSos({
+        location: position,
+        destination,
+        timestamp: new Date().toISOString(),
+      });
+
+      if (confirmation && confirmation.notifiedContacts === 0) {
+        // Recorded, but no contact could be reached on any channel
+        Alert.alert(t('sos.unreachedTitle'), t('sos.unreachedMessage'));
+      } else if (confirmation) {
+        Alert.alert(
+          t('sos.sentTitle'),
+          t('sos.sentMessage', {count: confirmation.notifiedContacts}),
+        );
+      } else {
+        Alert.alert(t('sos.pendingTitle'), t('sos.pendingMessage'));
+      }
+    } catch (error) {
+      const message = isParsedApiError(error) ? error.message : t('sos.errors.sendFailed');
+      if (isRejectedSosError(error)) {
+        Alert.alert(t('sos.failedTitle'), message);
+      } else {
+        // Still stored and retried, but the user may have to act, e.g. log in again
+        Alert.alert(t('sos.keptTitle'), t('sos.keptMessage', {error: message}));
+      }
+    }
+  }, [position, destination, sendSos, stopCountdown, t]);
+
+  /**
+   * Start the cancellable countdown
+   */
+  const handlePress = useCallback(() => {
+    if (contacts.length === 0) {
+      Alert.alert(t('sos.noContactsTitle'), t('sos.noContactsMessage'), [
+        {text: t('common.cancel'), style: 'cancel'},
+        ...(onManageContacts ? [{text: t('sos.manageContacts'), onPress: onManageContacts}] : []),
+      ]);
+      return;
+    }
+
+    setSecondsLeft(SOS_COUNTDOWN_SECONDS);
+    countdownRef.current = setInterval(() => {
+      setSecondsLeft(current => (current === null ? null : current - 1));
+    }, 1000);
+  }, [contacts.length, onManageContacts, t]);
+
+  // Refresh contacts; the stored list is used while offline
+  useEffect(() => {
+    void fetchContacts();
+  }, [fetchContacts]);
+
+  // Fire the alert when the countdown reaches zero
+  useEffect(() => {
+    if (secondsLeft === 0) {
+      void send();
+    }
+  }, [secondsLeft, send]);
+
+  // Keep retrying unconfirmed alerts, including ones stored before a restart
+  useEffect(() => {
+    if (!hasPendingAlerts) {
+      return;
+    }
+
+    void flushPendingAlerts();
+    const timer = setInterval(() => {
+      void flushPendingAlerts();
+    }, SOS_RETRY_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [hasPendingAlerts, flushPendingAlerts]);
+
+  // Don't leave the countdown running after unmount
+  useEffect(() => stopCountdown, [stopCountdown]);
+
+  return (
+    <>
+      <TouchableOpacity
+        testID={testID}
+        onPress={handlePress}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityLabel={t('sos.accessibilityLabel')}
+        accessibilityHint={t('sos.accessibilityHint')}
+        style={[styles.button, style]}>
+        <Text style={styles.buttonText}>SOS</Text>
+        {hasPendingAlerts && <View style={styles.pendingDot} />}
+      </TouchableOpacity>
+
+      <Modal
+        visible={secondsLeft !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={stopCountdown}>
+        <View style={styles.overlay}>
+          <View style={styles.dialog}>
+            <Text style={styles.title}>{t('sos.countdownTitle')}</Text>
+            <Text style={styles.countdown} accessibilityLiveRegion="assertive">
+              {secondsLeft}
+            </Text>
+            <Text style={styles.message}>
+              {t('sos.countdownMessage', {count: contacts.length})}
+            </Text>
+            <TouchableOpacity
+              testID={`${testID}-cancel`}
+              onPress={stopCountdown}
+              style={[styles.dialogButton, styles.cancelButton]}
+              accessibilityRole="button">
+              <Text style={styles.cancelText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              testID={`${testID}-send-now`}
+              onPress={() => void send()}
+              style={[styles.dialogButton, styles.sendButton]}
+              accessibilityRole="button">
+              <Text style={styles.sendText}>{t('sos.sendNow')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: colors.error.dark,
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...shadows.md,
+  },
+  buttonText: {
+    color: colors.neutral.white,
+    fontSize: fontSize.base,
+    fontWeight: fontWeight.bold,
+  },
+  pendingDot: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: colors.warning.main,
+    borderWidth: 2,
+    borderColor: colors.neutral.white,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  dialog: {
+    width: '85%',
+    maxWidth: 360,
+    backgroundColor: colors.neutral.white,
+    borderRadius: borderRadius.xl,
+    padding: spacing.xl,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: fontSize.lg,
+    fontWeight: fontWeight.bold,
+    color: colors.error.dark,
+    textAlign: 'center',
+  },
+  countdown: {
+    fontSize: 64,
+    fontWeight: fontWeight.bold,
+    color: colors.error.dark,
+    marginVertical: spacing.base,
+  },
+  message: {
+    fontSize: fontSize.md,
+    color: colors.neutral.gray600,
+    textAlign: 'center',
+    marginBottom: spacing.xl,
+  },
+  dialogButton: {
+    width: '100%',
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.lg,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  cancelButton: {
+    backgroundColor: colors.neutral.gray200,
+  },
+  cancelText: {
+    fontSize: fontSize.base,
+    fontWeight: fontWeight.semibold,
+    color: colors.neutral.gray800,
+  },
+  sendButton: {
+    backgroundColor: colors.error.dark,
+  },
+  sendText: {
+    fontSize: fontSize.base,
+    fontWeight: fontWeight.semibold,
+    color: colors.neutral.white,
+  },
+});
+
+export default SOSButton;
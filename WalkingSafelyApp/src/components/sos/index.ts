@@ -0,0 +1,6 @@
+/**
+ * SOS Components exports
+ */
+
+export {SOSButton} from './SOSButton';
+export type {SOSButtonProps} from './SOSButton';
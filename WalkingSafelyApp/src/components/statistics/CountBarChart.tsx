@@ -0,0 +1,153 @@
+/**
+ * CountBarChart Component
+ * Bar chart of occurrence counts, with the busiest bar highlighted
+ */
+
+import React, {memo} from 'react';
+import {StyleSheet, Text, View} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {tokens} from '@/shared/theme/tokens';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {getBarRatios, getPeakIndex} from '@/store/statisticsStore';
+
+/** Height of the largest bar */
+const CHART_HEIGHT = 96;
+
+/** Bars are never drawn shorter than this so empty slots stay visible */
+const MIN_BAR_HEIGHT = 2;
+
+/**
+ * Props for CountBarChart component
+ */
+export interface CountBarChartProps {
+  title: string;
+  counts: number[];
+  /** Label of each bar, read by screen readers */
+  labels: string[];
+  /** Only every nth label is shown under the chart */
+  labelEvery?: number;
+  color?: string;
+}
+
+const CountBarChartComponent: React.FC<CountBarChartProps> = ({
+  title,
+  counts,
+  labels,
+  labelEvery = 1,
+  color = tokens.colors.primary[500],
+}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const ratios = getBarRatios(counts);
+  const peak = getPeakIndex(counts);
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.surface.dark : tokens.colors.background.light},
+      ]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, {color: textColor}]}>{title}</Text>
+        {peak >= 0 && (
+          <Text style={[styles.peak, {color: secondaryColor}]}>
+            {t('statistics.peak', {label: labels[peak]})}
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.bars}>
+        {ratios.map((ratio, index) => (
+          <View
+            key={index}
+            style={styles.barSlot}
+            accessible
+            accessibilityLabel={t('statistics.barLabel', {
+              label: labels[index],
+              count: counts[index],
+            })}>
+            <View
+              style={[
+                styles.bar,
+                {
+                  height: Math.max(MIN_BAR_HEIGHT, ratio * CHART_HEIGHT),
+                  backgroundColor: color,
+                  opacity: index === peak ? 1 : 0.5,
+                },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.axis}>
+        {labels
+          .filter((_, index) => index % labelEvery === 0)
+          .map(label => (
+            <Text key={label} style={[styles.axisLabel, {color: secondaryColor}]}>
+              {label}
+            </Text>
+          ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: tokens.borderRadius.lg,
+    padding: tokens.spacing.md,
+    ...tokens.shadow.sm,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: tokens.spacing.sm,
+  },
+  title: {
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+  peak: {
+    fontSize: tokens.typography.fontSize.xs,
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: CHART_HEIGHT,
+  },
+  barSlot: {
+    flex: 1,
+    height: CHART_HEIGHT,
+    justifyContent: 'flex-end',
+    paddingHorizontal: 1,
+  },
+  bar: {
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  axis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: tokens.spacing.xs,
+  },
+  axisLabel: {
+    fontSize: tokens.typography.fontSize.xs,
+  },
+});
+
+/**
+ * Memoized CountBarChart to prevent unnecessary re-renders
+ */
+export const CountBarChart = memo(CountBarChartComponent);
+
+CountBarChart.displayName = 'CountBarChart';
+
+export default CountBarChart;
@@ -0,0 +1,6 @@
+/**
+ * Statistics Components exports
+ */
+
+export {CountBarChart} from './CountBarChart';
+export type {CountBarChartProps} from './CountBarChart';
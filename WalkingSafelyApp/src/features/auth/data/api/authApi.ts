@@ -46,6 +46,7 @@ export interface User {
   name: string;
   email: string;
   locale: 'pt_BR' | 'en' | 'es';
+  role?: 'user' | 'moderator' | 'admin';
   created_at: string;
   updated_at?: string;
 }
@@ -165,6 +165,17 @@ export const useAuthStore = create<AuthStore>()(
  */
 export const selectUser = (state: AuthStore) => state.user;
 
+/**
+ * Check whether the user can use the moderation tools
+ */
+export const hasModeratorPrivileges = (user: User | null): boolean =>
+  user?.role === 'moderator' || user?.role === 'admin';
+
+/**
+ * Select whether the user can use the moderation tools
+ */
+export const selectIsModerator = (state: AuthStore) => hasModeratorPrivileges(state.user);
+
 /**
  * Select only the authentication status
  */
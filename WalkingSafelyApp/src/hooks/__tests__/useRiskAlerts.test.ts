@@ -0,0 +1,176 @@
+/**
+ * Tests for useRiskAlerts
+ *
+ * **Property 44: Speed Adaptive Risk Alerts**
+ *
+ * For any speed, the alert distance SHALL grow with it from RISK_ALERT_DISTANCE
+ * up to HIGH_SPEED_ALERT_DISTANCE. For any set of risk points, the one alerted
+ * SHALL be within that distance, ahead of the user and near the route, and no
+ * other such point SHALL be more severe, or as severe and closer.
+ */
+
+import * as fc from 'fast-check';
+
+import type {Occurrence, OccurrenceSeverity} from '../../types/models';
+import {HIGH_SPEED_ALERT_DISTANCE, HIGH_SPEED_THRESHOLD} from '../../utils/constants';
+import {calculateDistance, distanceToPolyline} from '../../utils/geo';
+import {RISK_ALERT_DISTANCE, RISK_ALERT_ROUTE_TOLERANCE} from '../../utils/navigationConstants';
+import {getSeverityByValue} from '../../utils/severityLevels';
+import {findNearbyRiskPoint, getAlertDistance, isAhead} from '../useRiskAlerts';
+
+jest.mock('react-native-webview', () => ({WebView: 'WebView'}));
+
+const position = {latitude: -23.5505, longitude: -46.6333};
+
+// Heading north along a straight street
+const route = [
+  {latitude: -23.555, longitude: -46.6333},
+  {latitude: -23.545, longitude: -46.6333},
+];
+
+const occurrence = (
+  id: string,
+  latitude: number,
+  longitude: number,
+  severity: OccurrenceSeverity,
+): Occurrence => ({
+  id,
+  timestamp: '2024-01-01T12:00:00Z',
+  location: {latitude, longitude},
+  crimeType: {id: '1', name: 'Roubo', categoryId: '1'},
+  severity,
+  confidenceScore: 1,
+  source: 'collaborative',
+});
+
+const occurrenceArbitrary = fc
+  .record({
+    latOffset: fc.integer({min: -400, max: 400}),
+    lngOffset: fc.integer({min: -100, max: 100}),
+    severity: fc.constantFrom<OccurrenceSeverity>('low', 'medium', 'high', 'critical'),
+  })
+  .map(({latOffset, lngOffset, severity}) => ({
+    location: {
+      latitude: position.latitude + latOffset / 100000,
+      longitude: position.longitude + lngOffset / 100000,
+    },
+    severity,
+  }));
+
+const severityOf = (value: OccurrenceSeverity) => getSeverityByValue(value)?.order ?? 0;
+
+describe('useRiskAlerts', () => {
+  describe('Property 44: Speed adaptive risk alerts', () => {
+    it('should grow the alert distance with speed, within its bounds', () => {
+      fc.assert(
+        fc.property(
+          fc.double({min: 0, max: 150, noNaN: true}),
+          fc.double({min: 0, max: 150, noNaN: true}),
+          (a, b) => {
+            const [slower, faster] = a <= b ? [a, b] : [b, a];
+            const distance = getAlertDistance(slower);
+            return (
+              distance >= RISK_ALERT_DISTANCE &&
+              distance <= HIGH_SPEED_ALERT_DISTANCE &&
+              getAlertDistance(faster) >= distance
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+
+    it('should alert the most severe risk point ahead on the route', () => {
+      fc.assert(
+        fc.property(
+          fc.array(occurrenceArbitrary, {maxLength: 15}),
+          fc.double({min: 0, max: 80, noNaN: true}),
+          (points, speed) => {
+            const occurrences = points.map((point, index) =>
+              occurrence(
+                `occ-${index}`,
+                point.location.latitude,
+                point.location.longitude,
+                point.severity,
+              ),
+            );
+            const alertDistance = getAlertDistance(speed);
+            const context = {heading: 0, route};
+            const found = findNearbyRiskPoint(
+              position,
+              occurrences,
+              alertDistance,
+              new Set(),
+              context,
+            );
+
+            const eligible = occurrences.filter(
+              candidate =>
+                calculateDistance(position, candidate.location) <= alertDistance &&
+                isAhead(position, 0, candidate.location) &&
+                distanceToPolyline(candidate.location, route).distance <=
+                  RISK_ALERT_ROUTE_TOLERANCE,
+            );
+
+            if (!found) {
+              return eligible.length === 0;
+            }
+            return (
+              eligible.includes(found.occurrence) &&
+              eligible.every(candidate => {
+                const severity = severityOf(candidate.severity);
+                const foundSeverity = severityOf(found.occurrence.severity);
+                return (
+                  severity < foundSeverity ||
+                  (severity === foundSeverity &&
+                    calculateDistance(position, candidate.location) >= found.distance)
+                );
+              })
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should give cyclists more warning and cap it at high speed', () => {
+    expect(getAlertDistance(0)).toBe(RISK_ALERT_DISTANCE);
+    expect(getAlertDistance(20)).toBeGreaterThan(RISK_ALERT_DISTANCE);
+    expect(getAlertDistance(HIGH_SPEED_THRESHOLD)).toBe(HIGH_SPEED_ALERT_DISTANCE);
+    expect(getAlertDistance(90)).toBe(HIGH_SPEED_ALERT_DISTANCE);
+  });
+
+  it('should not alert risk points behind the user', () => {
+    const behind = occurrence('behind', position.latitude - 0.001, position.longitude, 'critical');
+    const ahead = occurrence('ahead', position.latitude + 0.001, position.longitude, 'low');
+
+    const found = findNearbyRiskPoint(position, [behind, ahead], 200, new Set(), {heading: 0});
+
+    expect(found?.occurrence.id).toBe('ahead');
+  });
+
+  it('should not alert risk points off the route', () => {
+    const offRoute = occurrence(
+      'off',
+      position.latitude + 0.0005,
+      position.longitude + 0.001,
+      'high',
+    );
+
+    expect(findNearbyRiskPoint(position, [offRoute], 200, new Set(), {route})).toBeNull();
+    expect(findNearbyRiskPoint(position, [offRoute], 200, new Set())?.occurrence.id).toBe('off');
+  });
+
+  it('should prefer a more severe risk point over a closer one', () => {
+    const close = occurrence('close', position.latitude + 0.0005, position.longitude, 'low');
+    const severe = occurrence('severe', position.latitude + 0.0015, position.longitude, 'critical');
+
+    const found = findNearbyRiskPoint(position, [close, severe], 200, new Set(), {
+      heading: 0,
+      route,
+    });
+
+    expect(found?.occurrence.id).toBe('severe');
+  });
+});
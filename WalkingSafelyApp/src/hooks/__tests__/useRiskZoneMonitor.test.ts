@@ -0,0 +1,69 @@
+/**
+ * Tests for the risk zone check task run by the native monitor
+ */
+
+import {riskZoneMonitor} from '../../services/riskZoneMonitor';
+import {useAlertPreferencesStore} from '../../store/alertPreferencesStore';
+import {useRiskZoneStore} from '../../store/riskZoneStore';
+import {riskZoneCheckTask} from '../useRiskZoneMonitor';
+
+jest.mock('../../shared/config/i18n', () => ({
+  __esModule: true,
+  default: {t: (key: string) => key},
+}));
+
+jest.mock('../../store/mapStore', () => ({
+  useMapStore: jest.fn(),
+}));
+
+jest.mock('../../services/riskZoneMonitor', () => ({
+  riskZoneMonitor: {isSupported: jest.fn(), start: jest.fn(), stop: jest.fn()},
+}));
+
+const mockedStop = riskZoneMonitor.stop as jest.Mock;
+
+const position = {latitude: -23.5505, longitude: -46.6333};
+
+describe('riskZoneCheckTask', () => {
+  const checkPosition = jest.fn();
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    useRiskZoneStore.getState().reset();
+    useRiskZoneStore.setState({checkPosition});
+  });
+
+  it('should check the position while alerts are on', async () => {
+    useRiskZoneStore.setState({enabled: true});
+
+    await riskZoneCheckTask(position);
+
+    expect(checkPosition).toHaveBeenCalledWith(position);
+    expect(mockedStop).not.toHaveBeenCalled();
+  });
+
+  it('should stop the monitor left running after alerts were turned off', async () => {
+    await riskZoneCheckTask(position);
+
+    expect(checkPosition).not.toHaveBeenCalled();
+    expect(mockedStop).toHaveBeenCalled();
+  });
+
+  it('should load the stores from storage when the app was closed', async () => {
+    useRiskZoneStore.setState({enabled: true});
+    jest.spyOn(useRiskZoneStore.persist, 'hasHydrated').mockReturnValue(false);
+    const rehydrateZones = jest
+      .spyOn(useRiskZoneStore.persist, 'rehydrate')
+      .mockResolvedValue(undefined);
+    const rehydratePreferences = jest
+      .spyOn(useAlertPreferencesStore.persist, 'rehydrate')
+      .mockResolvedValue(undefined);
+
+    await riskZoneCheckTask(position);
+
+    expect(rehydrateZones).toHaveBeenCalled();
+    expect(rehydratePreferences).not.toHaveBeenCalled();
+    expect(checkPosition).toHaveBeenCalledWith(position);
+  });
+});
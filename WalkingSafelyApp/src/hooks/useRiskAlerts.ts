@@ -6,8 +6,23 @@
 
 import {useCallback, useEffect, useRef, useState} from 'react';
 import {Coordinates, Occurrence} from '../types/models';
-import {calculateDistance} from '../utils/geo';
-import {RISK_ALERT_DISTANCE} from '../utils/navigationConstants';
+import {calculateBearing, calculateDistance, distanceToPolyline} from '../utils/geo';
+import {HIGH_SPEED_ALERT_DISTANCE, HIGH_SPEED_THRESHOLD} from '../utils/constants';
+import {
+  RISK_ALERT_BEARING_TOLERANCE,
+  RISK_ALERT_DISTANCE,
+  RISK_ALERT_ROUTE_TOLERANCE,
+  RISK_SEGMENT_MIN_OCCURRENCES,
+} from '../utils/navigationConstants';
+import {
+  RiskSegment,
+  RiskSegmentSummary,
+  findRiskSegment,
+  summarizeRiskSegment,
+} from '../utils/riskSegments';
+import {getSeverityByValue} from '../utils/severityLevels';
+import {isRiskAlertAllowed, useAlertPreferencesStore} from '../store/alertPreferencesStore';
+import {useNavigationStore} from '../store/navigationStore';
 
 /**
  * Risk alert data structure
@@ -17,10 +32,24 @@ export interface RiskAlert {
   occurrence: Occurrence;
   /** Distance to the risk point in meters */
   distance: number;
+  /** Summary of the stretch, when the alert covers several risk points */
+  segment?: RiskSegmentSummary;
   /** Timestamp when alert was triggered */
   triggeredAt: number;
 }
 
+/**
+ * Where the user is heading, to leave out risk points they won't pass by
+ */
+export interface RiskAlertContext {
+  /** Direction of travel in degrees from north, null when unknown */
+  heading?: number | null;
+  /** Remaining route; risk points away from it don't alert */
+  route?: Coordinates[];
+  /** Risk segments of the route; each raises a single alert */
+  segments?: RiskSegment[];
+}
+
 /**
  * useRiskAlerts state interface
  */
@@ -40,20 +69,24 @@ export interface UseRiskAlertsState {
  */
 export interface UseRiskAlertsActions {
   /** Check proximity to risk points and trigger alerts if needed */
-  checkProximity: (position: Coordinates, occurrences: Occurrence[]) => RiskAlert | null;
+  checkProximity: (
+    position: Coordinates,
+    occurrences: Occurrence[],
+    context?: RiskAlertContext
+  ) => RiskAlert | null;
   /** Dismiss the current alert */
   dismissAlert: () => void;
   /** Reset all alerted occurrences (for new navigation session) */
   resetAlerts: () => void;
   /** Manually trigger an alert for a specific occurrence */
-  triggerAlert: (occurrence: Occurrence, distance: number) => void;
+  triggerAlert: (occurrence: Occurrence, distance: number, segment?: RiskSegmentSummary) => void;
 }
 
 /**
  * useRiskAlerts options interface
  */
 export interface UseRiskAlertsOptions {
-  /** Distance threshold for triggering alerts in meters (default: RISK_ALERT_DISTANCE = 200) */
+  /** Fixed distance threshold for triggering alerts in meters (default: scales with speed) */
   alertDistance?: number;
   /** Auto-dismiss alert after duration in ms (0 = manual dismiss only, default: 0) */
   autoDismissAfter?: number;
@@ -73,33 +106,69 @@ export type UseRiskAlertsReturn = UseRiskAlertsState & UseRiskAlertsActions;
 /**
  * Default options
  */
-const DEFAULT_OPTIONS: Required<UseRiskAlertsOptions> = {
-  alertDistance: RISK_ALERT_DISTANCE,
+const DEFAULT_OPTIONS: Required<Omit<UseRiskAlertsOptions, 'alertDistance'>> = {
   autoDismissAfter: 0,
   onAlertTriggered: () => {},
   onAlertDismissed: () => {},
   enabled: true,
 };
 
+/**
+ * Alert distance for the current speed
+ * Grows from RISK_ALERT_DISTANCE when standing still to HIGH_SPEED_ALERT_DISTANCE
+ * at HIGH_SPEED_THRESHOLD, so cyclists and bus riders get the same time to react
+ *
+ * @param speed Current speed in km/h
+ * @returns Distance threshold in meters
+ */
+export function getAlertDistance(speed: number): number {
+  if (!Number.isFinite(speed) || speed <= 0) {
+    return RISK_ALERT_DISTANCE;
+  }
+  const ratio = Math.min(speed / HIGH_SPEED_THRESHOLD, 1);
+  return RISK_ALERT_DISTANCE + (HIGH_SPEED_ALERT_DISTANCE - RISK_ALERT_DISTANCE) * ratio;
+}
+
+/**
+ * Check if a risk point lies ahead of the user, within
+ * RISK_ALERT_BEARING_TOLERANCE of their heading
+ *
+ * @param position Current user position
+ * @param heading Direction of travel in degrees from north
+ * @param point Risk point location
+ * @returns Whether the point is ahead
+ */
+export function isAhead(position: Coordinates, heading: number, point: Coordinates): boolean {
+  const difference = Math.abs(calculateBearing(position, point) - heading) % 360;
+  return Math.min(difference, 360 - difference) <= RISK_ALERT_BEARING_TOLERANCE;
+}
+
 /**
  * Check if a position is within alert distance of any occurrence
  * Requirement 15.1: Emit Risk_Alert when user is approaching a Risk_Point
  * Requirement 15.4: Emit Risk_Alert when user is within configurable distance
  *
+ * Risk points behind the user or away from the route are left out. Of the
+ * rest, the most severe wins and the closest breaks ties.
+ *
  * @param position Current user position
  * @param occurrences Array of occurrences to check
  * @param alertDistance Distance threshold in meters
  * @param alertedIds Set of already alerted occurrence IDs
- * @returns The closest occurrence within alert distance, or null
+ * @param context Heading and route of the user, when known
+ * @returns The occurrence to alert about, or null
  */
 export function findNearbyRiskPoint(
   position: Coordinates,
   occurrences: Occurrence[],
   alertDistance: number,
-  alertedIds: Set<string>
+  alertedIds: Set<string>,
+  context: RiskAlertContext = {}
 ): {occurrence: Occurrence; distance: number} | null {
-  let closestOccurrence: Occurrence | null = null;
-  let closestDistance = Infinity;
+  const {heading, route} = context;
+  let bestOccurrence: Occurrence | null = null;
+  let bestDistance = Infinity;
+  let bestSeverity = -1;
 
   for (const occurrence of occurrences) {
     // Skip already alerted occurrences
@@ -108,18 +177,34 @@ export function findNearbyRiskPoint(
     }
 
     const distance = calculateDistance(position, occurrence.location);
+    if (distance > alertDistance) {
+      continue;
+    }
 
-    // Check if within alert distance and closer than current closest
-    if (distance <= alertDistance && distance < closestDistance) {
-      closestOccurrence = occurrence;
-      closestDistance = distance;
+    // Skip risk points the user is leaving behind or won't pass by
+    if (heading != null && !isAhead(position, heading, occurrence.location)) {
+      continue;
+    }
+    if (
+      route &&
+      route.length > 0 &&
+      distanceToPolyline(occurrence.location, route).distance > RISK_ALERT_ROUTE_TOLERANCE
+    ) {
+      continue;
+    }
+
+    const severity = getSeverityByValue(occurrence.severity)?.order ?? 0;
+    if (severity > bestSeverity || (severity === bestSeverity && distance < bestDistance)) {
+      bestOccurrence = occurrence;
+      bestDistance = distance;
+      bestSeverity = severity;
     }
   }
 
-  if (closestOccurrence) {
+  if (bestOccurrence) {
     return {
-      occurrence: closestOccurrence,
-      distance: closestDistance,
+      occurrence: bestOccurrence,
+      distance: bestDistance,
     };
   }
 
@@ -146,6 +231,10 @@ export function shouldTriggerAlert(
  *
  * Monitors user proximity to risk points during navigation and triggers
  * visual and audio alerts when approaching dangerous areas.
+ * Follows the user's alert preferences: alerts turned off, types left out
+ * and times outside the schedule raise nothing. Unless a fixed alertDistance
+ * is given, the alert distance scales with the speed in the navigation store.
+ * Risk points of the same risk segment raise a single summarized alert.
  *
  * Requirements:
  * - 15.1: Emit Risk_Alert when user is approaching a Risk_Point during Navigation_Mode
@@ -169,15 +258,18 @@ export function shouldTriggerAlert(
  * // Check proximity when position updates
  * useEffect(() => {
  *   if (currentPosition && occurrences.length > 0) {
- *     checkProximity(currentPosition, occurrences);
+ *     checkProximity(currentPosition, occurrences, {heading, route: routeCoordinates});
  *   }
- * }, [currentPosition, occurrences]);
+ * }, [currentPosition, occurrences, heading, routeCoordinates]);
  * ```
  */
 export function useRiskAlerts(
   options: UseRiskAlertsOptions = {}
 ): UseRiskAlertsReturn {
   const mergedOptions = {...DEFAULT_OPTIONS, ...options};
+  const preferences = useAlertPreferencesStore(state => state.preferences);
+  const speed = useNavigationStore(state => state.speed);
+  const alertDistance = options.alertDistance ?? getAlertDistance(speed);
 
   // State
   const [activeAlert, setActiveAlert] = useState<RiskAlert | null>(null);
@@ -213,8 +305,11 @@ export function useRiskAlerts(
    * Trigger an alert for a specific occurrence
    */
   const triggerAlert = useCallback(
-    (occurrence: Occurrence, distance: number) => {
-      if (!mergedOptions.enabled) {
+    (occurrence: Occurrence, distance: number, segment?: RiskSegmentSummary) => {
+      if (
+        !mergedOptions.enabled ||
+        !isRiskAlertAllowed(preferences, occurrence.crimeType.id, new Date())
+      ) {
         return;
       }
 
@@ -225,6 +320,7 @@ export function useRiskAlerts(
       const alert: RiskAlert = {
         occurrence,
         distance,
+        segment,
         triggeredAt: Date.now(),
       };
 
@@ -250,7 +346,7 @@ export function useRiskAlerts(
         `[useRiskAlerts] Alert triggered for ${occurrence.crimeType.name} at ${Math.round(distance)}m`
       );
     },
-    [mergedOptions, clearAutoDismissTimer, dismissAlert]
+    [mergedOptions, preferences, clearAutoDismissTimer, dismissAlert]
   );
 
   /**
@@ -259,33 +355,63 @@ export function useRiskAlerts(
    * Requirement 15.4: Emit when within configurable distance
    */
   const checkProximity = useCallback(
-    (position: Coordinates, occurrences: Occurrence[]): RiskAlert | null => {
+    (
+      position: Coordinates,
+      occurrences: Occurrence[],
+      context?: RiskAlertContext
+    ): RiskAlert | null => {
       if (!mergedOptions.enabled || occurrences.length === 0) {
         return null;
       }
 
+      // Only the occurrences the user wants to hear about right now
+      const now = new Date();
+      const wanted = occurrences.filter(occurrence =>
+        isRiskAlertAllowed(preferences, occurrence.crimeType.id, now)
+      );
+
       // Find nearby risk point
       const nearbyRisk = findNearbyRiskPoint(
         position,
-        occurrences,
-        mergedOptions.alertDistance,
-        alertedOccurrenceIdsRef.current
+        wanted,
+        alertDistance,
+        alertedOccurrenceIdsRef.current,
+        context
       );
 
       if (nearbyRisk) {
+        // Risk points close together on the route raise one alert for all of them
+        const segment = context?.segments
+          ? findRiskSegment(context.segments, nearbyRisk.occurrence.id)
+          : undefined;
+        const wantedIds = new Set(wanted.map(occurrence => occurrence.id));
+        const heading = context?.heading;
+        // Kept in route order, the summary breaks ties by what the user reaches first
+        const covered = (segment?.occurrences ?? []).filter(
+          occurrence =>
+            wantedIds.has(occurrence.id) &&
+            (heading == null || isAhead(position, heading, occurrence.location))
+        );
+        covered.forEach(occurrence => alertedOccurrenceIdsRef.current.add(occurrence.id));
+        const summary =
+          covered.length >= RISK_SEGMENT_MIN_OCCURRENCES
+            ? summarizeRiskSegment(covered, position)
+            : undefined;
+
         // Trigger alert
-        triggerAlert(nearbyRisk.occurrence, nearbyRisk.distance);
+        triggerAlert(nearbyRisk.occurrence, nearbyRisk.distance, summary);
 
         return {
           occurrence: nearbyRisk.occurrence,
           distance: nearbyRisk.distance,
+          segment: summary,
           triggeredAt: Date.now(),
         };
       }
 
       return null;
     },
-    [mergedOptions.enabled, mergedOptions.alertDistance, triggerAlert]
+    [mergedOptions.enabled, alertDistance, preferences, triggerAlert]
   );
 
   /**
@@ -0,0 +1,86 @@
+/**
+ * useRiskZoneMonitor Hook
+ * Keeps the native risk zone monitor running while the user isn't navigating,
+ * so they are alerted when they walk into a high risk area, if they opted in.
+ * The monitor is a foreground service, so alerts also come with the app in
+ * the background or closed.
+ */
+
+import {useEffect} from 'react';
+import {PermissionsAndroid, Platform} from 'react-native';
+import {localNotifications} from '../services/localNotifications';
+import {riskZoneMonitor, RiskZoneTaskData} from '../services/riskZoneMonitor';
+import {useAlertPreferencesStore} from '../store/alertPreferencesStore';
+import {useMapStore} from '../store/mapStore';
+import {useRiskZoneStore} from '../store/riskZoneStore';
+
+/**
+ * Ask for what zone alerts need: location, location while in the background
+ * and notifications. Resolves false unless location and notifications were
+ * allowed; the monitor's foreground service gets locations without background
+ * access, as long as it was started with the app open.
+ */
+export async function requestRiskZonePermissions(): Promise<boolean> {
+  if (Platform.OS !== 'android' || !riskZoneMonitor.isSupported()) {
+    return false;
+  }
+
+  const location = await PermissionsAndroid.request(
+    PermissionsAndroid.PERMISSIONS.ACCESS_FINE_LOCATION,
+  );
+  if (location !== PermissionsAndroid.RESULTS.GRANTED) {
+    return false;
+  }
+
+  // Asked on its own, Android shows the "allow all the time" choice
+  if (Platform.Version >= 29) {
+    await PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.ACCESS_BACKGROUND_LOCATION);
+  }
+
+  return localNotifications.requestPermission();
+}
+
+/**
+ * Headless task the monitor runs for each new position, also with the app
+ * closed, when the stores still have to load from storage
+ */
+export async function riskZoneCheckTask({latitude, longitude}: RiskZoneTaskData): Promise<void> {
+  await Promise.all(
+    [useRiskZoneStore.persist, useAlertPreferencesStore.persist]
+      .filter(store => !store.hasHydrated())
+      .map(store => store.rehydrate()),
+  );
+
+  // Left running after alerts were turned off
+  if (!useRiskZoneStore.getState().enabled) {
+    await riskZoneMonitor.stop();
+    return;
+  }
+
+  await useRiskZoneStore.getState().checkPosition({latitude, longitude});
+}
+
+/**
+ * useRiskZoneMonitor Hook
+ *
+ * Runs the monitor while zone alerts are on. It stops during navigation,
+ * where useRiskAlerts already warns about risk points on the route.
+ */
+export function useRiskZoneMonitor(): void {
+  const enabled = useRiskZoneStore(state => state.enabled);
+  const isNavigating = useMapStore(state => state.isNavigating);
+
+  // No cleanup: the monitor has to keep running after the app's screen is gone
+  useEffect(() => {
+    if (!riskZoneMonitor.isSupported()) {
+      return;
+    }
+    if (enabled && !isNavigating) {
+      void riskZoneMonitor.start();
+    } else {
+      void riskZoneMonitor.stop();
+    }
+  }, [enabled, isNavigating]);
+}
+
+export default useRiskZoneMonitor;
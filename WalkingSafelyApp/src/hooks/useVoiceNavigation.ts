@@ -7,6 +7,7 @@
 import {useCallback, useEffect, useRef, useState} from 'react';
 import {ttsService} from '../services/tts';
 import type {RouteInstruction} from '../types/models';
+import type {RiskSegmentSummary} from '../utils/riskSegments';
 
 /**
  * Voice navigation state interface
@@ -37,9 +38,13 @@ export interface UseVoiceNavigationActions {
   /** Speak a maneuver with advance notice */
   speakManeuver: (maneuver: string, distance: number, fullInstruction?: string, forceSpeak?: boolean) => Promise<void>;
   /** Speak a risk alert */
-  speakRiskAlert: (crimeType: string, distance: number) => Promise<void>;
+  speakRiskAlert: (crimeType: string, distance: number, crimeTypeId?: string) => Promise<void>;
+  /** Speak a summarized alert for a stretch with several risk points */
+  speakRiskSegmentAlert: (segment: RiskSegmentSummary) => Promise<void>;
   /** Speak arrival notification */
   speakArrival: () => Promise<void>;
+  /** Speak arrival at an intermediate stop */
+  speakStopArrival: (stopNumber: number) => Promise<void>;
   /** Speak route recalculation notification */
   speakRecalculating: () => Promise<void>;
   /** Stop current speech */
@@ -269,7 +274,8 @@ export function useVoiceNavigation(
    */
   const speakRiskAlert = useCallback(async (
     crimeType: string,
-    distance: number
+    distance: number,
+    crimeTypeId?: string
   ): Promise<void> => {
     if (!isEnabled || !isInitialized) {
       return;
@@ -277,7 +283,7 @@ export function useVoiceNavigation(
     
     try {
       setIsSpeaking(true);
-      await ttsService.speakRiskAlert(crimeType, distance);
+      await ttsService.speakRiskAlert(crimeType, distance, crimeTypeId);
     } catch (error) {
       console.error('[useVoiceNavigation] Failed to speak risk alert:', error);
     } finally {
@@ -285,6 +291,27 @@ export function useVoiceNavigation(
     }
   }, [isEnabled, isInitialized]);
 
+  /**
+   * Speak a summarized alert for a stretch with several risk points
+   * Requirement 15.3: Narrate risk alert when voice is active
+   */
+  const speakRiskSegmentAlert = useCallback(async (
+    segment: RiskSegmentSummary
+  ): Promise<void> => {
+    if (!isEnabled || !isInitialized) {
+      return;
+    }
+    
+    try {
+      setIsSpeaking(true);
+      await ttsService.speakRiskSegmentAlert(segment);
+    } catch (error) {
+      console.error('[useVoiceNavigation] Failed to speak risk segment alert:', error);
+    } finally {
+      setIsSpeaking(false);
+    }
+  }, [isEnabled, isInitialized]);
+
   /**
    * Speak arrival notification
    */
@@ -303,6 +330,24 @@ export function useVoiceNavigation(
     }
   }, [isEnabled, isInitialized]);
 
+  /**
+   * Speak arrival at an intermediate stop
+   */
+  const speakStopArrival = useCallback(async (stopNumber: number): Promise<void> => {
+    if (!isEnabled || !isInitialized) {
+      return;
+    }
+    
+    try {
+      setIsSpeaking(true);
+      await ttsService.speakStopArrival(stopNumber);
+    } catch (error) {
+      console.error('[useVoiceNavigation] Failed to speak stop arrival:', error);
+    } finally {
+      setIsSpeaking(false);
+    }
+  }, [isEnabled, isInitialized]);
+
   /**
    * Speak route recalculation notification
    * Requirement 16.5: Notify user by voice when route is recalculated
@@ -347,7 +392,9 @@ export function useVoiceNavigation(
     speakInstruction,
     speakManeuver,
     speakRiskAlert,
+    speakRiskSegmentAlert,
     speakArrival,
+    speakStopArrival,
     speakRecalculating,
     stop,
     initialize,
@@ -0,0 +1,291 @@
+/**
+ * TrustedContactsScreen
+ * Lets the user manage the contacts notified by the SOS button
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  TouchableOpacity,
+  Alert,
+  FlatList,
+} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {tokens} from '@/shared/theme/tokens';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {Button} from '@/shared/components/Button';
+import {Input} from '@/shared/components/Input';
+import {useSosStore} from '@/store/sosStore';
+import type {TrustedContact} from '@/types/models';
+import type {NativeStackScreenProps} from '@react-navigation/native-stack';
+
+type AppStackParamList = {
+  TrustedContacts: undefined;
+};
+
+type TrustedContactsScreenProps = NativeStackScreenProps<AppStackParamList, 'TrustedContacts'>;
+
+/**
+ * TrustedContactsScreen Component
+ * Lists trusted contacts with a form to add new ones
+ */
+export const TrustedContactsScreen: React.FC<TrustedContactsScreenProps> = ({navigation}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const {
+    contacts,
+    isLoadingContacts,
+    contactsError,
+    fetchContacts,
+    addContact,
+    removeContact,
+    clearContactsError,
+  } = useSosStore();
+
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+
+  useEffect(() => {
+    void fetchContacts();
+    return clearContactsError;
+  }, [fetchContacts, clearContactsError]);
+
+  /**
+   * Add the contact typed in the form
+   */
+  const handleAdd = useCallback(async () => {
+    setIsSaving(true);
+    try {
+      await addContact({
+        name,
+        phone,
+        email: email.trim() || undefined,
+      });
+      setName('');
+      setPhone('');
+      setEmail('');
+    } catch (error) {
+      // The store keeps the error message in contactsError
+      console.warn('[TrustedContactsScreen] Failed to add contact:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [name, phone, email, addContact]);
+
+  /**
+   * Ask for confirmation before removing a contact
+   */
+  const handleRemove = useCallback(
+    (contact: TrustedContact) => {
+      Alert.alert(
+        t('sos.removeContactTitle'),
+        t('sos.removeContactMessage', {name: contact.name}),
+        [
+          {text: t('common.cancel'), style: 'cancel'},
+          {
+            text: t('common.delete'),
+            style: 'destructive',
+            onPress: () => {
+              removeContact(contact.id).catch(error => {
+                console.warn('[TrustedContactsScreen] Failed to remove contact:', error);
+              });
+            },
+          },
+        ],
+      );
+    },
+    [removeContact, t],
+  );
+
+  const renderContact = ({item}: {item: TrustedContact}) => (
+    <View
+      style={[
+        styles.contactRow,
+        {backgroundColor: isDark ? tokens.colors.surface.dark : tokens.colors.surface.light},
+      ]}>
+      <View style={styles.contactInfo}>
+        <Text style={[styles.contactName, {color: textColor}]}>{item.name}</Text>
+        <Text style={[styles.contactDetail, {color: secondaryColor}]}>{item.phone}</Text>
+        {item.email ? (
+          <Text style={[styles.contactDetail, {color: secondaryColor}]}>{item.email}</Text>
+        ) : (
+          <Text style={styles.contactWarning}>{t('sos.phoneOnlyContact')}</Text>
+        )}
+      </View>
+      <TouchableOpacity
+        onPress={() => handleRemove(item)}
+        style={styles.removeButton}
+        accessibilityRole="button"
+        accessibilityLabel={`${t('common.delete')} ${item.name}`}>
+        <Text style={styles.removeText}>✕</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'},
+        ]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerBackButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.back')}>
+          <Text style={[styles.headerBackText, {color: textColor}]}>←</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, {color: textColor}]}>{t('sos.contactsTitle')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <FlatList
+        data={contacts}
+        keyExtractor={item => item.id}
+        renderItem={renderContact}
+        contentContainerStyle={styles.listContent}
+        refreshing={isLoadingContacts}
+        onRefresh={() => void fetchContacts()}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, {color: secondaryColor}]}>{t('sos.contactsEmpty')}</Text>
+        }
+        ListFooterComponent={
+          <View style={styles.form}>
+            <Input label={t('sos.contactName')} value={name} onChangeText={setName} />
+            <Input
+              label={t('sos.contactPhone')}
+              value={phone}
+              onChangeText={setPhone}
+              keyboardType="phone-pad"
+            />
+            <Input
+              type="email"
+              label={t('sos.contactEmail')}
+              value={email}
+              onChangeText={setEmail}
+            />
+
+            {contactsError && (
+              <View style={styles.errorBanner}>
+                <Text style={styles.errorBannerText}>
+                  ⚠️ {contactsError.startsWith('sos.') ? t(contactsError) : contactsError}
+                </Text>
+              </View>
+            )}
+
+            <Button
+              variant="primary"
+              size="lg"
+              onPress={() => void handleAdd()}
+              loading={isSaving}
+              disabled={isSaving}
+              testID="add-contact-button">
+              {t('sos.addContact')}
+            </Button>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: tokens.spacing.lg,
+    paddingVertical: tokens.spacing.md,
+    borderBottomWidth: 1,
+  },
+  headerBackButton: {
+    padding: tokens.spacing.sm,
+  },
+  headerBackText: {
+    fontSize: 24,
+  },
+  headerTitle: {
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  listContent: {
+    padding: tokens.spacing.lg,
+    paddingBottom: tokens.spacing.xxl,
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: tokens.spacing.md,
+    borderRadius: tokens.borderRadius.md,
+    marginBottom: tokens.spacing.sm,
+  },
+  contactInfo: {
+    flex: 1,
+  },
+  contactName: {
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+  contactDetail: {
+    fontSize: tokens.typography.fontSize.sm,
+    marginTop: 2,
+  },
+  contactWarning: {
+    fontSize: tokens.typography.fontSize.sm,
+    color: tokens.colors.warning,
+    marginTop: 2,
+  },
+  removeButton: {
+    padding: tokens.spacing.sm,
+  },
+  removeText: {
+    fontSize: 18,
+    color: tokens.colors.error,
+  },
+  emptyText: {
+    fontSize: tokens.typography.fontSize.sm,
+    textAlign: 'center',
+    marginVertical: tokens.spacing.lg,
+  },
+  form: {
+    marginTop: tokens.spacing.lg,
+  },
+  errorBanner: {
+    backgroundColor: tokens.colors.error,
+    borderRadius: tokens.borderRadius.md,
+    padding: tokens.spacing.md,
+    marginBottom: tokens.spacing.lg,
+  },
+  errorBannerText: {
+    color: '#FFFFFF',
+    fontSize: tokens.typography.fontSize.sm,
+    textAlign: 'center',
+  },
+});
+
+export default TrustedContactsScreen;
@@ -0,0 +1,5 @@
+/**
+ * Emergency Screens Exports
+ */
+
+export {TrustedContactsScreen} from './TrustedContactsScreen';
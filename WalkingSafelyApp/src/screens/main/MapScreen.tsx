@@ -4,7 +4,7 @@
  * Requirements: 1.1, 1.2, 1.3, 1.4, 2.1, 2.2, 2.3, 2.4, 3.1, 4.1, 6.1, 6.2
  */
 
-import React, {useRef, useCallback, useEffect, useState} from 'react';
+import React, {useRef, useCallback, useEffect, useMemo, useState} from 'react';
 import {
   View,
   StyleSheet,
@@ -26,11 +26,25 @@ import {useTheme} from '@/shared/theme/ThemeProvider';
 import {tokens} from '@/shared/theme/tokens';
 import {MapView, MapViewRef} from '@/components/map/MapView';
 import {RiskPointPopup} from '@/components/map/RiskPointPopup';
+import {MapFilterSheet} from '@/components/map/MapFilterSheet';
 import {HamburgerMenu} from '@/components/menu/HamburgerMenu';
+import {SOSButton} from '@/components/sos';
+import {OCCURRENCE_TYPES} from '@/components/occurrence/OccurrenceTypeSelector';
 import {useMapStore} from '@/store/mapStore';
 import {useOccurrenceStore} from '@/store/occurrenceStore';
 import {useAuthStore} from '@/features/auth/store/authStore';
-import {Coordinates, MapBounds, Address} from '@/types/models';
+import {useNavigationStore} from '@/store/navigationStore';
+import {useCheckInStore} from '@/store/checkInStore';
+import {countActiveFilters, toHeatmapFilters} from '@/utils/occurrenceFilters';
+import {navigationCache} from '@/services/navigationCache';
+import {
+  Coordinates,
+  MapBounds,
+  Address,
+  Occurrence,
+  OccurrenceFilters,
+  RouteResponse,
+} from '@/types/models';
 import type {NativeStackNavigationProp} from '@react-navigation/native-stack';
 
 // Navigation types
@@ -38,11 +52,21 @@ type AppStackParamList = {
   Home: undefined;
   MapScreen: undefined;
   OccurrenceCreate: {coordinates: Coordinates};
+  OccurrenceDetail: {
+    occurrenceId: string;
+    occurrence?: Occurrence;
+  };
   RoutePreview: {
     origin: Coordinates;
     destination: Coordinates;
     destinationAddress?: string;
   };
+  ActiveNavigation: {
+    route: RouteResponse;
+    sessionId: string;
+    resume?: boolean;
+  };
+  TrustedContacts: undefined;
 };
 
 type MapScreenNavigationProp = NativeStackNavigationProp<AppStackParamList, 'MapScreen'>;
@@ -57,6 +81,9 @@ const DEFAULT_POSITION: Coordinates = {
   longitude: -46.6333,
 };
 
+// How often queued occurrence reports are retried
+const OUTBOX_FLUSH_INTERVAL = 30000;
+
 /**
  * Floating Action Button Component
  */
@@ -186,17 +213,24 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
     setCurrentPosition,
     heatmapEnabled,
     toggleHeatmap,
+    loadHeatmapData,
     isLoadingHeatmap,
   } = useMapStore();
 
   // Occurrence store - Requirements 2.1, 2.2, 2.3
   const {
     occurrences,
-    isLoading: isLoadingOccurrences,
     selectedOccurrence,
-    fetchOccurrences,
+    loadViewport,
     selectOccurrence,
     deleteOccurrence,
+    outbox,
+    flushOutbox,
+    retryOutboxItem,
+    removeOutboxItem,
+    filters,
+    setFilters,
+    viewportTruncated,
   } = useOccurrenceStore();
 
   // Local state
@@ -209,6 +243,7 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
   const [isSearching, setIsSearching] = useState(false);
   const [showSearchResults, setShowSearchResults] = useState(false);
   const [lastBounds, setLastBounds] = useState<MapBounds | null>(null);
+  const [showFilterSheet, setShowFilterSheet] = useState(false);
 
   // Debounce timer refs
   const searchDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -301,6 +336,47 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
     requestLocationPermission();
   }, [setCurrentPosition]);
 
+  /**
+   * Offer to resume a navigation interrupted by an app restart
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    navigationCache.load().then(session => {
+      if (cancelled || !session || useNavigationStore.getState().sessionId) {
+        return;
+      }
+      Alert.alert(
+        'Navegação Interrompida',
+        'Deseja retomar a navegação para o seu destino?',
+        [
+          {
+            text: 'Descartar',
+            style: 'cancel',
+            onPress: () => {
+              navigationCache.clear().catch(() => undefined);
+              // Nobody will arrive at this destination to complete its check-in
+              useCheckInStore.getState().cancel();
+            },
+          },
+          {
+            text: 'Retomar',
+            onPress: () =>
+              navigation.navigate('ActiveNavigation', {
+                route: session.route,
+                sessionId: session.sessionId,
+                resume: true,
+              }),
+          },
+        ]
+      );
+    }).catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [navigation]);
+
   /**
    * Center map on user position when it's first obtained
    */
@@ -314,16 +390,15 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
   /**
    * Load occurrences for visible map area
    * Requirements 2.1, 2.2, 2.3: Display risk points within visible map area
+   * Only the parts of the area not loaded yet are fetched
    */
   const loadOccurrencesForBounds = useCallback(async (bounds: MapBounds) => {
-    if (isLoadingOccurrences) return;
-    
     try {
-      await fetchOccurrences(bounds);
+      await loadViewport(bounds);
     } catch (error) {
       console.warn('Failed to load occurrences:', error);
     }
-  }, [isLoadingOccurrences, fetchOccurrences]);
+  }, [loadViewport]);
 
   /**
    * Handle map region change
@@ -345,6 +420,99 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
     [loadOccurrencesForBounds]
   );
 
+  /**
+   * Load heatmap data for the visible area while the layer is enabled
+   * Requirement 9.1: Request heatmap data when the overlay is toggled on
+   * Requirement 9.6: Request updated data when the region changes
+   */
+  useEffect(() => {
+    if (heatmapEnabled && lastBounds) {
+      void loadHeatmapData(lastBounds, toHeatmapFilters(filters));
+    }
+  }, [heatmapEnabled, filters, lastBounds, loadHeatmapData]);
+
+  /**
+   * Apply the filter sheet choices to the markers and the heatmap
+   */
+  const handleApplyFilters = useCallback((newFilters: OccurrenceFilters) => {
+    setShowFilterSheet(false);
+    setFilters(newFilters);
+    if (lastBounds) {
+      void loadViewport(lastBounds);
+    }
+  }, [lastBounds, setFilters, loadViewport]);
+
+  /**
+   * Send queued occurrence reports now and periodically while the map is open
+   * Items whose backoff has not elapsed are skipped by the store
+   */
+  useEffect(() => {
+    void flushOutbox();
+    const timer = setInterval(() => {
+      void flushOutbox();
+    }, OUTBOX_FLUSH_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [flushOutbox]);
+
+  /**
+   * Occurrences plus reports still in the outbox, marked as pending or failed
+   */
+  const mapOccurrences = useMemo(
+    () => [
+      ...occurrences.map(occ => ({
+        id: occ.id,
+        location: occ.location,
+        crimeType: occ.crimeType?.name || 'Ocorrência',
+        severity: occ.severity || 'medium',
+      })),
+      ...outbox.map(item => ({
+        id: item.id,
+        location: item.data.location,
+        crimeType:
+          OCCURRENCE_TYPES.find(type => type.id === item.data.crimeTypeId)?.name || 'Ocorrência',
+        severity: item.data.severity,
+        status: item.status === 'failed' ? ('failed' as const) : ('pending' as const),
+      })),
+    ],
+    [occurrences, outbox],
+  );
+
+  /**
+   * Show the delivery status of a queued report
+   * Server rejections are listed per item with their validation messages
+   */
+  const showOutboxItem = useCallback((id: string) => {
+    const item = outbox.find(entry => entry.id === id);
+    if (!item) return;
+
+    if (item.status !== 'failed') {
+      Alert.alert(
+        'Envio pendente',
+        'Esta ocorrência será enviada automaticamente quando a conexão voltar.',
+        [
+          {text: 'Descartar', style: 'destructive', onPress: () => removeOutboxItem(item.id)},
+          {text: 'OK'},
+        ]
+      );
+      return;
+    }
+
+    const details = [
+      item.error?.message,
+      ...Object.values(item.error?.validationErrors ?? {}).flat(),
+    ].filter(Boolean).join('\n');
+
+    Alert.alert(
+      'Falha no envio',
+      details || 'Não foi possível enviar esta ocorrência.',
+      [
+        {text: 'Descartar', style: 'destructive', onPress: () => removeOutboxItem(item.id)},
+        {text: 'Tentar novamente', onPress: () => void retryOutboxItem(item.id)},
+      ]
+    );
+  }, [outbox, removeOutboxItem, retryOutboxItem]);
+
   /**
    * Handle center on user location button
    * Requirement 1.1: Center map on current location
@@ -384,13 +552,19 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
     location: Coordinates;
     crimeType: string;
     severity: string;
+    status?: 'pending' | 'failed';
   }) => {
+    if (occurrence.status) {
+      showOutboxItem(occurrence.id);
+      return;
+    }
+
     const fullOccurrence = occurrences.find(occ => occ.id === occurrence.id);
     if (fullOccurrence) {
       selectOccurrence(fullOccurrence);
       setShowOccurrencePopup(true);
     }
-  }, [occurrences, selectOccurrence]);
+  }, [occurrences, selectOccurrence, showOutboxItem]);
 
   /**
    * Handle closing occurrence popup
@@ -401,6 +575,17 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
     selectOccurrence(null);
   }, [selectOccurrence]);
 
+  /**
+   * Open the occurrence details, where users confirm or dispute it
+   */
+  const handleViewOccurrenceDetails = useCallback((id: string) => {
+    setShowOccurrencePopup(false);
+    navigation.navigate('OccurrenceDetail', {
+      occurrenceId: id,
+      occurrence: selectedOccurrence ?? undefined,
+    });
+  }, [navigation, selectedOccurrence]);
+
   /**
    * Handle deleting an occurrence
    */
@@ -545,12 +730,7 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
         userPosition={currentPosition || DEFAULT_POSITION}
         showUserMarker={true}
         followUser={isFollowingUser}
-        occurrences={occurrences.map(occ => ({
-          id: occ.id,
-          location: occ.location,
-          crimeType: occ.crimeType?.name || 'Ocorrência',
-          severity: occ.severity || 'medium',
-        }))}
+        occurrences={mapOccurrences}
         heatmapEnabled={heatmapEnabled}
         onLongPress={handleMapLongPress}
         onOccurrencePress={handleOccurrencePress}
@@ -618,6 +798,20 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
         )}
       </View>
 
+      {/* Only the tiles closest to the center are loaded on a wide viewport */}
+      {viewportTruncated && (
+        <View style={styles.viewportHint} testID="viewport-truncated-hint">
+          <Text style={styles.viewportHintText}>
+            Aproxime o mapa para ver todas as ocorrências
+          </Text>
+          {!heatmapEnabled && (
+            <TouchableOpacity onPress={toggleHeatmap} disabled={isLoadingHeatmap}>
+              <Text style={styles.viewportHintAction}>Ver mapa de calor</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
       {/* Floating Action Buttons */}
       <View style={styles.fabContainer}>
         {/* Center on User Location */}
@@ -638,6 +832,14 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
           accessibilityLabel="Alternar mapa de calor"
         />
 
+        {/* Filter occurrences and heatmap */}
+        <FAB
+          icon="🎛️"
+          onPress={() => setShowFilterSheet(true)}
+          active={countActiveFilters(filters) > 0}
+          accessibilityLabel="Filtrar ocorrências"
+        />
+
         {/* Report Occurrence */}
         <FAB
           icon="⚠️"
@@ -649,6 +851,13 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
         />
       </View>
 
+      {/* Emergency SOS */}
+      <SOSButton
+        position={currentPosition}
+        onManageContacts={() => navigation.navigate('TrustedContacts')}
+        style={styles.sosButton}
+      />
+
       {/* Location Permission Banner */}
       {!hasLocationPermission && !isLocationLoading && (
         <View style={styles.permissionBanner}>
@@ -721,6 +930,14 @@ export const MapScreen: React.FC<MapScreenProps> = ({navigation}) => {
         visible={showOccurrencePopup}
         onClose={handleCloseOccurrencePopup}
         onDelete={handleDeleteOccurrence}
+        onViewDetails={handleViewOccurrenceDetails}
+      />
+
+      <MapFilterSheet
+        visible={showFilterSheet}
+        filters={filters}
+        onApply={handleApplyFilters}
+        onClose={() => setShowFilterSheet(false)}
       />
     </SafeAreaView>
   );
@@ -807,12 +1024,38 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: tokens.colors.text.secondary.light,
   },
+  viewportHint: {
+    position: 'absolute',
+    top: 140,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: tokens.spacing.sm,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    borderRadius: tokens.borderRadius.full,
+    paddingHorizontal: tokens.spacing.md,
+    paddingVertical: tokens.spacing.xs,
+  },
+  viewportHintText: {
+    fontSize: tokens.typography.fontSize.sm,
+    color: '#FFFFFF',
+  },
+  viewportHintAction: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+    color: tokens.colors.primary[300],
+  },
   fabContainer: {
     position: 'absolute',
     right: tokens.spacing.md,
     bottom: tokens.spacing.xxl,
     gap: tokens.spacing.sm,
   },
+  sosButton: {
+    position: 'absolute',
+    left: tokens.spacing.md,
+    bottom: tokens.spacing.xxl,
+  },
   fab: {
     width: 52,
     height: 52,
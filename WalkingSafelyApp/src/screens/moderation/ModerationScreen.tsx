@@ -0,0 +1,547 @@
+/**
+ * ModerationScreen
+ * Moderator console: reviews the queue of flagged and low-confidence
+ * occurrences, approving, hiding, re-categorizing or merging each one.
+ * The server writes every decision to the audit trail.
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Pressable,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {SEVERITY_COLORS} from '@/utils/severityLevels';
+import {OccurrenceTypeSelector} from '@/components/occurrence/OccurrenceTypeSelector';
+import {useAuthStore, selectIsModerator} from '@/features/auth/store/authStore';
+import {useModerationStore} from '@/store/moderationStore';
+import {getOccurrenceAge} from '../occurrence/OccurrenceDetailScreen';
+import type {ModerationScreenProps} from '@/types/navigation';
+import type {ModerationItem, Occurrence} from '@/types/models';
+
+/**
+ * ModerationScreen Component
+ */
+export const ModerationScreen: React.FC<ModerationScreenProps> = ({navigation}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const isModerator = useAuthStore(selectIsModerator);
+
+  const items = useModerationStore(state => state.items);
+  const statistics = useModerationStore(state => state.statistics);
+  const isLoading = useModerationStore(state => state.isLoading);
+  const actingId = useModerationStore(state => state.actingId);
+  const duplicates = useModerationStore(state => state.duplicates);
+  const loadingDuplicatesId = useModerationStore(state => state.loadingDuplicatesId);
+  const error = useModerationStore(state => state.error);
+  const loadQueue = useModerationStore(state => state.loadQueue);
+  const approve = useModerationStore(state => state.approve);
+  const hide = useModerationStore(state => state.hide);
+  const recategorize = useModerationStore(state => state.recategorize);
+  const loadDuplicates = useModerationStore(state => state.loadDuplicates);
+  const merge = useModerationStore(state => state.merge);
+
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [recategorizing, setRecategorizing] = useState<ModerationItem | null>(null);
+  const [crimeTypeId, setCrimeTypeId] = useState<string | null>(null);
+
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+  const surfaceColor = isDark ? tokens.colors.surface.dark : tokens.colors.surface.light;
+
+  // The role can change while the screen is open, e.g. after a session refresh
+  useEffect(() => {
+    if (!isModerator) {
+      navigation.goBack();
+      return;
+    }
+    void loadQueue();
+  }, [isModerator, loadQueue, navigation]);
+
+  const handleHide = useCallback(
+    (id: string) => {
+      Alert.alert(t('moderation.hideTitle'), t('moderation.hideMessage'), [
+        {text: t('common.cancel'), style: 'cancel'},
+        {
+          text: t('moderation.hide'),
+          style: 'destructive',
+          onPress: () => {
+            void hide(id);
+          },
+        },
+      ]);
+    },
+    [hide, t],
+  );
+
+  const handleToggleMerge = useCallback(
+    (id: string) => {
+      if (mergingId === id) {
+        setMergingId(null);
+        return;
+      }
+      setMergingId(id);
+      if (!duplicates[id]) {
+        void loadDuplicates(id);
+      }
+    },
+    [duplicates, loadDuplicates, mergingId],
+  );
+
+  const handleMerge = useCallback(
+    (id: string, target: Occurrence) => {
+      Alert.alert(t('moderation.mergeTitle'), t('moderation.mergeMessage'), [
+        {text: t('common.cancel'), style: 'cancel'},
+        {
+          text: t('moderation.merge'),
+          onPress: () => {
+            void merge(id, target.id);
+          },
+        },
+      ]);
+    },
+    [merge, t],
+  );
+
+  const handleOpenRecategorize = useCallback((item: ModerationItem) => {
+    setRecategorizing(item);
+    setCrimeTypeId(item.occurrence.crimeType?.id ?? null);
+  }, []);
+
+  const handleRecategorize = useCallback(async () => {
+    if (recategorizing && crimeTypeId && (await recategorize(recategorizing.id, crimeTypeId))) {
+      setRecategorizing(null);
+    }
+  }, [crimeTypeId, recategorize, recategorizing]);
+
+  const renderOccurrenceSummary = (occurrence: Occurrence) => {
+    const age = getOccurrenceAge(occurrence.timestamp);
+    return (
+      <View style={styles.summary}>
+        <View
+          style={[
+            styles.severityDot,
+            {backgroundColor: SEVERITY_COLORS[occurrence.severity] ?? SEVERITY_COLORS.medium},
+          ]}
+        />
+        <Text style={[styles.summaryTitle, {color: textColor}]} numberOfLines={1}>
+          {occurrence.crimeType?.localizedName || occurrence.crimeType?.name}
+        </Text>
+        {age && (
+          <Text style={[styles.summaryAge, {color: secondaryColor}]}>
+            {t(`occurrence.detail.ago.${age.unit}`, {count: age.value})}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderAction = (label: string, color: string, onPress: () => void, testID: string) => (
+    <TouchableOpacity
+      style={styles.actionButton}
+      onPress={onPress}
+      disabled={actingId !== null}
+      accessibilityRole="button"
+      testID={testID}>
+      <Text style={[styles.actionText, {color}]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderCandidates = (item: ModerationItem) => {
+    if (loadingDuplicatesId === item.id) {
+      return <ActivityIndicator color={tokens.colors.primary[500]} />;
+    }
+    const candidates = duplicates[item.id] ?? [];
+    if (candidates.length === 0) {
+      return (
+        <Text style={[styles.candidatesEmpty, {color: secondaryColor}]}>
+          {t('moderation.noDuplicates')}
+        </Text>
+      );
+    }
+    return candidates.map(candidate => (
+      <TouchableOpacity
+        key={candidate.id}
+        style={styles.candidate}
+        onPress={() => handleMerge(item.id, candidate)}
+        disabled={actingId !== null}
+        accessibilityRole="button"
+        testID={`merge-into-${candidate.id}`}>
+        {renderOccurrenceSummary(candidate)}
+        <Text style={[styles.actionText, {color: tokens.colors.primary[500]}]}>
+          {t('moderation.mergeInto')}
+        </Text>
+      </TouchableOpacity>
+    ));
+  };
+
+  const renderItem = ({item}: {item: ModerationItem}) => {
+    const {occurrence} = item;
+
+    return (
+      <View
+        style={[styles.card, {backgroundColor: surfaceColor}]}
+        testID={`moderation-item-${item.id}`}>
+        {renderOccurrenceSummary(occurrence)}
+
+        <View style={styles.badges}>
+          <View style={[styles.badge, {backgroundColor: tokens.colors.warning}]}>
+            <Text style={styles.badgeText}>{t(`moderation.reasons.${item.reason}`)}</Text>
+          </View>
+          <Text style={[styles.meta, {color: secondaryColor}]}>
+            {t('moderation.confidence', {score: occurrence.confidenceScore})}
+          </Text>
+        </View>
+
+        {occurrence.description ? (
+          <Text style={[styles.description, {color: secondaryColor}]} numberOfLines={3}>
+            {occurrence.description}
+          </Text>
+        ) : null}
+
+        <View style={styles.actions}>
+          {actingId === item.id && <ActivityIndicator color={tokens.colors.primary[500]} />}
+          {renderAction(
+            t('moderation.approve'),
+            tokens.colors.success,
+            () => {
+              void approve(item.id);
+            },
+            `approve-${item.id}`,
+          )}
+          {renderAction(
+            t('moderation.hide'),
+            tokens.colors.error,
+            () => handleHide(item.id),
+            `hide-${item.id}`,
+          )}
+          {renderAction(
+            t('moderation.recategorize'),
+            tokens.colors.primary[500],
+            () => handleOpenRecategorize(item),
+            `recategorize-${item.id}`,
+          )}
+          {renderAction(
+            t('moderation.merge'),
+            tokens.colors.info,
+            () => handleToggleMerge(item.id),
+            `merge-${item.id}`,
+          )}
+        </View>
+
+        {mergingId === item.id && <View style={styles.candidates}>{renderCandidates(item)}</View>}
+      </View>
+    );
+  };
+
+  const renderEmpty = () =>
+    isLoading ? (
+      <ActivityIndicator style={styles.loading} size="large" color={tokens.colors.primary[500]} />
+    ) : (
+      <Text style={[styles.emptyText, {color: secondaryColor}]}>{t('moderation.empty')}</Text>
+    );
+
+  if (!isModerator) {
+    return null;
+  }
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'},
+        ]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerBackButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.back')}>
+          <Text style={[styles.headerBackText, {color: textColor}]}>←</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, {color: textColor}]}>{t('moderation.title')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <Text style={[styles.statistics, {color: secondaryColor}]}>
+        {t('moderation.statistics', {
+          pending: statistics.pending,
+          approved: statistics.approvedToday,
+          rejected: statistics.rejectedToday,
+        })}
+      </Text>
+
+      {error ? <Text style={styles.errorText}>{t(error)}</Text> : null}
+
+      <FlatList
+        data={items}
+        keyExtractor={item => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.content}
+        ListEmptyComponent={renderEmpty}
+        refreshing={isLoading && items.length > 0}
+        onRefresh={() => {
+          void loadQueue();
+        }}
+        testID="moderation-queue"
+      />
+
+      <Modal
+        visible={recategorizing !== null}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setRecategorizing(null)}>
+        <Pressable style={styles.overlay} onPress={() => setRecategorizing(null)}>
+          <Pressable
+            style={[
+              styles.sheet,
+              {
+                backgroundColor: isDark
+                  ? tokens.colors.surface.dark
+                  : tokens.colors.background.light,
+              },
+            ]}
+            onPress={e => e.stopPropagation()}>
+            <Text style={[styles.sheetTitle, {color: textColor}]}>
+              {t('moderation.recategorizeTitle')}
+            </Text>
+            <OccurrenceTypeSelector
+              selectedTypeId={crimeTypeId}
+              onSelectType={setCrimeTypeId}
+              disabled={actingId !== null}
+            />
+            <View style={styles.sheetActions}>
+              <TouchableOpacity
+                style={[styles.sheetButton, styles.cancelButton]}
+                onPress={() => setRecategorizing(null)}
+                accessibilityRole="button">
+                <Text style={[styles.sheetButtonText, {color: textColor}]}>
+                  {t('common.cancel')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.sheetButton,
+                  styles.saveButton,
+                  crimeTypeId === recategorizing?.occurrence.crimeType?.id && styles.buttonDisabled,
+                ]}
+                onPress={() => {
+                  void handleRecategorize();
+                }}
+                disabled={
+                  actingId !== null || crimeTypeId === recategorizing?.occurrence.crimeType?.id
+                }
+                accessibilityRole="button"
+                testID="recategorize-save">
+                {actingId !== null ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <Text style={[styles.sheetButtonText, styles.saveButtonText]}>
+                    {t('common.save')}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: tokens.spacing.lg,
+    paddingVertical: tokens.spacing.md,
+    borderBottomWidth: 1,
+  },
+  headerBackButton: {
+    padding: tokens.spacing.sm,
+  },
+  headerBackText: {
+    fontSize: 24,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  statistics: {
+    fontSize: tokens.typography.fontSize.sm,
+    textAlign: 'center',
+    marginTop: tokens.spacing.md,
+  },
+  loading: {
+    marginTop: tokens.spacing.xl,
+  },
+  emptyText: {
+    fontSize: tokens.typography.fontSize.md,
+    textAlign: 'center',
+    paddingVertical: tokens.spacing.xl,
+  },
+  content: {
+    padding: tokens.spacing.lg,
+  },
+  card: {
+    borderRadius: tokens.borderRadius.md,
+    padding: tokens.spacing.md,
+    marginBottom: tokens.spacing.md,
+  },
+  summary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: tokens.spacing.sm,
+    flex: 1,
+  },
+  severityDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  summaryTitle: {
+    flex: 1,
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+  summaryAge: {
+    fontSize: tokens.typography.fontSize.xs,
+  },
+  badges: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: tokens.spacing.sm,
+    marginTop: tokens.spacing.sm,
+  },
+  badge: {
+    borderRadius: tokens.borderRadius.full,
+    paddingHorizontal: tokens.spacing.sm,
+    paddingVertical: 2,
+  },
+  badgeText: {
+    color: '#FFFFFF',
+    fontSize: tokens.typography.fontSize.xs,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: tokens.typography.fontSize.xs,
+  },
+  description: {
+    fontSize: tokens.typography.fontSize.sm,
+    marginTop: tokens.spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: tokens.spacing.md,
+    marginTop: tokens.spacing.sm,
+  },
+  actionButton: {
+    paddingVertical: tokens.spacing.xs,
+  },
+  actionText: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  candidates: {
+    marginTop: tokens.spacing.sm,
+    gap: tokens.spacing.sm,
+  },
+  candidatesEmpty: {
+    fontSize: tokens.typography.fontSize.sm,
+    textAlign: 'center',
+  },
+  candidate: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: tokens.spacing.sm,
+    paddingVertical: tokens.spacing.xs,
+  },
+  errorText: {
+    color: tokens.colors.error,
+    fontSize: tokens.typography.fontSize.sm,
+    textAlign: 'center',
+    marginTop: tokens.spacing.md,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    borderTopLeftRadius: tokens.borderRadius.xl,
+    borderTopRightRadius: tokens.borderRadius.xl,
+    padding: tokens.spacing.lg,
+    ...tokens.shadow.lg,
+  },
+  sheetTitle: {
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+    marginBottom: tokens.spacing.md,
+  },
+  sheetActions: {
+    flexDirection: 'row',
+    gap: tokens.spacing.md,
+    marginTop: tokens.spacing.lg,
+  },
+  sheetButton: {
+    flex: 1,
+    borderRadius: tokens.borderRadius.md,
+    paddingVertical: tokens.spacing.md,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(0,0,0,0.05)',
+  },
+  saveButton: {
+    backgroundColor: tokens.colors.primary[500],
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  sheetButtonText: {
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+  },
+});
+
+export default ModerationScreen;
@@ -0,0 +1,5 @@
+/**
+ * Moderation Screens Exports
+ */
+
+export {ModerationScreen} from './ModerationScreen';
@@ -29,7 +29,8 @@ import {textStyles} from '../../theme/typography';
 import {MapView, MapViewRef, decodePolyline, splitRouteByPosition} from '../../components/map';
 import type {RouteSegmentData} from '../../components/map';
 import {Button} from '../../shared/components';
-import {RiskAlertBanner} from '../../components/navigation';
+import {ArrivalCheckIn, RiskAlertBanner, TripShareControl} from '../../components/navigation';
+import {SOSButton} from '../../components/sos';
 import {useNavigationStore} from '../../store/navigationStore';
 import {useMapStore} from '../../store/mapStore';
 import {useRiskAlerts} from '../../hooks/useRiskAlerts';
@@ -38,6 +39,7 @@ import {RISK_WARNING_THRESHOLD} from '../../utils/constants';
 import type {ActiveNavigationScreenProps} from '../../types/navigation';
 import type {Coordinates, Occurrence} from '../../types/models';
 import {calculateDistance} from '../../utils/geo';
+import {buildRiskSegments} from '../../utils/riskSegments';
 
 /**
  * Format duration from seconds to human readable string
@@ -143,6 +145,10 @@ interface NavigationInfoBarProps {
   remainingDistance: number;
   speed: number;
   riskIndex: number;
+  /** Number of the next intermediate stop, null once all stops were reached */
+  nextStopNumber?: number | null;
+  /** Distance left to the next intermediate stop */
+  legRemainingDistance?: number;
 }
 
 const NavigationInfoBar: React.FC<NavigationInfoBarProps> = ({
@@ -150,6 +156,8 @@ const NavigationInfoBar: React.FC<NavigationInfoBarProps> = ({
   remainingDistance,
   speed,
   riskIndex,
+  nextStopNumber,
+  legRemainingDistance = 0,
 }) => {
   const {t} = useTranslation();
   const riskColor = getRiskColor(riskIndex);
@@ -169,6 +177,19 @@ const NavigationInfoBar: React.FC<NavigationInfoBarProps> = ({
         </Text>
         <Text style={styles.infoLabel}>{t('navigation.remaining')}</Text>
       </View>
+      {nextStopNumber ? (
+        <>
+          <View style={styles.infoSeparator} />
+          <View style={styles.infoItem}>
+            <Text style={styles.infoValue}>
+              {formatDistance(legRemainingDistance)}
+            </Text>
+            <Text style={styles.infoLabel}>
+              {t('navigation.nextStop', {number: nextStopNumber})}
+            </Text>
+          </View>
+        </>
+      ) : null}
       <View style={styles.infoSeparator} />
       <View style={styles.infoItem}>
         <Text style={styles.infoValue}>{Math.round(speed)} km/h</Text>
@@ -202,15 +223,21 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
   const mapRef = useRef<MapViewRef>(null);
 
   // Route params
-  const {route: initialRoute} = navRoute.params;
+  const {route: initialRoute, resume} = navRoute.params;
+
+  // Decoded polyline of the active session (cached offline, follows recalculations)
+  const sessionRouteCoordinates = useNavigationStore(state => state.routeCoordinates);
 
   // Decode route coordinates from polyline
   const routeCoordinates = useMemo(() => {
+    if (sessionRouteCoordinates.length > 0) {
+      return sessionRouteCoordinates;
+    }
     if (!initialRoute?.polyline) {
       return [];
     }
     return decodePolyline(initialRoute.polyline);
-  }, [initialRoute?.polyline]);
+  }, [sessionRouteCoordinates, initialRoute?.polyline]);
 
   // Get origin and destination from route
   const origin =
@@ -230,12 +257,19 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
     isRecalculating,
     wasRecalculated,
     shouldNarrate,
+    isOffline,
+    stops,
+    currentLegIndex,
+    legRemainingDistance,
+    reachedStopIndex,
     startSession,
+    restoreSession,
     endSession,
     updatePosition,
     checkForRecalculation,
     clearRecalculationFlag,
     markAsNarrated,
+    clearReachedStop,
   } = useNavigationStore();
 
   const {stopNavigation, currentPosition, setCurrentPosition} = useMapStore();
@@ -247,7 +281,9 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
     isEnabled: voiceEnabled,
     toggle: toggleVoice,
     speakRiskAlert,
+    speakRiskSegmentAlert,
     speakRecalculating,
+    speakStopArrival,
     speakInstruction,
     speakManeuver,
     isInitialized: voiceInitialized,
@@ -266,22 +302,33 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
     onAlertTriggered: (alert) => {
       // Requirement 15.3: Narrate alert when voice is active
       if (voiceEnabled && voiceInitialized) {
-        speakRiskAlert(alert.occurrence.crimeType.name, alert.distance);
+        if (alert.segment) {
+          void speakRiskSegmentAlert(alert.segment);
+        } else {
+          void speakRiskAlert(
+            alert.occurrence.crimeType.name,
+            alert.distance,
+            alert.occurrence.crimeType.id,
+          );
+        }
       }
     },
   });
 
+  // Risk points of the active route (available offline from the cached session)
+  const activeRouteOccurrences = route?.occurrences ?? initialRoute?.occurrences;
+
   // Convert route occurrences to Occurrence type for risk alerts
   const routeOccurrences = useMemo((): Occurrence[] => {
-    if (!initialRoute?.occurrences) {
+    if (!activeRouteOccurrences) {
       return [];
     }
-    return initialRoute.occurrences.map((occ) => ({
+    return activeRouteOccurrences.map((occ) => ({
       id: occ.id,
       timestamp: occ.timestamp,
       location: occ.location,
       crimeType: {
-        id: occ.id,
+        id: occ.crimeTypeId ?? '',
         name: occ.crimeType,
         categoryId: '1',
       },
@@ -289,7 +336,13 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
       confidenceScore: 1,
       source: 'collaborative' as const,
     }));
-  }, [initialRoute?.occurrences]);
+  }, [activeRouteOccurrences]);
+
+  // Stretches of the route with risk points close together, alerted once each
+  const riskSegments = useMemo(
+    () => buildRiskSegments(routeCoordinates, routeOccurrences),
+    [routeCoordinates, routeOccurrences],
+  );
 
   // Local state
   const [userHeading, setUserHeading] = useState(0);
@@ -426,7 +479,18 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
     // Start navigation session with initial route
     // Requirement 11.1: Initiate Navigation_Mode
     // Pass route type preference (default to safest)
-    startSession(initialRoute, 'safest', destination || undefined);
+    if (resume) {
+      // Resume the session cached before the app was closed
+      restoreSession()
+        .then(restored => {
+          if (!restored) {
+            startSession(initialRoute, 'safest', destination || undefined);
+          }
+        })
+        .catch(() => startSession(initialRoute, 'safest', destination || undefined));
+    } else {
+      startSession(initialRoute, 'safest', destination || undefined);
+    }
 
     // No cleanup that resets isInitializedRef - we want to prevent re-initialization
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -549,6 +613,19 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
     }
   }, [shouldNarrate, voiceEnabled, voiceInitialized, currentInstruction, speakManeuver, markAsNarrated]);
 
+  /**
+   * Announce arrival at an intermediate stop
+   */
+  useEffect(() => {
+    if (reachedStopIndex === null) {
+      return;
+    }
+    if (voiceEnabled && voiceInitialized) {
+      void speakStopArrival(reachedStopIndex + 1);
+    }
+    clearReachedStop();
+  }, [reachedStopIndex, voiceEnabled, voiceInitialized, speakStopArrival, clearReachedStop]);
+
   /**
    * Handle route recalculation notification
    * Requirements 16.4, 16.5: Notify user visually and by voice when route is recalculated
@@ -604,8 +681,13 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
 
     // Check proximity to risk points
     // Requirements 15.1, 15.4: Emit Risk_Alert when approaching Risk_Point
+    // Only risk points ahead on the remaining route alert
     if (routeOccurrences.length > 0) {
-      checkProximity(currentPosition, routeOccurrences);
+      checkProximity(currentPosition, routeOccurrences, {
+        heading: userHeading > 0 ? userHeading : null,
+        route: routeCoordinates.slice(Math.max(currentRouteIndex - 1, 0)),
+        segments: riskSegments,
+      });
     }
 
     // Calculate heading based on route direction (next point on route)
@@ -628,7 +710,7 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
       latitude: currentPosition.latitude,
       longitude: currentPosition.longitude,
     };
-  }, [currentPosition, checkProximity, routeOccurrences, routeCoordinates, findNextRoutePointAndHeading, currentRouteIndex]);
+  }, [currentPosition, checkProximity, routeOccurrences, routeCoordinates, findNextRoutePointAndHeading, currentRouteIndex, userHeading, riskSegments]);
 
   /**
    * Check for route deviation periodically
@@ -830,8 +912,9 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
           userHeading={userHeading}
           compassMode={true}
           destination={destination}
+          stops={stops}
           routeCoordinates={routeCoordinates}
-          occurrences={initialRoute?.occurrences}
+          occurrences={activeRouteOccurrences}
           onMapReady={handleMapReady}
           style={styles.map}
         />
@@ -857,6 +940,19 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
             <Text style={styles.controlButtonText}>📍</Text>
           </TouchableOpacity>
         </View>
+
+        {/* Emergency SOS - alerts trusted contacts with position and destination */}
+        <SOSButton
+          position={currentPosition}
+          destination={destination}
+          style={styles.sosButton}
+        />
+
+        {/* Live trip sharing with a trusted companion */}
+        <TripShareControl style={styles.tripShareControl} />
+
+        {/* Arrival check-in - alerts trusted contacts if the user doesn't confirm */}
+        <ArrivalCheckIn style={styles.arrivalCheckIn} />
       </View>
 
       {/* Navigation Info Bar */}
@@ -865,6 +961,8 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
         remainingDistance={remainingDistance}
         speed={speed}
         riskIndex={route?.maxRiskIndex || 0}
+        nextStopNumber={currentLegIndex < stops.length ? currentLegIndex + 1 : null}
+        legRemainingDistance={legRemainingDistance}
       />
 
       {/* Exit Navigation Button */}
@@ -884,6 +982,7 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
         occurrence={activeAlert?.occurrence || null}
         visible={isAlertVisible}
         distance={activeAlert?.distance || null}
+        segment={activeAlert?.segment}
         onDismiss={dismissAlert}
         enableVibration={true}
       />
@@ -897,6 +996,15 @@ export const NavigationScreen: React.FC<ActiveNavigationScreenProps> = ({
         </View>
       )}
 
+      {/* Offline Indicator - navigation continues on the cached route */}
+      {isOffline && !isRecalculating && (
+        <View style={styles.offlineBanner}>
+          <Text style={styles.recalculatingText}>
+            {t('navigation.offline')}
+          </Text>
+        </View>
+      )}
+
       {/* Exit Confirmation Modal */}
       <RNModal
         visible={showExitConfirm}
@@ -986,6 +1094,21 @@ const styles = StyleSheet.create({
     right: spacing.base,
     gap: spacing.sm,
   },
+  sosButton: {
+    position: 'absolute',
+    bottom: spacing.base,
+    left: spacing.base,
+  },
+  tripShareControl: {
+    position: 'absolute',
+    top: spacing.base,
+    left: spacing.base,
+  },
+  arrivalCheckIn: {
+    position: 'absolute',
+    top: spacing.base,
+    right: spacing.base,
+  },
   controlButton: {
     width: componentSpacing.mapControlSize,
     height: componentSpacing.mapControlSize,
@@ -1093,6 +1216,17 @@ const styles = StyleSheet.create({
     ...textStyles.label,
     color: colors.neutral.white,
   },
+  offlineBanner: {
+    position: 'absolute',
+    top: 60,
+    left: spacing.base,
+    right: spacing.base,
+    backgroundColor: colors.neutral.gray700,
+    borderRadius: borderRadius.base,
+    padding: spacing.sm,
+    alignItems: 'center',
+    ...shadows.md,
+  },
 });
 
 export default NavigationScreen;
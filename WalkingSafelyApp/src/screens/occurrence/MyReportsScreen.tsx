@@ -0,0 +1,427 @@
+/**
+ * MyReportsScreen
+ * History of the reports sent by the user, with their moderation status and
+ * confirmations. Reports can be edited for a while after being sent, and
+ * withdrawn from the map at any time.
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {SEVERITY_COLORS} from '@/utils/severityLevels';
+import {ReportEditSheet} from '@/components/occurrence/ReportEditSheet';
+import {getEditTimeLeft, isReportWithdrawable, useMyReportsStore} from '@/store/myReportsStore';
+import {getOccurrenceAge} from './OccurrenceDetailScreen';
+import type {MyReportsScreenProps} from '@/types/navigation';
+import type {Occurrence, UpdateOccurrenceData} from '@/types/models';
+
+/**
+ * How often the remaining edit time is refreshed (milliseconds)
+ */
+const EDIT_TIMER_INTERVAL = 30000;
+
+/**
+ * Badge colour of each report status
+ */
+const STATUS_COLORS: Record<string, string> = {
+  active: tokens.colors.success,
+  expired: '#9E9E9E',
+  rejected: tokens.colors.error,
+  merged: tokens.colors.info,
+  withdrawn: '#9E9E9E',
+};
+
+/**
+ * Badge colour of each moderation status
+ */
+const MODERATION_COLORS: Record<string, string> = {
+  pending: tokens.colors.warning,
+  approved: tokens.colors.success,
+  rejected: tokens.colors.error,
+};
+
+/**
+ * MyReportsScreen Component
+ */
+export const MyReportsScreen: React.FC<MyReportsScreenProps> = ({navigation}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const reports = useMyReportsStore(state => state.reports);
+  const total = useMyReportsStore(state => state.total);
+  const isLoading = useMyReportsStore(state => state.isLoading);
+  const isLoadingMore = useMyReportsStore(state => state.isLoadingMore);
+  const savingId = useMyReportsStore(state => state.savingId);
+  const error = useMyReportsStore(state => state.error);
+  const loadReports = useMyReportsStore(state => state.loadReports);
+  const loadMoreReports = useMyReportsStore(state => state.loadMoreReports);
+  const updateReport = useMyReportsStore(state => state.updateReport);
+  const withdrawReport = useMyReportsStore(state => state.withdrawReport);
+  const clearError = useMyReportsStore(state => state.clearError);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const editingReport = reports.find(report => report.id === editingId) ?? null;
+
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+  const surfaceColor = isDark ? tokens.colors.surface.dark : tokens.colors.surface.light;
+
+  useEffect(() => {
+    void loadReports();
+  }, [loadReports]);
+
+  // Edit buttons disappear once the window closes
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), EDIT_TIMER_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleEdit = useCallback(
+    (id: string) => {
+      clearError();
+      setEditingId(id);
+    },
+    [clearError],
+  );
+
+  const handleCloseEdit = useCallback(() => {
+    clearError();
+    setEditingId(null);
+  }, [clearError]);
+
+  const handleSave = useCallback(
+    async (data: UpdateOccurrenceData) => {
+      if (editingId && (await updateReport(editingId, data))) {
+        setEditingId(null);
+      }
+    },
+    [editingId, updateReport],
+  );
+
+  const handleWithdraw = useCallback(
+    (id: string) => {
+      Alert.alert(
+        t('occurrence.myReports.withdrawTitle'),
+        t('occurrence.myReports.withdrawMessage'),
+        [
+          {text: t('common.cancel'), style: 'cancel'},
+          {
+            text: t('occurrence.myReports.withdraw'),
+            style: 'destructive',
+            onPress: () => {
+              void withdrawReport(id);
+            },
+          },
+        ],
+      );
+    },
+    [t, withdrawReport],
+  );
+
+  const renderBadge = (label: string, color: string) => (
+    <View style={[styles.badge, {backgroundColor: color}]}>
+      <Text style={styles.badgeText}>{label}</Text>
+    </View>
+  );
+
+  const renderReport = ({item}: {item: Occurrence}) => {
+    const age = getOccurrenceAge(item.createdAt ?? item.timestamp, now);
+    const editTimeLeft = getEditTimeLeft(item, now);
+    const isSaving = savingId === item.id;
+    const status = item.status ?? 'active';
+
+    return (
+      <View style={[styles.card, {backgroundColor: surfaceColor}]} testID={`my-report-${item.id}`}>
+        <TouchableOpacity
+          onPress={() =>
+            navigation.navigate('OccurrenceDetail', {occurrenceId: item.id, occurrence: item})
+          }
+          disabled={status !== 'active'}
+          accessibilityRole="button">
+          <View style={styles.cardHeader}>
+            <View
+              style={[
+                styles.severityDot,
+                {backgroundColor: SEVERITY_COLORS[item.severity] ?? SEVERITY_COLORS.medium},
+              ]}
+            />
+            <Text style={[styles.cardTitle, {color: textColor}]} numberOfLines={1}>
+              {item.crimeType?.localizedName || item.crimeType?.name}
+            </Text>
+            {age && (
+              <Text style={[styles.age, {color: secondaryColor}]}>
+                {t(`occurrence.detail.ago.${age.unit}`, {count: age.value})}
+              </Text>
+            )}
+          </View>
+
+          {item.description ? (
+            <Text style={[styles.description, {color: secondaryColor}]} numberOfLines={2}>
+              {item.description}
+            </Text>
+          ) : null}
+
+          <View style={styles.badges}>
+            {renderBadge(
+              t(`occurrence.myReports.status.${status}`),
+              STATUS_COLORS[status] ?? STATUS_COLORS.expired,
+            )}
+            {item.moderationStatus &&
+              renderBadge(
+                t(`occurrence.myReports.moderation.${item.moderationStatus}`),
+                MODERATION_COLORS[item.moderationStatus] ?? MODERATION_COLORS.pending,
+              )}
+            {item.isAnonymous &&
+              renderBadge(t('occurrence.myReports.anonymous'), tokens.colors.info)}
+            <Text style={[styles.confirmations, {color: secondaryColor}]}>
+              {t('occurrence.detail.confirmations', {count: item.confirmations ?? 0})}
+            </Text>
+          </View>
+        </TouchableOpacity>
+
+        {(editTimeLeft > 0 || isReportWithdrawable(item)) && (
+          <View style={styles.actions}>
+            {isSaving && <ActivityIndicator color={tokens.colors.primary[500]} />}
+            {editTimeLeft > 0 && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => handleEdit(item.id)}
+                disabled={savingId !== null}
+                accessibilityRole="button"
+                testID={`edit-report-${item.id}`}>
+                <Text style={[styles.actionText, {color: tokens.colors.primary[500]}]}>
+                  {t('occurrence.myReports.edit', {
+                    count: Math.ceil(editTimeLeft / 60000),
+                  })}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {isReportWithdrawable(item) && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() => handleWithdraw(item.id)}
+                disabled={savingId !== null}
+                accessibilityRole="button"
+                testID={`withdraw-report-${item.id}`}>
+                <Text style={[styles.actionText, {color: tokens.colors.error}]}>
+                  {t('occurrence.myReports.withdraw')}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderEmpty = () =>
+    isLoading ? (
+      <ActivityIndicator style={styles.loading} size="large" color={tokens.colors.primary[500]} />
+    ) : (
+      <Text style={[styles.emptyText, {color: secondaryColor}]}>
+        {t('occurrence.myReports.empty')}
+      </Text>
+    );
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'},
+        ]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerBackButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.back')}>
+          <Text style={[styles.headerBackText, {color: textColor}]}>←</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, {color: textColor}]}>
+          {t('occurrence.myReports.title')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {error && !editingReport ? <Text style={styles.errorText}>{t(error)}</Text> : null}
+
+      <FlatList
+        data={reports}
+        keyExtractor={item => item.id}
+        renderItem={renderReport}
+        contentContainerStyle={styles.content}
+        ListHeaderComponent={
+          total > 0 ? (
+            <Text style={[styles.total, {color: secondaryColor}]}>
+              {t('occurrence.myReports.total', {count: total})}
+            </Text>
+          ) : null
+        }
+        ListEmptyComponent={renderEmpty}
+        ListFooterComponent={
+          isLoadingMore ? <ActivityIndicator color={tokens.colors.primary[500]} /> : null
+        }
+        onEndReached={() => {
+          void loadMoreReports();
+        }}
+        onEndReachedThreshold={0.5}
+        refreshing={isLoading && reports.length > 0}
+        onRefresh={() => {
+          void loadReports();
+        }}
+        testID="my-reports-list"
+      />
+
+      <ReportEditSheet
+        report={editingReport}
+        isSaving={savingId !== null && savingId === editingId}
+        error={error}
+        onSave={data => {
+          void handleSave(data);
+        }}
+        onClose={handleCloseEdit}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: tokens.spacing.lg,
+    paddingVertical: tokens.spacing.md,
+    borderBottomWidth: 1,
+  },
+  headerBackButton: {
+    padding: tokens.spacing.sm,
+  },
+  headerBackText: {
+    fontSize: 24,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loading: {
+    marginTop: tokens.spacing.xl,
+  },
+  emptyText: {
+    fontSize: tokens.typography.fontSize.md,
+    textAlign: 'center',
+    paddingVertical: tokens.spacing.xl,
+  },
+  content: {
+    padding: tokens.spacing.lg,
+  },
+  total: {
+    fontSize: tokens.typography.fontSize.sm,
+    marginBottom: tokens.spacing.md,
+  },
+  card: {
+    borderRadius: tokens.borderRadius.md,
+    padding: tokens.spacing.md,
+    marginBottom: tokens.spacing.md,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: tokens.spacing.sm,
+  },
+  severityDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+  age: {
+    fontSize: tokens.typography.fontSize.xs,
+  },
+  description: {
+    fontSize: tokens.typography.fontSize.sm,
+    marginTop: tokens.spacing.xs,
+  },
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+    marginTop: tokens.spacing.sm,
+  },
+  badge: {
+    borderRadius: tokens.borderRadius.full,
+    paddingHorizontal: tokens.spacing.sm,
+    paddingVertical: 2,
+  },
+  badgeText: {
+    color: '#FFFFFF',
+    fontSize: tokens.typography.fontSize.xs,
+    fontWeight: '600',
+  },
+  confirmations: {
+    fontSize: tokens.typography.fontSize.xs,
+    marginLeft: tokens.spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: tokens.spacing.md,
+    marginTop: tokens.spacing.sm,
+  },
+  actionButton: {
+    paddingVertical: tokens.spacing.xs,
+  },
+  actionText: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: tokens.colors.error,
+    fontSize: tokens.typography.fontSize.sm,
+    textAlign: 'center',
+    marginTop: tokens.spacing.md,
+  },
+});
+
+export default MyReportsScreen;
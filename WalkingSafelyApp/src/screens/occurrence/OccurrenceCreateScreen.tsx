@@ -4,7 +4,7 @@
  * Requirements: 4.1, 4.2, 4.3, 4.4, 4.5, 4.6, 5.2
  */
 
-import React, {useCallback, useState} from 'react';
+import React, {useCallback, useEffect, useRef, useState} from 'react';
 import {
   View,
   Text,
@@ -14,14 +14,28 @@ import {
   Alert,
   ScrollView,
   TextInput,
+  Switch,
 } from 'react-native';
+import {useTranslation} from 'react-i18next';
 import {tokens} from '@/shared/theme/tokens';
 import {useTheme} from '@/shared/theme/ThemeProvider';
 import {Button} from '@/shared/components/Button';
 import {OccurrenceTypeSelector} from '@/components/occurrence/OccurrenceTypeSelector';
 import {SeveritySelector} from '@/components/occurrence/SeveritySelector';
-import {useOccurrenceStore} from '@/store/occurrenceStore';
-import type {Coordinates, OccurrenceSeverity, CreateOccurrenceData} from '@/types/models';
+import {AttachmentPicker} from '@/components/occurrence/AttachmentPicker';
+import {DuplicateReportPrompt} from '@/components/occurrence/DuplicateReportPrompt';
+import {attachmentFiles} from '@/services/attachmentFiles';
+import {getUserVote, selectUserVotes, useOccurrenceStore} from '@/store/occurrenceStore';
+import {useSettingsStore} from '@/store/settingsStore';
+import {findDuplicateOccurrences} from '@/utils/occurrenceDuplicates';
+import type {DuplicateOccurrence} from '@/utils/occurrenceDuplicates';
+import {isParsedApiError} from '@/shared/services/api';
+import type {
+  Coordinates,
+  OccurrenceSeverity,
+  CreateOccurrenceData,
+  LocalAttachment,
+} from '@/types/models';
 import type {NativeStackScreenProps} from '@react-navigation/native-stack';
 
 type AppStackParamList = {
@@ -31,6 +45,13 @@ type AppStackParamList = {
 
 type OccurrenceCreateScreenProps = NativeStackScreenProps<AppStackParamList, 'OccurrenceCreate'>;
 
+/**
+ * Messages for store errors that are returned as keys
+ */
+const STORE_ERROR_MESSAGES: Record<string, string> = {
+  'errors.rateLimitExceeded': 'Você atingiu o limite de ocorrências por hora. Tente novamente mais tarde.',
+};
+
 /**
  * OccurrenceCreateScreen Component
  * Integrates OccurrenceForm with store and navigation
@@ -40,19 +61,46 @@ export const OccurrenceCreateScreen: React.FC<OccurrenceCreateScreenProps> = ({
   navigation,
   route,
 }) => {
+  const {t} = useTranslation();
   const {theme} = useTheme();
   const isDark = theme === 'dark';
   const coordinates = route.params?.coordinates;
 
   // Store
-  const {createOccurrence, isCreating, createError, clearCreateError} =
-    useOccurrenceStore();
+  const {
+    createOccurrence,
+    isCreating,
+    createError,
+    clearCreateError,
+    attachmentUpload,
+    cancelAttachmentUpload,
+    voteOccurrence,
+    votingId,
+    voteError,
+    clearVoteError,
+  } = useOccurrenceStore();
 
   // Form state
   const [selectedTypeId, setSelectedTypeId] = useState<string | null>(null);
   const [selectedSeverity, setSelectedSeverity] = useState<OccurrenceSeverity | null>(null);
   const [description, setDescription] = useState('');
+  const [attachments, setAttachments] = useState<LocalAttachment[]>([]);
+  const [anonymous, setAnonymous] = useState(() => useSettingsStore.getState().reportAnonymously);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateOccurrence[]>([]);
+
+  // Files of attachments never handed to the store are deleted when the form closes
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+  const submittedRef = useRef(false);
+  useEffect(
+    () => () => {
+      if (!submittedRef.current && attachmentsRef.current.length > 0) {
+        void attachmentFiles.remove(attachmentsRef.current);
+      }
+    },
+    [],
+  );
 
   /**
    * Handle form submission
@@ -60,7 +108,7 @@ export const OccurrenceCreateScreen: React.FC<OccurrenceCreateScreenProps> = ({
    * Requirement 4.6: Validate required fields
    * Requirement 5.2: Return to map showing new risk point
    */
-  const handleSubmit = useCallback(async () => {
+  const submitReport = useCallback(async (checkDuplicates: boolean) => {
     setSubmitError(null);
     clearCreateError();
 
@@ -80,26 +128,61 @@ export const OccurrenceCreateScreen: React.FC<OccurrenceCreateScreenProps> = ({
       return;
     }
 
+    const timestamp = new Date().toISOString();
+
+    // Offer the matching reports already on the map before adding another one
+    if (checkDuplicates) {
+      const {occurrences} = useOccurrenceStore.getState();
+      const votes = selectUserVotes(useOccurrenceStore.getState());
+      const matches = findDuplicateOccurrences(
+        occurrences.filter(occurrence => !getUserVote(occurrence, votes)),
+        {location: coordinates, crimeTypeId: selectedTypeId, timestamp},
+      );
+      if (matches.length > 0) {
+        setDuplicates(matches);
+        return;
+      }
+    }
+
     try {
       // Build create occurrence data
       // Requirement 4.5: Coordinates from long press are preserved
       const createData: CreateOccurrenceData = {
         location: coordinates,
-        timestamp: new Date().toISOString(),
+        timestamp,
         crimeTypeId: selectedTypeId,
         severity: selectedSeverity,
         description: description.trim() || undefined,
+        attachments: attachments.length > 0 ? attachments : undefined,
+        anonymous,
       };
 
       // Create occurrence via store
-      await createOccurrence(createData);
+      const occurrence = await createOccurrence(createData);
+      submittedRef.current = true;
+
+      // No connection: the report stays in the outbox and is sent later
+      if (!occurrence) {
+        Alert.alert(
+          'Sem conexão',
+          'Sua ocorrência foi salva e será enviada automaticamente quando a conexão voltar.',
+        );
+      }
+
+      // The report was created, only some of its evidence is missing
+      const {attachmentError} = useOccurrenceStore.getState();
+      if (occurrence && attachmentError) {
+        Alert.alert(t('occurrence.attachments.title'), t(attachmentError));
+      }
 
       // Requirement 5.2: Return to map screen
       navigation.goBack();
     } catch (error) {
-      const errorMessage =
-        error instanceof Error
-          ? error.message
+      // Server rejections (rate limit, validation) come as parsed API errors
+      const errorMessage = isParsedApiError(error)
+        ? error.message
+        : error instanceof Error
+          ? STORE_ERROR_MESSAGES[error.message] ?? error.message
           : 'Erro ao registrar ocorrência';
       setSubmitError(errorMessage);
     }
@@ -108,11 +191,45 @@ export const OccurrenceCreateScreen: React.FC<OccurrenceCreateScreenProps> = ({
     selectedSeverity,
     coordinates,
     description,
+    attachments,
+    anonymous,
     createOccurrence,
     clearCreateError,
     navigation,
+    t,
   ]);
 
+  const handleSubmit = useCallback(() => submitReport(true), [submitReport]);
+
+  const handleSubmitAnyway = useCallback(() => {
+    setDuplicates([]);
+    clearVoteError();
+    void submitReport(false);
+  }, [clearVoteError, submitReport]);
+
+  const handleCloseDuplicates = useCallback(() => {
+    setDuplicates([]);
+    clearVoteError();
+  }, [clearVoteError]);
+
+  /**
+   * Confirm the existing report instead of creating a new one,
+   * strengthening its confidence score
+   */
+  const handleConfirmDuplicate = useCallback(
+    async (occurrenceId: string) => {
+      if (await voteOccurrence(occurrenceId, 'confirm')) {
+        setDuplicates([]);
+        Alert.alert(
+          t('occurrence.duplicates.confirmedTitle'),
+          t('occurrence.duplicates.confirmedMessage'),
+        );
+        navigation.goBack();
+      }
+    },
+    [navigation, t, voteOccurrence],
+  );
+
   /**
    * Handle back button press
    */
@@ -275,6 +392,50 @@ export const OccurrenceCreateScreen: React.FC<OccurrenceCreateScreenProps> = ({
           />
         </View>
 
+        {/* Evidence */}
+        <View style={styles.section}>
+          <Text
+            style={[
+              styles.sectionTitle,
+              {color: isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light},
+            ]}>
+            {t('occurrence.attachments.title')}
+          </Text>
+          <AttachmentPicker
+            attachments={attachments}
+            onChange={setAttachments}
+            disabled={isCreating || attachmentUpload !== null}
+          />
+        </View>
+
+        {/* Anonymous reporting */}
+        <View style={[styles.section, styles.anonymousRow]}>
+          <View style={styles.anonymousText}>
+            <Text
+              style={[
+                styles.sectionTitle,
+                {color: isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light},
+              ]}>
+              {t('occurrence.anonymous.title')}
+            </Text>
+            <Text
+              style={[
+                styles.anonymousHint,
+                {color: isDark ? tokens.colors.text.secondary.dark : tokens.colors.text.secondary.light},
+              ]}>
+              {t('occurrence.anonymous.hint')}
+            </Text>
+          </View>
+          <Switch
+            value={anonymous}
+            onValueChange={setAnonymous}
+            disabled={isCreating || attachmentUpload !== null}
+            trackColor={{true: tokens.colors.primary[500]}}
+            accessibilityLabel={t('occurrence.anonymous.title')}
+            testID="anonymous-switch"
+          />
+        </View>
+
         {/* Error Message */}
         {(submitError || createError) && (
           <View style={styles.errorBanner}>
@@ -284,19 +445,57 @@ export const OccurrenceCreateScreen: React.FC<OccurrenceCreateScreenProps> = ({
           </View>
         )}
 
+        {/* Attachment upload progress */}
+        {attachmentUpload && (
+          <View style={styles.uploadContainer} testID="attachment-upload-progress">
+            <Text
+              style={[
+                styles.uploadText,
+                {color: isDark ? tokens.colors.text.secondary.dark : tokens.colors.text.secondary.light},
+              ]}>
+              {t('occurrence.attachments.uploading', {
+                current: Math.min(attachmentUpload.uploaded + 1, attachmentUpload.total),
+                total: attachmentUpload.total,
+              })}
+            </Text>
+            <View style={styles.uploadTrack}>
+              <View
+                style={[styles.uploadBar, {width: `${Math.round(attachmentUpload.progress * 100)}%`}]}
+              />
+            </View>
+            <TouchableOpacity
+              onPress={cancelAttachmentUpload}
+              accessibilityRole="button"
+              testID="cancel-attachment-upload">
+              <Text style={styles.uploadCancelText}>{t('occurrence.attachments.cancelUpload')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Submit Button */}
         <View style={styles.submitContainer}>
           <Button
             variant="primary"
             size="lg"
             onPress={handleSubmit}
-            loading={isCreating}
-            disabled={isCreating}
+            loading={isCreating || attachmentUpload !== null}
+            disabled={isCreating || attachmentUpload !== null}
             testID="submit-occurrence-button">
             {isCreating ? 'Enviando...' : 'Registrar Ocorrência'}
           </Button>
         </View>
       </ScrollView>
+
+      <DuplicateReportPrompt
+        duplicates={duplicates}
+        confirmingId={votingId}
+        error={voteError}
+        onConfirm={occurrenceId => {
+          void handleConfirmDuplicate(occurrenceId);
+        }}
+        onSubmitAnyway={handleSubmitAnyway}
+        onClose={handleCloseDuplicates}
+      />
     </SafeAreaView>
   );
 };
@@ -341,6 +540,17 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: tokens.spacing.sm,
   },
+  anonymousRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  anonymousText: {
+    flex: 1,
+    marginRight: tokens.spacing.md,
+  },
+  anonymousHint: {
+    fontSize: tokens.typography.fontSize.sm,
+  },
   locationCard: {
     padding: tokens.spacing.md,
     borderRadius: tokens.borderRadius.md,
@@ -369,6 +579,30 @@ const styles = StyleSheet.create({
   submitContainer: {
     marginTop: tokens.spacing.md,
   },
+  uploadContainer: {
+    marginBottom: tokens.spacing.md,
+  },
+  uploadText: {
+    fontSize: tokens.typography.fontSize.sm,
+    marginBottom: tokens.spacing.xs,
+  },
+  uploadTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(0, 0, 0, 0.1)',
+    overflow: 'hidden',
+  },
+  uploadBar: {
+    height: '100%',
+    backgroundColor: tokens.colors.primary[500],
+  },
+  uploadCancelText: {
+    color: tokens.colors.error,
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+    marginTop: tokens.spacing.sm,
+    textAlign: 'center',
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,483 @@
+/**
+ * OccurrenceDetailScreen
+ * Full details of an occurrence, where users confirm it is still happening
+ * or dispute it as not accurate
+ */
+
+import React, {useCallback, useEffect, useState} from 'react';
+import {
+  View,
+  Image,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {SEVERITY_COLORS} from '@/utils/severityLevels';
+import {MAX_CONFIDENCE_SCORE} from '@/utils/constants';
+import {getUserVote, selectUserVotes, useOccurrenceStore} from '@/store/occurrenceStore';
+import {attachmentCaptureService} from '@/services/attachmentCapture';
+import {formatVoiceNoteDuration} from '@/components/occurrence/AttachmentPicker';
+import type {OccurrenceDetailScreenProps} from '@/types/navigation';
+import type {OccurrenceAttachment, OccurrenceVote} from '@/types/models';
+
+/**
+ * Age of an occurrence in the largest whole unit
+ */
+export interface OccurrenceAge {
+  unit: 'minutes' | 'hours' | 'days';
+  value: number;
+}
+
+/**
+ * Time elapsed since the occurrence, null when the timestamp is invalid
+ */
+export const getOccurrenceAge = (
+  timestamp: string,
+  now: number = Date.now(),
+): OccurrenceAge | null => {
+  const time = new Date(timestamp).getTime();
+  if (isNaN(time)) {
+    return null;
+  }
+  const minutes = Math.max(0, Math.floor((now - time) / 60000));
+  if (minutes < 60) {
+    return {unit: 'minutes', value: minutes};
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return {unit: 'hours', value: hours};
+  }
+  return {unit: 'days', value: Math.floor(hours / 24)};
+};
+
+/**
+ * OccurrenceDetailScreen Component
+ */
+export const OccurrenceDetailScreen: React.FC<OccurrenceDetailScreenProps> = ({
+  navigation,
+  route: navRoute,
+}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const {occurrenceId, occurrence: initialOccurrence} = navRoute.params;
+
+  const selectedOccurrence = useOccurrenceStore(state => state.selectedOccurrence);
+  const listedOccurrence = useOccurrenceStore(state =>
+    state.occurrences.find(occ => occ.id === occurrenceId),
+  );
+  const votes = useOccurrenceStore(selectUserVotes);
+  const votingId = useOccurrenceStore(state => state.votingId);
+  const voteError = useOccurrenceStore(state => state.voteError);
+  const isLoadingDetail = useOccurrenceStore(state => state.isLoadingDetail);
+  const fetchOccurrenceDetail = useOccurrenceStore(state => state.fetchOccurrenceDetail);
+  const voteOccurrence = useOccurrenceStore(state => state.voteOccurrence);
+  const clearVoteError = useOccurrenceStore(state => state.clearVoteError);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+
+  const occurrence =
+    (selectedOccurrence?.id === occurrenceId ? selectedOccurrence : null) ??
+    listedOccurrence ??
+    initialOccurrence ??
+    null;
+
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+  const surfaceColor = isDark ? tokens.colors.surface.dark : tokens.colors.surface.light;
+
+  /**
+   * Load the latest confidence score and votes
+   */
+  useEffect(() => {
+    clearVoteError();
+    void fetchOccurrenceDetail(occurrenceId);
+  }, [occurrenceId, fetchOccurrenceDetail, clearVoteError]);
+
+  // Stop the voice note when leaving the screen
+  useEffect(
+    () => () => {
+      void attachmentCaptureService.stopPlayback();
+    },
+    [],
+  );
+
+  const handleToggleVoiceNote = useCallback(async (attachment: OccurrenceAttachment) => {
+    const isPlaying = await attachmentCaptureService.toggleVoiceNote(attachment.url, () =>
+      setPlayingId(null),
+    );
+    setPlayingId(isPlaying ? attachment.id : null);
+  }, []);
+
+  const handleVote = useCallback(
+    (vote: OccurrenceVote) => {
+      void voteOccurrence(occurrenceId, vote);
+    },
+    [occurrenceId, voteOccurrence],
+  );
+
+  const renderRow = (label: string, value: React.ReactNode) => (
+    <View style={styles.row}>
+      <Text style={[styles.label, {color: secondaryColor}]}>{label}</Text>
+      {typeof value === 'string' ? (
+        <Text style={[styles.value, {color: textColor}]}>{value}</Text>
+      ) : (
+        value
+      )}
+    </View>
+  );
+
+  const renderContent = () => {
+    if (!occurrence) {
+      return isLoadingDetail ? (
+        <ActivityIndicator style={styles.loading} size="large" color={tokens.colors.primary[500]} />
+      ) : (
+        <Text style={[styles.emptyText, {color: secondaryColor}]}>
+          {t('occurrence.detail.notFound')}
+        </Text>
+      );
+    }
+
+    const age = getOccurrenceAge(occurrence.timestamp);
+    const userVote = getUserVote(occurrence, votes);
+    const isVoting = votingId === occurrence.id;
+    const confidence = Math.min(Math.max(occurrence.confidenceScore, 0), MAX_CONFIDENCE_SCORE);
+
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={[styles.card, {backgroundColor: surfaceColor}]}>
+          <Text style={[styles.title, {color: textColor}]}>
+            {occurrence.crimeType?.localizedName || occurrence.crimeType?.name}
+          </Text>
+
+          {renderRow(
+            t('occurrence.severity'),
+            <View style={styles.severityContainer}>
+              <View
+                style={[
+                  styles.severityBadge,
+                  {backgroundColor: SEVERITY_COLORS[occurrence.severity] ?? SEVERITY_COLORS.medium},
+                ]}
+              />
+              <Text style={[styles.value, {color: textColor}]}>
+                {t(`severity.${occurrence.severity}`)}
+              </Text>
+            </View>,
+          )}
+          {renderRow(
+            t('occurrence.detail.source'),
+            t(`occurrence.detail.sources.${occurrence.source}`),
+          )}
+          {age &&
+            renderRow(
+              t('occurrence.detail.age'),
+              t(`occurrence.detail.ago.${age.unit}`, {count: age.value}),
+            )}
+
+          {/* Confidence score, updated by the server from the votes */}
+          <View style={styles.confidence}>
+            <View style={styles.row}>
+              <Text style={[styles.label, {color: secondaryColor}]}>
+                {t('occurrence.detail.confidence')}
+              </Text>
+              <Text style={[styles.value, {color: textColor}]}>
+                {t(`occurrence.detail.confidenceLevels.${Math.max(confidence, 1)}`)} ({confidence}/
+                {MAX_CONFIDENCE_SCORE})
+              </Text>
+            </View>
+            <View style={styles.confidenceTrack}>
+              <View
+                style={[
+                  styles.confidenceFill,
+                  {width: `${(confidence / MAX_CONFIDENCE_SCORE) * 100}%`},
+                ]}
+              />
+            </View>
+            <Text style={[styles.voteCounts, {color: secondaryColor}]}>
+              {t('occurrence.detail.confirmations', {count: occurrence.confirmations ?? 0})} •{' '}
+              {t('occurrence.detail.disputes', {count: occurrence.disputes ?? 0})}
+            </Text>
+          </View>
+
+          {occurrence.description ? (
+            <View style={styles.description}>
+              <Text style={[styles.label, {color: secondaryColor}]}>
+                {t('occurrence.description')}
+              </Text>
+              <Text style={[styles.descriptionText, {color: textColor}]}>
+                {occurrence.description}
+              </Text>
+            </View>
+          ) : null}
+
+          {/* Evidence sent with the report */}
+          {occurrence.attachments?.length ? (
+            <View style={styles.description}>
+              <Text style={[styles.label, {color: secondaryColor}]}>
+                {t('occurrence.attachments.title')}
+              </Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.evidence}>
+                {occurrence.attachments.map(attachment =>
+                  attachment.kind === 'photo' ? (
+                    <Image
+                      key={attachment.id}
+                      source={{uri: attachment.url}}
+                      style={styles.evidencePhoto}
+                      accessibilityLabel={t('occurrence.attachments.photo')}
+                    />
+                  ) : (
+                    <TouchableOpacity
+                      key={attachment.id}
+                      style={[styles.evidencePhoto, styles.voiceNote]}
+                      onPress={() => void handleToggleVoiceNote(attachment)}
+                      accessibilityRole="button"
+                      accessibilityLabel={t(
+                        playingId === attachment.id
+                          ? 'occurrence.attachments.stopVoice'
+                          : 'occurrence.attachments.playVoice',
+                      )}>
+                      <Text style={styles.voiceNoteIcon}>
+                        {playingId === attachment.id ? '⏹' : '▶️'}
+                      </Text>
+                      <Text style={[styles.voteCounts, {color: secondaryColor}]}>
+                        {formatVoiceNoteDuration(attachment.durationMs ?? 0)}
+                      </Text>
+                    </TouchableOpacity>
+                  ),
+                )}
+              </ScrollView>
+            </View>
+          ) : null}
+        </View>
+
+        {/* One vote per user */}
+        <Text style={[styles.sectionTitle, {color: textColor}]}>
+          {t('occurrence.detail.voteTitle')}
+        </Text>
+        {userVote ? (
+          <Text style={[styles.votedText, {color: secondaryColor}]}>
+            {t(`occurrence.detail.voted.${userVote}`)}
+          </Text>
+        ) : (
+          <View style={styles.voteButtons}>
+            <TouchableOpacity
+              testID="vote-confirm"
+              style={[styles.voteButton, styles.confirmButton]}
+              onPress={() => handleVote('confirm')}
+              disabled={isVoting}
+              accessibilityRole="button">
+              <Text style={styles.voteButtonText}>👍 {t('occurrence.detail.confirm')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              testID="vote-dispute"
+              style={[styles.voteButton, styles.disputeButton]}
+              onPress={() => handleVote('dispute')}
+              disabled={isVoting}
+              accessibilityRole="button">
+              <Text style={styles.voteButtonText}>👎 {t('occurrence.detail.dispute')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {isVoting && <ActivityIndicator color={tokens.colors.primary[500]} />}
+        {voteError ? (
+          <Text style={styles.errorText}>
+            {voteError.startsWith('occurrence.') ? t(voteError) : voteError}
+          </Text>
+        ) : null}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'},
+        ]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerBackButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.back')}>
+          <Text style={[styles.headerBackText, {color: textColor}]}>←</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, {color: textColor}]}>{t('occurrence.detail.title')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {renderContent()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: tokens.spacing.lg,
+    paddingVertical: tokens.spacing.md,
+    borderBottomWidth: 1,
+  },
+  headerBackButton: {
+    padding: tokens.spacing.sm,
+  },
+  headerBackText: {
+    fontSize: 24,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loading: {
+    marginTop: tokens.spacing.xl,
+  },
+  emptyText: {
+    fontSize: tokens.typography.fontSize.md,
+    textAlign: 'center',
+    paddingVertical: tokens.spacing.xl,
+  },
+  content: {
+    padding: tokens.spacing.lg,
+  },
+  card: {
+    borderRadius: tokens.borderRadius.md,
+    padding: tokens.spacing.md,
+    marginBottom: tokens.spacing.lg,
+  },
+  title: {
+    fontSize: tokens.typography.fontSize.xl,
+    fontWeight: '700',
+    marginBottom: tokens.spacing.md,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: tokens.spacing.sm,
+  },
+  label: {
+    fontSize: tokens.typography.fontSize.sm,
+  },
+  value: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  severityContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+  },
+  severityBadge: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  confidence: {
+    marginTop: tokens.spacing.sm,
+  },
+  confidenceTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(0,0,0,0.1)',
+    overflow: 'hidden',
+  },
+  confidenceFill: {
+    height: 6,
+    backgroundColor: tokens.colors.primary[500],
+  },
+  voteCounts: {
+    fontSize: tokens.typography.fontSize.xs,
+    marginTop: tokens.spacing.xs,
+  },
+  description: {
+    marginTop: tokens.spacing.md,
+  },
+  descriptionText: {
+    fontSize: tokens.typography.fontSize.md,
+    marginTop: tokens.spacing.xs,
+  },
+  evidence: {
+    marginTop: tokens.spacing.sm,
+  },
+  evidencePhoto: {
+    width: 96,
+    height: 96,
+    borderRadius: tokens.borderRadius.md,
+    marginRight: tokens.spacing.sm,
+  },
+  voiceNote: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.08)',
+  },
+  voiceNoteIcon: {
+    fontSize: 28,
+  },
+  sectionTitle: {
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+    marginBottom: tokens.spacing.sm,
+  },
+  voteButtons: {
+    flexDirection: 'row',
+    gap: tokens.spacing.md,
+    marginBottom: tokens.spacing.md,
+  },
+  voteButton: {
+    flex: 1,
+    paddingVertical: tokens.spacing.md,
+    borderRadius: tokens.borderRadius.md,
+    alignItems: 'center',
+  },
+  confirmButton: {
+    backgroundColor: tokens.colors.success,
+  },
+  disputeButton: {
+    backgroundColor: tokens.colors.error,
+  },
+  voteButtonText: {
+    color: '#FFFFFF',
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+  votedText: {
+    fontSize: tokens.typography.fontSize.sm,
+    marginBottom: tokens.spacing.md,
+  },
+  errorText: {
+    color: tokens.colors.error,
+    fontSize: tokens.typography.fontSize.sm,
+    marginTop: tokens.spacing.sm,
+  },
+});
+
+export default OccurrenceDetailScreen;
@@ -0,0 +1,208 @@
+/**
+ * Tests for OccurrenceCreateScreen
+ *
+ * Covers confirming a matching report from the duplicate prompt instead of
+ * sending a new one.
+ */
+
+import React from 'react';
+import {Alert} from 'react-native';
+import {fireEvent, render, waitFor} from '@testing-library/react-native';
+
+import {useAuthStore} from '../../../features/auth/store/authStore';
+import {occurrencesService} from '../../../services/api/occurrences';
+import {selectUserVotes, useOccurrenceStore} from '../../../store/occurrenceStore';
+import type {Occurrence} from '../../../types/models';
+import {OccurrenceCreateScreen} from '../OccurrenceCreateScreen';
+
+jest.mock('react-i18next', () => ({
+  initReactI18next: {type: '3rdParty', init: jest.fn()},
+  useTranslation: () => ({t: (key: string) => key}),
+}));
+
+jest.mock('@/shared/theme/ThemeProvider', () => ({
+  useTheme: () => ({theme: 'light'}),
+}));
+
+jest.mock('@/shared/components/Button', () => {
+  const {Text: MockText, TouchableOpacity: MockTouchable} = require('react-native');
+  return {
+    Button: ({
+      children,
+      onPress,
+      testID,
+    }: {
+      children: string;
+      onPress: () => void;
+      testID: string;
+    }) => (
+      <MockTouchable onPress={onPress} testID={testID}>
+        <MockText>{children}</MockText>
+      </MockTouchable>
+    ),
+  };
+});
+
+jest.mock('@/components/occurrence/OccurrenceTypeSelector', () => {
+  const {TouchableOpacity: MockTouchable} = require('react-native');
+  return {
+    OccurrenceTypeSelector: ({onSelectType}: {onSelectType: (typeId: string) => void}) => (
+      <MockTouchable onPress={() => onSelectType('1')} testID="select-type" />
+    ),
+  };
+});
+
+jest.mock('@/components/occurrence/SeveritySelector', () => {
+  const {TouchableOpacity: MockTouchable} = require('react-native');
+  return {
+    SeveritySelector: ({onSelectSeverity}: {onSelectSeverity: (severity: string) => void}) => (
+      <MockTouchable onPress={() => onSelectSeverity('high')} testID="select-severity" />
+    ),
+  };
+});
+
+jest.mock('@/components/occurrence/AttachmentPicker', () => ({
+  AttachmentPicker: () => null,
+}));
+
+// The prompt lists each match with a button to confirm it
+jest.mock('@/components/occurrence/DuplicateReportPrompt', () => {
+  const {Text: MockText, TouchableOpacity: MockTouchable, View: MockView} = require('react-native');
+  return {
+    DuplicateReportPrompt: ({
+      duplicates,
+      error,
+      onConfirm,
+    }: {
+      duplicates: {occurrence: {id: string}}[];
+      error?: string | null;
+      onConfirm: (occurrenceId: string) => void;
+    }) =>
+      duplicates.length > 0 ? (
+        <MockView testID="duplicate-prompt">
+          {duplicates.map(({occurrence}) => (
+            <MockTouchable
+              key={occurrence.id}
+              onPress={() => onConfirm(occurrence.id)}
+              testID={`confirm-duplicate-${occurrence.id}`}
+            />
+          ))}
+          {error ? <MockText testID="duplicate-error">{error}</MockText> : null}
+        </MockView>
+      ) : null,
+  };
+});
+
+jest.mock('../../../services/api/occurrences', () => ({
+  occurrencesService: {
+    vote: jest.fn(),
+    create: jest.fn(),
+    getOccurrenceById: jest.fn(),
+  },
+}));
+
+jest.mock('../../../services/api/heatmap', () => ({
+  heatmapService: {
+    clearCache: jest.fn(),
+  },
+}));
+
+const mockedVote = occurrencesService.vote as jest.Mock;
+const mockedCreate = occurrencesService.create as jest.Mock;
+
+const COORDINATES = {latitude: -23.5505, longitude: -46.6333};
+
+const NEARBY: Occurrence = {
+  id: '42',
+  timestamp: new Date().toISOString(),
+  location: {latitude: -23.5506, longitude: -46.6334},
+  crimeType: {id: '1', name: 'Roubo', categoryId: '1'},
+  severity: 'high',
+  confidenceScore: 2,
+  source: 'collaborative',
+  confirmations: 0,
+  disputes: 0,
+  userVote: null,
+  status: 'active',
+};
+
+const renderScreen = () => {
+  const navigation = {goBack: jest.fn()};
+  const screen = render(
+    <OccurrenceCreateScreen
+      navigation={navigation as never}
+      route={{
+        key: 'OccurrenceCreate',
+        name: 'OccurrenceCreate',
+        params: {coordinates: COORDINATES},
+      }}
+    />,
+  );
+  return {...screen, navigation};
+};
+
+const reportDuplicate = (screen: ReturnType<typeof renderScreen>) => {
+  fireEvent.press(screen.getByTestId('select-type'));
+  fireEvent.press(screen.getByTestId('select-severity'));
+  fireEvent.press(screen.getByTestId('submit-occurrence-button'));
+};
+
+describe('OccurrenceCreateScreen', () => {
+  beforeEach(() => {
+    mockedVote.mockReset();
+    mockedCreate.mockReset();
+    jest.spyOn(Alert, 'alert').mockImplementation(() => undefined);
+    useOccurrenceStore.getState().reset();
+    useOccurrenceStore.setState({occurrences: [NEARBY]});
+    useAuthStore.setState({
+      user: {
+        id: 7,
+        name: 'Maria',
+        email: 'maria@example.com',
+        locale: 'pt_BR',
+        created_at: '2024-01-01T00:00:00Z',
+      },
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should confirm the matching report instead of sending a new one', async () => {
+    mockedVote.mockResolvedValue({
+      confidenceScore: 3,
+      confirmations: 1,
+      disputes: 0,
+      userVote: 'confirm',
+    });
+    const screen = renderScreen();
+
+    reportDuplicate(screen);
+    fireEvent.press(await screen.findByTestId(`confirm-duplicate-${NEARBY.id}`));
+
+    await waitFor(() => expect(screen.navigation.goBack).toHaveBeenCalled());
+    expect(mockedVote).toHaveBeenCalledWith(NEARBY.id, 'confirm');
+    expect(mockedCreate).not.toHaveBeenCalled();
+    expect(Alert.alert).toHaveBeenCalledWith(
+      'occurrence.duplicates.confirmedTitle',
+      'occurrence.duplicates.confirmedMessage',
+    );
+    expect(selectUserVotes(useOccurrenceStore.getState())[NEARBY.id]).toBe('confirm');
+    expect(useOccurrenceStore.getState().occurrences[0].confidenceScore).toBe(3);
+    expect(screen.queryByTestId('duplicate-prompt')).toBeNull();
+  });
+
+  it('should keep the prompt open when the confirmation fails', async () => {
+    mockedVote.mockRejectedValue({code: 'UNKNOWN_ERROR', message: 'Network Error', status: 0});
+    const screen = renderScreen();
+
+    reportDuplicate(screen);
+    fireEvent.press(await screen.findByTestId(`confirm-duplicate-${NEARBY.id}`));
+
+    expect(await screen.findByTestId('duplicate-error')).toHaveTextContent('Network Error');
+    expect(screen.navigation.goBack).not.toHaveBeenCalled();
+    expect(mockedCreate).not.toHaveBeenCalled();
+    expect(Alert.alert).not.toHaveBeenCalled();
+  });
+});
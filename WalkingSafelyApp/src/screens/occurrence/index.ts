@@ -3,3 +3,5 @@
  */
 
 export {OccurrenceCreateScreen} from './OccurrenceCreateScreen';
+export {OccurrenceDetailScreen} from './OccurrenceDetailScreen';
+export {MyReportsScreen} from './MyReportsScreen';
@@ -0,0 +1,484 @@
+/**
+ * RouteComparisonScreen
+ * Lists every route available to the destination side by side, each drawn
+ * in its own color, and starts navigation on the chosen one
+ */
+
+import React, {useCallback, useEffect, useMemo, useState} from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  SafeAreaView,
+  StatusBar,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {getRiskColor} from '@/theme/colors';
+import {MapView} from '@/components/map/MapView';
+import type {MapRouteOption} from '@/components/map/MapView';
+import {decodePolyline} from '@/components/map';
+import {formatDistance, formatDuration} from '@/components/navigation';
+import {useMapStore} from '@/store/mapStore';
+import {
+  countOccurrencesBySeverity,
+  getRouteHighlights,
+  getRouteOptionColor,
+} from '@/utils/routeComparison';
+import type {RouteComparisonScreenProps} from '@/types/navigation';
+import type {RouteResponse} from '@/types/models';
+
+/**
+ * Severities in display order
+ */
+const SEVERITY_ORDER = ['critical', 'high', 'medium', 'low'];
+
+/**
+ * RouteComparisonScreen Component
+ */
+export const RouteComparisonScreen: React.FC<RouteComparisonScreenProps> = ({
+  navigation,
+  route: navRoute,
+}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const {origin, destination, destinationAddress} = navRoute.params;
+
+  const routeOptions = useMapStore(state => state.routeOptions);
+  const isLoadingRouteOptions = useMapStore(state => state.isLoadingRouteOptions);
+  const currentRouteId = useMapStore(state => state.currentRoute?.id ?? null);
+  const loadRouteOptions = useMapStore(state => state.loadRouteOptions);
+  const setCurrentPosition = useMapStore(state => state.setCurrentPosition);
+  const setDestination = useMapStore(state => state.setDestination);
+
+  const [selectedId, setSelectedId] = useState<string | null>(currentRouteId);
+
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+
+  /**
+   * Load the alternatives, keeping routes already calculated by RoutePreview
+   */
+  useEffect(() => {
+    const state = useMapStore.getState();
+    if (!state.currentPosition) {
+      setCurrentPosition(origin);
+    }
+    if (!state.destination) {
+      setDestination(destination);
+    }
+    void loadRouteOptions();
+  }, [origin, destination, setCurrentPosition, setDestination, loadRouteOptions]);
+
+  const selectedRoute: RouteResponse | null =
+    routeOptions.find(option => option.id === selectedId) ?? routeOptions[0] ?? null;
+
+  const highlights = useMemo(() => getRouteHighlights(routeOptions), [routeOptions]);
+
+  // Decoding polylines is costly, only redo it when the routes change
+  const decodedRoutes = useMemo(
+    () => routeOptions.map(option => decodePolyline(option.polyline)),
+    [routeOptions],
+  );
+
+  const mapRoutes: MapRouteOption[] = useMemo(
+    () =>
+      routeOptions.map((option, index) => ({
+        id: option.id,
+        coordinates: decodedRoutes[index],
+        color: getRouteOptionColor(index),
+        selected: option.id === selectedRoute?.id,
+      })),
+    [routeOptions, decodedRoutes, selectedRoute?.id],
+  );
+
+  const mapOccurrences = useMemo(
+    () =>
+      (selectedRoute?.occurrences ?? []).map(occurrence => ({
+        id: occurrence.id,
+        location: occurrence.location,
+        crimeType: occurrence.crimeType,
+        severity: occurrence.severity,
+      })),
+    [selectedRoute],
+  );
+
+  /**
+   * Start navigation on the chosen route.
+   * Preview and comparison are left so that ending navigation returns to the map.
+   */
+  const handleStartNavigation = useCallback(() => {
+    if (!selectedRoute) {
+      return;
+    }
+
+    navigation.popToTop();
+    navigation.navigate('ActiveNavigation', {
+      route: selectedRoute,
+      sessionId: selectedRoute.id,
+    });
+  }, [selectedRoute, navigation]);
+
+  const getHighlightLabels = (option: RouteResponse): string[] => {
+    if (routeOptions.length < 2) {
+      return [];
+    }
+    const labels: string[] = [];
+    if (option.id === highlights.safestId) {
+      labels.push(t('route.safest'));
+    }
+    if (option.id === highlights.fastestId) {
+      labels.push(t('route.fastest'));
+    }
+    if (option.id === highlights.shortestId) {
+      labels.push(t('route.shortest'));
+    }
+    return labels;
+  };
+
+  const renderRouteCard = (option: RouteResponse, index: number) => {
+    const isSelected = option.id === selectedRoute?.id;
+    const color = getRouteOptionColor(index);
+    const occurrenceCount = option.occurrences?.length ?? 0;
+
+    return (
+      <TouchableOpacity
+        key={option.id}
+        testID={`route-option-${index}`}
+        onPress={() => setSelectedId(option.id)}
+        activeOpacity={0.8}
+        accessibilityRole="button"
+        accessibilityState={{selected: isSelected}}
+        style={[
+          styles.card,
+          {
+            backgroundColor: isDark ? tokens.colors.surface.dark : tokens.colors.surface.light,
+            borderColor: isSelected ? color : 'transparent',
+          },
+        ]}>
+        <View style={[styles.cardColorBar, {backgroundColor: color}]} />
+        <Text style={[styles.cardTitle, {color: textColor}]}>
+          {t('route.option', {number: index + 1})}
+        </Text>
+        <View style={styles.badges}>
+          {getHighlightLabels(option).map(label => (
+            <Text key={label} style={[styles.badge, {color, borderColor: color}]}>
+              {label}
+            </Text>
+          ))}
+        </View>
+
+        <Text style={[styles.cardValue, {color: textColor}]}>
+          {formatDistance(option.distance)} • {formatDuration(option.duration)}
+        </Text>
+
+        <View style={styles.riskRow}>
+          <Text style={[styles.cardLabel, {color: secondaryColor}]}>{t('route.maxRisk')}</Text>
+          <Text style={[styles.riskValue, {color: getRiskColor(option.maxRiskIndex)}]}>
+            {Math.round(option.maxRiskIndex)}
+          </Text>
+        </View>
+        <View style={styles.riskRow}>
+          <Text style={[styles.cardLabel, {color: secondaryColor}]}>{t('route.averageRisk')}</Text>
+          <Text style={[styles.riskValue, {color: getRiskColor(option.averageRiskIndex)}]}>
+            {Math.round(option.averageRiskIndex)}
+          </Text>
+        </View>
+
+        <Text style={[styles.cardLabel, {color: secondaryColor}]}>
+          ⚠️ {t('route.occurrences', {count: occurrenceCount})}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const severityCounts = countOccurrencesBySeverity(selectedRoute?.occurrences);
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'},
+        ]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerBackButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.back')}>
+          <Text style={[styles.headerBackText, {color: textColor}]}>←</Text>
+        </TouchableOpacity>
+        <View style={styles.headerTitleContainer}>
+          <Text style={[styles.headerTitle, {color: textColor}]}>{t('route.compareTitle')}</Text>
+          {destinationAddress ? (
+            <Text style={[styles.headerSubtitle, {color: secondaryColor}]} numberOfLines={1}>
+              📍 {destinationAddress}
+            </Text>
+          ) : null}
+        </View>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {/* Every route in its own color */}
+      <MapView
+        userPosition={origin}
+        showUserMarker={true}
+        followUser={false}
+        destination={destination}
+        routeOptions={mapRoutes}
+        onRouteOptionPress={setSelectedId}
+        occurrences={mapOccurrences}
+        style={styles.map}
+      />
+
+      <View
+        style={[
+          styles.bottomPanel,
+          {backgroundColor: isDark ? tokens.colors.surface.dark : tokens.colors.background.light},
+        ]}>
+        {isLoadingRouteOptions && routeOptions.length === 0 ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={tokens.colors.primary[500]} />
+            <Text style={[styles.loadingText, {color: secondaryColor}]}>
+              {t('route.loadingOptions')}
+            </Text>
+          </View>
+        ) : routeOptions.length === 0 ? (
+          <Text style={[styles.emptyText, {color: secondaryColor}]}>{t('route.noRouteFound')}</Text>
+        ) : (
+          <>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.cards}>
+              {routeOptions.map(renderRouteCard)}
+              {isLoadingRouteOptions && (
+                <ActivityIndicator style={styles.cardsLoading} color={tokens.colors.primary[500]} />
+              )}
+            </ScrollView>
+
+            {/* Occurrences along the selected route */}
+            {selectedRoute && (
+              <View style={styles.occurrences}>
+                <Text style={[styles.sectionTitle, {color: textColor}]}>
+                  {t('route.occurrencesAlong')}
+                </Text>
+                {selectedRoute.occurrences && selectedRoute.occurrences.length > 0 ? (
+                  <>
+                    <View style={styles.severityRow}>
+                      {SEVERITY_ORDER.filter(severity => severityCounts[severity]).map(severity => (
+                        <Text key={severity} style={[styles.severityChip, {color: textColor}]}>
+                          {t(`severity.${severity}`)}: {severityCounts[severity]}
+                        </Text>
+                      ))}
+                    </View>
+                    <ScrollView style={styles.occurrenceList} nestedScrollEnabled>
+                      {selectedRoute.occurrences.map(occurrence => (
+                        <Text
+                          key={occurrence.id}
+                          style={[styles.occurrenceItem, {color: secondaryColor}]}>
+                          • {occurrence.crimeType} ({t(`severity.${occurrence.severity}`)})
+                        </Text>
+                      ))}
+                    </ScrollView>
+                  </>
+                ) : (
+                  <Text style={[styles.occurrenceItem, {color: secondaryColor}]}>
+                    {t('route.noOccurrences')}
+                  </Text>
+                )}
+              </View>
+            )}
+
+            <TouchableOpacity
+              testID="start-selected-route"
+              style={styles.startButton}
+              onPress={handleStartNavigation}
+              disabled={!selectedRoute}
+              accessibilityRole="button">
+              <Text style={styles.buttonIcon}>▶️</Text>
+              <Text style={styles.startButtonText}>{t('route.startWithRoute')}</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: tokens.spacing.lg,
+    paddingVertical: tokens.spacing.md,
+    borderBottomWidth: 1,
+  },
+  headerBackButton: {
+    padding: tokens.spacing.sm,
+  },
+  headerBackText: {
+    fontSize: 24,
+  },
+  headerTitleContainer: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  headerSubtitle: {
+    fontSize: tokens.typography.fontSize.xs,
+    marginTop: 2,
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  map: {
+    flex: 1,
+  },
+  bottomPanel: {
+    borderTopLeftRadius: tokens.borderRadius.xl,
+    borderTopRightRadius: tokens.borderRadius.xl,
+    paddingVertical: tokens.spacing.lg,
+    ...tokens.shadow.lg,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    paddingVertical: tokens.spacing.xl,
+  },
+  loadingText: {
+    marginTop: tokens.spacing.md,
+    fontSize: tokens.typography.fontSize.md,
+  },
+  emptyText: {
+    fontSize: tokens.typography.fontSize.md,
+    textAlign: 'center',
+    paddingVertical: tokens.spacing.xl,
+  },
+  cards: {
+    paddingHorizontal: tokens.spacing.lg,
+    gap: tokens.spacing.md,
+  },
+  cardsLoading: {
+    alignSelf: 'center',
+  },
+  card: {
+    width: 180,
+    padding: tokens.spacing.md,
+    borderRadius: tokens.borderRadius.md,
+    borderWidth: 2,
+    overflow: 'hidden',
+  },
+  cardColorBar: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    height: 4,
+  },
+  cardTitle: {
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '700',
+  },
+  badges: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: tokens.spacing.xs,
+    marginVertical: tokens.spacing.xs,
+  },
+  badge: {
+    fontSize: tokens.typography.fontSize.xs,
+    fontWeight: '600',
+    borderWidth: 1,
+    borderRadius: tokens.borderRadius.sm,
+    paddingHorizontal: tokens.spacing.xs,
+  },
+  cardValue: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+    marginBottom: tokens.spacing.xs,
+  },
+  riskRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  cardLabel: {
+    fontSize: tokens.typography.fontSize.xs,
+    marginTop: 2,
+  },
+  riskValue: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '700',
+  },
+  occurrences: {
+    paddingHorizontal: tokens.spacing.lg,
+    marginTop: tokens.spacing.md,
+  },
+  sectionTitle: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+    marginBottom: tokens.spacing.xs,
+  },
+  severityRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: tokens.spacing.sm,
+    marginBottom: tokens.spacing.xs,
+  },
+  severityChip: {
+    fontSize: tokens.typography.fontSize.xs,
+    fontWeight: '600',
+  },
+  occurrenceList: {
+    maxHeight: 80,
+  },
+  occurrenceItem: {
+    fontSize: tokens.typography.fontSize.sm,
+    marginTop: 2,
+  },
+  startButton: {
+    flexDirection: 'row',
+    marginTop: tokens.spacing.md,
+    marginHorizontal: tokens.spacing.lg,
+    paddingVertical: tokens.spacing.md,
+    borderRadius: tokens.borderRadius.md,
+    backgroundColor: tokens.colors.primary[500],
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: tokens.spacing.xs,
+  },
+  startButtonText: {
+    color: '#FFFFFF',
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+  buttonIcon: {
+    fontSize: 16,
+  },
+});
+
+export default RouteComparisonScreen;
@@ -4,7 +4,7 @@
  * Requirements: 7.1, 7.2, 7.3, 8.1-8.5, 9.1-9.6, 10.1-10.4
  */
 
-import React, {useEffect, useState, useCallback, useRef} from 'react';
+import React, {useEffect, useState, useCallback, useMemo, useRef} from 'react';
 import {
   View,
   StyleSheet,
@@ -21,10 +21,13 @@ import {useTheme} from '@/shared/theme/ThemeProvider';
 import {tokens} from '@/shared/theme/tokens';
 import {MapView, MapViewRef} from '@/components/map/MapView';
 import {decodePolyline} from '@/components/map';
+import {HourlyRiskChart} from '@/components/navigation';
 import {useMapStore} from '@/store/mapStore';
 import {useOccurrenceStore} from '@/store/occurrenceStore';
 import type {RoutePreviewScreenProps} from '@/types/navigation';
-import type {RouteInstruction} from '@/types/models';
+import type {Coordinates, RouteInstruction} from '@/types/models';
+import {MAX_ROUTE_STOPS} from '@/utils/navigationConstants';
+import {getHourlyRiskProfile, getNextDepartureTime, getSafestHour} from '@/utils/timeOfDayRisk';
 
 /**
  * Route type options
@@ -96,6 +99,12 @@ export const RoutePreviewScreen: React.FC<RoutePreviewScreenProps> = ({
     clearRoute,
     setCurrentPosition,
     setDestination,
+    waypoints,
+    addWaypoint,
+    removeWaypoint,
+    moveWaypoint,
+    departureTime,
+    setDepartureTime,
   } = useMapStore();
 
   // Occurrence store
@@ -200,6 +209,48 @@ export const RoutePreviewScreen: React.FC<RoutePreviewScreenProps> = ({
     });
   }, [currentRoute, navigation]);
 
+  /**
+   * Open the side by side comparison of every available route
+   */
+  const handleCompareRoutes = useCallback(() => {
+    navigation.navigate('RouteComparison', {origin, destination, destinationAddress});
+  }, [navigation, origin, destination, destinationAddress]);
+
+  /**
+   * Recalculate the route after the stops or the departure time changed
+   */
+  const recalculateRoute = useCallback(() => {
+    calculateRoute(selectedRouteType === 'safest').catch(error => {
+      console.error('[RoutePreview] Route recalculation error:', error);
+      Alert.alert('Erro', 'Não foi possível recalcular a rota. Tente novamente.');
+    });
+  }, [calculateRoute, selectedRouteType]);
+
+  /**
+   * Add a stop where the user long-pressed the map
+   */
+  const handleAddStop = useCallback((coordinates: Coordinates) => {
+    if (isCalculatingRoute || waypoints.length >= MAX_ROUTE_STOPS) return;
+    addWaypoint(coordinates);
+    recalculateRoute();
+  }, [isCalculatingRoute, waypoints.length, addWaypoint, recalculateRoute]);
+
+  /**
+   * Remove a stop
+   */
+  const handleRemoveStop = useCallback((index: number) => {
+    removeWaypoint(index);
+    recalculateRoute();
+  }, [removeWaypoint, recalculateRoute]);
+
+  /**
+   * Visit a stop earlier or later
+   */
+  const handleMoveStop = useCallback((from: number, to: number) => {
+    moveWaypoint(from, to);
+    recalculateRoute();
+  }, [moveWaypoint, recalculateRoute]);
+
   /**
    * Handle back navigation
    */
@@ -208,8 +259,28 @@ export const RoutePreviewScreen: React.FC<RoutePreviewScreenProps> = ({
     navigation.goBack();
   }, [clearRoute, navigation]);
 
+  /**
+   * Plan the departure for another hour and calculate the route for the traffic at that time
+   */
+  const handleDepartureHourChange = useCallback((hour: number) => {
+    setDepartureTime(
+      hour === new Date().getHours() ? null : getNextDepartureTime(hour).toISOString(),
+    );
+    recalculateRoute();
+  }, [setDepartureTime, recalculateRoute]);
+
   const riskInfo = currentRoute ? getRiskInfo(currentRoute.averageRiskIndex) : null;
 
+  // Route risk for each hour of the day
+  const hourlyRisk = useMemo(
+    () =>
+      currentRoute
+        ? getHourlyRiskProfile(currentRoute.occurrences, currentRoute.averageRiskIndex)
+        : [],
+    [currentRoute],
+  );
+  const departureHour = departureTime ? new Date(departureTime).getHours() : new Date().getHours();
+
   return (
     <SafeAreaView
       style={[
@@ -230,6 +301,8 @@ export const RoutePreviewScreen: React.FC<RoutePreviewScreenProps> = ({
         isNavigating={true}
         routeCoordinates={currentRoute?.polyline ? decodePolyline(currentRoute.polyline) : undefined}
         destination={destination}
+        stops={waypoints}
+        onLongPress={handleAddStop}
         occurrences={occurrences.map(occ => ({
           id: occ.id,
           location: occ.location,
@@ -340,6 +413,67 @@ export const RoutePreviewScreen: React.FC<RoutePreviewScreenProps> = ({
               </TouchableOpacity>
             </View>
 
+            <TouchableOpacity
+              style={styles.compareButton}
+              onPress={handleCompareRoutes}
+              accessibilityRole="button">
+              <Text style={styles.compareButtonText}>🔀 Comparar todas as rotas</Text>
+            </TouchableOpacity>
+
+            {/* Intermediate stops, visited in order */}
+            <View style={styles.stopsContainer}>
+              {waypoints.map((stop, index) => (
+                <View key={`${stop.latitude},${stop.longitude},${index}`} style={styles.stopItem}>
+                  <View style={styles.stopNumber}>
+                    <Text style={styles.stopNumberText}>{index + 1}</Text>
+                  </View>
+                  <View style={styles.stopInfo}>
+                    <Text
+                      style={[
+                        styles.stopTitle,
+                        {color: isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light},
+                      ]}>
+                      Parada {index + 1}
+                    </Text>
+                    <Text style={styles.stopCoordinates} numberOfLines={1}>
+                      {stop.latitude.toFixed(5)}, {stop.longitude.toFixed(5)}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.stopAction}
+                    disabled={index === 0}
+                    onPress={() => handleMoveStop(index, index - 1)}
+                    accessibilityLabel={`Visitar parada ${index + 1} antes`}>
+                    <Text style={[styles.stopActionText, index === 0 && styles.stopActionDisabled]}>↑</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.stopAction}
+                    disabled={index === waypoints.length - 1}
+                    onPress={() => handleMoveStop(index, index + 1)}
+                    accessibilityLabel={`Visitar parada ${index + 1} depois`}>
+                    <Text
+                      style={[
+                        styles.stopActionText,
+                        index === waypoints.length - 1 && styles.stopActionDisabled,
+                      ]}>
+                      ↓
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.stopAction}
+                    onPress={() => handleRemoveStop(index)}
+                    accessibilityLabel={`Remover parada ${index + 1}`}>
+                    <Text style={styles.stopActionText}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {waypoints.length < MAX_ROUTE_STOPS && (
+                <Text style={styles.stopsHint}>
+                  ➕ Pressione e segure no mapa para adicionar uma parada
+                </Text>
+              )}
+            </View>
+
             {/* Route info - Requirement 9.1, 9.2, 9.3, 9.4 */}
             <View style={styles.routeInfoContainer}>
               <View style={styles.routeInfoItem}>
@@ -393,6 +527,16 @@ export const RoutePreviewScreen: React.FC<RoutePreviewScreenProps> = ({
               </View>
             </View>
 
+            {/* Risk throughout the day, tapping an hour plans the departure */}
+            <View style={styles.hourlyRiskContainer}>
+              <HourlyRiskChart
+                profile={hourlyRisk}
+                selectedHour={departureHour}
+                safestHour={getSafestHour(hourlyRisk, departureHour)}
+                onSelectHour={handleDepartureHourChange}
+              />
+            </View>
+
             {/* Warning message */}
             {currentRoute.requiresWarning && currentRoute.warningMessage && (
               <View style={styles.warningContainer}>
@@ -583,6 +727,67 @@ const styles = StyleSheet.create({
     color: tokens.colors.text.secondary.light,
     marginTop: 2,
   },
+  compareButton: {
+    alignSelf: 'center',
+    paddingVertical: tokens.spacing.xs,
+    marginTop: -tokens.spacing.sm,
+    marginBottom: tokens.spacing.md,
+  },
+  compareButtonText: {
+    color: tokens.colors.primary[500],
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  stopsContainer: {
+    marginBottom: tokens.spacing.md,
+  },
+  stopItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: tokens.spacing.xs,
+  },
+  stopNumber: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: '#FF9800',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: tokens.spacing.sm,
+  },
+  stopNumberText: {
+    color: '#FFFFFF',
+    fontSize: tokens.typography.fontSize.xs,
+    fontWeight: '700',
+  },
+  stopInfo: {
+    flex: 1,
+  },
+  stopTitle: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  stopCoordinates: {
+    fontSize: tokens.typography.fontSize.xs,
+    color: tokens.colors.text.secondary.light,
+  },
+  stopAction: {
+    paddingHorizontal: tokens.spacing.sm,
+    paddingVertical: tokens.spacing.xs,
+  },
+  stopActionText: {
+    fontSize: tokens.typography.fontSize.lg,
+    color: tokens.colors.primary[500],
+    fontWeight: '600',
+  },
+  stopActionDisabled: {
+    color: '#E0E0E0',
+  },
+  stopsHint: {
+    fontSize: tokens.typography.fontSize.xs,
+    color: tokens.colors.text.secondary.light,
+    textAlign: 'center',
+  },
   routeInfoContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -603,6 +808,9 @@ const styles = StyleSheet.create({
     fontSize: tokens.typography.fontSize.xs,
     marginTop: 2,
   },
+  hourlyRiskContainer: {
+    marginBottom: tokens.spacing.md,
+  },
   warningContainer: {
     backgroundColor: 'rgba(255, 107, 0, 0.1)',
     borderRadius: tokens.borderRadius.md,
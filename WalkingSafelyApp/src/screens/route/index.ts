@@ -1 +1,2 @@
 export {RoutePreviewScreen} from './RoutePreviewScreen';
+export {RouteComparisonScreen} from './RouteComparisonScreen';
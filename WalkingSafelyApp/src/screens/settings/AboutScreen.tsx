@@ -0,0 +1,89 @@
+/**
+ * AboutScreen
+ * App version and what the app does with the user's reports
+ */
+
+import React from 'react';
+import {SafeAreaView, ScrollView, StatusBar, StyleSheet, Text, View} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {SettingsHeader} from '@/components/settings';
+import {APP_VERSION} from '@/utils/constants';
+import type {AboutScreenProps} from '@/types/navigation';
+
+/**
+ * AboutScreen Component
+ */
+export const AboutScreen: React.FC<AboutScreenProps> = ({navigation}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      <SettingsHeader title={t('settings.about.title')} onBack={() => navigation.goBack()} />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.brand}>
+          <Text style={styles.logo}>🛡️</Text>
+          <Text style={[styles.appName, {color: textColor}]}>Walking Safely</Text>
+          <Text style={[styles.version, {color: secondaryColor}]}>
+            {t('settings.about.version', {version: APP_VERSION})}
+          </Text>
+        </View>
+        <Text style={[styles.paragraph, {color: textColor}]}>
+          {t('settings.about.description')}
+        </Text>
+        <Text style={[styles.paragraph, {color: secondaryColor}]}>
+          {t('settings.about.dataNotice')}
+        </Text>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: tokens.spacing.lg,
+    gap: tokens.spacing.md,
+  },
+  brand: {
+    alignItems: 'center',
+    paddingVertical: tokens.spacing.lg,
+  },
+  logo: {
+    fontSize: 48,
+  },
+  appName: {
+    fontSize: tokens.typography.fontSize.xl,
+    fontWeight: '700',
+    marginTop: tokens.spacing.sm,
+  },
+  version: {
+    fontSize: tokens.typography.fontSize.sm,
+    marginTop: tokens.spacing.xs,
+  },
+  paragraph: {
+    fontSize: tokens.typography.fontSize.md,
+    lineHeight: tokens.typography.fontSize.md * tokens.typography.lineHeight.normal,
+  },
+});
+
+export default AboutScreen;
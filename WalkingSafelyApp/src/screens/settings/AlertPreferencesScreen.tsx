@@ -0,0 +1,163 @@
+/**
+ * AlertPreferencesScreen
+ * Turns risk alerts, their sound and each occurrence type on or off, and
+ * limits them to some hours and days
+ */
+
+import React, {useCallback, useEffect} from 'react';
+import {Alert, SafeAreaView, ScrollView, StatusBar, StyleSheet, Text} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {AlertScheduleEditor, SettingsHeader, SettingsRow} from '@/components/settings';
+import {OCCURRENCE_TYPES} from '@/components/occurrence/OccurrenceTypeSelector';
+import {
+  isAlertTypeEnabled,
+  toggleAlertType,
+  useAlertPreferencesStore,
+} from '@/store/alertPreferencesStore';
+import {useRiskZoneStore} from '@/store/riskZoneStore';
+import {requestRiskZonePermissions} from '@/hooks/useRiskZoneMonitor';
+import {riskZoneMonitor} from '@/services/riskZoneMonitor';
+import type {AlertPreferencesScreenProps} from '@/types/navigation';
+
+const ALL_TYPE_IDS = OCCURRENCE_TYPES.map(type => type.id);
+
+/**
+ * AlertPreferencesScreen Component
+ */
+export const AlertPreferencesScreen: React.FC<AlertPreferencesScreenProps> = ({navigation}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+
+  const preferences = useAlertPreferencesStore(state => state.preferences);
+  const isSyncing = useAlertPreferencesStore(state => state.isSyncing);
+  const error = useAlertPreferencesStore(state => state.error);
+  const load = useAlertPreferencesStore(state => state.load);
+  const update = useAlertPreferencesStore(state => state.update);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const zoneAlertsEnabled = useRiskZoneStore(state => state.enabled);
+  const setZoneAlertsEnabled = useRiskZoneStore(state => state.setEnabled);
+
+  const handleZoneAlertsChange = useCallback(
+    async (enabled: boolean) => {
+      if (enabled && !(await requestRiskZonePermissions())) {
+        Alert.alert(
+          t('settings.alerts.zones.permissionTitle'),
+          t('settings.alerts.zones.permissionMessage'),
+        );
+        return;
+      }
+      setZoneAlertsEnabled(enabled);
+    },
+    [setZoneAlertsEnabled, t],
+  );
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      <SettingsHeader title={t('settings.alerts.title')} onBack={() => navigation.goBack()} />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {error ? <Text style={styles.errorText}>{t(error)}</Text> : null}
+
+        <SettingsRow
+          label={t('settings.alerts.enabled')}
+          description={t('settings.alerts.enabledHint')}
+          value={preferences.enabled}
+          onValueChange={enabled => void update({enabled})}
+        />
+        <SettingsRow
+          label={t('settings.alerts.sound')}
+          value={preferences.soundEnabled}
+          onValueChange={soundEnabled => void update({soundEnabled})}
+          disabled={!preferences.enabled}
+        />
+
+        {/* The monitor is Android only, iOS doesn't offer zone alerts */}
+        {riskZoneMonitor.isSupported() && (
+          <SettingsRow
+            label={t('settings.alerts.zones.label')}
+            description={t('settings.alerts.zones.hint')}
+            value={zoneAlertsEnabled}
+            onValueChange={enabled => void handleZoneAlertsChange(enabled)}
+            disabled={!preferences.enabled}
+          />
+        )}
+
+        <Text style={[styles.sectionTitle, {color: secondaryColor}]}>
+          {t('settings.alerts.schedule.title')}
+        </Text>
+        <AlertScheduleEditor
+          schedule={preferences.schedule}
+          onChange={schedule => void update({schedule})}
+          disabled={!preferences.enabled}
+        />
+
+        <Text style={[styles.sectionTitle, {color: secondaryColor}]}>
+          {t('settings.alerts.types')}
+        </Text>
+        {OCCURRENCE_TYPES.map(type => (
+          <SettingsRow
+            key={type.id}
+            icon={type.icon}
+            label={type.name}
+            value={isAlertTypeEnabled(preferences.types, type.id)}
+            onValueChange={() =>
+              void update({types: toggleAlertType(preferences.types, type.id, ALL_TYPE_IDS)})
+            }
+            disabled={!preferences.enabled}
+          />
+        ))}
+
+        {isSyncing ? (
+          <Text style={[styles.caption, {color: secondaryColor}]}>
+            {t('settings.alerts.syncing')}
+          </Text>
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: tokens.spacing.lg,
+    gap: tokens.spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: tokens.spacing.sm,
+  },
+  caption: {
+    fontSize: tokens.typography.fontSize.sm,
+    textAlign: 'center',
+  },
+  errorText: {
+    color: tokens.colors.error,
+    fontSize: tokens.typography.fontSize.sm,
+  },
+});
+
+export default AlertPreferencesScreen;
@@ -0,0 +1,89 @@
+/**
+ * GeneralSettingsScreen
+ * Appearance and screen preferences
+ */
+
+import React from 'react';
+import {SafeAreaView, ScrollView, StatusBar, StyleSheet, Text} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {SettingsHeader, SettingsRow} from '@/components/settings';
+import {ThemeMode, useSettingsStore} from '@/store/settingsStore';
+import type {GeneralSettingsScreenProps} from '@/types/navigation';
+
+const THEME_MODES: ThemeMode[] = ['system', 'light', 'dark'];
+
+/**
+ * GeneralSettingsScreen Component
+ */
+export const GeneralSettingsScreen: React.FC<GeneralSettingsScreenProps> = ({navigation}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+
+  const themeMode = useSettingsStore(state => state.themeMode);
+  const keepScreenAwake = useSettingsStore(state => state.keepScreenAwake);
+  const setThemeMode = useSettingsStore(state => state.setThemeMode);
+  const setKeepScreenAwake = useSettingsStore(state => state.setKeepScreenAwake);
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      <SettingsHeader title={t('settings.general.title')} onBack={() => navigation.goBack()} />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={[styles.sectionTitle, {color: secondaryColor}]}>
+          {t('settings.general.theme')}
+        </Text>
+        {THEME_MODES.map(mode => (
+          <SettingsRow
+            key={mode}
+            label={t(`settings.general.themes.${mode}`)}
+            selected={themeMode === mode}
+            onPress={() => setThemeMode(mode)}
+          />
+        ))}
+
+        <Text style={[styles.sectionTitle, {color: secondaryColor}]}>
+          {t('settings.general.screen')}
+        </Text>
+        <SettingsRow
+          label={t('settings.general.keepAwake')}
+          description={t('settings.general.keepAwakeHint')}
+          value={keepScreenAwake}
+          onValueChange={setKeepScreenAwake}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: tokens.spacing.lg,
+    gap: tokens.spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: tokens.spacing.sm,
+  },
+});
+
+export default GeneralSettingsScreen;
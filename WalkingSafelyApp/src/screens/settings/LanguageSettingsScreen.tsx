@@ -0,0 +1,63 @@
+/**
+ * LanguageSettingsScreen
+ * Language of the app and of the messages sent by the server
+ */
+
+import React from 'react';
+import {SafeAreaView, ScrollView, StatusBar, StyleSheet} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {SettingsHeader, SettingsRow} from '@/components/settings';
+import {APP_LANGUAGES, useSettingsStore} from '@/store/settingsStore';
+import type {LanguageSettingsScreenProps} from '@/types/navigation';
+
+/**
+ * LanguageSettingsScreen Component
+ */
+export const LanguageSettingsScreen: React.FC<LanguageSettingsScreenProps> = ({navigation}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const language = useSettingsStore(state => state.language);
+  const setLanguage = useSettingsStore(state => state.setLanguage);
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      <SettingsHeader title={t('settings.language.title')} onBack={() => navigation.goBack()} />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {APP_LANGUAGES.map(option => (
+          <SettingsRow
+            key={option}
+            label={t(`settings.language.names.${option}`)}
+            selected={language === option}
+            onPress={() => setLanguage(option)}
+          />
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: tokens.spacing.lg,
+    gap: tokens.spacing.sm,
+  },
+});
+
+export default LanguageSettingsScreen;
@@ -0,0 +1,102 @@
+/**
+ * PrivacySettingsScreen
+ * Default anonymity of reports and the data kept on the device
+ */
+
+import React, {useCallback} from 'react';
+import {Alert, SafeAreaView, ScrollView, StatusBar, StyleSheet, Text} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {SettingsHeader, SettingsRow} from '@/components/settings';
+import {navigationCache} from '@/services/navigationCache';
+import {useSettingsStore} from '@/store/settingsStore';
+import type {PrivacySettingsScreenProps} from '@/types/navigation';
+
+/**
+ * PrivacySettingsScreen Component
+ */
+export const PrivacySettingsScreen: React.FC<PrivacySettingsScreenProps> = ({navigation}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+
+  const reportAnonymously = useSettingsStore(state => state.reportAnonymously);
+  const setReportAnonymously = useSettingsStore(state => state.setReportAnonymously);
+
+  const handleClearNavigationData = useCallback(() => {
+    Alert.alert(t('settings.privacy.clearTitle'), t('settings.privacy.clearMessage'), [
+      {text: t('common.cancel'), style: 'cancel'},
+      {
+        text: t('settings.privacy.clear'),
+        style: 'destructive',
+        onPress: () => {
+          navigationCache
+            .clear()
+            .then(() => Alert.alert(t('settings.privacy.cleared')))
+            .catch(error => {
+              console.error('[PrivacySettingsScreen] Error clearing navigation data:', error);
+              Alert.alert(t('common.error'), t('settings.privacy.clearError'));
+            });
+        },
+      },
+    ]);
+  }, [t]);
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      <SettingsHeader title={t('settings.privacy.title')} onBack={() => navigation.goBack()} />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={[styles.sectionTitle, {color: secondaryColor}]}>
+          {t('settings.privacy.reports')}
+        </Text>
+        <SettingsRow
+          label={t('settings.privacy.anonymousDefault')}
+          description={t('settings.privacy.anonymousDefaultHint')}
+          value={reportAnonymously}
+          onValueChange={setReportAnonymously}
+        />
+
+        <Text style={[styles.sectionTitle, {color: secondaryColor}]}>
+          {t('settings.privacy.deviceData')}
+        </Text>
+        <SettingsRow
+          label={t('settings.privacy.clearNavigation')}
+          description={t('settings.privacy.clearNavigationHint')}
+          onPress={handleClearNavigationData}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: tokens.spacing.lg,
+    gap: tokens.spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: tokens.spacing.sm,
+  },
+});
+
+export default PrivacySettingsScreen;
@@ -0,0 +1,82 @@
+/**
+ * SettingsScreen
+ * Entry point of the settings, linking to each group of preferences
+ */
+
+import React from 'react';
+import {SafeAreaView, ScrollView, StatusBar, StyleSheet} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {SettingsHeader, SettingsRow} from '@/components/settings';
+import {useSettingsStore} from '@/store/settingsStore';
+import type {SettingsHomeScreenProps} from '@/types/navigation';
+
+/**
+ * SettingsScreen Component
+ */
+export const SettingsScreen: React.FC<SettingsHomeScreenProps> = ({navigation}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+  const language = useSettingsStore(state => state.language);
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      <SettingsHeader title={t('settings.title')} onBack={() => navigation.goBack()} />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <SettingsRow
+          icon="🎨"
+          label={t('settings.general.title')}
+          description={t('settings.general.summary')}
+          onPress={() => navigation.navigate('GeneralSettings')}
+        />
+        <SettingsRow
+          icon="🔔"
+          label={t('settings.alerts.title')}
+          description={t('settings.alerts.summary')}
+          onPress={() => navigation.navigate('AlertPreferences')}
+        />
+        <SettingsRow
+          icon="🌐"
+          label={t('settings.language.title')}
+          description={t(`settings.language.names.${language}`)}
+          onPress={() => navigation.navigate('LanguageSettings')}
+        />
+        <SettingsRow
+          icon="🔒"
+          label={t('settings.privacy.title')}
+          description={t('settings.privacy.summary')}
+          onPress={() => navigation.navigate('PrivacySettings')}
+        />
+        <SettingsRow
+          icon="ℹ️"
+          label={t('settings.about.title')}
+          onPress={() => navigation.navigate('About')}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: tokens.spacing.lg,
+    gap: tokens.spacing.sm,
+  },
+});
+
+export default SettingsScreen;
@@ -0,0 +1,10 @@
+/**
+ * Settings Screens Exports
+ */
+
+export {SettingsScreen} from './SettingsScreen';
+export {GeneralSettingsScreen} from './GeneralSettingsScreen';
+export {AlertPreferencesScreen} from './AlertPreferencesScreen';
+export {LanguageSettingsScreen} from './LanguageSettingsScreen';
+export {PrivacySettingsScreen} from './PrivacySettingsScreen';
+export {AboutScreen} from './AboutScreen';
@@ -0,0 +1,167 @@
+/**
+ * RegionDetailScreen
+ * Breakdown of a region's occurrences by hour of day and weekday
+ */
+
+import React, {useEffect} from 'react';
+import {
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {CountBarChart} from '@/components/statistics/CountBarChart';
+import {formatHour} from '@/components/navigation/HourlyRiskChart';
+import {useStatisticsStore} from '@/store/statisticsStore';
+import type {RegionDetailScreenProps} from '@/types/navigation';
+
+/**
+ * Hour labels under the chart, from midnight
+ */
+const HOUR_LABELS = Array.from({length: 24}, (_, hour) => formatHour(hour));
+
+/**
+ * Weekday keys, from Sunday as the backend counts them
+ */
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * RegionDetailScreen Component
+ */
+export const RegionDetailScreen: React.FC<RegionDetailScreenProps> = ({navigation, route}) => {
+  const {regionId} = route.params;
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const region = useStatisticsStore(state => state.regions.find(item => item.id === regionId));
+  const patterns = useStatisticsStore(state => state.patterns[regionId]);
+  const isLoading = useStatisticsStore(state => state.loadingPatternsId === regionId);
+  const error = useStatisticsStore(state => state.error);
+  const loadRegionPatterns = useStatisticsStore(state => state.loadRegionPatterns);
+
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+
+  useEffect(() => {
+    void loadRegionPatterns(regionId);
+  }, [loadRegionPatterns, regionId]);
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'},
+        ]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerBackButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.back')}>
+          <Text style={[styles.headerBackText, {color: textColor}]}>←</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, {color: textColor}]} numberOfLines={1}>
+          {region?.name ?? t('statistics.region')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {error ? <Text style={styles.errorText}>{t(error)}</Text> : null}
+
+        {isLoading && !patterns ? (
+          <ActivityIndicator
+            style={styles.loading}
+            size="large"
+            color={tokens.colors.primary[500]}
+          />
+        ) : null}
+
+        {patterns && (
+          <>
+            <Text style={[styles.caption, {color: secondaryColor}]}>
+              {t('statistics.regionTotal', {count: patterns.total})}
+            </Text>
+            <CountBarChart
+              title={t('statistics.byHour')}
+              counts={patterns.byHour}
+              labels={HOUR_LABELS}
+              labelEvery={6}
+            />
+            <CountBarChart
+              title={t('statistics.byWeekday')}
+              counts={patterns.byWeekday}
+              labels={WEEKDAYS.map(day => t(`statistics.weekdays.${day}`))}
+              color={tokens.colors.info}
+            />
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: tokens.spacing.lg,
+    paddingVertical: tokens.spacing.md,
+    borderBottomWidth: 1,
+  },
+  headerBackButton: {
+    padding: tokens.spacing.sm,
+  },
+  headerBackText: {
+    fontSize: 24,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  content: {
+    padding: tokens.spacing.lg,
+    gap: tokens.spacing.md,
+  },
+  loading: {
+    marginTop: tokens.spacing.xl,
+  },
+  caption: {
+    fontSize: tokens.typography.fontSize.sm,
+  },
+  errorText: {
+    color: tokens.colors.error,
+    fontSize: tokens.typography.fontSize.sm,
+  },
+});
+
+export default RegionDetailScreen;
@@ -0,0 +1,439 @@
+/**
+ * StatisticsScreen
+ * Crime statistics of the area around the user or of a chosen neighbourhood:
+ * occurrences by type, severity mix and week-over-week trend
+ */
+
+import React, {useEffect} from 'react';
+import {
+  ActivityIndicator,
+  RefreshControl,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {useTranslation} from 'react-i18next';
+import {useTheme} from '@/shared/theme/ThemeProvider';
+import {tokens} from '@/shared/theme/tokens';
+import {SEVERITY_COLORS} from '@/utils/severityLevels';
+import {DEFAULT_LOCATION, STATISTICS_AREA_RADIUS} from '@/utils/constants';
+import {useMapStore} from '@/store/mapStore';
+import {useStatisticsStore} from '@/store/statisticsStore';
+import type {StatisticsHomeScreenProps} from '@/types/navigation';
+import type {OccurrenceSeverity, TrendDirection} from '@/types/models';
+
+/**
+ * Severities from the mildest, in the order the mix is drawn
+ */
+const SEVERITIES: OccurrenceSeverity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Colour of each trend. More occurrences is bad news.
+ */
+const TREND_COLORS: Record<TrendDirection, string> = {
+  increasing: tokens.colors.error,
+  decreasing: tokens.colors.success,
+  stable: '#9E9E9E',
+};
+
+const TREND_ARROWS: Record<TrendDirection, string> = {
+  increasing: '↑',
+  decreasing: '↓',
+  stable: '→',
+};
+
+/**
+ * StatisticsScreen Component
+ */
+export const StatisticsScreen: React.FC<StatisticsHomeScreenProps> = ({navigation}) => {
+  const {t} = useTranslation();
+  const {theme} = useTheme();
+  const isDark = theme === 'dark';
+
+  const currentPosition = useMapStore(state => state.currentPosition);
+  const area = useStatisticsStore(state => state.area);
+  const summary = useStatisticsStore(state => state.summary);
+  const isLoading = useStatisticsStore(state => state.isLoading);
+  const regions = useStatisticsStore(state => state.regions);
+  const isLoadingRegions = useStatisticsStore(state => state.isLoadingRegions);
+  const error = useStatisticsStore(state => state.error);
+  const selectNearby = useStatisticsStore(state => state.selectNearby);
+  const selectRegion = useStatisticsStore(state => state.selectRegion);
+  const refresh = useStatisticsStore(state => state.refresh);
+  const loadRegions = useStatisticsStore(state => state.loadRegions);
+
+  const textColor = isDark ? tokens.colors.text.primary.dark : tokens.colors.text.primary.light;
+  const secondaryColor = isDark
+    ? tokens.colors.text.secondary.dark
+    : tokens.colors.text.secondary.light;
+  const surfaceColor = isDark ? tokens.colors.surface.dark : tokens.colors.surface.light;
+
+  const handleSelectNearby = () => {
+    void selectNearby(currentPosition ?? DEFAULT_LOCATION);
+  };
+
+  // The selected area is kept while the app runs, start nearby the first time
+  useEffect(() => {
+    if (!useStatisticsStore.getState().area) {
+      void selectNearby(useMapStore.getState().currentPosition ?? DEFAULT_LOCATION);
+    }
+    void loadRegions();
+  }, [selectNearby, loadRegions]);
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: isSelected ? tokens.colors.primary[500] : surfaceColor,
+          borderColor: isSelected ? tokens.colors.primary[500] : 'rgba(0,0,0,0.1)',
+        },
+      ]}
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityState={{selected: isSelected}}
+      testID={`statistics-area-${key}`}>
+      <Text style={[styles.chipText, {color: isSelected ? '#FFFFFF' : textColor}]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderTrend = () => {
+    if (!summary) {
+      return null;
+    }
+    const {currentWeek, previousWeek, percentChange, trend} = summary.weekOverWeek;
+    return (
+      <View style={[styles.card, styles.trendCard, {backgroundColor: surfaceColor}]}>
+        <View style={styles.trendColumn}>
+          <Text style={[styles.bigNumber, {color: textColor}]}>{summary.total}</Text>
+          <Text style={[styles.caption, {color: secondaryColor}]}>{t('statistics.total')}</Text>
+        </View>
+        <View style={styles.trendColumn}>
+          <Text style={[styles.bigNumber, {color: TREND_COLORS[trend]}]}>
+            {TREND_ARROWS[trend]} {Math.abs(Math.round(percentChange))}%
+          </Text>
+          <Text style={[styles.caption, {color: secondaryColor}]}>
+            {t('statistics.weekOverWeek', {current: currentWeek, previous: previousWeek})}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  const renderSeverityMix = () => {
+    if (!summary || summary.total === 0) {
+      return null;
+    }
+    return (
+      <View style={[styles.card, {backgroundColor: surfaceColor}]}>
+        <Text style={[styles.cardTitle, {color: textColor}]}>{t('statistics.severityMix')}</Text>
+        <View style={styles.mixBar}>
+          {SEVERITIES.map(severity =>
+            summary.bySeverity[severity] > 0 ? (
+              <View
+                key={severity}
+                style={{
+                  flex: summary.bySeverity[severity],
+                  backgroundColor: SEVERITY_COLORS[severity],
+                }}
+              />
+            ) : null,
+          )}
+        </View>
+        <View style={styles.legend}>
+          {SEVERITIES.map(severity => (
+            <View key={severity} style={styles.legendItem}>
+              <View style={[styles.legendDot, {backgroundColor: SEVERITY_COLORS[severity]}]} />
+              <Text style={[styles.caption, {color: secondaryColor}]}>
+                {t(`severity.${severity}`)} · {summary.bySeverity[severity]}
+              </Text>
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderByType = () => {
+    if (!summary || summary.byType.length === 0) {
+      return null;
+    }
+    return (
+      <View style={[styles.card, {backgroundColor: surfaceColor}]}>
+        <Text style={[styles.cardTitle, {color: textColor}]}>{t('statistics.byType')}</Text>
+        {summary.byType.map(item => (
+          <View key={item.crimeTypeId} style={styles.typeRow}>
+            <View style={styles.typeHeader}>
+              <Text style={[styles.typeName, {color: textColor}]} numberOfLines={1}>
+                {item.crimeTypeName}
+              </Text>
+              <Text style={[styles.caption, {color: secondaryColor}]}>
+                {item.count} · {Math.round(item.percentage)}%
+              </Text>
+            </View>
+            <View style={[styles.typeTrack, {backgroundColor: 'rgba(0,0,0,0.06)'}]}>
+              <View
+                style={[
+                  styles.typeFill,
+                  {
+                    width: `${Math.min(100, item.percentage)}%`,
+                    backgroundColor: tokens.colors.primary[500],
+                  },
+                ]}
+              />
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[
+        styles.container,
+        {backgroundColor: isDark ? tokens.colors.background.dark : tokens.colors.background.light},
+      ]}>
+      <StatusBar
+        barStyle={isDark ? 'light-content' : 'dark-content'}
+        backgroundColor={isDark ? tokens.colors.background.dark : tokens.colors.background.light}
+      />
+
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {borderBottomColor: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.1)'},
+        ]}>
+        <TouchableOpacity
+          onPress={() => navigation.goBack()}
+          style={styles.headerBackButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.back')}>
+          <Text style={[styles.headerBackText, {color: textColor}]}>←</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, {color: textColor}]}>{t('statistics.title')}</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {/* Area selection */}
+      <View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chips}>
+          {renderChip(
+            'nearby',
+            t('statistics.nearby'),
+            area?.type === 'nearby',
+            handleSelectNearby,
+          )}
+          {regions.map(region =>
+            renderChip(
+              region.id,
+              region.name,
+              area?.type === 'region' && area.regionId === region.id,
+              () => {
+                void selectRegion(region);
+              },
+            ),
+          )}
+          {isLoadingRegions && <ActivityIndicator color={tokens.colors.primary[500]} />}
+        </ScrollView>
+      </View>
+
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={isLoading && summary !== null}
+            onRefresh={() => {
+              void refresh();
+            }}
+          />
+        }>
+        <Text style={[styles.caption, {color: secondaryColor}]}>
+          {area?.type === 'region'
+            ? t('statistics.regionPeriod', {name: area.name})
+            : t('statistics.nearbyPeriod', {km: STATISTICS_AREA_RADIUS / 1000})}
+        </Text>
+
+        {error ? <Text style={styles.errorText}>{t(error)}</Text> : null}
+
+        {isLoading && !summary ? (
+          <ActivityIndicator
+            style={styles.loading}
+            size="large"
+            color={tokens.colors.primary[500]}
+          />
+        ) : null}
+
+        {renderTrend()}
+        {renderSeverityMix()}
+        {renderByType()}
+
+        {summary && summary.total === 0 && !isLoading ? (
+          <Text style={[styles.emptyText, {color: secondaryColor}]}>{t('statistics.empty')}</Text>
+        ) : null}
+
+        {area?.type === 'region' && (
+          <TouchableOpacity
+            style={styles.detailButton}
+            onPress={() => navigation.navigate('RegionDetail', {regionId: area.regionId})}
+            accessibilityRole="button"
+            testID="statistics-region-detail">
+            <Text style={styles.detailButtonText}>{t('statistics.regionDetail')}</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: tokens.spacing.lg,
+    paddingVertical: tokens.spacing.md,
+    borderBottomWidth: 1,
+  },
+  headerBackButton: {
+    padding: tokens.spacing.sm,
+  },
+  headerBackText: {
+    fontSize: 24,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: tokens.typography.fontSize.lg,
+    fontWeight: '600',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  chips: {
+    alignItems: 'center',
+    gap: tokens.spacing.sm,
+    paddingHorizontal: tokens.spacing.lg,
+    paddingVertical: tokens.spacing.md,
+  },
+  chip: {
+    borderRadius: tokens.borderRadius.full,
+    borderWidth: 1,
+    paddingHorizontal: tokens.spacing.md,
+    paddingVertical: tokens.spacing.xs,
+  },
+  chipText: {
+    fontSize: tokens.typography.fontSize.sm,
+    fontWeight: '600',
+  },
+  content: {
+    padding: tokens.spacing.lg,
+    paddingTop: 0,
+    gap: tokens.spacing.md,
+  },
+  loading: {
+    marginTop: tokens.spacing.xl,
+  },
+  card: {
+    borderRadius: tokens.borderRadius.md,
+    padding: tokens.spacing.md,
+  },
+  cardTitle: {
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+    marginBottom: tokens.spacing.sm,
+  },
+  caption: {
+    fontSize: tokens.typography.fontSize.xs,
+  },
+  trendCard: {
+    flexDirection: 'row',
+  },
+  trendColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  bigNumber: {
+    fontSize: tokens.typography.fontSize.xxl,
+    fontWeight: '700',
+  },
+  mixBar: {
+    flexDirection: 'row',
+    height: 12,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: tokens.spacing.md,
+    marginTop: tokens.spacing.sm,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: tokens.spacing.xs,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  typeRow: {
+    marginBottom: tokens.spacing.sm,
+  },
+  typeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: tokens.spacing.sm,
+    marginBottom: 2,
+  },
+  typeName: {
+    flex: 1,
+    fontSize: tokens.typography.fontSize.sm,
+  },
+  typeTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  typeFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  emptyText: {
+    fontSize: tokens.typography.fontSize.md,
+    textAlign: 'center',
+    paddingVertical: tokens.spacing.xl,
+  },
+  detailButton: {
+    alignItems: 'center',
+    borderRadius: tokens.borderRadius.md,
+    paddingVertical: tokens.spacing.md,
+    backgroundColor: tokens.colors.primary[500],
+  },
+  detailButtonText: {
+    color: '#FFFFFF',
+    fontSize: tokens.typography.fontSize.md,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: tokens.colors.error,
+    fontSize: tokens.typography.fontSize.sm,
+  },
+});
+
+export default StatisticsScreen;
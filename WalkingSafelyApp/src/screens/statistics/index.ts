@@ -0,0 +1,6 @@
+/**
+ * Statistics Screens Exports
+ */
+
+export {StatisticsScreen} from './StatisticsScreen';
+export {RegionDetailScreen} from './RegionDetailScreen';
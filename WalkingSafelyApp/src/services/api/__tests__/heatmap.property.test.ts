@@ -0,0 +1,201 @@
+/**
+ * Property-Based Tests for Heatmap Tile Caching
+ *
+ * **Property 20: Heatmap Tile Coverage and Cache Reuse**
+ * **Validates: Requirements 9.1, 9.2, 9.6**
+ *
+ * For any visible map bounds, the tiles requested SHALL cover every coordinate
+ * inside the bounds, and requesting the same area with the same filters while
+ * the cached tiles are fresh SHALL NOT trigger new network requests.
+ */
+
+import * as fc from 'fast-check';
+
+import {apiClient} from '../../../shared/services/api';
+import type {Coordinates, MapBounds} from '../../../types/models';
+import {
+  MapTile,
+  getTileZoomForBounds,
+  getTilesForBounds,
+  tileToBounds,
+} from '../../../utils/mapTiles';
+import {
+  HEATMAP_TILE_TTL,
+  getFilterKey,
+  heatmapService,
+  isHeatmapResponseStale,
+  mergeHeatmapPoints,
+} from '../heatmap';
+
+jest.mock('../../../shared/services/api', () => ({
+  apiClient: {get: jest.fn()},
+}));
+
+const mockedGet = apiClient.get as jest.Mock;
+
+/**
+ * Helper: Generate viewport-sized bounds (no antimeridian crossing)
+ */
+const boundsArbitrary = fc
+  .record({
+    latitude: fc.double({min: -60, max: 60, noNaN: true}),
+    longitude: fc.double({min: -170, max: 170, noNaN: true}),
+    latSpan: fc.double({min: 0.001, max: 5, noNaN: true}),
+    lngSpan: fc.double({min: 0.001, max: 5, noNaN: true}),
+  })
+  .map(
+    ({latitude, longitude, latSpan, lngSpan}): MapBounds => ({
+      southWest: {latitude, longitude},
+      northEast: {latitude: latitude + latSpan, longitude: longitude + lngSpan},
+    }),
+  );
+
+/**
+ * Helper: Check if a coordinate lies in a tile, tolerating floating point error at the edges
+ */
+function isWithinTile(coordinate: Coordinates, tile: MapTile): boolean {
+  const epsilon = 1e-9;
+  const {northEast, southWest} = tileToBounds(tile);
+  return (
+    coordinate.latitude >= southWest.latitude - epsilon &&
+    coordinate.latitude <= northEast.latitude + epsilon &&
+    coordinate.longitude >= southWest.longitude - epsilon &&
+    coordinate.longitude <= northEast.longitude + epsilon
+  );
+}
+
+const bounds: MapBounds = {
+  southWest: {latitude: -23.56, longitude: -46.64},
+  northEast: {latitude: -23.54, longitude: -46.62},
+};
+
+describe('Heatmap Tile Caching - Property Tests', () => {
+  beforeEach(() => {
+    heatmapService.clearCache();
+    mockedGet.mockReset();
+    mockedGet.mockResolvedValue({
+      data: {
+        data: {
+          points: [
+            {latitude: -23.55, longitude: -46.63, count: 4, intensity: 1, avg_confidence: 3},
+          ],
+          total_occurrences: 4,
+          grid_size: 0.001,
+        },
+      },
+    });
+  });
+
+  describe('Property 20: Tile coverage', () => {
+    it('should cover every coordinate inside the bounds with a requested tile', () => {
+      fc.assert(
+        fc.property(
+          boundsArbitrary,
+          fc.double({min: 0, max: 1, noNaN: true}),
+          fc.double({min: 0, max: 1, noNaN: true}),
+          (mapBounds, latRatio, lngRatio) => {
+            const zoom = getTileZoomForBounds(mapBounds);
+            const tiles = getTilesForBounds(mapBounds, zoom);
+            const point = {
+              latitude:
+                mapBounds.southWest.latitude +
+                (mapBounds.northEast.latitude - mapBounds.southWest.latitude) * latRatio,
+              longitude:
+                mapBounds.southWest.longitude +
+                (mapBounds.northEast.longitude - mapBounds.southWest.longitude) * lngRatio,
+            };
+
+            return tiles.some(tile => isWithinTile(point, tile));
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+
+    it('should keep the number of tiles per viewport small', () => {
+      fc.assert(
+        fc.property(boundsArbitrary, mapBounds => {
+          const tiles = getTilesForBounds(mapBounds, getTileZoomForBounds(mapBounds));
+          return tiles.length >= 1 && tiles.length <= 16;
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  describe('Filter keys and merging', () => {
+    it('should produce the same filter key regardless of crime type order', () => {
+      fc.assert(
+        fc.property(fc.array(fc.string({minLength: 1, maxLength: 3})), crimeTypes => {
+          const reversed = [...crimeTypes].reverse();
+          return (
+            getFilterKey({crimeTypes, period: 'last_7d'}) ===
+            getFilterKey({crimeTypes: reversed, period: 'last_7d'})
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should preserve total weight when merging points', () => {
+      const pointArbitrary = fc.record({
+        latitude: fc.integer({min: -3, max: 3}),
+        longitude: fc.integer({min: -3, max: 3}),
+        weight: fc.integer({min: 1, max: 50}),
+      });
+
+      fc.assert(
+        fc.property(fc.array(pointArbitrary, {maxLength: 40}), points => {
+          const merged = mergeHeatmapPoints(points);
+          const total = (list: typeof points) => list.reduce((sum, p) => sum + p.weight, 0);
+          const keys = new Set(merged.map(p => `${p.latitude},${p.longitude}`));
+          return total(merged) === total(points) && keys.size === merged.length;
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should treat responses older than the TTL as stale', () => {
+      const now = Date.parse('2024-01-01T12:00:00Z');
+      expect(isHeatmapResponseStale({lastUpdated: new Date(now).toISOString()}, now)).toBe(false);
+      expect(
+        isHeatmapResponseStale(
+          {lastUpdated: new Date(now - HEATMAP_TILE_TTL - 1).toISOString()},
+          now,
+        ),
+      ).toBe(true);
+      expect(isHeatmapResponseStale({lastUpdated: 'invalid'}, now)).toBe(true);
+    });
+  });
+
+  describe('Cache reuse', () => {
+    it('should not download tiles again when panning back to a cached area', async () => {
+      const first = await heatmapService.getHeatmapData(bounds);
+      const callsAfterFirstLoad = mockedGet.mock.calls.length;
+
+      const second = await heatmapService.getHeatmapData(bounds);
+
+      expect(callsAfterFirstLoad).toBeGreaterThan(0);
+      expect(mockedGet.mock.calls.length).toBe(callsAfterFirstLoad);
+      expect(second).toEqual(first);
+    });
+
+    it('should fetch again when the filter set changes', async () => {
+      await heatmapService.getHeatmapData(bounds, {period: 'last_7d'});
+      const callsAfterFirstLoad = mockedGet.mock.calls.length;
+
+      await heatmapService.getHeatmapData(bounds, {period: 'last_24h'});
+
+      expect(mockedGet.mock.calls.length).toBe(callsAfterFirstLoad * 2);
+      expect(mockedGet.mock.calls[callsAfterFirstLoad][1].params.days).toBe(1);
+    });
+
+    it('should request each crime type separately and merge the weights', async () => {
+      const points = await heatmapService.getHeatmapData(bounds, {crimeTypes: ['1', '2']});
+      const crimeTypeIds = mockedGet.mock.calls.map(call => call[1].params.crime_type_id);
+
+      expect(crimeTypeIds).toEqual(expect.arrayContaining(['1', '2']));
+      expect(points.reduce((sum, p) => sum + p.weight, 0)).toBe(4 * mockedGet.mock.calls.length);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Alert Preferences Service
+ * API service for the user's risk alert preferences
+ */
+
+import {apiClient} from '../../shared/services/api';
+import {UpdateAlertPreferencesRequest} from '../../types/api';
+import {AlertPreferences} from '../../types/models';
+
+export interface AlertPreferencesService {
+  getPreferences(): Promise<AlertPreferences>;
+  updatePreferences(changes: UpdateAlertPreferencesRequest): Promise<AlertPreferences>;
+}
+
+/**
+ * Alert preferences API endpoints
+ */
+const ALERT_PREFERENCES_ENDPOINTS = {
+  PREFERENCES: '/alerts/preferences',
+} as const;
+
+/**
+ * Backend API response types
+ */
+interface BackendAlertPreferences {
+  alerts_enabled?: boolean;
+  enabled_crime_types?: (number | string)[];
+  time_restrictions?: {
+    active_hours_start?: string | null;
+    active_hours_end?: string | null;
+    active_days?: number[];
+  };
+}
+
+/**
+ * Map backend alert preferences to frontend format.
+ * Sound is a device setting the server doesn't keep.
+ */
+const mapPreferences = (data: BackendAlertPreferences, soundEnabled: boolean): AlertPreferences => {
+  const restrictions = data.time_restrictions;
+  return {
+    enabled: data.alerts_enabled ?? true,
+    soundEnabled,
+    types: (data.enabled_crime_types ?? []).map(String),
+    schedule:
+      restrictions?.active_hours_start && restrictions.active_hours_end
+        ? {
+            startTime: restrictions.active_hours_start,
+            endTime: restrictions.active_hours_end,
+            daysOfWeek: restrictions.active_days ?? [],
+          }
+        : null,
+  };
+};
+
+/**
+ * Map a frontend update to the backend request body
+ */
+const toBackendChanges = (changes: UpdateAlertPreferencesRequest): Record<string, unknown> => {
+  const body: Record<string, unknown> = {};
+  if (changes.enabled !== undefined) {
+    body.alerts_enabled = changes.enabled;
+  }
+  if (changes.types !== undefined) {
+    body.enabled_crime_types = changes.types.map(Number);
+  }
+  if (changes.schedule !== undefined) {
+    body.active_hours_start = changes.schedule?.startTime ?? null;
+    body.active_hours_end = changes.schedule?.endTime ?? null;
+    body.active_days = changes.schedule?.daysOfWeek ?? [];
+  }
+  return body;
+};
+
+/**
+ * Alert preferences service implementation
+ */
+export const alertPreferencesService: AlertPreferencesService = {
+  /**
+   * The user's preferences, created with defaults by the server on first read
+   */
+  async getPreferences(): Promise<AlertPreferences> {
+    try {
+      const response = await apiClient.get(ALERT_PREFERENCES_ENDPOINTS.PREFERENCES);
+      return mapPreferences(response.data?.data ?? {}, true);
+    } catch (error) {
+      console.error('[AlertPreferencesService] Error loading preferences:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Save the changed preferences, returning them as stored
+   */
+  async updatePreferences(changes: UpdateAlertPreferencesRequest): Promise<AlertPreferences> {
+    try {
+      const response = await apiClient.put(
+        ALERT_PREFERENCES_ENDPOINTS.PREFERENCES,
+        toBackendChanges(changes),
+      );
+      return mapPreferences(response.data?.data ?? {}, changes.soundEnabled ?? true);
+    } catch (error) {
+      console.error('[AlertPreferencesService] Error updating preferences:', error);
+      throw error;
+    }
+  },
+};
+
+export default alertPreferencesService;
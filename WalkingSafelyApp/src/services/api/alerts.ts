@@ -0,0 +1,62 @@
+/**
+ * Alerts Service
+ * API service for the risk of the area around a position
+ */
+
+import {apiClient} from '../../shared/services/api';
+import {Coordinates, RiskZoneAlert} from '../../types/models';
+
+export interface AlertsService {
+  checkPosition(position: Coordinates): Promise<RiskZoneAlert | null>;
+}
+
+/**
+ * Alerts API endpoints
+ */
+const ALERTS_ENDPOINTS = {
+  CHECK: '/alerts/check',
+} as const;
+
+/**
+ * Backend API response types
+ */
+interface BackendAlert {
+  type: string;
+  risk_index?: number;
+  region_id?: number | string | null;
+  dominant_crime_type_id?: number | string | null;
+}
+
+/**
+ * Alerts service implementation
+ */
+export const alertsService: AlertsService = {
+  /**
+   * The high risk region at a position, or null when it isn't in one.
+   * The server leaves out alerts the user's preferences turn off.
+   */
+  async checkPosition(position: Coordinates): Promise<RiskZoneAlert | null> {
+    try {
+      const response = await apiClient.get(ALERTS_ENDPOINTS.CHECK, {
+        params: {latitude: position.latitude, longitude: position.longitude},
+      });
+      const alerts: BackendAlert[] = response.data?.data?.alerts ?? [];
+      const highRisk = alerts.find(alert => alert.type === 'high_risk_region');
+
+      if (!highRisk) {
+        return null;
+      }
+      return {
+        regionId: highRisk.region_id != null ? String(highRisk.region_id) : null,
+        riskIndex: highRisk.risk_index ?? 0,
+        dominantCrimeTypeId:
+          highRisk.dominant_crime_type_id != null ? String(highRisk.dominant_crime_type_id) : null,
+      };
+    } catch (error) {
+      console.error('[AlertsService] Error checking position:', error);
+      throw error;
+    }
+  },
+};
+
+export default alertsService;
@@ -0,0 +1,122 @@
+/**
+ * Emergency Service
+ * API service for trusted contacts and SOS alerts
+ */
+
+import {apiClient} from '../../shared/services/api';
+import {CreateTrustedContactData, SosAlert, TrustedContact} from '../../types/models';
+
+export interface EmergencyService {
+  getContacts(): Promise<TrustedContact[]>;
+  addContact(data: CreateTrustedContactData): Promise<TrustedContact>;
+  removeContact(id: string): Promise<void>;
+  sendSos(alert: SosAlert): Promise<SosAlertConfirmation>;
+}
+
+/**
+ * Server confirmation of a delivered SOS alert
+ */
+export interface SosAlertConfirmation {
+  alertId: string;
+  notifiedContacts: number;
+}
+
+/**
+ * Emergency API endpoints
+ */
+const EMERGENCY_ENDPOINTS = {
+  CONTACTS: '/emergency/contacts',
+  SOS: '/emergency/sos',
+} as const;
+
+/**
+ * Backend API response types
+ */
+interface BackendTrustedContact {
+  id: number | string;
+  name: string;
+  phone: string;
+  email?: string | null;
+}
+
+interface BackendSosAlert {
+  id: number | string;
+  notified_contacts: number;
+}
+
+/**
+ * Map backend contact to frontend format
+ */
+const mapContact = (contact: BackendTrustedContact): TrustedContact => ({
+  id: String(contact.id),
+  name: contact.name,
+  phone: contact.phone,
+  email: contact.email ?? undefined,
+});
+
+/**
+ * Emergency service implementation
+ */
+export const emergencyService: EmergencyService = {
+  /**
+   * List the user's trusted contacts
+   */
+  async getContacts(): Promise<TrustedContact[]> {
+    const response = await apiClient.get<{data: BackendTrustedContact[]}>(
+      EMERGENCY_ENDPOINTS.CONTACTS,
+    );
+    return (response.data.data || []).map(mapContact);
+  },
+
+  /**
+   * Add a trusted contact
+   */
+  async addContact(data: CreateTrustedContactData): Promise<TrustedContact> {
+    const response = await apiClient.post<{data: BackendTrustedContact}>(
+      EMERGENCY_ENDPOINTS.CONTACTS,
+      {
+        name: data.name,
+        phone: data.phone,
+        email: data.email,
+      },
+    );
+    return mapContact(response.data.data);
+  },
+
+  /**
+   * Remove a trusted contact
+   */
+  async removeContact(id: string): Promise<void> {
+    await apiClient.delete(`${EMERGENCY_ENDPOINTS.CONTACTS}/${id}`);
+  },
+
+  /**
+   * Send an SOS alert to every trusted contact
+   */
+  async sendSos(alert: SosAlert): Promise<SosAlertConfirmation> {
+    try {
+      const response = await apiClient.post<{data: BackendSosAlert}>(EMERGENCY_ENDPOINTS.SOS, {
+        latitude: alert.location.latitude,
+        longitude: alert.location.longitude,
+        destination: alert.destination
+          ? {
+              latitude: alert.destination.latitude,
+              longitude: alert.destination.longitude,
+            }
+          : null,
+        timestamp: alert.timestamp,
+        reason: alert.reason ?? 'sos',
+      });
+
+      return {
+        alertId: String(response.data.data.id),
+        notifiedContacts: response.data.data.notified_contacts,
+      };
+    } catch (error) {
+      console.error('[EmergencyService] Error sending SOS:', error);
+      throw error;
+    }
+  },
+};
+
+export default emergencyService;
@@ -1,25 +1,255 @@
 /**
  * Heatmap Service
  * API service for heatmap data
+ * Requirements: 9.1, 9.2, 9.6
  */
 
+import {apiClient} from '../../shared/services/api';
+import {HeatmapRequest, HeatmapResponse} from '../../types/api';
 import {HeatmapPoint, MapBounds, HeatmapFilters} from '../../types/models';
+import {
+  MapTile,
+  getTileKey,
+  getTileZoomForBounds,
+  getTilesForBounds,
+  tileToBounds,
+} from '../../utils/mapTiles';
 
 export interface HeatmapService {
   getHeatmapData(bounds: MapBounds, filters?: HeatmapFilters): Promise<HeatmapPoint[]>;
+  clearCache(): void;
 }
 
+/**
+ * Heatmap API endpoints
+ */
+const HEATMAP_ENDPOINTS = {
+  HEATMAP: '/heatmap',
+} as const;
+
+/**
+ * Cached tiles older than this (based on lastUpdated) are fetched again.
+ * Matches the backend heatmap cache TTL.
+ */
+export const HEATMAP_TILE_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Maximum number of tiles kept in memory
+ */
+export const HEATMAP_MAX_CACHED_TILES = 200;
+
+/**
+ * Period filter to backend "days" parameter
+ */
+const PERIOD_DAYS: Record<NonNullable<HeatmapFilters['period']>, number> = {
+  last_24h: 1,
+  last_7d: 7,
+  last_30d: 30,
+};
+
+/**
+ * Backend API response types
+ */
+interface BackendHeatmapPoint {
+  latitude: number;
+  longitude: number;
+  count: number;
+  intensity: number;
+  avg_confidence: number;
+}
+
+interface BackendHeatmapData {
+  points: BackendHeatmapPoint[];
+  total_occurrences: number;
+  grid_size: number;
+  last_updated?: string;
+}
+
+/**
+ * Cached heatmap tile
+ */
+interface CachedTile extends HeatmapResponse {
+  key: string;
+}
+
+const tileCache = new Map<string, CachedTile>();
+const pendingTiles = new Map<string, Promise<CachedTile>>();
+
+/**
+ * Build a stable key for a filter set (crime type order doesn't matter)
+ */
+export const getFilterKey = (filters?: HeatmapFilters | null): string => {
+  const crimeTypes = [...(filters?.crimeTypes ?? [])].sort().join(',');
+  return `${crimeTypes || 'all'}|${filters?.period ?? 'default'}`;
+};
+
+/**
+ * Check whether a cached response is older than the TTL
+ */
+export const isHeatmapResponseStale = (
+  response: Pick<HeatmapResponse, 'lastUpdated'>,
+  now: number = Date.now(),
+): boolean => {
+  const updatedAt = Date.parse(response.lastUpdated);
+  return Number.isNaN(updatedAt) || now - updatedAt > HEATMAP_TILE_TTL;
+};
+
+/**
+ * Merge points that fall on the same grid cell, summing their weights.
+ * Cells crossing tile edges and per-crime-type requests both produce duplicates.
+ */
+export const mergeHeatmapPoints = (points: HeatmapPoint[]): HeatmapPoint[] => {
+  const merged = new Map<string, HeatmapPoint>();
+  points.forEach(point => {
+    const key = `${point.latitude},${point.longitude}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.weight += point.weight;
+    } else {
+      merged.set(key, {...point});
+    }
+  });
+  return Array.from(merged.values());
+};
+
+/**
+ * Map backend heatmap payload to frontend format.
+ * Uses the raw count as weight so tiles stay comparable with each other.
+ */
+const mapHeatmapResponse = (data: BackendHeatmapData): HeatmapResponse => ({
+  points: (data.points || []).map(point => ({
+    latitude: point.latitude,
+    longitude: point.longitude,
+    weight: point.count ?? point.intensity,
+  })),
+  lastUpdated: data.last_updated || new Date().toISOString(),
+});
+
+/**
+ * Request heatmap points for a single tile and crime type
+ */
+const requestHeatmap = async (
+  request: HeatmapRequest,
+  zoom: number,
+  crimeTypeId?: string,
+): Promise<HeatmapResponse> => {
+  const {bounds, filters} = request;
+  const period = filters?.period;
+
+  const response = await apiClient.get<{data: BackendHeatmapData}>(HEATMAP_ENDPOINTS.HEATMAP, {
+    params: {
+      min_lat: bounds.southWest.latitude,
+      min_lng: bounds.southWest.longitude,
+      max_lat: bounds.northEast.latitude,
+      max_lng: bounds.northEast.longitude,
+      zoom,
+      crime_type_id: crimeTypeId,
+      days: period ? PERIOD_DAYS[period] : undefined,
+    },
+  });
+
+  return mapHeatmapResponse(response.data.data);
+};
+
+/**
+ * Fetch a tile from the backend.
+ * The endpoint accepts a single crime type, so multi-type filters are fetched per type.
+ */
+const fetchTile = async (
+  tile: MapTile,
+  key: string,
+  filters?: HeatmapFilters,
+): Promise<CachedTile> => {
+  const request: HeatmapRequest = {bounds: tileToBounds(tile), filters};
+  const crimeTypes = filters?.crimeTypes ?? [];
+
+  const responses = crimeTypes.length
+    ? await Promise.all(crimeTypes.map(id => requestHeatmap(request, tile.zoom, id)))
+    : [await requestHeatmap(request, tile.zoom)];
+
+  return {
+    key,
+    points: mergeHeatmapPoints(responses.flatMap(response => response.points)),
+    // The oldest response decides when the tile needs refreshing
+    lastUpdated: responses
+      .map(response => response.lastUpdated)
+      .sort((a, b) => Date.parse(a) - Date.parse(b))[0],
+  };
+};
+
+/**
+ * Store a tile, evicting the least recently stored ones when over capacity
+ */
+const storeTile = (entry: CachedTile): void => {
+  tileCache.delete(entry.key);
+  tileCache.set(entry.key, entry);
+
+  while (tileCache.size > HEATMAP_MAX_CACHED_TILES) {
+    const oldestKey = tileCache.keys().next().value as string;
+    tileCache.delete(oldestKey);
+  }
+};
+
+/**
+ * Resolve a tile from cache, an in-flight request, or the network
+ */
+const loadTile = (tile: MapTile, filters?: HeatmapFilters): Promise<CachedTile> => {
+  const key = `${getTileKey(tile)}|${getFilterKey(filters)}`;
+
+  const cached = tileCache.get(key);
+  if (cached && !isHeatmapResponseStale(cached)) {
+    return Promise.resolve(cached);
+  }
+
+  const pending = pendingTiles.get(key);
+  if (pending) {
+    return pending;
+  }
+
+  const promise = fetchTile(tile, key, filters)
+    .then(entry => {
+      storeTile(entry);
+      return entry;
+    })
+    .catch(error => {
+      // Serve stale data rather than nothing when the refresh fails
+      if (cached) {
+        return cached;
+      }
+      throw error;
+    })
+    .finally(() => {
+      pendingTiles.delete(key);
+    });
+
+  pendingTiles.set(key, promise);
+  return promise;
+};
+
 /**
  * Heatmap service implementation
  */
 export const heatmapService: HeatmapService = {
   /**
    * Get heatmap data for the given bounds
+   * Requirement 9.1: Request heatmap data for the visible region
+   * Requirement 9.2: Filter by crime type and period
+   * Requirement 9.6: Reuse cached tiles when panning back to an area
+   */
+  async getHeatmapData(bounds: MapBounds, filters?: HeatmapFilters): Promise<HeatmapPoint[]> {
+    const zoom = getTileZoomForBounds(bounds);
+    const tiles = getTilesForBounds(bounds, zoom);
+
+    const entries = await Promise.all(tiles.map(tile => loadTile(tile, filters)));
+
+    return mergeHeatmapPoints(entries.flatMap(entry => entry.points));
+  },
+
+  /**
+   * Drop all cached tiles (e.g. after creating an occurrence)
    */
-  async getHeatmapData(bounds: MapBounds, _filters?: HeatmapFilters): Promise<HeatmapPoint[]> {
-    // TODO: Implement actual API call
-    // For now, return empty array
-    console.log('[HeatmapService] getHeatmapData called with bounds:', bounds);
-    return [];
+  clearCache(): void {
+    tileCache.clear();
+    pendingTiles.clear();
   },
 };
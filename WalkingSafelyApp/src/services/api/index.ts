@@ -10,3 +10,21 @@ export type {OccurrencesService} from './occurrences';
 
 export {heatmapService} from './heatmap';
 export type {HeatmapService} from './heatmap';
+
+export {emergencyService} from './emergency';
+export type {EmergencyService, SosAlertConfirmation} from './emergency';
+
+export {tripSharingService} from './tripSharing';
+export type {TripSharingService} from './tripSharing';
+
+export {moderationService} from './moderation';
+export type {ModerationService, ModerationQueue} from './moderation';
+
+export {statisticsService} from './statistics';
+export type {StatisticsService} from './statistics';
+
+export {alertPreferencesService} from './alertPreferences';
+export type {AlertPreferencesService} from './alertPreferences';
+
+export {alertsService} from './alerts';
+export type {AlertsService} from './alerts';
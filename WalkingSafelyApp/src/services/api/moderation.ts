@@ -0,0 +1,169 @@
+/**
+ * Moderation Service
+ * API service for the moderator console: the queue of flagged occurrences and
+ * the decisions taken on them
+ */
+
+import {apiClient} from '../../shared/services/api';
+import {
+  ModerationItem,
+  ModerationReason,
+  ModerationStatistics,
+  ModerationStatus,
+  Occurrence,
+} from '../../types/models';
+import {mapOccurrence} from './occurrences';
+
+export interface ModerationService {
+  getQueue(limit?: number): Promise<ModerationQueue>;
+  approve(id: string, notes?: string): Promise<void>;
+  hide(id: string, notes?: string): Promise<void>;
+  recategorize(id: string, crimeTypeId: string, notes?: string): Promise<Occurrence>;
+  getDuplicates(id: string): Promise<Occurrence[]>;
+  merge(id: string, targetOccurrenceId: string, notes?: string): Promise<void>;
+}
+
+/**
+ * Pending items with the queue counters
+ */
+export interface ModerationQueue {
+  items: ModerationItem[];
+  statistics: ModerationStatistics;
+}
+
+/**
+ * Moderation API endpoints
+ */
+const MODERATION_ENDPOINTS = {
+  QUEUE: '/admin/moderation',
+  item: (id: string, action: string) => `/admin/moderation/${id}/${action}`,
+} as const;
+
+/**
+ * Backend API response types
+ */
+interface BackendModerationItem {
+  id: number | string;
+  occurrence_id: number | string;
+  occurrence?: unknown;
+  reason: ModerationReason;
+  status: ModerationStatus;
+  created_at: string;
+}
+
+interface BackendModerationStatistics {
+  pending_count?: number;
+  approved_today?: number;
+  rejected_today?: number;
+}
+
+/**
+ * Map backend moderation item to frontend format
+ */
+const mapItem = (item: BackendModerationItem): ModerationItem => ({
+  id: String(item.id),
+  occurrence: mapOccurrence(item.occurrence ?? {id: item.occurrence_id}),
+  reason: item.reason,
+  status: item.status,
+  createdAt: item.created_at,
+});
+
+/**
+ * Moderation service implementation
+ */
+export const moderationService: ModerationService = {
+  /**
+   * Pending items, highest priority first
+   */
+  async getQueue(limit?: number): Promise<ModerationQueue> {
+    try {
+      const response = await apiClient.get(MODERATION_ENDPOINTS.QUEUE, {
+        params: limit ? {limit} : undefined,
+      });
+      const data: BackendModerationItem[] = response.data?.data ?? [];
+      const statistics: BackendModerationStatistics = response.data?.statistics ?? {};
+      return {
+        items: data.map(mapItem),
+        statistics: {
+          pending: statistics.pending_count ?? data.length,
+          approvedToday: statistics.approved_today ?? 0,
+          rejectedToday: statistics.rejected_today ?? 0,
+        },
+      };
+    } catch (error) {
+      console.error('[ModerationService] Error loading queue:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Keep the occurrence on the map as reported
+   */
+  async approve(id: string, notes?: string): Promise<void> {
+    try {
+      await apiClient.post(MODERATION_ENDPOINTS.item(id, 'approve'), {notes});
+    } catch (error) {
+      console.error('[ModerationService] Error approving item:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Take the occurrence off the map. The server records it as rejected.
+   */
+  async hide(id: string, notes?: string): Promise<void> {
+    try {
+      await apiClient.post(MODERATION_ENDPOINTS.item(id, 'reject'), {notes});
+    } catch (error) {
+      console.error('[ModerationService] Error hiding item:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Change the crime type of the occurrence, returning it as updated
+   */
+  async recategorize(id: string, crimeTypeId: string, notes?: string): Promise<Occurrence> {
+    try {
+      const response = await apiClient.post(MODERATION_ENDPOINTS.item(id, 'recategorize'), {
+        crime_type_id: Number(crimeTypeId),
+        notes,
+      });
+      return mapItem(response.data?.data ?? response.data).occurrence;
+    } catch (error) {
+      console.error('[ModerationService] Error recategorizing item:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Active reports near the same time and place, candidates for a merge
+   */
+  async getDuplicates(id: string): Promise<Occurrence[]> {
+    try {
+      const response = await apiClient.get(MODERATION_ENDPOINTS.item(id, 'duplicates'));
+      const data: unknown[] = response.data?.data ?? [];
+      return data.map(mapOccurrence);
+    } catch (error) {
+      console.error('[ModerationService] Error loading duplicates:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Merge the occurrence into the report it duplicates
+   */
+  async merge(id: string, targetOccurrenceId: string, notes?: string): Promise<void> {
+    try {
+      await apiClient.post(MODERATION_ENDPOINTS.item(id, 'merge'), {
+        target_occurrence_id: Number(targetOccurrenceId),
+        notes,
+      });
+    } catch (error) {
+      console.error('[ModerationService] Error merging item:', error);
+      throw error;
+    }
+  },
+};
+
+export default moderationService;
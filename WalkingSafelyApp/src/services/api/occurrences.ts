@@ -4,20 +4,97 @@
  */
 
 import {apiClient} from '../../shared/services/api';
-import {Occurrence, CreateOccurrenceData, MapBounds} from '../../types/models';
+import {ATTACHMENT_UPLOAD_TIMEOUT} from '../../utils/constants';
+import {filterOccurrences, getFilterDateRange} from '../../utils/occurrenceFilters';
+import {
+  Occurrence,
+  CreateOccurrenceData,
+  LocalAttachment,
+  MapBounds,
+  OccurrenceAttachment,
+  OccurrenceFilters,
+  OccurrenceVote,
+  OccurrenceVoteResult,
+  UpdateOccurrenceData,
+} from '../../types/models';
+import {ListOccurrencesRequest, PaginatedResponse} from '../../types/api';
+
+/**
+ * Page size for occurrence lists (the backend maximum)
+ */
+export const OCCURRENCES_PER_PAGE = 100;
+
+/**
+ * Page size for the user's own report history
+ */
+export const MY_REPORTS_PER_PAGE = 20;
+
+/**
+ * Pages followed for a single area before giving up on the rest
+ */
+export const MAX_OCCURRENCE_PAGES = 10;
+
+/**
+ * Largest search radius the backend accepts
+ */
+const MAX_NEARBY_RADIUS = 50000; // 50km
+
+/**
+ * Smallest search radius the backend accepts
+ */
+const MIN_NEARBY_RADIUS = 100; // 100m
+
+/**
+ * Options for uploading an attachment
+ */
+export interface UploadAttachmentOptions {
+  /** Called with the fraction of the file sent so far, 0 to 1 */
+  onProgress?: (fraction: number) => void;
+  /** Aborts the upload */
+  signal?: AbortSignal;
+}
 
 export interface OccurrencesService {
   getOccurrences(bounds: MapBounds): Promise<Occurrence[]>;
-  getNearby(params: {bounds: MapBounds}): Promise<Occurrence[]>;
+  list(request: ListOccurrencesRequest): Promise<PaginatedResponse<Occurrence>>;
+  getNearby(params: {bounds: MapBounds; filters?: OccurrenceFilters}): Promise<Occurrence[]>;
   create(data: CreateOccurrenceData): Promise<{occurrence: Occurrence}>;
   getOccurrenceById(id: string): Promise<Occurrence>;
   delete(id: string): Promise<void>;
+  listMine(page?: number, perPage?: number): Promise<PaginatedResponse<Occurrence>>;
+  update(id: string, data: UpdateOccurrenceData): Promise<Occurrence>;
+  withdraw(id: string): Promise<Occurrence>;
+  vote(id: string, vote: OccurrenceVote): Promise<OccurrenceVoteResult>;
+  uploadAttachment(
+    occurrenceId: string,
+    attachment: LocalAttachment,
+    options?: UploadAttachmentOptions,
+  ): Promise<OccurrenceAttachment>;
 }
 
+/**
+ * Map backend attachment to frontend format
+ */
+const mapAttachment = (attachment: {
+  id: number | string;
+  type: OccurrenceAttachment['kind'];
+  url: string;
+  mime_type: string;
+  size?: number;
+  duration_ms?: number;
+}): OccurrenceAttachment => ({
+  id: String(attachment.id),
+  kind: attachment.type,
+  url: attachment.url,
+  mimeType: attachment.mime_type,
+  size: attachment.size,
+  durationMs: attachment.duration_ms,
+});
+
 /**
  * Map backend occurrence to frontend format
  */
-const mapOccurrence = (occ: any): Occurrence => ({
+export const mapOccurrence = (occ: any): Occurrence => ({
   id: String(occ.id),
   timestamp: occ.timestamp || occ.created_at,
   location: {
@@ -37,8 +114,41 @@ const mapOccurrence = (occ: any): Occurrence => ({
   confidenceScore: occ.confidence_score || 1,
   source: occ.source || 'collaborative',
   createdBy: occ.created_by || null,
+  isAnonymous: Boolean(occ.is_anonymous),
+  description: occ.description || occ.metadata?.description || undefined,
+  confirmations: occ.confirmations_count ?? 0,
+  disputes: occ.disputes_count ?? 0,
+  userVote: occ.user_vote ?? null,
+  attachments: Array.isArray(occ.attachments) ? occ.attachments.map(mapAttachment) : [],
+  status: occ.status || 'active',
+  moderationStatus: occ.moderation_status ?? null,
+  createdAt: occ.created_at || undefined,
+  editableUntil: occ.editable_until || undefined,
 });
 
+/**
+ * Center and radius of the circle covering the bounds
+ */
+const toNearbyParams = (bounds: MapBounds) => {
+  const latitude = (bounds.northEast.latitude + bounds.southWest.latitude) / 2;
+  const longitude = (bounds.northEast.longitude + bounds.southWest.longitude) / 2;
+
+  // 1 degree latitude ≈ 111km, 1 degree longitude varies by latitude
+  const latMeters = Math.abs(bounds.northEast.latitude - bounds.southWest.latitude) * 111000;
+  const lngMeters =
+    Math.abs(bounds.northEast.longitude - bounds.southWest.longitude) *
+    111000 *
+    Math.cos((latitude * Math.PI) / 180);
+  // Half the diagonal, so the corners of the bounds are inside the circle
+  const radius = Math.hypot(latMeters, lngMeters) / 2;
+
+  return {
+    latitude,
+    longitude,
+    radius: Math.min(Math.max(radius, MIN_NEARBY_RADIUS), MAX_NEARBY_RADIUS),
+  };
+};
+
 /**
  * Occurrences service implementation
  */
@@ -51,47 +161,82 @@ export const occurrencesService: OccurrencesService = {
   },
 
   /**
-   * Get nearby occurrences within bounds
+   * Get one page of occurrences.
+   * The endpoint takes a single crime type and severity, so those are only sent
+   * when one is selected and multiple selections are filtered here.
    */
-  async getNearby(params: {bounds: MapBounds}): Promise<Occurrence[]> {
+  async list(request: ListOccurrencesRequest): Promise<PaginatedResponse<Occurrence>> {
     try {
-      const {bounds} = params;
-      
-      // Calculate center point and radius from bounds
-      const centerLat = (bounds.northEast.latitude + bounds.southWest.latitude) / 2;
-      const centerLng = (bounds.northEast.longitude + bounds.southWest.longitude) / 2;
-      
-      // Calculate radius in meters (approximate)
-      const latDiff = Math.abs(bounds.northEast.latitude - bounds.southWest.latitude);
-      const lngDiff = Math.abs(bounds.northEast.longitude - bounds.southWest.longitude);
-      // 1 degree latitude ≈ 111km, 1 degree longitude varies by latitude
-      const latMeters = latDiff * 111000;
-      const lngMeters = lngDiff * 111000 * Math.cos(centerLat * Math.PI / 180);
-      const radius = Math.max(latMeters, lngMeters) / 2;
-      
-      console.log('[OccurrencesService] Fetching occurrences at:', {centerLat, centerLng, radius});
-      
+      const {bounds, crimeTypes = [], severity = [], startDate, endDate} = request;
+      const page = request.page ?? 1;
+      const perPage = request.perPage ?? OCCURRENCES_PER_PAGE;
+
       const response = await apiClient.get('/occurrences', {
         params: {
-          latitude: centerLat,
-          longitude: centerLng,
-          radius: Math.min(radius, 50000), // Max 50km as per API
-          per_page: 100, // Get more results
+          ...(bounds ? toNearbyParams(bounds) : {}),
+          page,
+          per_page: perPage,
+          crime_type_id: crimeTypes.length === 1 ? crimeTypes[0] : undefined,
+          severity: severity.length === 1 ? severity[0] : undefined,
+          start_date: startDate,
+          end_date: endDate,
         },
       });
-      
+
       const data = response.data?.data || response.data || [];
-      const occurrences = Array.isArray(data) ? data : (data.occurrences || []);
-      
-      console.log('[OccurrencesService] Fetched occurrences:', occurrences.length);
-      
-      return occurrences.map(mapOccurrence);
+      const occurrences: Occurrence[] = (Array.isArray(data) ? data : data.occurrences || []).map(
+        mapOccurrence,
+      );
+      const meta = response.data?.meta;
+
+      return {
+        // The time window is applied by the server through the date range
+        data: filterOccurrences(occurrences, {crimeTypes, severity}),
+        meta: {
+          currentPage: meta?.current_page ?? page,
+          // Without pagination metadata there is nothing past this page
+          lastPage: meta?.last_page ?? page,
+          perPage: meta?.per_page ?? perPage,
+          total: meta?.total ?? occurrences.length,
+        },
+      };
     } catch (error) {
-      console.error('[OccurrencesService] Error fetching occurrences:', error);
-      return [];
+      console.error('[OccurrencesService] Error listing occurrences:', error);
+      throw error;
     }
   },
 
+  /**
+   * Get every occurrence within bounds, following the pages up to MAX_OCCURRENCE_PAGES
+   */
+  async getNearby(params: {bounds: MapBounds; filters?: OccurrenceFilters}): Promise<Occurrence[]> {
+    const {bounds, filters = {}} = params;
+    const dateRange = getFilterDateRange(filters.period);
+    const occurrences: Occurrence[] = [];
+
+    for (let page = 1; page <= MAX_OCCURRENCE_PAGES; page++) {
+      const response = await this.list({
+        bounds,
+        crimeTypes: filters.crimeTypes,
+        severity: filters.severity,
+        startDate: dateRange?.startDate,
+        endDate: dateRange?.endDate,
+        page,
+      });
+      occurrences.push(...response.data);
+
+      if (response.meta.currentPage >= response.meta.lastPage) {
+        break;
+      }
+      if (page === MAX_OCCURRENCE_PAGES) {
+        console.warn('[OccurrencesService] Stopped after', page, 'pages of', response.meta.total);
+      }
+    }
+
+    console.log('[OccurrencesService] Fetched occurrences:', occurrences.length);
+    return occurrences;
+  },
+
   /**
    * Create a new occurrence
    */
@@ -107,6 +252,7 @@ export const occurrencesService: OccurrencesService = {
           longitude: data.location.longitude,
         },
         metadata: data.description ? [{ key: 'description', value: data.description }] : [],
+        is_anonymous: data.anonymous ?? false,
       });
       
       const occData = response.data?.data || response.data;
@@ -144,4 +290,121 @@ export const occurrencesService: OccurrencesService = {
       throw error;
     }
   },
+
+  /**
+   * Get one page of the reports sent by the current user, newest first.
+   * Includes anonymous and withdrawn reports.
+   */
+  async listMine(page = 1, perPage = MY_REPORTS_PER_PAGE): Promise<PaginatedResponse<Occurrence>> {
+    try {
+      const response = await apiClient.get('/occurrences/mine', {
+        params: {page, per_page: perPage},
+      });
+
+      const data = response.data?.data || response.data || [];
+      const occurrences: Occurrence[] = (Array.isArray(data) ? data : []).map(mapOccurrence);
+      const meta = response.data?.meta;
+
+      return {
+        data: occurrences,
+        meta: {
+          currentPage: meta?.current_page ?? page,
+          lastPage: meta?.last_page ?? page,
+          perPage: meta?.per_page ?? perPage,
+          total: meta?.total ?? occurrences.length,
+        },
+      };
+    } catch (error) {
+      console.error('[OccurrencesService] Error listing my reports:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Change the type, severity or description of an own report
+   */
+  async update(id: string, data: UpdateOccurrenceData): Promise<Occurrence> {
+    try {
+      const response = await apiClient.patch(`/occurrences/${id}`, {
+        crime_type_id: data.crimeTypeId,
+        severity: data.severity,
+        metadata: data.description !== undefined ? {description: data.description} : undefined,
+      });
+      return mapOccurrence(response.data?.data || response.data);
+    } catch (error) {
+      console.error('[OccurrencesService] Error updating occurrence:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Take an own report off the map, keeping it in the history
+   */
+  async withdraw(id: string): Promise<Occurrence> {
+    try {
+      const response = await apiClient.post(`/occurrences/${id}/withdraw`);
+      return mapOccurrence(response.data?.data || response.data);
+    } catch (error) {
+      console.error('[OccurrencesService] Error withdrawing occurrence:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Confirm or dispute an occurrence, one vote per user.
+   * The server recalculates the confidence score from the votes.
+   */
+  async vote(id: string, vote: OccurrenceVote): Promise<OccurrenceVoteResult> {
+    try {
+      const response = await apiClient.post(`/occurrences/${id}/votes`, {vote});
+      const data = response.data?.data || response.data;
+      return {
+        confidenceScore: data.confidence_score,
+        confirmations: data.confirmations_count ?? 0,
+        disputes: data.disputes_count ?? 0,
+        userVote: data.user_vote ?? vote,
+      };
+    } catch (error) {
+      console.error('[OccurrencesService] Error voting on occurrence:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Upload a photo or voice note as multipart form data
+   */
+  async uploadAttachment(
+    occurrenceId: string,
+    attachment: LocalAttachment,
+    options: UploadAttachmentOptions = {},
+  ): Promise<OccurrenceAttachment> {
+    const form = new FormData();
+    form.append('type', attachment.kind);
+    // React Native reads the file from the uri when sending the form
+    form.append('file', {
+      uri: attachment.uri,
+      name: attachment.fileName,
+      type: attachment.mimeType,
+    } as unknown as Blob);
+    if (attachment.durationMs !== undefined) {
+      form.append('duration_ms', String(attachment.durationMs));
+    }
+
+    try {
+      const response = await apiClient.post(`/occurrences/${occurrenceId}/attachments`, form, {
+        headers: {'Content-Type': 'multipart/form-data'},
+        timeout: ATTACHMENT_UPLOAD_TIMEOUT,
+        signal: options.signal,
+        onUploadProgress: event => {
+          if (event.total) {
+            options.onProgress?.(Math.min(1, event.loaded / event.total));
+          }
+        },
+      });
+      return mapAttachment(response.data?.data || response.data);
+    } catch (error) {
+      console.error('[OccurrencesService] Error uploading attachment:', error);
+      throw error;
+    }
+  },
 };
@@ -88,6 +88,117 @@ interface BackendRouteResponse {
   session_id?: string;
 }
 
+interface BackendAlternativeRoute extends BackendRouteData {
+  occurrences?: BackendOccurrence[];
+}
+
+/**
+ * Map a backend route with its risk analysis and occurrences to the app format
+ */
+const parseRouteData = (
+  data: BackendRouteData,
+  backendOccurrences: BackendOccurrence[],
+): RouteResponse => {
+  const {route, risk_analysis, warning} = data;
+
+  console.log('[RoutesService] Route polyline length:', route.polyline?.length || 0);
+  console.log('[RoutesService] Occurrences count:', backendOccurrences.length);
+
+  // Map occurrences to frontend format
+  const occurrences = backendOccurrences.map((occ: BackendOccurrence) => ({
+    id: String(occ.id),
+    location: {
+      latitude: occ.location.latitude,
+      longitude: occ.location.longitude,
+    },
+    crimeType: occ.crime_type?.name || 'Unknown',
+    crimeTypeId: occ.crime_type ? String(occ.crime_type.id) : undefined,
+    severity: occ.severity?.value || 'medium',
+    timestamp: occ.timestamp,
+  }));
+
+  // Use instructions from API if available, otherwise create basic ones
+  let instructions: RouteInstruction[] = [];
+  
+  if (route.instructions && route.instructions.length > 0) {
+    console.log('[RoutesService] Using instructions from API:', route.instructions.length);
+    instructions = route.instructions.map((inst: {
+      maneuver: string;
+      text: string;
+      distance: number;
+      coordinates: { latitude: number; longitude: number };
+    }) => ({
+      text: inst.text,
+      distance: inst.distance,
+      duration: 0,
+      maneuver: inst.maneuver,
+      coordinates: {
+        latitude: inst.coordinates.latitude,
+        longitude: inst.coordinates.longitude,
+      },
+    }));
+  } else {
+    console.log('[RoutesService] Creating fallback instructions');
+    
+    instructions.push({
+      text: 'Iniciar navegação',
+      distance: 0,
+      duration: 0,
+      maneuver: 'depart',
+      coordinates: route.origin,
+    });
+    
+    if (route.waypoints && route.waypoints.length > 0) {
+      route.waypoints.forEach((waypoint: { latitude: number; longitude: number }) => {
+        instructions.push({
+          text: 'Continuar em frente',
+          distance: 0,
+          duration: 0,
+          maneuver: 'straight',
+          coordinates: waypoint,
+        });
+      });
+    }
+    
+    instructions.push({
+      text: 'Você chegou ao destino',
+      distance: route.distance,
+      duration: route.duration,
+      maneuver: 'arrive',
+      coordinates: route.destination,
+    });
+  }
+
+  return {
+    id: route.id || `route_${Date.now()}`,
+    polyline: route.polyline || '',
+    distance: route.distance || 0,
+    duration: route.duration || 0,
+    maxRiskIndex: risk_analysis?.max_risk_index || 0,
+    averageRiskIndex: risk_analysis?.average_risk_index || 0,
+    requiresWarning: warning?.requires_warning || false,
+    warningMessage: warning?.message || undefined,
+    instructions,
+    occurrences,
+  };
+};
+
+/**
+ * Map the requested stops to the backend payload, omitted when there are none
+ */
+const toBackendWaypoints = (
+  waypoints?: Coordinates[],
+): Array<{latitude: number; longitude: number}> | undefined =>
+  waypoints && waypoints.length > 0
+    ? waypoints.map(waypoint => ({latitude: waypoint.latitude, longitude: waypoint.longitude}))
+    : undefined;
+
+/**
+ * Keep the requested stops on the route so navigation can split it into legs
+ */
+const withWaypoints = (route: RouteResponse, waypoints?: Coordinates[]): RouteResponse =>
+  waypoints && waypoints.length > 0 ? {...route, waypoints} : route;
+
 /**
  * Routes service implementation
  */
@@ -111,6 +222,8 @@ export const routesService: RoutesService = {
           longitude: request.destination.longitude,
         },
         prefer_safe_route: request.preferSafeRoute ?? true, // Default to safest route (Req 7.2)
+        waypoints: toBackendWaypoints(request.waypoints),
+        departure_time: request.departureTime,
       },
     );
 
@@ -128,85 +241,10 @@ export const routesService: RoutesService = {
       throw new Error('No route returned from server');
     }
 
-    console.log('[RoutesService] Route polyline length:', route.polyline?.length || 0);
-    console.log('[RoutesService] Occurrences count:', backendOccurrences.length);
-
-    // Map occurrences to frontend format
-    const occurrences = backendOccurrences.map((occ: BackendOccurrence) => ({
-      id: String(occ.id),
-      location: {
-        latitude: occ.location.latitude,
-        longitude: occ.location.longitude,
-      },
-      crimeType: occ.crime_type?.name || 'Unknown',
-      severity: occ.severity?.value || 'medium',
-      timestamp: occ.timestamp,
-    }));
-
-    // Use instructions from API if available, otherwise create basic ones
-    let instructions: RouteInstruction[] = [];
-    
-    if (route.instructions && route.instructions.length > 0) {
-      console.log('[RoutesService] Using instructions from API:', route.instructions.length);
-      instructions = route.instructions.map((inst: {
-        maneuver: string;
-        text: string;
-        distance: number;
-        coordinates: { latitude: number; longitude: number };
-      }) => ({
-        text: inst.text,
-        distance: inst.distance,
-        duration: 0,
-        maneuver: inst.maneuver,
-        coordinates: {
-          latitude: inst.coordinates.latitude,
-          longitude: inst.coordinates.longitude,
-        },
-      }));
-    } else {
-      console.log('[RoutesService] Creating fallback instructions');
-      
-      instructions.push({
-        text: 'Iniciar navegação',
-        distance: 0,
-        duration: 0,
-        maneuver: 'depart',
-        coordinates: route.origin,
-      });
-      
-      if (route.waypoints && route.waypoints.length > 0) {
-        route.waypoints.forEach((waypoint: { latitude: number; longitude: number }) => {
-          instructions.push({
-            text: 'Continuar em frente',
-            distance: 0,
-            duration: 0,
-            maneuver: 'straight',
-            coordinates: waypoint,
-          });
-        });
-      }
-      
-      instructions.push({
-        text: 'Você chegou ao destino',
-        distance: route.distance,
-        duration: route.duration,
-        maneuver: 'arrive',
-        coordinates: route.destination,
-      });
-    }
-
-    const result: RouteResponse = {
-      id: route.id || `route_${Date.now()}`,
-      polyline: route.polyline || '',
-      distance: route.distance || 0,
-      duration: route.duration || 0,
-      maxRiskIndex: risk_analysis?.max_risk_index || 0,
-      averageRiskIndex: risk_analysis?.average_risk_index || 0,
-      requiresWarning: warning?.requires_warning || false,
-      warningMessage: warning?.message || undefined,
-      instructions,
-      occurrences,
-    };
+    const result = withWaypoints(
+      parseRouteData({route, risk_analysis, warning}, backendOccurrences),
+      request.waypoints,
+    );
 
     console.log('[RoutesService] Parsed route with occurrences:', JSON.stringify(result));
     return result;
@@ -238,7 +276,7 @@ export const routesService: RoutesService = {
    */
   async getAlternativeRoutes(request: RouteRequest): Promise<RouteResponse[]> {
     try {
-      const response = await apiClient.post<{data: {routes: RouteResponse[]}}>(
+      const response = await apiClient.post<{data: {routes: BackendAlternativeRoute[]}}>(
         ROUTES_ENDPOINTS.ALTERNATIVES,
         {
           origin: {
@@ -250,10 +288,17 @@ export const routesService: RoutesService = {
             longitude: request.destination.longitude,
           },
           prefer_safe_route: request.preferSafeRoute || false,
+          waypoints: toBackendWaypoints(request.waypoints),
+          departure_time: request.departureTime,
         },
       );
       const data = (response as any).data?.data || (response as any).data;
-      return data?.routes || [];
+      const routes: BackendAlternativeRoute[] = data?.routes || [];
+      return routes
+        .filter(item => item?.route)
+        .map(item =>
+          withWaypoints(parseRouteData(item, item.occurrences || []), request.waypoints),
+        );
     } catch (error) {
       console.log('[RoutesService] Alternative routes error (non-critical):', error);
       return [];
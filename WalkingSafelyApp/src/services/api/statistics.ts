@@ -0,0 +1,164 @@
+/**
+ * Statistics Service
+ * API service for neighbourhood crime statistics, built from the backend
+ * aggregate endpoints
+ */
+
+import {apiClient} from '../../shared/services/api';
+import {
+  AreaStatistics,
+  OccurrenceSeverity,
+  RegionPatterns,
+  RegionSummary,
+  StatisticsArea,
+  TrendDirection,
+} from '../../types/models';
+
+export interface StatisticsService {
+  getAreaStatistics(area: StatisticsArea, days: number): Promise<AreaStatistics>;
+  getRegions(days: number): Promise<RegionSummary[]>;
+  getRegionPatterns(regionId: string, days: number): Promise<RegionPatterns>;
+}
+
+/**
+ * Statistics API endpoints
+ */
+const STATISTICS_ENDPOINTS = {
+  SUMMARY: '/timeseries/summary',
+  HOURLY: '/timeseries/hourly',
+  WEEKDAY: '/timeseries/daily',
+  REGIONS: '/heatmap/regions',
+} as const;
+
+/**
+ * Backend API response types
+ */
+interface BackendAreaSummary {
+  by_type?: {
+    crime_type_id: number | string;
+    crime_type_name: string;
+    count: number;
+    percentage: number;
+  }[];
+  by_severity?: Partial<Record<OccurrenceSeverity, number>>;
+  total?: number;
+  week_over_week?: {
+    current_week: number;
+    previous_week: number;
+    percent_change: number;
+    trend: TrendDirection;
+  };
+}
+
+interface BackendRegion {
+  region_id: number | string;
+  region_name: string;
+  count: number;
+}
+
+interface BackendPattern {
+  pattern?: {count: number}[];
+  total?: number;
+}
+
+/**
+ * Query parameters selecting an area
+ */
+const getAreaParams = (area: StatisticsArea): Record<string, number> =>
+  area.type === 'region'
+    ? {region_id: Number(area.regionId)}
+    : {
+        latitude: area.center.latitude,
+        longitude: area.center.longitude,
+        radius: area.radius,
+      };
+
+/**
+ * Map backend area summary to frontend format
+ */
+const mapAreaStatistics = (data: BackendAreaSummary): AreaStatistics => ({
+  byType: (data.by_type ?? []).map(item => ({
+    crimeTypeId: String(item.crime_type_id),
+    crimeTypeName: item.crime_type_name,
+    count: item.count,
+    percentage: item.percentage,
+  })),
+  bySeverity: {
+    low: data.by_severity?.low ?? 0,
+    medium: data.by_severity?.medium ?? 0,
+    high: data.by_severity?.high ?? 0,
+    critical: data.by_severity?.critical ?? 0,
+  },
+  total: data.total ?? 0,
+  weekOverWeek: {
+    currentWeek: data.week_over_week?.current_week ?? 0,
+    previousWeek: data.week_over_week?.previous_week ?? 0,
+    percentChange: data.week_over_week?.percent_change ?? 0,
+    trend: data.week_over_week?.trend ?? 'stable',
+  },
+});
+
+/**
+ * Statistics service implementation
+ */
+export const statisticsService: StatisticsService = {
+  /**
+   * Occurrences by crime type, severity mix and week-over-week change of an area
+   */
+  async getAreaStatistics(area: StatisticsArea, days: number): Promise<AreaStatistics> {
+    try {
+      const response = await apiClient.get(STATISTICS_ENDPOINTS.SUMMARY, {
+        params: {...getAreaParams(area), days},
+      });
+      return mapAreaStatistics(response.data?.data ?? {});
+    } catch (error) {
+      console.error('[StatisticsService] Error loading area statistics:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Regions with occurrences in the period, busiest first
+   */
+  async getRegions(days: number): Promise<RegionSummary[]> {
+    try {
+      const response = await apiClient.get(STATISTICS_ENDPOINTS.REGIONS, {params: {days}});
+      const regions: BackendRegion[] = response.data?.data?.regions ?? [];
+      return regions
+        .map(region => ({
+          id: String(region.region_id),
+          name: region.region_name,
+          count: region.count,
+        }))
+        .sort((a, b) => b.count - a.count);
+    } catch (error) {
+      console.error('[StatisticsService] Error loading regions:', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Occurrence counts of a region by hour of day and weekday
+   */
+  async getRegionPatterns(regionId: string, days: number): Promise<RegionPatterns> {
+    try {
+      const params = {region_id: Number(regionId), days};
+      const [hourly, weekday] = await Promise.all([
+        apiClient.get(STATISTICS_ENDPOINTS.HOURLY, {params}),
+        apiClient.get(STATISTICS_ENDPOINTS.WEEKDAY, {params}),
+      ]);
+      const hourlyData: BackendPattern = hourly.data?.data ?? {};
+      const weekdayData: BackendPattern = weekday.data?.data ?? {};
+      return {
+        byHour: (hourlyData.pattern ?? []).map(item => item.count),
+        byWeekday: (weekdayData.pattern ?? []).map(item => item.count),
+        total: hourlyData.total ?? 0,
+      };
+    } catch (error) {
+      console.error('[StatisticsService] Error loading region patterns:', error);
+      throw error;
+    }
+  },
+};
+
+export default statisticsService;
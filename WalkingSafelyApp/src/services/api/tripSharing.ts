@@ -0,0 +1,97 @@
+/**
+ * Trip Sharing Service
+ * API service for live trip shares ("walk with me")
+ */
+
+import {apiClient} from '../../shared/services/api';
+import {Coordinates, TripShare, TripShareEndReason, TripShareUpdate} from '../../types/models';
+
+export interface TripSharingService {
+  start(sessionId: string, destination: Coordinates | null): Promise<TripShare>;
+  sendUpdate(shareId: string, update: TripShareUpdate): Promise<void>;
+  pause(shareId: string): Promise<void>;
+  resume(shareId: string): Promise<void>;
+  stop(shareId: string, reason: TripShareEndReason): Promise<void>;
+}
+
+/**
+ * Trip sharing API endpoints
+ */
+const TRIP_SHARING_ENDPOINTS = {
+  SHARES: '/trip-shares',
+  UPDATES: (id: string) => `/trip-shares/${id}/updates`,
+  PAUSE: (id: string) => `/trip-shares/${id}/pause`,
+  RESUME: (id: string) => `/trip-shares/${id}/resume`,
+  STOP: (id: string) => `/trip-shares/${id}/stop`,
+} as const;
+
+/**
+ * Backend API response types
+ */
+interface BackendTripShare {
+  id: number | string;
+  share_url: string;
+  expires_at?: string | null;
+}
+
+/**
+ * Trip sharing service implementation
+ */
+export const tripSharingService: TripSharingService = {
+  /**
+   * Open a share session for the active navigation session
+   */
+  async start(sessionId: string, destination: Coordinates | null): Promise<TripShare> {
+    const response = await apiClient.post<{data: BackendTripShare}>(TRIP_SHARING_ENDPOINTS.SHARES, {
+      navigation_session_id: sessionId,
+      destination: destination
+        ? {latitude: destination.latitude, longitude: destination.longitude}
+        : null,
+    });
+
+    const share = response.data.data;
+    return {
+      id: String(share.id),
+      shareUrl: share.share_url,
+      expiresAt: share.expires_at ?? undefined,
+    };
+  },
+
+  /**
+   * Stream position, ETA and route progress
+   */
+  async sendUpdate(shareId: string, update: TripShareUpdate): Promise<void> {
+    await apiClient.post(TRIP_SHARING_ENDPOINTS.UPDATES(shareId), {
+      latitude: update.position.latitude,
+      longitude: update.position.longitude,
+      remaining_duration: update.remainingDuration,
+      remaining_distance: update.remainingDistance,
+      progress: update.progress,
+      eta: update.eta,
+      timestamp: update.timestamp,
+    });
+  },
+
+  /**
+   * Stop streaming without closing the share
+   */
+  async pause(shareId: string): Promise<void> {
+    await apiClient.post(TRIP_SHARING_ENDPOINTS.PAUSE(shareId));
+  },
+
+  /**
+   * Resume streaming after a pause
+   */
+  async resume(shareId: string): Promise<void> {
+    await apiClient.post(TRIP_SHARING_ENDPOINTS.RESUME(shareId));
+  },
+
+  /**
+   * Close the share; the companion sees why it ended
+   */
+  async stop(shareId: string, reason: TripShareEndReason): Promise<void> {
+    await apiClient.post(TRIP_SHARING_ENDPOINTS.STOP(shareId), {reason});
+  },
+};
+
+export default tripSharingService;
@@ -0,0 +1,200 @@
+/**
+ * Attachment Capture Service
+ * Takes photos and records voice notes used as evidence on occurrence reports.
+ * Photo metadata is stripped here, before the photo is kept anywhere.
+ * Both are kept as files in the attachments folder until they are sent.
+ */
+
+import {PermissionsAndroid, Platform} from 'react-native';
+import {Asset, launchCamera, launchImageLibrary} from 'react-native-image-picker';
+import AudioRecorderPlayer from 'react-native-audio-recorder-player';
+import type {LocalAttachment} from '../types/models';
+import {attachmentFiles} from './attachmentFiles';
+import {MAX_VOICE_NOTE_DURATION} from '../utils/constants';
+import {stripImageMetadata} from '../utils/mediaMetadata';
+
+/**
+ * Photos are resized and re-encoded by the picker before being cleaned
+ */
+const PHOTO_MAX_SIZE = 1280;
+const PHOTO_QUALITY = 0.7;
+
+export type PhotoSource = 'camera' | 'library';
+
+const generateAttachmentId = (): string =>
+  `attachment_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * Convert a picked photo into an attachment file without its metadata
+ */
+export const toPhotoAttachment = async (asset: Asset): Promise<LocalAttachment> => {
+  const mimeType = asset.type ?? 'image/jpeg';
+  const base64 = asset.base64 ? stripImageMetadata(asset.base64, mimeType) : null;
+  if (!base64) {
+    throw new Error('occurrence.attachments.errors.unsupported');
+  }
+
+  const id = generateAttachmentId();
+  const fileName = `photo_${Date.now()}.${mimeType === 'image/png' ? 'png' : 'jpg'}`;
+  let uri: string;
+  try {
+    uri = await attachmentFiles.write(`${id}_${fileName}`, base64);
+  } catch (error) {
+    console.error('[AttachmentCapture] Failed to save photo:', error);
+    throw new Error('occurrence.attachments.errors.captureFailed');
+  }
+
+  return {
+    id,
+    kind: 'photo',
+    uri,
+    mimeType,
+    fileName,
+    // Three bytes for every four base64 characters
+    size: Math.floor((base64.length * 3) / 4),
+  };
+};
+
+class AttachmentCaptureService {
+  private recorder = new AudioRecorderPlayer();
+  private recordingStartedAt: number | null = null;
+  private playingUrl: string | null = null;
+
+  /**
+   * Take a photo or pick photos from the gallery.
+   * Resolves with an empty list when the user cancels.
+   */
+  async pickPhotos(source: PhotoSource, limit: number): Promise<LocalAttachment[]> {
+    const options = {
+      mediaType: 'photo' as const,
+      includeBase64: true,
+      includeExtra: false,
+      maxWidth: PHOTO_MAX_SIZE,
+      maxHeight: PHOTO_MAX_SIZE,
+      quality: PHOTO_QUALITY,
+    } as const;
+
+    const response =
+      source === 'camera'
+        ? await launchCamera({...options, saveToPhotos: false})
+        : await launchImageLibrary({...options, selectionLimit: limit});
+
+    if (response.didCancel) {
+      return [];
+    }
+    if (response.errorCode) {
+      console.warn('[AttachmentCapture] Picker failed:', response.errorCode, response.errorMessage);
+      throw new Error(
+        response.errorCode === 'permission'
+          ? 'occurrence.attachments.errors.permission'
+          : 'occurrence.attachments.errors.captureFailed',
+      );
+    }
+
+    return Promise.all((response.assets ?? []).slice(0, limit).map(toPhotoAttachment));
+  }
+
+  /**
+   * Start recording a voice note, stopped automatically after MAX_VOICE_NOTE_DURATION
+   */
+  async startVoiceNote(
+    onProgress: (elapsedMs: number) => void,
+    onLimit: () => void,
+  ): Promise<void> {
+    if (Platform.OS === 'android') {
+      const result = await PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.RECORD_AUDIO);
+      if (result !== PermissionsAndroid.RESULTS.GRANTED) {
+        throw new Error('occurrence.attachments.errors.permission');
+      }
+    }
+
+    try {
+      // Each voice note gets its own file, the recorder's default path is reused
+      const path = await attachmentFiles.getPath(`${generateAttachmentId()}.m4a`);
+      await this.recorder.startRecorder(Platform.OS === 'ios' ? `file://${path}` : path);
+      this.recordingStartedAt = Date.now();
+      this.recorder.addRecordBackListener(({currentPosition}) => {
+        onProgress(currentPosition);
+        if (currentPosition >= MAX_VOICE_NOTE_DURATION) {
+          onLimit();
+        }
+      });
+    } catch (error) {
+      console.error('[AttachmentCapture] Failed to start recording:', error);
+      throw new Error('occurrence.attachments.errors.captureFailed');
+    }
+  }
+
+  /**
+   * Stop recording and return the voice note.
+   * Recordings made by the app carry no location tags, so they are sent as recorded.
+   */
+  async stopVoiceNote(): Promise<LocalAttachment | null> {
+    if (this.recordingStartedAt === null) {
+      return null;
+    }
+    const durationMs = Math.min(Date.now() - this.recordingStartedAt, MAX_VOICE_NOTE_DURATION);
+    this.recordingStartedAt = null;
+
+    try {
+      const uri = await this.recorder.stopRecorder();
+      this.recorder.removeRecordBackListener();
+      return {
+        id: generateAttachmentId(),
+        kind: 'audio',
+        uri,
+        mimeType: Platform.OS === 'ios' ? 'audio/m4a' : 'audio/mp4',
+        fileName: `voice_note_${Date.now()}.m4a`,
+        durationMs,
+      };
+    } catch (error) {
+      console.error('[AttachmentCapture] Failed to stop recording:', error);
+      throw new Error('occurrence.attachments.errors.captureFailed');
+    }
+  }
+
+  /**
+   * Play a voice note, or stop it when it is already playing
+   */
+  async toggleVoiceNote(url: string, onFinish: () => void): Promise<boolean> {
+    const wasPlaying = this.playingUrl === url;
+    await this.stopPlayback();
+    if (wasPlaying) {
+      return false;
+    }
+
+    try {
+      await this.recorder.startPlayer(url);
+      this.playingUrl = url;
+      this.recorder.addPlayBackListener(({isFinished}) => {
+        if (isFinished) {
+          this.stopPlayback().then(onFinish, onFinish);
+        }
+      });
+      return true;
+    } catch (error) {
+      console.error('[AttachmentCapture] Failed to play voice note:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Stop the voice note being played
+   */
+  async stopPlayback(): Promise<void> {
+    if (this.playingUrl === null) {
+      return;
+    }
+    this.playingUrl = null;
+    this.recorder.removePlayBackListener();
+    try {
+      await this.recorder.stopPlayer();
+    } catch (error) {
+      console.warn('[AttachmentCapture] Failed to stop playback:', error);
+    }
+  }
+}
+
+export const attachmentCaptureService = new AttachmentCaptureService();
+
+export default attachmentCaptureService;
@@ -0,0 +1,59 @@
+/**
+ * Attachment Files
+ * Keeps the photos and voice notes of reports as files in the app's documents
+ * folder, so reports waiting in the outbox only store their paths
+ */
+
+import RNFS from 'react-native-fs';
+
+import type {LocalAttachment} from '../types/models';
+
+const ATTACHMENTS_DIR = `${RNFS.DocumentDirectoryPath}/attachments`;
+
+/**
+ * Filesystem path of a file uri, which may come with any number of slashes
+ */
+const toPath = (uri: string): string => uri.replace(/^file:\/*/, '/');
+
+/**
+ * Attachment file storage
+ */
+export const attachmentFiles = {
+  /**
+   * Path for a new attachment file, creating the folder when needed
+   */
+  async getPath(fileName: string): Promise<string> {
+    await RNFS.mkdir(ATTACHMENTS_DIR);
+    return `${ATTACHMENTS_DIR}/${fileName}`;
+  },
+
+  /**
+   * Write base64 encoded contents to a new attachment file and return its uri
+   */
+  async write(fileName: string, base64: string): Promise<string> {
+    const path = await this.getPath(fileName);
+    await RNFS.writeFile(path, base64, 'base64');
+    return `file://${path}`;
+  },
+
+  /**
+   * Delete the files of attachments no longer needed.
+   * Only files in the attachments folder are touched, missing ones are ignored.
+   */
+  async remove(attachments: LocalAttachment[]): Promise<void> {
+    await Promise.all(
+      attachments
+        .map(attachment => toPath(attachment.uri))
+        .filter(path => path.startsWith(`${ATTACHMENTS_DIR}/`))
+        .map(async path => {
+          try {
+            await RNFS.unlink(path);
+          } catch (error) {
+            console.warn('[AttachmentFiles] Failed to delete attachment file:', path, error);
+          }
+        }),
+    );
+  },
+};
+
+export default attachmentFiles;
@@ -0,0 +1,60 @@
+/**
+ * Local Notifications
+ * Notifications posted by the app itself, through the native
+ * RiskNotifications module (Android only)
+ */
+
+import {NativeModules, PermissionsAndroid, Platform} from 'react-native';
+
+interface RiskNotificationsModule {
+  show(id: number, title: string, body: string): Promise<boolean>;
+}
+
+const nativeModule: RiskNotificationsModule | undefined = NativeModules.RiskNotifications;
+
+/** Risk zone alerts replace each other instead of piling up */
+const RISK_ZONE_NOTIFICATION_ID = 1001;
+
+/**
+ * Local notification helpers
+ */
+export const localNotifications = {
+  /**
+   * Whether this device can show the app's notifications
+   */
+  isSupported: (): boolean => Platform.OS === 'android' && nativeModule !== undefined,
+
+  /**
+   * Ask to post notifications, needed from Android 13
+   */
+  requestPermission: async (): Promise<boolean> => {
+    if (Platform.OS !== 'android') {
+      return false;
+    }
+    if (Platform.Version < 33) {
+      return true;
+    }
+    const result = await PermissionsAndroid.request(
+      PermissionsAndroid.PERMISSIONS.POST_NOTIFICATIONS,
+    );
+    return result === PermissionsAndroid.RESULTS.GRANTED;
+  },
+
+  /**
+   * Show a risk zone alert. Resolves false when it couldn't be shown.
+   */
+  showRiskZoneAlert: async (title: string, body: string): Promise<boolean> => {
+    if (!nativeModule) {
+      console.warn('[LocalNotifications] Native module not available');
+      return false;
+    }
+    try {
+      return await nativeModule.show(RISK_ZONE_NOTIFICATION_ID, title, body);
+    } catch (error) {
+      console.error('[LocalNotifications] Failed to show notification:', error);
+      return false;
+    }
+  },
+};
+
+export default localNotifications;
@@ -0,0 +1,77 @@
+/**
+ * Navigation Cache
+ * Persists the active navigation session so it keeps working without network
+ * and can be resumed after the app is restarted
+ * Requirements: 6.2, 6.3, 15.1, 16.1
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {Coordinates, RouteResponse} from '../types/models';
+
+const NAVIGATION_SESSION_KEY = '@navigation_session';
+
+/**
+ * Sessions older than this are not offered for resuming
+ */
+export const NAVIGATION_CACHE_MAX_AGE = 6 * 60 * 60 * 1000; // 6 hours
+
+/**
+ * Everything needed to navigate a route offline
+ */
+export interface CachedNavigationSession {
+  sessionId: string;
+  /** Route with its instructions and occurrences */
+  route: RouteResponse;
+  /** Decoded route polyline */
+  routeCoordinates: Coordinates[];
+  destination: Coordinates | null;
+  routeTypePreference: 'fastest' | 'safest';
+  currentInstructionIndex: number;
+  /** Intermediate stops and the leg being walked, absent in older sessions */
+  stops?: Coordinates[];
+  currentLegIndex?: number;
+  savedAt: number;
+}
+
+/**
+ * Navigation session storage
+ */
+export const navigationCache = {
+  /**
+   * Store the active session
+   */
+  save: async (session: Omit<CachedNavigationSession, 'savedAt'>): Promise<void> => {
+    const data: CachedNavigationSession = {...session, savedAt: Date.now()};
+    await AsyncStorage.setItem(NAVIGATION_SESSION_KEY, JSON.stringify(data));
+  },
+
+  /**
+   * Load the stored session, ignoring it if it is too old or unreadable
+   */
+  load: async (): Promise<CachedNavigationSession | null> => {
+    try {
+      const data = await AsyncStorage.getItem(NAVIGATION_SESSION_KEY);
+      if (!data) {
+        return null;
+      }
+      const session = JSON.parse(data) as CachedNavigationSession;
+      if (!session.route || Date.now() - session.savedAt > NAVIGATION_CACHE_MAX_AGE) {
+        return null;
+      }
+      return session;
+    } catch (error) {
+      console.warn('[NavigationCache] Failed to load session:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Remove the stored session
+   */
+  clear: async (): Promise<void> => {
+    await AsyncStorage.removeItem(NAVIGATION_SESSION_KEY);
+  },
+};
+
+export default navigationCache;
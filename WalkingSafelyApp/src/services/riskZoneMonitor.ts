@@ -0,0 +1,69 @@
+/**
+ * Risk Zone Monitor
+ * Starts and stops the native RiskZoneMonitor service (Android only), which
+ * keeps getting the user's location with the app in the background or closed
+ * and runs the RiskZoneCheck task for each new position
+ */
+
+import {NativeModules, Platform} from 'react-native';
+import {localNotifications} from './localNotifications';
+
+interface RiskZoneMonitorModule {
+  start(): Promise<boolean>;
+  stop(): Promise<void>;
+}
+
+const nativeModule: RiskZoneMonitorModule | undefined = NativeModules.RiskZoneMonitor;
+
+/** Name of the headless task the service runs for each position */
+export const RISK_ZONE_TASK = 'RiskZoneCheck';
+
+/**
+ * Position the service hands to the task
+ */
+export interface RiskZoneTaskData {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Risk zone monitor helpers
+ */
+export const riskZoneMonitor = {
+  /**
+   * Whether this device can watch for risk zones and post their alerts
+   */
+  isSupported: (): boolean =>
+    Platform.OS === 'android' && nativeModule !== undefined && localNotifications.isSupported(),
+
+  /**
+   * Start watching. Resolves false when the service couldn't be started.
+   */
+  start: async (): Promise<boolean> => {
+    if (!nativeModule) {
+      return false;
+    }
+    try {
+      return await nativeModule.start();
+    } catch (error) {
+      console.error('[RiskZoneMonitor] Failed to start:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Stop watching, if it was
+   */
+  stop: async (): Promise<void> => {
+    if (!nativeModule) {
+      return;
+    }
+    try {
+      await nativeModule.stop();
+    } catch (error) {
+      console.error('[RiskZoneMonitor] Failed to stop:', error);
+    }
+  },
+};
+
+export default riskZoneMonitor;
@@ -5,6 +5,9 @@
  */
 
 import Tts from 'react-native-tts';
+import {isRiskAlertAllowed, useAlertPreferencesStore} from '../store/alertPreferencesStore';
+import {ROUTE_OCCURRENCE_PERIOD_DAYS} from '../utils/navigationConstants';
+import type {RiskSegmentSummary} from '../utils/riskSegments';
 
 class TTSService {
   private isInitialized = false;
@@ -199,13 +202,41 @@ class TTSService {
   /**
    * Speak risk alert
    * Requirement 15.3: Narrate risk alert when voice is active
+   * Stays silent when the user turned alert sound off, left the type out or
+   * is outside the alert schedule
    */
-  async speakRiskAlert(crimeType: string, distance: number): Promise<void> {
+  async speakRiskAlert(crimeType: string, distance: number, crimeTypeId?: string): Promise<void> {
+    const {preferences} = useAlertPreferencesStore.getState();
+    if (!preferences.soundEnabled || !isRiskAlertAllowed(preferences, crimeTypeId, new Date())) {
+      return;
+    }
+
     const distanceText = this.formatDistance(distance);
     const text = `Atenção! Área de risco de ${crimeType} a ${distanceText}`;
     await this.speak(text, true);
   }
 
+  /**
+   * Speak a summarized alert for a stretch with several risk points
+   * Follows the alert preferences like speakRiskAlert
+   */
+  async speakRiskSegmentAlert(segment: RiskSegmentSummary): Promise<void> {
+    const {preferences} = useAlertPreferencesStore.getState();
+    if (
+      !preferences.soundEnabled ||
+      !isRiskAlertAllowed(preferences, segment.crimeTypeId, new Date())
+    ) {
+      return;
+    }
+
+    const lengthText = this.formatDistance(segment.length);
+    const period = `nos últimos ${ROUTE_OCCURRENCE_PERIOD_DAYS} dias`;
+    const text = segment.singleType
+      ? `Atenção! Nos próximos ${lengthText}, ${segment.count} ocorrências de ${segment.crimeType} ${period}`
+      : `Atenção! Nos próximos ${lengthText}, ${segment.count} ocorrências ${period}, a maioria de ${segment.crimeType}`;
+    await this.speak(text, true);
+  }
+
   /**
    * Speak arrival
    */
@@ -214,6 +245,15 @@ class TTSService {
     await this.speak(text, true);
   }
 
+  /**
+   * Speak arrival at an intermediate stop
+   * @param stopNumber - Position of the stop on the route, starting at 1
+   */
+  async speakStopArrival(stopNumber: number): Promise<void> {
+    const text = `Você chegou à parada ${stopNumber}`;
+    await this.speak(text, true);
+  }
+
   /**
    * Speak recalculating
    * Requirement 16.5: Notify user by voice when route is recalculated
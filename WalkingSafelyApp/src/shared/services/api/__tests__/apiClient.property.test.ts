@@ -219,6 +219,28 @@ describe('API Client - Property Tests', () => {
       );
     });
 
+    it('should return correct error structure for 429 rate limit errors', () => {
+      fc.assert(
+        fc.property(
+          fc.record({
+            error: fc.string(),
+            message: fc.string(),
+          }),
+          (errorData) => {
+            const axiosError = createAxiosError(429, errorData as ApiError);
+            const parsed = parseApiError(axiosError);
+
+            return (
+              parsed.code === 'RATE_LIMIT_EXCEEDED' &&
+              parsed.status === 429 &&
+              parsed.message === errorData.message
+            );
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
     it('should return correct error structure for 503 service unavailable errors', () => {
       fc.assert(
         fc.property(
@@ -246,7 +268,7 @@ describe('API Client - Property Tests', () => {
         fc.property(
           fc
             .integer({ min: 400, max: 599 })
-            .filter((s) => ![401, 422, 423, 503].includes(s)),
+            .filter((s) => ![401, 422, 423, 429, 503].includes(s)),
           fc.record({
             error: fc.string(),
             message: fc.string(),
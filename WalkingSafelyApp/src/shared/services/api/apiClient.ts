@@ -61,6 +61,17 @@ export const onUnauthorized = (callback: AuthEventCallback): void => {
   onUnauthorizedCallback = callback;
 };
 
+// Locale sent to the backend so it answers in the user's language
+let requestLocale: string | null = null;
+
+/**
+ * Set the locale sent with every request (X-Locale header)
+ * @param locale - Backend locale code, or null to let the server decide
+ */
+export const setRequestLocale = (locale: string | null): void => {
+  requestLocale = locale;
+};
+
 /**
  * Parse API error response into standardized format
  * @param error - Axios error object
@@ -96,6 +107,13 @@ export const parseApiError = (error: AxiosError<ApiError>): ParsedApiError => {
         remainingSeconds: data?.remaining_seconds,
       };
 
+    case 429:
+      return {
+        code: 'RATE_LIMIT_EXCEEDED',
+        message: data?.message ?? 'Muitas requisições. Tente novamente mais tarde',
+        status,
+      };
+
     case 503:
       return {
         code: 'SERVICE_UNAVAILABLE',
@@ -133,6 +151,9 @@ const createApiClient = (): AxiosInstance => {
       if (token && config.headers) {
         config.headers.Authorization = `Bearer ${token}`;
       }
+      if (requestLocale && config.headers) {
+        config.headers['X-Locale'] = requestLocale;
+      }
       return config;
     },
     (error: AxiosError) => {
@@ -182,3 +203,13 @@ export const isParsedApiError = (error: unknown): error is ParsedApiError => {
     'status' in error
   );
 };
+
+/**
+ * Helper to check if a request failed without reaching the server
+ * (no connectivity, DNS failure or timeout)
+ * @param error - Error to check
+ * @returns True if no response was received
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  return isParsedApiError(error) && error.status === 0;
+};
@@ -6,7 +6,9 @@ export {
   apiClient,
   parseApiError,
   onUnauthorized,
+  setRequestLocale,
   isParsedApiError,
+  isNetworkError,
 } from './apiClient';
 
 export type {
@@ -0,0 +1,124 @@
+/**
+ * Tests for Alert Preferences Store
+ *
+ * **Property 41: Alert Type Toggles**
+ *
+ * For any set of enabled alert types, toggling a type SHALL flip only that
+ * type, SHALL never leave the user without any alert type, and SHALL store
+ * every type being on as the empty list the server reads as "all".
+ */
+
+import * as fc from 'fast-check';
+
+import {alertPreferencesService} from '../../services/api/alertPreferences';
+import {
+  DEFAULT_ALERT_PREFERENCES,
+  isAlertTypeEnabled,
+  isRiskAlertAllowed,
+  toggleAlertType,
+  useAlertPreferencesStore,
+} from '../alertPreferencesStore';
+
+jest.mock('../../services/api/alertPreferences', () => ({
+  alertPreferencesService: {
+    getPreferences: jest.fn(),
+    updatePreferences: jest.fn(),
+  },
+}));
+
+const mockedGetPreferences = alertPreferencesService.getPreferences as jest.Mock;
+const mockedUpdatePreferences = alertPreferencesService.updatePreferences as jest.Mock;
+
+const ALL_IDS = ['1', '2', '3', '4', '5', '6', '7', '8'];
+
+describe('Alert Preferences Store', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useAlertPreferencesStore.getState().reset();
+  });
+
+  describe('Property 41: Alert type toggles', () => {
+    it('should flip only the toggled type and never turn every type off', () => {
+      fc.assert(
+        fc.property(fc.subarray(ALL_IDS), fc.constantFrom(...ALL_IDS), (types, typeId) => {
+          const next = toggleAlertType(types, typeId, ALL_IDS);
+          const wasEnabled = isAlertTypeEnabled(types, typeId);
+          const isLast = ALL_IDS.filter(id => isAlertTypeEnabled(types, id)).length === 1;
+
+          const othersUnchanged = ALL_IDS.filter(id => id !== typeId).every(
+            id => isAlertTypeEnabled(next, id) === isAlertTypeEnabled(types, id),
+          );
+          const flipped = isLast
+            ? isAlertTypeEnabled(next, typeId)
+            : isAlertTypeEnabled(next, typeId) !== wasEnabled;
+
+          return (
+            othersUnchanged &&
+            flipped &&
+            ALL_IDS.some(id => isAlertTypeEnabled(next, id)) &&
+            next.length < ALL_IDS.length
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should only let through alerts the user wants at that time', () => {
+    const nightsOnly = {
+      ...DEFAULT_ALERT_PREFERENCES,
+      types: ['1'],
+      schedule: {startTime: '22:00', endTime: '06:00', daysOfWeek: []},
+    };
+    const night = new Date(2024, 0, 8, 23, 15);
+    const day = new Date(2024, 0, 8, 14, 0);
+
+    expect(isRiskAlertAllowed(nightsOnly, '1', night)).toBe(true);
+    expect(isRiskAlertAllowed(nightsOnly, '2', night)).toBe(false);
+    expect(isRiskAlertAllowed(nightsOnly, '1', day)).toBe(false);
+    expect(isRiskAlertAllowed(nightsOnly, undefined, night)).toBe(true);
+    expect(isRiskAlertAllowed({...nightsOnly, enabled: false}, '1', night)).toBe(false);
+  });
+
+  it('should keep the sound setting when loading from the server', async () => {
+    useAlertPreferencesStore.setState({
+      preferences: {...DEFAULT_ALERT_PREFERENCES, soundEnabled: false},
+    });
+    mockedGetPreferences.mockResolvedValue({
+      enabled: false,
+      soundEnabled: true,
+      types: ['2'],
+      schedule: null,
+    });
+
+    await useAlertPreferencesStore.getState().load();
+
+    const {preferences} = useAlertPreferencesStore.getState();
+    expect(preferences.enabled).toBe(false);
+    expect(preferences.types).toEqual(['2']);
+    expect(preferences.soundEnabled).toBe(false);
+  });
+
+  it('should keep the sound setting on the device only', async () => {
+    await useAlertPreferencesStore.getState().update({soundEnabled: false});
+
+    expect(mockedUpdatePreferences).not.toHaveBeenCalled();
+    expect(useAlertPreferencesStore.getState().preferences.soundEnabled).toBe(false);
+  });
+
+  it('should keep a change on the device when the server fails', async () => {
+    mockedUpdatePreferences.mockRejectedValue({code: 'UNKNOWN_ERROR', message: 'Network Error'});
+
+    await useAlertPreferencesStore.getState().update({types: ['1', '3']});
+
+    const state = useAlertPreferencesStore.getState();
+    expect(mockedUpdatePreferences).toHaveBeenCalledWith({
+      enabled: true,
+      types: ['1', '3'],
+      schedule: null,
+    });
+    expect(state.preferences.types).toEqual(['1', '3']);
+    expect(state.error).toBe('settings.alerts.errors.sync');
+    expect(state.isSyncing).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for the Check-in Store
+ *
+ * The check-in follows the navigation session: it is armed by startSession,
+ * completed on arrival, dropped by endSession, and alerts the trusted
+ * contacts through the SOS pipeline when it escalates. A check-in restored
+ * after a restart is dropped once its navigation can't be resumed.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {emergencyService} from '../../services/api/emergency';
+import {navigationCache} from '../../services/navigationCache';
+import type {RouteResponse} from '../../types/models';
+import {CHECK_IN_RESPONSE_TIMEOUT} from '../../utils/checkInMachine';
+import {useCheckInStore} from '../checkInStore';
+import {useNavigationStore} from '../navigationStore';
+import {useSosStore} from '../sosStore';
+
+// The map components imported by the navigation store render a WebView
+jest.mock('react-native-webview', () => ({WebView: 'WebView'}));
+
+jest.mock('../../services/api/emergency', () => ({
+  emergencyService: {
+    getContacts: jest.fn(),
+    addContact: jest.fn(),
+    removeContact: jest.fn(),
+    sendSos: jest.fn(),
+  },
+}));
+
+const mockedSendSos = emergencyService.sendSos as jest.Mock;
+
+const DESTINATION = {latitude: -23.561, longitude: -46.656};
+const POSITION = {latitude: -23.5505, longitude: -46.6453};
+
+const ROUTE: RouteResponse = {
+  id: 'route_1',
+  polyline: '',
+  distance: 1500,
+  duration: 1200,
+  maxRiskIndex: 30,
+  averageRiskIndex: 20,
+  requiresWarning: false,
+  instructions: [
+    {
+      text: 'Iniciar navegação',
+      distance: 0,
+      duration: 0,
+      maneuver: 'depart',
+      coordinates: POSITION,
+    },
+    {
+      text: 'Você chegou ao destino',
+      distance: 1500,
+      duration: 1200,
+      maneuver: 'arrive',
+      coordinates: DESTINATION,
+    },
+  ],
+};
+
+/** Flush the promise chain started by an escalation */
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+/** Restore an armed check-in as after an app restart */
+const restoreArmedCheckIn = async (sessionId: string) => {
+  await AsyncStorage.setItem(
+    'check-in-storage',
+    JSON.stringify({
+      state: {
+        phase: 'armed',
+        sessionId,
+        expectedArrivalAt: Date.now() + 60000,
+        respondBy: null,
+        completedBy: null,
+      },
+      version: 0,
+    }),
+  );
+  await useCheckInStore.persist.rehydrate();
+  await flushPromises();
+};
+
+describe('Check-in Store', () => {
+  beforeEach(async () => {
+    mockedSendSos.mockReset();
+    mockedSendSos.mockResolvedValue({alertId: '1', notifiedContacts: 2});
+    useNavigationStore.getState().endSession();
+    useCheckInStore.getState().reset();
+    useSosStore.getState().reset();
+    await AsyncStorage.clear();
+  });
+
+  it('should arm when a route starts and drop the check-in when navigation ends', () => {
+    const before = Date.now();
+    useNavigationStore.getState().startSession(ROUTE, 'safest', DESTINATION);
+    const state = useCheckInStore.getState();
+
+    expect(state.phase).toBe('armed');
+    expect(state.sessionId).toBe(useNavigationStore.getState().sessionId);
+    expect(state.expectedArrivalAt).toBeGreaterThan(before + ROUTE.duration * 1000);
+
+    useNavigationStore.getState().endSession();
+    expect(useCheckInStore.getState().phase).toBe('idle');
+  });
+
+  it('should complete when the user arrives', () => {
+    useNavigationStore.getState().startSession(ROUTE, 'safest', DESTINATION);
+    useNavigationStore.getState().updatePosition(DESTINATION);
+
+    expect(useCheckInStore.getState().phase).toBe('completed');
+    expect(useCheckInStore.getState().completedBy).toBe('arrived');
+  });
+
+  it('should alert trusted contacts with the last position when the user does not answer', async () => {
+    useNavigationStore.getState().startSession(ROUTE, 'safest', DESTINATION);
+    useNavigationStore.getState().updatePosition(POSITION);
+    const expectedAt = useCheckInStore.getState().expectedArrivalAt as number;
+
+    useCheckInStore.getState().tick(expectedAt);
+    expect(useCheckInStore.getState().phase).toBe('prompting');
+    expect(mockedSendSos).not.toHaveBeenCalled();
+
+    useCheckInStore.getState().tick(expectedAt + CHECK_IN_RESPONSE_TIMEOUT);
+    await flushPromises();
+
+    expect(useCheckInStore.getState().phase).toBe('escalated');
+    expect(mockedSendSos).toHaveBeenCalledTimes(1);
+    expect(mockedSendSos.mock.calls[0][0]).toMatchObject({
+      location: POSITION,
+      destination: DESTINATION,
+      reason: 'missed_check_in',
+    });
+    expect(useCheckInStore.getState().escalationError).toBeNull();
+  });
+
+  it('should not alert anyone when the user confirms in time', async () => {
+    useNavigationStore.getState().startSession(ROUTE, 'safest', DESTINATION);
+    const expectedAt = useCheckInStore.getState().expectedArrivalAt as number;
+
+    useCheckInStore.getState().tick(expectedAt);
+    useCheckInStore.getState().confirmSafe();
+    useCheckInStore.getState().tick(expectedAt + CHECK_IN_RESPONSE_TIMEOUT);
+    await flushPromises();
+
+    expect(useCheckInStore.getState().phase).toBe('completed');
+    expect(mockedSendSos).not.toHaveBeenCalled();
+  });
+
+  it('should keep a restored check-in until resuming its navigation is declined', async () => {
+    await navigationCache.save({
+      sessionId: 'nav_restored',
+      route: ROUTE,
+      routeCoordinates: [],
+      destination: DESTINATION,
+      routeTypePreference: 'safest',
+      currentInstructionIndex: 0,
+    });
+
+    await restoreArmedCheckIn('nav_restored');
+    expect(useCheckInStore.getState().phase).toBe('armed');
+
+    useCheckInStore.getState().cancel();
+    expect(useCheckInStore.getState().phase).toBe('idle');
+  });
+
+  it('should drop a restored check-in whose navigation cannot be resumed', async () => {
+    await restoreArmedCheckIn('nav_expired');
+
+    expect(useCheckInStore.getState().phase).toBe('idle');
+    expect(useCheckInStore.getState().sessionId).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Tests for Moderation Store
+ *
+ * **Property 38: Moderation Decisions**
+ *
+ * For any decision on a flagged occurrence, the store SHALL drop the item from
+ * the queue only once the server records it, SHALL count only hidden reports as
+ * rejected, and SHALL take hidden or merged occurrences off the map.
+ */
+
+import * as fc from 'fast-check';
+
+import {moderationService} from '../../services/api/moderation';
+import type {ModerationItem, Occurrence} from '../../types/models';
+import {
+  applyDecisionToStatistics,
+  ModerationDecision,
+  removesFromMap,
+  useModerationStore,
+} from '../moderationStore';
+import {useOccurrenceStore} from '../occurrenceStore';
+
+jest.mock('../../services/api/moderation', () => ({
+  moderationService: {
+    getQueue: jest.fn(),
+    approve: jest.fn(),
+    hide: jest.fn(),
+    recategorize: jest.fn(),
+    getDuplicates: jest.fn(),
+    merge: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/api/heatmap', () => ({
+  heatmapService: {
+    clearCache: jest.fn(),
+  },
+}));
+
+const mockedGetQueue = moderationService.getQueue as jest.Mock;
+const mockedHide = moderationService.hide as jest.Mock;
+const mockedRecategorize = moderationService.recategorize as jest.Mock;
+const mockedMerge = moderationService.merge as jest.Mock;
+
+const occurrence = (id: string): Occurrence => ({
+  id,
+  timestamp: '2024-01-01T10:00:00Z',
+  location: {latitude: -23.5505, longitude: -46.6333},
+  crimeType: {id: '1', name: 'Roubo', categoryId: '1'},
+  severity: 'medium',
+  confidenceScore: 2,
+  source: 'collaborative',
+  createdBy: 7,
+});
+
+const item = (id: string, occurrenceId: string): ModerationItem => ({
+  id,
+  occurrence: occurrence(occurrenceId),
+  reason: 'low_confidence',
+  status: 'pending',
+  createdAt: '2024-01-01T12:00:00Z',
+});
+
+const QUEUE = {
+  items: [item('1', '10'), item('2', '20')],
+  statistics: {pending: 2, approvedToday: 0, rejectedToday: 0},
+};
+
+const decisionArb = fc.constantFrom<ModerationDecision>('approve', 'hide', 'recategorize', 'merge');
+
+describe('Moderation Store', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockedGetQueue.mockResolvedValue(QUEUE);
+    useModerationStore.getState().reset();
+    useOccurrenceStore.getState().reset();
+    useOccurrenceStore.setState({occurrences: [occurrence('10'), occurrence('20')]});
+    await useModerationStore.getState().loadQueue();
+  });
+
+  describe('Property 38: Moderation decisions', () => {
+    it('should count only hidden reports as rejected', () => {
+      fc.assert(
+        fc.property(
+          fc.nat({max: 1000}),
+          fc.nat({max: 1000}),
+          fc.nat({max: 1000}),
+          decisionArb,
+          (pending, approvedToday, rejectedToday, decision) => {
+            const result = applyDecisionToStatistics(
+              {pending, approvedToday, rejectedToday},
+              decision,
+            );
+            return (
+              result.pending === Math.max(0, pending - 1) &&
+              result.rejectedToday - rejectedToday === (decision === 'hide' ? 1 : 0) &&
+              result.approvedToday - approvedToday === (decision === 'hide' ? 0 : 1)
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+
+    it('should take the occurrence off the map only when hiding or merging', () => {
+      fc.assert(
+        fc.property(decisionArb, decision => {
+          return removesFromMap(decision) === (decision === 'hide' || decision === 'merge');
+        }),
+        {numRuns: 20},
+      );
+    });
+  });
+
+  it('should drop a hidden occurrence from the queue and the map', async () => {
+    mockedHide.mockResolvedValue(undefined);
+
+    expect(await useModerationStore.getState().hide('1', 'spam')).toBe(true);
+
+    expect(mockedHide).toHaveBeenCalledWith('1', 'spam');
+    const state = useModerationStore.getState();
+    expect(state.items.map(queued => queued.id)).toEqual(['2']);
+    expect(state.statistics).toEqual({pending: 1, approvedToday: 0, rejectedToday: 1});
+    expect(useOccurrenceStore.getState().occurrences.map(occ => occ.id)).toEqual(['20']);
+  });
+
+  it('should update the crime type on the map when re-categorizing', async () => {
+    mockedRecategorize.mockResolvedValue({
+      ...occurrence('10'),
+      crimeType: {id: '3', name: 'Furto', categoryId: '1'},
+    });
+
+    expect(await useModerationStore.getState().recategorize('1', '3')).toBe(true);
+
+    expect(mockedRecategorize).toHaveBeenCalledWith('1', '3', undefined);
+    expect(useOccurrenceStore.getState().occurrences[0].crimeType.id).toBe('3');
+    expect(useModerationStore.getState().items).toHaveLength(1);
+  });
+
+  it('should keep the item queued when the decision fails', async () => {
+    mockedMerge.mockRejectedValue({code: 'UNKNOWN_ERROR', message: 'Network Error', status: 0});
+
+    expect(await useModerationStore.getState().merge('1', '20')).toBe(false);
+
+    const state = useModerationStore.getState();
+    expect(state.items).toHaveLength(2);
+    expect(state.actingId).toBeNull();
+    expect(state.error).toBe('moderation.errors.decision');
+    expect(useOccurrenceStore.getState().occurrences).toHaveLength(2);
+  });
+
+  it('should drop an item another moderator already handled', async () => {
+    mockedHide.mockRejectedValue({code: 'NOT_FOUND', message: 'Not found', status: 404});
+
+    expect(await useModerationStore.getState().hide('2')).toBe(false);
+
+    const state = useModerationStore.getState();
+    expect(state.items.map(queued => queued.id)).toEqual(['1']);
+    expect(state.error).toBe('moderation.errors.alreadyResolved');
+    expect(useOccurrenceStore.getState().occurrences).toHaveLength(2);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Tests for My Reports Store
+ *
+ * **Property 37: Report Editing Window**
+ *
+ * For any report in the history, the store SHALL allow edits only while the
+ * report is active and its edit window is open, SHALL never list a report
+ * twice when pages shift, and SHALL take a withdrawn report off the map while
+ * keeping it in the history.
+ */
+
+import * as fc from 'fast-check';
+
+import {occurrencesService} from '../../services/api/occurrences';
+import type {PaginatedResponse} from '../../types/api';
+import type {Occurrence, OccurrenceStatus} from '../../types/models';
+import {
+  getEditTimeLeft,
+  isReportEditable,
+  mergeReportPage,
+  useMyReportsStore,
+} from '../myReportsStore';
+import {useOccurrenceStore} from '../occurrenceStore';
+
+jest.mock('../../services/api/occurrences', () => ({
+  occurrencesService: {
+    listMine: jest.fn(),
+    update: jest.fn(),
+    withdraw: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/api/heatmap', () => ({
+  heatmapService: {
+    clearCache: jest.fn(),
+  },
+}));
+
+const mockedListMine = occurrencesService.listMine as jest.Mock;
+const mockedUpdate = occurrencesService.update as jest.Mock;
+const mockedWithdraw = occurrencesService.withdraw as jest.Mock;
+
+const NOW = Date.parse('2024-01-01T10:10:00Z');
+
+const report = (id: string, overrides: Partial<Occurrence> = {}): Occurrence => ({
+  id,
+  timestamp: '2024-01-01T10:00:00Z',
+  location: {latitude: -23.5505, longitude: -46.6333},
+  crimeType: {id: '1', name: 'Roubo', categoryId: '1'},
+  severity: 'medium',
+  confidenceScore: 1,
+  source: 'collaborative',
+  createdBy: 7,
+  status: 'active',
+  moderationStatus: 'pending',
+  confirmations: 3,
+  createdAt: '2024-01-01T10:00:00Z',
+  editableUntil: '2024-01-01T10:30:00Z',
+  ...overrides,
+});
+
+const page = (
+  data: Occurrence[],
+  currentPage: number,
+  lastPage: number,
+): PaginatedResponse<Occurrence> => ({
+  data,
+  meta: {currentPage, lastPage, perPage: 20, total: lastPage * 20},
+});
+
+const idArb = fc.integer({min: 1, max: 30}).map(String);
+
+describe('My Reports Store', () => {
+  beforeEach(() => {
+    mockedListMine.mockReset();
+    mockedUpdate.mockReset();
+    mockedWithdraw.mockReset();
+    useMyReportsStore.getState().reset();
+    useOccurrenceStore.getState().reset();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('Property 37: Report editing window', () => {
+    it('should allow edits only on active reports within the window', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({min: -3_600_000, max: 3_600_000}),
+          fc.constantFrom<OccurrenceStatus>('active', 'expired', 'rejected', 'merged', 'withdrawn'),
+          (offset, status) => {
+            const item = report('1', {
+              status,
+              editableUntil: new Date(NOW + offset).toISOString(),
+            });
+            const timeLeft = getEditTimeLeft(item, NOW);
+            return status === 'active' && offset > 0
+              ? timeLeft === offset && isReportEditable(item, NOW)
+              : timeLeft === 0 && !isReportEditable(item, NOW);
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+
+    it('should never list a report twice when merging pages', () => {
+      fc.assert(
+        fc.property(
+          fc.uniqueArray(idArb, {maxLength: 20}),
+          fc.uniqueArray(idArb, {maxLength: 20}),
+          (listed, next) => {
+            const merged = mergeReportPage(
+              listed.map(id => report(id)),
+              next.map(id => report(id)),
+            );
+            const ids = merged.map(item => item.id);
+            return (
+              new Set(ids).size === ids.length &&
+              listed.every((id, index) => ids[index] === id) &&
+              next.every(id => ids.includes(id))
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should load the next page without repeating shifted reports', async () => {
+    mockedListMine
+      .mockResolvedValueOnce(page([report('3'), report('2')], 1, 2))
+      .mockResolvedValueOnce(page([report('2'), report('1')], 2, 2));
+
+    await useMyReportsStore.getState().loadReports();
+    await useMyReportsStore.getState().loadMoreReports();
+    await useMyReportsStore.getState().loadMoreReports();
+
+    expect(mockedListMine).toHaveBeenCalledTimes(2);
+    expect(mockedListMine).toHaveBeenLastCalledWith(2);
+    expect(useMyReportsStore.getState().reports.map(item => item.id)).toEqual(['3', '2', '1']);
+  });
+
+  it('should refuse edits once the window has closed', async () => {
+    mockedListMine.mockResolvedValue(
+      page([report('1', {editableUntil: '2024-01-01T10:05:00Z'})], 1, 1),
+    );
+    await useMyReportsStore.getState().loadReports();
+
+    expect(await useMyReportsStore.getState().updateReport('1', {severity: 'high'})).toBe(false);
+    expect(mockedUpdate).not.toHaveBeenCalled();
+    expect(useMyReportsStore.getState().error).toBe(
+      'occurrence.myReports.errors.editWindowExpired',
+    );
+  });
+
+  it('should keep moderation and confirmations when an edit is saved', async () => {
+    mockedListMine.mockResolvedValue(page([report('1')], 1, 1));
+    mockedUpdate.mockResolvedValue(
+      report('1', {severity: 'high', moderationStatus: null, confirmations: 0}),
+    );
+    useOccurrenceStore.setState({occurrences: [report('1')]});
+    await useMyReportsStore.getState().loadReports();
+
+    expect(await useMyReportsStore.getState().updateReport('1', {severity: 'high'})).toBe(true);
+
+    expect(mockedUpdate).toHaveBeenCalledWith('1', {severity: 'high'});
+    expect(useMyReportsStore.getState().reports[0]).toMatchObject({
+      severity: 'high',
+      moderationStatus: 'pending',
+      confirmations: 3,
+    });
+    expect(useOccurrenceStore.getState().occurrences[0].severity).toBe('high');
+  });
+
+  it('should report an expired window when the server refuses the edit', async () => {
+    mockedListMine.mockResolvedValue(page([report('1')], 1, 1));
+    mockedUpdate.mockRejectedValue({code: 'FORBIDDEN', message: 'Forbidden', status: 403});
+    await useMyReportsStore.getState().loadReports();
+
+    expect(await useMyReportsStore.getState().updateReport('1', {severity: 'high'})).toBe(false);
+    expect(useMyReportsStore.getState().error).toBe(
+      'occurrence.myReports.errors.editWindowExpired',
+    );
+    expect(useMyReportsStore.getState().savingId).toBeNull();
+  });
+
+  it('should take a withdrawn report off the map but keep it in the history', async () => {
+    mockedListMine.mockResolvedValue(page([report('1'), report('2')], 1, 1));
+    mockedWithdraw.mockResolvedValue(report('1', {status: 'withdrawn'}));
+    useOccurrenceStore.setState({
+      occurrences: [report('1'), report('2')],
+      selectedOccurrence: report('1'),
+    });
+    await useMyReportsStore.getState().loadReports();
+
+    expect(await useMyReportsStore.getState().withdrawReport('1')).toBe(true);
+
+    expect(useMyReportsStore.getState().reports.map(item => item.status)).toEqual([
+      'withdrawn',
+      'active',
+    ]);
+    expect(useOccurrenceStore.getState().occurrences.map(occ => occ.id)).toEqual(['2']);
+    expect(useOccurrenceStore.getState().selectedOccurrence).toBeNull();
+    expect(await useMyReportsStore.getState().withdrawReport('1')).toBe(false);
+    expect(mockedWithdraw).toHaveBeenCalledTimes(1);
+  });
+});
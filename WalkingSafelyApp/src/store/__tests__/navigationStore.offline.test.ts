@@ -0,0 +1,186 @@
+/**
+ * Tests for Offline Navigation
+ *
+ * **Property 22: Offline Navigation Continuity**
+ * **Validates: Requirements 6.3, 13.3, 16.1, 16.2**
+ *
+ * For any navigation session, losing connectivity SHALL NOT interrupt guidance:
+ * the route, decoded polyline, instructions and risk points are cached at
+ * startSession, recalculation is postponed while offline and retried at most
+ * every OFFLINE_RETRY_INTERVAL, and resumes as soon as the network is back.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as fc from 'fast-check';
+
+import {routesService} from '../../services/api/routes';
+import {navigationCache} from '../../services/navigationCache';
+import type {RouteResponse} from '../../types/models';
+import {
+  OFFLINE_RETRY_INTERVAL,
+  canAttemptNetworkRequest,
+  useNavigationStore,
+} from '../navigationStore';
+
+// The map components imported by the store render a WebView
+jest.mock('react-native-webview', () => ({WebView: 'WebView'}));
+
+jest.mock('../../services/api/routes', () => ({
+  routesService: {
+    calculateRoute: jest.fn(),
+    recalculateRoute: jest.fn(),
+    checkTrafficUpdate: jest.fn(),
+    getAlternativeRoutes: jest.fn(),
+  },
+}));
+
+const mockedCalculateRoute = routesService.calculateRoute as jest.Mock;
+
+/**
+ * Fixture: two-point route using the reference polyline from the encoding spec
+ */
+const ROUTE: RouteResponse = {
+  id: 'route_1',
+  polyline: '_p~iF~ps|U_ulLnnqC',
+  distance: 500,
+  duration: 400,
+  maxRiskIndex: 30,
+  averageRiskIndex: 20,
+  requiresWarning: false,
+  instructions: [
+    {
+      text: 'Iniciar navegação',
+      distance: 0,
+      duration: 0,
+      maneuver: 'depart',
+      coordinates: {latitude: 38.5, longitude: -120.2},
+    },
+    {
+      text: 'Você chegou ao destino',
+      distance: 500,
+      duration: 400,
+      maneuver: 'arrive',
+      coordinates: {latitude: 40.7, longitude: -120.95},
+    },
+  ],
+  occurrences: [
+    {
+      id: '10',
+      location: {latitude: 39.5, longitude: -120.5},
+      crimeType: 'Roubo',
+      severity: 'high',
+      timestamp: '2024-01-01T10:00:00Z',
+    },
+  ],
+};
+
+/** Position far (> 30m) from the route so recalculation is needed */
+const DEVIATED_POSITION = {latitude: 39.5, longitude: -119};
+
+/** Error produced by the API client when no response is received */
+const NETWORK_ERROR = {code: 'UNKNOWN_ERROR', message: 'Network Error', status: 0};
+
+describe('Navigation Store - Offline Navigation', () => {
+  beforeEach(async () => {
+    mockedCalculateRoute.mockReset();
+    useNavigationStore.getState().endSession();
+    await AsyncStorage.clear();
+  });
+
+  it('should cache route, polyline, instructions and risk points at startSession', async () => {
+    useNavigationStore.getState().startSession(ROUTE, 'safest');
+    await new Promise(resolve => setImmediate(resolve));
+
+    const cached = await navigationCache.load();
+
+    expect(cached?.route.instructions).toEqual(ROUTE.instructions);
+    expect(cached?.route.occurrences).toEqual(ROUTE.occurrences);
+    expect(cached?.routeCoordinates).toHaveLength(2);
+    expect(cached?.routeCoordinates[0].latitude).toBeCloseTo(38.5);
+  });
+
+  it('should keep navigating on the cached route when recalculation has no network', async () => {
+    const store = useNavigationStore.getState();
+    store.startSession(ROUTE, 'safest');
+    store.updatePosition(DEVIATED_POSITION);
+    mockedCalculateRoute.mockRejectedValue(NETWORK_ERROR);
+
+    const result = await useNavigationStore.getState().checkForRecalculation();
+    const state = useNavigationStore.getState();
+
+    expect(result).toBeNull();
+    expect(state.isOffline).toBe(true);
+    expect(state.error).toBeNull();
+    expect(state.route).toBe(ROUTE);
+
+    // Offline: no new attempt before the retry interval
+    await useNavigationStore.getState().checkForRecalculation();
+    expect(mockedCalculateRoute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resume recalculation when the network comes back', async () => {
+    const store = useNavigationStore.getState();
+    store.startSession(ROUTE, 'fastest');
+    store.updatePosition(DEVIATED_POSITION);
+    useNavigationStore.setState({
+      isOffline: true,
+      lastOfflineRetry: Date.now() - OFFLINE_RETRY_INTERVAL,
+    });
+    const newRoute = {...ROUTE, id: 'route_2'};
+    mockedCalculateRoute.mockResolvedValue(newRoute);
+
+    await useNavigationStore.getState().checkForRecalculation();
+    const state = useNavigationStore.getState();
+
+    expect(mockedCalculateRoute).toHaveBeenCalledWith(
+      expect.objectContaining({origin: DEVIATED_POSITION, preferSafeRoute: false}),
+    );
+    expect(state.isOffline).toBe(false);
+    expect(state.route?.id).toBe('route_2');
+  });
+
+  it('should restore the cached session after a restart', async () => {
+    useNavigationStore.getState().startSession(ROUTE, 'fastest');
+    await new Promise(resolve => setImmediate(resolve));
+    const {sessionId} = useNavigationStore.getState();
+
+    // Simulate app restart: in-memory state is lost, storage is kept
+    useNavigationStore.setState({sessionId: null, route: null, routeCoordinates: []});
+    const restored = await useNavigationStore.getState().restoreSession();
+    const state = useNavigationStore.getState();
+
+    expect(restored).toBe(true);
+    expect(state.sessionId).toBe(sessionId);
+    expect(state.routeTypePreference).toBe('fastest');
+    expect(state.routeCoordinates).toHaveLength(2);
+  });
+
+  it('should clear the cached session when navigation ends', async () => {
+    useNavigationStore.getState().startSession(ROUTE);
+    await new Promise(resolve => setImmediate(resolve));
+
+    useNavigationStore.getState().endSession();
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(await navigationCache.load()).toBeNull();
+  });
+
+  describe('canAttemptNetworkRequest', () => {
+    it('should only allow requests while offline after the retry interval', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({min: 1, max: 1e12}),
+          fc.integer({min: 0, max: 3 * OFFLINE_RETRY_INTERVAL}),
+          (lastRetry, elapsed) => {
+            const now = lastRetry + elapsed;
+            return (
+              canAttemptNetworkRequest(false, lastRetry, now) &&
+              canAttemptNetworkRequest(true, lastRetry, now) === elapsed >= OFFLINE_RETRY_INTERVAL
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+});
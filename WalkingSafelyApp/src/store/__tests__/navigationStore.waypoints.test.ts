@@ -0,0 +1,205 @@
+/**
+ * Tests for Multi-stop Navigation
+ *
+ * **Property 28: Multi-stop Leg Progress**
+ *
+ * For any route with intermediate stops, the stops SHALL be reached in the
+ * order they were planned, each stop reached SHALL be announced once, and a
+ * recalculation SHALL keep visiting only the stops not reached yet.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as fc from 'fast-check';
+
+import {routesService} from '../../services/api/routes';
+import type {Coordinates, RouteResponse} from '../../types/models';
+import {calculateDistance} from '../../utils/geo';
+import {getLegRemainingDistance, getNextLegIndex, moveStop} from '../../utils/routeLegs';
+import {useNavigationStore} from '../navigationStore';
+
+// The map components imported by the store render a WebView
+jest.mock('react-native-webview', () => ({WebView: 'WebView'}));
+
+jest.mock('../../services/api/routes', () => ({
+  routesService: {
+    calculateRoute: jest.fn(),
+    recalculateRoute: jest.fn(),
+    checkTrafficUpdate: jest.fn(),
+    getAlternativeRoutes: jest.fn(),
+  },
+}));
+
+const mockedCalculateRoute = routesService.calculateRoute as jest.Mock;
+
+const ORIGIN = {latitude: -23.55, longitude: -46.64};
+const PHARMACY = {latitude: -23.552, longitude: -46.642};
+const BUS_STOP = {latitude: -23.554, longitude: -46.644};
+const DESTINATION = {latitude: -23.556, longitude: -46.646};
+
+const ROUTE: RouteResponse = {
+  id: 'route_1',
+  polyline: '',
+  distance: 1200,
+  duration: 900,
+  maxRiskIndex: 30,
+  averageRiskIndex: 20,
+  requiresWarning: false,
+  waypoints: [PHARMACY, BUS_STOP],
+  instructions: [
+    {
+      text: 'Iniciar navegação',
+      distance: 0,
+      duration: 0,
+      maneuver: 'depart',
+      coordinates: ORIGIN,
+    },
+    {
+      text: 'Você chegou ao destino',
+      distance: 1200,
+      duration: 900,
+      maneuver: 'arrive',
+      coordinates: DESTINATION,
+    },
+  ],
+};
+
+const coordinatesArbitrary = fc.record({
+  latitude: fc.double({min: -23.6, max: -23.5, noNaN: true}),
+  longitude: fc.double({min: -46.7, max: -46.6, noNaN: true}),
+});
+
+describe('Multi-stop Navigation', () => {
+  beforeEach(async () => {
+    mockedCalculateRoute.mockReset();
+    useNavigationStore.getState().endSession();
+    await AsyncStorage.clear();
+  });
+
+  describe('Property 28: Leg progress', () => {
+    it('should only move forward and never past the destination leg', () => {
+      fc.assert(
+        fc.property(
+          coordinatesArbitrary,
+          fc.array(coordinatesArbitrary, {maxLength: 5}),
+          fc.nat({max: 5}),
+          (position, stops, legIndex) => {
+            const start = Math.min(legIndex, stops.length);
+            const next = getNextLegIndex(position, stops, start);
+            return next >= start && next <= stops.length;
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+
+    it('should never report less than the straight-line distance left on the leg', () => {
+      fc.assert(
+        fc.property(
+          coordinatesArbitrary,
+          coordinatesArbitrary,
+          fc.array(coordinatesArbitrary, {minLength: 2, maxLength: 10}),
+          (position, target, routeCoordinates) =>
+            getLegRemainingDistance(position, target, routeCoordinates) >=
+            calculateDistance(position, target),
+        ),
+        {numRuns: 100},
+      );
+    });
+
+    it('should keep every stop when reordering', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer(), {minLength: 1, maxLength: 6}),
+          fc.nat(),
+          fc.nat(),
+          (stops, a, b) => {
+            const from = a % stops.length;
+            const to = b % stops.length;
+            const reordered = moveStop(stops, from, to);
+            return (
+              reordered.length === stops.length &&
+              reordered[to] === stops[from] &&
+              [...reordered].sort().join() === [...stops].sort().join()
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should start on the first leg with the stops of the route', () => {
+    useNavigationStore.getState().startSession(ROUTE, 'safest', DESTINATION);
+    const state = useNavigationStore.getState();
+
+    expect(state.stops).toEqual([PHARMACY, BUS_STOP]);
+    expect(state.currentLegIndex).toBe(0);
+    expect(state.reachedStopIndex).toBeNull();
+  });
+
+  it('should advance one leg per stop reached and flag each stop once', () => {
+    const store = useNavigationStore.getState();
+    store.startSession(ROUTE, 'safest', DESTINATION);
+
+    // The bus stop is the second stop, reaching it first doesn't skip the pharmacy
+    store.updatePosition(BUS_STOP);
+    expect(useNavigationStore.getState().currentLegIndex).toBe(0);
+
+    store.updatePosition(PHARMACY);
+    expect(useNavigationStore.getState().currentLegIndex).toBe(1);
+    expect(useNavigationStore.getState().reachedStopIndex).toBe(0);
+
+    store.clearReachedStop();
+    store.updatePosition(PHARMACY);
+    expect(useNavigationStore.getState().reachedStopIndex).toBeNull();
+
+    store.updatePosition(BUS_STOP);
+    expect(useNavigationStore.getState().currentLegIndex).toBe(2);
+    expect(useNavigationStore.getState().reachedStopIndex).toBe(1);
+    expect(useNavigationStore.getState().hasArrived).toBe(false);
+  });
+
+  it('should arrive at the start of a round trip only after every stop', () => {
+    const store = useNavigationStore.getState();
+    store.startSession(ROUTE, 'safest', ORIGIN);
+
+    store.updatePosition(ORIGIN);
+    expect(useNavigationStore.getState().hasArrived).toBe(false);
+
+    store.updatePosition(PHARMACY);
+    store.updatePosition(BUS_STOP);
+    expect(useNavigationStore.getState().hasArrived).toBe(false);
+
+    store.updatePosition(ORIGIN);
+    expect(useNavigationStore.getState().hasArrived).toBe(true);
+  });
+
+  it('should measure the current leg up to the next stop', () => {
+    const store = useNavigationStore.getState();
+    store.startSession(ROUTE, 'safest', DESTINATION);
+    store.updatePosition(ORIGIN);
+
+    expect(useNavigationStore.getState().legRemainingDistance).toBe(
+      Math.round(calculateDistance(ORIGIN, PHARMACY)),
+    );
+  });
+
+  it('should recalculate through the stops not reached yet', async () => {
+    const store = useNavigationStore.getState();
+    store.startSession(ROUTE, 'safest', DESTINATION);
+    store.updatePosition(PHARMACY);
+
+    const deviated: Coordinates = {latitude: -23.5, longitude: -46.6};
+    mockedCalculateRoute.mockResolvedValueOnce({...ROUTE, waypoints: [BUS_STOP]});
+    store.updatePosition(deviated);
+    await store.checkForRecalculation();
+
+    expect(mockedCalculateRoute).toHaveBeenCalledWith(
+      expect.objectContaining({origin: deviated, waypoints: [BUS_STOP]}),
+    );
+    // Stops keep their numbers after the recalculation
+    const state = useNavigationStore.getState();
+    expect(state.stops).toEqual([PHARMACY, BUS_STOP]);
+    expect(state.currentLegIndex).toBe(1);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for Anonymous Reporting
+ *
+ * **Property 36: Anonymous Report Privacy**
+ *
+ * For any report sent anonymously, the store SHALL ask the server to withhold
+ * the reporter and SHALL never keep the reporter on the occurrence, whether it
+ * was sent right away or later from the outbox; anonymous reports SHALL still
+ * count toward the local hourly limit.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as fc from 'fast-check';
+
+import {occurrencesService} from '../../services/api/occurrences';
+import type {CreateOccurrenceData, Occurrence} from '../../types/models';
+import {MAX_REPORTS_PER_HOUR} from '../../utils/constants';
+import {applyReportAnonymity, useOccurrenceStore} from '../occurrenceStore';
+
+jest.mock('../../services/api/occurrences', () => ({
+  occurrencesService: {
+    create: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/api/heatmap', () => ({
+  heatmapService: {
+    clearCache: jest.fn(),
+  },
+}));
+
+const mockedCreate = occurrencesService.create as jest.Mock;
+
+const REPORT: CreateOccurrenceData = {
+  location: {latitude: -23.5505, longitude: -46.6333},
+  timestamp: '2024-01-01T10:00:00Z',
+  crimeTypeId: '1',
+  severity: 'high',
+  anonymous: true,
+};
+
+/** Server response that (wrongly) still names the reporter */
+const OCCURRENCE: Occurrence = {
+  id: '42',
+  timestamp: REPORT.timestamp,
+  location: REPORT.location,
+  crimeType: {id: '1', name: 'Roubo', categoryId: '1'},
+  severity: 'high',
+  confidenceScore: 1,
+  source: 'collaborative',
+  createdBy: 7,
+};
+
+const NETWORK_ERROR = {code: 'UNKNOWN_ERROR', message: 'Network Error', status: 0};
+
+describe('Occurrence Store - Anonymous Reporting', () => {
+  beforeEach(async () => {
+    mockedCreate.mockReset();
+    useOccurrenceStore.getState().reset();
+    await AsyncStorage.clear();
+  });
+
+  describe('Property 36: Anonymous report privacy', () => {
+    it('should drop the reporter only from anonymous reports', () => {
+      fc.assert(
+        fc.property(
+          fc.option(fc.integer({min: 1, max: 100000}), {nil: null}),
+          fc.boolean(),
+          (createdBy, anonymous) => {
+            const result = applyReportAnonymity({...OCCURRENCE, createdBy}, anonymous);
+            return anonymous
+              ? result.createdBy === null && result.isAnonymous === true
+              : result.createdBy === createdBy && result.isAnonymous === undefined;
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should send the anonymous flag and keep no reporter on the new occurrence', async () => {
+    mockedCreate.mockResolvedValue({occurrence: OCCURRENCE});
+
+    const occurrence = await useOccurrenceStore.getState().createOccurrence(REPORT);
+
+    expect(mockedCreate).toHaveBeenCalledWith(expect.objectContaining({anonymous: true}));
+    expect(occurrence).toMatchObject({createdBy: null, isAnonymous: true});
+    expect(useOccurrenceStore.getState().occurrences[0]).toMatchObject({
+      createdBy: null,
+      isAnonymous: true,
+    });
+  });
+
+  it('should keep anonymous reports anonymous when sent from the outbox', async () => {
+    mockedCreate
+      .mockRejectedValueOnce(NETWORK_ERROR)
+      .mockResolvedValueOnce({occurrence: OCCURRENCE});
+
+    expect(await useOccurrenceStore.getState().createOccurrence(REPORT)).toBeNull();
+    expect(useOccurrenceStore.getState().outbox[0].data.anonymous).toBe(true);
+
+    useOccurrenceStore.setState(state => ({
+      outbox: state.outbox.map(item => ({...item, nextAttemptAt: 0})),
+    }));
+    await useOccurrenceStore.getState().flushOutbox();
+
+    expect(mockedCreate).toHaveBeenLastCalledWith(expect.objectContaining({anonymous: true}));
+    expect(useOccurrenceStore.getState().occurrences[0]).toMatchObject({
+      createdBy: null,
+      isAnonymous: true,
+    });
+  });
+
+  it('should count anonymous reports toward the hourly limit', async () => {
+    mockedCreate.mockResolvedValue({occurrence: OCCURRENCE});
+
+    for (let i = 0; i < MAX_REPORTS_PER_HOUR; i++) {
+      await useOccurrenceStore.getState().createOccurrence(REPORT);
+    }
+
+    await expect(useOccurrenceStore.getState().createOccurrence(REPORT)).rejects.toThrow(
+      'errors.rateLimitExceeded',
+    );
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Tests for Occurrence Evidence Attachments
+ *
+ * **Property 35: Attachment Upload**
+ *
+ * For any report with attachments, the store SHALL upload them after the
+ * occurrence is created, report a progress that only grows from 0 to 1, keep
+ * the attachments already sent when the upload is cancelled or fails, and
+ * never turn a failed attachment into a failed report. Attachment files SHALL
+ * be deleted once the report no longer needs them.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as fc from 'fast-check';
+import RNFS from 'react-native-fs';
+
+import {occurrencesService} from '../../services/api/occurrences';
+import type {
+  CreateOccurrenceData,
+  LocalAttachment,
+  Occurrence,
+  OccurrenceAttachment,
+} from '../../types/models';
+import {getAttachmentUploadProgress, useOccurrenceStore} from '../occurrenceStore';
+
+jest.mock('../../services/api/occurrences', () => ({
+  occurrencesService: {
+    create: jest.fn(),
+    uploadAttachment: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/api/heatmap', () => ({
+  heatmapService: {
+    clearCache: jest.fn(),
+  },
+}));
+
+const mockedCreate = occurrencesService.create as jest.Mock;
+const mockedUpload = occurrencesService.uploadAttachment as jest.Mock;
+const mockedUnlink = RNFS.unlink as jest.Mock;
+
+const photo = (id: string, size: number): LocalAttachment => ({
+  id,
+  kind: 'photo',
+  uri: `file:///documents/attachments/${id}.jpg`,
+  mimeType: 'image/jpeg',
+  fileName: `${id}.jpg`,
+  size,
+});
+
+const VOICE_NOTE: LocalAttachment = {
+  id: 'voice',
+  kind: 'audio',
+  uri: 'file:///documents/attachments/voice_note.m4a',
+  mimeType: 'audio/mp4',
+  fileName: 'voice_note.m4a',
+  durationMs: 12000,
+};
+
+const REPORT: CreateOccurrenceData = {
+  location: {latitude: -23.5505, longitude: -46.6333},
+  timestamp: '2024-01-01T10:00:00Z',
+  crimeTypeId: '1',
+  severity: 'high',
+  attachments: [photo('a', 1000), photo('b', 3000), VOICE_NOTE],
+};
+
+const OCCURRENCE: Occurrence = {
+  id: '42',
+  timestamp: REPORT.timestamp,
+  location: REPORT.location,
+  crimeType: {id: '1', name: 'Roubo', categoryId: '1'},
+  severity: 'high',
+  confidenceScore: 1,
+  source: 'collaborative',
+  createdBy: null,
+  attachments: [],
+};
+
+/** Server copy of an uploaded attachment */
+const uploaded = (attachment: LocalAttachment): OccurrenceAttachment => ({
+  id: `server_${attachment.id}`,
+  kind: attachment.kind,
+  url: `https://cdn.example.com/${attachment.fileName}`,
+  mimeType: attachment.mimeType,
+});
+
+const NETWORK_ERROR = {code: 'UNKNOWN_ERROR', message: 'Network Error', status: 0};
+
+describe('Occurrence Store - Attachments', () => {
+  beforeEach(async () => {
+    mockedCreate.mockReset();
+    mockedUpload.mockReset();
+    mockedUnlink.mockClear();
+    useOccurrenceStore.getState().reset();
+    await AsyncStorage.clear();
+  });
+
+  describe('Property 35: Attachment upload', () => {
+    it('should report a progress that only grows from 0 to 1', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({min: 0, max: 5_000_000}), {minLength: 1, maxLength: 4}),
+          fc.array(fc.double({min: 0, max: 1, noNaN: true}), {minLength: 1, maxLength: 10}),
+          (sizes, fractions) => {
+            // Every attachment sent in steps, one after the other
+            const steps = sizes.flatMap((_, index) =>
+              [0, ...[...fractions].sort((a, b) => a - b), 1].map(fraction =>
+                getAttachmentUploadProgress(sizes, index, fraction),
+              ),
+            );
+            return (
+              steps[0] === 0 &&
+              steps[steps.length - 1] === 1 &&
+              steps.every((progress, index) => index === 0 || progress >= steps[index - 1] - 1e-12)
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should upload every attachment after the occurrence is created', async () => {
+    mockedCreate.mockResolvedValue({occurrence: OCCURRENCE});
+    const progress: number[] = [];
+    mockedUpload.mockImplementation(
+      async (
+        _id: string,
+        attachment: LocalAttachment,
+        options: {onProgress: (f: number) => void},
+      ) => {
+        options.onProgress(0.5);
+        progress.push(useOccurrenceStore.getState().attachmentUpload!.progress);
+        return uploaded(attachment);
+      },
+    );
+
+    const occurrence = await useOccurrenceStore.getState().createOccurrence(REPORT);
+
+    expect(mockedUpload.mock.calls.map(([id, attachment]) => [id, attachment.id])).toEqual([
+      ['42', 'a'],
+      ['42', 'b'],
+      ['42', 'voice'],
+    ]);
+    // Photos weighted by size, the voice note without a size by one byte
+    expect(progress).toEqual([500 / 4001, 2500 / 4001, 4000.5 / 4001]);
+    expect(occurrence?.attachments?.map(attachment => attachment.id)).toEqual([
+      'server_a',
+      'server_b',
+      'server_voice',
+    ]);
+    const state = useOccurrenceStore.getState();
+    expect(state.occurrences[0].attachments).toHaveLength(3);
+    expect(state.attachmentUpload).toBeNull();
+    expect(state.attachmentError).toBeNull();
+    expect(mockedUnlink.mock.calls.map(([path]) => path)).toEqual([
+      '/documents/attachments/a.jpg',
+      '/documents/attachments/b.jpg',
+      '/documents/attachments/voice_note.m4a',
+    ]);
+  });
+
+  it('should keep the attachments already sent when the upload is cancelled', async () => {
+    mockedCreate.mockResolvedValue({occurrence: OCCURRENCE});
+    mockedUpload.mockImplementation(
+      (_id: string, attachment: LocalAttachment, options: {signal: AbortSignal}) => {
+        if (attachment.id === 'a') {
+          return Promise.resolve(uploaded(attachment));
+        }
+        // Second upload hangs until it is aborted
+        useOccurrenceStore.getState().cancelAttachmentUpload();
+        return new Promise((_, reject) =>
+          options.signal.aborted
+            ? reject(NETWORK_ERROR)
+            : options.signal.addEventListener('abort', () => reject(NETWORK_ERROR)),
+        );
+      },
+    );
+
+    const occurrence = await useOccurrenceStore.getState().createOccurrence(REPORT);
+
+    expect(mockedUpload).toHaveBeenCalledTimes(2);
+    expect(occurrence?.attachments?.map(attachment => attachment.id)).toEqual(['server_a']);
+    expect(useOccurrenceStore.getState().attachmentError).toBeNull();
+    expect(useOccurrenceStore.getState().attachmentUpload).toBeNull();
+  });
+
+  it('should keep the report when an attachment fails to upload', async () => {
+    mockedCreate.mockResolvedValue({occurrence: OCCURRENCE});
+    mockedUpload.mockRejectedValue(NETWORK_ERROR);
+
+    const occurrence = await useOccurrenceStore.getState().createOccurrence(REPORT);
+
+    expect(occurrence?.id).toBe('42');
+    expect(mockedUpload).toHaveBeenCalledTimes(1);
+    const state = useOccurrenceStore.getState();
+    expect(state.outbox).toHaveLength(0);
+    expect(state.occurrences.map(occ => occ.id)).toEqual(['42']);
+    expect(state.attachmentError).toBe('occurrence.attachments.errors.uploadFailed');
+  });
+
+  it('should send the attachments of queued reports once they are delivered', async () => {
+    mockedCreate
+      .mockRejectedValueOnce(NETWORK_ERROR)
+      .mockResolvedValueOnce({occurrence: OCCURRENCE});
+    mockedUpload.mockImplementation((_id: string, attachment: LocalAttachment) =>
+      Promise.resolve(uploaded(attachment)),
+    );
+
+    expect(await useOccurrenceStore.getState().createOccurrence(REPORT)).toBeNull();
+    expect(mockedUpload).not.toHaveBeenCalled();
+    expect(mockedUnlink).not.toHaveBeenCalled();
+    // Only the file uris are kept in the persisted outbox
+    const persisted = JSON.parse((await AsyncStorage.getItem('occurrence-outbox')) ?? '{}');
+    expect(
+      persisted.state.outbox[0].data.attachments.map((item: LocalAttachment) => item.uri),
+    ).toEqual(REPORT.attachments!.map(item => item.uri));
+
+    useOccurrenceStore.setState(state => ({
+      outbox: state.outbox.map(item => ({...item, nextAttemptAt: 0})),
+    }));
+    await useOccurrenceStore.getState().flushOutbox();
+
+    expect(mockedUpload).toHaveBeenCalledTimes(3);
+    expect(useOccurrenceStore.getState().occurrences[0].attachments).toHaveLength(3);
+  });
+
+  it('should delete the files of a discarded queued report', async () => {
+    mockedCreate.mockRejectedValue(NETWORK_ERROR);
+
+    await useOccurrenceStore.getState().createOccurrence(REPORT);
+    const [item] = useOccurrenceStore.getState().outbox;
+    useOccurrenceStore.getState().removeOutboxItem(item.id);
+
+    expect(useOccurrenceStore.getState().outbox).toHaveLength(0);
+    expect(mockedUnlink).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only delete files in the attachments folder', async () => {
+    mockedCreate.mockResolvedValue({occurrence: OCCURRENCE});
+    mockedUpload.mockImplementation((_id: string, attachment: LocalAttachment) =>
+      Promise.resolve(uploaded(attachment)),
+    );
+
+    await useOccurrenceStore.getState().createOccurrence({
+      ...REPORT,
+      attachments: [{...VOICE_NOTE, uri: 'file:///documents/notes.m4a'}],
+    });
+
+    expect(mockedUpload).toHaveBeenCalledTimes(1);
+    expect(mockedUnlink).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for Map Occurrence Filters
+ *
+ * **Property 31: Occurrence Filtering**
+ *
+ * For any filter selection, the map SHALL only show occurrences of the selected
+ * crime types and severities within the selected time window, an empty selection
+ * SHALL show everything, and the selection SHALL survive restarts.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as fc from 'fast-check';
+
+import {occurrencesService} from '../../services/api/occurrences';
+import type {MapBounds, Occurrence, OccurrenceFilters} from '../../types/models';
+import {
+  EMPTY_OCCURRENCE_FILTERS,
+  FILTER_PERIODS,
+  FILTER_PERIOD_DURATION,
+  filterOccurrences,
+  getFilterDateRange,
+  toHeatmapFilters,
+} from '../../utils/occurrenceFilters';
+import {useOccurrenceStore} from '../occurrenceStore';
+
+jest.mock('../../services/api/occurrences', () => ({
+  occurrencesService: {
+    getNearby: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/api/heatmap', () => ({
+  heatmapService: {
+    clearCache: jest.fn(),
+  },
+}));
+
+const mockedGetNearby = occurrencesService.getNearby as jest.Mock;
+
+const NOW = new Date('2024-03-01T12:00:00Z').getTime();
+const HOUR = 60 * 60 * 1000;
+
+const BOUNDS: MapBounds = {
+  northEast: {latitude: -23.5, longitude: -46.6},
+  southWest: {latitude: -23.6, longitude: -46.7},
+};
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+const CRIME_TYPES = ['1', '2', '3', '4'];
+
+const occurrence = (
+  id: string,
+  crimeType: string,
+  severity: Occurrence['severity'],
+  hoursAgo: number,
+): Occurrence => ({
+  id,
+  timestamp: new Date(NOW - hoursAgo * HOUR).toISOString(),
+  location: {latitude: -23.55, longitude: -46.63},
+  crimeType: {id: crimeType, name: 'Roubo', categoryId: '1'},
+  severity,
+  confidenceScore: 1,
+  source: 'collaborative',
+  createdBy: null,
+});
+
+const occurrencesArbitrary = fc
+  .array(
+    fc.record({
+      crimeType: fc.constantFrom(...CRIME_TYPES),
+      severity: fc.constantFrom(...SEVERITIES),
+      hoursAgo: fc.integer({min: 0, max: 24 * 60}),
+    }),
+    {maxLength: 30},
+  )
+  .map(items =>
+    items.map((item, index) =>
+      occurrence(String(index), item.crimeType, item.severity, item.hoursAgo),
+    ),
+  );
+
+const filtersArbitrary: fc.Arbitrary<OccurrenceFilters> = fc.record({
+  crimeTypes: fc.subarray(CRIME_TYPES),
+  severity: fc.subarray([...SEVERITIES]),
+  period: fc.option(fc.constantFrom(...FILTER_PERIODS), {nil: undefined}),
+});
+
+describe('Occurrence Store - Filters', () => {
+  beforeEach(async () => {
+    mockedGetNearby.mockReset();
+    useOccurrenceStore.getState().reset();
+    await AsyncStorage.clear();
+  });
+
+  describe('Property 31: Occurrence filtering', () => {
+    it('should keep exactly the occurrences matching every selected filter', () => {
+      fc.assert(
+        fc.property(occurrencesArbitrary, filtersArbitrary, (occurrences, filters) => {
+          const matches = (occ: Occurrence) =>
+            (!filters.crimeTypes?.length || filters.crimeTypes.includes(occ.crimeType.id)) &&
+            (!filters.severity?.length || filters.severity.includes(occ.severity)) &&
+            (!filters.period ||
+              NOW - new Date(occ.timestamp).getTime() <= FILTER_PERIOD_DURATION[filters.period]);
+
+          const filtered = filterOccurrences(occurrences, filters, NOW);
+          const expected = occurrences.filter(matches);
+          return (
+            filtered.length === expected.length &&
+            filtered.every((occ, index) => occ === expected[index])
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should show everything when nothing is selected', () => {
+      fc.assert(
+        fc.property(occurrencesArbitrary, occurrences => {
+          return (
+            filterOccurrences(occurrences, EMPTY_OCCURRENCE_FILTERS, NOW).length ===
+            occurrences.length
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should send the time window as a date range ending now', () => {
+    expect(getFilterDateRange(undefined, NOW)).toBeNull();
+    expect(getFilterDateRange('last_24h', NOW)).toEqual({
+      startDate: new Date(NOW - 24 * HOUR).toISOString(),
+      endDate: new Date(NOW).toISOString(),
+    });
+  });
+
+  it('should share the crime types and period with the heatmap', () => {
+    expect(toHeatmapFilters(EMPTY_OCCURRENCE_FILTERS)).toBeUndefined();
+    expect(toHeatmapFilters({crimeTypes: ['1'], severity: ['high'], period: 'last_7d'})).toEqual({
+      crimeTypes: ['1'],
+      period: 'last_7d',
+    });
+  });
+
+  it('should hide occurrences outside new filters right away and persist them', async () => {
+    useOccurrenceStore.setState({
+      occurrences: [occurrence('1', '1', 'high', 1), occurrence('2', '2', 'low', 1)],
+    });
+
+    useOccurrenceStore.getState().setFilters({crimeTypes: ['1'], severity: [], period: undefined});
+
+    expect(useOccurrenceStore.getState().occurrences.map(occ => occ.id)).toEqual(['1']);
+    const stored = JSON.parse((await AsyncStorage.getItem('occurrence-outbox')) ?? '{}');
+    expect(stored.state.filters).toEqual({crimeTypes: ['1'], severity: []});
+  });
+
+  it('should fetch with the current filters and drop responses for older filters', async () => {
+    const filters: OccurrenceFilters = {crimeTypes: ['2'], severity: ['high'], period: 'last_7d'};
+
+    let resolveFirst: (value: Occurrence[]) => void = () => undefined;
+    mockedGetNearby
+      .mockReturnValueOnce(new Promise(resolve => (resolveFirst = resolve)))
+      .mockResolvedValueOnce([occurrence('2', '2', 'high', 1)]);
+
+    const first = useOccurrenceStore.getState().fetchOccurrences(BOUNDS);
+    useOccurrenceStore.getState().setFilters(filters);
+    await useOccurrenceStore.getState().fetchOccurrences(BOUNDS);
+    resolveFirst([occurrence('1', '1', 'low', 1)]);
+    await first;
+
+    expect(mockedGetNearby).toHaveBeenLastCalledWith({bounds: BOUNDS, filters});
+    expect(useOccurrenceStore.getState().occurrences.map(occ => occ.id)).toEqual(['2']);
+  });
+});
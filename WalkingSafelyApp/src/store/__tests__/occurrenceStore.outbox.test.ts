@@ -0,0 +1,254 @@
+/**
+ * Tests for the Occurrence Outbox
+ *
+ * **Property 23: Occurrence Report Delivery**
+ * **Validates: Requirements 4.5, 5.2**
+ *
+ * For any report created without connectivity, the store SHALL keep it in a
+ * persisted outbox, retry it with exponential backoff up to MAX_RETRY_ATTEMPTS,
+ * never accept more than MAX_REPORTS_PER_HOUR submissions locally, counting
+ * only reports the server accepted or the outbox holds, and mark
+ * server rejections (rate limit, validation) as failed with their error.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as fc from 'fast-check';
+
+import {occurrencesService} from '../../services/api/occurrences';
+import type {CreateOccurrenceData, Occurrence} from '../../types/models';
+import {MAX_REPORTS_PER_HOUR, MAX_RETRY_ATTEMPTS} from '../../utils/constants';
+import {
+  OUTBOX_RETRY_BASE_DELAY,
+  OUTBOX_RETRY_MAX_DELAY,
+  OutboxItem,
+  applyOutboxFailure,
+  canSubmitReport,
+  getOutboxRetryDelay,
+  useOccurrenceStore,
+} from '../occurrenceStore';
+
+jest.mock('../../services/api/occurrences', () => ({
+  occurrencesService: {
+    create: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/api/heatmap', () => ({
+  heatmapService: {
+    clearCache: jest.fn(),
+  },
+}));
+
+const mockedCreate = occurrencesService.create as jest.Mock;
+
+const REPORT: CreateOccurrenceData = {
+  location: {latitude: -23.5505, longitude: -46.6333},
+  timestamp: '2024-01-01T10:00:00Z',
+  crimeTypeId: '1',
+  severity: 'high',
+};
+
+const OCCURRENCE: Occurrence = {
+  id: '42',
+  timestamp: REPORT.timestamp,
+  location: REPORT.location,
+  crimeType: {id: '1', name: 'Roubo', categoryId: '1'},
+  severity: 'high',
+  confidenceScore: 1,
+  source: 'collaborative',
+  createdBy: null,
+};
+
+/** Errors produced by the API client */
+const NETWORK_ERROR = {code: 'UNKNOWN_ERROR', message: 'Network Error', status: 0};
+const RATE_LIMIT_ERROR = {
+  code: 'RATE_LIMIT_EXCEEDED',
+  message: 'Limite de ocorrências atingido',
+  status: 429,
+};
+const VALIDATION_ERROR = {
+  code: 'VALIDATION_ERROR',
+  message: 'Erro de validação',
+  status: 422,
+  validationErrors: {latitude: ['Fora da área atendida']},
+};
+
+const QUEUED_ITEM: OutboxItem = {
+  id: 'outbox_1',
+  data: REPORT,
+  status: 'pending',
+  attempts: 0,
+  nextAttemptAt: 0,
+  createdAt: 0,
+  error: null,
+};
+
+describe('Occurrence Store - Outbox', () => {
+  beforeEach(async () => {
+    mockedCreate.mockReset();
+    useOccurrenceStore.getState().reset();
+    await AsyncStorage.clear();
+  });
+
+  it('should queue the report and persist it when there is no network', async () => {
+    mockedCreate.mockRejectedValue(NETWORK_ERROR);
+
+    const result = await useOccurrenceStore.getState().createOccurrence(REPORT);
+    const {outbox, createError} = useOccurrenceStore.getState();
+
+    expect(result).toBeNull();
+    expect(createError).toBeNull();
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0]).toMatchObject({data: REPORT, status: 'pending', attempts: 1});
+
+    const stored = JSON.parse((await AsyncStorage.getItem('occurrence-outbox')) ?? '{}');
+    expect(stored.state.outbox[0].data).toEqual(REPORT);
+  });
+
+  it('should send due reports and move them to the map when the network is back', async () => {
+    useOccurrenceStore.setState({outbox: [QUEUED_ITEM]});
+    mockedCreate.mockResolvedValue({occurrence: OCCURRENCE});
+
+    await useOccurrenceStore.getState().flushOutbox();
+    const state = useOccurrenceStore.getState();
+
+    expect(mockedCreate).toHaveBeenCalledWith(REPORT);
+    expect(state.outbox).toHaveLength(0);
+    expect(state.occurrences).toEqual([OCCURRENCE]);
+  });
+
+  it('should not retry before the backoff delay has elapsed', async () => {
+    useOccurrenceStore.setState({
+      outbox: [{...QUEUED_ITEM, attempts: 1, nextAttemptAt: Date.now() + OUTBOX_RETRY_BASE_DELAY}],
+    });
+
+    await useOccurrenceStore.getState().flushOutbox();
+
+    expect(mockedCreate).not.toHaveBeenCalled();
+  });
+
+  it('should surface server rejections on the queued item', async () => {
+    useOccurrenceStore.setState({
+      outbox: [QUEUED_ITEM, {...QUEUED_ITEM, id: 'outbox_2'}],
+    });
+    mockedCreate.mockRejectedValueOnce(RATE_LIMIT_ERROR).mockRejectedValueOnce(VALIDATION_ERROR);
+
+    await useOccurrenceStore.getState().flushOutbox();
+    const [rateLimited, invalid] = useOccurrenceStore.getState().outbox;
+
+    expect(rateLimited.status).toBe('failed');
+    expect(rateLimited.error?.code).toBe('RATE_LIMIT_EXCEEDED');
+    expect(invalid.status).toBe('failed');
+    expect(invalid.error?.validationErrors).toEqual(VALIDATION_ERROR.validationErrors);
+  });
+
+  it('should refuse new reports once the hourly limit is reached', async () => {
+    const now = Date.now();
+    useOccurrenceStore.setState({
+      reportTimestamps: Array.from({length: MAX_REPORTS_PER_HOUR}, (_, i) => now - i * 1000),
+    });
+
+    await expect(useOccurrenceStore.getState().createOccurrence(REPORT)).rejects.toThrow(
+      'errors.rateLimitExceeded',
+    );
+    expect(mockedCreate).not.toHaveBeenCalled();
+  });
+
+  it('should only count accepted or queued reports toward the hourly limit', async () => {
+    mockedCreate
+      .mockRejectedValueOnce(VALIDATION_ERROR)
+      .mockResolvedValueOnce({occurrence: OCCURRENCE})
+      .mockRejectedValueOnce(NETWORK_ERROR);
+
+    await expect(useOccurrenceStore.getState().createOccurrence(REPORT)).rejects.toEqual(
+      VALIDATION_ERROR,
+    );
+    expect(useOccurrenceStore.getState().reportTimestamps).toHaveLength(0);
+
+    await useOccurrenceStore.getState().createOccurrence(REPORT);
+    expect(useOccurrenceStore.getState().reportTimestamps).toHaveLength(1);
+
+    await useOccurrenceStore.getState().createOccurrence(REPORT);
+    expect(useOccurrenceStore.getState().reportTimestamps).toHaveLength(2);
+  });
+
+  it('should restart retries for a failed item', async () => {
+    useOccurrenceStore.setState({
+      outbox: [{...QUEUED_ITEM, status: 'failed', attempts: MAX_RETRY_ATTEMPTS}],
+    });
+    mockedCreate.mockResolvedValue({occurrence: OCCURRENCE});
+
+    await useOccurrenceStore.getState().retryOutboxItem('outbox_1');
+
+    expect(useOccurrenceStore.getState().outbox).toHaveLength(0);
+  });
+
+  describe('getOutboxRetryDelay', () => {
+    it('should grow with every attempt without exceeding the maximum delay', () => {
+      fc.assert(
+        fc.property(fc.integer({min: 1, max: 50}), attempts => {
+          const delay = getOutboxRetryDelay(attempts);
+          return (
+            delay >= OUTBOX_RETRY_BASE_DELAY &&
+            delay <= OUTBOX_RETRY_MAX_DELAY &&
+            getOutboxRetryDelay(attempts + 1) >= delay
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  describe('canSubmitReport', () => {
+    it('should only count submissions from the last hour', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({min: 0, max: 2 * 60 * 60 * 1000}), {maxLength: 10}),
+          ages => {
+            const now = 1e12;
+            const recent = ages.filter(age => age < 60 * 60 * 1000).length;
+            return (
+              canSubmitReport(
+                ages.map(age => now - age),
+                now,
+              ) ===
+              recent < MAX_REPORTS_PER_HOUR
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  describe('applyOutboxFailure', () => {
+    it('should keep retrying network failures until MAX_RETRY_ATTEMPTS', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({min: 0, max: MAX_RETRY_ATTEMPTS + 2}),
+          fc.integer({min: 0, max: 1e12}),
+          (attempts, now) => {
+            const item = applyOutboxFailure({...QUEUED_ITEM, attempts}, NETWORK_ERROR, now);
+            const shouldRetry = attempts + 1 < MAX_RETRY_ATTEMPTS;
+            return (
+              item.attempts === attempts + 1 &&
+              item.status === (shouldRetry ? 'pending' : 'failed') &&
+              (!shouldRetry || item.nextAttemptAt === now + getOutboxRetryDelay(attempts + 1))
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+
+    it('should fail rate limit and validation errors on the first attempt', () => {
+      fc.assert(
+        fc.property(fc.constantFrom(RATE_LIMIT_ERROR, VALIDATION_ERROR), error => {
+          const item = applyOutboxFailure(QUEUED_ITEM, error, Date.now());
+          return item.status === 'failed' && item.error?.code === error.code;
+        }),
+        {numRuns: 10},
+      );
+    });
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Tests for Viewport Occurrence Loading
+ *
+ * **Property 32: Incremental Viewport Loading**
+ *
+ * For any sequence of viewports, the store SHALL only request map tiles that
+ * were not loaded yet or went stale, at most MAX_VIEWPORT_TILES at a time,
+ * SHALL follow every page of a dense area, SHALL keep one entry per occurrence
+ * id, and SHALL drop occurrences far from the viewport.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as fc from 'fast-check';
+
+import {apiClient} from '../../shared/services/api';
+import {MAX_OCCURRENCE_PAGES, occurrencesService} from '../../services/api/occurrences';
+import type {MapBounds, Occurrence} from '../../types/models';
+import {calculateDistance} from '../../utils/geo';
+import {getTileKey, getTilesForBounds, tileToBounds} from '../../utils/mapTiles';
+import {
+  MAX_VIEWPORT_TILES,
+  OCCURRENCE_TILE_TTL,
+  evictOutsideBounds,
+  getFreshTiles,
+  getMissingTiles,
+  getOccurrenceTileZoom,
+  mergeOccurrences,
+  replaceTileOccurrences,
+} from '../../utils/occurrenceViewport';
+import {useOccurrenceStore} from '../occurrenceStore';
+
+jest.mock('../../shared/services/api', () => ({
+  ...jest.requireActual('../../shared/services/api'),
+  apiClient: {get: jest.fn()},
+}));
+
+jest.mock('../../services/api/heatmap', () => ({
+  heatmapService: {
+    clearCache: jest.fn(),
+  },
+}));
+
+const mockedGet = apiClient.get as jest.Mock;
+
+/** Backend occurrence at the given position */
+const backendOccurrence = (id: number, latitude: number, longitude: number) => ({
+  id,
+  timestamp: '2024-03-01T12:00:00Z',
+  location: {latitude, longitude},
+  crime_type: {id: 1, name: 'Roubo', category_id: 1},
+  severity: 'high',
+  confidence_score: 2,
+  source: 'collaborative',
+});
+
+/** A dense grid of occurrences inside VIEWPORT, in the center of São Paulo */
+const DATASET = Array.from({length: 400}, (_, index) =>
+  backendOccurrence(
+    index + 1,
+    -23.5595 + (index % 20) * 0.00095,
+    -46.6395 + Math.floor(index / 20) * 0.00095,
+  ),
+);
+
+/**
+ * Answer /occurrences like the backend: occurrences inside the search circle,
+ * newest first, one page at a time
+ */
+const serveOccurrences = (_url: string, {params}: {params: Record<string, number>}) => {
+  const nearby = DATASET.filter(
+    occ =>
+      calculateDistance(occ.location, {latitude: params.latitude, longitude: params.longitude}) <=
+      params.radius,
+  );
+  const lastPage = Math.max(1, Math.ceil(nearby.length / params.per_page));
+  return Promise.resolve({
+    data: {
+      data: nearby.slice((params.page - 1) * params.per_page, params.page * params.per_page),
+      meta: {
+        current_page: params.page,
+        last_page: lastPage,
+        per_page: params.per_page,
+        total: nearby.length,
+      },
+    },
+  });
+};
+
+const VIEWPORT: MapBounds = {
+  southWest: {latitude: -23.56, longitude: -46.64},
+  northEast: {latitude: -23.54, longitude: -46.62},
+};
+
+/** The viewport moved by the given fraction of its size */
+const pan = (bounds: MapBounds, fraction: number): MapBounds => {
+  const lngSpan = bounds.northEast.longitude - bounds.southWest.longitude;
+  return {
+    southWest: {...bounds.southWest, longitude: bounds.southWest.longitude + lngSpan * fraction},
+    northEast: {...bounds.northEast, longitude: bounds.northEast.longitude + lngSpan * fraction},
+  };
+};
+
+const boundsArbitrary = fc
+  .record({
+    latitude: fc.double({min: -60, max: 60, noNaN: true}),
+    longitude: fc.double({min: -170, max: 170, noNaN: true}),
+    latSpan: fc.double({min: 0.001, max: 0.5, noNaN: true}),
+    lngSpan: fc.double({min: 0.001, max: 0.5, noNaN: true}),
+  })
+  .map(
+    ({latitude, longitude, latSpan, lngSpan}): MapBounds => ({
+      southWest: {latitude, longitude},
+      northEast: {latitude: latitude + latSpan, longitude: longitude + lngSpan},
+    }),
+  );
+
+const occurrence = (id: string, latitude: number, longitude: number): Occurrence => ({
+  id,
+  timestamp: '2024-03-01T12:00:00Z',
+  location: {latitude, longitude},
+  crimeType: {id: '1', name: 'Roubo', categoryId: '1'},
+  severity: 'high',
+  confidenceScore: 1,
+  source: 'collaborative',
+  createdBy: null,
+});
+
+describe('Occurrence Store - Viewport loading', () => {
+  beforeEach(async () => {
+    mockedGet.mockReset();
+    mockedGet.mockImplementation(serveOccurrences);
+    useOccurrenceStore.getState().reset();
+    await AsyncStorage.clear();
+  });
+
+  describe('Property 32: Incremental viewport loading', () => {
+    it('should never request a tile that is already loaded', () => {
+      fc.assert(
+        fc.property(boundsArbitrary, fc.double({min: 0, max: 1, noNaN: true}), (bounds, ratio) => {
+          const tiles = getTilesForBounds(bounds, getOccurrenceTileZoom(bounds));
+          const loaded = new Set(tiles.slice(0, Math.floor(tiles.length * ratio)).map(getTileKey));
+          const missing = getMissingTiles(bounds, loaded);
+          return missing.every(tile => !loaded.has(getTileKey(tile)));
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should keep a single entry per occurrence id, with the newest data', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({min: 1, max: 20}), {maxLength: 20}),
+          fc.array(fc.integer({min: 1, max: 20}), {maxLength: 20}),
+          (currentIds, loadedIds) => {
+            const loaded = loadedIds.map(id => ({
+              ...occurrence(String(id), 0, 0),
+              confidenceScore: 4,
+            }));
+            const merged = mergeOccurrences(
+              currentIds.map(id => occurrence(String(id), 0, 0)),
+              loaded,
+            );
+            const ids = merged.map(occ => occ.id);
+            return (
+              new Set(ids).size === ids.length &&
+              new Set([...currentIds, ...loadedIds].map(String)).size === ids.length &&
+              merged.every(occ => !loadedIds.includes(Number(occ.id)) || occ.confidenceScore === 4)
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+
+    it('should keep every occurrence of the tiles still loaded', () => {
+      const tile = getTilesForBounds(VIEWPORT, getOccurrenceTileZoom(VIEWPORT))[0];
+      const inside = occurrence('inside', -23.55, -46.63);
+      const farAway = occurrence('far', -22.9, -43.2);
+
+      const result = evictOutsideBounds([inside, farAway], {[getTileKey(tile)]: 1000}, VIEWPORT);
+
+      expect(result.occurrences).toEqual([inside]);
+      expect(result.loadedTiles).toEqual({[getTileKey(tile)]: 1000});
+    });
+
+    it('should only trust tiles loaded within the TTL', () => {
+      fc.assert(
+        fc.property(
+          fc.dictionary(
+            fc.string({minLength: 1}),
+            fc.integer({min: 0, max: 2 * OCCURRENCE_TILE_TTL}),
+          ),
+          loadedTiles => {
+            const now = 2 * OCCURRENCE_TILE_TTL;
+            const fresh = getFreshTiles(loadedTiles, now);
+            return Object.entries(loadedTiles).every(
+              ([key, loadedAt]) => fresh.has(key) === now - loadedAt <= OCCURRENCE_TILE_TTL,
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should replace the occurrences of reloaded tiles', () => {
+    const tile = getTilesForBounds(VIEWPORT, getOccurrenceTileZoom(VIEWPORT))[0];
+    const tileKey = getTileKey(tile);
+    const {southWest, northEast} = tileToBounds(tile);
+    const inTile = (id: string) =>
+      occurrence(
+        id,
+        (southWest.latitude + northEast.latitude) / 2,
+        (southWest.longitude + northEast.longitude) / 2,
+      );
+    const elsewhere = occurrence('elsewhere', -22.9, -43.2);
+
+    const result = replaceTileOccurrences(
+      [inTile('gone'), inTile('kept'), elsewhere],
+      [tileKey],
+      [inTile('kept'), inTile('new')],
+    );
+
+    expect(result.map(occ => occ.id).sort()).toEqual(['elsewhere', 'kept', 'new']);
+  });
+
+  it('should follow every page of a dense area', async () => {
+    const occurrences = await occurrencesService.getNearby({bounds: VIEWPORT});
+    const pages = mockedGet.mock.calls.map(([, {params}]) => params.page);
+
+    expect(pages).toEqual([1, 2, 3, 4]);
+    expect(pages.length).toBeLessThanOrEqual(MAX_OCCURRENCE_PAGES);
+    expect(new Set(occurrences.map(occ => occ.id)).size).toBe(DATASET.length);
+  });
+
+  it('should only fetch the newly revealed tiles when the map moves', async () => {
+    const store = useOccurrenceStore.getState();
+
+    await store.loadViewport(VIEWPORT);
+    const firstTiles = Object.keys(useOccurrenceStore.getState().loadedTiles);
+    const loadedCount = useOccurrenceStore.getState().occurrences.length;
+    expect(firstTiles.length).toBeGreaterThan(0);
+    expect(loadedCount).toBeGreaterThan(0);
+
+    // Same viewport again: nothing to fetch
+    mockedGet.mockClear();
+    await store.loadViewport(VIEWPORT);
+    expect(mockedGet).not.toHaveBeenCalled();
+
+    // Half a viewport to the east: only the tiles that were not loaded
+    const panned = pan(VIEWPORT, 0.5);
+    const revealed = getMissingTiles(panned, new Set(firstTiles));
+    expect(revealed.length).toBeLessThan(getMissingTiles(panned, new Set()).length);
+
+    await store.loadViewport(panned);
+    const firstPages = mockedGet.mock.calls.filter(([, {params}]) => params.page === 1);
+    expect(firstPages).toHaveLength(revealed.length);
+
+    const {occurrences} = useOccurrenceStore.getState();
+    expect(new Set(occurrences.map(occ => occ.id)).size).toBe(occurrences.length);
+  });
+
+  it('should evict occurrences far from the viewport', async () => {
+    const store = useOccurrenceStore.getState();
+    await store.loadViewport(VIEWPORT);
+    const firstTiles = Object.keys(useOccurrenceStore.getState().loadedTiles);
+
+    // Another city, the São Paulo tiles and occurrences are dropped
+    await store.loadViewport({
+      southWest: {latitude: -22.92, longitude: -43.22},
+      northEast: {latitude: -22.9, longitude: -43.2},
+    });
+
+    const {loadedTiles, occurrences} = useOccurrenceStore.getState();
+    expect(occurrences).toHaveLength(0);
+    expect(Object.keys(loadedTiles).some(key => firstTiles.includes(key))).toBe(false);
+  });
+
+  it('should load the viewport again when the filters change', async () => {
+    const store = useOccurrenceStore.getState();
+    await store.loadViewport(VIEWPORT);
+
+    store.setFilters({crimeTypes: ['1'], severity: [], period: undefined});
+    expect(useOccurrenceStore.getState().loadedTiles).toEqual({});
+
+    mockedGet.mockClear();
+    await store.loadViewport(VIEWPORT);
+    expect(mockedGet).toHaveBeenCalledWith(
+      '/occurrences',
+      expect.objectContaining({params: expect.objectContaining({crime_type_id: '1'})}),
+    );
+  });
+
+  it('should request failed tiles again on the next load', async () => {
+    mockedGet.mockRejectedValueOnce({code: 'UNKNOWN_ERROR', message: 'Network Error', status: 0});
+
+    await useOccurrenceStore.getState().loadViewport(VIEWPORT);
+    const {loadedTiles, error} = useOccurrenceStore.getState();
+    const tileCount = getMissingTiles(VIEWPORT, new Set()).length;
+    expect(Object.keys(loadedTiles)).toHaveLength(tileCount - 1);
+    expect(error).toBe('errors.fetchOccurrences');
+
+    await useOccurrenceStore.getState().loadViewport(VIEWPORT);
+    expect(Object.keys(useOccurrenceStore.getState().loadedTiles)).toHaveLength(tileCount);
+  });
+
+  it('should load stale tiles again and drop what is gone from the server', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const store = useOccurrenceStore.getState();
+    await store.loadViewport(VIEWPORT);
+    const loadedCount = useOccurrenceStore.getState().occurrences.length;
+
+    mockedGet.mockClear();
+    now.mockReturnValue(1_000_000 + OCCURRENCE_TILE_TTL);
+    await store.loadViewport(VIEWPORT);
+    expect(mockedGet).not.toHaveBeenCalled();
+
+    // Past the TTL, with the first occurrence withdrawn on the server
+    const withdrawn = DATASET.shift();
+    now.mockReturnValue(1_000_001 + OCCURRENCE_TILE_TTL);
+    try {
+      await store.loadViewport(VIEWPORT);
+    } finally {
+      if (withdrawn) {
+        DATASET.unshift(withdrawn);
+      }
+      now.mockRestore();
+    }
+
+    expect(mockedGet).toHaveBeenCalled();
+    const {occurrences, loadedTiles} = useOccurrenceStore.getState();
+    expect(occurrences).toHaveLength(loadedCount - 1);
+    expect(occurrences.some(occ => occ.id === String(withdrawn?.id))).toBe(false);
+    expect(
+      Object.values(loadedTiles).every(loadedAt => loadedAt === 1_000_001 + OCCURRENCE_TILE_TTL),
+    ).toBe(true);
+  });
+
+  it('should flag a viewport with more tiles than are loaded at once', async () => {
+    const wide: MapBounds = {
+      southWest: {latitude: -24.5, longitude: -47.6},
+      northEast: {latitude: -22.5, longitude: -45.6},
+    };
+    expect(getMissingTiles(wide, new Set()).length).toBeGreaterThan(MAX_VIEWPORT_TILES);
+
+    await useOccurrenceStore.getState().loadViewport(wide);
+    const firstPages = mockedGet.mock.calls.filter(([, {params}]) => params.page === 1);
+    expect(firstPages).toHaveLength(MAX_VIEWPORT_TILES);
+    expect(useOccurrenceStore.getState().viewportTruncated).toBe(true);
+
+    await useOccurrenceStore.getState().loadViewport(VIEWPORT);
+    expect(useOccurrenceStore.getState().viewportTruncated).toBe(false);
+  });
+});
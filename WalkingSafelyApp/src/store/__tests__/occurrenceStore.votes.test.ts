@@ -0,0 +1,230 @@
+/**
+ * Tests for Occurrence Voting
+ *
+ * **Property 30: One Vote per Occurrence**
+ *
+ * For any occurrence, a user SHALL be able to confirm or dispute it only once,
+ * the confidence score and counters returned by the server SHALL replace the
+ * ones shown on the map and in the details, and the vote SHALL survive restarts
+ * for the user who cast it only.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as fc from 'fast-check';
+
+import {useAuthStore} from '../../features/auth/store/authStore';
+import {occurrencesService} from '../../services/api/occurrences';
+import type {Occurrence, OccurrenceVote} from '../../types/models';
+import {
+  applyVoteResult,
+  getUserVote,
+  selectUserVotes,
+  useOccurrenceStore,
+} from '../occurrenceStore';
+
+jest.mock('../../services/api/occurrences', () => ({
+  occurrencesService: {
+    vote: jest.fn(),
+    getOccurrenceById: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/api/heatmap', () => ({
+  heatmapService: {
+    clearCache: jest.fn(),
+  },
+}));
+
+const mockedVote = occurrencesService.vote as jest.Mock;
+const mockedGetOccurrenceById = occurrencesService.getOccurrenceById as jest.Mock;
+
+const OCCURRENCE: Occurrence = {
+  id: '42',
+  timestamp: '2024-01-01T10:00:00Z',
+  location: {latitude: -23.5505, longitude: -46.6333},
+  crimeType: {id: '1', name: 'Roubo', categoryId: '1'},
+  severity: 'high',
+  confidenceScore: 1,
+  source: 'collaborative',
+  createdBy: null,
+  confirmations: 0,
+  disputes: 0,
+  userVote: null,
+};
+
+const signIn = (id: number) =>
+  useAuthStore.setState({
+    user: {
+      id,
+      name: 'Maria',
+      email: `user${id}@example.com`,
+      locale: 'pt_BR',
+      created_at: '2024-01-01T00:00:00Z',
+    },
+  });
+
+const CONFLICT_ERROR = {code: 'UNKNOWN_ERROR', message: 'Conflict', status: 409};
+
+const voteArbitrary = fc.constantFrom<OccurrenceVote>('confirm', 'dispute');
+
+describe('Occurrence Store - Votes', () => {
+  beforeEach(async () => {
+    mockedVote.mockReset();
+    mockedGetOccurrenceById.mockReset();
+    useOccurrenceStore.getState().reset();
+    signIn(7);
+    await AsyncStorage.clear();
+  });
+
+  describe('Property 30: One vote per occurrence', () => {
+    it('should find a vote cast from the server or from this device', () => {
+      fc.assert(
+        fc.property(
+          fc.option(voteArbitrary, {nil: null}),
+          fc.option(voteArbitrary, {nil: undefined}),
+          (serverVote, localVote) => {
+            const votes = localVote ? {[OCCURRENCE.id]: localVote} : {};
+            const userVote = getUserVote({...OCCURRENCE, userVote: serverVote}, votes);
+            return userVote === (serverVote ?? localVote ?? null);
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+
+    it('should only send the first vote on an occurrence', async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.array(voteArbitrary, {minLength: 1, maxLength: 5}), async votes => {
+          useOccurrenceStore.getState().reset();
+          useOccurrenceStore.setState({occurrences: [OCCURRENCE]});
+          mockedVote.mockReset();
+          mockedVote.mockImplementation(async (_id: string, vote: OccurrenceVote) => ({
+            confidenceScore: 2,
+            confirmations: vote === 'confirm' ? 1 : 0,
+            disputes: vote === 'dispute' ? 1 : 0,
+            userVote: vote,
+          }));
+
+          const accepted = [];
+          for (const vote of votes) {
+            accepted.push(await useOccurrenceStore.getState().voteOccurrence(OCCURRENCE.id, vote));
+          }
+
+          const state = useOccurrenceStore.getState();
+          return (
+            mockedVote.mock.calls.length === 1 &&
+            accepted.filter(Boolean).length === 1 &&
+            selectUserVotes(state)[OCCURRENCE.id] === votes[0]
+          );
+        }),
+        {numRuns: 20},
+      );
+    });
+
+    it('should keep the server counters when applying a vote', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({min: 1, max: 4}),
+          fc.nat(),
+          fc.nat(),
+          voteArbitrary,
+          (confidenceScore, confirmations, disputes, userVote) => {
+            const updated = applyVoteResult(OCCURRENCE, {
+              confidenceScore,
+              confirmations,
+              disputes,
+              userVote,
+            });
+            return (
+              updated.id === OCCURRENCE.id &&
+              updated.confidenceScore === confidenceScore &&
+              updated.confirmations === confirmations &&
+              updated.disputes === disputes &&
+              updated.userVote === userVote
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should update the map and the details with the new confidence', async () => {
+    useOccurrenceStore.setState({occurrences: [OCCURRENCE], selectedOccurrence: OCCURRENCE});
+    mockedVote.mockResolvedValue({
+      confidenceScore: 2,
+      confirmations: 1,
+      disputes: 0,
+      userVote: 'confirm',
+    });
+
+    const accepted = await useOccurrenceStore.getState().voteOccurrence(OCCURRENCE.id, 'confirm');
+    const state = useOccurrenceStore.getState();
+
+    expect(accepted).toBe(true);
+    expect(mockedVote).toHaveBeenCalledWith(OCCURRENCE.id, 'confirm');
+    expect(state.occurrences[0]).toMatchObject({confidenceScore: 2, userVote: 'confirm'});
+    expect(state.selectedOccurrence).toMatchObject({confidenceScore: 2, confirmations: 1});
+    expect(state.votingId).toBeNull();
+  });
+
+  it('should persist the votes', async () => {
+    useOccurrenceStore.setState({occurrences: [OCCURRENCE]});
+    mockedVote.mockResolvedValue({
+      confidenceScore: 1,
+      confirmations: 0,
+      disputes: 1,
+      userVote: 'dispute',
+    });
+
+    await useOccurrenceStore.getState().voteOccurrence(OCCURRENCE.id, 'dispute');
+
+    const stored = JSON.parse((await AsyncStorage.getItem('occurrence-outbox')) ?? '{}');
+    expect(stored.state.votes).toEqual({7: {[OCCURRENCE.id]: 'dispute'}});
+  });
+
+  it('should keep the votes of each user apart', async () => {
+    useOccurrenceStore.setState({occurrences: [OCCURRENCE]});
+    mockedVote.mockResolvedValue({
+      confidenceScore: 2,
+      confirmations: 1,
+      disputes: 0,
+      userVote: 'confirm',
+    });
+    await useOccurrenceStore.getState().voteOccurrence(OCCURRENCE.id, 'confirm');
+
+    // The occurrence as the server sends it to the next user
+    signIn(8);
+    useOccurrenceStore.setState({occurrences: [OCCURRENCE]});
+
+    expect(selectUserVotes(useOccurrenceStore.getState())).toEqual({});
+    expect(await useOccurrenceStore.getState().voteOccurrence(OCCURRENCE.id, 'dispute')).toBe(true);
+    expect(mockedVote).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reload the occurrence when the server already has a vote', async () => {
+    useOccurrenceStore.setState({occurrences: [OCCURRENCE], selectedOccurrence: OCCURRENCE});
+    mockedVote.mockRejectedValue(CONFLICT_ERROR);
+    mockedGetOccurrenceById.mockResolvedValue({...OCCURRENCE, userVote: 'confirm'});
+
+    const accepted = await useOccurrenceStore.getState().voteOccurrence(OCCURRENCE.id, 'dispute');
+    const state = useOccurrenceStore.getState();
+
+    expect(accepted).toBe(false);
+    expect(state.voteError).toBe('occurrence.errors.alreadyVoted');
+    expect(mockedGetOccurrenceById).toHaveBeenCalledWith(OCCURRENCE.id);
+    expect(state.selectedOccurrence?.userVote).toBe('confirm');
+  });
+
+  it('should report other failures without recording the vote', async () => {
+    useOccurrenceStore.setState({occurrences: [OCCURRENCE]});
+    mockedVote.mockRejectedValue({code: 'UNKNOWN_ERROR', message: 'Network Error', status: 0});
+
+    const accepted = await useOccurrenceStore.getState().voteOccurrence(OCCURRENCE.id, 'confirm');
+    const state = useOccurrenceStore.getState();
+
+    expect(accepted).toBe(false);
+    expect(state.voteError).toBe('Network Error');
+    expect(state.votes).toEqual({});
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for Risk Zone Store
+ */
+
+import {alertsService} from '../../services/api/alerts';
+import {occurrencesService} from '../../services/api/occurrences';
+import {localNotifications} from '../../services/localNotifications';
+import {RISK_ZONE_COOLDOWN} from '../../utils/constants';
+import {useAlertPreferencesStore} from '../alertPreferencesStore';
+import {useRiskZoneStore} from '../riskZoneStore';
+
+jest.mock('../../shared/config/i18n', () => ({
+  __esModule: true,
+  default: {t: (key: string) => key},
+}));
+
+jest.mock('../../services/api/alerts', () => ({
+  alertsService: {checkPosition: jest.fn()},
+}));
+
+jest.mock('../../services/api/occurrences', () => ({
+  occurrencesService: {list: jest.fn()},
+}));
+
+jest.mock('../../services/localNotifications', () => ({
+  localNotifications: {showRiskZoneAlert: jest.fn()},
+}));
+
+const mockedCheckPosition = alertsService.checkPosition as jest.Mock;
+const mockedList = occurrencesService.list as jest.Mock;
+const mockedShow = localNotifications.showRiskZoneAlert as jest.Mock;
+
+const position = {latitude: -23.5505, longitude: -46.6333};
+
+const occurrenceCount = (total: number) => ({
+  data: [],
+  meta: {currentPage: 1, lastPage: 1, perPage: 1, total},
+});
+
+describe('Risk Zone Store', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useRiskZoneStore.getState().reset();
+    useAlertPreferencesStore.getState().reset();
+    mockedShow.mockResolvedValue(true);
+    mockedList.mockResolvedValue(occurrenceCount(0));
+    mockedCheckPosition.mockResolvedValue({
+      regionId: '4',
+      riskIndex: 85,
+      dominantCrimeTypeId: '1',
+    });
+  });
+
+  it('should do nothing until the user opts in', async () => {
+    await useRiskZoneStore.getState().checkPosition(position, 0);
+
+    expect(mockedCheckPosition).not.toHaveBeenCalled();
+    expect(mockedShow).not.toHaveBeenCalled();
+  });
+
+  it('should alert once per zone within the cooldown', async () => {
+    useRiskZoneStore.getState().setEnabled(true);
+    const store = useRiskZoneStore.getState();
+
+    await store.checkPosition(position, 0);
+    // Standing still long enough to check again, but the zone is cooling down
+    await store.checkPosition(position, RISK_ZONE_COOLDOWN / 2);
+    await store.checkPosition(position, RISK_ZONE_COOLDOWN);
+
+    expect(mockedCheckPosition).toHaveBeenCalledTimes(3);
+    expect(mockedShow).toHaveBeenCalledTimes(2);
+    expect(useRiskZoneStore.getState().history.zoneAlerts['region:4']).toBe(RISK_ZONE_COOLDOWN);
+  });
+
+  it('should alert on occurrence density alone', async () => {
+    useRiskZoneStore.getState().setEnabled(true);
+    mockedCheckPosition.mockResolvedValue(null);
+    mockedList.mockResolvedValue(occurrenceCount(18));
+
+    await useRiskZoneStore.getState().checkPosition(position, 0);
+
+    expect(mockedShow).toHaveBeenCalledTimes(1);
+  });
+
+  it('should follow the alert preferences', async () => {
+    useRiskZoneStore.getState().setEnabled(true);
+    useAlertPreferencesStore.setState(state => ({
+      preferences: {...state.preferences, types: ['2']},
+    }));
+
+    await useRiskZoneStore.getState().checkPosition(position, 0);
+
+    expect(mockedShow).not.toHaveBeenCalled();
+  });
+});
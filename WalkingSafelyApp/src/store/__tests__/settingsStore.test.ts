@@ -0,0 +1,44 @@
+/**
+ * Tests for Settings Store
+ */
+
+import i18n from '../../shared/config/i18n';
+import {setRequestLocale} from '../../shared/services/api';
+import {toBackendLocale, useSettingsStore} from '../settingsStore';
+
+jest.mock('../../shared/config/i18n', () => ({
+  __esModule: true,
+  default: {language: 'pt-BR', changeLanguage: jest.fn()},
+}));
+
+jest.mock('../../shared/services/api', () => ({
+  setRequestLocale: jest.fn(),
+}));
+
+describe('Settings Store', () => {
+  beforeEach(() => {
+    useSettingsStore.getState().reset();
+    jest.clearAllMocks();
+  });
+
+  it('should map app languages to the locales the server knows', () => {
+    expect(toBackendLocale('pt-BR')).toBe('pt_BR');
+    expect(toBackendLocale('en-US')).toBe('en');
+  });
+
+  it('should translate the app and the server responses when the language changes', () => {
+    useSettingsStore.getState().setLanguage('en-US');
+
+    expect(useSettingsStore.getState().language).toBe('en-US');
+    expect(i18n.changeLanguage).toHaveBeenCalledWith('en-US');
+    expect(setRequestLocale).toHaveBeenCalledWith('en');
+  });
+
+  it('should start new reports as identified unless the user opts in', () => {
+    expect(useSettingsStore.getState().reportAnonymously).toBe(false);
+
+    useSettingsStore.getState().setReportAnonymously(true);
+
+    expect(useSettingsStore.getState().reportAnonymously).toBe(true);
+  });
+});
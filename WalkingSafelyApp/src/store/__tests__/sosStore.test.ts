@@ -0,0 +1,195 @@
+/**
+ * Tests for the SOS Store
+ *
+ * **Property 24: SOS Alert Delivery**
+ *
+ * For any SOS alert, the store SHALL persist it before the request is made,
+ * keep it and retry every SOS_RETRY_INTERVAL while delivery fails for any
+ * reason other than the server refusing its content, and remove it only once
+ * the server confirms or refuses it.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as fc from 'fast-check';
+
+import {emergencyService} from '../../services/api/emergency';
+import type {SosAlert} from '../../types/models';
+import {
+  SOS_RETRY_INTERVAL,
+  getDueSosAlerts,
+  isRejectedSosError,
+  isRetryableSosError,
+  useSosStore,
+  validateTrustedContact,
+} from '../sosStore';
+
+jest.mock('../../services/api/emergency', () => ({
+  emergencyService: {
+    getContacts: jest.fn(),
+    addContact: jest.fn(),
+    removeContact: jest.fn(),
+    sendSos: jest.fn(),
+  },
+}));
+
+const mockedSendSos = emergencyService.sendSos as jest.Mock;
+
+const ALERT: SosAlert = {
+  location: {latitude: -23.5505, longitude: -46.6333},
+  destination: {latitude: -23.561, longitude: -46.656},
+  timestamp: '2024-01-01T22:30:00Z',
+};
+
+/** Errors produced by the API client */
+const NETWORK_ERROR = {code: 'UNKNOWN_ERROR', message: 'Network Error', status: 0};
+const VALIDATION_ERROR = {
+  code: 'VALIDATION_ERROR',
+  message: 'Nenhum contato cadastrado',
+  status: 422,
+};
+
+describe('SOS Store', () => {
+  beforeEach(async () => {
+    mockedSendSos.mockReset();
+    useSosStore.getState().reset();
+    await AsyncStorage.clear();
+  });
+
+  it('should persist the alert before the server confirms it', async () => {
+    let storedDuringRequest: string | null = null;
+    mockedSendSos.mockImplementation(async () => {
+      storedDuringRequest = await AsyncStorage.getItem('sos-storage');
+      return {alertId: '1', notifiedContacts: 2};
+    });
+
+    const confirmation = await useSosStore.getState().sendSos(ALERT);
+
+    expect(confirmation).toEqual({alertId: '1', notifiedContacts: 2});
+    expect(JSON.parse(storedDuringRequest ?? '{}').state.pendingAlerts[0].alert).toEqual(ALERT);
+    expect(useSosStore.getState().pendingAlerts).toHaveLength(0);
+  });
+
+  it('should keep the alert for a retry when there is no network', async () => {
+    mockedSendSos.mockRejectedValue(NETWORK_ERROR);
+
+    const before = Date.now();
+    const confirmation = await useSosStore.getState().sendSos(ALERT);
+    const [pending] = useSosStore.getState().pendingAlerts;
+
+    expect(confirmation).toBeNull();
+    expect(pending.alert).toEqual(ALERT);
+    expect(pending.attempts).toBe(1);
+    expect(pending.nextAttemptAt).toBeGreaterThanOrEqual(before + SOS_RETRY_INTERVAL);
+  });
+
+  it('should deliver stored alerts once they are due', async () => {
+    useSosStore.setState({
+      pendingAlerts: [
+        {id: 'sos_1', alert: ALERT, attempts: 1, nextAttemptAt: 0, lastError: 'Network Error'},
+        {
+          id: 'sos_2',
+          alert: ALERT,
+          attempts: 1,
+          nextAttemptAt: Date.now() + 60000,
+          lastError: null,
+        },
+      ],
+    });
+    mockedSendSos.mockResolvedValue({alertId: '7', notifiedContacts: 1});
+
+    await useSosStore.getState().flushPendingAlerts();
+
+    expect(mockedSendSos).toHaveBeenCalledTimes(1);
+    expect(useSosStore.getState().pendingAlerts.map(item => item.id)).toEqual(['sos_2']);
+  });
+
+  it('should drop and report alerts the server rejects', async () => {
+    mockedSendSos.mockRejectedValue(VALIDATION_ERROR);
+
+    await expect(useSosStore.getState().sendSos(ALERT)).rejects.toEqual(VALIDATION_ERROR);
+    expect(useSosStore.getState().pendingAlerts).toHaveLength(0);
+  });
+
+  it.each([
+    [401, 'Unauthenticated.'],
+    [404, 'Not Found'],
+  ])('should keep and report alerts failing with %i', async (status, message) => {
+    const error = {code: 'UNKNOWN_ERROR', message, status};
+    mockedSendSos.mockRejectedValue(error);
+
+    await expect(useSosStore.getState().sendSos(ALERT)).rejects.toEqual(error);
+    const [pending] = useSosStore.getState().pendingAlerts;
+    expect(pending.alert).toEqual(ALERT);
+    expect(pending.lastError).toBe(message);
+  });
+
+  describe('isRejectedSosError', () => {
+    it('should drop alerts only when the server refuses their content', () => {
+      fc.assert(
+        fc.property(fc.integer({min: 0, max: 599}), status => {
+          const error = {code: 'UNKNOWN_ERROR', message: 'Erro', status};
+          return isRejectedSosError(error) === (status === 400 || status === 422);
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  describe('isRetryableSosError', () => {
+    it('should retry network, rate limit and server errors only', () => {
+      fc.assert(
+        fc.property(fc.integer({min: 0, max: 599}), status => {
+          const error = {code: 'UNKNOWN_ERROR', message: 'Erro', status};
+          const expected = status === 0 || status === 429 || status >= 500;
+          return isRetryableSosError(error) === expected;
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  describe('getDueSosAlerts', () => {
+    it('should return exactly the alerts whose retry time has come', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({min: 0, max: 1e6}), {maxLength: 10}),
+          fc.integer({min: 0, max: 1e6}),
+          (times, now) => {
+            const alerts = times.map((nextAttemptAt, i) => ({
+              id: `sos_${i}`,
+              alert: ALERT,
+              attempts: 1,
+              nextAttemptAt,
+              lastError: null,
+            }));
+            const due = getDueSosAlerts(alerts, now);
+            return (
+              due.every(item => item.nextAttemptAt <= now) &&
+              due.length === times.filter(time => time <= now).length
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  describe('validateTrustedContact', () => {
+    it('should accept phone numbers with area code in any format', () => {
+      expect(validateTrustedContact({name: 'Ana', phone: '(11) 98765-4321'})).toBeNull();
+      expect(validateTrustedContact({name: 'Ana', phone: '+55 11 98765 4321'})).toBeNull();
+    });
+
+    it('should reject missing names, short phones and invalid emails', () => {
+      expect(validateTrustedContact({name: ' ', phone: '11987654321'})).toBe(
+        'sos.errors.nameRequired',
+      );
+      expect(validateTrustedContact({name: 'Ana', phone: '98765-4321'})).toBe(
+        'sos.errors.invalidPhone',
+      );
+      expect(validateTrustedContact({name: 'Ana', phone: '11987654321', email: 'ana@'})).toBe(
+        'sos.errors.invalidEmail',
+      );
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for Statistics Store
+ *
+ * **Property 40: Statistics Charts**
+ *
+ * For any set of occurrence counts, every bar SHALL be drawn between 0 and the
+ * height of the busiest one, which SHALL be the highlighted peak, and a summary
+ * SHALL only be shown for the area still selected.
+ */
+
+import * as fc from 'fast-check';
+
+import {statisticsService} from '../../services/api/statistics';
+import type {AreaStatistics} from '../../types/models';
+import {getBarRatios, getPeakIndex, useStatisticsStore} from '../statisticsStore';
+
+jest.mock('../../services/api/statistics', () => ({
+  statisticsService: {
+    getAreaStatistics: jest.fn(),
+    getRegions: jest.fn(),
+    getRegionPatterns: jest.fn(),
+  },
+}));
+
+const mockedGetAreaStatistics = statisticsService.getAreaStatistics as jest.Mock;
+const mockedGetRegionPatterns = statisticsService.getRegionPatterns as jest.Mock;
+
+const summary = (total: number): AreaStatistics => ({
+  byType: [],
+  bySeverity: {low: 0, medium: total, high: 0, critical: 0},
+  total,
+  weekOverWeek: {currentWeek: 0, previousWeek: 0, percentChange: 0, trend: 'stable'},
+});
+
+describe('Statistics Store', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useStatisticsStore.getState().reset();
+  });
+
+  describe('Property 40: Statistics charts', () => {
+    it('should scale every bar against the busiest one', () => {
+      fc.assert(
+        fc.property(fc.array(fc.nat({max: 10000}), {maxLength: 24}), counts => {
+          const ratios = getBarRatios(counts);
+          const peak = getPeakIndex(counts);
+          const max = Math.max(0, ...counts);
+
+          return (
+            ratios.length === counts.length &&
+            ratios.every(ratio => ratio >= 0 && ratio <= 1) &&
+            (max === 0
+              ? peak === -1 && ratios.every(ratio => ratio === 0)
+              : counts[peak] === max && ratios[peak] === 1)
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should drop the summary of an area the user moved away from', async () => {
+    let resolveNearby: (value: AreaStatistics) => void = () => {};
+    mockedGetAreaStatistics
+      .mockImplementationOnce(
+        () =>
+          new Promise<AreaStatistics>(resolve => {
+            resolveNearby = resolve;
+          }),
+      )
+      .mockResolvedValueOnce(summary(5));
+
+    const nearby = useStatisticsStore
+      .getState()
+      .selectNearby({latitude: -23.5505, longitude: -46.6333});
+    await useStatisticsStore.getState().selectRegion({id: '3', name: 'Centro', count: 5});
+    resolveNearby(summary(40));
+    await nearby;
+
+    const state = useStatisticsStore.getState();
+    expect(state.area).toEqual({type: 'region', regionId: '3', name: 'Centro'});
+    expect(state.summary?.total).toBe(5);
+    expect(state.isLoading).toBe(false);
+  });
+
+  it('should keep the patterns of each region apart', async () => {
+    mockedGetRegionPatterns.mockResolvedValue({
+      byHour: Array(24).fill(1),
+      byWeekday: Array(7).fill(2),
+      total: 24,
+    });
+
+    await useStatisticsStore.getState().loadRegionPatterns('3');
+
+    const state = useStatisticsStore.getState();
+    expect(mockedGetRegionPatterns).toHaveBeenCalledWith('3', 30);
+    expect(state.patterns['3'].total).toBe(24);
+    expect(state.loadingPatternsId).toBeNull();
+  });
+
+  it('should report a failed load', async () => {
+    mockedGetAreaStatistics.mockRejectedValue({code: 'UNKNOWN_ERROR', message: 'Network Error'});
+
+    await useStatisticsStore.getState().selectNearby({latitude: 0, longitude: 0});
+
+    const state = useStatisticsStore.getState();
+    expect(state.error).toBe('statistics.errors.load');
+    expect(state.isLoading).toBe(false);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Tests for the Trip Sharing Store
+ *
+ * **Property 25: Trip Share Lifecycle**
+ *
+ * For any active trip share, position updates SHALL follow the navigation
+ * session while sharing is active, stop while it is paused, and the share
+ * SHALL be closed when the user arrives or the navigation session ends.
+ */
+
+import * as fc from 'fast-check';
+
+import {tripSharingService} from '../../services/api/tripSharing';
+import type {RouteResponse} from '../../types/models';
+import {useNavigationStore} from '../navigationStore';
+import {
+  TRIP_SHARE_UPDATE_DISTANCE,
+  TRIP_SHARE_UPDATE_INTERVAL,
+  buildTripShareUpdate,
+  getRouteProgress,
+  shouldPublishTripUpdate,
+  useTripSharingStore,
+} from '../tripSharingStore';
+
+// The map components imported by the navigation store render a WebView
+jest.mock('react-native-webview', () => ({WebView: 'WebView'}));
+
+jest.mock('../../services/api/tripSharing', () => ({
+  tripSharingService: {
+    start: jest.fn(),
+    sendUpdate: jest.fn(),
+    pause: jest.fn(),
+    resume: jest.fn(),
+    stop: jest.fn(),
+  },
+}));
+
+const mockedStart = tripSharingService.start as jest.Mock;
+const mockedSendUpdate = tripSharingService.sendUpdate as jest.Mock;
+const mockedStop = tripSharingService.stop as jest.Mock;
+
+const DESTINATION = {latitude: -23.561, longitude: -46.656};
+
+/**
+ * Fixture: straight ~1.5km walk to the destination
+ */
+const ROUTE: RouteResponse = {
+  id: 'route_1',
+  polyline: '',
+  distance: 1500,
+  duration: 1200,
+  maxRiskIndex: 30,
+  averageRiskIndex: 20,
+  requiresWarning: false,
+  instructions: [
+    {
+      text: 'Iniciar navegação',
+      distance: 0,
+      duration: 0,
+      maneuver: 'depart',
+      coordinates: {latitude: -23.5505, longitude: -46.6453},
+    },
+    {
+      text: 'Você chegou ao destino',
+      distance: 1500,
+      duration: 1200,
+      maneuver: 'arrive',
+      coordinates: DESTINATION,
+    },
+  ],
+};
+
+/** Flush the promise chains started by the store subscription */
+const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Trip Sharing Store', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockedStart.mockResolvedValue({id: 'share_1', shareUrl: 'https://ws.app/t/abc'});
+    mockedSendUpdate.mockResolvedValue(undefined);
+    mockedStop.mockResolvedValue(undefined);
+
+    useNavigationStore.getState().endSession();
+    await useTripSharingStore.getState().stopSharing();
+    jest.clearAllMocks();
+
+    useNavigationStore.getState().startSession(ROUTE, 'safest', DESTINATION);
+    useNavigationStore.getState().updatePosition({latitude: -23.5505, longitude: -46.6453});
+  });
+
+  it('should open a share for the session and send the current progress', async () => {
+    await useTripSharingStore.getState().startSharing();
+    const {sessionId} = useNavigationStore.getState();
+    const state = useTripSharingStore.getState();
+
+    expect(mockedStart).toHaveBeenCalledWith(sessionId, DESTINATION);
+    expect(state.status).toBe('active');
+    expect(state.shareUrl).toBe('https://ws.app/t/abc');
+    expect(mockedSendUpdate).toHaveBeenCalledTimes(1);
+    expect(mockedSendUpdate.mock.calls[0][1].position).toEqual({
+      latitude: -23.5505,
+      longitude: -46.6453,
+    });
+  });
+
+  it('should stream positions while active and not while paused', async () => {
+    await useTripSharingStore.getState().startSharing();
+    mockedSendUpdate.mockClear();
+
+    // ~550m further along the route
+    useNavigationStore.getState().updatePosition({latitude: -23.554, longitude: -46.649});
+    await flushPromises();
+    expect(mockedSendUpdate).toHaveBeenCalledTimes(1);
+
+    await useTripSharingStore.getState().pauseSharing();
+    useNavigationStore.getState().updatePosition({latitude: -23.557, longitude: -46.652});
+    await flushPromises();
+    expect(mockedSendUpdate).toHaveBeenCalledTimes(1);
+
+    await useTripSharingStore.getState().resumeSharing();
+    expect(mockedSendUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop the share when the user arrives', async () => {
+    await useTripSharingStore.getState().startSharing();
+
+    useNavigationStore.getState().updatePosition(DESTINATION);
+    await flushPromises();
+
+    expect(mockedStop).toHaveBeenCalledWith('share_1', 'arrived');
+    expect(useTripSharingStore.getState().status).toBe('idle');
+    expect(useTripSharingStore.getState().endReason).toBe('arrived');
+  });
+
+  it('should stop the share when navigation ends', async () => {
+    await useTripSharingStore.getState().startSharing();
+
+    useNavigationStore.getState().endSession();
+    await flushPromises();
+
+    expect(mockedStop).toHaveBeenCalledWith('share_1', 'navigation_ended');
+    expect(useTripSharingStore.getState().status).toBe('idle');
+  });
+
+  it('should close a share created after navigation already ended', async () => {
+    mockedStart.mockImplementation(async () => {
+      useNavigationStore.getState().endSession();
+      return {id: 'share_2', shareUrl: 'https://ws.app/t/def'};
+    });
+
+    await useTripSharingStore.getState().startSharing();
+
+    expect(mockedStop).toHaveBeenCalledWith('share_2', 'navigation_ended');
+    expect(useTripSharingStore.getState().status).toBe('idle');
+    expect(mockedSendUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should close a share stopped while it was being created', async () => {
+    mockedStart.mockImplementation(async () => {
+      await useTripSharingStore.getState().stopSharing();
+      return {id: 'share_3', shareUrl: 'https://ws.app/t/ghi'};
+    });
+
+    await useTripSharingStore.getState().startSharing();
+
+    expect(mockedStop).toHaveBeenCalledWith('share_3', 'stopped');
+    expect(useTripSharingStore.getState().status).toBe('idle');
+    expect(useTripSharingStore.getState().shareId).toBeNull();
+    expect(mockedSendUpdate).not.toHaveBeenCalled();
+  });
+
+  describe('shouldPublishTripUpdate', () => {
+    it('should publish once the interval elapsed or the user moved far enough', () => {
+      const last = {latitude: -23.5505, longitude: -46.6333};
+
+      fc.assert(
+        fc.property(
+          fc.integer({min: 0, max: 2 * TRIP_SHARE_UPDATE_INTERVAL}),
+          fc.double({min: 0, max: 0.002, noNaN: true}),
+          (elapsed, latOffset) => {
+            const position = {latitude: last.latitude + latOffset, longitude: last.longitude};
+            // One degree of latitude is ~111km
+            const moved = latOffset * 111195;
+            const result = shouldPublishTripUpdate(1000, last, position, 1000 + elapsed);
+
+            if (elapsed >= TRIP_SHARE_UPDATE_INTERVAL) {
+              return result;
+            }
+            if (moved < TRIP_SHARE_UPDATE_DISTANCE - 1) {
+              return !result;
+            }
+            if (moved > TRIP_SHARE_UPDATE_DISTANCE + 1) {
+              return result;
+            }
+            return true;
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  describe('buildTripShareUpdate', () => {
+    it('should keep progress within 0..1 and set the ETA from the remaining duration', () => {
+      fc.assert(
+        fc.property(
+          fc.double({min: 0, max: 1e5, noNaN: true}),
+          fc.double({min: 0, max: 1e5, noNaN: true}),
+          fc.integer({min: 0, max: 36000}),
+          (remaining, total, duration) => {
+            const now = Date.UTC(2024, 0, 1, 22, 0, 0);
+            const update = buildTripShareUpdate(DESTINATION, remaining, duration, total, now);
+            return (
+              update.progress >= 0 &&
+              update.progress <= 1 &&
+              update.progress === getRouteProgress(remaining, total) &&
+              Date.parse(update.eta) === now + duration * 1000
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+});
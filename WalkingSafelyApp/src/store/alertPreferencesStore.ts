@@ -0,0 +1,161 @@
+/**
+ * Alert Preferences Store
+ * Which risk alerts the user gets, kept on the device and synced with the
+ * server so they follow the account
+ */
+
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {AlertPreferences} from '../types/models';
+import {UpdateAlertPreferencesRequest} from '../types/api';
+import {alertPreferencesService} from '../services/api/alertPreferences';
+import {isWithinSchedule} from '../utils/alertSchedule';
+
+/**
+ * Alert preferences store state interface
+ */
+export interface AlertPreferencesState {
+  preferences: AlertPreferences;
+  isSyncing: boolean;
+  error: string | null;
+}
+
+/**
+ * Alert preferences store actions interface
+ */
+export interface AlertPreferencesActions {
+  /** Take the preferences stored on the server */
+  load: () => Promise<void>;
+  /** Change preferences on the device and send them to the server */
+  update: (changes: UpdateAlertPreferencesRequest) => Promise<void>;
+  clearError: () => void;
+  reset: () => void;
+}
+
+/**
+ * Combined alert preferences store type
+ */
+export type AlertPreferencesStore = AlertPreferencesState & AlertPreferencesActions;
+
+/**
+ * Defaults until the server answers: every alert type, at any time
+ */
+export const DEFAULT_ALERT_PREFERENCES: AlertPreferences = {
+  enabled: true,
+  soundEnabled: true,
+  types: [],
+  schedule: null,
+};
+
+/**
+ * Initial alert preferences state
+ */
+const initialState: AlertPreferencesState = {
+  preferences: DEFAULT_ALERT_PREFERENCES,
+  isSyncing: false,
+  error: null,
+};
+
+/**
+ * Whether alerts of a type are on. An empty list means every type.
+ */
+export const isAlertTypeEnabled = (types: string[], typeId: string): boolean =>
+  types.length === 0 || types.includes(typeId);
+
+/**
+ * Turn alerts of one type on or off.
+ * Returns an empty list once every type is on again, and refuses to turn off
+ * the last type, as an empty list would mean all of them.
+ */
+export const toggleAlertType = (types: string[], typeId: string, allIds: string[]): string[] => {
+  const enabled = types.length === 0 ? allIds : types;
+
+  if (enabled.includes(typeId)) {
+    const remaining = enabled.filter(id => id !== typeId);
+    return remaining.length === 0 ? types : remaining;
+  }
+
+  const next = [...enabled, typeId];
+  return allIds.every(id => next.includes(id)) ? [] : next;
+};
+
+/**
+ * Whether a risk alert should reach the user: alerts on, the type wanted and
+ * the time inside the schedule. Occurrences of an unknown type are let through.
+ */
+export const isRiskAlertAllowed = (
+  preferences: AlertPreferences,
+  crimeTypeId: string | undefined,
+  date: Date,
+): boolean =>
+  preferences.enabled &&
+  (!crimeTypeId || isAlertTypeEnabled(preferences.types, crimeTypeId)) &&
+  isWithinSchedule(preferences.schedule, date);
+
+/**
+ * Whether a change touches what the server keeps
+ */
+const hasServerChanges = (changes: UpdateAlertPreferencesRequest): boolean =>
+  changes.enabled !== undefined || changes.types !== undefined || changes.schedule !== undefined;
+
+/**
+ * Alert preferences store
+ */
+export const useAlertPreferencesStore = create<AlertPreferencesStore>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      load: async () => {
+        set({isSyncing: true, error: null});
+        try {
+          const preferences = await alertPreferencesService.getPreferences();
+          set({
+            preferences: {...preferences, soundEnabled: get().preferences.soundEnabled},
+            isSyncing: false,
+          });
+        } catch (error) {
+          console.error('[AlertPreferencesStore] Error loading preferences:', error);
+          set({isSyncing: false, error: 'settings.alerts.errors.load'});
+        }
+      },
+
+      update: async (changes: UpdateAlertPreferencesRequest) => {
+        set(state => ({preferences: {...state.preferences, ...changes}, error: null}));
+
+        if (!hasServerChanges(changes)) {
+          return;
+        }
+
+        const {enabled, types, schedule} = get().preferences;
+        set({isSyncing: true});
+        try {
+          await alertPreferencesService.updatePreferences({enabled, types, schedule});
+          set({isSyncing: false});
+        } catch (error) {
+          // The change stays on the device, the next save sends all of them
+          console.error('[AlertPreferencesStore] Error saving preferences:', error);
+          set({isSyncing: false, error: 'settings.alerts.errors.sync'});
+        }
+      },
+
+      clearError: () => {
+        set({error: null});
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: 'alert-preferences-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({
+        preferences: state.preferences,
+      }),
+    },
+  ),
+);
+
+export default useAlertPreferencesStore;
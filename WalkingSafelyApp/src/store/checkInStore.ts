@@ -0,0 +1,186 @@
+/**
+ * Check-in Store
+ * Runs the arrival check-in for the active navigation session and alerts
+ * the trusted contacts when the user doesn't confirm a safe arrival
+ */
+
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  CheckInEvent,
+  CheckInState,
+  initialCheckInState,
+  isCheckInPending,
+  transitionCheckIn,
+} from '../utils/checkInMachine';
+import {isParsedApiError} from '../shared/services/api';
+import {navigationCache} from '../services/navigationCache';
+import {useNavigationStore} from './navigationStore';
+import {useSosStore} from './sosStore';
+
+/**
+ * Check-in store state interface
+ */
+export interface CheckInStoreState extends CheckInState {
+  /** Set when the escalation alert could not be sent */
+  escalationError: string | null;
+}
+
+/**
+ * Check-in store actions interface
+ */
+export interface CheckInActions {
+  /** Re-evaluate the timers, called periodically by the UI */
+  tick: (now?: number) => void;
+  /** The user needs more time to arrive */
+  extend: () => void;
+  /** The user confirms they are safe */
+  confirmSafe: () => void;
+  /** The navigation was abandoned, e.g. the user declined to resume it */
+  cancel: () => void;
+  reset: () => void;
+}
+
+/**
+ * Combined check-in store type
+ */
+export type CheckInStore = CheckInStoreState & CheckInActions;
+
+/**
+ * Initial check-in state
+ */
+const initialState: CheckInStoreState = {
+  ...initialCheckInState,
+  escalationError: null,
+};
+
+/**
+ * Alert the trusted contacts through the SOS pipeline, which keeps
+ * the alert on the device and retries it until the server confirms
+ */
+const alertTrustedContacts = async (): Promise<string | null> => {
+  const {currentPosition, destination} = useNavigationStore.getState();
+  if (!currentPosition) {
+    return 'checkIn.errors.noLocation';
+  }
+
+  try {
+    await useSosStore.getState().sendSos({
+      location: currentPosition,
+      destination,
+      timestamp: new Date().toISOString(),
+      reason: 'missed_check_in',
+    });
+    return null;
+  } catch (error) {
+    console.error('[CheckInStore] Failed to alert trusted contacts:', error);
+    return isParsedApiError(error) ? error.message : 'checkIn.errors.alertFailed';
+  }
+};
+
+/**
+ * Check-in store
+ */
+export const useCheckInStore = create<CheckInStore>()(
+  persist(
+    set => ({
+      ...initialState,
+
+      tick: (now = Date.now()) => {
+        dispatchCheckIn({type: 'TICK', now});
+      },
+
+      extend: () => {
+        dispatchCheckIn({type: 'EXTEND', now: Date.now()});
+      },
+
+      confirmSafe: () => {
+        dispatchCheckIn({type: 'CONFIRM_SAFE'});
+      },
+
+      cancel: () => {
+        dispatchCheckIn({type: 'CANCEL'});
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: 'check-in-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Keep the timers across restarts so a closed app still gets prompted
+      partialize: state => ({
+        phase: state.phase,
+        sessionId: state.sessionId,
+        expectedArrivalAt: state.expectedArrivalAt,
+        respondBy: state.respondBy,
+        completedBy: state.completedBy,
+      }),
+      onRehydrateStorage: () => state => {
+        if (state && isCheckInPending(state)) {
+          void dropOrphanedCheckIn(state.sessionId);
+        }
+      },
+    },
+  ),
+);
+
+/**
+ * Drop a restored check-in whose navigation can no longer be resumed,
+ * which would otherwise stay pending forever
+ */
+const dropOrphanedCheckIn = async (sessionId: string | null) => {
+  const cached = await navigationCache.load();
+  if (
+    cached?.sessionId !== sessionId &&
+    useNavigationStore.getState().sessionId !== sessionId &&
+    useCheckInStore.getState().sessionId === sessionId
+  ) {
+    dispatchCheckIn({type: 'CANCEL'});
+  }
+};
+
+/**
+ * Run an event through the state machine and perform the side effects
+ * of the resulting transition
+ */
+const dispatchCheckIn = (event: CheckInEvent) => {
+  const previous = useCheckInStore.getState();
+  const next = transitionCheckIn(previous, event);
+  if (next === previous) {
+    return;
+  }
+
+  useCheckInStore.setState({...next, escalationError: null});
+
+  if (next.phase === 'escalated' && previous.phase !== 'escalated') {
+    void alertTrustedContacts().then(escalationError => {
+      if (useCheckInStore.getState().phase === 'escalated') {
+        useCheckInStore.setState({escalationError});
+      }
+    });
+  }
+};
+
+/**
+ * Arm the check-in when a route starts, complete it on arrival and drop it
+ * when navigation ends
+ */
+useNavigationStore.subscribe((state, previous) => {
+  if (state.sessionId && state.sessionId !== previous.sessionId) {
+    dispatchCheckIn({
+      type: 'START',
+      sessionId: state.sessionId,
+      remainingDuration: state.remainingDuration,
+      now: Date.now(),
+    });
+  } else if (!state.sessionId && previous.sessionId) {
+    dispatchCheckIn({type: 'CANCEL'});
+  } else if (state.hasArrived && !previous.hasArrived) {
+    dispatchCheckIn({type: 'ARRIVED'});
+  }
+});
+
+export default useCheckInStore;
@@ -14,6 +14,9 @@ import {
 } from '../types/models';
 import {routesService} from '@/services/api/routes';
 import {heatmapService} from '@/services/api/heatmap';
+import {mergeRouteOptions} from '@/utils/routeComparison';
+import {moveStop} from '@/utils/routeLegs';
+import {MAX_ROUTE_STOPS} from '@/utils/navigationConstants';
 
 /**
  * Map store state interface
@@ -21,8 +24,15 @@ import {heatmapService} from '@/services/api/heatmap';
 interface MapState {
   currentPosition: Coordinates | null;
   destination: Coordinates | null;
+  /** Intermediate stops between the current position and the destination */
+  waypoints: Coordinates[];
+  /** Planned departure time (ISO 8601), null to leave now */
+  departureTime: string | null;
   currentRoute: RouteResponse | null;
   alternativeRoute: RouteResponse | null;
+  /** Every route available for the current destination, for comparison */
+  routeOptions: RouteResponse[];
+  isLoadingRouteOptions: boolean;
   isNavigating: boolean;
   isCalculatingRoute: boolean;
   heatmapEnabled: boolean;
@@ -39,7 +49,12 @@ interface MapState {
 interface MapActions {
   setCurrentPosition: (position: Coordinates | null) => void;
   setDestination: (destination: Coordinates | null) => void;
+  addWaypoint: (waypoint: Coordinates) => void;
+  removeWaypoint: (index: number) => void;
+  moveWaypoint: (from: number, to: number) => void;
+  setDepartureTime: (departureTime: string | null) => void;
   calculateRoute: (preferSafe?: boolean) => Promise<void>;
+  loadRouteOptions: () => Promise<void>;
   startNavigation: () => void;
   stopNavigation: () => void;
   toggleHeatmap: () => void;
@@ -66,8 +81,12 @@ type MapStore = MapState & MapActions;
 const initialState: MapState = {
   currentPosition: null,
   destination: null,
+  waypoints: [],
+  departureTime: null,
   currentRoute: null,
   alternativeRoute: null,
+  routeOptions: [],
+  isLoadingRouteOptions: false,
   isNavigating: false,
   isCalculatingRoute: false,
   heatmapEnabled: false,
@@ -78,6 +97,11 @@ const initialState: MapState = {
   error: null,
 };
 
+/**
+ * Incremented on every heatmap load so slower, outdated responses are dropped
+ */
+let heatmapRequestId = 0;
+
 /**
  * Map store
  */
@@ -96,7 +120,45 @@ export const useMapStore = create<MapStore>()((set, get) => ({
    * Set navigation destination
    */
   setDestination: (destination: Coordinates | null) => {
-    set({destination, currentRoute: null, alternativeRoute: null});
+    set({
+      destination,
+      waypoints: [],
+      departureTime: null,
+      currentRoute: null,
+      alternativeRoute: null,
+      routeOptions: [],
+    });
+  },
+
+  /**
+   * Add a stop after the existing ones, up to MAX_ROUTE_STOPS
+   */
+  addWaypoint: (waypoint: Coordinates) => {
+    if (get().waypoints.length >= MAX_ROUTE_STOPS) {
+      return;
+    }
+    set(state => ({waypoints: [...state.waypoints, waypoint]}));
+  },
+
+  /**
+   * Remove the stop at the given position
+   */
+  removeWaypoint: (index: number) => {
+    set(state => ({waypoints: state.waypoints.filter((_, i) => i !== index)}));
+  },
+
+  /**
+   * Change the order the stops are visited in
+   */
+  moveWaypoint: (from: number, to: number) => {
+    set(state => ({waypoints: moveStop(state.waypoints, from, to)}));
+  },
+
+  /**
+   * Set when the user plans to leave
+   */
+  setDepartureTime: (departureTime: string | null) => {
+    set({departureTime});
   },
 
   /**
@@ -105,7 +167,7 @@ export const useMapStore = create<MapStore>()((set, get) => ({
    * Requirement 7.1: Calculate both safest and fastest routes for comparison
    */
   calculateRoute: async (preferSafe?: boolean) => {
-    const {currentPosition, destination} = get();
+    const {currentPosition, destination, waypoints, departureTime} = get();
 
     if (!currentPosition || !destination) {
       set({error: 'errors.missingCoordinates'});
@@ -123,11 +185,15 @@ export const useMapStore = create<MapStore>()((set, get) => ({
           origin: currentPosition,
           destination,
           preferSafeRoute: true,
+          waypoints,
+          departureTime: departureTime ?? undefined,
         }),
         routesService.calculateRoute({
           origin: currentPosition,
           destination,
           preferSafeRoute: false,
+          waypoints,
+          departureTime: departureTime ?? undefined,
         }).catch(() => null), // Fast route is optional
       ]);
 
@@ -157,6 +223,42 @@ export const useMapStore = create<MapStore>()((set, get) => ({
     }
   },
 
+  /**
+   * Load the alternative routes for the current destination.
+   * The safest and fastest routes already calculated are always included.
+   */
+  loadRouteOptions: async () => {
+    const {currentPosition, destination, preferSafeRoute, waypoints, departureTime} = get();
+
+    if (!currentPosition || !destination) {
+      set({error: 'errors.missingCoordinates'});
+      return;
+    }
+
+    set({isLoadingRouteOptions: true});
+
+    // Alternatives are non-critical, the service returns [] on failure
+    const alternatives = await routesService.getAlternativeRoutes({
+      origin: currentPosition,
+      destination,
+      preferSafeRoute,
+      waypoints,
+      departureTime: departureTime ?? undefined,
+    });
+
+    // Destination changed while loading
+    if (get().destination !== destination) {
+      set({isLoadingRouteOptions: false});
+      return;
+    }
+
+    const {currentRoute, alternativeRoute} = get();
+    set({
+      routeOptions: mergeRouteOptions([currentRoute, alternativeRoute], alternatives),
+      isLoadingRouteOptions: false,
+    });
+  },
+
   /**
    * Start active navigation mode
    * Requirement 6.1: Enter navigation mode with rotated map
@@ -190,27 +292,34 @@ export const useMapStore = create<MapStore>()((set, get) => ({
    * Requirement 15.4: Cancel pending requests
    */
   loadHeatmapData: async (bounds: MapBounds, filters?: HeatmapFilters) => {
+    const requestId = ++heatmapRequestId;
     set({isLoadingHeatmap: true});
 
     try {
-      // heatmapService.getHeatmapData automatically cancels pending requests
+      // heatmapService.getHeatmapData reuses cached tiles for this area
       const points = await heatmapService.getHeatmapData(bounds, filters);
+      if (requestId !== heatmapRequestId) {
+        return;
+      }
       set({
         heatmapData: points,
         heatmapFilters: filters || null,
         isLoadingHeatmap: false,
       });
     } catch (error) {
-      set({isLoadingHeatmap: false});
+      if (requestId === heatmapRequestId) {
+        set({isLoadingHeatmap: false});
+      }
       // Don't throw - heatmap is non-critical
     }
   },
 
   /**
    * Set heatmap filters
+   * Requirement 9.2: Points loaded for other filters are discarded until reloaded
    */
   setHeatmapFilters: (filters: HeatmapFilters | null) => {
-    set({heatmapFilters: filters});
+    set({heatmapFilters: filters, heatmapData: []});
   },
 
   /**
@@ -227,7 +336,10 @@ export const useMapStore = create<MapStore>()((set, get) => ({
     set({
       currentRoute: null,
       alternativeRoute: null,
+      routeOptions: [],
       destination: null,
+      waypoints: [],
+      departureTime: null,
       isNavigating: false,
     });
   },
@@ -0,0 +1,230 @@
+/**
+ * Moderation Store
+ * Queue of flagged occurrences for moderators, and the decisions taken on them
+ */
+
+import {create} from 'zustand';
+import {ModerationItem, ModerationStatistics, Occurrence} from '../types/models';
+import {moderationService} from '../services/api/moderation';
+import {heatmapService} from '../services/api/heatmap';
+import {isParsedApiError} from '../shared/services/api';
+import {useOccurrenceStore} from './occurrenceStore';
+
+/**
+ * Decision a moderator can take on a flagged occurrence
+ */
+export type ModerationDecision = 'approve' | 'hide' | 'recategorize' | 'merge';
+
+/**
+ * Moderation store state interface
+ */
+export interface ModerationState {
+  items: ModerationItem[];
+  statistics: ModerationStatistics;
+  isLoading: boolean;
+  /** Item a decision is being sent for */
+  actingId: string | null;
+  /** Merge candidates by item id */
+  duplicates: Record<string, Occurrence[]>;
+  loadingDuplicatesId: string | null;
+  error: string | null;
+}
+
+/**
+ * Moderation store actions interface
+ */
+export interface ModerationActions {
+  loadQueue: () => Promise<void>;
+  /** Each decision resolves to false when it was not recorded, with the reason in error */
+  approve: (id: string, notes?: string) => Promise<boolean>;
+  hide: (id: string, notes?: string) => Promise<boolean>;
+  recategorize: (id: string, crimeTypeId: string, notes?: string) => Promise<boolean>;
+  loadDuplicates: (id: string) => Promise<void>;
+  merge: (id: string, targetOccurrenceId: string, notes?: string) => Promise<boolean>;
+  clearError: () => void;
+  reset: () => void;
+}
+
+/**
+ * Combined moderation store type
+ */
+export type ModerationStore = ModerationState & ModerationActions;
+
+/**
+ * Initial moderation state
+ */
+const initialState: ModerationState = {
+  items: [],
+  statistics: {pending: 0, approvedToday: 0, rejectedToday: 0},
+  isLoading: false,
+  actingId: null,
+  duplicates: {},
+  loadingDuplicatesId: null,
+  error: null,
+};
+
+/**
+ * Update the counters after a decision. Only hiding counts as a rejection,
+ * the server closes every other decision as approved.
+ */
+export const applyDecisionToStatistics = (
+  statistics: ModerationStatistics,
+  decision: ModerationDecision,
+): ModerationStatistics => ({
+  pending: Math.max(0, statistics.pending - 1),
+  approvedToday: statistics.approvedToday + (decision === 'hide' ? 0 : 1),
+  rejectedToday: statistics.rejectedToday + (decision === 'hide' ? 1 : 0),
+});
+
+/**
+ * Check whether a decision takes the occurrence off the map
+ */
+export const removesFromMap = (decision: ModerationDecision): boolean =>
+  decision === 'hide' || decision === 'merge';
+
+/**
+ * Keep the map in sync with a decision
+ */
+const syncOccurrenceStore = (occurrence: Occurrence, decision: ModerationDecision): void => {
+  if (decision === 'approve') {
+    return;
+  }
+
+  // Cached heatmap tiles still weigh the occurrence as it was
+  heatmapService.clearCache();
+
+  useOccurrenceStore.setState(state => {
+    if (removesFromMap(decision)) {
+      return {
+        occurrences: state.occurrences.filter(occ => occ.id !== occurrence.id),
+        selectedOccurrence:
+          state.selectedOccurrence?.id === occurrence.id ? null : state.selectedOccurrence,
+      };
+    }
+    return {
+      occurrences: state.occurrences.map(occ =>
+        occ.id === occurrence.id ? {...occ, crimeType: occurrence.crimeType} : occ,
+      ),
+      selectedOccurrence:
+        state.selectedOccurrence?.id === occurrence.id
+          ? {...state.selectedOccurrence, crimeType: occurrence.crimeType}
+          : state.selectedOccurrence,
+    };
+  });
+};
+
+/**
+ * Moderation store
+ */
+export const useModerationStore = create<ModerationStore>()((set, get) => {
+  /**
+   * Send a decision and drop the item from the queue once it is recorded.
+   * An item another moderator already handled is dropped as well.
+   */
+  const decide = async (
+    id: string,
+    decision: ModerationDecision,
+    send: (item: ModerationItem) => Promise<Occurrence>,
+  ): Promise<boolean> => {
+    const item = get().items.find(queued => queued.id === id);
+    if (!item || get().actingId) {
+      return false;
+    }
+
+    set({actingId: id, error: null});
+
+    try {
+      const occurrence = await send(item);
+      set(state => {
+        const duplicates = {...state.duplicates};
+        delete duplicates[id];
+        return {
+          actingId: null,
+          items: state.items.filter(queued => queued.id !== id),
+          statistics: applyDecisionToStatistics(state.statistics, decision),
+          duplicates,
+        };
+      });
+      syncOccurrenceStore(occurrence, decision);
+      return true;
+    } catch (error) {
+      console.error(`[ModerationStore] Failed to ${decision} item:`, error);
+      if (isParsedApiError(error) && error.status === 404) {
+        set(state => ({
+          actingId: null,
+          items: state.items.filter(queued => queued.id !== id),
+          statistics: {...state.statistics, pending: Math.max(0, state.statistics.pending - 1)},
+          error: 'moderation.errors.alreadyResolved',
+        }));
+      } else {
+        set({actingId: null, error: 'moderation.errors.decision'});
+      }
+      return false;
+    }
+  };
+
+  return {
+    ...initialState,
+
+    loadQueue: async () => {
+      set({isLoading: true, error: null});
+
+      try {
+        const queue = await moderationService.getQueue();
+        set({items: queue.items, statistics: queue.statistics, duplicates: {}, isLoading: false});
+      } catch (error) {
+        console.error('[ModerationStore] Failed to load queue:', error);
+        set({isLoading: false, error: 'moderation.errors.load'});
+      }
+    },
+
+    approve: (id: string, notes?: string) =>
+      decide(id, 'approve', async item => {
+        await moderationService.approve(id, notes);
+        return item.occurrence;
+      }),
+
+    hide: (id: string, notes?: string) =>
+      decide(id, 'hide', async item => {
+        await moderationService.hide(id, notes);
+        return item.occurrence;
+      }),
+
+    recategorize: (id: string, crimeTypeId: string, notes?: string) =>
+      decide(id, 'recategorize', async item => {
+        const updated = await moderationService.recategorize(id, crimeTypeId, notes);
+        return {...item.occurrence, crimeType: updated.crimeType};
+      }),
+
+    loadDuplicates: async (id: string) => {
+      set({loadingDuplicatesId: id, error: null});
+
+      try {
+        const candidates = await moderationService.getDuplicates(id);
+        set(state => ({
+          duplicates: {...state.duplicates, [id]: candidates},
+          loadingDuplicatesId: state.loadingDuplicatesId === id ? null : state.loadingDuplicatesId,
+        }));
+      } catch (error) {
+        console.error('[ModerationStore] Failed to load duplicates:', error);
+        set({loadingDuplicatesId: null, error: 'moderation.errors.duplicates'});
+      }
+    },
+
+    merge: (id: string, targetOccurrenceId: string, notes?: string) =>
+      decide(id, 'merge', async item => {
+        await moderationService.merge(id, targetOccurrenceId, notes);
+        return item.occurrence;
+      }),
+
+    clearError: () => {
+      set({error: null});
+    },
+
+    reset: () => {
+      set(initialState);
+    },
+  };
+});
+
+export default useModerationStore;
@@ -0,0 +1,269 @@
+/**
+ * My Reports Store
+ * History of the reports sent by the current user, with editing within the
+ * edit window and withdrawal
+ */
+
+import {create} from 'zustand';
+import {Occurrence, UpdateOccurrenceData} from '../types/models';
+import {occurrencesService} from '../services/api/occurrences';
+import {heatmapService} from '../services/api/heatmap';
+import {isParsedApiError} from '../shared/services/api';
+import {useOccurrenceStore} from './occurrenceStore';
+
+/**
+ * My reports store state interface
+ */
+export interface MyReportsState {
+  reports: Occurrence[];
+  /** Last page loaded, 0 before the first load */
+  page: number;
+  lastPage: number;
+  total: number;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  /** Report being edited or withdrawn */
+  savingId: string | null;
+  error: string | null;
+}
+
+/**
+ * My reports store actions interface
+ */
+export interface MyReportsActions {
+  /** Load the first page again, replacing the list */
+  loadReports: () => Promise<void>;
+  loadMoreReports: () => Promise<void>;
+  /** Resolves to false when the change was refused, with the reason in error */
+  updateReport: (id: string, data: UpdateOccurrenceData) => Promise<boolean>;
+  withdrawReport: (id: string) => Promise<boolean>;
+  clearError: () => void;
+  reset: () => void;
+}
+
+/**
+ * Combined my reports store type
+ */
+export type MyReportsStore = MyReportsState & MyReportsActions;
+
+/**
+ * Initial my reports state
+ */
+const initialState: MyReportsState = {
+  reports: [],
+  page: 0,
+  lastPage: 1,
+  total: 0,
+  isLoading: false,
+  isLoadingMore: false,
+  savingId: null,
+  error: null,
+};
+
+/**
+ * Time left to edit a report (milliseconds), 0 once it can't be edited
+ */
+export const getEditTimeLeft = (report: Occurrence, now: number): number => {
+  if ((report.status ?? 'active') !== 'active' || !report.editableUntil) {
+    return 0;
+  }
+  const editableUntil = Date.parse(report.editableUntil);
+  return Number.isNaN(editableUntil) ? 0 : Math.max(0, editableUntil - now);
+};
+
+/**
+ * Check whether a report can still be edited
+ */
+export const isReportEditable = (report: Occurrence, now: number): boolean =>
+  getEditTimeLeft(report, now) > 0;
+
+/**
+ * Check whether a report can still be withdrawn
+ */
+export const isReportWithdrawable = (report: Occurrence): boolean =>
+  (report.status ?? 'active') === 'active';
+
+/**
+ * Append a page to the list. Reports sent since the first page shift the
+ * pages, so reports already listed are not added twice.
+ */
+export const mergeReportPage = (reports: Occurrence[], page: Occurrence[]): Occurrence[] => {
+  const ids = new Set(reports.map(report => report.id));
+  return [...reports, ...page.filter(report => !ids.has(report.id))];
+};
+
+/**
+ * Apply what the server returned after an edit or withdrawal. Moderation and
+ * confirmations are only sent with the history, so they are kept as listed.
+ */
+export const applyReportChanges = (report: Occurrence, changed: Occurrence): Occurrence => ({
+  ...report,
+  crimeType: changed.crimeType,
+  severity: changed.severity,
+  description: changed.description,
+  status: changed.status ?? report.status,
+});
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (isParsedApiError(error) && error.status === 403) {
+    return 'occurrence.myReports.errors.editWindowExpired';
+  }
+  return fallback;
+};
+
+/**
+ * Incremented on every reload so pages requested before it are dropped
+ */
+let reportsGeneration = 0;
+
+/**
+ * Keep the map in sync with a report changed from the history
+ */
+const syncOccurrenceStore = (report: Occurrence): void => {
+  // Cached heatmap tiles still weigh the report as it was
+  heatmapService.clearCache();
+
+  useOccurrenceStore.setState(state => {
+    if (report.status === 'withdrawn') {
+      return {
+        occurrences: state.occurrences.filter(occ => occ.id !== report.id),
+        selectedOccurrence:
+          state.selectedOccurrence?.id === report.id ? null : state.selectedOccurrence,
+      };
+    }
+    return {
+      occurrences: state.occurrences.map(occ =>
+        occ.id === report.id ? applyReportChanges(occ, report) : occ,
+      ),
+      selectedOccurrence:
+        state.selectedOccurrence?.id === report.id
+          ? applyReportChanges(state.selectedOccurrence, report)
+          : state.selectedOccurrence,
+    };
+  });
+};
+
+/**
+ * My reports store
+ */
+export const useMyReportsStore = create<MyReportsStore>()((set, get) => ({
+  ...initialState,
+
+  loadReports: async () => {
+    const generation = ++reportsGeneration;
+    set({isLoading: true, isLoadingMore: false, error: null});
+
+    try {
+      const response = await occurrencesService.listMine(1);
+      if (generation !== reportsGeneration) {
+        return;
+      }
+      set({
+        reports: response.data,
+        page: response.meta.currentPage,
+        lastPage: response.meta.lastPage,
+        total: response.meta.total,
+        isLoading: false,
+      });
+    } catch (error) {
+      console.error('[MyReportsStore] Failed to load reports:', error);
+      if (generation === reportsGeneration) {
+        set({isLoading: false, error: 'occurrence.myReports.errors.load'});
+      }
+    }
+  },
+
+  loadMoreReports: async () => {
+    const {page, lastPage, isLoading, isLoadingMore} = get();
+    if (isLoading || isLoadingMore || page === 0 || page >= lastPage) {
+      return;
+    }
+
+    const generation = reportsGeneration;
+    set({isLoadingMore: true, error: null});
+
+    try {
+      const response = await occurrencesService.listMine(page + 1);
+      if (generation !== reportsGeneration) {
+        return;
+      }
+      set(state => ({
+        reports: mergeReportPage(state.reports, response.data),
+        page: response.meta.currentPage,
+        lastPage: response.meta.lastPage,
+        total: response.meta.total,
+        isLoadingMore: false,
+      }));
+    } catch (error) {
+      console.error('[MyReportsStore] Failed to load more reports:', error);
+      if (generation === reportsGeneration) {
+        set({isLoadingMore: false, error: 'occurrence.myReports.errors.load'});
+      }
+    }
+  },
+
+  updateReport: async (id: string, data: UpdateOccurrenceData) => {
+    const report = get().reports.find(item => item.id === id);
+    if (!report || get().savingId) {
+      return false;
+    }
+    if (!isReportEditable(report, Date.now())) {
+      set({error: 'occurrence.myReports.errors.editWindowExpired'});
+      return false;
+    }
+
+    set({savingId: id, error: null});
+
+    try {
+      const updated = await occurrencesService.update(id, data);
+      set(state => ({
+        savingId: null,
+        reports: state.reports.map(item =>
+          item.id === id ? applyReportChanges(item, updated) : item,
+        ),
+      }));
+      syncOccurrenceStore(updated);
+      return true;
+    } catch (error) {
+      console.error('[MyReportsStore] Failed to update report:', error);
+      set({savingId: null, error: getErrorMessage(error, 'occurrence.myReports.errors.update')});
+      return false;
+    }
+  },
+
+  withdrawReport: async (id: string) => {
+    const report = get().reports.find(item => item.id === id);
+    if (!report || !isReportWithdrawable(report) || get().savingId) {
+      return false;
+    }
+
+    set({savingId: id, error: null});
+
+    try {
+      const withdrawn = await occurrencesService.withdraw(id);
+      // Older servers may not echo the new status
+      const result = applyReportChanges(report, {...withdrawn, status: 'withdrawn'});
+      set(state => ({
+        savingId: null,
+        reports: state.reports.map(item => (item.id === id ? result : item)),
+      }));
+      syncOccurrenceStore(result);
+      return true;
+    } catch (error) {
+      console.error('[MyReportsStore] Failed to withdraw report:', error);
+      set({savingId: null, error: 'occurrence.myReports.errors.withdraw'});
+      return false;
+    }
+  },
+
+  clearError: () => {
+    set({error: null});
+  },
+
+  reset: () => {
+    reportsGeneration++;
+    set(initialState);
+  },
+}));
+
+export default useMyReportsStore;
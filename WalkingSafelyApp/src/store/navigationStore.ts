@@ -13,9 +13,12 @@ import {
 } from '../types/models';
 import {TrafficUpdateResponse} from '../types/api';
 import {routesService} from '../services/api/routes';
+import {navigationCache} from '../services/navigationCache';
+import {isNetworkError} from '../shared/services/api';
 import {decodePolyline} from '../components/map';
 import {distanceToPolyline, calculateDistance} from '../utils/geo';
-import {DEVIATION_THRESHOLD} from '../utils/navigationConstants';
+import {ARRIVAL_THRESHOLD, DEVIATION_THRESHOLD} from '../utils/navigationConstants';
+import {getLegRemainingDistance, getLegTarget, getNextLegIndex} from '../utils/routeLegs';
 
 /**
  * Route type preference for navigation
@@ -51,6 +54,22 @@ interface NavigationState {
   shouldNarrate: boolean;
   /** Index of last narrated instruction to avoid repeating */
   lastNarratedIndex: number;
+  /** Decoded route polyline, kept so deviation checks work offline */
+  routeCoordinates: Coordinates[];
+  /** Flag indicating the last network request failed for lack of connectivity */
+  isOffline: boolean;
+  /** Last time a network request was attempted while offline */
+  lastOfflineRetry: number | null;
+  /** Flag indicating the user reached the destination */
+  hasArrived: boolean;
+  /** Intermediate stops of the trip, kept across recalculations */
+  stops: Coordinates[];
+  /** Leg being walked: leg N ends at stops[N], the last one at the destination */
+  currentLegIndex: number;
+  /** Distance left on the current leg (meters) */
+  legRemainingDistance: number;
+  /** Index of the stop just reached, until the UI announces it */
+  reachedStopIndex: number | null;
 }
 
 /**
@@ -58,6 +77,8 @@ interface NavigationState {
  */
 interface NavigationActions {
   startSession: (route: RouteResponse, routeType?: RouteTypePreference, destination?: Coordinates) => void;
+  /** Restore the session saved in local storage, returns false if there is none */
+  restoreSession: () => Promise<boolean>;
   endSession: () => void;
   updatePosition: (position: Coordinates, speed?: number) => void;
   checkForRecalculation: () => Promise<RouteRecalculationResponse | null>;
@@ -74,6 +95,8 @@ interface NavigationActions {
   checkDeviation: () => { deviated: boolean; distance: number };
   /** Mark current instruction as narrated */
   markAsNarrated: () => void;
+  /** Clear the reached stop after it was announced */
+  clearReachedStop: () => void;
 }
 
 /**
@@ -105,6 +128,11 @@ export const INSTRUCTION_ADVANCE_THRESHOLD = 10;
  */
 const TRAFFIC_CHECK_INTERVAL = 60000; // 60 seconds
 
+/**
+ * Minimum time between network attempts while offline (milliseconds)
+ */
+export const OFFLINE_RETRY_INTERVAL = 15000; // 15 seconds
+
 /**
  * Determine if instruction should be narrated based on distance
  * Requirement 14.4: Narrate instructions with adequate advance notice (30m)
@@ -247,6 +275,49 @@ const initialState: NavigationState = {
   lastRecalculationTime: null,
   shouldNarrate: false,
   lastNarratedIndex: -1,
+  routeCoordinates: [],
+  isOffline: false,
+  lastOfflineRetry: null,
+  hasArrived: false,
+  stops: [],
+  currentLegIndex: 0,
+  legRemainingDistance: 0,
+  reachedStopIndex: null,
+};
+
+/**
+ * Check whether a network request may be attempted
+ * While offline, requests are only retried every OFFLINE_RETRY_INTERVAL
+ */
+export function canAttemptNetworkRequest(
+  isOffline: boolean,
+  lastOfflineRetry: number | null,
+  now: number = Date.now(),
+): boolean {
+  return !isOffline || !lastOfflineRetry || now - lastOfflineRetry >= OFFLINE_RETRY_INTERVAL;
+}
+
+/**
+ * Save the active session so navigation survives connectivity loss and app restarts
+ */
+const persistSession = (state: NavigationState): void => {
+  if (!state.sessionId || !state.route) {
+    return;
+  }
+  navigationCache
+    .save({
+      sessionId: state.sessionId,
+      route: state.route,
+      routeCoordinates: state.routeCoordinates,
+      destination: state.destination,
+      routeTypePreference: state.routeTypePreference,
+      currentInstructionIndex: state.currentInstructionIndex,
+      stops: state.stops,
+      currentLegIndex: state.currentLegIndex,
+    })
+    .catch(error => {
+      console.warn('[NavigationStore] Failed to cache session:', error);
+    });
 };
 
 /**
@@ -287,7 +358,55 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
       lastRecalculationTime: null,
       shouldNarrate: false,
       lastNarratedIndex: -1,
+      routeCoordinates: decodePolyline(route.polyline),
+      isOffline: false,
+      lastOfflineRetry: null,
+      hasArrived: false,
+      stops: route.waypoints ?? [],
+      currentLegIndex: 0,
+      legRemainingDistance: route.distance,
+      reachedStopIndex: null,
     });
+
+    // Keep route, instructions and risk points available offline
+    persistSession(get());
+  },
+
+  /**
+   * Restore a session saved by startSession
+   */
+  restoreSession: async () => {
+    const cached = await navigationCache.load();
+    if (!cached) {
+      return false;
+    }
+
+    const {route} = cached;
+    const instructionIndex = Math.min(
+      cached.currentInstructionIndex,
+      Math.max(route.instructions.length - 1, 0),
+    );
+
+    set({
+      ...initialState,
+      sessionId: cached.sessionId,
+      route,
+      routeCoordinates: cached.routeCoordinates.length
+        ? cached.routeCoordinates
+        : decodePolyline(route.polyline),
+      destination: cached.destination,
+      routeTypePreference: cached.routeTypePreference,
+      currentInstructionIndex: instructionIndex,
+      currentInstruction: route.instructions[instructionIndex] ?? null,
+      remainingDistance: route.distance,
+      remainingDuration: route.duration,
+      lastTrafficCheck: Date.now(),
+      // Don't repeat the instruction narrated before the restart
+      lastNarratedIndex: instructionIndex,
+      stops: cached.stops ?? route.waypoints ?? [],
+      currentLegIndex: cached.currentLegIndex ?? 0,
+    });
+    return true;
   },
 
   /**
@@ -295,6 +414,9 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
    */
   endSession: () => {
     set(initialState);
+    navigationCache.clear().catch(error => {
+      console.warn('[NavigationStore] Failed to clear cached session:', error);
+    });
   },
 
   /**
@@ -304,12 +426,33 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
    * Requirement 14.4: Narrate instructions with adequate advance notice (30m)
    */
   updatePosition: (position: Coordinates, speed?: number) => {
-    const {route, currentInstructionIndex, lastNarratedIndex} = get();
+    const {route, currentInstructionIndex, lastNarratedIndex, destination, stops, routeCoordinates} =
+      get();
 
     if (!route) {
       return;
     }
 
+    // Track progress per leg of a multi-stop route
+    const currentLegIndex = getNextLegIndex(position, stops, get().currentLegIndex);
+
+    // Once reached, the destination stays reached for the rest of the session.
+    // It only counts on the last leg, a round trip starts at its destination.
+    const hasArrived =
+      get().hasArrived ||
+      (currentLegIndex >= stops.length &&
+        destination !== null &&
+        calculateDistance(position, destination) <= ARRIVAL_THRESHOLD);
+    const hasReachedStop = currentLegIndex > get().currentLegIndex;
+    const legTarget = getLegTarget(stops, currentLegIndex, destination);
+    const legProgress = {
+      currentLegIndex,
+      legRemainingDistance: legTarget
+        ? Math.round(getLegRemainingDistance(position, legTarget, routeCoordinates))
+        : 0,
+      reachedStopIndex: hasReachedStop ? currentLegIndex - 1 : get().reachedStopIndex,
+    };
+
     // Calculate remaining distance by summing distances from current position to all remaining instructions
     let remainingDistance = 0;
     
@@ -412,7 +555,13 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
           ? updatedInstruction 
           : {...currentInstruction, distance: Math.round(distanceToTarget)},
         shouldNarrate: shouldNarrateNow,
+        hasArrived,
+        ...legProgress,
       });
+
+      if (isAdvancingToNewInstruction || hasReachedStop) {
+        persistSession(get());
+      }
     } else {
       // No current instruction, just update position
       set({
@@ -421,7 +570,13 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
         remainingDistance,
         remainingDuration,
         shouldNarrate: false,
+        hasArrived,
+        ...legProgress,
       });
+
+      if (hasReachedStop) {
+        persistSession(get());
+      }
     }
   },
 
@@ -440,6 +595,11 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
       routeTypePreference,
       destination,
       lastRecalculationTime,
+      routeCoordinates,
+      isOffline,
+      lastOfflineRetry,
+      stops,
+      currentLegIndex,
     } = get();
 
     if (!sessionId || !currentPosition || !route || isRecalculating) {
@@ -452,9 +612,6 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
       return null;
     }
 
-    // Decode the route polyline to get all coordinates
-    const routeCoordinates = decodePolyline(route.polyline);
-
     // Check if user has deviated from route using polyline distance
     // Requirement 16.1: Detect deviation > 30m (DEVIATION_THRESHOLD)
     const {distance: minDistance} = distanceToPolyline(
@@ -466,6 +623,11 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
 
     // If deviation exceeds threshold (30m), recalculate
     if (minDistance > DEVIATION_THRESHOLD) {
+      // Offline: keep guiding on the cached route and retry periodically
+      if (!canAttemptNetworkRequest(isOffline, lastOfflineRetry, now)) {
+        return null;
+      }
+
       console.log('[NavigationStore] User deviated from route, initiating recalculation');
       set({isRecalculating: true, wasRecalculated: false});
 
@@ -478,11 +640,14 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
             origin: currentPosition,
             destination: destination,
             preferSafeRoute: routeTypePreference === 'safest',
+            // Keep visiting the stops not reached yet
+            waypoints: stops.slice(currentLegIndex),
           });
 
           // Update route with recalculated one
           set({
             route: newRoute,
+            routeCoordinates: decodePolyline(newRoute.polyline),
             currentInstruction:
               newRoute.instructions.length > 0
                 ? newRoute.instructions[0]
@@ -494,7 +659,10 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
             wasRecalculated: true,
             lastRecalculationTime: Date.now(),
             pendingAlternativeRoute: null,
+            isOffline: false,
+            lastOfflineRetry: null,
           });
+          persistSession(get());
 
           return {
             route: newRoute,
@@ -510,6 +678,7 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
           // Update route with recalculated one
           set({
             route: result.route,
+            routeCoordinates: decodePolyline(result.route.polyline),
             currentInstruction:
               result.route.instructions.length > 0
                 ? result.route.instructions[0]
@@ -523,11 +692,26 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
             pendingAlternativeRoute: result.hasAlternative
               ? result.alternativeRoute || null
               : null,
+            isOffline: false,
+            lastOfflineRetry: null,
           });
+          persistSession(get());
 
           return result;
         }
       } catch (error) {
+        if (isNetworkError(error)) {
+          // No connectivity - not an error, navigation continues on the cached route
+          console.warn('[NavigationStore] Offline, recalculation postponed');
+          set({
+            isRecalculating: false,
+            wasRecalculated: false,
+            isOffline: true,
+            lastOfflineRetry: Date.now(),
+          });
+          return null;
+        }
+
         console.error('[NavigationStore] Route recalculation failed:', error);
         set({
           isRecalculating: false,
@@ -549,7 +733,7 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
    * Requirement 8.1: Check traffic every 60 seconds
    */
   checkTrafficUpdate: async () => {
-    const {sessionId, currentPosition, lastTrafficCheck} = get();
+    const {sessionId, currentPosition, lastTrafficCheck, isOffline, lastOfflineRetry} = get();
 
     if (!sessionId || !currentPosition) {
       return null;
@@ -560,6 +744,9 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
     if (lastTrafficCheck && now - lastTrafficCheck < TRAFFIC_CHECK_INTERVAL) {
       return null;
     }
+    if (!canAttemptNetworkRequest(isOffline, lastOfflineRetry, now)) {
+      return null;
+    }
 
     try {
       const result = await routesService.checkTrafficUpdate(
@@ -567,16 +754,20 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
         currentPosition,
       );
 
-      set({lastTrafficCheck: now});
+      set({lastTrafficCheck: now, isOffline: false, lastOfflineRetry: null});
 
       if (result.hasUpdate && result.alternativeRoute) {
         set({pendingAlternativeRoute: result.alternativeRoute});
       }
 
       return result;
-    } catch {
+    } catch (error) {
       // Traffic updates are non-critical, don't throw
-      set({lastTrafficCheck: now});
+      set(
+        isNetworkError(error)
+          ? {lastTrafficCheck: now, isOffline: true, lastOfflineRetry: now}
+          : {lastTrafficCheck: now},
+      );
       return null;
     }
   },
@@ -590,6 +781,7 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
     if (pendingAlternativeRoute) {
       set({
         route: pendingAlternativeRoute,
+        routeCoordinates: decodePolyline(pendingAlternativeRoute.polyline),
         currentInstruction:
           pendingAlternativeRoute.instructions.length > 0
             ? pendingAlternativeRoute.instructions[0]
@@ -599,6 +791,7 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
         remainingDuration: pendingAlternativeRoute.duration,
         pendingAlternativeRoute: null,
       });
+      persistSession(get());
     }
   },
 
@@ -649,19 +842,26 @@ export const useNavigationStore = create<NavigationStore>()((set, get) => ({
     set({wasRecalculated: false});
   },
 
+  /**
+   * Clear the reached stop
+   * Used after UI has announced the stop
+   */
+  clearReachedStop: () => {
+    set({reachedStopIndex: null});
+  },
+
   /**
    * Check if user has deviated from route
    * Requirement 16.1: Detect deviation > 30m from route
    * Returns deviation status and distance
    */
   checkDeviation: () => {
-    const {currentPosition, route} = get();
+    const {currentPosition, route, routeCoordinates} = get();
 
     if (!currentPosition || !route) {
       return {deviated: false, distance: 0};
     }
 
-    const routeCoordinates = decodePolyline(route.polyline);
     const {distance} = distanceToPolyline(currentPosition, routeCoordinates);
 
     return {
@@ -1,17 +1,57 @@
 /**
  * Occurrence Store
- * Manages occurrence state for risk points on the map
+ * Manages occurrence state for risk points on the map, with a persisted
+ * outbox for reports that could not be sent
  * Requirements: 2.1, 4.5, 4.6, 5.2
  */
 
 import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import {
   Occurrence,
   CreateOccurrenceData,
+  LocalAttachment,
   MapBounds,
+  OccurrenceAttachment,
+  OccurrenceFilters,
   OccurrenceSeverity,
+  OccurrenceVote,
+  OccurrenceVoteResult,
 } from '../types/models';
+import {useAuthStore} from '../features/auth/store/authStore';
+import {heatmapService} from '../services/api/heatmap';
 import {occurrencesService} from '../services/api/occurrences';
+import {attachmentFiles} from '../services/attachmentFiles';
+import {isNetworkError, isParsedApiError} from '../shared/services/api';
+import {MAX_REPORTS_PER_HOUR, MAX_RETRY_ATTEMPTS} from '../utils/constants';
+import {EMPTY_OCCURRENCE_FILTERS, filterOccurrences} from '../utils/occurrenceFilters';
+import {
+  MAX_VIEWPORT_TILES,
+  OCCURRENCE_EVICTION_MARGIN,
+  evictOutsideBounds,
+  expandBounds,
+  getFreshTiles,
+  getMissingTiles,
+  mergeOccurrences,
+  replaceTileOccurrences,
+} from '../utils/occurrenceViewport';
+import {getTileKey, tileToBounds} from '../utils/mapTiles';
+
+/**
+ * Base delay before retrying a queued report, doubled on every attempt
+ */
+export const OUTBOX_RETRY_BASE_DELAY = 30 * 1000; // 30 seconds
+
+/**
+ * Upper bound for the retry delay
+ */
+export const OUTBOX_RETRY_MAX_DELAY = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Window used for the local report rate limit
+ */
+const REPORT_WINDOW = 60 * 60 * 1000; // 1 hour
 
 /**
  * Occurrence form data for validation
@@ -22,6 +62,48 @@ export interface OccurrenceFormData {
   description?: string;
 }
 
+/**
+ * Delivery status of a queued report
+ * - pending: waiting for the next retry
+ * - sending: request in flight
+ * - failed: rejected by the server or out of retries, needs user action
+ */
+export type OutboxItemStatus = 'pending' | 'sending' | 'failed';
+
+/**
+ * Last error returned for a queued report
+ */
+export interface OutboxItemError {
+  code: string;
+  message: string;
+  validationErrors?: Record<string, string[]>;
+}
+
+/**
+ * Report kept on the device until the server accepts it
+ */
+export interface OutboxItem {
+  id: string;
+  data: CreateOccurrenceData;
+  status: OutboxItemStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  error: OutboxItemError | null;
+}
+
+/**
+ * Progress of the attachments being uploaded for an occurrence
+ */
+export interface AttachmentUploadProgress {
+  occurrenceId: string;
+  /** Attachments fully sent */
+  uploaded: number;
+  total: number;
+  /** Share of all the bytes sent, 0 to 1 */
+  progress: number;
+}
+
 /**
  * Occurrence store state interface
  */
@@ -32,15 +114,56 @@ export interface OccurrenceState {
   selectedOccurrence: Occurrence | null;
   isCreating: boolean;
   createError: string | null;
+  /** Reports waiting to be sent, persisted across restarts */
+  outbox: OutboxItem[];
+  /** Submission times used for the local hourly limit */
+  reportTimestamps: number[];
+  isFlushingOutbox: boolean;
+  isLoadingDetail: boolean;
+  /** Votes cast from this device, by user id and then occurrence id */
+  votes: Record<string, Record<string, OccurrenceVote>>;
+  /** Occurrence whose vote is being sent */
+  votingId: string | null;
+  voteError: string | null;
+  /** Filters chosen in the map filter sheet, also applied to the heatmap */
+  filters: OccurrenceFilters;
+  /** Load times of the map tiles whose occurrences are in memory for the current filters, by key */
+  loadedTiles: Record<string, number>;
+  /** The last viewport had more than MAX_VIEWPORT_TILES tiles, the outer ones were left empty */
+  viewportTruncated: boolean;
+  /** Attachments of the last created report being sent, null when idle */
+  attachmentUpload: AttachmentUploadProgress | null;
+  attachmentError: string | null;
 }
 
 /**
  * Occurrence store actions interface
  */
 export interface OccurrenceActions {
+  /** Merges every occurrence within the bounds into the list */
   fetchOccurrences: (bounds: MapBounds) => Promise<void>;
-  createOccurrence: (data: CreateOccurrenceData) => Promise<Occurrence>;
+  /** Fetches only the parts of the viewport not loaded yet and evicts far-away occurrences */
+  loadViewport: (bounds: MapBounds) => Promise<void>;
+  /** Hides occurrences outside the new filters right away, callers reload the viewport */
+  setFilters: (filters: OccurrenceFilters) => void;
+  /** Resolves with null when the report was queued in the outbox */
+  createOccurrence: (data: CreateOccurrenceData) => Promise<Occurrence | null>;
+  /** Resolves with the attachments the server accepted before a failure or cancel */
+  uploadAttachments: (
+    occurrenceId: string,
+    attachments: LocalAttachment[],
+  ) => Promise<OccurrenceAttachment[]>;
+  cancelAttachmentUpload: () => void;
+  clearAttachmentError: () => void;
+  flushOutbox: () => Promise<void>;
+  retryOutboxItem: (id: string) => Promise<void>;
+  removeOutboxItem: (id: string) => void;
   deleteOccurrence: (id: string) => Promise<void>;
+  /** Load the latest data of an occurrence into selectedOccurrence */
+  fetchOccurrenceDetail: (id: string) => Promise<void>;
+  /** Resolves with false when the vote was not accepted */
+  voteOccurrence: (id: string, vote: OccurrenceVote) => Promise<boolean>;
+  clearVoteError: () => void;
   selectOccurrence: (occurrence: Occurrence | null) => void;
   clearError: () => void;
   clearCreateError: () => void;
@@ -62,6 +185,18 @@ const initialState: OccurrenceState = {
   selectedOccurrence: null,
   isCreating: false,
   createError: null,
+  outbox: [],
+  reportTimestamps: [],
+  isFlushingOutbox: false,
+  isLoadingDetail: false,
+  votes: {},
+  votingId: null,
+  voteError: null,
+  filters: EMPTY_OCCURRENCE_FILTERS,
+  loadedTiles: {},
+  viewportTruncated: false,
+  attachmentUpload: null,
+  attachmentError: null,
 };
 
 /**
@@ -86,127 +221,664 @@ export function validateOccurrenceForm(data: OccurrenceFormData): string | null
   return null;
 }
 
+const NO_VOTES: Record<string, OccurrenceVote> = {};
+
+/**
+ * Key of the signed in user in the persisted votes
+ */
+const getVoterKey = (): string => String(useAuthStore.getState().user?.id ?? '');
+
+/**
+ * Votes the signed in user cast from this device, by occurrence id.
+ * Keyed by user so a shared device never shows one account's votes to another.
+ */
+export const selectUserVotes = (state: OccurrenceState): Record<string, OccurrenceVote> =>
+  state.votes[getVoterKey()] ?? NO_VOTES;
+
+/**
+ * Vote the current user cast on an occurrence, from the server or this device
+ */
+export const getUserVote = (
+  occurrence: Occurrence,
+  votes: Record<string, OccurrenceVote>,
+): OccurrenceVote | null => occurrence.userVote ?? votes[occurrence.id] ?? null;
+
+/**
+ * Update an occurrence with the counters returned for a vote
+ */
+export const applyVoteResult = (
+  occurrence: Occurrence,
+  result: OccurrenceVoteResult,
+): Occurrence => ({
+  ...occurrence,
+  confidenceScore: result.confidenceScore,
+  confirmations: result.confirmations,
+  disputes: result.disputes,
+  userVote: result.userVote,
+});
+
+/**
+ * Share of all the attachment bytes sent, with the attachment at the index
+ * sent up to the given fraction. Voice notes without a known size count as one byte.
+ */
+export const getAttachmentUploadProgress = (
+  sizes: number[],
+  index: number,
+  fraction: number,
+): number => {
+  const weights = sizes.map(size => Math.max(1, size));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0) {
+    return 1;
+  }
+  const sent =
+    weights.slice(0, index).reduce((sum, weight) => sum + weight, 0) +
+    (weights[index] ?? 0) * Math.min(1, Math.max(0, fraction));
+  return Math.min(1, sent / total);
+};
+
+/**
+ * Delay before the next attempt after the given number of failed attempts
+ */
+export const getOutboxRetryDelay = (attempts: number): number =>
+  Math.min(OUTBOX_RETRY_BASE_DELAY * Math.pow(2, Math.max(0, attempts - 1)), OUTBOX_RETRY_MAX_DELAY);
+
+/**
+ * Keep only submission times inside the rate limit window
+ */
+export const getRecentReportTimestamps = (timestamps: number[], now: number): number[] =>
+  timestamps.filter(timestamp => timestamp <= now && now - timestamp < REPORT_WINDOW);
+
+/**
+ * Whether another report can be submitted without exceeding MAX_REPORTS_PER_HOUR
+ */
+export const canSubmitReport = (timestamps: number[], now: number): boolean =>
+  getRecentReportTimestamps(timestamps, now).length < MAX_REPORTS_PER_HOUR;
+
+/**
+ * Failures worth retrying later: no connection or a server-side error.
+ * Rate limits and validation errors need the user to act.
+ */
+export const isRetryableCreateError = (error: unknown): boolean =>
+  isNetworkError(error) || (isParsedApiError(error) && error.status >= 500);
+
+/**
+ * Convert a create failure into the error kept with the queued report
+ */
+const toOutboxError = (error: unknown): OutboxItemError => {
+  if (isParsedApiError(error)) {
+    return {
+      code: error.code,
+      message: error.message,
+      validationErrors: error.validationErrors,
+    };
+  }
+  return {
+    code: 'UNKNOWN_ERROR',
+    message: error instanceof Error ? error.message : 'errors.createOccurrence',
+  };
+};
+
+/**
+ * Apply a delivery failure to a queued report
+ */
+export const applyOutboxFailure = (item: OutboxItem, error: unknown, now: number): OutboxItem => {
+  const attempts = item.attempts + 1;
+  const canRetry = isRetryableCreateError(error) && attempts < MAX_RETRY_ATTEMPTS;
+
+  return {
+    ...item,
+    attempts,
+    status: canRetry ? 'pending' : 'failed',
+    nextAttemptAt: canRetry ? now + getOutboxRetryDelay(attempts) : item.nextAttemptAt,
+    error: toOutboxError(error),
+  };
+};
+
+/**
+ * Hide the reporter of an anonymous report, even if the server sent it back
+ */
+export const applyReportAnonymity = (occurrence: Occurrence, anonymous?: boolean): Occurrence =>
+  anonymous ? {...occurrence, createdBy: null, isAnonymous: true} : occurrence;
+
+/**
+ * Incremented whenever the filters change so occurrences fetched for older filters are dropped
+ */
+let occurrencesGeneration = 0;
+
+/**
+ * Tiles being fetched, so overlapping viewport loads don't request them twice
+ */
+const pendingTiles = new Set<string>();
+
+/**
+ * Forget every loaded and pending tile, e.g. when the filters change
+ */
+const invalidateLoadedTiles = (): void => {
+  occurrencesGeneration++;
+  pendingTiles.clear();
+};
+
+/**
+ * Aborts the attachment upload in progress
+ */
+let attachmentUploadController: AbortController | null = null;
+
+const generateOutboxId = (): string =>
+  `outbox_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
 /**
  * Occurrence store
  */
-export const useOccurrenceStore = create<OccurrenceStore>()((set, get) => ({
-  ...initialState,
+export const useOccurrenceStore = create<OccurrenceStore>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
 
-  /**
-   * Fetch occurrences within map bounds
-   * Requirement 2.1: Display all risk points within visible map area
-   */
-  fetchOccurrences: async (bounds: MapBounds) => {
-    set({isLoading: true, error: null});
+      /**
+       * Fetch occurrences within map bounds
+       * Requirement 2.1: Display all risk points within visible map area
+       */
+      fetchOccurrences: async (bounds: MapBounds) => {
+        const generation = occurrencesGeneration;
+        set({isLoading: true, error: null});
 
-    try {
-      const occurrences = await occurrencesService.getNearby({bounds});
-      
-      set({
-        occurrences,
-        isLoading: false,
-      });
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'errors.fetchOccurrences';
-      set({
-        isLoading: false,
-        error: errorMessage,
-      });
-    }
-  },
-
-  /**
-   * Create a new occurrence
-   * Requirement 4.5: Register occurrence with captured coordinates
-   * Requirement 5.2: Return to map showing new risk point
-   */
-  createOccurrence: async (data: CreateOccurrenceData) => {
-    // Validate form data before submission (Requirement 4.6)
-    const validationError = validateOccurrenceForm({
-      crimeTypeId: data.crimeTypeId,
-      severity: data.severity,
-      description: data.description,
-    });
+        try {
+          const occurrences = await occurrencesService.getNearby({
+            bounds,
+            filters: get().filters,
+          });
+          if (generation !== occurrencesGeneration) {
+            return;
+          }
+
+          set(state => ({
+            occurrences: mergeOccurrences(state.occurrences, occurrences),
+            isLoading: false,
+          }));
+        } catch (error) {
+          if (generation !== occurrencesGeneration) {
+            return;
+          }
+          const errorMessage =
+            error instanceof Error ? error.message : 'errors.fetchOccurrences';
+          set({
+            isLoading: false,
+            error: errorMessage,
+          });
+        }
+      },
+
+      /**
+       * Load the occurrences of the visible map area.
+       * The viewport is split in tiles and only tiles not loaded yet or gone stale
+       * are fetched, while occurrences far from the viewport are dropped from memory.
+       */
+      loadViewport: async (bounds: MapBounds) => {
+        const generation = occurrencesGeneration;
+        const {filters} = get();
+
+        set(state =>
+          evictOutsideBounds(
+            state.occurrences,
+            state.loadedTiles,
+            expandBounds(bounds, OCCURRENCE_EVICTION_MARGIN),
+          ),
+        );
+
+        const missing = getMissingTiles(bounds, getFreshTiles(get().loadedTiles));
+        set({viewportTruncated: missing.length > MAX_VIEWPORT_TILES});
+
+        const tiles = missing
+          .slice(0, MAX_VIEWPORT_TILES)
+          .filter(tile => !pendingTiles.has(getTileKey(tile)));
+        if (tiles.length === 0) {
+          return;
+        }
+
+        tiles.forEach(tile => pendingTiles.add(getTileKey(tile)));
+        set({isLoading: true, error: null});
+
+        const results = await Promise.all(
+          tiles.map(async tile => {
+            try {
+              const occurrences = await occurrencesService.getNearby({
+                bounds: tileToBounds(tile),
+                filters,
+              });
+              return {key: getTileKey(tile), occurrences};
+            } catch (error) {
+              console.warn('[OccurrenceStore] Failed to load tile:', getTileKey(tile), error);
+              return null;
+            }
+          }),
+        );
+
+        if (generation !== occurrencesGeneration) {
+          return;
+        }
+        tiles.forEach(tile => pendingTiles.delete(getTileKey(tile)));
+
+        const loaded = results.filter(
+          (result): result is {key: string; occurrences: Occurrence[]} => result !== null,
+        );
+        const loadedAt = Date.now();
+        set(state => ({
+          occurrences: replaceTileOccurrences(
+            state.occurrences,
+            loaded.map(result => result.key),
+            loaded.flatMap(result => result.occurrences),
+          ),
+          // Failed tiles stay missing and are requested again on the next load
+          loadedTiles: {
+            ...state.loadedTiles,
+            ...Object.fromEntries(loaded.map(result => [result.key, loadedAt])),
+          },
+          isLoading: pendingTiles.size > 0,
+          error: loaded.length < tiles.length ? 'errors.fetchOccurrences' : state.error,
+        }));
+      },
+
+      /**
+       * Change the map filters
+       */
+      setFilters: (filters: OccurrenceFilters) => {
+        invalidateLoadedTiles();
+        set(state => ({
+          filters,
+          occurrences: filterOccurrences(state.occurrences, filters),
+          loadedTiles: {},
+          isLoading: false,
+        }));
+      },
+
+      /**
+       * Create a new occurrence
+       * Requirement 4.5: Register occurrence with captured coordinates
+       * Requirement 5.2: Return to map showing new risk point
+       */
+      createOccurrence: async (data: CreateOccurrenceData) => {
+        // Validate form data before submission (Requirement 4.6)
+        const validationError = validateOccurrenceForm({
+          crimeTypeId: data.crimeTypeId,
+          severity: data.severity,
+          description: data.description,
+        });
     
-    if (validationError) {
-      set({createError: validationError});
-      throw new Error(validationError);
-    }
+        if (validationError) {
+          set({createError: validationError});
+          throw new Error(validationError);
+        }
+
+        // Queued reports count too, so the limit holds while offline
+        const now = Date.now();
+        if (!canSubmitReport(get().reportTimestamps, now)) {
+          set({createError: 'errors.rateLimitExceeded'});
+          throw new Error('errors.rateLimitExceeded');
+        }
 
-    set({isCreating: true, createError: null});
+        set({isCreating: true, createError: null});
 
-    try {
-      const response = await occurrencesService.create(data);
+        // Only reports the server accepted or the outbox holds count toward the limit
+        const recordReport = () => [...getRecentReportTimestamps(get().reportTimestamps, now), now];
+
+        try {
+          const response = await occurrencesService.create(data);
+
+          // Cached heatmap tiles no longer include the new report
+          heatmapService.clearCache();
       
-      // Add the new occurrence to the list
-      const newOccurrence = response.occurrence;
-      const currentOccurrences = get().occurrences;
+          // Add the new occurrence to the list
+          const newOccurrence = applyReportAnonymity(response.occurrence, data.anonymous);
+          const currentOccurrences = get().occurrences;
       
-      set({
-        occurrences: [...currentOccurrences, newOccurrence],
-        isCreating: false,
-      });
+          set({
+            occurrences: [...currentOccurrences, newOccurrence],
+            isCreating: false,
+            reportTimestamps: recordReport(),
+          });
+
+          // The report is accepted even when some of its attachments are not
+          if (data.attachments?.length) {
+            const attachments = await get().uploadAttachments(newOccurrence.id, data.attachments);
+            return {...newOccurrence, attachments: [...(newOccurrence.attachments ?? []), ...attachments]};
+          }
       
-      return newOccurrence;
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : 'errors.createOccurrence';
-      set({
-        isCreating: false,
-        createError: errorMessage,
-      });
-      throw error;
-    }
-  },
-
-  /**
-   * Select an occurrence for viewing details
-   * Requirement 3.1: Display popup with occurrence details when tapped
-   */
-  selectOccurrence: (occurrence: Occurrence | null) => {
-    set({selectedOccurrence: occurrence});
-  },
-
-  /**
-   * Delete an occurrence
-   */
-  deleteOccurrence: async (id: string) => {
-    try {
-      await occurrencesService.delete(id);
+          return newOccurrence;
+        } catch (error) {
+          // Keep the report in the outbox when it can be sent later
+          if (isRetryableCreateError(error)) {
+            const item = applyOutboxFailure(
+              {
+                id: generateOutboxId(),
+                data,
+                status: 'pending',
+                attempts: 0,
+                nextAttemptAt: now,
+                createdAt: now,
+                error: null,
+              },
+              error,
+              now,
+            );
+            set({
+              outbox: [...get().outbox, item],
+              isCreating: false,
+              reportTimestamps: recordReport(),
+            });
+            return null;
+          }
+
+          const errorMessage =
+            error instanceof Error ? error.message : 'errors.createOccurrence';
+          set({
+            isCreating: false,
+            createError: errorMessage,
+          });
+          throw error;
+        }
+      },
+
+      /**
+       * Upload the photos and voice notes of a created occurrence one at a time.
+       * Their files are deleted afterwards, the report can't take them again.
+       */
+      uploadAttachments: async (occurrenceId: string, attachments: LocalAttachment[]) => {
+        const controller = new AbortController();
+        attachmentUploadController?.abort();
+        attachmentUploadController = controller;
+
+        const sizes = attachments.map(attachment => attachment.size ?? 0);
+        const total = attachments.length;
+        const uploaded: OccurrenceAttachment[] = [];
+        set({
+          attachmentUpload: {occurrenceId, uploaded: 0, total, progress: 0},
+          attachmentError: null,
+        });
+
+        try {
+          for (const [index, attachment] of attachments.entries()) {
+            const result = await occurrencesService.uploadAttachment(occurrenceId, attachment, {
+              signal: controller.signal,
+              onProgress: fraction =>
+                set({
+                  attachmentUpload: {
+                    occurrenceId,
+                    uploaded: index,
+                    total,
+                    progress: getAttachmentUploadProgress(sizes, index, fraction),
+                  },
+                }),
+            });
+            uploaded.push(result);
+          }
+        } catch (error) {
+          // Cancelling is the user's choice, not an error
+          if (!controller.signal.aborted) {
+            console.warn('[OccurrenceStore] Failed to upload attachment:', error);
+            set({attachmentError: 'occurrence.attachments.errors.uploadFailed'});
+          }
+        }
+
+        if (attachmentUploadController === controller) {
+          attachmentUploadController = null;
+        }
+        await attachmentFiles.remove(attachments);
+        set(state => ({
+          attachmentUpload:
+            state.attachmentUpload?.occurrenceId === occurrenceId ? null : state.attachmentUpload,
+          occurrences: state.occurrences.map(occ =>
+            occ.id === occurrenceId
+              ? {...occ, attachments: [...(occ.attachments ?? []), ...uploaded]}
+              : occ,
+          ),
+        }));
+        return uploaded;
+      },
+
+      /**
+       * Stop sending attachments, the ones already sent are kept
+       */
+      cancelAttachmentUpload: () => {
+        attachmentUploadController?.abort();
+      },
+
+      /**
+       * Clear attachment error state
+       */
+      clearAttachmentError: () => {
+        set({attachmentError: null});
+      },
+
+      /**
+       * Send queued reports whose retry time has come
+       */
+      flushOutbox: async () => {
+        if (get().isFlushingOutbox) {
+          return;
+        }
+
+        // Items left in "sending" by an interrupted flush are retried as well
+        const due = get().outbox.filter(
+          item => item.status !== 'failed' && item.nextAttemptAt <= Date.now(),
+        );
+        if (due.length === 0) {
+          return;
+        }
+
+        set({isFlushingOutbox: true});
+
+        const updateItem = (id: string, update: (item: OutboxItem) => OutboxItem | null) => {
+          set({
+            outbox: get().outbox.flatMap(item => {
+              if (item.id !== id) {
+                return [item];
+              }
+              const updated = update(item);
+              return updated ? [updated] : [];
+            }),
+          });
+        };
+
+        for (const item of due) {
+          updateItem(item.id, current => ({...current, status: 'sending'}));
+
+          try {
+            const response = await occurrencesService.create(item.data);
+            heatmapService.clearCache();
+            updateItem(item.id, () => null);
+            set({
+              occurrences: [
+                ...get().occurrences,
+                applyReportAnonymity(response.occurrence, item.data.anonymous),
+              ],
+            });
+            if (item.data.attachments?.length) {
+              await get().uploadAttachments(response.occurrence.id, item.data.attachments);
+            }
+          } catch (error) {
+            console.warn('[OccurrenceStore] Failed to send queued report:', error);
+            updateItem(item.id, current => applyOutboxFailure(current, error, Date.now()));
+          }
+        }
+
+        set({isFlushingOutbox: false});
+      },
+
+      /**
+       * Send a failed report again, starting a new round of retries
+       */
+      retryOutboxItem: async (id: string) => {
+        set({
+          outbox: get().outbox.map(item =>
+            item.id === id
+              ? {...item, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), error: null}
+              : item,
+          ),
+        });
+        await get().flushOutbox();
+      },
+
+      /**
+       * Discard a queued report
+       */
+      removeOutboxItem: (id: string) => {
+        const removed = get().outbox.find(item => item.id === id);
+        set({outbox: get().outbox.filter(item => item.id !== id)});
+        if (removed?.data.attachments?.length) {
+          void attachmentFiles.remove(removed.data.attachments);
+        }
+      },
+
+      /**
+       * Select an occurrence for viewing details
+       * Requirement 3.1: Display popup with occurrence details when tapped
+       */
+      selectOccurrence: (occurrence: Occurrence | null) => {
+        set({selectedOccurrence: occurrence});
+      },
+
+      /**
+       * Delete an occurrence
+       */
+      deleteOccurrence: async (id: string) => {
+        try {
+          await occurrencesService.delete(id);
       
-      // Remove from local state
-      const currentOccurrences = get().occurrences;
-      set({
-        occurrences: currentOccurrences.filter(occ => occ.id !== id),
-        selectedOccurrence: null,
-      });
-    } catch (error) {
-      console.error('[OccurrenceStore] Error deleting occurrence:', error);
-      throw error;
-    }
-  },
-
-  /**
-   * Clear fetch error state
-   */
-  clearError: () => {
-    set({error: null});
-  },
-
-  /**
-   * Clear create error state
-   */
-  clearCreateError: () => {
-    set({createError: null});
-  },
-
-  /**
-   * Reset store to initial state
-   */
-  reset: () => {
-    set(initialState);
-  },
-}));
+          // Remove from local state
+          const currentOccurrences = get().occurrences;
+          set({
+            occurrences: currentOccurrences.filter(occ => occ.id !== id),
+            selectedOccurrence: null,
+          });
+        } catch (error) {
+          console.error('[OccurrenceStore] Error deleting occurrence:', error);
+          throw error;
+        }
+      },
+
+      /**
+       * Load the latest data of an occurrence
+       */
+      fetchOccurrenceDetail: async (id: string) => {
+        set({isLoadingDetail: true});
+
+        try {
+          const occurrence = await occurrencesService.getOccurrenceById(id);
+          set(state => ({
+            isLoadingDetail: false,
+            selectedOccurrence: occurrence,
+            occurrences: state.occurrences.map(occ => (occ.id === id ? occurrence : occ)),
+          }));
+        } catch (error) {
+          // Keep showing the data already loaded with the map
+          set({isLoadingDetail: false});
+        }
+      },
+
+      /**
+       * Confirm or dispute an occurrence.
+       * Each user gets one vote per occurrence, the server updates the confidence score.
+       */
+      voteOccurrence: async (id: string, vote: OccurrenceVote) => {
+        const {selectedOccurrence, occurrences, votingId} = get();
+        const votes = selectUserVotes(get());
+        const occurrence =
+          selectedOccurrence?.id === id
+            ? selectedOccurrence
+            : occurrences.find(occ => occ.id === id);
+
+        if (votingId) {
+          return false;
+        }
+        if (occurrence ? getUserVote(occurrence, votes) : votes[id]) {
+          set({voteError: 'occurrence.errors.alreadyVoted'});
+          return false;
+        }
+
+        set({votingId: id, voteError: null});
+
+        try {
+          const result = await occurrencesService.vote(id, vote);
+          const userId = getVoterKey();
+          set(state => ({
+            votingId: null,
+            votes: {...state.votes, [userId]: {...state.votes[userId], [id]: result.userVote}},
+            occurrences: state.occurrences.map(occ =>
+              occ.id === id ? applyVoteResult(occ, result) : occ,
+            ),
+            selectedOccurrence:
+              state.selectedOccurrence?.id === id
+                ? applyVoteResult(state.selectedOccurrence, result)
+                : state.selectedOccurrence,
+          }));
+          return true;
+        } catch (error) {
+          if (isParsedApiError(error) && error.status === 409) {
+            // The server already has a vote from this user, load it
+            set({votingId: null, voteError: 'occurrence.errors.alreadyVoted'});
+            await get().fetchOccurrenceDetail(id);
+            return false;
+          }
+          set({
+            votingId: null,
+            voteError:
+              isParsedApiError(error) || error instanceof Error
+                ? error.message
+                : 'occurrence.errors.voteFailed',
+          });
+          return false;
+        }
+      },
+
+      /**
+       * Clear vote error state
+       */
+      clearVoteError: () => {
+        set({voteError: null});
+      },
+
+      /**
+       * Clear fetch error state
+       */
+      clearError: () => {
+        set({error: null});
+      },
+
+      /**
+       * Clear create error state
+       */
+      clearCreateError: () => {
+        set({createError: null});
+      },
+
+      /**
+       * Reset store to initial state
+       */
+      reset: () => {
+        invalidateLoadedTiles();
+        attachmentUploadController?.abort();
+        set(initialState);
+      },
+    }),
+    {
+      name: 'occurrence-outbox',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Only the outbox, the rate limit window, the votes and the filters need to survive restarts
+      partialize: state => ({
+        outbox: state.outbox,
+        reportTimestamps: state.reportTimestamps,
+        votes: state.votes,
+        filters: state.filters,
+      }),
+      // Version 0 kept the votes by occurrence only, without knowing whose they were
+      version: 1,
+      migrate: (persisted, version) =>
+        (version === 0
+          ? {...(persisted as Partial<OccurrenceState>), votes: {}}
+          : persisted) as OccurrenceStore,
+    },
+  ),
+);
 
 export default useOccurrenceStore;
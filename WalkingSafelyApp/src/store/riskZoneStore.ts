@@ -0,0 +1,144 @@
+/**
+ * Risk Zone Store
+ * Opt-in alerts for high risk areas the user walks into while not
+ * navigating, with cooldowns so the same area doesn't alert again and again
+ */
+
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import i18n from '../shared/config/i18n';
+import {Coordinates} from '../types/models';
+import {alertsService} from '../services/api/alerts';
+import {occurrencesService} from '../services/api/occurrences';
+import {localNotifications} from '../services/localNotifications';
+import {RISK_ZONE_PERIOD_DAYS, RISK_ZONE_RADIUS} from '../utils/constants';
+import {
+  RiskZoneCheck,
+  RiskZoneHistory,
+  boundsAround,
+  canAlertZone,
+  getZoneKey,
+  getZoneRiskScore,
+  isHighRiskZone,
+  recordZoneAlert,
+  shouldCheckZone,
+} from '../utils/riskZones';
+import {isRiskAlertAllowed, useAlertPreferencesStore} from './alertPreferencesStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Risk zone store state interface
+ */
+export interface RiskZoneState {
+  /** The user opted in to alerts outside navigation */
+  enabled: boolean;
+  history: RiskZoneHistory;
+  lastCheck: RiskZoneCheck | null;
+  isChecking: boolean;
+}
+
+/**
+ * Risk zone store actions interface
+ */
+export interface RiskZoneActions {
+  setEnabled: (enabled: boolean) => void;
+  /** Check the area around a new position and alert if it is dangerous */
+  checkPosition: (position: Coordinates, now?: number) => Promise<void>;
+  reset: () => void;
+}
+
+/**
+ * Combined risk zone store type
+ */
+export type RiskZoneStore = RiskZoneState & RiskZoneActions;
+
+/**
+ * Initial risk zone state
+ */
+const initialState: RiskZoneState = {
+  enabled: false,
+  history: {lastAlertAt: null, zoneAlerts: {}},
+  lastCheck: null,
+  isChecking: false,
+};
+
+/**
+ * Risk zone store
+ */
+export const useRiskZoneStore = create<RiskZoneStore>()(
+  persist(
+    (set, get) => ({
+      ...initialState,
+
+      setEnabled: (enabled: boolean) => {
+        set({enabled, lastCheck: null});
+      },
+
+      checkPosition: async (position: Coordinates, now: number = Date.now()) => {
+        const {enabled, isChecking, lastCheck} = get();
+        if (!enabled || isChecking || !shouldCheckZone(lastCheck, position, now)) {
+          return;
+        }
+
+        set({isChecking: true, lastCheck: {position, checkedAt: now}});
+        try {
+          const [zone, occurrences] = await Promise.all([
+            alertsService.checkPosition(position),
+            occurrencesService.list({
+              bounds: boundsAround(position, RISK_ZONE_RADIUS),
+              startDate: new Date(now - RISK_ZONE_PERIOD_DAYS * DAY_MS).toISOString(),
+              endDate: new Date(now).toISOString(),
+              perPage: 1,
+            }),
+          ]);
+
+          const score = getZoneRiskScore(zone?.riskIndex ?? null, occurrences.meta.total);
+          const {preferences} = useAlertPreferencesStore.getState();
+          const zoneKey = getZoneKey(position, zone?.regionId ?? null);
+
+          if (
+            !isHighRiskZone(score) ||
+            !isRiskAlertAllowed(
+              preferences,
+              zone?.dominantCrimeTypeId ?? undefined,
+              new Date(now),
+            ) ||
+            !canAlertZone(get().history, zoneKey, now)
+          ) {
+            set({isChecking: false});
+            return;
+          }
+
+          const shown = await localNotifications.showRiskZoneAlert(
+            i18n.t('riskZones.notificationTitle'),
+            i18n.t('riskZones.notificationBody', {score}),
+          );
+          set(state => ({
+            isChecking: false,
+            history: shown ? recordZoneAlert(state.history, zoneKey, now) : state.history,
+          }));
+        } catch (error) {
+          // Passive checks stay quiet, the next position tries again
+          console.warn('[RiskZoneStore] Error checking position:', error);
+          set({isChecking: false, lastCheck});
+        }
+      },
+
+      reset: () => {
+        set(initialState);
+      },
+    }),
+    {
+      name: 'risk-zone-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({
+        enabled: state.enabled,
+        history: state.history,
+      }),
+    },
+  ),
+);
+
+export default useRiskZoneStore;
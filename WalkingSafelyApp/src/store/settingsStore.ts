@@ -0,0 +1,127 @@
+/**
+ * Settings Store
+ * App preferences kept on the device: appearance, language, screen and
+ * privacy defaults
+ */
+
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import i18n from '../shared/config/i18n';
+import {setRequestLocale} from '../shared/services/api';
+
+/**
+ * Theme choice, "system" follows the device
+ */
+export type ThemeMode = 'system' | 'light' | 'dark';
+
+/**
+ * Languages the app is translated to
+ */
+export type AppLanguage = 'pt-BR' | 'en-US';
+
+export const APP_LANGUAGES: AppLanguage[] = ['pt-BR', 'en-US'];
+
+/**
+ * Settings store state interface
+ */
+export interface SettingsState {
+  themeMode: ThemeMode;
+  language: AppLanguage;
+  /** Keep the screen on while the app is open */
+  keepScreenAwake: boolean;
+  /** Start new reports as anonymous */
+  reportAnonymously: boolean;
+}
+
+/**
+ * Settings store actions interface
+ */
+export interface SettingsActions {
+  setThemeMode: (themeMode: ThemeMode) => void;
+  setLanguage: (language: AppLanguage) => void;
+  setKeepScreenAwake: (keepScreenAwake: boolean) => void;
+  setReportAnonymously: (reportAnonymously: boolean) => void;
+  reset: () => void;
+}
+
+/**
+ * Combined settings store type
+ */
+export type SettingsStore = SettingsState & SettingsActions;
+
+/**
+ * Initial settings state
+ */
+const initialState: SettingsState = {
+  themeMode: 'system',
+  language: 'pt-BR',
+  keepScreenAwake: true,
+  reportAnonymously: false,
+};
+
+/**
+ * Locale code the backend expects for an app language
+ */
+export const toBackendLocale = (language: AppLanguage): string =>
+  language === 'en-US' ? 'en' : 'pt_BR';
+
+/**
+ * Translate the app and the server responses to a language
+ */
+const applyLanguage = (language: AppLanguage): void => {
+  setRequestLocale(toBackendLocale(language));
+  if (i18n.language !== language) {
+    void i18n.changeLanguage(language);
+  }
+};
+
+/**
+ * Settings store
+ */
+export const useSettingsStore = create<SettingsStore>()(
+  persist(
+    set => ({
+      ...initialState,
+
+      setThemeMode: (themeMode: ThemeMode) => {
+        set({themeMode});
+      },
+
+      setLanguage: (language: AppLanguage) => {
+        applyLanguage(language);
+        set({language});
+      },
+
+      setKeepScreenAwake: (keepScreenAwake: boolean) => {
+        set({keepScreenAwake});
+      },
+
+      setReportAnonymously: (reportAnonymously: boolean) => {
+        set({reportAnonymously});
+      },
+
+      reset: () => {
+        applyLanguage(initialState.language);
+        set(initialState);
+      },
+    }),
+    {
+      name: 'settings-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: state => ({
+        themeMode: state.themeMode,
+        language: state.language,
+        keepScreenAwake: state.keepScreenAwake,
+        reportAnonymously: state.reportAnonymously,
+      }),
+      onRehydrateStorage: () => state => {
+        if (state) {
+          applyLanguage(state.language);
+        }
+      },
+    },
+  ),
+);
+
+export default useSettingsStore;
@@ -0,0 +1,313 @@
+/**
+ * SOS Store
+ * Manages trusted contacts and SOS alerts, keeping unconfirmed alerts
+ * on the device until the server accepts them
+ */
+
+import {create} from 'zustand';
+import {persist, createJSONStorage} from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {CreateTrustedContactData, SosAlert, TrustedContact} from '../types/models';
+import {emergencyService, SosAlertConfirmation} from '../services/api/emergency';
+import {isNetworkError, isParsedApiError} from '../shared/services/api';
+
+/**
+ * Seconds the user has to cancel an SOS before it is sent
+ */
+export const SOS_COUNTDOWN_SECONDS = 5;
+
+/**
+ * Delay between delivery attempts of an unconfirmed alert.
+ * Kept short and without a retry limit: an SOS must not be given up on.
+ */
+export const SOS_RETRY_INTERVAL = 10 * 1000; // 10 seconds
+
+/**
+ * SOS alert waiting for server confirmation
+ */
+export interface PendingSosAlert {
+  id: string;
+  alert: SosAlert;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+/**
+ * SOS store state interface
+ */
+export interface SosState {
+  contacts: TrustedContact[];
+  isLoadingContacts: boolean;
+  contactsError: string | null;
+  /** Alerts not yet confirmed by the server, persisted across restarts */
+  pendingAlerts: PendingSosAlert[];
+  isSendingSos: boolean;
+  lastConfirmation: SosAlertConfirmation | null;
+}
+
+/**
+ * SOS store actions interface
+ */
+export interface SosActions {
+  fetchContacts: () => Promise<void>;
+  addContact: (data: CreateTrustedContactData) => Promise<TrustedContact>;
+  removeContact: (id: string) => Promise<void>;
+  /** Resolves with null when the alert was stored for a later retry */
+  sendSos: (alert: SosAlert) => Promise<SosAlertConfirmation | null>;
+  flushPendingAlerts: () => Promise<void>;
+  clearContactsError: () => void;
+  reset: () => void;
+}
+
+/**
+ * Combined SOS store type
+ */
+export type SosStore = SosState & SosActions;
+
+/**
+ * Initial SOS state
+ */
+const initialState: SosState = {
+  contacts: [],
+  isLoadingContacts: false,
+  contactsError: null,
+  pendingAlerts: [],
+  isSendingSos: false,
+  lastConfirmation: null,
+};
+
+/**
+ * Validate trusted contact data
+ * @returns Error key if invalid, null if valid
+ */
+export function validateTrustedContact(data: CreateTrustedContactData): string | null {
+  if (!data.name || data.name.trim() === '') {
+    return 'sos.errors.nameRequired';
+  }
+
+  // Brazilian numbers: optional country code, area code and 8-9 digit number
+  const digits = data.phone.replace(/\D/g, '');
+  if (digits.length < 10 || digits.length > 13) {
+    return 'sos.errors.invalidPhone';
+  }
+
+  if (data.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email)) {
+    return 'sos.errors.invalidEmail';
+  }
+
+  return null;
+}
+
+/**
+ * Failures that may succeed on a later attempt on their own: no connection,
+ * rate limiting or a server-side error
+ */
+export const isRetryableSosError = (error: unknown): boolean =>
+  isNetworkError(error) ||
+  (isParsedApiError(error) && (error.status === 429 || error.status >= 500));
+
+/**
+ * The server read the alert and refused its content, so sending it again
+ * can't help. Only these drop a stored alert.
+ */
+export const isRejectedSosError = (error: unknown): boolean =>
+  isParsedApiError(error) && (error.status === 400 || error.status === 422);
+
+/**
+ * Alerts whose next attempt is due
+ */
+export const getDueSosAlerts = (alerts: PendingSosAlert[], now: number): PendingSosAlert[] =>
+  alerts.filter(pending => pending.nextAttemptAt <= now);
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (isParsedApiError(error) || error instanceof Error) {
+    return error.message;
+  }
+  return fallback;
+};
+
+/**
+ * Alerts with a request in flight, so a retry never sends the same alert twice
+ */
+const deliveringAlerts = new Set<string>();
+
+const generateAlertId = (): string =>
+  `sos_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+/**
+ * SOS store
+ */
+export const useSosStore = create<SosStore>()(
+  persist(
+    (set, get) => {
+      /**
+       * Try to deliver a stored alert once.
+       * Only a rejection of its content drops it; every other failure keeps it
+       * for the next attempt. Failures the user has to know about, like an
+       * expired session, are thrown as well.
+       */
+      const deliver = async (id: string): Promise<SosAlertConfirmation | null> => {
+        const pending = get().pendingAlerts.find(item => item.id === id);
+        if (!pending || deliveringAlerts.has(id)) {
+          return null;
+        }
+
+        deliveringAlerts.add(id);
+        try {
+          const confirmation = await emergencyService.sendSos(pending.alert);
+          set({
+            pendingAlerts: get().pendingAlerts.filter(item => item.id !== id),
+            lastConfirmation: confirmation,
+          });
+          return confirmation;
+        } catch (error) {
+          if (isRejectedSosError(error)) {
+            set({pendingAlerts: get().pendingAlerts.filter(item => item.id !== id)});
+            throw error;
+          }
+
+          set({
+            pendingAlerts: get().pendingAlerts.map(item =>
+              item.id === id
+                ? {
+                    ...item,
+                    attempts: item.attempts + 1,
+                    nextAttemptAt: Date.now() + SOS_RETRY_INTERVAL,
+                    lastError: getErrorMessage(error, 'sos.errors.sendFailed'),
+                  }
+                : item,
+            ),
+          });
+          if (!isRetryableSosError(error)) {
+            throw error;
+          }
+          return null;
+        } finally {
+          deliveringAlerts.delete(id);
+        }
+      };
+
+      return {
+        ...initialState,
+
+        /**
+         * Load trusted contacts, keeping the stored list when offline
+         */
+        fetchContacts: async () => {
+          set({isLoadingContacts: true, contactsError: null});
+
+          try {
+            const contacts = await emergencyService.getContacts();
+            set({contacts, isLoadingContacts: false});
+          } catch (error) {
+            set({
+              isLoadingContacts: false,
+              contactsError: getErrorMessage(error, 'sos.errors.loadContacts'),
+            });
+          }
+        },
+
+        /**
+         * Add a trusted contact
+         */
+        addContact: async (data: CreateTrustedContactData) => {
+          const validationError = validateTrustedContact(data);
+          if (validationError) {
+            set({contactsError: validationError});
+            throw new Error(validationError);
+          }
+
+          set({contactsError: null});
+
+          try {
+            const contact = await emergencyService.addContact({
+              ...data,
+              name: data.name.trim(),
+            });
+            set({contacts: [...get().contacts, contact]});
+            return contact;
+          } catch (error) {
+            set({contactsError: getErrorMessage(error, 'sos.errors.saveContact')});
+            throw error;
+          }
+        },
+
+        /**
+         * Remove a trusted contact
+         */
+        removeContact: async (id: string) => {
+          try {
+            await emergencyService.removeContact(id);
+            set({contacts: get().contacts.filter(contact => contact.id !== id)});
+          } catch (error) {
+            set({contactsError: getErrorMessage(error, 'sos.errors.removeContact')});
+            throw error;
+          }
+        },
+
+        /**
+         * Send an SOS alert.
+         * The alert is stored before the request so it survives a crash or
+         * a lost connection, and is removed only once the server confirms it.
+         */
+        sendSos: async (alert: SosAlert) => {
+          const id = generateAlertId();
+          set({
+            isSendingSos: true,
+            pendingAlerts: [
+              ...get().pendingAlerts,
+              {id, alert, attempts: 0, nextAttemptAt: Date.now(), lastError: null},
+            ],
+          });
+
+          try {
+            return await deliver(id);
+          } finally {
+            set({isSendingSos: false});
+          }
+        },
+
+        /**
+         * Retry stored alerts whose retry time has come
+         */
+        flushPendingAlerts: async () => {
+          const due = getDueSosAlerts(get().pendingAlerts, Date.now());
+
+          for (const pending of due) {
+            try {
+              await deliver(pending.id);
+            } catch (error) {
+              console.warn('[SosStore] SOS alert not delivered:', error);
+            }
+          }
+        },
+
+        /**
+         * Clear contacts error state
+         */
+        clearContactsError: () => {
+          set({contactsError: null});
+        },
+
+        /**
+         * Reset store to initial state
+         */
+        reset: () => {
+          set(initialState);
+        },
+      };
+    },
+    {
+      name: 'sos-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Contacts are kept so the SOS button works offline
+      partialize: state => ({
+        contacts: state.contacts,
+        pendingAlerts: state.pendingAlerts,
+      }),
+    },
+  ),
+);
+
+export default useSosStore;
@@ -0,0 +1,164 @@
+/**
+ * Statistics Store
+ * Crime statistics of the current area or a chosen neighbourhood, and the
+ * hour and weekday breakdown of regions
+ */
+
+import {create} from 'zustand';
+import {
+  AreaStatistics,
+  Coordinates,
+  RegionPatterns,
+  RegionSummary,
+  StatisticsArea,
+} from '../types/models';
+import {statisticsService} from '../services/api/statistics';
+import {STATISTICS_AREA_RADIUS, STATISTICS_PERIOD_DAYS} from '../utils/constants';
+
+/**
+ * Statistics store state interface
+ */
+export interface StatisticsState {
+  area: StatisticsArea | null;
+  summary: AreaStatistics | null;
+  isLoading: boolean;
+  regions: RegionSummary[];
+  isLoadingRegions: boolean;
+  /** Hour and weekday breakdown by region id */
+  patterns: Record<string, RegionPatterns>;
+  loadingPatternsId: string | null;
+  error: string | null;
+}
+
+/**
+ * Statistics store actions interface
+ */
+export interface StatisticsActions {
+  /** Show the area around a point */
+  selectNearby: (center: Coordinates) => Promise<void>;
+  /** Show a neighbourhood */
+  selectRegion: (region: RegionSummary) => Promise<void>;
+  /** Load the summary of the selected area again */
+  refresh: () => Promise<void>;
+  loadRegions: () => Promise<void>;
+  loadRegionPatterns: (regionId: string) => Promise<void>;
+  clearError: () => void;
+  reset: () => void;
+}
+
+/**
+ * Combined statistics store type
+ */
+export type StatisticsStore = StatisticsState & StatisticsActions;
+
+/**
+ * Initial statistics state
+ */
+const initialState: StatisticsState = {
+  area: null,
+  summary: null,
+  isLoading: false,
+  regions: [],
+  isLoadingRegions: false,
+  patterns: {},
+  loadingPatternsId: null,
+  error: null,
+};
+
+/**
+ * Height of each bar relative to the largest one, between 0 and 1
+ */
+export const getBarRatios = (counts: number[]): number[] => {
+  const max = Math.max(0, ...counts);
+  return counts.map(count => (max > 0 ? Math.max(0, count) / max : 0));
+};
+
+/**
+ * Index of the largest count, -1 when there is nothing to highlight
+ */
+export const getPeakIndex = (counts: number[]): number => {
+  const max = Math.max(0, ...counts);
+  return max > 0 ? counts.indexOf(max) : -1;
+};
+
+/**
+ * Statistics store
+ */
+export const useStatisticsStore = create<StatisticsStore>()((set, get) => {
+  /**
+   * Load the summary of an area. A response for an area the user has since
+   * moved away from is dropped.
+   */
+  const loadSummary = async (area: StatisticsArea): Promise<void> => {
+    set({area, isLoading: true, error: null});
+
+    try {
+      const summary = await statisticsService.getAreaStatistics(area, STATISTICS_PERIOD_DAYS);
+      if (get().area === area) {
+        set({summary, isLoading: false});
+      }
+    } catch (error) {
+      console.error('[StatisticsStore] Failed to load area statistics:', error);
+      if (get().area === area) {
+        set({isLoading: false, error: 'statistics.errors.load'});
+      }
+    }
+  };
+
+  return {
+    ...initialState,
+
+    selectNearby: (center: Coordinates) =>
+      loadSummary({type: 'nearby', center, radius: STATISTICS_AREA_RADIUS}),
+
+    selectRegion: (region: RegionSummary) =>
+      loadSummary({type: 'region', regionId: region.id, name: region.name}),
+
+    refresh: async () => {
+      const {area} = get();
+      if (area) {
+        await loadSummary(area);
+      }
+    },
+
+    loadRegions: async () => {
+      set({isLoadingRegions: true, error: null});
+
+      try {
+        const regions = await statisticsService.getRegions(STATISTICS_PERIOD_DAYS);
+        set({regions, isLoadingRegions: false});
+      } catch (error) {
+        console.error('[StatisticsStore] Failed to load regions:', error);
+        set({isLoadingRegions: false, error: 'statistics.errors.regions'});
+      }
+    },
+
+    loadRegionPatterns: async (regionId: string) => {
+      set({loadingPatternsId: regionId, error: null});
+
+      try {
+        const patterns = await statisticsService.getRegionPatterns(
+          regionId,
+          STATISTICS_PERIOD_DAYS,
+        );
+        set(state => ({
+          patterns: {...state.patterns, [regionId]: patterns},
+          loadingPatternsId: state.loadingPatternsId === regionId ? null : state.loadingPatternsId,
+        }));
+      } catch (error) {
+        console.error('[StatisticsStore] Failed to load region patterns:', error);
+        set({loadingPatternsId: null, error: 'statistics.errors.region'});
+      }
+    },
+
+    clearError: () => {
+      set({error: null});
+    },
+
+    reset: () => {
+      set(initialState);
+    },
+  };
+});
+
+export default useStatisticsStore;
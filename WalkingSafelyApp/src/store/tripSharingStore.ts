@@ -0,0 +1,298 @@
+/**
+ * Trip Sharing Store
+ * Streams the active navigation session to a trusted companion ("walk with me")
+ * and ends the share when the user arrives or navigation ends
+ */
+
+import {create} from 'zustand';
+import {Coordinates, TripShareEndReason, TripShareUpdate} from '../types/models';
+import {tripSharingService} from '../services/api/tripSharing';
+import {isParsedApiError} from '../shared/services/api';
+import {calculateDistance} from '../utils/geo';
+import {useNavigationStore} from './navigationStore';
+
+/**
+ * Minimum time between two updates while the user stands still (milliseconds)
+ */
+export const TRIP_SHARE_UPDATE_INTERVAL = 15000; // 15 seconds
+
+/**
+ * Movement that triggers an update before the interval elapses (meters)
+ */
+export const TRIP_SHARE_UPDATE_DISTANCE = 50;
+
+/**
+ * Trip share lifecycle
+ */
+export type TripShareStatus = 'idle' | 'starting' | 'active' | 'paused';
+
+/**
+ * Trip sharing store state interface
+ */
+export interface TripSharingState {
+  shareId: string | null;
+  shareUrl: string | null;
+  status: TripShareStatus;
+  lastUpdateAt: number | null;
+  lastUpdatePosition: Coordinates | null;
+  /** Why the last share ended, shown until a new one starts */
+  endReason: TripShareEndReason | null;
+  error: string | null;
+}
+
+/**
+ * Trip sharing store actions interface
+ */
+export interface TripSharingActions {
+  startSharing: () => Promise<void>;
+  pauseSharing: () => Promise<void>;
+  resumeSharing: () => Promise<void>;
+  stopSharing: (reason?: TripShareEndReason) => Promise<void>;
+  /** Send the current navigation progress if an update is due */
+  publishUpdate: (force?: boolean) => Promise<void>;
+  clearError: () => void;
+}
+
+/**
+ * Combined trip sharing store type
+ */
+export type TripSharingStore = TripSharingState & TripSharingActions;
+
+/**
+ * Initial trip sharing state
+ */
+const initialState: TripSharingState = {
+  shareId: null,
+  shareUrl: null,
+  status: 'idle',
+  lastUpdateAt: null,
+  lastUpdatePosition: null,
+  endReason: null,
+  error: null,
+};
+
+/**
+ * Fraction of the route already walked (0..1)
+ */
+export const getRouteProgress = (remainingDistance: number, totalDistance: number): number => {
+  if (totalDistance <= 0) {
+    return 0;
+  }
+  return Math.min(1, Math.max(0, 1 - remainingDistance / totalDistance));
+};
+
+/**
+ * Check whether a new position is worth sending to the companion
+ */
+export const shouldPublishTripUpdate = (
+  lastUpdateAt: number | null,
+  lastPosition: Coordinates | null,
+  position: Coordinates,
+  now: number,
+): boolean => {
+  if (lastUpdateAt === null || lastPosition === null) {
+    return true;
+  }
+  return (
+    now - lastUpdateAt >= TRIP_SHARE_UPDATE_INTERVAL ||
+    calculateDistance(lastPosition, position) >= TRIP_SHARE_UPDATE_DISTANCE
+  );
+};
+
+/**
+ * Build the update sent to the companion from the navigation progress
+ */
+export const buildTripShareUpdate = (
+  position: Coordinates,
+  remainingDistance: number,
+  remainingDuration: number,
+  totalDistance: number,
+  now: number,
+): TripShareUpdate => ({
+  position,
+  remainingDistance: Math.round(remainingDistance),
+  remainingDuration: Math.round(remainingDuration),
+  progress: getRouteProgress(remainingDistance, totalDistance),
+  eta: new Date(now + remainingDuration * 1000).toISOString(),
+  timestamp: new Date(now).toISOString(),
+});
+
+const getErrorMessage = (error: unknown): string =>
+  isParsedApiError(error) || error instanceof Error ? error.message : 'tripSharing.errors.generic';
+
+/**
+ * Set while an update request is in flight so positions don't pile up
+ */
+let isPublishing = false;
+
+/**
+ * Trip sharing store
+ */
+export const useTripSharingStore = create<TripSharingStore>()((set, get) => ({
+  ...initialState,
+
+  /**
+   * Open a share for the active navigation session
+   */
+  startSharing: async () => {
+    const {sessionId, destination} = useNavigationStore.getState();
+    if (!sessionId || get().status !== 'idle') {
+      return;
+    }
+
+    set({...initialState, status: 'starting'});
+
+    try {
+      const share = await tripSharingService.start(sessionId, destination);
+
+      // Stopped while the share was being created: close it without publishing
+      if (get().status !== 'starting') {
+        await tripSharingService.stop(share.id, get().endReason ?? 'stopped');
+        return;
+      }
+
+      // Navigation ended while the share was being created
+      if (useNavigationStore.getState().sessionId !== sessionId) {
+        await tripSharingService.stop(share.id, 'navigation_ended');
+        set({...initialState, endReason: 'navigation_ended'});
+        return;
+      }
+
+      set({shareId: share.id, shareUrl: share.shareUrl, status: 'active'});
+      await get().publishUpdate(true);
+    } catch (error) {
+      console.error('[TripSharingStore] Failed to start sharing:', error);
+      set({...initialState, error: getErrorMessage(error)});
+    }
+  },
+
+  /**
+   * Stop streaming positions; the companion keeps the last known one
+   */
+  pauseSharing: async () => {
+    const {shareId, status} = get();
+    if (!shareId || status !== 'active') {
+      return;
+    }
+
+    set({status: 'paused'});
+    try {
+      await tripSharingService.pause(shareId);
+    } catch (error) {
+      console.warn('[TripSharingStore] Failed to pause sharing:', error);
+    }
+  },
+
+  /**
+   * Resume streaming with an immediate update
+   */
+  resumeSharing: async () => {
+    const {shareId, status} = get();
+    if (!shareId || status !== 'paused') {
+      return;
+    }
+
+    set({status: 'active'});
+    try {
+      await tripSharingService.resume(shareId);
+      await get().publishUpdate(true);
+    } catch (error) {
+      console.warn('[TripSharingStore] Failed to resume sharing:', error);
+    }
+  },
+
+  /**
+   * End the share. The local state is cleared even if the request fails,
+   * the backend expires abandoned shares on its own.
+   */
+  stopSharing: async (reason: TripShareEndReason = 'stopped') => {
+    const {shareId, status} = get();
+    if (status === 'idle') {
+      return;
+    }
+
+    set({...initialState, endReason: reason});
+
+    if (!shareId) {
+      return;
+    }
+    try {
+      await tripSharingService.stop(shareId, reason);
+    } catch (error) {
+      console.warn('[TripSharingStore] Failed to stop sharing:', error);
+    }
+  },
+
+  /**
+   * Send position, ETA and route progress from the navigation store
+   */
+  publishUpdate: async (force = false) => {
+    const {shareId, status, lastUpdateAt, lastUpdatePosition} = get();
+    const {currentPosition, route, remainingDistance, remainingDuration} =
+      useNavigationStore.getState();
+
+    if (!shareId || status !== 'active' || !currentPosition || !route || isPublishing) {
+      return;
+    }
+
+    const now = Date.now();
+    if (
+      !force &&
+      !shouldPublishTripUpdate(lastUpdateAt, lastUpdatePosition, currentPosition, now)
+    ) {
+      return;
+    }
+
+    isPublishing = true;
+    try {
+      await tripSharingService.sendUpdate(
+        shareId,
+        buildTripShareUpdate(
+          currentPosition,
+          remainingDistance,
+          remainingDuration,
+          route.distance,
+          now,
+        ),
+      );
+      // The share may have been stopped while the request was in flight
+      if (get().shareId === shareId) {
+        set({lastUpdateAt: now, lastUpdatePosition: currentPosition, error: null});
+      }
+    } catch (error) {
+      // Missed updates are replaced by the next position
+      console.warn('[TripSharingStore] Failed to send update:', error);
+    } finally {
+      isPublishing = false;
+    }
+  },
+
+  /**
+   * Clear error state
+   */
+  clearError: () => {
+    set({error: null});
+  },
+}));
+
+/**
+ * Follow the navigation session: stream new positions and end the share
+ * when the user arrives or navigation ends
+ */
+useNavigationStore.subscribe((state, previous) => {
+  const {status, stopSharing, publishUpdate} = useTripSharingStore.getState();
+  if (status === 'idle') {
+    return;
+  }
+
+  // A new session id means the shared navigation ended, even if another started
+  if (state.sessionId !== previous.sessionId) {
+    void stopSharing('navigation_ended');
+  } else if (state.hasArrived && !previous.hasArrived) {
+    void stopSharing('arrived');
+  } else if (state.currentPosition !== previous.currentPosition) {
+    void publishUpdate();
+  }
+});
+
+export default useTripSharingStore;
@@ -45,6 +45,17 @@ export type OccurrenceSeverity = 'low' | 'medium' | 'high' | 'critical';
  */
 export type OccurrenceSource = 'collaborative' | 'official';
 
+/**
+ * Lifecycle of a report on the server
+ * - withdrawn: taken off the map by its reporter
+ */
+export type OccurrenceStatus = 'active' | 'expired' | 'rejected' | 'merged' | 'withdrawn';
+
+/**
+ * Latest moderation decision on a report
+ */
+export type ModerationStatus = 'pending' | 'approved' | 'rejected';
+
 /**
  * Crime type definition
  */
@@ -76,7 +87,75 @@ export interface Occurrence {
   severity: OccurrenceSeverity;
   confidenceScore: number;
   source: OccurrenceSource;
+  /** Always null for anonymous reports, even for their own reporter */
   createdBy?: number | null;
+  /** Reported without revealing the reporter */
+  isAnonymous?: boolean;
+  description?: string;
+  /** Users who confirmed the occurrence is still happening */
+  confirmations?: number;
+  /** Users who disputed the occurrence as not accurate */
+  disputes?: number;
+  /** Vote of the current user, null when they haven't voted */
+  userVote?: OccurrenceVote | null;
+  /** Photos and voice notes sent as evidence */
+  attachments?: OccurrenceAttachment[];
+  status?: OccurrenceStatus;
+  /** Only sent for the user's own reports, null when never moderated */
+  moderationStatus?: ModerationStatus | null;
+  createdAt?: string;
+  /** Until when the reporter can still edit the report */
+  editableUntil?: string;
+}
+
+/**
+ * Kind of evidence attached to an occurrence report
+ */
+export type AttachmentKind = 'photo' | 'audio';
+
+/**
+ * Evidence stored on the server
+ */
+export interface OccurrenceAttachment {
+  id: string;
+  kind: AttachmentKind;
+  url: string;
+  mimeType: string;
+  size?: number;
+  /** Length of voice notes */
+  durationMs?: number;
+}
+
+/**
+ * Evidence picked on the device, not uploaded yet.
+ * Kept as files in the app's attachments folder, photos with their metadata
+ * already stripped, so queued reports only hold their file uris.
+ */
+export interface LocalAttachment {
+  id: string;
+  kind: AttachmentKind;
+  uri: string;
+  mimeType: string;
+  fileName: string;
+  size?: number;
+  durationMs?: number;
+}
+
+/**
+ * Vote on an occurrence
+ * - confirm: still happening
+ * - dispute: not accurate
+ */
+export type OccurrenceVote = 'confirm' | 'dispute';
+
+/**
+ * Occurrence counters after a vote, as recalculated by the server
+ */
+export interface OccurrenceVoteResult {
+  confidenceScore: number;
+  confirmations: number;
+  disputes: number;
+  userVote: OccurrenceVote;
 }
 
 /**
@@ -88,6 +167,19 @@ export interface CreateOccurrenceData {
   crimeTypeId: string;
   severity: OccurrenceSeverity;
   description?: string;
+  /** Uploaded once the occurrence is created */
+  attachments?: LocalAttachment[];
+  /** Withhold the reporter from public responses */
+  anonymous?: boolean;
+}
+
+/**
+ * Changes to a report, made by its reporter within the edit window
+ */
+export interface UpdateOccurrenceData {
+  crimeTypeId?: string;
+  severity?: OccurrenceSeverity;
+  description?: string;
 }
 
 /**
@@ -107,6 +199,14 @@ export interface HeatmapFilters {
   period?: 'last_24h' | 'last_7d' | 'last_30d';
 }
 
+/**
+ * Filters for the occurrences shown on the map.
+ * The heatmap shares the crime types and period.
+ */
+export interface OccurrenceFilters extends HeatmapFilters {
+  severity?: OccurrenceSeverity[];
+}
+
 /**
  * Route instruction for turn-by-turn navigation
  */
@@ -125,6 +225,8 @@ export interface RouteOccurrence {
   id: string;
   location: Coordinates;
   crimeType: string;
+  /** Missing on sessions cached before it was kept */
+  crimeTypeId?: string;
   severity: string;
   timestamp: string;
 }
@@ -143,6 +245,8 @@ export interface RouteResponse {
   warningMessage?: string;
   instructions: RouteInstruction[];
   occurrences?: RouteOccurrence[];
+  /** Intermediate stops the route passes through, in visiting order */
+  waypoints?: Coordinates[];
 }
 
 /**
@@ -152,6 +256,10 @@ export interface RouteRequest {
   origin: Coordinates;
   destination: Coordinates;
   preferSafeRoute?: boolean;
+  /** Intermediate stops to visit between origin and destination, in order */
+  waypoints?: Coordinates[];
+  /** Planned departure time (ISO 8601), risk is scored for that time of day */
+  departureTime?: string;
 }
 
 /**
@@ -226,3 +334,176 @@ export interface NavigationSession {
   currentPosition: Coordinates;
   currentInstructionIndex: number;
 }
+
+/**
+ * Person notified when the user triggers an SOS
+ */
+export interface TrustedContact {
+  id: string;
+  name: string;
+  phone: string;
+  email?: string;
+}
+
+/**
+ * Data for adding a trusted contact
+ */
+export interface CreateTrustedContactData {
+  name: string;
+  phone: string;
+  email?: string;
+}
+
+/**
+ * Why trusted contacts are being alerted
+ * - sos: the user pressed the SOS button
+ * - missed_check_in: the user didn't confirm a safe arrival in time
+ */
+export type SosAlertReason = 'sos' | 'missed_check_in';
+
+/**
+ * SOS alert sent to the trusted contacts
+ */
+export interface SosAlert {
+  /** Last known position of the user */
+  location: Coordinates;
+  /** Destination of the active route, if navigating */
+  destination: Coordinates | null;
+  timestamp: string;
+  /** Defaults to 'sos' */
+  reason?: SosAlertReason;
+}
+
+/**
+ * Live trip share followed by a trusted companion
+ */
+export interface TripShare {
+  id: string;
+  /** Link sent to the companion */
+  shareUrl: string;
+  expiresAt?: string;
+}
+
+/**
+ * Progress update streamed to a trip share
+ */
+export interface TripShareUpdate {
+  position: Coordinates;
+  /** Seconds to destination */
+  remainingDuration: number;
+  /** Meters to destination */
+  remainingDistance: number;
+  /** Fraction of the route completed (0..1) */
+  progress: number;
+  /** Estimated arrival time */
+  eta: string;
+  timestamp: string;
+}
+
+/**
+ * Why a trip share was ended
+ */
+export type TripShareEndReason = 'stopped' | 'arrived' | 'navigation_ended';
+
+/**
+ * Why an occurrence was sent to the moderation queue
+ */
+export type ModerationReason =
+  | 'anomaly_detected'
+  | 'user_reported'
+  | 'abuse_pattern'
+  | 'suspicious_location'
+  | 'high_frequency'
+  | 'duplicate_content'
+  | 'low_confidence';
+
+/**
+ * Flagged occurrence waiting for a moderator
+ */
+export interface ModerationItem {
+  id: string;
+  occurrence: Occurrence;
+  reason: ModerationReason;
+  status: ModerationStatus;
+  createdAt: string;
+}
+
+/**
+ * Moderation queue counters
+ */
+export interface ModerationStatistics {
+  pending: number;
+  approvedToday: number;
+  rejectedToday: number;
+}
+
+/**
+ * Area the statistics are computed for: a region, or a radius around a point
+ */
+export type StatisticsArea =
+  | {type: 'region'; regionId: string; name: string}
+  | {type: 'nearby'; center: Coordinates; radius: number};
+
+/**
+ * Occurrences of one crime type in an area
+ */
+export interface CrimeTypeCount {
+  crimeTypeId: string;
+  crimeTypeName: string;
+  count: number;
+  percentage: number;
+}
+
+/**
+ * Direction of the occurrence count over time
+ */
+export type TrendDirection = 'increasing' | 'decreasing' | 'stable';
+
+/**
+ * Occurrences of the last 7 days against the 7 days before
+ */
+export interface WeekOverWeek {
+  currentWeek: number;
+  previousWeek: number;
+  percentChange: number;
+  trend: TrendDirection;
+}
+
+/**
+ * Occurrence summary of an area
+ */
+export interface AreaStatistics {
+  byType: CrimeTypeCount[];
+  bySeverity: Record<OccurrenceSeverity, number>;
+  total: number;
+  weekOverWeek: WeekOverWeek;
+}
+
+/**
+ * Region with its occurrence count, to pick a neighbourhood
+ */
+export interface RegionSummary {
+  id: string;
+  name: string;
+  count: number;
+}
+
+/**
+ * Occurrence counts of a region by hour of day and weekday
+ */
+export interface RegionPatterns {
+  /** 24 counts, from midnight */
+  byHour: number[];
+  /** 7 counts, from Sunday */
+  byWeekday: number[];
+  total: number;
+}
+
+/**
+ * High risk region the server found at a position
+ */
+export interface RiskZoneAlert {
+  regionId: string | null;
+  riskIndex: number;
+  dominantCrimeTypeId: string | null;
+}
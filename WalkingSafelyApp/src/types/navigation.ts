@@ -33,9 +33,16 @@ export type MapStackParamList = {
     destination: Coordinates;
     destinationAddress?: string;
   };
+  RouteComparison: {
+    origin: Coordinates;
+    destination: Coordinates;
+    destinationAddress?: string;
+  };
   ActiveNavigation: {
     route: RouteResponse;
     sessionId: string;
+    /** Restore the cached session instead of starting a new one */
+    resume?: boolean;
   };
   ReportOccurrence: {
     location?: Coordinates;
@@ -44,6 +51,8 @@ export type MapStackParamList = {
     occurrenceId: string;
     occurrence?: Occurrence;
   };
+  MyReports: undefined;
+  Moderation: undefined;
 };
 
 /**
@@ -113,6 +122,10 @@ export type RoutePreviewScreenProps = NativeStackScreenProps<
   MapStackParamList,
   'RoutePreview'
 >;
+export type RouteComparisonScreenProps = NativeStackScreenProps<
+  MapStackParamList,
+  'RouteComparison'
+>;
 export type ActiveNavigationScreenProps = NativeStackScreenProps<
   MapStackParamList,
   'ActiveNavigation'
@@ -125,6 +138,8 @@ export type OccurrenceDetailScreenProps = NativeStackScreenProps<
   MapStackParamList,
   'OccurrenceDetail'
 >;
+export type MyReportsScreenProps = NativeStackScreenProps<MapStackParamList, 'MyReports'>;
+export type ModerationScreenProps = NativeStackScreenProps<MapStackParamList, 'Moderation'>;
 
 // Settings Stack Screen Props
 export type SettingsHomeScreenProps = CompositeScreenProps<
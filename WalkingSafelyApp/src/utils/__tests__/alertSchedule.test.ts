@@ -0,0 +1,134 @@
+/**
+ * Tests for Alert Schedule
+ *
+ * **Property 42: Alert Schedule Windows**
+ *
+ * For any schedule, alerts SHALL pass exactly between its start and end
+ * times, both included, on its days. A start after the end SHALL be a window
+ * that crosses midnight, covering every minute a same-day window from end to
+ * start leaves out. No schedule SHALL never silence alerts.
+ */
+
+import * as fc from 'fast-check';
+
+import type {AlertSchedule} from '../../types/models';
+import {
+  ALL_WEEKDAYS,
+  MINUTES_PER_DAY,
+  formatScheduleTime,
+  isWithinSchedule,
+  parseScheduleTime,
+  shiftScheduleTime,
+  toggleScheduleDay,
+} from '../alertSchedule';
+
+/** 2024-01-07 was a Sunday, so day offsets match Date.getDay() */
+const dateAt = (day: number, minute: number): Date =>
+  new Date(2024, 0, 7 + day, Math.floor(minute / 60), minute % 60);
+
+const schedule = (start: number, end: number, daysOfWeek: number[] = []): AlertSchedule => ({
+  startTime: formatScheduleTime(start),
+  endTime: formatScheduleTime(end),
+  daysOfWeek,
+});
+
+const minuteArb = fc.integer({min: 0, max: MINUTES_PER_DAY - 1});
+const dayArb = fc.integer({min: 0, max: 6});
+
+describe('Alert Schedule', () => {
+  describe('Property 42: Alert schedule windows', () => {
+    it('should pass alerts only between the start and end of a same-day window', () => {
+      fc.assert(
+        fc.property(minuteArb, minuteArb, minuteArb, dayArb, (a, b, minute, day) => {
+          const start = Math.min(a, b);
+          const end = Math.max(a, b);
+          return (
+            isWithinSchedule(schedule(start, end), dateAt(day, minute)) ===
+            (minute >= start && minute <= end)
+          );
+        }),
+        {numRuns: 200},
+      );
+    });
+
+    it('should cover what the daytime gap leaves out when crossing midnight', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({min: 2, max: MINUTES_PER_DAY - 1}),
+          fc.integer({min: 0, max: MINUTES_PER_DAY - 3}),
+          minuteArb,
+          dayArb,
+          (start, end, minute, day) => {
+            fc.pre(start - end >= 2);
+            const date = dateAt(day, minute);
+            return (
+              isWithinSchedule(schedule(start, end), date) ===
+              !isWithinSchedule(schedule(end + 1, start - 1), date)
+            );
+          },
+        ),
+        {numRuns: 200},
+      );
+    });
+
+    it('should silence alerts on days left out', () => {
+      fc.assert(
+        fc.property(
+          minuteArb,
+          minuteArb,
+          fc.subarray(ALL_WEEKDAYS, {minLength: 1}),
+          minuteArb,
+          dayArb,
+          (start, end, days, minute, day) => {
+            const date = dateAt(day, minute);
+            const withDays = isWithinSchedule(schedule(start, end, days), date);
+            const everyDay = isWithinSchedule(schedule(start, end), date);
+            return withDays === (days.includes(day) && everyDay);
+          },
+        ),
+        {numRuns: 200},
+      );
+    });
+
+    it('should never silence alerts without a readable schedule', () => {
+      fc.assert(
+        fc.property(fc.string(), minuteArb, dayArb, (time, minute, day) => {
+          fc.pre(parseScheduleTime(time) === null);
+          const date = dateAt(day, minute);
+          return (
+            isWithinSchedule(null, date) &&
+            isWithinSchedule({startTime: time, endTime: '06:00', daysOfWeek: [day]}, date)
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should read back every formatted time', () => {
+    fc.assert(
+      fc.property(fc.integer({min: -5000, max: 5000}), minutes => {
+        const parsed = parseScheduleTime(formatScheduleTime(minutes));
+        return parsed === ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+      }),
+      {numRuns: 100},
+    );
+  });
+
+  it('should never turn off every day or store all of them explicitly', () => {
+    fc.assert(
+      fc.property(fc.subarray(ALL_WEEKDAYS), dayArb, (days, day) => {
+        const next = toggleScheduleDay(days, day);
+        const active = next.length === 0 ? ALL_WEEKDAYS : next;
+        return active.length > 0 && next.length < ALL_WEEKDAYS.length;
+      }),
+      {numRuns: 100},
+    );
+  });
+
+  it('should step over the other end of the window', () => {
+    expect(shiftScheduleTime('05:30', 30, '06:00')).toBe('06:30');
+    expect(shiftScheduleTime('23:30', 30, '06:00')).toBe('00:00');
+    expect(shiftScheduleTime('00:00', -30, '06:00')).toBe('23:30');
+  });
+});
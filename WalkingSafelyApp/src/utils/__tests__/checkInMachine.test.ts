@@ -0,0 +1,153 @@
+/**
+ * Tests for the Arrival Check-in State Machine
+ *
+ * **Property 26: Arrival Check-in Escalation**
+ *
+ * For any route duration and sequence of ticks, the check-in SHALL prompt
+ * the user only after the route duration plus the grace margin, escalate only
+ * after the response timeout, and never prompt or escalate once the user has
+ * arrived or confirmed they are safe.
+ */
+
+import * as fc from 'fast-check';
+
+import {
+  CHECK_IN_EXTENSION,
+  CHECK_IN_MIN_GRACE,
+  CHECK_IN_RESPONSE_TIMEOUT,
+  CheckInEvent,
+  CheckInState,
+  getCheckInGraceMargin,
+  initialCheckInState,
+  transitionCheckIn,
+} from '../checkInMachine';
+
+const START_TIME = Date.UTC(2024, 0, 1, 22, 0, 0);
+
+const start = (remainingDuration: number): CheckInState =>
+  transitionCheckIn(initialCheckInState, {
+    type: 'START',
+    sessionId: 'nav_1',
+    remainingDuration,
+    now: START_TIME,
+  });
+
+const run = (state: CheckInState, events: CheckInEvent[]): CheckInState =>
+  events.reduce(transitionCheckIn, state);
+
+describe('Arrival Check-in State Machine', () => {
+  it('should arm with the route duration plus the grace margin', () => {
+    const state = start(600);
+
+    expect(state.phase).toBe('armed');
+    expect(state.sessionId).toBe('nav_1');
+    expect(state.expectedArrivalAt).toBe(START_TIME + 600 * 1000 + CHECK_IN_MIN_GRACE);
+  });
+
+  it('should prompt, then escalate when the user does not answer', () => {
+    const armed = start(600);
+    const expectedAt = armed.expectedArrivalAt as number;
+
+    const prompting = transitionCheckIn(armed, {type: 'TICK', now: expectedAt});
+    expect(prompting.phase).toBe('prompting');
+    expect(prompting.respondBy).toBe(expectedAt + CHECK_IN_RESPONSE_TIMEOUT);
+
+    const stillPrompting = transitionCheckIn(prompting, {
+      type: 'TICK',
+      now: expectedAt + CHECK_IN_RESPONSE_TIMEOUT - 1,
+    });
+    expect(stillPrompting).toBe(prompting);
+
+    const escalated = transitionCheckIn(prompting, {
+      type: 'TICK',
+      now: expectedAt + CHECK_IN_RESPONSE_TIMEOUT,
+    });
+    expect(escalated.phase).toBe('escalated');
+  });
+
+  it('should give the user time to answer after a long time in the background', () => {
+    const armed = start(600);
+    const muchLater = (armed.expectedArrivalAt as number) + 60 * 60 * 1000;
+
+    const state = transitionCheckIn(armed, {type: 'TICK', now: muchLater});
+
+    expect(state.phase).toBe('prompting');
+    expect(state.respondBy).toBe(muchLater + CHECK_IN_RESPONSE_TIMEOUT);
+  });
+
+  it('should postpone the prompt when the user asks for more time', () => {
+    const armed = start(600);
+    const expectedAt = armed.expectedArrivalAt as number;
+    const prompting = transitionCheckIn(armed, {type: 'TICK', now: expectedAt});
+
+    const extended = transitionCheckIn(prompting, {type: 'EXTEND', now: expectedAt + 1000});
+
+    expect(extended.phase).toBe('armed');
+    expect(extended.respondBy).toBeNull();
+    expect(extended.expectedArrivalAt).toBe(expectedAt + 1000 + CHECK_IN_EXTENSION);
+  });
+
+  it('should keep the running check-in of a restored session', () => {
+    const armed = start(600);
+
+    const restored = transitionCheckIn(armed, {
+      type: 'START',
+      sessionId: 'nav_1',
+      remainingDuration: 60,
+      now: START_TIME + 500000,
+    });
+
+    expect(restored).toBe(armed);
+  });
+
+  it('should complete when the user confirms after contacts were alerted', () => {
+    const escalated: CheckInState = {...start(600), phase: 'escalated', respondBy: 1};
+
+    const state = transitionCheckIn(escalated, {type: 'CONFIRM_SAFE'});
+
+    expect(state.phase).toBe('completed');
+    expect(state.completedBy).toBe('confirmed');
+  });
+
+  it('should never prompt before the expected time', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({min: 0, max: 4 * 3600}),
+        fc.array(fc.integer({min: 0, max: 8 * 3600 * 1000}), {maxLength: 20}),
+        (duration, offsets) => {
+          const armed = start(duration);
+          const expectedAt = START_TIME + duration * 1000 + getCheckInGraceMargin(duration);
+          const ticks = offsets
+            .map(offset => START_TIME + offset)
+            .filter(now => now < expectedAt)
+            .sort((a, b) => a - b)
+            .map(now => ({type: 'TICK', now}) as CheckInEvent);
+
+          return run(armed, ticks).phase === 'armed';
+        },
+      ),
+      {numRuns: 100},
+    );
+  });
+
+  it('should never prompt or escalate once arrived or confirmed safe', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({min: 0, max: 4 * 3600}),
+        fc.constantFrom<CheckInEvent>({type: 'ARRIVED'}, {type: 'CONFIRM_SAFE'}),
+        fc.array(fc.integer({min: 0, max: 24 * 3600 * 1000}), {maxLength: 20}),
+        (duration, completion, offsets) => {
+          const completed = transitionCheckIn(start(duration), completion);
+          const events: CheckInEvent[] = offsets.map(offset =>
+            offset % 2 === 0
+              ? {type: 'TICK', now: START_TIME + offset}
+              : {type: 'EXTEND', now: START_TIME + offset},
+          );
+
+          return completed.phase === 'completed' && run(completed, events) === completed;
+        },
+      ),
+      {numRuns: 100},
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for Photo Metadata Stripping
+ *
+ * **Property 34: Photo Metadata Stripping**
+ *
+ * For any JPEG or PNG photo, stripping SHALL remove every EXIF, XMP, comment
+ * and text block (where camera and GPS data live), SHALL keep every block
+ * needed to draw the picture byte for byte, and SHALL refuse other formats.
+ */
+
+import * as fc from 'fast-check';
+
+import {
+  decodeBase64,
+  encodeBase64,
+  stripImageMetadata,
+  stripJpegMetadata,
+  stripPngMetadata,
+} from '../mediaMetadata';
+
+const ascii = (text: string): number[] => text.split('').map(char => char.charCodeAt(0));
+
+/**
+ * Helper: A JPEG segment with its marker, length and payload
+ */
+const jpegSegment = (marker: number, payload: number[]): number[] => {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+};
+
+const payloadArbitrary = fc.array(fc.integer({min: 0, max: 255}), {maxLength: 40});
+
+/**
+ * Segments kept by the stripper: JFIF, ICC profile, Adobe, quantization, frame and Huffman tables
+ */
+const keptSegmentArbitrary = fc.oneof(
+  payloadArbitrary.map(payload => jpegSegment(0xe0, [...ascii('JFIF'), 0, ...payload])),
+  payloadArbitrary.map(payload => jpegSegment(0xe2, [...ascii('ICC_PROFILE'), 0, ...payload])),
+  payloadArbitrary.map(payload => jpegSegment(0xee, [...ascii('Adobe'), ...payload])),
+  fc
+    .tuple(fc.constantFrom(0xdb, 0xc0, 0xc4, 0xdd), payloadArbitrary)
+    .map(([marker, payload]) => jpegSegment(marker, payload)),
+);
+
+/**
+ * Segments holding metadata: EXIF/XMP (APP1), other APPn blocks and comments
+ */
+const metadataSegmentArbitrary = fc.oneof(
+  payloadArbitrary.map(payload => jpegSegment(0xe1, [...ascii('Exif'), 0, 0, ...payload])),
+  payloadArbitrary.map(payload => jpegSegment(0xe2, [...ascii('FPXR'), 0, ...payload])),
+  fc
+    .tuple(fc.integer({min: 0xe3, max: 0xef}), payloadArbitrary)
+    .filter(([marker]) => marker !== 0xee)
+    .map(([marker, payload]) => jpegSegment(marker, payload)),
+  payloadArbitrary.map(payload => jpegSegment(0xfe, payload)),
+);
+
+const jpegArbitrary = fc
+  .tuple(
+    fc.array(
+      fc.oneof(
+        keptSegmentArbitrary.map(bytes => ({bytes, kept: true})),
+        metadataSegmentArbitrary.map(bytes => ({bytes, kept: false})),
+      ),
+      {maxLength: 8},
+    ),
+    payloadArbitrary,
+  )
+  .map(([segments, scan]) => {
+    const scanData = [...jpegSegment(0xda, [1, 2, 3]), ...scan, 0xff, 0xd9];
+    return {
+      input: Uint8Array.from([0xff, 0xd8, ...segments.flatMap(s => s.bytes), ...scanData]),
+      expected: Uint8Array.from([
+        0xff,
+        0xd8,
+        ...segments.filter(s => s.kept).flatMap(s => s.bytes),
+        ...scanData,
+      ]),
+    };
+  });
+
+/**
+ * Helper: A PNG chunk (the CRC is not checked by the stripper)
+ */
+const pngChunk = (type: string, data: number[]): number[] => [
+  (data.length >>> 24) & 0xff,
+  (data.length >>> 16) & 0xff,
+  (data.length >>> 8) & 0xff,
+  data.length & 0xff,
+  ...ascii(type),
+  ...data,
+  0,
+  0,
+  0,
+  0,
+];
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const pngArbitrary = fc
+  .array(
+    fc.tuple(
+      fc.constantFrom('PLTE', 'IDAT', 'gAMA', 'eXIf', 'tEXt', 'iTXt', 'zTXt', 'tIME'),
+      payloadArbitrary,
+    ),
+    {maxLength: 8},
+  )
+  .map(chunks => {
+    const header = pngChunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]);
+    const end = pngChunk('IEND', []);
+    const isMetadata = (type: string) => ['eXIf', 'tEXt', 'iTXt', 'zTXt', 'tIME'].includes(type);
+    return {
+      input: Uint8Array.from([
+        ...PNG_SIGNATURE,
+        ...header,
+        ...chunks.flatMap(([type, data]) => pngChunk(type, data)),
+        ...end,
+      ]),
+      expected: Uint8Array.from([
+        ...PNG_SIGNATURE,
+        ...header,
+        ...chunks
+          .filter(([type]) => !isMetadata(type))
+          .flatMap(([type, data]) => pngChunk(type, data)),
+        ...end,
+      ]),
+    };
+  });
+
+describe('Media Metadata', () => {
+  describe('Property 34: Photo metadata stripping', () => {
+    it('should keep exactly the JPEG segments needed to draw the picture', () => {
+      fc.assert(
+        fc.property(jpegArbitrary, ({input, expected}) => {
+          const stripped = stripJpegMetadata(input);
+          return stripped !== null && encodeBase64(stripped) === encodeBase64(expected);
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should keep exactly the PNG chunks needed to draw the picture', () => {
+      fc.assert(
+        fc.property(pngArbitrary, ({input, expected}) => {
+          const stripped = stripPngMetadata(input);
+          return stripped !== null && encodeBase64(stripped) === encodeBase64(expected);
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should not change a photo already stripped', () => {
+      fc.assert(
+        fc.property(jpegArbitrary, ({input}) => {
+          const once = encodeBase64(stripJpegMetadata(input)!);
+          return stripImageMetadata(once, 'image/jpeg') === once;
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should decode whatever it encodes', () => {
+      fc.assert(
+        fc.property(fc.uint8Array({maxLength: 200}), bytes => {
+          const decoded = decodeBase64(encodeBase64(bytes));
+          return decoded.length === bytes.length && decoded.every((b, i) => b === bytes[i]);
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should encode like the standard base64 alphabet', () => {
+    expect(encodeBase64(Uint8Array.from(ascii('Walking')))).toBe('V2Fsa2luZw==');
+    expect(encodeBase64(Uint8Array.from(ascii('ab')))).toBe('YWI=');
+  });
+
+  it('should refuse formats it cannot clean', () => {
+    expect(stripImageMetadata(encodeBase64(Uint8Array.from([1, 2, 3])), 'image/jpeg')).toBeNull();
+    expect(stripImageMetadata('AAAA', 'image/heic')).toBeNull();
+    // Truncated segment
+    expect(stripJpegMetadata(Uint8Array.from([0xff, 0xd8, 0xff, 0xe1, 0x00, 0x10, 1]))).toBeNull();
+  });
+});
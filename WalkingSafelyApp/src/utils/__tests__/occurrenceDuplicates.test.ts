@@ -0,0 +1,110 @@
+/**
+ * Tests for Occurrence Duplicates
+ *
+ * **Property 39: Duplicate Report Detection**
+ *
+ * For any report about to be sent, the suggested duplicates SHALL be active
+ * occurrences of the same type within the radius and time window, SHALL be
+ * ordered closest first, and SHALL never exceed the suggestion limit.
+ */
+
+import * as fc from 'fast-check';
+
+import type {Occurrence, OccurrenceStatus} from '../../types/models';
+import {
+  DUPLICATE_REPORT_RADIUS,
+  DUPLICATE_REPORT_WINDOW,
+  MAX_DUPLICATE_SUGGESTIONS,
+} from '../constants';
+import {calculateDistance} from '../geo';
+import {findDuplicateOccurrences} from '../occurrenceDuplicates';
+
+const REPORT = {
+  location: {latitude: -23.5505, longitude: -46.6333},
+  crimeTypeId: '1',
+  timestamp: '2024-01-01T10:00:00Z',
+};
+
+const REPORT_TIME = Date.parse(REPORT.timestamp);
+
+const occurrenceArb = fc
+  .record({
+    id: fc.uuid(),
+    // Roughly up to 1 km away
+    latOffset: fc.double({min: -0.01, max: 0.01, noNaN: true}),
+    lngOffset: fc.double({min: -0.01, max: 0.01, noNaN: true}),
+    minutes: fc.integer({min: -180, max: 180}),
+    crimeTypeId: fc.constantFrom('1', '2'),
+    status: fc.constantFrom<OccurrenceStatus | undefined>(undefined, 'active', 'expired', 'merged'),
+  })
+  .map(
+    ({id, latOffset, lngOffset, minutes, crimeTypeId, status}): Occurrence => ({
+      id,
+      timestamp: new Date(REPORT_TIME + minutes * 60000).toISOString(),
+      location: {
+        latitude: REPORT.location.latitude + latOffset,
+        longitude: REPORT.location.longitude + lngOffset,
+      },
+      crimeType: {id: crimeTypeId, name: 'Roubo', categoryId: '1'},
+      severity: 'medium',
+      confidenceScore: 2,
+      source: 'collaborative',
+      createdBy: null,
+      status,
+    }),
+  );
+
+describe('Occurrence Duplicates', () => {
+  describe('Property 39: Duplicate report detection', () => {
+    it('should suggest only matching reports, closest first, up to the limit', () => {
+      fc.assert(
+        fc.property(fc.array(occurrenceArb, {maxLength: 20}), occurrences => {
+          const duplicates = findDuplicateOccurrences(occurrences, REPORT);
+
+          const matches = duplicates.every(
+            ({occurrence, distance}) =>
+              occurrence.crimeType.id === REPORT.crimeTypeId &&
+              (occurrence.status ?? 'active') === 'active' &&
+              Math.abs(Date.parse(occurrence.timestamp) - REPORT_TIME) <= DUPLICATE_REPORT_WINDOW &&
+              distance <= DUPLICATE_REPORT_RADIUS &&
+              distance === calculateDistance(REPORT.location, occurrence.location),
+          );
+          const sorted = duplicates.every(
+            (duplicate, index) =>
+              index === 0 || duplicate.distance >= duplicates[index - 1].distance,
+          );
+          const eligible = occurrences.filter(
+            occurrence =>
+              occurrence.crimeType.id === REPORT.crimeTypeId &&
+              (occurrence.status ?? 'active') === 'active' &&
+              Math.abs(Date.parse(occurrence.timestamp) - REPORT_TIME) <= DUPLICATE_REPORT_WINDOW &&
+              calculateDistance(REPORT.location, occurrence.location) <= DUPLICATE_REPORT_RADIUS,
+          ).length;
+
+          return (
+            matches && sorted && duplicates.length === Math.min(eligible, MAX_DUPLICATE_SUGGESTIONS)
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should ignore reports of another type at the same place and time', () => {
+    const occurrence: Occurrence = {
+      id: '1',
+      timestamp: REPORT.timestamp,
+      location: REPORT.location,
+      crimeType: {id: '2', name: 'Furto', categoryId: '1'},
+      severity: 'medium',
+      confidenceScore: 2,
+      source: 'collaborative',
+      createdBy: null,
+    };
+
+    expect(findDuplicateOccurrences([occurrence], REPORT)).toEqual([]);
+    expect(findDuplicateOccurrences([occurrence], {...REPORT, crimeTypeId: '2'})).toEqual([
+      {occurrence, distance: 0},
+    ]);
+  });
+});
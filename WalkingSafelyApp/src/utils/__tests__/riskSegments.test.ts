@@ -0,0 +1,143 @@
+/**
+ * Tests for Risk Segments
+ *
+ * **Property 45: Risk Segment Grouping**
+ *
+ * For any occurrences along a route, each one near the route SHALL belong to
+ * exactly one risk segment and those away from it to none. Within a segment
+ * consecutive occurrences SHALL be at most RISK_SEGMENT_GAP apart along the
+ * route, and consecutive segments SHALL be further apart than that.
+ */
+
+import * as fc from 'fast-check';
+
+import type {Occurrence} from '../../types/models';
+import {distanceToPolyline} from '../geo';
+import {RISK_ALERT_ROUTE_TOLERANCE, RISK_SEGMENT_GAP} from '../navigationConstants';
+import {buildRiskSegments, findRiskSegment, summarizeRiskSegment} from '../riskSegments';
+
+// About 1.1 km north along a straight street
+const route = [
+  {latitude: -23.555, longitude: -46.6333},
+  {latitude: -23.55, longitude: -46.6333},
+  {latitude: -23.545, longitude: -46.6333},
+];
+
+const occurrence = (
+  id: string,
+  latitude: number,
+  longitude: number,
+  crimeType = 'Roubo',
+): Occurrence => ({
+  id,
+  timestamp: '2024-01-01T12:00:00Z',
+  location: {latitude, longitude},
+  crimeType: {id: crimeType === 'Roubo' ? '1' : '2', name: crimeType, categoryId: '1'},
+  severity: 'medium',
+  confidenceScore: 1,
+  source: 'collaborative',
+});
+
+const occurrencesArbitrary = fc
+  .array(
+    fc.record({
+      latOffset: fc.integer({min: 0, max: 1000}),
+      lngOffset: fc.integer({min: -150, max: 150}),
+    }),
+    {maxLength: 25},
+  )
+  .map(points =>
+    points.map((point, index) =>
+      occurrence(
+        `occ-${index}`,
+        -23.555 + point.latOffset / 100000,
+        -46.6333 + point.lngOffset / 100000,
+      ),
+    ),
+  );
+
+describe('Risk Segments', () => {
+  describe('Property 45: Risk segment grouping', () => {
+    it('should put each occurrence near the route in exactly one segment', () => {
+      fc.assert(
+        fc.property(occurrencesArbitrary, occurrences => {
+          const segments = buildRiskSegments(route, occurrences);
+
+          return occurrences.every(candidate => {
+            const memberships = segments.filter(segment =>
+              segment.occurrences.includes(candidate),
+            ).length;
+            const nearRoute =
+              distanceToPolyline(candidate.location, route).distance <= RISK_ALERT_ROUTE_TOLERANCE;
+            return memberships === (nearRoute ? 1 : 0);
+          });
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should keep segments apart by more than the gap', () => {
+      fc.assert(
+        fc.property(occurrencesArbitrary, occurrences => {
+          const segments = buildRiskSegments(route, occurrences);
+
+          return segments.every(
+            (segment, index) =>
+              segment.start <= segment.end &&
+              segment.end - segment.start <= (segment.occurrences.length - 1) * RISK_SEGMENT_GAP &&
+              (index === 0 || segment.start - segments[index - 1].end > RISK_SEGMENT_GAP),
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should group a street with many occurrences into one segment', () => {
+    const street = Array.from({length: 10}, (_, index) =>
+      occurrence(`occ-${index}`, -23.552 + index * 0.0003, -46.6333),
+    );
+    const farther = occurrence('farther', -23.546, -46.6333);
+
+    const segments = buildRiskSegments(route, [farther, ...street]);
+
+    expect(segments).toHaveLength(2);
+    expect(segments[0].occurrences.map(item => item.id)).toEqual(street.map(item => item.id));
+    expect(findRiskSegment(segments, 'occ-5')?.id).toBe('segment:occ-0');
+    expect(findRiskSegment(segments, 'farther')?.id).toBe('segment:farther');
+  });
+
+  it('should leave out occurrences away from the route', () => {
+    expect(buildRiskSegments(route, [occurrence('off', -23.55, -46.632)])).toEqual([]);
+  });
+
+  it('should summarize a stretch by its most reported crime type', () => {
+    const position = {latitude: -23.5525, longitude: -46.6333};
+    const stretch = [
+      occurrence('a', -23.552, -46.6333, 'Furto'),
+      occurrence('b', -23.5515, -46.6333),
+      occurrence('c', -23.551, -46.6333),
+      occurrence('d', -23.5497, -46.6333),
+    ];
+
+    const summary = summarizeRiskSegment(stretch, position);
+
+    expect(summary.count).toBe(4);
+    expect(summary.crimeType).toBe('Roubo');
+    expect(summary.crimeTypeId).toBe('1');
+    expect(summary.singleType).toBe(false);
+    expect(summary.length).toBe(350);
+    expect(summarizeRiskSegment(stretch.slice(1), position).singleType).toBe(true);
+  });
+
+  it('should break a tie in favor of the crime type reached first', () => {
+    const position = {latitude: -23.5525, longitude: -46.6333};
+    const furto = occurrence('furto', -23.552, -46.6333, 'Furto');
+    const roubo = occurrence('roubo', -23.5515, -46.6333);
+    const [segment] = buildRiskSegments(route, [roubo, furto]);
+
+    expect(segment.occurrences.map(item => item.id)).toEqual(['furto', 'roubo']);
+    expect(summarizeRiskSegment(segment.occurrences, position).crimeType).toBe('Furto');
+    expect(summarizeRiskSegment([roubo, furto], position).crimeType).toBe('Roubo');
+  });
+});
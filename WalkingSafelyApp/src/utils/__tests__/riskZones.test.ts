@@ -0,0 +1,126 @@
+/**
+ * Tests for Risk Zones
+ *
+ * **Property 43: Risk Zone Alert Cooldowns**
+ *
+ * For any sequence of visits to high risk zones, the same zone SHALL NOT alert
+ * again within its cooldown and no two alerts SHALL come closer than the
+ * minimum interval. A zone SHALL only count as high risk once its risk index
+ * or occurrence density reaches RISK_HIGH_THRESHOLD.
+ */
+
+import * as fc from 'fast-check';
+
+import {
+  RISK_HIGH_THRESHOLD,
+  RISK_ZONE_CHECK_DISTANCE,
+  RISK_ZONE_COOLDOWN,
+  RISK_ZONE_MIN_ALERT_INTERVAL,
+  RISK_ZONE_RADIUS,
+  RISK_ZONE_RECHECK_INTERVAL,
+} from '../constants';
+import {calculateDistance} from '../geo';
+import {
+  RiskZoneHistory,
+  boundsAround,
+  canAlertZone,
+  getDensityScore,
+  getZoneKey,
+  getZoneRiskScore,
+  isHighRiskZone,
+  recordZoneAlert,
+  shouldCheckZone,
+} from '../riskZones';
+
+const position = {latitude: -23.5505, longitude: -46.6333};
+
+describe('Risk Zones', () => {
+  describe('Property 43: Risk zone alert cooldowns', () => {
+    it('should space out alerts of the same zone and of any two zones', () => {
+      fc.assert(
+        fc.property(
+          fc.array(
+            fc.record({
+              zone: fc.constantFrom('region:1', 'region:2', 'cell:10:20'),
+              gap: fc.integer({min: 0, max: 2 * RISK_ZONE_COOLDOWN}),
+            }),
+            {maxLength: 40},
+          ),
+          visits => {
+            let history: RiskZoneHistory = {lastAlertAt: null, zoneAlerts: {}};
+            let now = 0;
+            const alerts: {zone: string; at: number}[] = [];
+
+            for (const visit of visits) {
+              now += visit.gap;
+              if (canAlertZone(history, visit.zone, now)) {
+                history = recordZoneAlert(history, visit.zone, now);
+                alerts.push({zone: visit.zone, at: now});
+              }
+            }
+
+            return alerts.every((alert, index) =>
+              alerts
+                .slice(0, index)
+                .every(
+                  earlier =>
+                    alert.at - earlier.at >= RISK_ZONE_MIN_ALERT_INTERVAL &&
+                    (earlier.zone !== alert.zone || alert.at - earlier.at >= RISK_ZONE_COOLDOWN),
+                ),
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+
+    it('should count a zone as high risk only from the threshold', () => {
+      fc.assert(
+        fc.property(
+          fc.option(fc.integer({min: 0, max: 100}), {nil: null}),
+          fc.nat({max: 200}),
+          (riskIndex, count) => {
+            const score = getZoneRiskScore(riskIndex, count);
+            const byIndex = (riskIndex ?? 0) >= RISK_HIGH_THRESHOLD;
+            return (
+              score >= 0 &&
+              score <= 100 &&
+              isHighRiskZone(score) ===
+                (byIndex || getDensityScore(count) >= RISK_HIGH_THRESHOLD) &&
+              getZoneRiskScore(riskIndex, count + 1) >= score
+            );
+          },
+        ),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  it('should not alert without occurrences or risk', () => {
+    expect(isHighRiskZone(getZoneRiskScore(null, 0))).toBe(false);
+  });
+
+  it('should name nearby positions after the same grid cell unless they have a region', () => {
+    const nearby = {latitude: position.latitude + 0.0001, longitude: position.longitude};
+    expect(getZoneKey(position)).toBe(getZoneKey(nearby));
+    expect(getZoneKey(position, '7')).toBe('region:7');
+  });
+
+  it('should keep the search bounds inside the zone radius', () => {
+    const bounds = boundsAround(position, RISK_ZONE_RADIUS);
+    expect(calculateDistance(position, bounds.northEast)).toBeLessThanOrEqual(RISK_ZONE_RADIUS + 1);
+    expect(calculateDistance(position, bounds.southWest)).toBeLessThanOrEqual(RISK_ZONE_RADIUS + 1);
+  });
+
+  it('should check again only after moving or waiting', () => {
+    const lastCheck = {position, checkedAt: 0};
+    const closeBy = {latitude: position.latitude + 0.0005, longitude: position.longitude};
+    const farAway = {latitude: position.latitude + 0.002, longitude: position.longitude};
+
+    expect(calculateDistance(position, closeBy)).toBeLessThan(RISK_ZONE_CHECK_DISTANCE);
+    expect(shouldCheckZone(null, position, 0)).toBe(true);
+    expect(shouldCheckZone(lastCheck, closeBy, 1000)).toBe(false);
+    expect(shouldCheckZone(lastCheck, farAway, 1000)).toBe(true);
+    expect(shouldCheckZone(lastCheck, closeBy, RISK_ZONE_RECHECK_INTERVAL)).toBe(true);
+  });
+});
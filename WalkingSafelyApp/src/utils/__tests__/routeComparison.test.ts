@@ -0,0 +1,126 @@
+/**
+ * Tests for Route Comparison Utilities
+ *
+ * **Property 27: Route Comparison Consistency**
+ *
+ * For any set of routes, the comparison SHALL list each path once, in the
+ * order received, and the fastest, shortest and safest highlights SHALL point
+ * to routes no other route beats on that criterion.
+ */
+
+import * as fc from 'fast-check';
+
+import type {RouteResponse} from '../../types/models';
+import {ROUTE_OPTION_COLORS} from '../navigationConstants';
+import {
+  countOccurrencesBySeverity,
+  getRouteHighlights,
+  getRouteOptionColor,
+  mergeRouteOptions,
+} from '../routeComparison';
+
+const routeArbitrary = fc.record({
+  id: fc.uuid(),
+  polyline: fc.constantFrom('a', 'b', 'c', 'd', 'e'),
+  distance: fc.integer({min: 100, max: 20000}),
+  duration: fc.integer({min: 60, max: 14400}),
+  maxRiskIndex: fc.integer({min: 0, max: 100}),
+  averageRiskIndex: fc.integer({min: 0, max: 100}),
+  requiresWarning: fc.boolean(),
+  instructions: fc.constant([]),
+}) as fc.Arbitrary<RouteResponse>;
+
+describe('Route Comparison', () => {
+  describe('mergeRouteOptions', () => {
+    it('should keep one route per path in the order received', () => {
+      fc.assert(
+        fc.property(fc.array(routeArbitrary, {maxLength: 10}), routes => {
+          const merged = mergeRouteOptions(routes.slice(0, 2), routes.slice(2));
+          const paths = merged.map(route => route.polyline);
+          const firstOfEachPath = routes.filter(
+            (route, index) =>
+              routes.findIndex(other => other.polyline === route.polyline) === index,
+          );
+          return (
+            new Set(paths).size === paths.length && merged.every((r, i) => r === firstOfEachPath[i])
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should skip missing routes', () => {
+      expect(mergeRouteOptions([null, null], [])).toEqual([]);
+    });
+  });
+
+  describe('getRouteHighlights', () => {
+    it('should highlight routes no other route beats', () => {
+      fc.assert(
+        fc.property(fc.array(routeArbitrary, {minLength: 1, maxLength: 10}), routes => {
+          const {fastestId, shortestId, safestId} = getRouteHighlights(routes);
+          const fastest = routes.find(route => route.id === fastestId);
+          const shortest = routes.find(route => route.id === shortestId);
+          const safest = routes.find(route => route.id === safestId);
+
+          return (
+            fastest !== undefined &&
+            shortest !== undefined &&
+            safest !== undefined &&
+            routes.every(route => fastest.duration <= route.duration) &&
+            routes.every(route => shortest.distance <= route.distance) &&
+            routes.every(route => safest.averageRiskIndex <= route.averageRiskIndex)
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should use the worst point to break ties on average risk', () => {
+      const base = {polyline: '', distance: 1000, duration: 600, requiresWarning: false};
+      const routes: RouteResponse[] = [
+        {...base, id: 'a', averageRiskIndex: 20, maxRiskIndex: 80, instructions: []},
+        {...base, id: 'b', averageRiskIndex: 20, maxRiskIndex: 40, instructions: []},
+      ];
+
+      expect(getRouteHighlights(routes).safestId).toBe('b');
+    });
+
+    it('should return no highlights without routes', () => {
+      expect(getRouteHighlights([])).toEqual({
+        fastestId: null,
+        shortestId: null,
+        safestId: null,
+      });
+    });
+  });
+
+  describe('getRouteOptionColor', () => {
+    it('should give consecutive routes different colors', () => {
+      fc.assert(
+        fc.property(fc.nat({max: 1000}), index => {
+          const color = getRouteOptionColor(index);
+          return (
+            ROUTE_OPTION_COLORS.includes(color as (typeof ROUTE_OPTION_COLORS)[number]) &&
+            color !== getRouteOptionColor(index + 1)
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+
+  describe('countOccurrencesBySeverity', () => {
+    it('should count occurrences per severity', () => {
+      const occurrence = {location: {latitude: 0, longitude: 0}, crimeType: 'Roubo', timestamp: ''};
+      expect(
+        countOccurrencesBySeverity([
+          {...occurrence, id: '1', severity: 'high'},
+          {...occurrence, id: '2', severity: 'low'},
+          {...occurrence, id: '3', severity: 'high'},
+        ]),
+      ).toEqual({high: 2, low: 1});
+      expect(countOccurrencesBySeverity(undefined)).toEqual({});
+    });
+  });
+});
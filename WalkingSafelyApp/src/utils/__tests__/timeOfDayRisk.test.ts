@@ -0,0 +1,128 @@
+/**
+ * Tests for Time-of-day Risk
+ *
+ * **Property 29: Time-of-day Risk Profile**
+ *
+ * For any route, the hourly risk SHALL stay within 0-100, SHALL be highest
+ * around the time of day its occurrences happened, and SHALL equal the route
+ * risk at every hour when no occurrence is dated.
+ */
+
+import * as fc from 'fast-check';
+
+import type {RouteOccurrence} from '../../types/models';
+import {
+  HOURS_PER_DAY,
+  getHourDistance,
+  getHourlyRiskProfile,
+  getNextDepartureTime,
+  getSafestHour,
+} from '../timeOfDayRisk';
+
+/** Occurrence at the given local hour */
+const occurrenceAt = (hour: number, severity = 'high'): RouteOccurrence => ({
+  id: `occ_${hour}`,
+  location: {latitude: -23.55, longitude: -46.63},
+  crimeType: 'Roubo',
+  severity,
+  timestamp: new Date(2024, 0, 15, hour, 30).toISOString(),
+});
+
+const hourArbitrary = fc.integer({min: 0, max: HOURS_PER_DAY - 1});
+
+const occurrencesArbitrary = fc.array(
+  fc.record({
+    hour: hourArbitrary,
+    severity: fc.constantFrom('low', 'medium', 'high', 'critical', 'unknown'),
+  }),
+  {maxLength: 20},
+);
+
+describe('Time-of-day Risk', () => {
+  describe('getHourlyRiskProfile', () => {
+    it('should give a risk between 0 and 100 for every hour', () => {
+      fc.assert(
+        fc.property(occurrencesArbitrary, fc.integer({min: 0, max: 100}), (items, riskIndex) => {
+          const profile = getHourlyRiskProfile(
+            items.map(item => occurrenceAt(item.hour, item.severity)),
+            riskIndex,
+          );
+          return (
+            profile.length === HOURS_PER_DAY && profile.every(risk => risk >= 0 && risk <= 100)
+          );
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should rate the hour of an occurrence above the opposite hour', () => {
+      fc.assert(
+        fc.property(hourArbitrary, fc.integer({min: 1, max: 100}), (hour, riskIndex) => {
+          const profile = getHourlyRiskProfile([occurrenceAt(hour)], riskIndex);
+          return profile[hour] > profile[(hour + 12) % HOURS_PER_DAY];
+        }),
+        {numRuns: 100},
+      );
+    });
+
+    it('should use the route risk for every hour without dated occurrences', () => {
+      const undated = {...occurrenceAt(10), timestamp: 'not a date'};
+
+      expect(getHourlyRiskProfile(undefined, 40)).toEqual(new Array(HOURS_PER_DAY).fill(40));
+      expect(getHourlyRiskProfile([undated], 40)).toEqual(new Array(HOURS_PER_DAY).fill(40));
+    });
+
+    it('should weigh severe occurrences more', () => {
+      const profile = getHourlyRiskProfile(
+        [occurrenceAt(2, 'low'), occurrenceAt(14, 'critical')],
+        50,
+      );
+
+      expect(profile[14]).toBeGreaterThan(profile[2]);
+    });
+  });
+
+  describe('getHourDistance', () => {
+    it('should be symmetric and go around midnight', () => {
+      fc.assert(
+        fc.property(hourArbitrary, hourArbitrary, (a, b) => {
+          const distance = getHourDistance(a, b);
+          return distance === getHourDistance(b, a) && distance >= 0 && distance <= 12;
+        }),
+        {numRuns: 100},
+      );
+      expect(getHourDistance(23, 1)).toBe(2);
+    });
+  });
+
+  describe('getSafestHour', () => {
+    it('should find the lowest risk, starting from the given hour on ties', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.integer({min: 0, max: 100}), {
+            minLength: HOURS_PER_DAY,
+            maxLength: HOURS_PER_DAY,
+          }),
+          hourArbitrary,
+          (profile, fromHour) => profile[getSafestHour(profile, fromHour)] === Math.min(...profile),
+        ),
+        {numRuns: 100},
+      );
+      expect(getSafestHour(new Array(HOURS_PER_DAY).fill(10), 7)).toBe(7);
+    });
+  });
+
+  describe('getNextDepartureTime', () => {
+    it('should return the next time the clock reaches the hour', () => {
+      fc.assert(
+        fc.property(hourArbitrary, fc.integer({min: 0, max: 10 ** 12}), (hour, offset) => {
+          const now = new Date(1.6e12 + offset);
+          const departure = getNextDepartureTime(hour, now);
+          const wait = departure.getTime() - now.getTime();
+          return departure.getHours() === hour && wait >= 0 && wait < 25 * 60 * 60 * 1000;
+        }),
+        {numRuns: 100},
+      );
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Alert schedule evaluation
+ * Whether risk alerts are active at a given time, following the same rules
+ * as the server: the hours are inclusive and a start after the end is a
+ * window that crosses midnight.
+ */
+
+import {AlertSchedule} from '../types/models';
+
+/** Minutes in a day */
+export const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Minutes since midnight of a "HH:mm" time, or null if it isn't one
+ */
+export function parseScheduleTime(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * "HH:mm" time of a number of minutes, wrapping around midnight
+ */
+export function formatScheduleTime(totalMinutes: number): string {
+  const minutes = ((totalMinutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Whether a schedule lets alerts through at a date.
+ * No schedule, or one the app can't read, never silences alerts.
+ *
+ * @param schedule Active hours and days, null for always
+ * @param date Moment to check, in local time
+ */
+export function isWithinSchedule(schedule: AlertSchedule | null, date: Date): boolean {
+  if (!schedule) {
+    return true;
+  }
+
+  const start = parseScheduleTime(schedule.startTime);
+  const end = parseScheduleTime(schedule.endTime);
+  if (start === null || end === null) {
+    return true;
+  }
+
+  if (schedule.daysOfWeek.length > 0 && !schedule.daysOfWeek.includes(date.getDay())) {
+    return false;
+  }
+
+  const minute = date.getHours() * 60 + date.getMinutes();
+
+  // Overnight window, e.g. 22:00 to 06:00
+  if (start > end) {
+    return minute >= start || minute <= end;
+  }
+
+  return minute >= start && minute <= end;
+}
+
+/** Days of the week, from Sunday as Date.getDay() counts them */
+export const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * Turn one day of a schedule on or off.
+ * An empty list means every day, so turning every day on gives an empty
+ * list and the last day can't be turned off.
+ */
+export function toggleScheduleDay(days: number[], day: number): number[] {
+  const active = days.length === 0 ? ALL_WEEKDAYS : days;
+
+  if (active.includes(day)) {
+    const remaining = active.filter(item => item !== day);
+    return remaining.length === 0 ? days : remaining;
+  }
+
+  const next = [...active, day].sort((a, b) => a - b);
+  return next.length === ALL_WEEKDAYS.length ? [] : next;
+}
+
+/**
+ * Move a schedule time by some minutes, skipping the other end of the
+ * window so it never shrinks to a single minute
+ */
+export function shiftScheduleTime(time: string, deltaMinutes: number, otherEnd: string): string {
+  const current = parseScheduleTime(time) ?? 0;
+  let next = formatScheduleTime(current + deltaMinutes);
+  if (next === otherEnd) {
+    next = formatScheduleTime(current + deltaMinutes * 2);
+  }
+  return next;
+}
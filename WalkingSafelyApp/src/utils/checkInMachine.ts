@@ -0,0 +1,152 @@
+/**
+ * Arrival Check-in State Machine
+ * Pure transitions for the safe-arrival check-in. Timers, persistence and
+ * alerting trusted contacts are handled by checkInStore.
+ *
+ * idle -> armed -> prompting -> escalated
+ *           |          |           |
+ *           +----------+-----------+--> completed (arrived or confirmed safe)
+ */
+
+/** Minimum time allowed past the route duration before prompting (ms) */
+export const CHECK_IN_MIN_GRACE = 5 * 60 * 1000; // 5 minutes
+
+/** Share of the route duration added as grace margin on longer routes */
+export const CHECK_IN_GRACE_RATIO = 0.25;
+
+/** Time the user has to answer the prompt before contacts are alerted (ms) */
+export const CHECK_IN_RESPONSE_TIMEOUT = 2 * 60 * 1000; // 2 minutes
+
+/** Extra time granted when the user asks for more time (ms) */
+export const CHECK_IN_EXTENSION = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Check-in phases
+ * - idle: no route started
+ * - armed: waiting for arrival before the expected time
+ * - prompting: expected time passed, asking the user whether they are safe
+ * - escalated: the user didn't answer, trusted contacts are alerted
+ * - completed: arrived or confirmed safe
+ */
+export type CheckInPhase = 'idle' | 'armed' | 'prompting' | 'escalated' | 'completed';
+
+/**
+ * How a check-in was completed
+ */
+export type CheckInCompletion = 'arrived' | 'confirmed';
+
+/**
+ * Check-in machine state
+ */
+export interface CheckInState {
+  phase: CheckInPhase;
+  /** Navigation session the check-in belongs to */
+  sessionId: string | null;
+  /** Prompt the user after this time (epoch ms) */
+  expectedArrivalAt: number | null;
+  /** Alert trusted contacts after this time while prompting (epoch ms) */
+  respondBy: number | null;
+  completedBy: CheckInCompletion | null;
+}
+
+/**
+ * Check-in machine events
+ */
+export type CheckInEvent =
+  | {type: 'START'; sessionId: string; remainingDuration: number; now: number}
+  | {type: 'TICK'; now: number}
+  | {type: 'EXTEND'; now: number}
+  | {type: 'ARRIVED'}
+  | {type: 'CONFIRM_SAFE'}
+  | {type: 'CANCEL'};
+
+/**
+ * State before any route is started
+ */
+export const initialCheckInState: CheckInState = {
+  phase: 'idle',
+  sessionId: null,
+  expectedArrivalAt: null,
+  respondBy: null,
+  completedBy: null,
+};
+
+/**
+ * Grace margin added to the route duration (ms)
+ * @param remainingDuration - Expected route duration in seconds
+ */
+export const getCheckInGraceMargin = (remainingDuration: number): number =>
+  Math.max(CHECK_IN_MIN_GRACE, remainingDuration * 1000 * CHECK_IN_GRACE_RATIO);
+
+/**
+ * Time after which the user is asked to check in (epoch ms)
+ * @param remainingDuration - Expected route duration in seconds
+ */
+export const getExpectedArrivalAt = (now: number, remainingDuration: number): number =>
+  now + Math.max(0, remainingDuration) * 1000 + getCheckInGraceMargin(remainingDuration);
+
+/**
+ * Whether the check-in still waits for arrival or an answer
+ */
+export const isCheckInPending = (state: CheckInState): boolean =>
+  state.phase === 'armed' || state.phase === 'prompting' || state.phase === 'escalated';
+
+/**
+ * Apply an event to the check-in state.
+ * Returns the same object when the event doesn't change anything.
+ */
+export const transitionCheckIn = (state: CheckInState, event: CheckInEvent): CheckInState => {
+  switch (event.type) {
+    case 'START':
+      // A restored session keeps its running check-in
+      if (state.sessionId === event.sessionId && state.phase !== 'idle') {
+        return state;
+      }
+      return {
+        ...initialCheckInState,
+        phase: 'armed',
+        sessionId: event.sessionId,
+        expectedArrivalAt: getExpectedArrivalAt(event.now, event.remainingDuration),
+      };
+
+    case 'TICK':
+      if (
+        state.phase === 'armed' &&
+        state.expectedArrivalAt !== null &&
+        event.now >= state.expectedArrivalAt
+      ) {
+        return {...state, phase: 'prompting', respondBy: event.now + CHECK_IN_RESPONSE_TIMEOUT};
+      }
+      if (state.phase === 'prompting' && state.respondBy !== null && event.now >= state.respondBy) {
+        return {...state, phase: 'escalated'};
+      }
+      return state;
+
+    case 'EXTEND':
+      if (state.phase !== 'armed' && state.phase !== 'prompting') {
+        return state;
+      }
+      return {
+        ...state,
+        phase: 'armed',
+        expectedArrivalAt:
+          Math.max(state.expectedArrivalAt ?? event.now, event.now) + CHECK_IN_EXTENSION,
+        respondBy: null,
+      };
+
+    case 'ARRIVED':
+    case 'CONFIRM_SAFE':
+      if (!isCheckInPending(state)) {
+        return state;
+      }
+      return {
+        ...state,
+        phase: 'completed',
+        respondBy: null,
+        completedBy: event.type === 'ARRIVED' ? 'arrived' : 'confirmed',
+      };
+
+    case 'CANCEL':
+      return state.phase === 'idle' ? state : initialCheckInState;
+  }
+};
@@ -2,6 +2,9 @@
  * Application Constants
  */
 
+// App
+export const APP_VERSION = '0.0.1'; // Keep in step with package.json
+
 // API Configuration
 export const API_BASE_URL = 'http://50.21.181.92:8080/api';
 
@@ -18,6 +21,10 @@ export const MAX_SEARCH_RESULTS = 5;
 export const MIN_SEARCH_RESULTS = 5; // Requirement 6.3: Display at least 5 results when available
 export const MAX_REPORTS_PER_HOUR = 5;
 export const MAX_RETRY_ATTEMPTS = 3;
+export const MAX_CONFIDENCE_SCORE = 4; // Occurrence confidence ranges from 1 to 4
+export const MAX_PHOTO_ATTACHMENTS = 3;
+export const MAX_VOICE_NOTE_DURATION = 60000; // 1 minute
+export const ATTACHMENT_UPLOAD_TIMEOUT = 120000; // 2 minutes per file
 
 // Risk Thresholds
 export const RISK_WARNING_THRESHOLD = 50;
@@ -28,6 +35,24 @@ export const MIN_ALERT_DISTANCE = 200;
 export const HIGH_SPEED_ALERT_DISTANCE = 500;
 export const HIGH_SPEED_THRESHOLD = 40; // km/h
 
+// Duplicate Reports
+export const DUPLICATE_REPORT_RADIUS = 200; // meters
+export const DUPLICATE_REPORT_WINDOW = 60 * 60 * 1000; // 1 hour either side of the report
+export const MAX_DUPLICATE_SUGGESTIONS = 3;
+
+// Statistics
+export const STATISTICS_AREA_RADIUS = 1000; // meters
+export const STATISTICS_PERIOD_DAYS = 30;
+
+// Risk zone alerts outside navigation
+export const RISK_ZONE_RADIUS = 250; // meters around the user that make up the zone
+export const RISK_ZONE_PERIOD_DAYS = 30; // occurrences counted for the zone density
+export const RISK_ZONE_DENSITY_FULL_SCALE = 20; // occurrences in the zone that score 100
+export const RISK_ZONE_CHECK_DISTANCE = 150; // meters moved before checking again
+export const RISK_ZONE_RECHECK_INTERVAL = 10 * 60 * 1000; // 10 minutes for a user standing still
+export const RISK_ZONE_COOLDOWN = 60 * 60 * 1000; // 1 hour before the same zone alerts again
+export const RISK_ZONE_MIN_ALERT_INTERVAL = 5 * 60 * 1000; // 5 minutes between any two alerts
+
 // Navigation
 export const TRAFFIC_UPDATE_INTERVAL = 60000; // 60 seconds
 export const POSITION_UPDATE_DISTANCE = 10; // meters
@@ -0,0 +1,108 @@
+/**
+ * Map Tile Utilities
+ * Web-mercator tile math used to split map viewports into cacheable tiles
+ * Requirements: 9.1, 9.6
+ */
+
+import {MapBounds} from '../types/models';
+
+/**
+ * Tile zoom limits (same range the backend accepts for heatmap zoom)
+ */
+export const MIN_TILE_ZOOM = 1;
+export const MAX_TILE_ZOOM = 18;
+
+/**
+ * Latitude limit of the web-mercator projection
+ */
+const MAX_MERCATOR_LATITUDE = 85.05112878;
+
+/**
+ * A single web-mercator tile address
+ */
+export interface MapTile {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Convert a longitude to the tile column at the given zoom
+ */
+export const longitudeToTileX = (longitude: number, zoom: number): number => {
+  const tileCount = Math.pow(2, zoom);
+  const x = Math.floor(((longitude + 180) / 360) * tileCount);
+  return clamp(x, 0, tileCount - 1);
+};
+
+/**
+ * Convert a latitude to the tile row at the given zoom
+ */
+export const latitudeToTileY = (latitude: number, zoom: number): number => {
+  const tileCount = Math.pow(2, zoom);
+  const latRad = (clamp(latitude, -MAX_MERCATOR_LATITUDE, MAX_MERCATOR_LATITUDE) * Math.PI) / 180;
+  const y = Math.floor(
+    ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * tileCount,
+  );
+  return clamp(y, 0, tileCount - 1);
+};
+
+/**
+ * Geographic bounds covered by a tile
+ */
+export const tileToBounds = (tile: MapTile): MapBounds => {
+  const tileCount = Math.pow(2, tile.zoom);
+  const lngFromX = (x: number) => (x / tileCount) * 360 - 180;
+  const latFromY = (y: number) => {
+    const n = Math.PI - (2 * Math.PI * y) / tileCount;
+    return (180 / Math.PI) * Math.atan(Math.sinh(n));
+  };
+
+  return {
+    northEast: {latitude: latFromY(tile.y), longitude: lngFromX(tile.x + 1)},
+    southWest: {latitude: latFromY(tile.y + 1), longitude: lngFromX(tile.x)},
+  };
+};
+
+/**
+ * Pick a tile zoom so that the viewport spans only a handful of tiles
+ * Requirement 9.6: Granularity follows the visible zoom level
+ */
+export const getTileZoomForBounds = (bounds: MapBounds): number => {
+  const lngSpan = Math.abs(bounds.northEast.longitude - bounds.southWest.longitude);
+  const latSpan = Math.abs(bounds.northEast.latitude - bounds.southWest.latitude);
+  const centerLat = (bounds.northEast.latitude + bounds.southWest.latitude) / 2;
+  // Mercator tiles get shorter (in degrees of latitude) away from the equator
+  const span = Math.max(lngSpan, latSpan / Math.cos((centerLat * Math.PI) / 180));
+  if (!(span > 0)) {
+    return MAX_TILE_ZOOM;
+  }
+  return clamp(Math.floor(Math.log2(360 / span)), MIN_TILE_ZOOM, MAX_TILE_ZOOM);
+};
+
+/**
+ * List every tile at the given zoom that intersects the bounds
+ */
+export const getTilesForBounds = (bounds: MapBounds, zoom: number): MapTile[] => {
+  const minX = longitudeToTileX(bounds.southWest.longitude, zoom);
+  const maxX = longitudeToTileX(bounds.northEast.longitude, zoom);
+  // Tile rows grow southwards
+  const minY = latitudeToTileY(bounds.northEast.latitude, zoom);
+  const maxY = latitudeToTileY(bounds.southWest.latitude, zoom);
+
+  const tiles: MapTile[] = [];
+  for (let x = Math.min(minX, maxX); x <= Math.max(minX, maxX); x++) {
+    for (let y = minY; y <= maxY; y++) {
+      tiles.push({x, y, zoom});
+    }
+  }
+  return tiles;
+};
+
+/**
+ * Stable string key for a tile (z/x/y)
+ */
+export const getTileKey = (tile: MapTile): string => `${tile.zoom}/${tile.x}/${tile.y}`;
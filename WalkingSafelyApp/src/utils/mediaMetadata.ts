@@ -0,0 +1,200 @@
+/**
+ * Media Metadata
+ * Removes EXIF, XMP and text metadata (camera, time and GPS location) from
+ * photos before they leave the device
+ */
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const BASE64_LOOKUP = new Map(BASE64_ALPHABET.split('').map((char, index) => [char, index]));
+
+/**
+ * JPEG markers
+ */
+const JPEG_START = 0xd8;
+const JPEG_START_OF_SCAN = 0xda;
+const JPEG_APP0 = 0xe0;
+const JPEG_APP2 = 0xe2;
+const JPEG_APP14 = 0xee;
+const JPEG_APP15 = 0xef;
+const JPEG_COMMENT = 0xfe;
+
+/**
+ * APP segments needed to decode the picture correctly, by marker and identifier
+ * - APP0: JFIF header
+ * - APP2: ICC colour profile
+ * - APP14: Adobe colour transform
+ */
+const JPEG_KEPT_SEGMENTS: Record<number, string> = {
+  [JPEG_APP0]: 'JFIF',
+  [JPEG_APP2]: 'ICC_PROFILE',
+  [JPEG_APP14]: 'Adobe',
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * PNG chunks that carry metadata rather than pixels
+ */
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME'];
+
+/**
+ * Decode base64 text, ignoring whitespace and padding
+ */
+export const decodeBase64 = (base64: string): Uint8Array => {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let byteIndex = 0;
+
+  for (let index = 0; index < clean.length; index += 4) {
+    const chunk = [0, 1, 2, 3].map(offset => BASE64_LOOKUP.get(clean[index + offset]) ?? 0);
+    const value = (chunk[0] << 18) | (chunk[1] << 12) | (chunk[2] << 6) | chunk[3];
+    const remaining = Math.min(3, bytes.length - byteIndex);
+    for (let shift = 0; shift < remaining; shift++) {
+      bytes[byteIndex++] = (value >> (16 - shift * 8)) & 0xff;
+    }
+  }
+  return bytes;
+};
+
+/**
+ * Encode bytes as padded base64 text
+ */
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  let result = '';
+  for (let index = 0; index < bytes.length; index += 3) {
+    const value = (bytes[index] << 16) | ((bytes[index + 1] ?? 0) << 8) | (bytes[index + 2] ?? 0);
+    const length = Math.min(3, bytes.length - index);
+    for (let shift = 0; shift < 4; shift++) {
+      result += shift <= length ? BASE64_ALPHABET[(value >> (18 - shift * 6)) & 0x3f] : '=';
+    }
+  }
+  return result;
+};
+
+const readAscii = (bytes: Uint8Array, start: number, length: number): string =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+/**
+ * Check whether a JPEG APP segment is one the decoder needs
+ */
+const isKeptJpegSegment = (bytes: Uint8Array, marker: number, dataStart: number): boolean => {
+  const identifier = JPEG_KEPT_SEGMENTS[marker];
+  return identifier !== undefined && readAscii(bytes, dataStart, identifier.length) === identifier;
+};
+
+/**
+ * Remove the metadata segments of a JPEG (EXIF, XMP, comments...).
+ * Returns null when the bytes are not a well-formed JPEG.
+ */
+export const stripJpegMetadata = (bytes: Uint8Array): Uint8Array | null => {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== JPEG_START) {
+    return null;
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+
+  while (offset < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+    // Markers may be preceded by any number of 0xFF fill bytes
+    while (bytes[offset + 1] === 0xff) {
+      offset++;
+    }
+    const marker = bytes[offset + 1];
+    if (marker === undefined || offset + 3 >= bytes.length) {
+      return null;
+    }
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (end > bytes.length) {
+      return null;
+    }
+
+    // Image data follows the scan header up to the end of the file
+    if (marker === JPEG_START_OF_SCAN) {
+      parts.push(bytes.subarray(offset));
+      return concatBytes(parts);
+    }
+
+    const isMetadata =
+      marker === JPEG_COMMENT ||
+      (marker >= JPEG_APP0 &&
+        marker <= JPEG_APP15 &&
+        !isKeptJpegSegment(bytes, marker, offset + 4));
+    if (!isMetadata) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  return null;
+};
+
+/**
+ * Remove the metadata chunks of a PNG (EXIF, text, modification time).
+ * Returns null when the bytes are not a well-formed PNG.
+ */
+export const stripPngMetadata = (bytes: Uint8Array): Uint8Array | null => {
+  if (PNG_SIGNATURE.some((value, index) => bytes[index] !== value)) {
+    return null;
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset < bytes.length) {
+    if (offset + 12 > bytes.length) {
+      return null;
+    }
+    const length =
+      ((bytes[offset] << 24) >>> 0) +
+      (bytes[offset + 1] << 16) +
+      (bytes[offset + 2] << 8) +
+      bytes[offset + 3];
+    // Length, type, data and CRC
+    const end = offset + 12 + length;
+    if (end > bytes.length) {
+      return null;
+    }
+
+    const type = readAscii(bytes, offset + 4, 4);
+    if (!PNG_METADATA_CHUNKS.includes(type)) {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+
+    if (type === 'IEND') {
+      return concatBytes(parts);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Strip the metadata of a base64 photo.
+ * Returns null for formats that can't be cleaned, so they are never uploaded.
+ */
+export const stripImageMetadata = (base64: string, mimeType: string): string | null => {
+  const bytes = decodeBase64(base64);
+  const stripped =
+    mimeType === 'image/jpeg' || mimeType === 'image/jpg'
+      ? stripJpegMetadata(bytes)
+      : mimeType === 'image/png'
+        ? stripPngMetadata(bytes)
+        : null;
+  return stripped ? encodeBase64(stripped) : null;
+};
@@ -8,9 +8,17 @@
 export const DEVIATION_THRESHOLD = 30; // meters - triggers route recalculation (Req 16.1)
 export const INSTRUCTION_ADVANCE_DISTANCE = 50; // meters - advance to next instruction
 export const VOICE_ADVANCE_DISTANCE = 100; // meters - narrate next instruction in advance
+export const ARRIVAL_THRESHOLD = 20; // meters - destination considered reached
+export const WAYPOINT_ARRIVAL_THRESHOLD = 30; // meters - intermediate stop considered reached
+export const MAX_ROUTE_STOPS = 5; // intermediate stops allowed on a route
 
 // Risk Alert Configuration
 export const RISK_ALERT_DISTANCE = 200; // meters - distance to trigger risk alert (Req 15.4)
+export const RISK_ALERT_BEARING_TOLERANCE = 90; // degrees - risk points further off the heading are behind
+export const RISK_ALERT_ROUTE_TOLERANCE = 50; // meters - risk points further from the route don't alert
+export const RISK_SEGMENT_GAP = 100; // meters along the route - closer risk points share one alert
+export const RISK_SEGMENT_MIN_OCCURRENCES = 2; // risk points for a summarized alert
+export const ROUTE_OCCURRENCE_PERIOD_DAYS = 30; // days - age limit of the occurrences sent with a route
 
 // Position Tracking
 export const POSITION_UPDATE_INTERVAL = 1000; // ms between position updates
@@ -24,6 +32,15 @@ export const ROUTE_COLORS = {
   destination: '#F44336', // Red - end point
 } as const;
 
+// Colors of the routes shown side by side in the route comparison
+export const ROUTE_OPTION_COLORS = [
+  '#2196F3', // Blue
+  '#9C27B0', // Purple
+  '#FF9800', // Orange
+  '#009688', // Teal
+  '#E91E63', // Pink
+] as const;
+
 // Route Line Styling
 export const ROUTE_LINE_WIDTH = 5;
 export const ROUTE_LINE_OPACITY = 0.9;
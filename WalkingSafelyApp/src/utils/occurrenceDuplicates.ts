@@ -0,0 +1,59 @@
+/**
+ * Occurrence Duplicates
+ * Finds reports already on the map that a new report probably duplicates, so
+ * the user can confirm the existing one instead
+ */
+
+import {Coordinates, Occurrence} from '../types/models';
+import {
+  DUPLICATE_REPORT_RADIUS,
+  DUPLICATE_REPORT_WINDOW,
+  MAX_DUPLICATE_SUGGESTIONS,
+} from './constants';
+import {calculateDistance} from './geo';
+
+/**
+ * Existing report near the one being sent
+ */
+export interface DuplicateOccurrence {
+  occurrence: Occurrence;
+  /** Meters from the new report */
+  distance: number;
+}
+
+/**
+ * What is known about the report before it is sent
+ */
+export interface DuplicateCheck {
+  location: Coordinates;
+  crimeTypeId: string;
+  timestamp: string;
+}
+
+/**
+ * Active occurrences of the same type within the radius and time window of
+ * the report, closest first
+ */
+export const findDuplicateOccurrences = (
+  occurrences: Occurrence[],
+  report: DuplicateCheck,
+  radius: number = DUPLICATE_REPORT_RADIUS,
+  window: number = DUPLICATE_REPORT_WINDOW,
+): DuplicateOccurrence[] => {
+  const reportTime = Date.parse(report.timestamp);
+
+  return occurrences
+    .filter(
+      occurrence =>
+        occurrence.crimeType?.id === report.crimeTypeId &&
+        (occurrence.status ?? 'active') === 'active' &&
+        Math.abs(Date.parse(occurrence.timestamp) - reportTime) <= window,
+    )
+    .map(occurrence => ({
+      occurrence,
+      distance: calculateDistance(report.location, occurrence.location),
+    }))
+    .filter(duplicate => duplicate.distance <= radius)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_DUPLICATE_SUGGESTIONS);
+};
@@ -0,0 +1,98 @@
+/**
+ * Occurrence Filters
+ * Crime type, severity and time window filters shared by the occurrence
+ * markers and the heatmap on the main map
+ */
+
+import {HeatmapFilters, Occurrence, OccurrenceFilters} from '../types/models';
+
+/** Time windows offered in the filter sheet, in display order */
+export const FILTER_PERIODS: NonNullable<OccurrenceFilters['period']>[] = [
+  'last_24h',
+  'last_7d',
+  'last_30d',
+];
+
+/** Length of each time window */
+export const FILTER_PERIOD_DURATION: Record<NonNullable<OccurrenceFilters['period']>, number> = {
+  last_24h: 24 * 60 * 60 * 1000,
+  last_7d: 7 * 24 * 60 * 60 * 1000,
+  last_30d: 30 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Filters with nothing selected, showing every occurrence
+ */
+export const EMPTY_OCCURRENCE_FILTERS: OccurrenceFilters = {
+  crimeTypes: [],
+  severity: [],
+  period: undefined,
+};
+
+/**
+ * Start and end of the time window, null when no window is selected
+ */
+export const getFilterDateRange = (
+  period: OccurrenceFilters['period'],
+  now: number = Date.now(),
+): {startDate: string; endDate: string} | null => {
+  if (!period) {
+    return null;
+  }
+  return {
+    startDate: new Date(now - FILTER_PERIOD_DURATION[period]).toISOString(),
+    endDate: new Date(now).toISOString(),
+  };
+};
+
+/**
+ * Check whether an occurrence passes every selected filter.
+ * An empty selection doesn't filter anything.
+ */
+export const matchesOccurrenceFilters = (
+  occurrence: Occurrence,
+  filters: OccurrenceFilters,
+  now: number = Date.now(),
+): boolean => {
+  const {crimeTypes = [], severity = [], period} = filters;
+
+  if (crimeTypes.length && !crimeTypes.includes(String(occurrence.crimeType?.id))) {
+    return false;
+  }
+  if (severity.length && !severity.includes(occurrence.severity)) {
+    return false;
+  }
+  if (period) {
+    const time = new Date(occurrence.timestamp).getTime();
+    if (isNaN(time) || now - time > FILTER_PERIOD_DURATION[period]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Occurrences passing the selected filters, in their original order
+ */
+export const filterOccurrences = (
+  occurrences: Occurrence[],
+  filters: OccurrenceFilters,
+  now: number = Date.now(),
+): Occurrence[] =>
+  occurrences.filter(occurrence => matchesOccurrenceFilters(occurrence, filters, now));
+
+/**
+ * Number of filter groups with a selection, shown on the filter button
+ */
+export const countActiveFilters = (filters: OccurrenceFilters): number =>
+  [filters.crimeTypes?.length, filters.severity?.length, filters.period].filter(Boolean).length;
+
+/**
+ * Part of the filters the heatmap endpoint understands
+ */
+export const toHeatmapFilters = (filters: OccurrenceFilters): HeatmapFilters | undefined => {
+  if (!filters.crimeTypes?.length && !filters.period) {
+    return undefined;
+  }
+  return {crimeTypes: filters.crimeTypes, period: filters.period};
+};
@@ -0,0 +1,177 @@
+/**
+ * Occurrence Viewport
+ * Splits the map viewport into tiles so only newly revealed areas are fetched,
+ * and drops occurrences that are far from the viewport
+ */
+
+import {MapBounds, Occurrence} from '../types/models';
+import {
+  MapTile,
+  getTileKey,
+  getTileZoomForBounds,
+  getTilesForBounds,
+  tileToBounds,
+} from './mapTiles';
+import {isCoordinateWithinBounds} from './mapUtils';
+
+/**
+ * Tile zoom limits for occurrence requests.
+ * A tile at the minimum zoom still fits in the 50km search radius of the backend.
+ */
+export const MIN_OCCURRENCE_TILE_ZOOM = 11;
+export const MAX_OCCURRENCE_TILE_ZOOM = 15;
+
+/**
+ * Most tiles requested for a single viewport, the ones closest to its center win
+ */
+export const MAX_VIEWPORT_TILES = 16;
+
+/**
+ * Loaded tiles older than this are fetched again, like the heatmap tiles
+ */
+export const OCCURRENCE_TILE_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Occurrences and tiles further than this many viewport sizes away are evicted
+ */
+export const OCCURRENCE_EVICTION_MARGIN = 1;
+
+/**
+ * Tile zoom used to load a viewport, a few tiles across
+ */
+export const getOccurrenceTileZoom = (bounds: MapBounds): number =>
+  Math.min(
+    MAX_OCCURRENCE_TILE_ZOOM,
+    Math.max(MIN_OCCURRENCE_TILE_ZOOM, getTileZoomForBounds(bounds) + 1),
+  );
+
+/**
+ * Check whether a tile, or a larger tile containing it, was already loaded
+ */
+export const isTileLoaded = (tile: MapTile, loadedTiles: Set<string>): boolean => {
+  for (let zoom = tile.zoom; zoom >= MIN_OCCURRENCE_TILE_ZOOM; zoom--) {
+    const shift = tile.zoom - zoom;
+    if (loadedTiles.has(getTileKey({x: tile.x >> shift, y: tile.y >> shift, zoom}))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Tile address from its getTileKey key
+ */
+const parseTileKey = (key: string): MapTile => {
+  const [zoom, x, y] = key.split('/').map(Number);
+  return {x, y, zoom};
+};
+
+const getBoundsCenter = (bounds: MapBounds) => ({
+  latitude: (bounds.northEast.latitude + bounds.southWest.latitude) / 2,
+  longitude: (bounds.northEast.longitude + bounds.southWest.longitude) / 2,
+});
+
+/**
+ * Keys of the tiles loaded less than OCCURRENCE_TILE_TTL ago
+ */
+export const getFreshTiles = (
+  loadedTiles: Record<string, number>,
+  now: number = Date.now(),
+): Set<string> =>
+  new Set(Object.keys(loadedTiles).filter(key => now - loadedTiles[key] <= OCCURRENCE_TILE_TTL));
+
+/**
+ * Tiles of the viewport not loaded yet, closest to the center first.
+ * Callers request at most MAX_VIEWPORT_TILES of them.
+ */
+export const getMissingTiles = (bounds: MapBounds, loadedTiles: Set<string>): MapTile[] => {
+  const center = getBoundsCenter(bounds);
+  const distanceToCenter = (tile: MapTile) => {
+    const tileCenter = getBoundsCenter(tileToBounds(tile));
+    return Math.hypot(
+      tileCenter.latitude - center.latitude,
+      tileCenter.longitude - center.longitude,
+    );
+  };
+
+  return getTilesForBounds(bounds, getOccurrenceTileZoom(bounds))
+    .filter(tile => !isTileLoaded(tile, loadedTiles))
+    .sort((a, b) => distanceToCenter(a) - distanceToCenter(b));
+};
+
+/**
+ * Grow the bounds by the given number of viewport sizes on every side
+ */
+export const expandBounds = (bounds: MapBounds, margin: number): MapBounds => {
+  const latSpan = bounds.northEast.latitude - bounds.southWest.latitude;
+  const lngSpan = bounds.northEast.longitude - bounds.southWest.longitude;
+  return {
+    northEast: {
+      latitude: Math.min(90, bounds.northEast.latitude + latSpan * margin),
+      longitude: Math.min(180, bounds.northEast.longitude + lngSpan * margin),
+    },
+    southWest: {
+      latitude: Math.max(-90, bounds.southWest.latitude - latSpan * margin),
+      longitude: Math.max(-180, bounds.southWest.longitude - lngSpan * margin),
+    },
+  };
+};
+
+/**
+ * Check whether two bounds overlap
+ */
+export const boundsIntersect = (a: MapBounds, b: MapBounds): boolean =>
+  a.southWest.latitude <= b.northEast.latitude &&
+  b.southWest.latitude <= a.northEast.latitude &&
+  a.southWest.longitude <= b.northEast.longitude &&
+  b.southWest.longitude <= a.northEast.longitude;
+
+/**
+ * Merge loaded occurrences by id, newer data replacing what was in memory
+ */
+export const mergeOccurrences = (current: Occurrence[], loaded: Occurrence[]): Occurrence[] => {
+  const merged = new Map(current.map(occurrence => [occurrence.id, occurrence]));
+  loaded.forEach(occurrence => merged.set(occurrence.id, occurrence));
+  return Array.from(merged.values());
+};
+
+/**
+ * Put the occurrences just loaded for some tiles in place of the ones in memory
+ * inside those tiles, so reloading a tile also drops what is gone from the server
+ */
+export const replaceTileOccurrences = (
+  current: Occurrence[],
+  tileKeys: string[],
+  loaded: Occurrence[],
+): Occurrence[] => {
+  const areas = tileKeys.map(key => tileToBounds(parseTileKey(key)));
+  return mergeOccurrences(
+    current.filter(
+      occurrence => !areas.some(area => isCoordinateWithinBounds(occurrence.location, area)),
+    ),
+    loaded,
+  );
+};
+
+/**
+ * Drop the loaded tiles away from the area kept in memory, and the occurrences
+ * outside both that area and the tiles still loaded
+ */
+export const evictOutsideBounds = (
+  occurrences: Occurrence[],
+  loadedTiles: Record<string, number>,
+  keepBounds: MapBounds,
+): {occurrences: Occurrence[]; loadedTiles: Record<string, number>} => {
+  const keptTiles = Object.keys(loadedTiles)
+    .map(key => ({key, bounds: tileToBounds(parseTileKey(key))}))
+    .filter(tile => boundsIntersect(tile.bounds, keepBounds));
+  const keptAreas = [keepBounds, ...keptTiles.map(tile => tile.bounds)];
+
+  return {
+    // A loaded tile always keeps all of its occurrences, so it only needs fetching once stale
+    occurrences: occurrences.filter(occurrence =>
+      keptAreas.some(area => isCoordinateWithinBounds(occurrence.location, area)),
+    ),
+    loadedTiles: Object.fromEntries(keptTiles.map(tile => [tile.key, loadedTiles[tile.key]])),
+  };
+};
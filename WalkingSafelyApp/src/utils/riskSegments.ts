@@ -0,0 +1,155 @@
+/**
+ * Risk segments
+ * Groups the risk points a route passes close together into stretches, so a
+ * street with many occurrences raises one summarized alert instead of one each
+ */
+
+import {Coordinates, Occurrence} from '../types/models';
+import {alongTrackDistance, calculateDistance, distanceToPolyline} from './geo';
+import {RISK_ALERT_ROUTE_TOLERANCE, RISK_SEGMENT_GAP} from './navigationConstants';
+
+/** Stretch lengths are told in steps of this many meters */
+const SEGMENT_LENGTH_STEP = 50;
+
+/**
+ * Stretch of a route with risk points close together
+ */
+export interface RiskSegment {
+  id: string;
+  /** Occurrences in the order the route passes them */
+  occurrences: Occurrence[];
+  /** Distance along the route where the stretch starts, in meters */
+  start: number;
+  /** Distance along the route where the stretch ends, in meters */
+  end: number;
+}
+
+/**
+ * What a summarized alert tells about a stretch
+ */
+export interface RiskSegmentSummary {
+  count: number;
+  /** Most reported crime type */
+  crimeType: string;
+  crimeTypeId?: string;
+  /** Every occurrence is of crimeType */
+  singleType: boolean;
+  /** Meters from the user to the end of the stretch */
+  length: number;
+}
+
+/**
+ * Distance along a route to where a point is closest to it, and how far off
+ * the route the point is
+ */
+export const projectOntoRoute = (
+  point: Coordinates,
+  route: Coordinates[],
+  cumulative: number[],
+): {along: number; offset: number} => {
+  const {distance, segmentIndex} = distanceToPolyline(point, route);
+  if (route.length < 2) {
+    return {along: 0, offset: distance};
+  }
+  const segmentLength = cumulative[segmentIndex + 1] - cumulative[segmentIndex];
+  // Rounding can take the along-track distance out of acos' domain right at the line
+  const alongSegment = alongTrackDistance(point, route[segmentIndex], route[segmentIndex + 1]);
+  return {
+    along:
+      cumulative[segmentIndex] +
+      (Number.isFinite(alongSegment) ? Math.min(Math.max(alongSegment, 0), segmentLength) : 0),
+    offset: distance,
+  };
+};
+
+/**
+ * Group the occurrences near a route into risk segments. Occurrences further
+ * than RISK_ALERT_ROUTE_TOLERANCE from the route are left out, and those less
+ * than RISK_SEGMENT_GAP apart along it share a segment.
+ */
+export const buildRiskSegments = (
+  route: Coordinates[],
+  occurrences: Occurrence[],
+): RiskSegment[] => {
+  if (route.length < 2 || occurrences.length === 0) {
+    return [];
+  }
+
+  const cumulative = [0];
+  for (let i = 1; i < route.length; i++) {
+    cumulative.push(cumulative[i - 1] + calculateDistance(route[i - 1], route[i]));
+  }
+
+  const projected = occurrences
+    .map(occurrence => ({occurrence, ...projectOntoRoute(occurrence.location, route, cumulative)}))
+    .filter(item => item.offset <= RISK_ALERT_ROUTE_TOLERANCE)
+    .sort((a, b) => a.along - b.along);
+
+  const segments: RiskSegment[] = [];
+  for (const {occurrence, along} of projected) {
+    const current = segments[segments.length - 1];
+    if (current && along - current.end <= RISK_SEGMENT_GAP) {
+      current.occurrences.push(occurrence);
+      current.end = along;
+    } else {
+      segments.push({
+        id: `segment:${occurrence.id}`,
+        occurrences: [occurrence],
+        start: along,
+        end: along,
+      });
+    }
+  }
+  return segments;
+};
+
+/**
+ * Segment an occurrence belongs to, if any
+ */
+export const findRiskSegment = (
+  segments: RiskSegment[],
+  occurrenceId: string,
+): RiskSegment | undefined =>
+  segments.find(segment => segment.occurrences.some(occurrence => occurrence.id === occurrenceId));
+
+/**
+ * Summary of the occurrences of a stretch as seen from the user's position.
+ * The occurrences are expected in the order the route passes them.
+ */
+export const summarizeRiskSegment = (
+  occurrences: Occurrence[],
+  position: Coordinates,
+): RiskSegmentSummary => {
+  const counts = new Map<string, number>();
+  for (const occurrence of occurrences) {
+    counts.set(occurrence.crimeType.name, (counts.get(occurrence.crimeType.name) ?? 0) + 1);
+  }
+
+  // The map keeps the order types first appear in, and only a higher count
+  // replaces the pick, so ties go to the type the user reaches first
+  let crimeType = '';
+  let crimeTypeCount = 0;
+  for (const [name, count] of counts) {
+    if (count > crimeTypeCount) {
+      crimeType = name;
+      crimeTypeCount = count;
+    }
+  }
+
+  const dominant = occurrences.find(occurrence => occurrence.crimeType.name === crimeType);
+  const farthest = Math.max(
+    0,
+    ...occurrences.map(occurrence => calculateDistance(position, occurrence.location)),
+  );
+
+  return {
+    count: occurrences.length,
+    crimeType,
+    crimeTypeId: dominant?.crimeType.id,
+    singleType: counts.size === 1,
+    length: Math.max(
+      SEGMENT_LENGTH_STEP,
+      Math.ceil(farthest / SEGMENT_LENGTH_STEP) * SEGMENT_LENGTH_STEP,
+    ),
+  };
+};
@@ -0,0 +1,123 @@
+/**
+ * Risk zone evaluation
+ * Whether the area around the user is dangerous enough to warn about while
+ * they aren't navigating, and when to check and warn again
+ */
+
+import {Coordinates, MapBounds} from '../types/models';
+import {calculateDistance} from './geo';
+import {
+  RISK_HIGH_THRESHOLD,
+  RISK_ZONE_CHECK_DISTANCE,
+  RISK_ZONE_COOLDOWN,
+  RISK_ZONE_DENSITY_FULL_SCALE,
+  RISK_ZONE_MIN_ALERT_INTERVAL,
+  RISK_ZONE_RECHECK_INTERVAL,
+} from './constants';
+
+/** Size of the grid cells that name zones outside known regions, in degrees (about 500 m) */
+export const RISK_ZONE_GRID_SIZE = 0.005;
+
+/**
+ * Last check of the area around the user
+ */
+export interface RiskZoneCheck {
+  position: Coordinates;
+  checkedAt: number;
+}
+
+/**
+ * Alerts already raised, to hold back repeated ones
+ */
+export interface RiskZoneHistory {
+  lastAlertAt: number | null;
+  /** When each zone last alerted, by zone key */
+  zoneAlerts: Record<string, number>;
+}
+
+/**
+ * Score from 0 to 100 of how many occurrences the zone had
+ */
+export const getDensityScore = (occurrenceCount: number): number =>
+  Math.min(100, Math.round((Math.max(0, occurrenceCount) * 100) / RISK_ZONE_DENSITY_FULL_SCALE));
+
+/**
+ * Risk of a zone: its risk index or its occurrence density, whichever is higher
+ */
+export const getZoneRiskScore = (riskIndex: number | null, occurrenceCount: number): number =>
+  Math.max(riskIndex ?? 0, getDensityScore(occurrenceCount));
+
+/**
+ * Whether a zone risk score is worth an alert
+ */
+export const isHighRiskZone = (score: number): boolean => score >= RISK_HIGH_THRESHOLD;
+
+/**
+ * Key that names the zone of a position: its region, or the grid cell it falls in
+ */
+export const getZoneKey = (position: Coordinates, regionId: string | null = null): string => {
+  if (regionId) {
+    return `region:${regionId}`;
+  }
+  const row = Math.floor(position.latitude / RISK_ZONE_GRID_SIZE);
+  const column = Math.floor(position.longitude / RISK_ZONE_GRID_SIZE);
+  return `cell:${row}:${column}`;
+};
+
+/**
+ * Square bounds inside the circle of a radius around a point, so the search
+ * made from them doesn't reach past the radius
+ */
+export const boundsAround = (center: Coordinates, radius: number): MapBounds => {
+  const halfSide = radius / Math.SQRT2;
+  const latDelta = halfSide / 111000;
+  const lngDelta =
+    halfSide / (111000 * Math.max(Math.cos((center.latitude * Math.PI) / 180), 0.01));
+  return {
+    northEast: {latitude: center.latitude + latDelta, longitude: center.longitude + lngDelta},
+    southWest: {latitude: center.latitude - latDelta, longitude: center.longitude - lngDelta},
+  };
+};
+
+/**
+ * Whether the user moved far enough, or waited long enough, to check the
+ * area again. Keeps network and battery use low while walking around.
+ */
+export const shouldCheckZone = (
+  lastCheck: RiskZoneCheck | null,
+  position: Coordinates,
+  now: number,
+): boolean =>
+  lastCheck === null ||
+  calculateDistance(lastCheck.position, position) >= RISK_ZONE_CHECK_DISTANCE ||
+  now - lastCheck.checkedAt >= RISK_ZONE_RECHECK_INTERVAL;
+
+/**
+ * Whether a zone may alert now: it didn't alert within its cooldown and no
+ * other zone alerted moments ago
+ */
+export const canAlertZone = (history: RiskZoneHistory, zoneKey: string, now: number): boolean => {
+  if (history.lastAlertAt !== null && now - history.lastAlertAt < RISK_ZONE_MIN_ALERT_INTERVAL) {
+    return false;
+  }
+  const zoneAlertAt = history.zoneAlerts[zoneKey];
+  return zoneAlertAt === undefined || now - zoneAlertAt >= RISK_ZONE_COOLDOWN;
+};
+
+/**
+ * History after a zone alerted, forgetting zones whose cooldown is over
+ */
+export const recordZoneAlert = (
+  history: RiskZoneHistory,
+  zoneKey: string,
+  now: number,
+): RiskZoneHistory => {
+  const zoneAlerts: Record<string, number> = {};
+  for (const [key, alertedAt] of Object.entries(history.zoneAlerts)) {
+    if (now - alertedAt < RISK_ZONE_COOLDOWN) {
+      zoneAlerts[key] = alertedAt;
+    }
+  }
+  zoneAlerts[zoneKey] = now;
+  return {lastAlertAt: now, zoneAlerts};
+};
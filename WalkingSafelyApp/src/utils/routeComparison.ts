@@ -0,0 +1,75 @@
+/**
+ * Route Comparison Utilities
+ * Helpers for listing alternative routes side by side
+ */
+
+import {RouteOccurrence, RouteResponse} from '../types/models';
+import {ROUTE_OPTION_COLORS} from './navigationConstants';
+
+/**
+ * Best route for each criterion, by route id
+ */
+export interface RouteHighlights {
+  fastestId: string | null;
+  shortestId: string | null;
+  safestId: string | null;
+}
+
+/**
+ * Color used to draw the route at the given position in the list
+ */
+export const getRouteOptionColor = (index: number): string =>
+  ROUTE_OPTION_COLORS[index % ROUTE_OPTION_COLORS.length];
+
+/**
+ * Merge route lists, dropping routes that follow the same path.
+ * Route ids are generated per request, so the polyline identifies a path.
+ */
+export const mergeRouteOptions = (
+  ...groups: Array<Array<RouteResponse | null>>
+): RouteResponse[] => {
+  const seen = new Set<string>();
+  const merged: RouteResponse[] = [];
+
+  groups.flat().forEach(route => {
+    if (!route) {
+      return;
+    }
+    const key = route.polyline || route.id;
+    if (!seen.has(key)) {
+      seen.add(key);
+      merged.push(route);
+    }
+  });
+
+  return merged;
+};
+
+const findBest = (
+  routes: RouteResponse[],
+  compare: (a: RouteResponse, b: RouteResponse) => number,
+): string | null => (routes.length > 0 ? [...routes].sort(compare)[0].id : null);
+
+/**
+ * Find the fastest, shortest and safest route.
+ * Safety compares the average risk first, then the worst point on the route.
+ */
+export const getRouteHighlights = (routes: RouteResponse[]): RouteHighlights => ({
+  fastestId: findBest(routes, (a, b) => a.duration - b.duration),
+  shortestId: findBest(routes, (a, b) => a.distance - b.distance),
+  safestId: findBest(
+    routes,
+    (a, b) => a.averageRiskIndex - b.averageRiskIndex || a.maxRiskIndex - b.maxRiskIndex,
+  ),
+});
+
+/**
+ * Count occurrences along a route by severity
+ */
+export const countOccurrencesBySeverity = (
+  occurrences: RouteOccurrence[] = [],
+): Record<string, number> =>
+  occurrences.reduce<Record<string, number>>((counts, occurrence) => {
+    counts[occurrence.severity] = (counts[occurrence.severity] || 0) + 1;
+    return counts;
+  }, {});
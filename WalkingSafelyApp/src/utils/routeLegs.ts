@@ -0,0 +1,89 @@
+/**
+ * Route Leg Utilities
+ * Splits a multi-stop route into legs: leg N ends at stop N, the last leg ends
+ * at the destination
+ */
+
+import {Coordinates} from '../types/models';
+import {alongTrackDistance, calculateDistance, distanceToPolyline} from './geo';
+import {WAYPOINT_ARRIVAL_THRESHOLD} from './navigationConstants';
+
+/**
+ * Advance past every stop the position has reached.
+ * Stops are visited in order, so a stop is only checked once the previous one
+ * was reached.
+ */
+export const getNextLegIndex = (
+  position: Coordinates,
+  stops: Coordinates[],
+  legIndex: number,
+): number => {
+  let index = legIndex;
+  while (
+    index < stops.length &&
+    calculateDistance(position, stops[index]) <= WAYPOINT_ARRIVAL_THRESHOLD
+  ) {
+    index++;
+  }
+  return index;
+};
+
+/**
+ * Point the given leg ends at
+ */
+export const getLegTarget = (
+  stops: Coordinates[],
+  legIndex: number,
+  destination: Coordinates | null,
+): Coordinates | null => stops[legIndex] ?? destination;
+
+/**
+ * Distance from the start of the route to the point's projection on it (meters)
+ */
+const getDistanceFromRouteStart = (point: Coordinates, routeCoordinates: Coordinates[]): number => {
+  const {segmentIndex} = distanceToPolyline(point, routeCoordinates);
+  let distance = 0;
+  for (let i = 0; i < segmentIndex; i++) {
+    distance += calculateDistance(routeCoordinates[i], routeCoordinates[i + 1]);
+  }
+  const segmentEnd = routeCoordinates[segmentIndex + 1];
+  if (segmentEnd) {
+    const segmentLength = calculateDistance(routeCoordinates[segmentIndex], segmentEnd);
+    const alongTrack = alongTrackDistance(point, routeCoordinates[segmentIndex], segmentEnd);
+    distance += Math.min(segmentLength, Math.max(0, alongTrack));
+  }
+  return distance;
+};
+
+/**
+ * Distance left on the current leg (meters).
+ * Follows the route when the target lies ahead on it, otherwise falls back to
+ * the straight-line distance.
+ */
+export const getLegRemainingDistance = (
+  position: Coordinates,
+  target: Coordinates,
+  routeCoordinates: Coordinates[],
+): number => {
+  const straightLine = calculateDistance(position, target);
+  if (routeCoordinates.length < 2) {
+    return straightLine;
+  }
+  const alongRoute =
+    getDistanceFromRouteStart(target, routeCoordinates) -
+    getDistanceFromRouteStart(position, routeCoordinates);
+  return alongRoute > 0 ? Math.max(alongRoute, straightLine) : straightLine;
+};
+
+/**
+ * Move a stop to another position in the list, returning a new list
+ */
+export const moveStop = <T>(stops: T[], from: number, to: number): T[] => {
+  if (from < 0 || from >= stops.length || to < 0 || to >= stops.length || from === to) {
+    return stops;
+  }
+  const reordered = [...stops];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+};
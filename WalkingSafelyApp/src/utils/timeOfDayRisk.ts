@@ -0,0 +1,111 @@
+/**
+ * Time-of-day Risk
+ * Spreads a route's risk index over the hours of the day, weighting each
+ * occurrence along the route by how close its time of day is to each hour
+ */
+
+import {RouteOccurrence} from '../types/models';
+import {SEVERITY_LEVELS} from './severityLevels';
+
+/** Hours in the risk profile */
+export const HOURS_PER_DAY = 24;
+
+/** How far in time (hours) an occurrence still weighs on an hour */
+export const TIME_OF_DAY_SPREAD = 2;
+
+/** Weight of occurrences with an unknown severity (same as medium) */
+const DEFAULT_SEVERITY_WEIGHT = 2;
+
+/**
+ * Hours between two times of day, going around midnight when shorter
+ */
+export const getHourDistance = (a: number, b: number): number => {
+  const difference = Math.abs(a - b) % HOURS_PER_DAY;
+  return Math.min(difference, HOURS_PER_DAY - difference);
+};
+
+/**
+ * Weight of an occurrence at the given hour, 1 at the same time of day and
+ * falling off as the hours grow apart
+ */
+export const getTimeOfDayWeight = (occurrenceHour: number, hour: number): number => {
+  const distance = getHourDistance(occurrenceHour, hour);
+  return Math.exp(-(distance * distance) / (2 * TIME_OF_DAY_SPREAD * TIME_OF_DAY_SPREAD));
+};
+
+/**
+ * Local time of day of an occurrence in fractional hours, null when the timestamp is invalid
+ */
+export const getOccurrenceHour = (timestamp: string): number | null => {
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) {
+    return null;
+  }
+  return date.getHours() + date.getMinutes() / 60;
+};
+
+const getSeverityWeight = (severity: string): number =>
+  SEVERITY_LEVELS.find(level => level.value === severity)?.order ?? DEFAULT_SEVERITY_WEIGHT;
+
+/**
+ * Risk index (0-100) for each hour of the day.
+ * The hourly values average out to the route risk: hours when the occurrences
+ * along the route happened score above it, quiet hours below it. Without
+ * dated occurrences every hour gets the route risk.
+ *
+ * @param occurrences - Occurrences along the route
+ * @param riskIndex - Overall route risk (0-100)
+ */
+export const getHourlyRiskProfile = (
+  occurrences: RouteOccurrence[] = [],
+  riskIndex: number,
+): number[] => {
+  const scores = new Array<number>(HOURS_PER_DAY).fill(0);
+
+  occurrences.forEach(occurrence => {
+    const occurrenceHour = getOccurrenceHour(occurrence.timestamp);
+    if (occurrenceHour === null) {
+      return;
+    }
+    const severityWeight = getSeverityWeight(occurrence.severity);
+    for (let hour = 0; hour < HOURS_PER_DAY; hour++) {
+      scores[hour] += severityWeight * getTimeOfDayWeight(occurrenceHour, hour);
+    }
+  });
+
+  const mean = scores.reduce((sum, score) => sum + score, 0) / HOURS_PER_DAY;
+  if (mean === 0) {
+    return scores.map(() => riskIndex);
+  }
+  return scores.map(score => Math.min(100, Math.max(0, Math.round((riskIndex * score) / mean))));
+};
+
+/**
+ * Hour with the lowest risk, preferring the hours closest to `fromHour`
+ */
+export const getSafestHour = (profile: number[], fromHour: number): number => {
+  let safest = fromHour;
+  for (let offset = 0; offset < profile.length; offset++) {
+    const hour = (fromHour + offset) % profile.length;
+    if (profile[hour] < profile[safest]) {
+      safest = hour;
+    }
+  }
+  return safest;
+};
+
+/**
+ * Next time the clock reaches the start of the given hour, or the current
+ * time when it is that hour already
+ */
+export const getNextDepartureTime = (hour: number, now: Date = new Date()): Date => {
+  if (now.getHours() === hour) {
+    return now;
+  }
+  const departure = new Date(now);
+  departure.setHours(hour, 0, 0, 0);
+  if (departure.getTime() < now.getTime()) {
+    departure.setDate(departure.getDate() + 1);
+  }
+  return departure;
+};
@@ -39,13 +39,15 @@ public function calculateRoute(
      * @param Coordinates $origin Starting point coordinates
      * @param Coordinates $destination Ending point coordinates
      * @param int $count Maximum number of alternative routes to return
+     * @param RouteOptions|null $options Optional route calculation options
      * @return Route[] Array of alternative routes
      * @throws \App\Exceptions\MapProviderException When the provider fails to calculate routes
      */
     public function calculateAlternativeRoutes(
         Coordinates $origin,
         Coordinates $destination,
-        int $count = 3
+        int $count = 3,
+        ?RouteOptions $options = null
     ): array;
 
     /**
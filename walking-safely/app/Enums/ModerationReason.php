@@ -10,6 +10,7 @@ enum ModerationReason: string
     case SUSPICIOUS_LOCATION = 'suspicious_location';
     case HIGH_FREQUENCY = 'high_frequency';
     case DUPLICATE_CONTENT = 'duplicate_content';
+    case LOW_CONFIDENCE = 'low_confidence';
 
     /**
      * Get all valid reason values.
@@ -34,6 +35,7 @@ public function getPriority(): int
             self::SUSPICIOUS_LOCATION => 5,
             self::DUPLICATE_CONTENT => 4,
             self::USER_REPORTED => 3,
+            self::LOW_CONFIDENCE => 2,
         };
     }
 
@@ -49,6 +51,23 @@ public function getDescription(): string
             self::SUSPICIOUS_LOCATION => 'Suspicious location pattern',
             self::HIGH_FREQUENCY => 'High frequency of reports from user',
             self::DUPLICATE_CONTENT => 'Duplicate or similar content detected',
+            self::LOW_CONFIDENCE => 'Report was never corroborated',
+        };
+    }
+
+    /**
+     * Get a short label for the reason.
+     */
+    public function getLabel(): string
+    {
+        return match ($this) {
+            self::ANOMALY_DETECTED => 'Anomaly',
+            self::USER_REPORTED => 'User report',
+            self::ABUSE_PATTERN => 'Abuse pattern',
+            self::SUSPICIOUS_LOCATION => 'Suspicious location',
+            self::HIGH_FREQUENCY => 'High frequency',
+            self::DUPLICATE_CONTENT => 'Duplicate',
+            self::LOW_CONFIDENCE => 'Low confidence',
         };
     }
 }
@@ -8,6 +8,7 @@ enum OccurrenceStatus: string
     case EXPIRED = 'expired';
     case REJECTED = 'rejected';
     case MERGED = 'merged';
+    case WITHDRAWN = 'withdrawn';
 
     /**
      * Get all valid status values.
@@ -129,4 +129,17 @@ public static function geocodeNotFound(string $provider, string $address): self
             isRetryable: false
         );
     }
+
+    /**
+     * Create exception for route options a provider can't handle.
+     */
+    public static function unsupportedOption(string $provider, string $option): self
+    {
+        return new self(
+            message: "{$provider} does not support the route option '{$option}'",
+            provider: $provider,
+            errorCode: 'UNSUPPORTED_OPTION',
+            isRetryable: false
+        );
+    }
 }
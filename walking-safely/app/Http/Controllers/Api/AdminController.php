@@ -6,12 +6,16 @@
 use App\Http\Requests\UpdateCrimeCategoryRequest;
 use App\Http\Requests\UpdateTranslationRequest;
 use App\Http\Requests\ModerationActionRequest;
+use App\Http\Requests\MergeModerationRequest;
+use App\Http\Requests\RecategorizeModerationRequest;
 use App\Http\Resources\ModerationQueueResource;
 use App\Http\Resources\CrimeCategoryResource;
+use App\Http\Resources\OccurrenceResource;
 use App\Http\Resources\TranslationResource;
 use App\Models\AuditLog;
 use App\Models\CrimeCategory;
 use App\Models\ModerationQueue;
+use App\Models\Occurrence;
 use App\Models\Translation;
 use App\Services\I18nService;
 use App\Services\ModerationService;
@@ -225,6 +229,179 @@ public function rejectModeration(ModerationActionRequest $request, int $id): Jso
         ]);
     }
 
+    /**
+     * Change the crime type of a flagged occurrence.
+     *
+     * @OA\Post(
+     *     path="/admin/moderation/{id}/recategorize",
+     *     operationId="recategorizeModeration",
+     *     tags={"Admin"},
+     *     summary="Recategorizar ocorrência",
+     *     description="Altera o tipo de crime da ocorrência sinalizada e encerra o item de moderação",
+     *     security={{"bearerAuth":{}}},
+     *     @OA\Parameter(
+     *         name="id",
+     *         in="path",
+     *         required=true,
+     *         description="ID do item de moderação",
+     *         @OA\Schema(type="integer")
+     *     ),
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\JsonContent(
+     *             required={"crime_type_id"},
+     *             @OA\Property(property="crime_type_id", type="integer", example=2),
+     *             @OA\Property(property="notes", type="string", nullable=true, example="Era furto, não roubo")
+     *         )
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Ocorrência recategorizada",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="data", ref="#/components/schemas/ModerationItem"),
+     *             @OA\Property(property="message", type="string")
+     *         )
+     *     ),
+     *     @OA\Response(response=401, description="Não autenticado"),
+     *     @OA\Response(response=403, description="Sem permissão"),
+     *     @OA\Response(response=404, description="Item não encontrado"),
+     *     @OA\Response(response=422, description="Tipo de crime inválido")
+     * )
+     *
+     * @see Requirement 14.2 - Record moderation decision with timestamp and moderator
+     */
+    public function recategorizeModeration(RecategorizeModerationRequest $request, int $id): JsonResponse
+    {
+        $this->authorizeAdmin($request);
+
+        $item = ModerationQueue::pending()->findOrFail($id);
+        $validated = $request->validated();
+
+        $this->moderationService->recategorize(
+            $item,
+            $request->user(),
+            (int) $validated['crime_type_id'],
+            $validated['notes'] ?? null
+        );
+
+        return response()->json([
+            'data' => new ModerationQueueResource($item->fresh(['occurrence.crimeType'])),
+            'message' => __('messages.moderation_recategorized'),
+        ]);
+    }
+
+    /**
+     * List reports a flagged occurrence may duplicate.
+     *
+     * @OA\Get(
+     *     path="/admin/moderation/{id}/duplicates",
+     *     operationId="getModerationDuplicates",
+     *     tags={"Admin"},
+     *     summary="Possíveis duplicatas",
+     *     description="Retorna ocorrências ativas próximas no tempo e no espaço da ocorrência sinalizada",
+     *     security={{"bearerAuth":{}}},
+     *     @OA\Parameter(
+     *         name="id",
+     *         in="path",
+     *         required=true,
+     *         description="ID do item de moderação",
+     *         @OA\Schema(type="integer")
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Possíveis duplicatas",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="data", type="array", @OA\Items(ref="#/components/schemas/Occurrence"))
+     *         )
+     *     ),
+     *     @OA\Response(response=401, description="Não autenticado"),
+     *     @OA\Response(response=403, description="Sem permissão"),
+     *     @OA\Response(response=404, description="Item não encontrado")
+     * )
+     */
+    public function getModerationDuplicates(Request $request, int $id): JsonResponse
+    {
+        $this->authorizeAdmin($request);
+
+        $item = ModerationQueue::with('occurrence')->findOrFail($id);
+
+        return response()->json([
+            'data' => OccurrenceResource::collection(
+                $this->moderationService->findDuplicateCandidates($item->occurrence)
+            ),
+        ]);
+    }
+
+    /**
+     * Merge a flagged occurrence into the report it duplicates.
+     *
+     * @OA\Post(
+     *     path="/admin/moderation/{id}/merge",
+     *     operationId="mergeModeration",
+     *     tags={"Admin"},
+     *     summary="Mesclar duplicata",
+     *     description="Mescla a ocorrência sinalizada em outra ocorrência e encerra o item de moderação",
+     *     security={{"bearerAuth":{}}},
+     *     @OA\Parameter(
+     *         name="id",
+     *         in="path",
+     *         required=true,
+     *         description="ID do item de moderação",
+     *         @OA\Schema(type="integer")
+     *     ),
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\JsonContent(
+     *             required={"target_occurrence_id"},
+     *             @OA\Property(property="target_occurrence_id", type="integer", example=120),
+     *             @OA\Property(property="notes", type="string", nullable=true, example="Mesmo assalto reportado duas vezes")
+     *         )
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Ocorrência mesclada",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="data", ref="#/components/schemas/ModerationItem"),
+     *             @OA\Property(property="message", type="string")
+     *         )
+     *     ),
+     *     @OA\Response(response=401, description="Não autenticado"),
+     *     @OA\Response(response=403, description="Sem permissão"),
+     *     @OA\Response(response=404, description="Item não encontrado"),
+     *     @OA\Response(response=422, description="Ocorrência de destino inválida")
+     * )
+     *
+     * @see Requirement 14.2 - Record moderation decision with timestamp and moderator
+     */
+    public function mergeModeration(MergeModerationRequest $request, int $id): JsonResponse
+    {
+        $this->authorizeAdmin($request);
+
+        $item = ModerationQueue::pending()->findOrFail($id);
+        $validated = $request->validated();
+
+        $target = Occurrence::active()->find($validated['target_occurrence_id']);
+
+        if (!$target || $target->id === $item->occurrence_id) {
+            return response()->json([
+                'error' => 'invalid_merge_target',
+                'message' => __('messages.moderation_merge_invalid'),
+            ], 422);
+        }
+
+        $this->moderationService->mergeDuplicate(
+            $item,
+            $request->user(),
+            $target,
+            $validated['notes'] ?? null
+        );
+
+        return response()->json([
+            'data' => new ModerationQueueResource($item->fresh(['occurrence.crimeType'])),
+            'message' => __('messages.moderation_merged'),
+        ]);
+    }
+
     /*
     |--------------------------------------------------------------------------
     | Taxonomy Endpoints
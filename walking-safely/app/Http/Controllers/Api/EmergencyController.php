@@ -0,0 +1,182 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Http\Requests\SendSosRequest;
+use App\Http\Requests\StoreTrustedContactRequest;
+use App\Http\Resources\TrustedContactResource;
+use App\Services\EmergencyService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+/**
+ * Controller for trusted contacts and SOS alerts.
+ */
+class EmergencyController extends Controller
+{
+    public function __construct(
+        private EmergencyService $emergencyService
+    ) {}
+
+    /**
+     * List the authenticated user's trusted contacts.
+     *
+     * @OA\Get(
+     *     path="/emergency/contacts",
+     *     operationId="listTrustedContacts",
+     *     tags={"Emergency"},
+     *     summary="Listar contatos de confiança",
+     *     @OA\Response(
+     *         response=200,
+     *         description="Contatos de confiança",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="data", type="array", @OA\Items(
+     *                 @OA\Property(property="id", type="integer", example=1),
+     *                 @OA\Property(property="name", type="string", example="Ana"),
+     *                 @OA\Property(property="phone", type="string", example="+55 11 98765-4321"),
+     *                 @OA\Property(property="email", type="string", nullable=true, example="ana@example.com")
+     *             ))
+     *         )
+     *     )
+     * )
+     */
+    public function contacts(Request $request): JsonResponse
+    {
+        $contacts = $request->user()->trustedContacts()->orderBy('created_at')->get();
+
+        return response()->json([
+            'data' => TrustedContactResource::collection($contacts),
+        ]);
+    }
+
+    /**
+     * Add a trusted contact.
+     *
+     * @OA\Post(
+     *     path="/emergency/contacts",
+     *     operationId="storeTrustedContact",
+     *     tags={"Emergency"},
+     *     summary="Adicionar contato de confiança",
+     *     description="Contatos com e-mail recebem os alertas SOS por e-mail",
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\JsonContent(
+     *             required={"name", "phone"},
+     *             @OA\Property(property="name", type="string", maxLength=100),
+     *             @OA\Property(property="phone", type="string", maxLength=20),
+     *             @OA\Property(property="email", type="string", format="email", nullable=true)
+     *         )
+     *     ),
+     *     @OA\Response(response=201, description="Contato adicionado"),
+     *     @OA\Response(response=422, description="Dados inválidos ou limite de contatos atingido", @OA\JsonContent(ref="#/components/schemas/Error"))
+     * )
+     */
+    public function storeContact(StoreTrustedContactRequest $request): JsonResponse
+    {
+        $user = $request->user();
+
+        if (!$this->emergencyService->canAddContact($user->trustedContacts()->count())) {
+            return response()->json([
+                'error' => 'contact_limit_reached',
+                'message' => __('messages.trusted_contact_limit', ['max' => EmergencyService::MAX_TRUSTED_CONTACTS]),
+            ], 422);
+        }
+
+        $contact = $this->emergencyService->addContact($user, $request->validated());
+
+        return response()->json([
+            'data' => new TrustedContactResource($contact),
+            'message' => __('messages.trusted_contact_created'),
+        ], 201);
+    }
+
+    /**
+     * Remove a trusted contact.
+     *
+     * @OA\Delete(
+     *     path="/emergency/contacts/{id}",
+     *     operationId="destroyTrustedContact",
+     *     tags={"Emergency"},
+     *     summary="Remover contato de confiança",
+     *     @OA\Parameter(name="id", in="path", required=true, @OA\Schema(type="integer")),
+     *     @OA\Response(response=200, description="Contato removido"),
+     *     @OA\Response(response=404, description="Contato não encontrado", @OA\JsonContent(ref="#/components/schemas/Error"))
+     * )
+     */
+    public function destroyContact(Request $request, string $id): JsonResponse
+    {
+        $contact = $request->user()->trustedContacts()->find((int) $id);
+
+        if (!$contact) {
+            return response()->json([
+                'error' => 'not_found',
+                'message' => __('messages.trusted_contact_not_found'),
+            ], 404);
+        }
+
+        $contact->delete();
+
+        return response()->json([
+            'message' => __('messages.trusted_contact_deleted'),
+        ]);
+    }
+
+    /**
+     * Send an SOS alert to every trusted contact.
+     *
+     * @OA\Post(
+     *     path="/emergency/sos",
+     *     operationId="sendSos",
+     *     tags={"Emergency"},
+     *     summary="Enviar alerta SOS",
+     *     description="Avisa os contatos de confiança com a localização e o destino do usuário. Reenviar o mesmo alerta (mesmo timestamp) não avisa os contatos de novo.",
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\JsonContent(
+     *             required={"latitude", "longitude", "timestamp"},
+     *             @OA\Property(property="latitude", type="number", example=-23.5505),
+     *             @OA\Property(property="longitude", type="number", example=-46.6333),
+     *             @OA\Property(property="destination", type="object", nullable=true,
+     *                 @OA\Property(property="latitude", type="number"),
+     *                 @OA\Property(property="longitude", type="number")
+     *             ),
+     *             @OA\Property(property="timestamp", type="string", format="date-time"),
+     *             @OA\Property(property="reason", type="string", enum={"sos", "missed_check_in"})
+     *         )
+     *     ),
+     *     @OA\Response(
+     *         response=201,
+     *         description="Alerta registrado",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="data", type="object",
+     *                 @OA\Property(property="id", type="integer", example=1),
+     *                 @OA\Property(property="notified_contacts", type="integer", example=2)
+     *             )
+     *         )
+     *     ),
+     *     @OA\Response(response=422, description="Nenhum contato cadastrado", @OA\JsonContent(ref="#/components/schemas/Error"))
+     * )
+     */
+    public function sos(SendSosRequest $request): JsonResponse
+    {
+        $user = $request->user();
+
+        if (!$user->trustedContacts()->exists()) {
+            return response()->json([
+                'error' => 'no_trusted_contacts',
+                'message' => __('messages.sos_no_contacts'),
+            ], 422);
+        }
+
+        $alert = $this->emergencyService->sendSos($user, $request->validated());
+
+        return response()->json([
+            'data' => [
+                'id' => $alert->id,
+                'notified_contacts' => $alert->notified_contacts,
+            ],
+            'message' => __('messages.sos_sent'),
+        ], 201);
+    }
+}
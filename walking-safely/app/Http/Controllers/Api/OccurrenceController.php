@@ -5,12 +5,17 @@
 use App\Http\Controllers\Controller;
 use App\Http\Requests\CreateOccurrenceRequest;
 use App\Http\Requests\ListOccurrencesRequest;
+use App\Http\Requests\StoreOccurrenceAttachmentRequest;
+use App\Http\Requests\UpdateOccurrenceRequest;
+use App\Http\Requests\VoteOccurrenceRequest;
+use App\Http\Resources\OccurrenceAttachmentResource;
 use App\Http\Resources\OccurrenceResource;
 use App\Http\Resources\OccurrenceCollection;
 use App\Models\Occurrence;
 use App\Services\OccurrenceService;
 use App\ValueObjects\Coordinates;
 use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
 
 /**
  * Controller for occurrence management.
@@ -173,6 +178,7 @@ public function index(ListOccurrencesRequest $request): JsonResponse
      *             @OA\Property(property="crime_type_id", type="integer", example=1),
      *             @OA\Property(property="severity", type="string", enum={"low", "medium", "high", "critical"}, example="medium"),
      *             @OA\Property(property="timestamp", type="string", format="date-time", example="2025-01-05T10:30:00Z"),
+     *             @OA\Property(property="is_anonymous", type="boolean", example=false, description="Oculta o autor nas respostas públicas; o reporte continua contando no limite do usuário"),
      *             @OA\Property(
      *                 property="user_location",
      *                 type="object",
@@ -233,6 +239,7 @@ public function store(CreateOccurrenceRequest $request): JsonResponse
                     'timestamp' => $validated['timestamp'] ?? now(),
                     'source' => 'collaborative',
                     'created_by' => $request->user()?->id,
+                    'is_anonymous' => $validated['is_anonymous'] ?? false,
                     'metadata' => $validated['metadata'] ?? null,
                 ],
                 $userLocation
@@ -260,6 +267,292 @@ public function store(CreateOccurrenceRequest $request): JsonResponse
         }
     }
 
+    /**
+     * List the occurrences reported by the authenticated user.
+     *
+     * @OA\Get(
+     *     path="/occurrences/mine",
+     *     operationId="listMyOccurrences",
+     *     tags={"Occurrences"},
+     *     summary="Listar meus reportes",
+     *     description="Retorna os reportes do usuário autenticado, inclusive anônimos e retirados, com status de moderação e confirmações",
+     *     @OA\Parameter(
+     *         name="per_page",
+     *         in="query",
+     *         description="Itens por página (padrão: 15)",
+     *         @OA\Schema(type="integer", minimum=1, maximum=100)
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Reportes do usuário",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="data", type="array", @OA\Items(ref="#/components/schemas/Occurrence"))
+     *         )
+     *     )
+     * )
+     */
+    public function mine(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'per_page' => ['sometimes', 'integer', 'min:1', 'max:100'],
+        ]);
+
+        $occurrences = Occurrence::query()
+            ->where('created_by', $request->user()->id)
+            ->with(['crimeType', 'moderationQueues'])
+            ->withCount(OccurrenceService::voteCounts())
+            ->orderBy('created_at', 'desc')
+            ->paginate($validated['per_page'] ?? 15);
+
+        return response()->json(new OccurrenceCollection($occurrences));
+    }
+
+    /**
+     * Edit an occurrence reported by the authenticated user.
+     *
+     * @OA\Patch(
+     *     path="/occurrences/{id}",
+     *     operationId="updateOccurrence",
+     *     tags={"Occurrences"},
+     *     summary="Editar ocorrência",
+     *     description="Altera tipo, severidade ou descrição de um reporte próprio até 30 minutos após o envio",
+     *     @OA\Parameter(name="id", in="path", required=true, @OA\Schema(type="integer")),
+     *     @OA\RequestBody(
+     *         @OA\JsonContent(
+     *             @OA\Property(property="crime_type_id", type="integer", example=1),
+     *             @OA\Property(property="severity", type="string", enum={"low", "medium", "high", "critical"}),
+     *             @OA\Property(property="metadata", type="object", @OA\Property(property="description", type="string", maxLength=500))
+     *         )
+     *     ),
+     *     @OA\Response(response=200, description="Ocorrência atualizada"),
+     *     @OA\Response(response=403, description="Reporte de outro usuário ou fora do prazo de edição", @OA\JsonContent(ref="#/components/schemas/Error")),
+     *     @OA\Response(response=404, description="Ocorrência não encontrada", @OA\JsonContent(ref="#/components/schemas/Error"))
+     * )
+     */
+    public function update(UpdateOccurrenceRequest $request, string $id): JsonResponse
+    {
+        $occurrence = Occurrence::find((int) $id);
+
+        if (!$occurrence) {
+            return response()->json([
+                'error' => 'not_found',
+                'message' => __('messages.occurrence_not_found'),
+            ], 404);
+        }
+
+        if (!$this->occurrenceService->canUserEdit($occurrence, $request->user()->id)) {
+            return response()->json([
+                'error' => 'edit_window_expired',
+                'message' => __('messages.occurrence_edit_forbidden'),
+            ], 403);
+        }
+
+        $occurrence = $this->occurrenceService->updateOccurrence($occurrence, $request->validated());
+
+        return response()->json([
+            'data' => new OccurrenceResource($occurrence),
+            'message' => __('messages.occurrence_updated'),
+        ]);
+    }
+
+    /**
+     * Withdraw an occurrence reported by the authenticated user.
+     *
+     * @OA\Post(
+     *     path="/occurrences/{id}/withdraw",
+     *     operationId="withdrawOccurrence",
+     *     tags={"Occurrences"},
+     *     summary="Retirar ocorrência",
+     *     description="Remove um reporte próprio do mapa, mantendo-o no histórico do usuário",
+     *     @OA\Parameter(name="id", in="path", required=true, @OA\Schema(type="integer")),
+     *     @OA\Response(response=200, description="Ocorrência retirada"),
+     *     @OA\Response(response=403, description="Não autorizado a retirar esta ocorrência", @OA\JsonContent(ref="#/components/schemas/Error")),
+     *     @OA\Response(response=404, description="Ocorrência não encontrada", @OA\JsonContent(ref="#/components/schemas/Error"))
+     * )
+     */
+    public function withdraw(Request $request, string $id): JsonResponse
+    {
+        $occurrence = Occurrence::find((int) $id);
+
+        if (!$occurrence) {
+            return response()->json([
+                'error' => 'not_found',
+                'message' => __('messages.occurrence_not_found'),
+            ], 404);
+        }
+
+        if ($occurrence->created_by !== $request->user()->id) {
+            return response()->json([
+                'error' => 'forbidden',
+                'message' => __('messages.occurrence_delete_forbidden'),
+            ], 403);
+        }
+
+        $occurrence = $this->occurrenceService->withdrawOccurrence($occurrence);
+
+        return response()->json([
+            'data' => new OccurrenceResource($occurrence),
+            'message' => __('messages.occurrence_withdrawn'),
+        ]);
+    }
+
+    /**
+     * Confirm or dispute an occurrence, once per user.
+     *
+     * @OA\Post(
+     *     path="/occurrences/{id}/votes",
+     *     operationId="voteOccurrence",
+     *     tags={"Occurrences"},
+     *     summary="Votar em ocorrência",
+     *     description="Confirma ou contesta um reporte de outro usuário. Cada usuário vota uma vez por ocorrência e o índice de confiança é recalculado",
+     *     @OA\Parameter(name="id", in="path", required=true, @OA\Schema(type="integer")),
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\JsonContent(
+     *             required={"vote"},
+     *             @OA\Property(property="vote", type="string", enum={"confirm", "dispute"})
+     *         )
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Voto registrado",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="data", type="object",
+     *                 @OA\Property(property="confidence_score", type="integer", example=3),
+     *                 @OA\Property(property="confirmations_count", type="integer", example=2),
+     *                 @OA\Property(property="disputes_count", type="integer", example=0),
+     *                 @OA\Property(property="user_vote", type="string", enum={"confirm", "dispute"})
+     *             ),
+     *             @OA\Property(property="message", type="string")
+     *         )
+     *     ),
+     *     @OA\Response(response=403, description="Reporte próprio ou ocorrência inativa", @OA\JsonContent(ref="#/components/schemas/Error")),
+     *     @OA\Response(response=404, description="Ocorrência não encontrada", @OA\JsonContent(ref="#/components/schemas/Error")),
+     *     @OA\Response(response=409, description="Usuário já votou nesta ocorrência", @OA\JsonContent(ref="#/components/schemas/Error")),
+     *     @OA\Response(response=422, description="Erro de validação", @OA\JsonContent(ref="#/components/schemas/ValidationError"))
+     * )
+     */
+    public function vote(VoteOccurrenceRequest $request, string $id): JsonResponse
+    {
+        $occurrence = Occurrence::find((int) $id);
+
+        if (!$occurrence) {
+            return response()->json([
+                'error' => 'not_found',
+                'message' => __('messages.occurrence_not_found'),
+            ], 404);
+        }
+
+        $userId = $request->user()->id;
+
+        if (!$this->occurrenceService->canUserVote($occurrence, $userId)) {
+            return response()->json([
+                'error' => 'vote_forbidden',
+                'message' => __('messages.occurrence_vote_forbidden'),
+            ], 403);
+        }
+
+        $occurrence = $this->occurrenceService->voteOccurrence($occurrence, $userId, $request->validated('vote'));
+
+        if (!$occurrence) {
+            return response()->json([
+                'error' => 'already_voted',
+                'message' => __('messages.occurrence_already_voted'),
+            ], 409);
+        }
+
+        return response()->json([
+            'data' => [
+                'confidence_score' => $occurrence->confidence_score,
+                'confirmations_count' => $occurrence->confirmations_count,
+                'disputes_count' => $occurrence->disputes_count,
+                'user_vote' => $occurrence->user_vote,
+            ],
+            'message' => __('messages.occurrence_voted'),
+        ]);
+    }
+
+    /**
+     * Upload a photo or voice note as evidence for a report.
+     *
+     * @OA\Post(
+     *     path="/occurrences/{id}/attachments",
+     *     operationId="storeOccurrenceAttachment",
+     *     tags={"Occurrences"},
+     *     summary="Enviar anexo de ocorrência",
+     *     description="Envia uma foto ou nota de voz como evidência de um reporte próprio, dentro da janela de edição. Até 3 fotos e 1 nota de voz por ocorrência",
+     *     @OA\Parameter(name="id", in="path", required=true, @OA\Schema(type="integer")),
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\MediaType(
+     *             mediaType="multipart/form-data",
+     *             @OA\Schema(
+     *                 required={"type", "file"},
+     *                 @OA\Property(property="type", type="string", enum={"photo", "audio"}),
+     *                 @OA\Property(property="file", type="string", format="binary", description="JPEG/PNG ou áudio M4A, até 10 MB"),
+     *                 @OA\Property(property="duration_ms", type="integer", description="Duração da nota de voz, obrigatória para áudio", example=12000)
+     *             )
+     *         )
+     *     ),
+     *     @OA\Response(
+     *         response=201,
+     *         description="Anexo enviado",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="data", type="object",
+     *                 @OA\Property(property="id", type="integer", example=1),
+     *                 @OA\Property(property="type", type="string", enum={"photo", "audio"}),
+     *                 @OA\Property(property="url", type="string", example="https://api.example.com/storage/occurrences/42/foto.jpg"),
+     *                 @OA\Property(property="mime_type", type="string", example="image/jpeg"),
+     *                 @OA\Property(property="size", type="integer", example=245000),
+     *                 @OA\Property(property="duration_ms", type="integer", nullable=true)
+     *             ),
+     *             @OA\Property(property="message", type="string")
+     *         )
+     *     ),
+     *     @OA\Response(response=403, description="Reporte de outro usuário ou fora da janela de edição", @OA\JsonContent(ref="#/components/schemas/Error")),
+     *     @OA\Response(response=404, description="Ocorrência não encontrada", @OA\JsonContent(ref="#/components/schemas/Error")),
+     *     @OA\Response(response=409, description="Limite de anexos do tipo atingido", @OA\JsonContent(ref="#/components/schemas/Error")),
+     *     @OA\Response(response=422, description="Erro de validação", @OA\JsonContent(ref="#/components/schemas/ValidationError"))
+     * )
+     */
+    public function storeAttachment(StoreOccurrenceAttachmentRequest $request, string $id): JsonResponse
+    {
+        $occurrence = Occurrence::find((int) $id);
+
+        if (!$occurrence) {
+            return response()->json([
+                'error' => 'not_found',
+                'message' => __('messages.occurrence_not_found'),
+            ], 404);
+        }
+
+        if (!$this->occurrenceService->canUserAttach($occurrence, $request->user()->id)) {
+            return response()->json([
+                'error' => 'attachment_forbidden',
+                'message' => __('messages.occurrence_attachment_forbidden'),
+            ], 403);
+        }
+
+        $attachment = $this->occurrenceService->addAttachment(
+            $occurrence,
+            $request->file('file'),
+            $request->validated('type'),
+            $request->validated('duration_ms')
+        );
+
+        if (!$attachment) {
+            return response()->json([
+                'error' => 'attachment_limit',
+                'message' => __('messages.occurrence_attachment_limit'),
+            ], 409);
+        }
+
+        return response()->json([
+            'data' => new OccurrenceAttachmentResource($attachment),
+            'message' => __('messages.occurrence_attachment_uploaded'),
+        ], 201);
+    }
+
     /**
      * Get a specific occurrence.
      *
@@ -290,7 +583,7 @@ public function store(CreateOccurrenceRequest $request): JsonResponse
      *     )
      * )
      */
-    public function show(string $id): JsonResponse
+    public function show(Request $request, string $id): JsonResponse
     {
         $occurrence = $this->occurrenceService->getOccurrence((int) $id);
 
@@ -301,6 +594,9 @@ public function show(string $id): JsonResponse
             ], 404);
         }
 
+        $occurrence = $this->occurrenceService->loadVotes($occurrence, $request->user()->id);
+        $occurrence->load('attachments');
+
         return response()->json([
             'data' => new OccurrenceResource($occurrence),
         ]);
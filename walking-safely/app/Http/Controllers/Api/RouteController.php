@@ -5,10 +5,12 @@
 use App\Http\Controllers\Controller;
 use App\Http\Requests\CalculateRouteRequest;
 use App\Http\Requests\RecalculateRouteRequest;
+use App\Http\Resources\OccurrenceResource;
 use App\Http\Resources\RouteWithRiskResource;
 use App\Http\Resources\RouteRecalculationResource;
 use App\Services\RouteService;
 use App\ValueObjects\Coordinates;
+use App\ValueObjects\RouteOptions;
 use Illuminate\Http\JsonResponse;
 
 /**
@@ -51,6 +53,19 @@ public function __construct(
      *                 @OA\Property(property="latitude", type="number", format="float", example=-23.5629),
      *                 @OA\Property(property="longitude", type="number", format="float", example=-46.6544)
      *             ),
+     *             @OA\Property(
+     *                 property="waypoints",
+     *                 type="array",
+     *                 maxItems=5,
+     *                 description="Paradas intermediárias, visitadas na ordem informada",
+     *                 @OA\Items(
+     *                     type="object",
+     *                     required={"latitude", "longitude"},
+     *                     @OA\Property(property="latitude", type="number", format="float", example=-23.5580),
+     *                     @OA\Property(property="longitude", type="number", format="float", example=-46.6600)
+     *                 )
+     *             ),
+     *             @OA\Property(property="departure_time", type="string", format="date-time", nullable=true, description="Horário de partida planejado; padrão: agora"),
      *             @OA\Property(property="prefer_safe_route", type="boolean", example=true, description="Preferir rota mais segura"),
      *             @OA\Property(property="start_navigation", type="boolean", example=false, description="Iniciar sessão de navegação")
      *         )
@@ -100,10 +115,17 @@ public function calculate(CalculateRouteRequest $request): JsonResponse
 
         $preferSafeRoute = $validated['prefer_safe_route'] ?? false;
 
+        $options = RouteOptions::fromArray([
+            'prefer_safe_route' => $preferSafeRoute,
+            'waypoints' => $validated['waypoints'] ?? [],
+            'departure_time' => $validated['departure_time'] ?? null,
+        ]);
+
         $routeWithRisk = $this->routeService->calculateRouteWithRisk(
             $origin,
             $destination,
-            $preferSafeRoute
+            $preferSafeRoute,
+            $options
         );
 
         // Get occurrences along the route
@@ -125,6 +147,128 @@ public function calculate(CalculateRouteRequest $request): JsonResponse
         ], 200);
     }
 
+    /**
+     * Calculate the alternative routes between origin and destination.
+     *
+     * @OA\Post(
+     *     path="/routes/alternatives",
+     *     operationId="calculateAlternativeRoutes",
+     *     tags={"Routes"},
+     *     summary="Calcular rotas alternativas",
+     *     description="Calcula as rotas alternativas entre origem e destino, cada uma com sua análise de risco e as ocorrências ao longo dela. Com paradas intermediárias, retorna apenas uma rota.",
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\JsonContent(
+     *             required={"origin", "destination"},
+     *             @OA\Property(
+     *                 property="origin",
+     *                 type="object",
+     *                 required={"latitude", "longitude"},
+     *                 @OA\Property(property="latitude", type="number", format="float", example=-23.5505),
+     *                 @OA\Property(property="longitude", type="number", format="float", example=-46.6333)
+     *             ),
+     *             @OA\Property(
+     *                 property="destination",
+     *                 type="object",
+     *                 required={"latitude", "longitude"},
+     *                 @OA\Property(property="latitude", type="number", format="float", example=-23.5629),
+     *                 @OA\Property(property="longitude", type="number", format="float", example=-46.6544)
+     *             ),
+     *             @OA\Property(
+     *                 property="waypoints",
+     *                 type="array",
+     *                 maxItems=5,
+     *                 description="Paradas intermediárias, visitadas na ordem informada",
+     *                 @OA\Items(
+     *                     type="object",
+     *                     required={"latitude", "longitude"},
+     *                     @OA\Property(property="latitude", type="number", format="float", example=-23.5580),
+     *                     @OA\Property(property="longitude", type="number", format="float", example=-46.6600)
+     *                 )
+     *             ),
+     *             @OA\Property(property="departure_time", type="string", format="date-time", nullable=true, description="Horário de partida planejado; padrão: agora")
+     *         )
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Rotas calculadas com sucesso",
+     *         @OA\JsonContent(
+     *             @OA\Property(
+     *                 property="data",
+     *                 type="object",
+     *                 @OA\Property(
+     *                     property="routes",
+     *                     type="array",
+     *                     description="Rotas na ordem do provedor de mapas, cada uma com as ocorrências ao longo dela",
+     *                     @OA\Items(
+     *                         allOf={
+     *                             @OA\Schema(ref="#/components/schemas/RouteWithRisk"),
+     *                             @OA\Schema(
+     *                                 @OA\Property(
+     *                                     property="occurrences",
+     *                                     type="array",
+     *                                     @OA\Items(ref="#/components/schemas/Occurrence")
+     *                                 )
+     *                             )
+     *                         }
+     *                     )
+     *                 )
+     *             )
+     *         )
+     *     ),
+     *     @OA\Response(
+     *         response=422,
+     *         description="Erro de validação",
+     *         @OA\JsonContent(ref="#/components/schemas/ValidationError")
+     *     ),
+     *     @OA\Response(
+     *         response=503,
+     *         description="Serviço de mapas indisponível",
+     *         @OA\JsonContent(ref="#/components/schemas/Error")
+     *     )
+     * )
+     *
+     * @see Requirement 2.4 - Analyze risk index of all regions in route
+     * @see Requirement 4.4 - Compare alternatives and select lowest risk
+     */
+    public function alternatives(CalculateRouteRequest $request): JsonResponse
+    {
+        $validated = $request->validated();
+
+        $origin = new Coordinates(
+            $validated['origin']['latitude'],
+            $validated['origin']['longitude']
+        );
+
+        $destination = new Coordinates(
+            $validated['destination']['latitude'],
+            $validated['destination']['longitude']
+        );
+
+        $options = RouteOptions::fromArray([
+            'prefer_safe_route' => $validated['prefer_safe_route'] ?? false,
+            'waypoints' => $validated['waypoints'] ?? [],
+            'departure_time' => $validated['departure_time'] ?? null,
+        ]);
+
+        $routes = $this->routeService->calculateAlternativeRoutesWithRisk(
+            $origin,
+            $destination,
+            $options
+        );
+
+        return response()->json([
+            'data' => [
+                'routes' => array_map(fn($routeWithRisk) => [
+                    ...(new RouteWithRiskResource($routeWithRisk))->toArray($request),
+                    'occurrences' => OccurrenceResource::collection(
+                        $this->routeService->getOccurrencesAlongRoute($routeWithRisk->route)
+                    ),
+                ], $routes),
+            ],
+        ], 200);
+    }
+
     /**
      * Recalculate route during active navigation.
      *
@@ -26,11 +26,28 @@
  *     @OA\Property(property="crime_type_id", type="integer", example=1),
  *     @OA\Property(property="crime_type", type="string", example="Assalto"),
  *     @OA\Property(property="severity", type="string", enum={"low", "medium", "high", "critical"}, example="medium"),
- *     @OA\Property(property="status", type="string", enum={"active", "expired", "rejected", "merged"}, example="active"),
+ *     @OA\Property(property="status", type="string", enum={"active", "expired", "rejected", "merged", "withdrawn"}, example="active"),
  *     @OA\Property(property="source", type="string", enum={"collaborative", "official"}, example="collaborative"),
  *     @OA\Property(property="timestamp", type="string", format="date-time"),
  *     @OA\Property(property="confidence_score", type="integer", example=3),
  *     @OA\Property(property="region_id", type="integer", nullable=true, example=5),
+ *     @OA\Property(property="created_by", type="integer", nullable=true, description="Sempre nulo em reportes anônimos", example=12),
+ *     @OA\Property(property="is_anonymous", type="boolean", example=false),
+ *     @OA\Property(property="editable_until", type="string", format="date-time"),
+ *     @OA\Property(property="confirmations_count", type="integer", description="Reportes semelhantes e confirmações; em /occurrences/mine e /occurrences/{id}", example=2),
+ *     @OA\Property(property="disputes_count", type="integer", description="Contestações; em /occurrences/mine e /occurrences/{id}", example=0),
+ *     @OA\Property(property="user_vote", type="string", nullable=true, enum={"confirm", "dispute"}, description="Voto do usuário autenticado; somente em /occurrences/{id}"),
+ *     @OA\Property(property="attachments", type="array", description="Fotos e notas de voz; somente em /occurrences/{id}",
+ *         @OA\Items(type="object",
+ *             @OA\Property(property="id", type="integer", example=1),
+ *             @OA\Property(property="type", type="string", enum={"photo", "audio"}),
+ *             @OA\Property(property="url", type="string"),
+ *             @OA\Property(property="mime_type", type="string", example="image/jpeg"),
+ *             @OA\Property(property="size", type="integer", example=245000),
+ *             @OA\Property(property="duration_ms", type="integer", nullable=true)
+ *         )
+ *     ),
+ *     @OA\Property(property="moderation_status", type="string", nullable=true, enum={"pending", "approved", "rejected"}, description="Somente em /occurrences/mine"),
  *     @OA\Property(property="created_at", type="string", format="date-time"),
  *     @OA\Property(property="updated_at", type="string", format="date-time")
  * )
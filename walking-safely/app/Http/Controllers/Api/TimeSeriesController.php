@@ -346,6 +346,93 @@ public function hourDayHeatmap(TimeSeriesRequest $request): JsonResponse
         ]);
     }
 
+    /**
+     * Get a summary of an area.
+     *
+     * @OA\Get(
+     *     path="/timeseries/summary",
+     *     operationId="getAreaSummary",
+     *     tags={"TimeSeries"},
+     *     summary="Resumo de uma área",
+     *     description="Retorna ocorrências por tipo de crime, distribuição por severidade e variação semanal de uma região ou de um raio ao redor de um ponto",
+     *     @OA\Parameter(
+     *         name="region_id",
+     *         in="query",
+     *         description="Filtrar por região",
+     *         @OA\Schema(type="integer")
+     *     ),
+     *     @OA\Parameter(
+     *         name="latitude",
+     *         in="query",
+     *         description="Latitude do centro da área",
+     *         @OA\Schema(type="number", format="float")
+     *     ),
+     *     @OA\Parameter(
+     *         name="longitude",
+     *         in="query",
+     *         description="Longitude do centro da área",
+     *         @OA\Schema(type="number", format="float")
+     *     ),
+     *     @OA\Parameter(
+     *         name="radius",
+     *         in="query",
+     *         description="Raio da área em metros",
+     *         @OA\Schema(type="integer", minimum=100, maximum=5000, default=1000)
+     *     ),
+     *     @OA\Parameter(
+     *         name="days",
+     *         in="query",
+     *         description="Últimos N dias",
+     *         @OA\Schema(type="integer", minimum=1, maximum=365)
+     *     ),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Resumo da área",
+     *         @OA\JsonContent(
+     *             @OA\Property(
+     *                 property="data",
+     *                 type="object",
+     *                 @OA\Property(
+     *                     property="by_type",
+     *                     type="array",
+     *                     @OA\Items(ref="#/components/schemas/CrimeDistribution")
+     *                 ),
+     *                 @OA\Property(
+     *                     property="by_severity",
+     *                     type="object",
+     *                     @OA\Property(property="low", type="integer", example=4),
+     *                     @OA\Property(property="medium", type="integer", example=10),
+     *                     @OA\Property(property="high", type="integer", example=3),
+     *                     @OA\Property(property="critical", type="integer", example=1)
+     *                 ),
+     *                 @OA\Property(property="total", type="integer", example=18),
+     *                 @OA\Property(
+     *                     property="week_over_week",
+     *                     type="object",
+     *                     @OA\Property(property="current_week", type="integer", example=6),
+     *                     @OA\Property(property="previous_week", type="integer", example=4),
+     *                     @OA\Property(property="absolute_change", type="integer", example=2),
+     *                     @OA\Property(property="percent_change", type="number", example=50),
+     *                     @OA\Property(property="trend", type="string", enum={"increasing", "decreasing", "stable"})
+     *                 )
+     *             )
+     *         )
+     *     )
+     * )
+     */
+    public function summary(TimeSeriesRequest $request): JsonResponse
+    {
+        $validated = $request->validated();
+
+        $filters = $this->buildFilters($validated);
+
+        $data = $this->timeSeriesService->getAreaSummary($filters);
+
+        return response()->json([
+            'data' => $data,
+        ]);
+    }
+
     /**
      * Build filters array from validated request data.
      */
@@ -361,6 +448,12 @@ private function buildFilters(array $validated): array
             $filters['region_ids'] = $validated['region_ids'];
         }
 
+        if (isset($validated['latitude'], $validated['longitude'])) {
+            $filters['latitude'] = (float) $validated['latitude'];
+            $filters['longitude'] = (float) $validated['longitude'];
+            $filters['radius'] = $validated['radius'] ?? TimeSeriesService::DEFAULT_AREA_RADIUS;
+        }
+
         if (isset($validated['crime_type_id'])) {
             $filters['crime_type_id'] = $validated['crime_type_id'];
         }
@@ -0,0 +1,277 @@
+<?php
+
+namespace App\Http\Controllers\Api;
+
+use App\Http\Controllers\Controller;
+use App\Http\Requests\StopTripShareRequest;
+use App\Http\Requests\StoreTripShareRequest;
+use App\Http\Requests\TripShareUpdateRequest;
+use App\Http\Resources\TripShareResource;
+use App\Models\TripShare;
+use App\Services\TripShareService;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+
+/**
+ * Controller for live trip shares ("walk with me").
+ */
+class TripShareController extends Controller
+{
+    public function __construct(
+        private TripShareService $tripShareService
+    ) {}
+
+    /**
+     * Open a share for the active navigation session.
+     *
+     * @OA\Post(
+     *     path="/trip-shares",
+     *     operationId="storeTripShare",
+     *     tags={"TripShares"},
+     *     summary="Compartilhar trajeto",
+     *     description="Cria um link para um acompanhante seguir o trajeto em tempo real",
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\JsonContent(
+     *             required={"navigation_session_id"},
+     *             @OA\Property(property="navigation_session_id", type="string", maxLength=64),
+     *             @OA\Property(property="destination", type="object", nullable=true,
+     *                 @OA\Property(property="latitude", type="number"),
+     *                 @OA\Property(property="longitude", type="number")
+     *             )
+     *         )
+     *     ),
+     *     @OA\Response(
+     *         response=201,
+     *         description="Compartilhamento criado",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="data", type="object",
+     *                 @OA\Property(property="id", type="integer", example=1),
+     *                 @OA\Property(property="share_url", type="string", description="Página web em que o acompanhante segue o trajeto"),
+     *                 @OA\Property(property="status", type="string", example="active"),
+     *                 @OA\Property(property="expires_at", type="string", format="date-time")
+     *             )
+     *         )
+     *     ),
+     *     @OA\Response(response=422, description="Dados inválidos", @OA\JsonContent(ref="#/components/schemas/Error"))
+     * )
+     */
+    public function store(StoreTripShareRequest $request): JsonResponse
+    {
+        $share = $this->tripShareService->start($request->user(), $request->validated());
+
+        return response()->json([
+            'data' => new TripShareResource($share),
+            'message' => __('messages.trip_share_created'),
+        ], 201);
+    }
+
+    /**
+     * Record position, ETA and route progress.
+     *
+     * @OA\Post(
+     *     path="/trip-shares/{id}/updates",
+     *     operationId="updateTripShare",
+     *     tags={"TripShares"},
+     *     summary="Atualizar trajeto compartilhado",
+     *     description="Atualizações enviadas com o compartilhamento pausado são ignoradas",
+     *     @OA\Parameter(name="id", in="path", required=true, @OA\Schema(type="integer")),
+     *     @OA\RequestBody(
+     *         required=true,
+     *         @OA\JsonContent(
+     *             required={"latitude", "longitude", "remaining_duration", "remaining_distance", "progress", "eta", "timestamp"},
+     *             @OA\Property(property="latitude", type="number", example=-23.5505),
+     *             @OA\Property(property="longitude", type="number", example=-46.6333),
+     *             @OA\Property(property="remaining_duration", type="number", description="Segundos até o destino"),
+     *             @OA\Property(property="remaining_distance", type="number", description="Metros até o destino"),
+     *             @OA\Property(property="progress", type="number", minimum=0, maximum=1),
+     *             @OA\Property(property="eta", type="string", format="date-time"),
+     *             @OA\Property(property="timestamp", type="string", format="date-time")
+     *         )
+     *     ),
+     *     @OA\Response(response=200, description="Atualização recebida"),
+     *     @OA\Response(response=404, description="Compartilhamento não encontrado", @OA\JsonContent(ref="#/components/schemas/Error")),
+     *     @OA\Response(response=409, description="Compartilhamento encerrado", @OA\JsonContent(ref="#/components/schemas/Error"))
+     * )
+     */
+    public function update(TripShareUpdateRequest $request, string $id): JsonResponse
+    {
+        $share = $request->user()->tripShares()->find((int) $id);
+
+        if ($error = $this->unavailable($share)) {
+            return $error;
+        }
+
+        $recorded = $this->tripShareService->recordUpdate($share, $request->validated());
+
+        return response()->json([
+            'data' => ['recorded' => $recorded],
+        ]);
+    }
+
+    /**
+     * Stop sharing the position without closing the share.
+     *
+     * @OA\Post(
+     *     path="/trip-shares/{id}/pause",
+     *     operationId="pauseTripShare",
+     *     tags={"TripShares"},
+     *     summary="Pausar compartilhamento",
+     *     @OA\Parameter(name="id", in="path", required=true, @OA\Schema(type="integer")),
+     *     @OA\Response(response=200, description="Compartilhamento pausado"),
+     *     @OA\Response(response=404, description="Compartilhamento não encontrado", @OA\JsonContent(ref="#/components/schemas/Error")),
+     *     @OA\Response(response=409, description="Compartilhamento encerrado", @OA\JsonContent(ref="#/components/schemas/Error"))
+     * )
+     */
+    public function pause(Request $request, string $id): JsonResponse
+    {
+        $share = $request->user()->tripShares()->find((int) $id);
+
+        if ($error = $this->unavailable($share)) {
+            return $error;
+        }
+
+        $this->tripShareService->pause($share);
+
+        return response()->json([
+            'message' => __('messages.trip_share_paused'),
+        ]);
+    }
+
+    /**
+     * Share the position again after a pause.
+     *
+     * @OA\Post(
+     *     path="/trip-shares/{id}/resume",
+     *     operationId="resumeTripShare",
+     *     tags={"TripShares"},
+     *     summary="Retomar compartilhamento",
+     *     @OA\Parameter(name="id", in="path", required=true, @OA\Schema(type="integer")),
+     *     @OA\Response(response=200, description="Compartilhamento retomado"),
+     *     @OA\Response(response=404, description="Compartilhamento não encontrado", @OA\JsonContent(ref="#/components/schemas/Error")),
+     *     @OA\Response(response=409, description="Compartilhamento encerrado", @OA\JsonContent(ref="#/components/schemas/Error"))
+     * )
+     */
+    public function resume(Request $request, string $id): JsonResponse
+    {
+        $share = $request->user()->tripShares()->find((int) $id);
+
+        if ($error = $this->unavailable($share)) {
+            return $error;
+        }
+
+        $this->tripShareService->resume($share);
+
+        return response()->json([
+            'message' => __('messages.trip_share_resumed'),
+        ]);
+    }
+
+    /**
+     * Close the share. Closing it again has no effect.
+     *
+     * @OA\Post(
+     *     path="/trip-shares/{id}/stop",
+     *     operationId="stopTripShare",
+     *     tags={"TripShares"},
+     *     summary="Encerrar compartilhamento",
+     *     @OA\Parameter(name="id", in="path", required=true, @OA\Schema(type="integer")),
+     *     @OA\RequestBody(
+     *         @OA\JsonContent(
+     *             @OA\Property(property="reason", type="string", enum={"stopped", "arrived", "navigation_ended"})
+     *         )
+     *     ),
+     *     @OA\Response(response=200, description="Compartilhamento encerrado"),
+     *     @OA\Response(response=404, description="Compartilhamento não encontrado", @OA\JsonContent(ref="#/components/schemas/Error"))
+     * )
+     */
+    public function stop(StopTripShareRequest $request, string $id): JsonResponse
+    {
+        $share = $request->user()->tripShares()->find((int) $id);
+
+        if (!$share) {
+            return $this->notFound();
+        }
+
+        $this->tripShareService->stop($share, $request->validated('reason', TripShare::END_STOPPED));
+
+        return response()->json([
+            'message' => __('messages.trip_share_stopped'),
+        ]);
+    }
+
+    /**
+     * Follow a shared trip through the companion's link.
+     *
+     * @OA\Get(
+     *     path="/trip-shares/shared/{token}",
+     *     operationId="showSharedTrip",
+     *     tags={"TripShares"},
+     *     summary="Acompanhar trajeto compartilhado",
+     *     description="Não exige autenticação; o token do link identifica o compartilhamento",
+     *     security={},
+     *     @OA\Parameter(name="token", in="path", required=true, @OA\Schema(type="string")),
+     *     @OA\Response(
+     *         response=200,
+     *         description="Situação do trajeto",
+     *         @OA\JsonContent(
+     *             @OA\Property(property="data", type="object",
+     *                 @OA\Property(property="status", type="string", enum={"active", "paused", "ended"}),
+     *                 @OA\Property(property="end_reason", type="string", nullable=true),
+     *                 @OA\Property(property="user_name", type="string"),
+     *                 @OA\Property(property="position", type="object", nullable=true),
+     *                 @OA\Property(property="destination", type="object", nullable=true),
+     *                 @OA\Property(property="remaining_duration", type="integer", nullable=true),
+     *                 @OA\Property(property="remaining_distance", type="integer", nullable=true),
+     *                 @OA\Property(property="progress", type="number", nullable=true),
+     *                 @OA\Property(property="eta", type="string", format="date-time", nullable=true),
+     *                 @OA\Property(property="last_update_at", type="string", format="date-time", nullable=true)
+     *             )
+     *         )
+     *     ),
+     *     @OA\Response(response=404, description="Compartilhamento não encontrado", @OA\JsonContent(ref="#/components/schemas/Error"))
+     * )
+     */
+    public function shared(string $token): JsonResponse
+    {
+        $share = TripShare::with('user')->where('token', $token)->first();
+
+        if (!$share) {
+            return $this->notFound();
+        }
+
+        return response()->json([
+            'data' => $this->tripShareService->companionView($share),
+        ]);
+    }
+
+    /**
+     * Error response when a share is missing or no longer takes changes.
+     */
+    private function unavailable(?TripShare $share): ?JsonResponse
+    {
+        if (!$share) {
+            return $this->notFound();
+        }
+
+        if ($share->isEnded()) {
+            return response()->json([
+                'error' => 'trip_share_ended',
+                'message' => __('messages.trip_share_ended'),
+            ], 409);
+        }
+
+        return null;
+    }
+
+    /**
+     * Error response for a share that doesn't exist.
+     */
+    private function notFound(): JsonResponse
+    {
+        return response()->json([
+            'error' => 'not_found',
+            'message' => __('messages.trip_share_not_found'),
+        ], 404);
+    }
+}
@@ -40,6 +40,8 @@
  * @OA\Tag(name="Occurrences", description="Gerenciamento de ocorrências criminais")
  * @OA\Tag(name="Geocoding", description="Geocodificação e geocodificação reversa")
  * @OA\Tag(name="Alerts", description="Sistema de alertas e preferências")
+ * @OA\Tag(name="Emergency", description="Contatos de confiança e alertas SOS")
+ * @OA\Tag(name="TripShares", description="Compartilhamento de trajeto em tempo real")
  * @OA\Tag(name="Heatmap", description="Visualização de mapa de calor de ocorrências")
  * @OA\Tag(name="TimeSeries", description="Análise temporal de ocorrências")
  * @OA\Tag(name="Analytics", description="Dashboard e métricas analíticas (Admin)")
@@ -0,0 +1,45 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Models\TripShare;
+use App\Services\TripShareService;
+use Illuminate\Http\Response;
+
+/**
+ * Page the companion opens from a shared trip link.
+ *
+ * Shows the trip as it is when opened and keeps it current by polling the
+ * public trip share endpoint.
+ */
+class TripSharePageController extends Controller
+{
+    /**
+     * Seconds between the page's refreshes, as often as the app sends updates.
+     */
+    public const REFRESH_SECONDS = 15;
+
+    public function __construct(
+        private readonly TripShareService $tripShareService
+    ) {}
+
+    /**
+     * Show a shared trip.
+     */
+    public function __invoke(string $token): Response
+    {
+        $share = TripShare::with('user')->where('token', $token)->first();
+
+        abort_if(!$share, 404, __('messages.trip_share_not_found'));
+
+        return response()
+            ->view('trip-share', [
+                'trip' => $this->tripShareService->companionView($share),
+                'dataUrl' => route('trip-shares.shared', ['token' => $token]),
+                'refreshSeconds' => self::REFRESH_SECONDS,
+            ])
+            // The link is private: keep it out of search engines and shared caches
+            ->header('X-Robots-Tag', 'noindex, nofollow')
+            ->header('Cache-Control', 'no-store');
+    }
+}
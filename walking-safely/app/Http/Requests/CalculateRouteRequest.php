@@ -11,6 +11,11 @@
  */
 class CalculateRouteRequest extends FormRequest
 {
+    /**
+     * Maximum number of intermediate stops per route.
+     */
+    public const MAX_WAYPOINTS = 5;
+
     /**
      * Determine if the user is authorized to make this request.
      */
@@ -33,6 +38,13 @@ public function rules(): array
             'destination' => ['required', 'array'],
             'destination.latitude' => ['required', 'numeric', 'between:-90,90'],
             'destination.longitude' => ['required', 'numeric', 'between:-180,180'],
+            // Intermediate stops, visited in the given order
+            'waypoints' => ['sometimes', 'array', 'max:' . self::MAX_WAYPOINTS],
+            'waypoints.*' => ['array'],
+            'waypoints.*.latitude' => ['required', 'numeric', 'between:-90,90'],
+            'waypoints.*.longitude' => ['required', 'numeric', 'between:-180,180'],
+            // Planned departure, routes are calculated for the traffic at that time
+            'departure_time' => ['sometimes', 'nullable', 'date'],
             'prefer_safe_route' => ['sometimes', 'boolean'],
             'start_navigation' => ['sometimes', 'boolean'],
         ];
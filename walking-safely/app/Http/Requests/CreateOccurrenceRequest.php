@@ -40,6 +40,7 @@ public function rules(): array
             'user_location.longitude' => ['required', 'numeric', 'between:-180,180'],
             'metadata' => ['sometimes', 'array'],
             'metadata.description' => ['sometimes', 'string', 'max:500'],
+            'is_anonymous' => ['sometimes', 'boolean'],
         ];
     }
 
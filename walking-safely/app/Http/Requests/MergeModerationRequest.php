@@ -0,0 +1,23 @@
+<?php
+
+namespace App\Http\Requests;
+
+/**
+ * Request validation for merging a flagged occurrence into a duplicate.
+ *
+ * @see Requirement 14.2 - Moderation audit
+ */
+class MergeModerationRequest extends ModerationActionRequest
+{
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return array_merge(parent::rules(), [
+            'target_occurrence_id' => ['required', 'integer', 'exists:occurrences,id'],
+        ]);
+    }
+}
@@ -0,0 +1,23 @@
+<?php
+
+namespace App\Http\Requests;
+
+/**
+ * Request validation for changing the crime type of a flagged occurrence.
+ *
+ * @see Requirement 14.2 - Moderation audit
+ */
+class RecategorizeModerationRequest extends ModerationActionRequest
+{
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return array_merge(parent::rules(), [
+            'crime_type_id' => ['required', 'integer', 'exists:crime_types,id'],
+        ]);
+    }
+}
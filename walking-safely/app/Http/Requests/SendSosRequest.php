@@ -0,0 +1,40 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Models\SosAlert;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+/**
+ * Request validation for sending an SOS alert.
+ */
+class SendSosRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return $this->user() !== null;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'latitude' => ['required', 'numeric', 'between:-90,90'],
+            'longitude' => ['required', 'numeric', 'between:-180,180'],
+            'destination' => ['sometimes', 'nullable', 'array'],
+            'destination.latitude' => ['required_with:destination', 'numeric', 'between:-90,90'],
+            'destination.longitude' => ['required_with:destination', 'numeric', 'between:-180,180'],
+            // Moment the alert fired on the device, which also identifies resent alerts
+            'timestamp' => ['required', 'date'],
+            'reason' => ['sometimes', 'string', Rule::in([SosAlert::REASON_SOS, SosAlert::REASON_MISSED_CHECK_IN])],
+        ];
+    }
+}
@@ -0,0 +1,64 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Models\OccurrenceAttachment;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+/**
+ * Request validation for uploading a photo or voice note to an occurrence.
+ */
+class StoreOccurrenceAttachmentRequest extends FormRequest
+{
+    /**
+     * Largest file accepted, in kilobytes.
+     */
+    public const MAX_FILE_SIZE = 10240;
+
+    /**
+     * Longest voice note accepted, in milliseconds.
+     */
+    public const MAX_DURATION_MS = 60000;
+
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return $this->user() !== null;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     * Photos must be JPEG or PNG and voice notes M4A/MP4 audio.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        $isAudio = $this->input('type') === OccurrenceAttachment::TYPE_AUDIO;
+
+        return [
+            'type' => ['required', 'string', Rule::in([
+                OccurrenceAttachment::TYPE_PHOTO,
+                OccurrenceAttachment::TYPE_AUDIO,
+            ])],
+            'file' => [
+                'required',
+                'file',
+                'max:' . self::MAX_FILE_SIZE,
+                $isAudio
+                    ? 'mimetypes:audio/mp4,audio/m4a,audio/x-m4a,audio/aac,video/mp4'
+                    : 'mimes:jpeg,jpg,png',
+            ],
+            'duration_ms' => [
+                Rule::requiredIf($isAudio),
+                'nullable',
+                'integer',
+                'min:0',
+                'max:' . self::MAX_DURATION_MS,
+            ],
+        ];
+    }
+}
@@ -0,0 +1,34 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+/**
+ * Request validation for opening a trip share.
+ */
+class StoreTripShareRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return $this->user() !== null;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'navigation_session_id' => ['required', 'string', 'max:64'],
+            'destination' => ['sometimes', 'nullable', 'array'],
+            'destination.latitude' => ['required_with:destination', 'numeric', 'between:-90,90'],
+            'destination.longitude' => ['required_with:destination', 'numeric', 'between:-180,180'],
+        ];
+    }
+}
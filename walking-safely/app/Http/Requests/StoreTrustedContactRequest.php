@@ -0,0 +1,34 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+/**
+ * Request validation for adding a trusted contact.
+ */
+class StoreTrustedContactRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return $this->user() !== null;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'name' => ['required', 'string', 'max:100'],
+            // Brazilian numbers: optional country code, area code and 8-9 digit number
+            'phone' => ['required', 'string', 'max:20', 'regex:/^\+?[\d\s().-]{10,20}$/'],
+            'email' => ['sometimes', 'nullable', 'email', 'max:255'],
+        ];
+    }
+}
@@ -40,6 +40,9 @@ public function rules(): array
             'end_date' => ['sometimes', 'date', 'after_or_equal:start_date'],
             'days' => ['sometimes', 'integer', 'min:1', 'max:365'],
             'granularity' => ['sometimes', 'string', Rule::in(TimeSeriesService::VALID_GRANULARITIES)],
+            'latitude' => ['sometimes', 'required_with:longitude', 'numeric', 'between:-90,90'],
+            'longitude' => ['sometimes', 'required_with:latitude', 'numeric', 'between:-180,180'],
+            'radius' => ['sometimes', 'integer', 'min:100', 'max:' . TimeSeriesService::MAX_AREA_RADIUS],
         ];
     }
 
@@ -57,6 +60,8 @@ public function messages(): array
             'crime_category_id.exists' => __('validation.timeseries.crime_category_invalid'),
             'end_date.after_or_equal' => __('validation.timeseries.date_range_invalid'),
             'granularity.in' => __('validation.timeseries.granularity_invalid'),
+            'latitude.between' => __('validation.timeseries.latitude_invalid'),
+            'longitude.between' => __('validation.timeseries.longitude_invalid'),
         ];
     }
 }
@@ -0,0 +1,37 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+
+/**
+ * Request validation for a trip share progress update.
+ */
+class TripShareUpdateRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return $this->user() !== null;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'latitude' => ['required', 'numeric', 'between:-90,90'],
+            'longitude' => ['required', 'numeric', 'between:-180,180'],
+            'remaining_duration' => ['required', 'numeric', 'min:0'],
+            'remaining_distance' => ['required', 'numeric', 'min:0'],
+            'progress' => ['required', 'numeric', 'between:0,1'],
+            'eta' => ['required', 'date'],
+            'timestamp' => ['required', 'date'],
+        ];
+    }
+}
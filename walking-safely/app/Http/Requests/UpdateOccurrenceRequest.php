@@ -0,0 +1,50 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Enums\OccurrenceSeverity;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+/**
+ * Request validation for editing an occurrence.
+ * Location and time can't change, only what the reporter described.
+ */
+class UpdateOccurrenceRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return true;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'crime_type_id' => ['sometimes', 'integer', 'exists:crime_types,id'],
+            'severity' => ['sometimes', 'string', Rule::in(OccurrenceSeverity::values())],
+            'metadata' => ['sometimes', 'array'],
+            'metadata.description' => ['sometimes', 'nullable', 'string', 'max:500'],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        return [
+            'crime_type_id.exists' => __('validation.occurrence.crime_type_invalid'),
+            'severity.in' => __('validation.occurrence.severity_invalid'),
+        ];
+    }
+}
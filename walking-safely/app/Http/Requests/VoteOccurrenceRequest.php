@@ -0,0 +1,36 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Models\OccurrenceValidation;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+/**
+ * Request validation for confirming or disputing an occurrence.
+ */
+class VoteOccurrenceRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return $this->user() !== null;
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'vote' => ['required', 'string', Rule::in([
+                OccurrenceValidation::VOTE_CONFIRM,
+                OccurrenceValidation::VOTE_DISPUTE,
+            ])],
+        ];
+    }
+}
@@ -49,7 +49,7 @@ public function toArray(Request $request): array
                 fn() => $this->resource->moderator ? new UserResource($this->resource->moderator) : null
             ),
             'moderated_at' => $this->resource->moderated_at?->toIso8601String(),
-            'notes' => $this->resource->notes,
+            'notes' => $this->resource->moderator_notes,
             'detection_details' => $this->resource->detection_details,
             'created_at' => $this->resource->created_at?->toIso8601String(),
             'updated_at' => $this->resource->updated_at?->toIso8601String(),
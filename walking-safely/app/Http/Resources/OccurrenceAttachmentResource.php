@@ -0,0 +1,38 @@
+<?php
+
+namespace App\Http\Resources;
+
+use App\Models\OccurrenceAttachment;
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\JsonResource;
+
+/**
+ * API Resource for OccurrenceAttachment.
+ */
+class OccurrenceAttachmentResource extends JsonResource
+{
+    /**
+     * The resource instance.
+     *
+     * @var OccurrenceAttachment
+     */
+    public $resource;
+
+    /**
+     * Transform the resource into an array.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(Request $request): array
+    {
+        return [
+            'id' => $this->resource->id,
+            'type' => $this->resource->type,
+            'url' => $this->resource->getUrl(),
+            'mime_type' => $this->resource->mime_type,
+            'size' => $this->resource->size,
+            'duration_ms' => $this->resource->duration_ms,
+            'created_at' => $this->resource->created_at?->toIso8601String(),
+        ];
+    }
+}
@@ -3,6 +3,7 @@
 namespace App\Http\Resources;
 
 use App\Models\Occurrence;
+use App\Services\OccurrenceService;
 use Illuminate\Http\Request;
 use Illuminate\Http\Resources\Json\JsonResource;
 
@@ -48,7 +49,35 @@ public function toArray(Request $request): array
             'source' => $this->resource->source?->value,
             'status' => $this->resource->status?->value,
             'region_id' => $this->resource->region_id,
-            'created_by' => $this->resource->created_by,
+            // Anonymous reports never reveal who sent them
+            'created_by' => $this->resource->is_anonymous ? null : $this->resource->created_by,
+            'is_anonymous' => (bool) $this->resource->is_anonymous,
+            'editable_until' => $this->resource->created_at
+                ?->copy()
+                ->addMinutes(OccurrenceService::EDIT_WINDOW_MINUTES)
+                ->toIso8601String(),
+            'confirmations_count' => $this->when(
+                isset($this->resource->confirmations_count),
+                fn () => $this->resource->confirmations_count
+            ),
+            'disputes_count' => $this->when(
+                isset($this->resource->disputes_count),
+                fn () => $this->resource->disputes_count
+            ),
+            // Vote of the requesting user, null when they haven't voted
+            'user_vote' => $this->when(
+                array_key_exists('user_vote', $this->resource->getAttributes()),
+                fn () => $this->resource->user_vote
+            ),
+            'attachments' => $this->whenLoaded(
+                'attachments',
+                fn () => OccurrenceAttachmentResource::collection($this->resource->attachments)
+            ),
+            // Latest moderation decision, only loaded for the reporter's own history
+            'moderation_status' => $this->whenLoaded(
+                'moderationQueues',
+                fn () => $this->resource->moderationQueues->sortByDesc('created_at')->first()?->status?->value
+            ),
             'expires_at' => $this->resource->expires_at?->toIso8601String(),
             'created_at' => $this->resource->created_at?->toIso8601String(),
             'updated_at' => $this->resource->updated_at?->toIso8601String(),
@@ -0,0 +1,36 @@
+<?php
+
+namespace App\Http\Resources;
+
+use App\Models\TripShare;
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\JsonResource;
+
+/**
+ * API Resource for TripShare, as seen by the user sharing the trip.
+ */
+class TripShareResource extends JsonResource
+{
+    /**
+     * The resource instance.
+     *
+     * @var TripShare
+     */
+    public $resource;
+
+    /**
+     * Transform the resource into an array.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(Request $request): array
+    {
+        return [
+            'id' => $this->resource->id,
+            // Web page for the companion, which keeps itself current from trip-shares.shared
+            'share_url' => route('trip-shares.page', ['token' => $this->resource->token]),
+            'status' => $this->resource->status,
+            'expires_at' => $this->resource->expires_at?->toIso8601String(),
+        ];
+    }
+}
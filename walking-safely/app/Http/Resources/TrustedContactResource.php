@@ -0,0 +1,36 @@
+<?php
+
+namespace App\Http\Resources;
+
+use App\Models\TrustedContact;
+use Illuminate\Http\Request;
+use Illuminate\Http\Resources\Json\JsonResource;
+
+/**
+ * API Resource for TrustedContact.
+ */
+class TrustedContactResource extends JsonResource
+{
+    /**
+     * The resource instance.
+     *
+     * @var TrustedContact
+     */
+    public $resource;
+
+    /**
+     * Transform the resource into an array.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(Request $request): array
+    {
+        return [
+            'id' => $this->resource->id,
+            'name' => $this->resource->name,
+            'phone' => $this->resource->phone,
+            'email' => $this->resource->email,
+            'created_at' => $this->resource->created_at?->toIso8601String(),
+        ];
+    }
+}
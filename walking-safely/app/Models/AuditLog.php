@@ -17,6 +17,8 @@ class AuditLog extends Model
     public const ACTION_USER_DELETED = 'user_deleted';
     public const ACTION_MODERATION_APPROVED = 'moderation_approved';
     public const ACTION_MODERATION_REJECTED = 'moderation_rejected';
+    public const ACTION_MODERATION_RECATEGORIZED = 'moderation_recategorized';
+    public const ACTION_MODERATION_MERGED = 'moderation_merged';
     public const ACTION_LOGIN_SUCCESS = 'login_success';
     public const ACTION_LOGIN_FAILED = 'login_failed';
     public const ACTION_ACCOUNT_LOCKED = 'account_locked';
@@ -166,6 +166,19 @@ public function reject(User $moderator, ?string $notes = null): void
         );
     }
 
+    /**
+     * Close this item as approved without logging, for decisions that write
+     * their own audit entry.
+     */
+    public function resolve(User $moderator, ?string $notes = null): void
+    {
+        $this->status = ModerationStatus::APPROVED;
+        $this->moderated_by = $moderator->id;
+        $this->moderated_at = now();
+        $this->moderator_notes = $notes;
+        $this->save();
+    }
+
     /**
      * Add an item to the moderation queue.
      */
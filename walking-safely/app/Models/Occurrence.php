@@ -10,6 +10,7 @@
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\Relations\BelongsTo;
 use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Support\Facades\Storage;
 use MatanYadaev\EloquentSpatial\Objects\Point;
 use MatanYadaev\EloquentSpatial\Traits\HasSpatial;
 
@@ -34,6 +35,7 @@ class Occurrence extends Model
         'status',
         'expires_at',
         'created_by',
+        'is_anonymous',
         'merged_into_id',
         'metadata',
     ];
@@ -53,10 +55,27 @@ protected function casts(): array
             'source' => OccurrenceSource::class,
             'status' => OccurrenceStatus::class,
             'expires_at' => 'datetime',
+            'is_anonymous' => 'boolean',
             'metadata' => 'array',
         ];
     }
 
+    /**
+     * Boot the model.
+     */
+    protected static function boot(): void
+    {
+        parent::boot();
+
+        // The attachment rows go with the occurrence, their files have to be removed here
+        static::deleting(function (Occurrence $occurrence) {
+            $paths = $occurrence->attachments()->pluck('path')->all();
+            if ($paths !== []) {
+                Storage::disk(OccurrenceAttachment::DISK)->delete($paths);
+            }
+        });
+    }
+
     /**
      * Get the crime type for this occurrence.
      */
@@ -105,6 +124,22 @@ public function validations(): HasMany
         return $this->hasMany(OccurrenceValidation::class);
     }
 
+    /**
+     * Get the photos and voice notes sent as evidence for this occurrence.
+     */
+    public function attachments(): HasMany
+    {
+        return $this->hasMany(OccurrenceAttachment::class);
+    }
+
+    /**
+     * Get the moderation entries for this occurrence.
+     */
+    public function moderationQueues(): HasMany
+    {
+        return $this->hasMany(ModerationQueue::class);
+    }
+
     /**
      * Scope to filter by active status.
      */
@@ -0,0 +1,72 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Facades\Storage;
+
+class OccurrenceAttachment extends Model
+{
+    /**
+     * Attachment types.
+     */
+    public const TYPE_PHOTO = 'photo';
+    public const TYPE_AUDIO = 'audio';
+
+    /**
+     * Disk the attachment files are stored on.
+     */
+    public const DISK = 'public';
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var list<string>
+     */
+    protected $fillable = [
+        'occurrence_id',
+        'type',
+        'path',
+        'mime_type',
+        'size',
+        'duration_ms',
+    ];
+
+    /**
+     * Get the attributes that should be cast.
+     *
+     * @return array<string, string>
+     */
+    protected function casts(): array
+    {
+        return [
+            'size' => 'integer',
+            'duration_ms' => 'integer',
+        ];
+    }
+
+    /**
+     * Get the occurrence this attachment is evidence for.
+     */
+    public function occurrence(): BelongsTo
+    {
+        return $this->belongsTo(Occurrence::class);
+    }
+
+    /**
+     * Get the public URL of the attachment file.
+     */
+    public function getUrl(): string
+    {
+        return Storage::disk(self::DISK)->url($this->path);
+    }
+
+    /**
+     * Check if this attachment is a voice note.
+     */
+    public function isAudio(): bool
+    {
+        return $this->type === self::TYPE_AUDIO;
+    }
+}
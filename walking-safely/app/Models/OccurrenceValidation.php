@@ -13,6 +13,13 @@ class OccurrenceValidation extends Model
     public const TYPE_CORROBORATION = 'corroboration';
     public const TYPE_OFFICIAL_CONFIRMATION = 'official_confirmation';
     public const TYPE_MODERATION = 'moderation';
+    public const TYPE_VOTE = 'vote';
+
+    /**
+     * Votes a user can cast on an occurrence.
+     */
+    public const VOTE_CONFIRM = 'confirm';
+    public const VOTE_DISPUTE = 'dispute';
 
     /**
      * Validation statuses.
@@ -31,6 +38,7 @@ class OccurrenceValidation extends Model
         'validated_by',
         'validation_type',
         'status',
+        'vote',
         'notes',
         'metadata',
     ];
@@ -71,6 +79,14 @@ public function isCorroboration(): bool
         return $this->validation_type === self::TYPE_CORROBORATION;
     }
 
+    /**
+     * Check if this is a user's confirm or dispute vote.
+     */
+    public function isVote(): bool
+    {
+        return $this->validation_type === self::TYPE_VOTE;
+    }
+
     /**
      * Check if this validation is approved.
      */
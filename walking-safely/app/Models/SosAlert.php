@@ -0,0 +1,67 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * Emergency alert sent by a user to their trusted contacts.
+ */
+class SosAlert extends Model
+{
+    /**
+     * Alert reasons.
+     */
+    public const REASON_SOS = 'sos';
+    public const REASON_MISSED_CHECK_IN = 'missed_check_in';
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var list<string>
+     */
+    protected $fillable = [
+        'user_id',
+        'reason',
+        'latitude',
+        'longitude',
+        'destination_latitude',
+        'destination_longitude',
+        'triggered_at',
+        'notified_contacts',
+    ];
+
+    /**
+     * Get the attributes that should be cast.
+     *
+     * @return array<string, string>
+     */
+    protected function casts(): array
+    {
+        return [
+            'latitude' => 'float',
+            'longitude' => 'float',
+            'destination_latitude' => 'float',
+            'destination_longitude' => 'float',
+            'triggered_at' => 'datetime',
+            'notified_contacts' => 'integer',
+        ];
+    }
+
+    /**
+     * Get the user who sent the alert.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Check if the alert carries the destination of the user's route.
+     */
+    public function hasDestination(): bool
+    {
+        return $this->destination_latitude !== null && $this->destination_longitude !== null;
+    }
+}
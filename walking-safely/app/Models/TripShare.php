@@ -0,0 +1,114 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * Live trip a user shares with a companion through a link.
+ */
+class TripShare extends Model
+{
+    /**
+     * Share status constants.
+     */
+    public const STATUS_ACTIVE = 'active';
+    public const STATUS_PAUSED = 'paused';
+    public const STATUS_ENDED = 'ended';
+
+    /**
+     * Why a share was ended.
+     */
+    public const END_STOPPED = 'stopped';
+    public const END_ARRIVED = 'arrived';
+    public const END_NAVIGATION_ENDED = 'navigation_ended';
+    public const END_EXPIRED = 'expired';
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var list<string>
+     */
+    protected $fillable = [
+        'user_id',
+        'navigation_session_id',
+        'token',
+        'status',
+        'end_reason',
+        'destination_latitude',
+        'destination_longitude',
+        'latitude',
+        'longitude',
+        'remaining_duration',
+        'remaining_distance',
+        'progress',
+        'eta',
+        'last_update_at',
+        'expires_at',
+        'ended_at',
+    ];
+
+    /**
+     * The attributes that should be hidden for serialization.
+     *
+     * @var list<string>
+     */
+    protected $hidden = [
+        'token',
+    ];
+
+    /**
+     * Get the attributes that should be cast.
+     *
+     * @return array<string, string>
+     */
+    protected function casts(): array
+    {
+        return [
+            'destination_latitude' => 'float',
+            'destination_longitude' => 'float',
+            'latitude' => 'float',
+            'longitude' => 'float',
+            'remaining_duration' => 'integer',
+            'remaining_distance' => 'integer',
+            'progress' => 'float',
+            'eta' => 'datetime',
+            'last_update_at' => 'datetime',
+            'expires_at' => 'datetime',
+            'ended_at' => 'datetime',
+        ];
+    }
+
+    /**
+     * Get the user sharing the trip.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Check if the share has passed its expiry time.
+     */
+    public function isExpired(): bool
+    {
+        return $this->expires_at !== null && $this->expires_at->isPast();
+    }
+
+    /**
+     * Check if the share was ended, by the user or by expiring.
+     */
+    public function isEnded(): bool
+    {
+        return $this->status === self::STATUS_ENDED || $this->isExpired();
+    }
+
+    /**
+     * Check if the share carries the destination of the user's route.
+     */
+    public function hasDestination(): bool
+    {
+        return $this->destination_latitude !== null && $this->destination_longitude !== null;
+    }
+}
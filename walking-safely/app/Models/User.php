@@ -168,4 +168,20 @@ public function alertPreference(): HasOne
     {
         return $this->hasOne(AlertPreference::class);
     }
+
+    /**
+     * Get the contacts warned by this user's SOS alerts.
+     */
+    public function trustedContacts(): HasMany
+    {
+        return $this->hasMany(TrustedContact::class);
+    }
+
+    /**
+     * Get the trips this user shared.
+     */
+    public function tripShares(): HasMany
+    {
+        return $this->hasMany(TripShare::class);
+    }
 }
@@ -0,0 +1,81 @@
+<?php
+
+namespace App\Notifications\Channels;
+
+use Illuminate\Notifications\Notification;
+use Illuminate\Support\Facades\Http;
+
+/**
+ * Text message channel, sent through the Twilio REST API.
+ *
+ * Notifications using it implement toSms() returning the message text and
+ * are routed to a phone number.
+ */
+class SmsChannel
+{
+    /**
+     * Twilio endpoint for sending messages.
+     */
+    private const ENDPOINT = 'https://api.twilio.com/2010-04-01/Accounts/%s/Messages.json';
+
+    /**
+     * Country code added to numbers saved without one.
+     */
+    public const DEFAULT_COUNTRY_CODE = '55';
+
+    /**
+     * Check if credentials for sending text messages are set.
+     */
+    public static function isConfigured(): bool
+    {
+        return !empty(config('services.sms.sid'))
+            && !empty(config('services.sms.token'))
+            && !empty(config('services.sms.from'));
+    }
+
+    /**
+     * Send the notification as a text message.
+     *
+     * @throws \Illuminate\Http\Client\RequestException When the provider refuses the message
+     */
+    public function send(object $notifiable, Notification $notification): void
+    {
+        $phone = $notifiable->routeNotificationFor(self::class, $notification);
+        if (empty($phone) || !method_exists($notification, 'toSms')) {
+            return;
+        }
+
+        $sid = config('services.sms.sid');
+
+        Http::asForm()
+            ->withBasicAuth($sid, config('services.sms.token'))
+            ->timeout(10)
+            ->post(sprintf(self::ENDPOINT, $sid), [
+                'From' => config('services.sms.from'),
+                'To' => self::toE164($phone),
+                'Body' => $notification->toSms($notifiable),
+            ])
+            ->throw();
+    }
+
+    /**
+     * Format a phone number as saved by the user in E.164.
+     * Numbers without a country code are taken as Brazilian.
+     */
+    public static function toE164(string $phone): string
+    {
+        $digits = preg_replace('/\D/', '', $phone);
+
+        if (str_starts_with(trim($phone), '+')) {
+            return '+' . $digits;
+        }
+
+        // Area code and 8-9 digit number, optionally after a leading 0
+        $digits = ltrim($digits, '0');
+        if (strlen($digits) <= 11) {
+            return '+' . self::DEFAULT_COUNTRY_CODE . $digits;
+        }
+
+        return '+' . $digits;
+    }
+}
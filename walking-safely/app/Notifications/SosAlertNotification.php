@@ -0,0 +1,87 @@
+<?php
+
+namespace App\Notifications;
+
+use App\Models\SosAlert;
+use App\Notifications\Channels\SmsChannel;
+use Illuminate\Bus\Queueable;
+use Illuminate\Notifications\Messages\MailMessage;
+use Illuminate\Notifications\Notification;
+
+/**
+ * Emergency alert sent to a trusted contact.
+ *
+ * Sent right away instead of queued: a delayed SOS is worth little.
+ */
+class SosAlertNotification extends Notification
+{
+    use Queueable;
+
+    public function __construct(
+        public readonly SosAlert $alert,
+        public readonly string $senderName
+    ) {}
+
+    /**
+     * Get the notification's delivery channels.
+     *
+     * @return array<int, string>
+     */
+    public function via(object $notifiable): array
+    {
+        return ['mail', SmsChannel::class];
+    }
+
+    /**
+     * Get the mail representation of the notification.
+     */
+    public function toMail(object $notifiable): MailMessage
+    {
+        $subjectKey = $this->alert->reason === SosAlert::REASON_MISSED_CHECK_IN
+            ? 'messages.sos_mail_subject_check_in'
+            : 'messages.sos_mail_subject';
+
+        $message = (new MailMessage())
+            ->subject(__($subjectKey, ['name' => $this->senderName]))
+            ->line(__('messages.sos_mail_intro', [
+                'name' => $this->senderName,
+                'time' => $this->alert->triggered_at->format('d/m/Y H:i'),
+            ]))
+            ->action(
+                __('messages.sos_mail_location'),
+                self::mapsLink($this->alert->latitude, $this->alert->longitude)
+            );
+
+        if ($this->alert->hasDestination()) {
+            $message->line(__('messages.sos_mail_destination', [
+                'link' => self::mapsLink($this->alert->destination_latitude, $this->alert->destination_longitude),
+            ]));
+        }
+
+        return $message;
+    }
+
+    /**
+     * Get the text message representation of the notification.
+     */
+    public function toSms(object $notifiable): string
+    {
+        $key = $this->alert->reason === SosAlert::REASON_MISSED_CHECK_IN
+            ? 'messages.sos_sms_check_in'
+            : 'messages.sos_sms';
+
+        return __($key, [
+            'name' => $this->senderName,
+            'time' => $this->alert->triggered_at->format('d/m/Y H:i'),
+            'link' => self::mapsLink($this->alert->latitude, $this->alert->longitude),
+        ]);
+    }
+
+    /**
+     * Link that opens a position on a map.
+     */
+    public static function mapsLink(float $latitude, float $longitude): string
+    {
+        return sprintf('https://www.google.com/maps/search/?api=1&query=%.6f,%.6f', $latitude, $longitude);
+    }
+}
@@ -0,0 +1,143 @@
+<?php
+
+namespace App\Services;
+
+use App\Models\SosAlert;
+use App\Models\TrustedContact;
+use App\Models\User;
+use App\Notifications\Channels\SmsChannel;
+use App\Notifications\SosAlertNotification;
+use Illuminate\Support\Carbon;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Notification;
+
+/**
+ * Service for trusted contacts and the SOS alerts sent to them.
+ */
+class EmergencyService
+{
+    /**
+     * Maximum number of trusted contacts per user.
+     */
+    public const MAX_TRUSTED_CONTACTS = 5;
+
+    /**
+     * Check if a user with this many contacts can add another one.
+     */
+    public function canAddContact(int $currentCount): bool
+    {
+        return $currentCount < self::MAX_TRUSTED_CONTACTS;
+    }
+
+    /**
+     * Add a trusted contact for a user.
+     *
+     * @param array{name: string, phone: string, email?: string|null} $data
+     */
+    public function addContact(User $user, array $data): TrustedContact
+    {
+        return $user->trustedContacts()->create([
+            'name' => trim($data['name']),
+            'phone' => $data['phone'],
+            'email' => $data['email'] ?? null,
+        ]);
+    }
+
+    /**
+     * Record an SOS alert and warn the user's trusted contacts.
+     *
+     * The app resends an alert until it is confirmed, so an alert already
+     * recorded for the same moment is returned instead of warning twice.
+     *
+     * @param array $data Validated alert data
+     */
+    public function sendSos(User $user, array $data): SosAlert
+    {
+        $destination = $data['destination'] ?? null;
+
+        $alert = SosAlert::firstOrCreate(
+            [
+                'user_id' => $user->id,
+                'triggered_at' => Carbon::parse($data['timestamp']),
+            ],
+            [
+                'reason' => $data['reason'] ?? SosAlert::REASON_SOS,
+                'latitude' => $data['latitude'],
+                'longitude' => $data['longitude'],
+                'destination_latitude' => $destination['latitude'] ?? null,
+                'destination_longitude' => $destination['longitude'] ?? null,
+            ]
+        );
+
+        if (!$this->needsDelivery($alert)) {
+            return $alert;
+        }
+
+        $notified = 0;
+        foreach ($user->trustedContacts as $contact) {
+            if ($this->notifyContact($contact, $alert, $user->name)) {
+                $notified++;
+            }
+        }
+
+        $alert->update(['notified_contacts' => $notified]);
+
+        return $alert;
+    }
+
+    /**
+     * Check if the contacts still have to be warned about an alert:
+     * it is new, or no contact could be reached on an earlier attempt.
+     */
+    public function needsDelivery(SosAlert $alert): bool
+    {
+        return $alert->wasRecentlyCreated || $alert->notified_contacts === 0;
+    }
+
+    /**
+     * Warn one contact by email and text message, without letting a failure
+     * stop the others. The contact counts as reached when either got through.
+     */
+    private function notifyContact(TrustedContact $contact, SosAlert $alert, string $senderName): bool
+    {
+        $notification = new SosAlertNotification($alert, $senderName);
+        $reached = false;
+
+        foreach ($this->contactRoutes($contact) as $channel => $route) {
+            try {
+                Notification::sendNow(Notification::route($channel, $route), $notification, [$channel]);
+                $reached = true;
+            } catch (\Throwable $e) {
+                Log::warning('Failed to notify trusted contact', [
+                    'sos_alert_id' => $alert->id,
+                    'trusted_contact_id' => $contact->id,
+                    'channel' => $channel,
+                    'error' => $e->getMessage(),
+                ]);
+            }
+        }
+
+        return $reached;
+    }
+
+    /**
+     * Channels a contact can be warned on, with the address for each.
+     * Text messages are only sent when SMS credentials are set.
+     *
+     * @return array<string, string>
+     */
+    public function contactRoutes(TrustedContact $contact): array
+    {
+        $routes = [];
+
+        if (!empty($contact->email)) {
+            $routes['mail'] = $contact->email;
+        }
+
+        if (!empty($contact->phone) && SmsChannel::isConfigured()) {
+            $routes[SmsChannel::class] = $contact->phone;
+        }
+
+        return $routes;
+    }
+}
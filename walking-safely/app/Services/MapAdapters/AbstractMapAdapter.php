@@ -72,12 +72,13 @@ public function calculateRoute(
     public function calculateAlternativeRoutes(
         Coordinates $origin,
         Coordinates $destination,
-        int $count = 3
+        int $count = 3,
+        ?RouteOptions $options = null
     ): array {
         $this->checkQuota('route');
 
         return $this->withRetry(
-            fn() => $this->doCalculateAlternativeRoutes($origin, $destination, $count),
+            fn() => $this->doCalculateAlternativeRoutes($origin, $destination, $count, $options),
             'alternative routes calculation'
         );
     }
@@ -204,6 +205,16 @@ protected function handleHttpError(int $status, string $body): void
         };
     }
 
+    /**
+     * Points a route goes through, from origin to destination.
+     *
+     * @return Coordinates[]
+     */
+    protected function getRoutePoints(Coordinates $origin, Coordinates $destination, ?RouteOptions $options): array
+    {
+        return [$origin, ...($options?->waypoints ?? []), $destination];
+    }
+
     /**
      * Generate cache key for route.
      */
@@ -260,7 +271,8 @@ abstract protected function doCalculateRoute(
     abstract protected function doCalculateAlternativeRoutes(
         Coordinates $origin,
         Coordinates $destination,
-        int $count
+        int $count,
+        ?RouteOptions $options
     ): array;
 
     /**
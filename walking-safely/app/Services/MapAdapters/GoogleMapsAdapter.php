@@ -69,8 +69,15 @@ protected function doCalculateRoute(
                 $params['mode'] = $options->mode;
             }
 
-            if ($options->departureTime) {
-                $params['departure_time'] = $options->departureTime;
+            if ($departure = $options->getDepartureTime()) {
+                $params['departure_time'] = $departure->timestamp;
+            }
+
+            if ($options->hasWaypoints()) {
+                $params['waypoints'] = implode('|', array_map(
+                    fn(Coordinates $waypoint) => "{$waypoint->latitude},{$waypoint->longitude}",
+                    $options->waypoints
+                ));
             }
         }
 
@@ -88,14 +95,15 @@ protected function doCalculateRoute(
     protected function doCalculateAlternativeRoutes(
         Coordinates $origin,
         Coordinates $destination,
-        int $count
+        int $count,
+        ?RouteOptions $options
     ): array {
         $params = [
             'origin' => "{$origin->latitude},{$origin->longitude}",
             'destination' => "{$destination->latitude},{$destination->longitude}",
             'key' => $this->apiKey,
             'alternatives' => 'true',
-            'departure_time' => 'now',
+            'departure_time' => $options?->getDepartureTime()?->timestamp ?? 'now',
         ];
 
         $response = $this->httpGet(self::DIRECTIONS_API_URL, $params);
@@ -254,10 +262,14 @@ private function validateGeocodingResponse(array $response): void
      */
     private function parseRoute(array $routeData, Coordinates $origin, Coordinates $destination): Route
     {
-        $leg = $routeData['legs'][0] ?? [];
-
+        // A route through stops has one leg per stop
         $waypoints = [];
+        $distance = 0;
+        $duration = 0;
         foreach ($routeData['legs'] ?? [] as $leg) {
+            $distance += $leg['distance']['value'] ?? 0;
+            $duration += $leg['duration_in_traffic']['value'] ?? $leg['duration']['value'] ?? 0;
+
             foreach ($leg['steps'] ?? [] as $step) {
                 if (isset($step['end_location'])) {
                     $waypoints[] = new Coordinates(
@@ -273,8 +285,8 @@ private function parseRoute(array $routeData, Coordinates $origin, Coordinates $
             'origin' => $origin,
             'destination' => $destination,
             'waypoints' => $waypoints,
-            'distance' => $leg['distance']['value'] ?? 0,
-            'duration' => $leg['duration_in_traffic']['value'] ?? $leg['duration']['value'] ?? 0,
+            'distance' => $distance,
+            'duration' => $duration,
             'polyline' => $routeData['overview_polyline']['points'] ?? '',
             'provider' => self::PROVIDER_NAME,
         ]);
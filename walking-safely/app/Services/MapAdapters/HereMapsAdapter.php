@@ -47,13 +47,19 @@ protected function doCalculateRoute(
         Coordinates $destination,
         ?RouteOptions $options
     ): Route {
+        // A route through stops comes in one flexible polyline per stop,
+        // which can't be joined without decoding them
+        if ($options?->hasWaypoints()) {
+            throw MapProviderException::unsupportedOption(self::PROVIDER_NAME, 'waypoints');
+        }
+
         $params = [
             'origin' => "{$origin->latitude},{$origin->longitude}",
             'destination' => "{$destination->latitude},{$destination->longitude}",
             'apiKey' => $this->apiKey,
             'transportMode' => $this->mapTransportMode($options?->mode ?? 'driving'),
             'return' => 'polyline,summary,travelSummary',
-            'departureTime' => 'now',
+            'departureTime' => $options?->getDepartureTime()?->toIso8601String() ?? 'now',
         ];
 
         if ($options) {
@@ -83,7 +89,8 @@ protected function doCalculateRoute(
     protected function doCalculateAlternativeRoutes(
         Coordinates $origin,
         Coordinates $destination,
-        int $count
+        int $count,
+        ?RouteOptions $options
     ): array {
         $params = [
             'origin' => "{$origin->latitude},{$origin->longitude}",
@@ -92,7 +99,7 @@ protected function doCalculateAlternativeRoutes(
             'transportMode' => 'car',
             'return' => 'polyline,summary,travelSummary',
             'alternatives' => min($count, 6), // HERE supports up to 6 alternatives
-            'departureTime' => 'now',
+            'departureTime' => $options?->getDepartureTime()?->toIso8601String() ?? 'now',
         ];
 
         $response = $this->httpGet(self::ROUTING_API_URL, $params);
@@ -164,7 +164,8 @@ protected function doCalculateRoute(
     protected function doCalculateAlternativeRoutes(
         Coordinates $origin,
         Coordinates $destination,
-        int $count = 3
+        int $count = 3,
+        ?RouteOptions $options = null
     ): array {
         $params = [
             'transportMode' => 'pedestrian',
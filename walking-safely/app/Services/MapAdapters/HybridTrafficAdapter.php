@@ -67,9 +67,10 @@ public function calculateRoute(
     public function calculateAlternativeRoutes(
         Coordinates $origin,
         Coordinates $destination,
-        int $count = 3
+        int $count = 3,
+        ?RouteOptions $options = null
     ): array {
-        return $this->nominatimAdapter->calculateAlternativeRoutes($origin, $destination, $count);
+        return $this->nominatimAdapter->calculateAlternativeRoutes($origin, $destination, $count, $options);
     }
 
     /**
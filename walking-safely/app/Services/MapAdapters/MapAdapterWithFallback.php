@@ -46,10 +46,11 @@ public function calculateRoute(
     public function calculateAlternativeRoutes(
         Coordinates $origin,
         Coordinates $destination,
-        int $count = 3
+        int $count = 3,
+        ?RouteOptions $options = null
     ): array {
         return $this->executeWithFallback(
-            fn(MapAdapterInterface $adapter) => $adapter->calculateAlternativeRoutes($origin, $destination, $count),
+            fn(MapAdapterInterface $adapter) => $adapter->calculateAlternativeRoutes($origin, $destination, $count, $options),
             'calculateAlternativeRoutes'
         );
     }
@@ -135,7 +136,7 @@ private function executeWithFallback(callable $operation, string $operationName)
             $lastException = $e;
 
             // Don't fallback for non-retryable errors that aren't provider issues
-            if (!$e->isRetryable && !in_array($e->errorCode, ['UNAVAILABLE', 'TIMEOUT', 'RATE_LIMITED'])) {
+            if (!$e->isRetryable && !in_array($e->errorCode, ['UNAVAILABLE', 'TIMEOUT', 'RATE_LIMITED', 'UNSUPPORTED_OPTION'])) {
                 throw $e;
             }
 
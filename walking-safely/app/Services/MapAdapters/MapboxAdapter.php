@@ -8,6 +8,7 @@
 use App\ValueObjects\Route;
 use App\ValueObjects\RouteOptions;
 use App\ValueObjects\TrafficData;
+use Illuminate\Support\Carbon;
 
 /**
  * Mapbox API adapter.
@@ -47,7 +48,10 @@ protected function doCalculateRoute(
         ?RouteOptions $options
     ): Route {
         $profile = $this->mapTransportMode($options?->mode ?? 'driving');
-        $coordinates = "{$origin->longitude},{$origin->latitude};{$destination->longitude},{$destination->latitude}";
+        $coordinates = implode(';', array_map(
+            fn(Coordinates $point) => "{$point->longitude},{$point->latitude}",
+            $this->getRoutePoints($origin, $destination, $options)
+        ));
 
         $url = self::DIRECTIONS_API_URL . "/{$profile}/{$coordinates}";
 
@@ -68,8 +72,8 @@ protected function doCalculateRoute(
                 $params['exclude'] = implode(',', $exclude);
             }
 
-            if ($options->departureTime) {
-                $params['depart_at'] = $options->departureTime;
+            if ($departure = $options->getDepartureTime()) {
+                $params['depart_at'] = $this->formatDepartAt($departure);
             }
         }
 
@@ -87,7 +91,8 @@ protected function doCalculateRoute(
     protected function doCalculateAlternativeRoutes(
         Coordinates $origin,
         Coordinates $destination,
-        int $count
+        int $count,
+        ?RouteOptions $options
     ): array {
         $coordinates = "{$origin->longitude},{$origin->latitude};{$destination->longitude},{$destination->latitude}";
         $url = self::DIRECTIONS_API_URL . "/driving-traffic/{$coordinates}";
@@ -100,6 +105,10 @@ protected function doCalculateAlternativeRoutes(
             'alternatives' => 'true',
         ];
 
+        if ($departure = $options?->getDepartureTime()) {
+            $params['depart_at'] = $this->formatDepartAt($departure);
+        }
+
         $response = $this->httpGet($url, $params);
         $this->recordApiCall('route', 0.0005);
 
@@ -245,8 +254,15 @@ private function validateDirectionsResponse(array $response): void
     }
 
     /**
-     * Map transport mode to Mapbox profile.
+     * Format a departure time the way Mapbox's depart_at expects it.
      */
+    private function formatDepartAt(Carbon $departure): string
+    {
+        return $departure->copy()->utc()->format('Y-m-d\TH:i\Z');
+    }
+
+    /**
+     * Map transport mode to Mapbox profile.
     private function mapTransportMode(string $mode): string
     {
         return match ($mode) {
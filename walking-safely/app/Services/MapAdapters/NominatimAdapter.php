@@ -43,7 +43,11 @@ protected function doCalculateRoute(
         ?RouteOptions $options
     ): Route {
         $mode = $this->mapTransportMode($options?->mode ?? 'walking');
-        $url = self::ROUTING_API_URL . "/{$mode}/{$origin->longitude},{$origin->latitude};{$destination->longitude},{$destination->latitude}";
+        $coordinates = implode(';', array_map(
+            fn(Coordinates $point) => "{$point->longitude},{$point->latitude}",
+            $this->getRoutePoints($origin, $destination, $options)
+        ));
+        $url = self::ROUTING_API_URL . "/{$mode}/{$coordinates}";
         
         $params = [
             'overview' => 'full',
@@ -67,7 +71,8 @@ protected function doCalculateRoute(
     protected function doCalculateAlternativeRoutes(
         Coordinates $origin,
         Coordinates $destination,
-        int $count
+        int $count,
+        ?RouteOptions $options
     ): array {
         $url = self::ROUTING_API_URL . "/walking/{$origin->longitude},{$origin->latitude};{$destination->longitude},{$destination->latitude}";
         
@@ -5,6 +5,7 @@
 use App\Enums\ModerationReason;
 use App\Enums\ModerationStatus;
 use App\Enums\OccurrenceSource;
+use App\Jobs\RecalculateRiskIndex;
 use App\Models\AuditLog;
 use App\Models\ModerationQueue;
 use App\Models\Occurrence;
@@ -36,6 +37,22 @@ class ModerationService
      */
     public const HIGH_FREQUENCY_THRESHOLD = 4;
 
+    /**
+     * Confidence score at or below which a collaborative report is reviewed.
+     * Collaborative reports start at 2, so this catches reports nobody corroborated.
+     */
+    public const LOW_CONFIDENCE_THRESHOLD = 2;
+
+    /**
+     * Hours a report is given to be corroborated before it is queued as low confidence.
+     */
+    public const LOW_CONFIDENCE_AGE_HOURS = 2;
+
+    /**
+     * Time window for offering duplicates to merge (in minutes).
+     */
+    public const DUPLICATE_TIME_WINDOW_MINUTES = 60;
+
     /**
      * Analyze an occurrence for anomalies and add to moderation queue if suspicious.
      * Requirement 14.1: Flag suspicious reports for moderation.
@@ -299,7 +316,7 @@ public function getPendingItems(int $limit = 50): Collection
     {
         return ModerationQueue::pending()
             ->orderByPriority()
-            ->with(['occurrence', 'reporter'])
+            ->with(['occurrence.crimeType', 'reporter'])
             ->limit($limit)
             ->get();
     }
@@ -332,6 +349,138 @@ public function reject(ModerationQueue $item, User $moderator, ?string $notes =
         $item->reject($moderator, $notes);
     }
 
+    /**
+     * Change the crime type of a flagged occurrence and close the item.
+     */
+    public function recategorize(
+        ModerationQueue $item,
+        User $moderator,
+        int $crimeTypeId,
+        ?string $notes = null
+    ): void {
+        $occurrence = $item->occurrence;
+        $previousCrimeTypeId = $occurrence->crime_type_id;
+
+        DB::transaction(function () use ($item, $moderator, $occurrence, $crimeTypeId, $notes) {
+            $occurrence->update(['crime_type_id' => $crimeTypeId]);
+            $item->resolve($moderator, $notes);
+        });
+
+        AuditLog::log(
+            action: AuditLog::ACTION_MODERATION_RECATEGORIZED,
+            userId: $moderator->id,
+            targetType: Occurrence::class,
+            targetId: $occurrence->id,
+            details: [
+                'moderation_id' => $item->id,
+                'previous_crime_type_id' => $previousCrimeTypeId,
+                'crime_type_id' => $crimeTypeId,
+                'notes' => $notes,
+            ]
+        );
+
+        if ($occurrence->region_id !== null) {
+            RecalculateRiskIndex::dispatch($occurrence->region_id);
+        }
+    }
+
+    /**
+     * Merge a flagged occurrence into the report it duplicates and close the item.
+     */
+    public function mergeDuplicate(
+        ModerationQueue $item,
+        User $moderator,
+        Occurrence $target,
+        ?string $notes = null
+    ): Occurrence {
+        $occurrence = $item->occurrence;
+
+        $merged = DB::transaction(function () use ($item, $moderator, $occurrence, $target, $notes) {
+            $merged = app(OccurrenceService::class)->mergeOccurrences(
+                [$occurrence->id, $target->id],
+                $target->id
+            );
+            $item->resolve($moderator, $notes);
+
+            return $merged;
+        });
+
+        AuditLog::log(
+            action: AuditLog::ACTION_MODERATION_MERGED,
+            userId: $moderator->id,
+            targetType: Occurrence::class,
+            targetId: $occurrence->id,
+            details: [
+                'moderation_id' => $item->id,
+                'merged_into_id' => $target->id,
+                'notes' => $notes,
+            ]
+        );
+
+        if ($occurrence->region_id !== null) {
+            RecalculateRiskIndex::dispatch($occurrence->region_id);
+        }
+
+        return $merged;
+    }
+
+    /**
+     * Find active reports a flagged occurrence may duplicate: any type, near the
+     * same place and time, since the duplicate may have been miscategorized.
+     */
+    public function findDuplicateCandidates(Occurrence $occurrence, int $limit = 10): Collection
+    {
+        if ($occurrence->location === null) {
+            return collect();
+        }
+
+        $timestamp = $occurrence->timestamp ?? $occurrence->created_at;
+
+        return Occurrence::query()
+            ->where('id', '!=', $occurrence->id)
+            ->active()
+            ->whereBetween('timestamp', [
+                $timestamp->copy()->subMinutes(self::DUPLICATE_TIME_WINDOW_MINUTES),
+                $timestamp->copy()->addMinutes(self::DUPLICATE_TIME_WINDOW_MINUTES),
+            ])
+            ->nearPoint($occurrence->location, self::SIMILARITY_DISTANCE_METERS)
+            ->with('crimeType')
+            ->orderBy('timestamp', 'desc')
+            ->limit($limit)
+            ->get();
+    }
+
+    /**
+     * Queue collaborative reports that were never corroborated.
+     *
+     * @return int Number of reports added to the queue
+     */
+    public function queueLowConfidenceOccurrences(): int
+    {
+        $occurrences = Occurrence::query()
+            ->active()
+            ->collaborative()
+            ->where('confidence_score', '<=', self::LOW_CONFIDENCE_THRESHOLD)
+            ->where('created_at', '<=', now()->subHours(self::LOW_CONFIDENCE_AGE_HOURS))
+            // Reviewed once is enough
+            ->whereDoesntHave('moderationQueues')
+            ->get();
+
+        foreach ($occurrences as $occurrence) {
+            ModerationQueue::addToQueue(
+                occurrence: $occurrence,
+                reason: ModerationReason::LOW_CONFIDENCE,
+                reportedBy: null,
+                detectionDetails: [
+                    'confidence_score' => $occurrence->confidence_score,
+                    'threshold' => self::LOW_CONFIDENCE_THRESHOLD,
+                ]
+            );
+        }
+
+        return $occurrences->count();
+    }
+
     /**
      * Report an occurrence for moderation.
      */
@@ -8,12 +8,15 @@
 use App\Jobs\RecalculateRiskIndex;
 use App\Models\ModerationQueue;
 use App\Models\Occurrence;
+use App\Models\OccurrenceAttachment;
 use App\Models\OccurrenceValidation;
 use App\Models\Region;
 use App\ValueObjects\Coordinates;
+use Illuminate\Http\UploadedFile;
 use Illuminate\Support\Collection;
 use Illuminate\Support\Facades\Cache;
 use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Storage;
 use App\Services\DynamicRegionService;
 
 class OccurrenceService
@@ -68,11 +71,27 @@ protected function getModerationService(): ModerationService
      */
     public const MAX_COLLABORATIVE_CONFIDENCE = 4;
 
+    /**
+     * Minimum confidence score disputes can take a collaborative report to.
+     */
+    public const MIN_COLLABORATIVE_CONFIDENCE = 1;
+
     /**
      * Days until collaborative reports expire.
      */
     public const EXPIRATION_DAYS = 7;
 
+    /**
+     * Minutes after creation during which the reporter can edit a report.
+     */
+    public const EDIT_WINDOW_MINUTES = 30;
+
+    /**
+     * Most photos and voice notes a report can carry.
+     */
+    public const MAX_PHOTO_ATTACHMENTS = 3;
+    public const MAX_AUDIO_ATTACHMENTS = 1;
+
     /**
      * Create a new occurrence with location validation.
      *
@@ -131,6 +150,7 @@ public function createOccurrence(array $data, Coordinates $userLocation): Occurr
             'status' => OccurrenceStatus::ACTIVE,
             'expires_at' => $expiresAt,
             'created_by' => $userId,
+            'is_anonymous' => (bool) ($data['is_anonymous'] ?? false),
             'metadata' => $data['metadata'] ?? null,
         ]);
 
@@ -323,6 +343,218 @@ private function findRegionForCoordinates(Coordinates $coordinates): ?int
         return $region->id;
     }
 
+    /**
+     * Check if a user can still edit a report.
+     * Only active reports of their own, within the edit window.
+     */
+    public function canUserEdit(Occurrence $occurrence, int $userId): bool
+    {
+        $editableUntil = $occurrence->created_at?->copy()->addMinutes(self::EDIT_WINDOW_MINUTES);
+
+        return $occurrence->created_by === $userId
+            && $occurrence->status === OccurrenceStatus::ACTIVE
+            && $editableUntil !== null
+            && now()->lessThanOrEqualTo($editableUntil);
+    }
+
+    /**
+     * Update the type, severity or description of a report.
+     *
+     * @param array $data Fields to change
+     */
+    public function updateOccurrence(Occurrence $occurrence, array $data): Occurrence
+    {
+        $changes = array_intersect_key($data, array_flip(['crime_type_id', 'severity']));
+
+        if (array_key_exists('metadata', $data)) {
+            $changes['metadata'] = array_merge($occurrence->metadata ?? [], $data['metadata'] ?? []);
+        }
+
+        $occurrence->update($changes);
+
+        if ($occurrence->region_id !== null) {
+            RecalculateRiskIndex::dispatch($occurrence->region_id);
+        }
+
+        return $occurrence->fresh();
+    }
+
+    /**
+     * Withdraw a report, hiding it from the map while keeping it in the reporter's history.
+     */
+    public function withdrawOccurrence(Occurrence $occurrence): Occurrence
+    {
+        $occurrence->update(['status' => OccurrenceStatus::WITHDRAWN]);
+
+        if ($occurrence->region_id !== null) {
+            RecalculateRiskIndex::dispatch($occurrence->region_id);
+        }
+
+        return $occurrence->fresh();
+    }
+
+    /**
+     * Check if a user can add evidence to a report.
+     * The app sends it right after the report, so it follows the edit rules.
+     */
+    public function canUserAttach(Occurrence $occurrence, int $userId): bool
+    {
+        return $this->canUserEdit($occurrence, $userId);
+    }
+
+    /**
+     * Most attachments of a type a report can carry.
+     */
+    public function attachmentLimit(string $type): int
+    {
+        return $type === OccurrenceAttachment::TYPE_AUDIO
+            ? self::MAX_AUDIO_ATTACHMENTS
+            : self::MAX_PHOTO_ATTACHMENTS;
+    }
+
+    /**
+     * Store a photo or voice note sent as evidence for a report.
+     * Returns null when the report already has as many of that type as allowed.
+     */
+    public function addAttachment(
+        Occurrence $occurrence,
+        UploadedFile $file,
+        string $type,
+        ?int $durationMs = null
+    ): ?OccurrenceAttachment {
+        return DB::transaction(function () use ($occurrence, $file, $type, $durationMs) {
+            // Uploads to the same report are counted one at a time
+            $occurrence = Occurrence::lockForUpdate()->findOrFail($occurrence->id);
+
+            if ($occurrence->attachments()->where('type', $type)->count() >= $this->attachmentLimit($type)) {
+                return null;
+            }
+
+            $path = $file->store("occurrences/{$occurrence->id}", OccurrenceAttachment::DISK);
+
+            try {
+                return $occurrence->attachments()->create([
+                    'type' => $type,
+                    'path' => $path,
+                    'mime_type' => $file->getMimeType(),
+                    'size' => $file->getSize(),
+                    'duration_ms' => $type === OccurrenceAttachment::TYPE_AUDIO ? $durationMs : null,
+                ]);
+            } catch (\Throwable $e) {
+                Storage::disk(OccurrenceAttachment::DISK)->delete($path);
+                throw $e;
+            }
+        });
+    }
+
+    /**
+     * Check if a user can vote on a report: only on other users' active reports.
+     */
+    public function canUserVote(Occurrence $occurrence, int $userId): bool
+    {
+        return $occurrence->created_by !== $userId
+            && $occurrence->status === OccurrenceStatus::ACTIVE;
+    }
+
+    /**
+     * Record a user's confirm or dispute vote and recalculate the confidence score.
+     * Returns null when the user already voted on this occurrence.
+     */
+    public function voteOccurrence(Occurrence $occurrence, int $userId, string $vote): ?Occurrence
+    {
+        $voted = DB::transaction(function () use ($occurrence, $userId, $vote) {
+            // Votes on the same occurrence are applied one at a time
+            $occurrence = Occurrence::lockForUpdate()->findOrFail($occurrence->id);
+
+            $validation = OccurrenceValidation::firstOrCreate(
+                [
+                    'occurrence_id' => $occurrence->id,
+                    'validated_by' => $userId,
+                    'validation_type' => OccurrenceValidation::TYPE_VOTE,
+                ],
+                [
+                    'status' => OccurrenceValidation::STATUS_APPROVED,
+                    'vote' => $vote,
+                ]
+            );
+
+            if (!$validation->wasRecentlyCreated) {
+                return null;
+            }
+
+            // Official data keeps its score, votes only weigh on collaborative reports
+            if ($occurrence->isCollaborative()) {
+                $occurrence->update([
+                    'confidence_score' => $this->calculateVoteConfidence($occurrence->confidence_score, $vote),
+                ]);
+            }
+
+            return $occurrence;
+        });
+
+        if ($voted === null) {
+            return null;
+        }
+
+        if ($voted->region_id !== null) {
+            RecalculateRiskIndex::dispatch($voted->region_id);
+        }
+
+        return $this->loadVotes($voted, $userId);
+    }
+
+    /**
+     * Confidence score of a collaborative report after a vote.
+     * A confirmation raises it by one and a dispute lowers it by one, within the collaborative bounds.
+     */
+    public function calculateVoteConfidence(int $confidenceScore, string $vote): int
+    {
+        $score = $vote === OccurrenceValidation::VOTE_CONFIRM
+            ? $confidenceScore + 1
+            : $confidenceScore - 1;
+
+        return max(self::MIN_COLLABORATIVE_CONFIDENCE, min($score, self::MAX_COLLABORATIVE_CONFIDENCE));
+    }
+
+    /**
+     * Load the confirmation and dispute counts of an occurrence and the vote of a user.
+     */
+    public function loadVotes(Occurrence $occurrence, int $userId): Occurrence
+    {
+        $occurrence->loadCount(self::voteCounts());
+        $occurrence->setAttribute('user_vote', $occurrence->validations()
+            ->where('validation_type', OccurrenceValidation::TYPE_VOTE)
+            ->where('validated_by', $userId)
+            ->value('vote'));
+
+        return $occurrence;
+    }
+
+    /**
+     * Counts for withCount/loadCount: confirmations are corroborating reports
+     * and confirm votes, disputes are dispute votes.
+     *
+     * @return array<string, \Closure>
+     */
+    public static function voteCounts(): array
+    {
+        return [
+            'validations as confirmations_count' => function ($query) {
+                $query->where(function ($query) {
+                    $query->where('validation_type', OccurrenceValidation::TYPE_CORROBORATION)
+                        ->orWhere(function ($query) {
+                            $query->where('validation_type', OccurrenceValidation::TYPE_VOTE)
+                                ->where('vote', OccurrenceValidation::VOTE_CONFIRM);
+                        });
+                });
+            },
+            'validations as disputes_count' => function ($query) {
+                $query->where('validation_type', OccurrenceValidation::TYPE_VOTE)
+                    ->where('vote', OccurrenceValidation::VOTE_DISPUTE);
+            },
+        ];
+    }
+
     /**
      * Get an occurrence by ID.
      */
@@ -69,20 +69,22 @@ public function __construct(
      * @param Coordinates $origin Starting point
      * @param Coordinates $destination Ending point
      * @param bool $preferSafeRoute Whether to prefer safer routes
+     * @param RouteOptions|null $options Stops and other options passed to the map provider
      * @return RouteWithRisk Route with risk analysis
      * @throws MapProviderException When route calculation fails
      */
     public function calculateRouteWithRisk(
         Coordinates $origin,
         Coordinates $destination,
-        bool $preferSafeRoute = false
+        bool $preferSafeRoute = false,
+        ?RouteOptions $options = null
     ): RouteWithRisk {
         if ($preferSafeRoute) {
-            return $this->calculateSafeRoute($origin, $destination);
+            return $this->calculateSafeRoute($origin, $destination, $options);
         }
 
         // For fastest route, always return the shortest distance route
-        return $this->calculateFastestRoute($origin, $destination);
+        return $this->calculateFastestRoute($origin, $destination, $options);
     }
 
     /**
@@ -92,15 +94,17 @@ public function calculateRouteWithRisk(
      *
      * @param Coordinates $origin Starting point
      * @param Coordinates $destination Ending point
+     * @param RouteOptions|null $options Stops and other options passed to the map provider
      * @return RouteWithRisk The fastest route with risk analysis
      * @throws MapProviderException When route calculation fails
      */
     public function calculateFastestRoute(
         Coordinates $origin,
-        Coordinates $destination
+        Coordinates $destination,
+        ?RouteOptions $options = null
     ): RouteWithRisk {
         // Get the default (shortest) route
-        $route = $this->mapAdapter->calculateRoute($origin, $destination);
+        $route = $this->mapAdapter->calculateRoute($origin, $destination, $options);
         $riskAnalysis = $this->analyzeRouteRisk($route);
 
         Log::info('[RouteService] Fastest route calculated', [
@@ -197,19 +201,23 @@ public function analyzeRouteRisk(Route $route): RouteRiskAnalysis
      *
      * @param Coordinates $origin Starting point
      * @param Coordinates $destination Ending point
+     * @param RouteOptions|null $options Stops and other options passed to the map provider
      * @return RouteWithRisk The safest route within distance constraints
      * @throws MapProviderException When route calculation fails
      */
     public function calculateSafeRoute(
         Coordinates $origin,
-        Coordinates $destination
+        Coordinates $destination,
+        ?RouteOptions $options = null
     ): RouteWithRisk {
-        // Get multiple alternative routes
-        $routes = $this->mapAdapter->calculateAlternativeRoutes($origin, $destination, 3);
+        // Providers don't return alternatives for a route through stops
+        $routes = $options?->hasWaypoints()
+            ? []
+            : $this->mapAdapter->calculateAlternativeRoutes($origin, $destination, 3, $options);
 
         if (empty($routes)) {
             // Fallback to single route
-            $route = $this->mapAdapter->calculateRoute($origin, $destination);
+            $route = $this->mapAdapter->calculateRoute($origin, $destination, $options);
             $riskAnalysis = $this->analyzeRouteRisk($route);
             return $this->buildRouteWithRisk($route, $riskAnalysis);
         }
@@ -280,6 +288,46 @@ public function calculateSafeRoute(
         return $this->buildRouteWithRisk($safest['route'], $safest['analysis']);
     }
 
+    /**
+     * Calculate every alternative route the map provider offers, each with its risk analysis.
+     *
+     * @see Requirement 4.4 - Compare alternatives and select lowest risk
+     *
+     * @param Coordinates $origin Starting point
+     * @param Coordinates $destination Ending point
+     * @param RouteOptions|null $options Stops and other options passed to the map provider
+     * @param int $maxAlternatives Maximum number of routes to return
+     * @return RouteWithRisk[] Routes in the order given by the provider, at least one
+     * @throws MapProviderException When route calculation fails
+     */
+    public function calculateAlternativeRoutesWithRisk(
+        Coordinates $origin,
+        Coordinates $destination,
+        ?RouteOptions $options = null,
+        int $maxAlternatives = 3
+    ): array {
+        // Providers don't return alternatives for a route through stops
+        $routes = $options?->hasWaypoints()
+            ? []
+            : $this->mapAdapter->calculateAlternativeRoutes($origin, $destination, $maxAlternatives, $options);
+
+        if (empty($routes)) {
+            // Fallback to single route
+            $routes = [$this->mapAdapter->calculateRoute($origin, $destination, $options)];
+        }
+
+        $routesWithRisk = array_map(
+            fn(Route $route) => $this->buildRouteWithRisk($route, $this->analyzeRouteRisk($route)),
+            array_slice($routes, 0, $maxAlternatives)
+        );
+
+        Log::info('[RouteService] Alternative routes calculated', [
+            'alternatives_count' => count($routesWithRisk),
+        ]);
+
+        return $routesWithRisk;
+    }
+
     /**
      * Recalculate route during active navigation.
      *
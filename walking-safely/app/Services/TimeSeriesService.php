@@ -2,6 +2,7 @@
 
 namespace App\Services;
 
+use App\Enums\OccurrenceSeverity;
 use App\Enums\OccurrenceStatus;
 use App\Models\Occurrence;
 use App\Models\Region;
@@ -39,6 +40,16 @@ class TimeSeriesService
         self::GRANULARITY_MONTH,
     ];
 
+    /**
+     * Radius in meters of an area around a point, when none is given.
+     */
+    public const DEFAULT_AREA_RADIUS = 1000;
+
+    /**
+     * Largest area radius in meters.
+     */
+    public const MAX_AREA_RADIUS = 5000;
+
     /**
      * Get time series data for occurrences.
      * Requirement 11.1: Display line chart showing occurrence count by period.
@@ -131,6 +142,14 @@ protected function buildOccurrenceQuery(array $filters): \Illuminate\Database\El
             $query->whereIn('region_id', $filters['region_ids']);
         }
 
+        // Filter by area around a point
+        if (isset($filters['latitude'], $filters['longitude'])) {
+            $query->whereRaw(
+                'ST_DWithin(location::geography, ST_SetSRID(ST_Point(?, ?), 4326)::geography, ?)',
+                [$filters['longitude'], $filters['latitude'], $filters['radius'] ?? self::DEFAULT_AREA_RADIUS]
+            );
+        }
+
         // Filter by crime type (Requirement 11.2)
         if (isset($filters['crime_type_id'])) {
             $query->where('crime_type_id', $filters['crime_type_id']);
@@ -375,6 +394,104 @@ protected function generateHourDayHeatmap(array $filters): array
         ];
     }
 
+    /**
+     * Get a summary of an area: occurrences by crime type, severity mix and
+     * week-over-week change.
+     *
+     * @param array $filters Filters (region_id or latitude/longitude/radius, start_date, end_date)
+     * @return array Area summary data
+     */
+    public function getAreaSummary(array $filters = []): array
+    {
+        $cacheKey = 'timeseries:summary:' . md5(json_encode($filters));
+
+        return Cache::remember($cacheKey, self::CACHE_TTL, function () use ($filters) {
+            return $this->generateAreaSummary($filters);
+        });
+    }
+
+    /**
+     * Generate area summary data.
+     */
+    protected function generateAreaSummary(array $filters): array
+    {
+        $typeResults = $this->buildOccurrenceQuery($filters)
+            ->select('crime_type_id')
+            ->selectRaw('COUNT(*) as count')
+            ->groupBy('crime_type_id')
+            ->with('crimeType:id,name')
+            ->orderByDesc('count')
+            ->get();
+
+        $total = (int) $typeResults->sum('count');
+
+        $byType = [];
+        foreach ($typeResults as $result) {
+            $byType[] = [
+                'crime_type_id' => $result->crime_type_id,
+                'crime_type_name' => $result->crimeType?->name ?? 'Unknown',
+                'count' => (int) $result->count,
+                'percentage' => $total > 0 ? round(($result->count / $total) * 100, 2) : 0,
+            ];
+        }
+
+        $severityCounts = $this->buildOccurrenceQuery($filters)
+            ->select('severity')
+            ->selectRaw('COUNT(*) as count')
+            ->groupBy('severity')
+            ->get()
+            ->mapWithKeys(fn($item) => [
+                $item->severity?->value ?? 'unknown' => (int) $item->count
+            ]);
+
+        // Fill in missing severities with zero
+        $bySeverity = [];
+        foreach (OccurrenceSeverity::values() as $severity) {
+            $bySeverity[$severity] = $severityCounts[$severity] ?? 0;
+        }
+
+        // Weeks are counted back from now, whatever period the rest covers
+        $areaFilters = array_diff_key($filters, array_flip(['start_date', 'end_date', 'days']));
+
+        $currentWeek = $this->buildOccurrenceQuery($areaFilters)
+            ->where('timestamp', '>=', now()->subWeek())
+            ->count();
+
+        $previousWeek = $this->buildOccurrenceQuery($areaFilters)
+            ->whereBetween('timestamp', [now()->subWeeks(2), now()->subWeek()])
+            ->count();
+
+        return [
+            'by_type' => $byType,
+            'by_severity' => $bySeverity,
+            'total' => $total,
+            'week_over_week' => $this->calculateWeekOverWeek($currentWeek, $previousWeek),
+            'filters' => $filters,
+        ];
+    }
+
+    /**
+     * Compare the occurrences of the last 7 days with the 7 days before.
+     *
+     * @param int $currentWeek Occurrences in the last 7 days
+     * @param int $previousWeek Occurrences in the 7 days before
+     * @return array Comparison data
+     */
+    public function calculateWeekOverWeek(int $currentWeek, int $previousWeek): array
+    {
+        $percentChange = $previousWeek > 0
+            ? round((($currentWeek - $previousWeek) / $previousWeek) * 100, 2)
+            : ($currentWeek > 0 ? 100 : 0);
+
+        return [
+            'current_week' => $currentWeek,
+            'previous_week' => $previousWeek,
+            'absolute_change' => $currentWeek - $previousWeek,
+            'percent_change' => $percentChange,
+            'trend' => $percentChange > 0 ? 'increasing' : ($percentChange < 0 ? 'decreasing' : 'stable'),
+        ];
+    }
+
     /**
      * Get time series comparison between two periods.
      *
@@ -0,0 +1,134 @@
+<?php
+
+namespace App\Services;
+
+use App\Models\TripShare;
+use App\Models\User;
+use Illuminate\Support\Carbon;
+use Illuminate\Support\Str;
+
+/**
+ * Service for live trip shares followed by a companion.
+ */
+class TripShareService
+{
+    /**
+     * Hours a share stays open when the app never ends it.
+     */
+    public const EXPIRES_AFTER_HOURS = 6;
+
+    /**
+     * Length of the token in the companion's link.
+     */
+    public const TOKEN_LENGTH = 40;
+
+    /**
+     * Open a share for a navigation session of the user.
+     *
+     * @param array $data Validated share data
+     */
+    public function start(User $user, array $data): TripShare
+    {
+        $destination = $data['destination'] ?? null;
+
+        return $user->tripShares()->create([
+            'navigation_session_id' => $data['navigation_session_id'],
+            'token' => Str::random(self::TOKEN_LENGTH),
+            'status' => TripShare::STATUS_ACTIVE,
+            'destination_latitude' => $destination['latitude'] ?? null,
+            'destination_longitude' => $destination['longitude'] ?? null,
+            'expires_at' => now()->addHours(self::EXPIRES_AFTER_HOURS),
+        ]);
+    }
+
+    /**
+     * Record the user's position, ETA and route progress.
+     *
+     * Updates sent while the share is paused are ignored, so the companion
+     * keeps the last position shared before the pause.
+     *
+     * @param array $data Validated update data
+     * @return bool Whether the update was recorded
+     */
+    public function recordUpdate(TripShare $share, array $data): bool
+    {
+        if ($share->status !== TripShare::STATUS_ACTIVE) {
+            return false;
+        }
+
+        $share->update([
+            'latitude' => $data['latitude'],
+            'longitude' => $data['longitude'],
+            'remaining_duration' => (int) round($data['remaining_duration']),
+            'remaining_distance' => (int) round($data['remaining_distance']),
+            'progress' => $data['progress'],
+            'eta' => Carbon::parse($data['eta']),
+            'last_update_at' => Carbon::parse($data['timestamp']),
+        ]);
+
+        return true;
+    }
+
+    /**
+     * Stop recording updates without closing the share.
+     */
+    public function pause(TripShare $share): void
+    {
+        $share->update(['status' => TripShare::STATUS_PAUSED]);
+    }
+
+    /**
+     * Record updates again after a pause.
+     */
+    public function resume(TripShare $share): void
+    {
+        $share->update(['status' => TripShare::STATUS_ACTIVE]);
+    }
+
+    /**
+     * Close the share. Stopping a closed share keeps its first reason.
+     */
+    public function stop(TripShare $share, string $reason): void
+    {
+        if ($share->status === TripShare::STATUS_ENDED) {
+            return;
+        }
+
+        $share->update([
+            'status' => TripShare::STATUS_ENDED,
+            'end_reason' => $reason,
+            'ended_at' => now(),
+        ]);
+    }
+
+    /**
+     * What the companion sees of a share. A share that expired is shown as
+     * ended, and an ended one no longer shows the user's position.
+     *
+     * @return array<string, mixed>
+     */
+    public function companionView(TripShare $share): array
+    {
+        $ended = $share->isEnded();
+
+        return [
+            'status' => $ended ? TripShare::STATUS_ENDED : $share->status,
+            'end_reason' => $ended
+                ? ($share->end_reason ?? TripShare::END_EXPIRED)
+                : null,
+            'user_name' => $share->user?->name,
+            'position' => !$ended && $share->latitude !== null
+                ? ['latitude' => $share->latitude, 'longitude' => $share->longitude]
+                : null,
+            'destination' => $share->hasDestination()
+                ? ['latitude' => $share->destination_latitude, 'longitude' => $share->destination_longitude]
+                : null,
+            'remaining_duration' => $ended ? null : $share->remaining_duration,
+            'remaining_distance' => $ended ? null : $share->remaining_distance,
+            'progress' => $share->progress,
+            'eta' => $ended ? null : $share->eta?->toIso8601String(),
+            'last_update_at' => $share->last_update_at?->toIso8601String(),
+            'expires_at' => $share->expires_at?->toIso8601String(),
+        ];
+    }
+}
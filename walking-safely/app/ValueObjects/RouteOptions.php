@@ -2,16 +2,21 @@
 
 namespace App\ValueObjects;
 
+use Illuminate\Support\Carbon;
 use JsonSerializable;
 
 class RouteOptions implements JsonSerializable
 {
+    /**
+     * @param Coordinates[] $waypoints Stops the route passes through, in order
+     */
     public function __construct(
         public readonly bool $avoidTolls = false,
         public readonly bool $avoidHighways = false,
         public readonly bool $preferSafeRoute = false,
         public readonly ?string $departureTime = null,
         public readonly string $mode = 'driving',
+        public readonly array $waypoints = [],
     ) {}
 
     public static function fromArray(array $data): self
@@ -22,9 +27,35 @@ public static function fromArray(array $data): self
             preferSafeRoute: (bool) ($data['prefer_safe_route'] ?? $data['preferSafeRoute'] ?? false),
             departureTime: $data['departure_time'] ?? $data['departureTime'] ?? null,
             mode: $data['mode'] ?? 'driving',
+            waypoints: array_map(
+                fn($waypoint) => $waypoint instanceof Coordinates ? $waypoint : Coordinates::fromArray($waypoint),
+                $data['waypoints'] ?? []
+            ),
         );
     }
 
+    /**
+     * Planned departure, never earlier than now. Null means leaving now.
+     */
+    public function getDepartureTime(): ?Carbon
+    {
+        if ($this->departureTime === null) {
+            return null;
+        }
+
+        $departure = Carbon::parse($this->departureTime);
+
+        return $departure->isPast() ? now() : $departure;
+    }
+
+    /**
+     * Check if the route has to pass through intermediate stops.
+     */
+    public function hasWaypoints(): bool
+    {
+        return !empty($this->waypoints);
+    }
+
     public function toArray(): array
     {
         return [
@@ -33,6 +64,7 @@ public function toArray(): array
             'prefer_safe_route' => $this->preferSafeRoute,
             'departure_time' => $this->departureTime,
             'mode' => $this->mode,
+            'waypoints' => array_map(fn(Coordinates $waypoint) => $waypoint->toArray(), $this->waypoints),
         ];
     }
 
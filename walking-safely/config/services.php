@@ -35,6 +35,22 @@
         ],
     ],
 
+    /*
+    |--------------------------------------------------------------------------
+    | SMS Configuration
+    |--------------------------------------------------------------------------
+    |
+    | Twilio credentials for the text messages SOS alerts send to trusted
+    | contacts. Without them, alerts only reach contacts with an email.
+    |
+    */
+
+    'sms' => [
+        'sid' => env('TWILIO_ACCOUNT_SID'),
+        'token' => env('TWILIO_AUTH_TOKEN'),
+        'from' => env('TWILIO_FROM_NUMBER'),
+    ],
+
     /*
     |--------------------------------------------------------------------------
     | Map Provider Configuration
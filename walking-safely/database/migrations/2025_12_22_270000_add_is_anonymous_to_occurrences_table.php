@@ -0,0 +1,34 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+/**
+ * Migration to add the anonymous reporting flag to occurrences table.
+ *
+ * The reporter is still stored in created_by so the report counts toward
+ * their rate limit; it is only withheld from API responses.
+ */
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('occurrences', function (Blueprint $table) {
+            $table->boolean('is_anonymous')->default(false)->after('created_by');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('occurrences', function (Blueprint $table) {
+            $table->dropColumn('is_anonymous');
+        });
+    }
+};
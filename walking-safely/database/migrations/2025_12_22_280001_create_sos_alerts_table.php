@@ -0,0 +1,43 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+/**
+ * Migration to create the sos_alerts table.
+ *
+ * The app resends an alert until it gets an answer, so (user_id, triggered_at)
+ * is unique and a resent alert doesn't warn the contacts twice.
+ */
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('sos_alerts', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('user_id')->constrained()->onDelete('cascade');
+            $table->string('reason', 30)->default('sos');
+            $table->decimal('latitude', 10, 7);
+            $table->decimal('longitude', 10, 7);
+            $table->decimal('destination_latitude', 10, 7)->nullable();
+            $table->decimal('destination_longitude', 10, 7)->nullable();
+            $table->timestamp('triggered_at');
+            $table->unsignedSmallInteger('notified_contacts')->default(0);
+            $table->timestamps();
+
+            $table->unique(['user_id', 'triggered_at']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('sos_alerts');
+    }
+};
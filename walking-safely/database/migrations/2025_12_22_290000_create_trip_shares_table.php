@@ -0,0 +1,51 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+/**
+ * Migration to create the trip_shares table.
+ *
+ * A share follows a navigation session of the app, whose id is generated on
+ * the device, so it is stored as given. The companion opens it by its token.
+ */
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('trip_shares', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('user_id')->constrained()->onDelete('cascade');
+            $table->string('navigation_session_id', 64);
+            $table->string('token', 64)->unique();
+            $table->string('status', 20)->default('active');
+            $table->string('end_reason', 30)->nullable();
+            $table->decimal('destination_latitude', 10, 7)->nullable();
+            $table->decimal('destination_longitude', 10, 7)->nullable();
+            $table->decimal('latitude', 10, 7)->nullable();
+            $table->decimal('longitude', 10, 7)->nullable();
+            $table->unsignedInteger('remaining_duration')->nullable();
+            $table->unsignedInteger('remaining_distance')->nullable();
+            $table->float('progress')->nullable();
+            $table->timestamp('eta')->nullable();
+            $table->timestamp('last_update_at')->nullable();
+            $table->timestamp('expires_at');
+            $table->timestamp('ended_at')->nullable();
+            $table->timestamps();
+
+            $table->index(['user_id', 'status']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('trip_shares');
+    }
+};
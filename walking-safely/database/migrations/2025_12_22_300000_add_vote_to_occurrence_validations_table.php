@@ -0,0 +1,36 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('occurrence_validations', function (Blueprint $table) {
+            $table->string('vote')->nullable()->after('status'); // confirm, dispute
+        });
+
+        // One vote per user and occurrence, the other validation types can repeat
+        DB::statement(
+            "CREATE UNIQUE INDEX occurrence_validations_vote_unique ON occurrence_validations (occurrence_id, validated_by) WHERE validation_type = 'vote'"
+        );
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        DB::statement('DROP INDEX IF EXISTS occurrence_validations_vote_unique');
+
+        Schema::table('occurrence_validations', function (Blueprint $table) {
+            $table->dropColumn('vote');
+        });
+    }
+};
@@ -0,0 +1,41 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+/**
+ * Migration to create the occurrence_attachments table.
+ *
+ * Photos and voice notes sent as evidence on a report. The files live on the
+ * public disk, only their path is kept here.
+ */
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('occurrence_attachments', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('occurrence_id')->constrained()->onDelete('cascade');
+            $table->string('type', 10);
+            $table->string('path');
+            $table->string('mime_type', 50);
+            $table->unsignedInteger('size');
+            $table->unsignedInteger('duration_ms')->nullable();
+            $table->timestamps();
+
+            $table->index(['occurrence_id', 'type']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('occurrence_attachments');
+    }
+};
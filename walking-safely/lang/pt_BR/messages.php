@@ -123,4 +123,53 @@
     'occurrence_not_found' => 'Ocorrência não encontrada',
     'occurrence_deleted' => 'Ocorrência excluída com sucesso',
     'occurrence_delete_forbidden' => 'Você não tem permissão para excluir esta ocorrência',
+    'occurrence_updated' => 'Ocorrência atualizada com sucesso',
+    'occurrence_edit_forbidden' => 'Esta ocorrência não pode mais ser editada',
+    'occurrence_withdrawn' => 'Ocorrência retirada com sucesso',
+    'occurrence_voted' => 'Voto registrado',
+    'occurrence_vote_forbidden' => 'Você não pode votar nesta ocorrência',
+    'occurrence_already_voted' => 'Você já votou nesta ocorrência',
+    'occurrence_attachment_uploaded' => 'Anexo enviado',
+    'occurrence_attachment_forbidden' => 'Não é mais possível anexar arquivos a esta ocorrência',
+    'occurrence_attachment_limit' => 'Esta ocorrência já tem o máximo de anexos desse tipo',
+
+    // Moderation messages
+    'moderation_approved' => 'Ocorrência aprovada',
+    'moderation_rejected' => 'Ocorrência ocultada do mapa',
+    'moderation_recategorized' => 'Tipo da ocorrência alterado',
+    'moderation_merged' => 'Ocorrência mesclada à duplicata',
+    'moderation_merge_invalid' => 'A ocorrência de destino precisa estar ativa e ser diferente da sinalizada',
+
+    // Emergency messages
+    'trusted_contact_created' => 'Contato de confiança adicionado',
+    'trusted_contact_deleted' => 'Contato de confiança removido',
+    'trusted_contact_not_found' => 'Contato não encontrado',
+    'trusted_contact_limit' => 'Você pode cadastrar até :max contatos de confiança',
+    'sos_no_contacts' => 'Nenhum contato cadastrado',
+    'sos_sent' => 'Alerta enviado aos seus contatos',
+    'sos_mail_subject' => ':name pediu ajuda pelo Walking Safely',
+    'sos_mail_subject_check_in' => ':name não confirmou que chegou em segurança',
+    'sos_mail_intro' => ':name enviou um alerta de emergência às :time. Esta é a última localização conhecida.',
+    'sos_mail_location' => 'Ver localização',
+    'sos_mail_destination' => 'Destino da rota: :link',
+    'sos_sms' => 'Walking Safely: :name enviou um alerta de emergência às :time. Última localização: :link',
+    'sos_sms_check_in' => 'Walking Safely: :name não confirmou que chegou em segurança (:time). Última localização: :link',
+
+    // Trip share messages
+    'trip_share_created' => 'Compartilhamento de trajeto iniciado',
+    'trip_share_paused' => 'Compartilhamento pausado',
+    'trip_share_resumed' => 'Compartilhamento retomado',
+    'trip_share_stopped' => 'Compartilhamento encerrado',
+    'trip_share_ended' => 'Este compartilhamento já foi encerrado',
+    'trip_share_not_found' => 'Compartilhamento não encontrado',
+    'trip_page_title' => 'Trajeto de :name',
+    'trip_page_eta' => 'Chegada prevista',
+    'trip_page_remaining' => 'Falta',
+    'trip_page_map' => 'Última localização',
+    'trip_page_open_map' => 'Abrir no mapa',
+    'trip_page_status_active' => 'A caminho',
+    'trip_page_status_paused' => 'Compartilhamento pausado',
+    'trip_page_status_ended' => 'Compartilhamento encerrado',
+    'trip_page_status_arrived' => 'Chegou ao destino',
+    'trip_page_updated' => 'Atualizado às :time',
 ];
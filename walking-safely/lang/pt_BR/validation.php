@@ -148,5 +148,6 @@
         'crime_type' => 'tipo de crime',
         'severity' => 'severidade',
         'description' => 'descrição',
+        'waypoints' => 'paradas',
     ],
 ];
@@ -0,0 +1,126 @@
+<!DOCTYPE html>
+<html lang="{{ str_replace('_', '-', app()->getLocale()) }}">
+    <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <meta name="robots" content="noindex, nofollow">
+
+        <title>{{ __('messages.trip_page_title', ['name' => $trip['user_name']]) }} · Walking Safely</title>
+
+        <style>
+            body { margin: 0; font-family: ui-sans-serif, system-ui, sans-serif; background: #F5F5F5; color: #212121; }
+            main { max-width: 40rem; margin: 0 auto; padding: 1.5rem 1rem; }
+            h1 { font-size: 1.25rem; margin: 0 0 .25rem; }
+            .status { display: inline-block; padding: .125rem .5rem; border-radius: 9999px; font-size: .875rem; color: #FFFFFF; background: #4CAF50; }
+            .status[data-status="paused"] { background: #FF9800; }
+            .status[data-status="ended"] { background: #757575; }
+            .card { background: #FFFFFF; border-radius: .5rem; padding: 1rem; margin-top: 1rem; box-shadow: 0 1px 2px rgba(0, 0, 0, .05); }
+            .facts { display: grid; grid-template-columns: repeat(2, minmax(0, 1fr)); gap: .75rem; }
+            .label { font-size: .75rem; color: #757575; }
+            .value { font-size: 1.125rem; font-weight: 600; }
+            .progress { height: .5rem; border-radius: 9999px; background: #E0E0E0; overflow: hidden; margin-top: .75rem; }
+            .progress > div { height: 100%; background: #2196F3; }
+            iframe { width: 100%; height: 18rem; border: 0; border-radius: .5rem; }
+            a { color: #1976D2; }
+            .muted { font-size: .875rem; color: #757575; }
+        </style>
+    </head>
+    <body>
+        <main>
+            <h1>{{ __('messages.trip_page_title', ['name' => $trip['user_name']]) }}</h1>
+            <span class="status" id="status" data-status="{{ $trip['status'] }}"></span>
+
+            <div class="card" id="details">
+                <div class="facts">
+                    <div>
+                        <div class="label">{{ __('messages.trip_page_eta') }}</div>
+                        <div class="value" id="eta">–</div>
+                    </div>
+                    <div>
+                        <div class="label">{{ __('messages.trip_page_remaining') }}</div>
+                        <div class="value" id="remaining">–</div>
+                    </div>
+                </div>
+                <div class="progress"><div id="progress" style="width: 0%"></div></div>
+            </div>
+
+            <div class="card" id="map-card">
+                <iframe id="map" title="{{ __('messages.trip_page_map') }}" loading="lazy"></iframe>
+                <p><a id="map-link" target="_blank" rel="noopener">{{ __('messages.trip_page_open_map') }}</a></p>
+            </div>
+
+            <p class="muted" id="updated"></p>
+        </main>
+
+        <script>
+            (function () {
+                var labels = {
+                    active: @json(__('messages.trip_page_status_active')),
+                    paused: @json(__('messages.trip_page_status_paused')),
+                    ended: @json(__('messages.trip_page_status_ended')),
+                    arrived: @json(__('messages.trip_page_status_arrived')),
+                    updated: @json(__('messages.trip_page_updated')),
+                };
+                var locale = document.documentElement.lang;
+
+                function formatTime(iso) {
+                    return new Date(iso).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+                }
+
+                function formatDistance(meters) {
+                    return meters >= 1000 ? (meters / 1000).toFixed(1) + ' km' : Math.round(meters) + ' m';
+                }
+
+                function render(trip) {
+                    var status = document.getElementById('status');
+                    status.dataset.status = trip.status;
+                    status.textContent = trip.end_reason === 'arrived' ? labels.arrived : labels[trip.status];
+
+                    document.getElementById('details').hidden = trip.status === 'ended';
+                    document.getElementById('eta').textContent = trip.eta ? formatTime(trip.eta) : '–';
+                    document.getElementById('remaining').textContent =
+                        trip.remaining_distance != null ? formatDistance(trip.remaining_distance) : '–';
+                    document.getElementById('progress').style.width = Math.round((trip.progress || 0) * 100) + '%';
+
+                    // The position is only shown while the trip is going on
+                    var position = trip.position;
+                    document.getElementById('map-card').hidden = !position;
+                    if (position) {
+                        var lat = position.latitude, lng = position.longitude, d = 0.005;
+                        document.getElementById('map').src =
+                            'https://www.openstreetmap.org/export/embed.html?bbox=' +
+                            [lng - d, lat - d, lng + d, lat + d].join(',') + '&layer=mapnik&marker=' + lat + ',' + lng;
+                        document.getElementById('map-link').href =
+                            'https://www.google.com/maps/search/?api=1&query=' + lat + ',' + lng;
+                    }
+
+                    document.getElementById('updated').textContent = trip.last_update_at
+                        ? labels.updated.replace(':time', formatTime(trip.last_update_at))
+                        : '';
+                }
+
+                function refresh() {
+                    fetch(@json($dataUrl), { headers: { Accept: 'application/json' } })
+                        .then(function (response) { return response.ok ? response.json() : null; })
+                        .then(function (body) {
+                            if (!body) {
+                                return;
+                            }
+                            render(body.data);
+                            if (body.data.status !== 'ended') {
+                                setTimeout(refresh, {{ $refreshSeconds * 1000 }});
+                            }
+                        })
+                        // Offline or throttled: try again on the next round
+                        .catch(function () { setTimeout(refresh, {{ $refreshSeconds * 1000 }}); });
+                }
+
+                var trip = @json($trip);
+                render(trip);
+                if (trip.status !== 'ended') {
+                    setTimeout(refresh, {{ $refreshSeconds * 1000 }});
+                }
+            })();
+        </script>
+    </body>
+</html>
@@ -7,6 +7,8 @@
 use App\Http\Controllers\Api\HeatmapController;
 use App\Http\Controllers\Api\TimeSeriesController;
 use App\Http\Controllers\Api\AuthController;
+use App\Http\Controllers\Api\EmergencyController;
+use App\Http\Controllers\Api\TripShareController;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Route;
 
@@ -41,6 +43,8 @@
             'occurrences' => '/api/occurrences',
             'heatmap' => '/api/heatmap',
             'alerts' => '/api/alerts',
+            'emergency' => '/api/emergency',
+            'trip-shares' => '/api/trip-shares',
             'timeseries' => '/api/timeseries',
             'analytics' => '/api/analytics',
             'admin' => '/api/admin',
@@ -68,6 +72,7 @@
 Route::prefix('routes')->middleware('auth:sanctum')->group(function () {
     Route::post('/', [RouteController::class, 'calculate'])->name('routes.calculate');
     Route::post('/recalculate', [RouteController::class, 'recalculate'])->name('routes.recalculate');
+    Route::post('/alternatives', [RouteController::class, 'alternatives'])->name('routes.alternatives');
 });
 
 /*
@@ -78,7 +83,12 @@
 Route::prefix('occurrences')->group(function () {
     Route::get('/', [OccurrenceController::class, 'index'])->middleware('auth:sanctum')->name('occurrences.index');
     Route::post('/', [OccurrenceController::class, 'store'])->middleware('auth:sanctum')->name('occurrences.store');
+    Route::get('/mine', [OccurrenceController::class, 'mine'])->middleware('auth:sanctum')->name('occurrences.mine');
     Route::get('/{id}', [OccurrenceController::class, 'show'])->middleware('auth:sanctum')->name('occurrences.show');
+    Route::patch('/{id}', [OccurrenceController::class, 'update'])->middleware('auth:sanctum')->name('occurrences.update');
+    Route::post('/{id}/withdraw', [OccurrenceController::class, 'withdraw'])->middleware('auth:sanctum')->name('occurrences.withdraw');
+    Route::post('/{id}/votes', [OccurrenceController::class, 'vote'])->middleware('auth:sanctum')->name('occurrences.vote');
+    Route::post('/{id}/attachments', [OccurrenceController::class, 'storeAttachment'])->middleware('auth:sanctum')->name('occurrences.attachments.store');
     Route::delete('/{id}', [OccurrenceController::class, 'destroy'])->middleware('auth:sanctum')->name('occurrences.destroy');
 });
 
@@ -101,6 +111,33 @@
     Route::put('/preferences', [AlertController::class, 'updatePreferences'])->name('alerts.preferences.update');
 });
 
+/*
+|--------------------------------------------------------------------------
+| Emergency Routes
+|--------------------------------------------------------------------------
+*/
+Route::prefix('emergency')->middleware('auth:sanctum')->group(function () {
+    Route::get('/contacts', [EmergencyController::class, 'contacts'])->name('emergency.contacts.index');
+    Route::post('/contacts', [EmergencyController::class, 'storeContact'])->name('emergency.contacts.store');
+    Route::delete('/contacts/{id}', [EmergencyController::class, 'destroyContact'])->name('emergency.contacts.destroy');
+    Route::post('/sos', [EmergencyController::class, 'sos'])->name('emergency.sos');
+});
+
+/*
+|--------------------------------------------------------------------------
+| Trip Share Routes
+|--------------------------------------------------------------------------
+*/
+Route::prefix('trip-shares')->group(function () {
+    Route::post('/', [TripShareController::class, 'store'])->middleware('auth:sanctum')->name('trip-shares.store');
+    Route::post('/{id}/updates', [TripShareController::class, 'update'])->middleware('auth:sanctum')->name('trip-shares.updates');
+    Route::post('/{id}/pause', [TripShareController::class, 'pause'])->middleware('auth:sanctum')->name('trip-shares.pause');
+    Route::post('/{id}/resume', [TripShareController::class, 'resume'])->middleware('auth:sanctum')->name('trip-shares.resume');
+    Route::post('/{id}/stop', [TripShareController::class, 'stop'])->middleware('auth:sanctum')->name('trip-shares.stop');
+    // Opened by the companion, who has no account: the token in the link is the credential
+    Route::get('/shared/{token}', [TripShareController::class, 'shared'])->middleware('throttle:60,1')->name('trip-shares.shared');
+});
+
 /*
 |--------------------------------------------------------------------------
 | Heatmap Routes
@@ -122,6 +159,7 @@
     Route::get('/hourly', [TimeSeriesController::class, 'hourlyPattern'])->name('timeseries.hourly');
     Route::get('/daily', [TimeSeriesController::class, 'dayOfWeekPattern'])->name('timeseries.daily');
     Route::get('/heatmap', [TimeSeriesController::class, 'hourDayHeatmap'])->name('timeseries.heatmap');
+    Route::get('/summary', [TimeSeriesController::class, 'summary'])->name('timeseries.summary');
 });
 
 
@@ -151,6 +189,9 @@
     Route::get('/moderation', [App\Http\Controllers\Api\AdminController::class, 'getModerationQueue'])->name('admin.moderation.index');
     Route::post('/moderation/{id}/approve', [App\Http\Controllers\Api\AdminController::class, 'approveModeration'])->name('admin.moderation.approve');
     Route::post('/moderation/{id}/reject', [App\Http\Controllers\Api\AdminController::class, 'rejectModeration'])->name('admin.moderation.reject');
+    Route::post('/moderation/{id}/recategorize', [App\Http\Controllers\Api\AdminController::class, 'recategorizeModeration'])->name('admin.moderation.recategorize');
+    Route::get('/moderation/{id}/duplicates', [App\Http\Controllers\Api\AdminController::class, 'getModerationDuplicates'])->name('admin.moderation.duplicates');
+    Route::post('/moderation/{id}/merge', [App\Http\Controllers\Api\AdminController::class, 'mergeModeration'])->name('admin.moderation.merge');
 
     // Taxonomy
     Route::get('/taxonomy/categories', [App\Http\Controllers\Api\AdminController::class, 'getCategories'])->name('admin.taxonomy.categories');
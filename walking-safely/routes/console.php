@@ -2,6 +2,7 @@
 
 use App\Jobs\ExpireOldOccurrences;
 use App\Jobs\RecalculateRiskIndex;
+use App\Services\ModerationService;
 use Illuminate\Foundation\Inspiring;
 use Illuminate\Support\Facades\Artisan;
 use Illuminate\Support\Facades\Schedule;
@@ -27,3 +28,6 @@
 // Recalculate risk indexes for all regions daily at 2 AM
 // Requirement 5.1: Maintain risk index for each region, updated at least every 24 hours
 Schedule::job(RecalculateRiskIndex::forAllRegions())->dailyAt('02:00');
+
+// Queue reports nobody corroborated for moderator review every hour
+Schedule::call(fn () => app(ModerationService::class)->queueLowConfidenceOccurrences())->hourly();
@@ -1,11 +1,15 @@
 <?php
 
+use App\Http\Controllers\TripSharePageController;
 use Illuminate\Support\Facades\Route;
 
 Route::get('/', function () {
     return view('welcome');
 });
 
+// Page the companion opens from a shared trip link
+Route::get('/t/{token}', TripSharePageController::class)->middleware('throttle:60,1')->name('trip-shares.page');
+
 // Rota de teste para geocoding
 Route::get('/test-geocoding', function () {
     try {
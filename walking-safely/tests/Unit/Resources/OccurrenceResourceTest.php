@@ -0,0 +1,39 @@
+<?php
+
+namespace Tests\Unit\Resources;
+
+use App\Http\Resources\OccurrenceResource;
+use App\Models\Occurrence;
+use Illuminate\Http\Request;
+use Tests\TestCase;
+
+class OccurrenceResourceTest extends TestCase
+{
+    /**
+     * Test the reporter is returned for regular reports.
+     */
+    public function test_resource_includes_reporter_of_regular_report(): void
+    {
+        $occurrence = new Occurrence(['created_by' => 42, 'is_anonymous' => false]);
+
+        $data = (new OccurrenceResource($occurrence))->toArray(Request::create('/'));
+
+        $this->assertEquals(42, $data['created_by']);
+        $this->assertFalse($data['is_anonymous']);
+    }
+
+    /**
+     * Test the reporter is withheld for anonymous reports.
+     */
+    public function test_resource_withholds_reporter_of_anonymous_report(): void
+    {
+        $occurrence = new Occurrence(['created_by' => 42, 'is_anonymous' => true]);
+
+        $data = (new OccurrenceResource($occurrence))->toArray(Request::create('/'));
+
+        $this->assertNull($data['created_by']);
+        $this->assertTrue($data['is_anonymous']);
+        // Still stored, so the report counts toward the reporter's rate limit
+        $this->assertEquals(42, $occurrence->created_by);
+    }
+}
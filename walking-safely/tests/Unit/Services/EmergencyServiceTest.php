@@ -0,0 +1,150 @@
+<?php
+
+namespace Tests\Unit\Services;
+
+use App\Models\SosAlert;
+use App\Models\TrustedContact;
+use App\Notifications\Channels\SmsChannel;
+use App\Notifications\SosAlertNotification;
+use App\Services\EmergencyService;
+use Illuminate\Notifications\AnonymousNotifiable;
+use Illuminate\Support\Carbon;
+use Tests\TestCase;
+
+class EmergencyServiceTest extends TestCase
+{
+    private EmergencyService $emergencyService;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+        $this->emergencyService = new EmergencyService();
+    }
+
+    /**
+     * Helper: an unsaved alert as stored by sendSos.
+     */
+    private function makeAlert(array $attributes = []): SosAlert
+    {
+        return new SosAlert(array_merge([
+            'user_id' => 7,
+            'reason' => SosAlert::REASON_SOS,
+            'latitude' => -23.5505,
+            'longitude' => -46.6333,
+            'triggered_at' => Carbon::parse('2025-01-05 22:30:00'),
+            'notified_contacts' => 0,
+        ], $attributes));
+    }
+
+    /**
+     * Test users can add contacts only up to the limit.
+     */
+    public function test_contacts_are_limited(): void
+    {
+        $this->assertTrue($this->emergencyService->canAddContact(0));
+        $this->assertTrue($this->emergencyService->canAddContact(EmergencyService::MAX_TRUSTED_CONTACTS - 1));
+        $this->assertFalse($this->emergencyService->canAddContact(EmergencyService::MAX_TRUSTED_CONTACTS));
+    }
+
+    /**
+     * Test a new alert warns the contacts.
+     */
+    public function test_new_alert_needs_delivery(): void
+    {
+        $alert = $this->makeAlert();
+        $alert->wasRecentlyCreated = true;
+
+        $this->assertTrue($this->emergencyService->needsDelivery($alert));
+    }
+
+    /**
+     * Test a resent alert doesn't warn the contacts twice.
+     */
+    public function test_resent_alert_is_not_delivered_again(): void
+    {
+        $alert = $this->makeAlert(['notified_contacts' => 2]);
+        $alert->wasRecentlyCreated = false;
+
+        $this->assertFalse($this->emergencyService->needsDelivery($alert));
+    }
+
+    /**
+     * Test a resent alert that reached nobody is tried again.
+     */
+    public function test_resent_alert_that_reached_nobody_is_delivered(): void
+    {
+        $alert = $this->makeAlert(['notified_contacts' => 0]);
+        $alert->wasRecentlyCreated = false;
+
+        $this->assertTrue($this->emergencyService->needsDelivery($alert));
+    }
+
+    /**
+     * Test the mail links to the user's position and destination.
+     */
+    public function test_mail_links_to_location_and_destination(): void
+    {
+        $alert = $this->makeAlert([
+            'destination_latitude' => -23.561,
+            'destination_longitude' => -46.656,
+        ]);
+
+        $mail = (new SosAlertNotification($alert, 'Maria'))->toMail(new AnonymousNotifiable());
+
+        $this->assertSame(SosAlertNotification::mapsLink(-23.5505, -46.6333), $mail->actionUrl);
+        $this->assertStringContainsString('-23.561000,-46.656000', implode(' ', array_merge($mail->introLines, $mail->outroLines)));
+    }
+
+    /**
+     * Test a missed check-in is told apart from an SOS.
+     */
+    public function test_missed_check_in_has_its_own_subject(): void
+    {
+        $sos = (new SosAlertNotification($this->makeAlert(), 'Maria'))->toMail(new AnonymousNotifiable());
+        $checkIn = (new SosAlertNotification(
+            $this->makeAlert(['reason' => SosAlert::REASON_MISSED_CHECK_IN]),
+            'Maria'
+        ))->toMail(new AnonymousNotifiable());
+
+        $this->assertNotSame($sos->subject, $checkIn->subject);
+    }
+
+    /**
+     * Test phone-only contacts are warned by text message once SMS is set up.
+     */
+    public function test_phone_only_contacts_are_reached_by_sms(): void
+    {
+        $contact = new TrustedContact(['name' => 'Ana', 'phone' => '(11) 98765-4321']);
+        $withEmail = new TrustedContact(['name' => 'Rui', 'phone' => '11987654321', 'email' => 'rui@example.com']);
+
+        config(['services.sms' => ['sid' => null, 'token' => null, 'from' => null]]);
+        $this->assertSame([], $this->emergencyService->contactRoutes($contact));
+        $this->assertSame(['mail' => 'rui@example.com'], $this->emergencyService->contactRoutes($withEmail));
+
+        config(['services.sms' => ['sid' => 'AC123', 'token' => 'secret', 'from' => '+15005550006']]);
+        $this->assertSame([SmsChannel::class => '(11) 98765-4321'], $this->emergencyService->contactRoutes($contact));
+        $this->assertCount(2, $this->emergencyService->contactRoutes($withEmail));
+    }
+
+    /**
+     * Test saved phone numbers are sent in E.164, Brazilian by default.
+     */
+    public function test_phone_numbers_are_formatted_for_sms(): void
+    {
+        $this->assertSame('+5511987654321', SmsChannel::toE164('(11) 98765-4321'));
+        $this->assertSame('+5511987654321', SmsChannel::toE164('011 98765-4321'));
+        $this->assertSame('+5511987654321', SmsChannel::toE164('55 11 98765-4321'));
+        $this->assertSame('+351912345678', SmsChannel::toE164('+351 912 345 678'));
+    }
+
+    /**
+     * Test the text message links to the user's position.
+     */
+    public function test_sms_links_to_location(): void
+    {
+        $sms = (new SosAlertNotification($this->makeAlert(), 'Maria'))->toSms(new AnonymousNotifiable());
+
+        $this->assertStringContainsString('Maria', $sms);
+        $this->assertStringContainsString(SosAlertNotification::mapsLink(-23.5505, -46.6333), $sms);
+    }
+}
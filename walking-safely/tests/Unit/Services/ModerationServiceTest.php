@@ -140,4 +140,40 @@ public function test_moderation_reason_descriptions(): void
         $this->assertNotEmpty(ModerationReason::USER_REPORTED->getDescription());
         $this->assertNotEmpty(ModerationReason::ANOMALY_DETECTED->getDescription());
     }
+
+    /**
+     * Test low confidence reports are queued below every other reason.
+     */
+    public function test_low_confidence_has_lowest_priority(): void
+    {
+        foreach (ModerationReason::cases() as $reason) {
+            if ($reason !== ModerationReason::LOW_CONFIDENCE) {
+                $this->assertGreaterThan(
+                    ModerationReason::LOW_CONFIDENCE->getPriority(),
+                    $reason->getPriority()
+                );
+            }
+        }
+    }
+
+    /**
+     * Test low confidence threshold matches the initial collaborative score.
+     */
+    public function test_low_confidence_threshold_is_initial_collaborative_score(): void
+    {
+        $this->assertEquals(
+            OccurrenceSource::COLLABORATIVE->getInitialConfidenceScore(),
+            ModerationService::LOW_CONFIDENCE_THRESHOLD
+        );
+    }
+
+    /**
+     * Test every ModerationReason has a label.
+     */
+    public function test_moderation_reason_labels(): void
+    {
+        foreach (ModerationReason::cases() as $reason) {
+            $this->assertNotEmpty($reason->getLabel());
+        }
+    }
 }
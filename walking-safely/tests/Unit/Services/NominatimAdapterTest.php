@@ -0,0 +1,74 @@
+<?php
+
+namespace Tests\Unit\Services;
+
+use App\Services\MapAdapters\NominatimAdapter;
+use App\ValueObjects\Coordinates;
+use App\ValueObjects\RouteOptions;
+use Illuminate\Http\Client\Request;
+use Illuminate\Support\Facades\Cache;
+use Illuminate\Support\Facades\Http;
+use Tests\TestCase;
+
+class NominatimAdapterTest extends TestCase
+{
+    private NominatimAdapter $adapter;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+
+        $this->adapter = new NominatimAdapter();
+
+        Cache::flush();
+        Http::fake([
+            'router.project-osrm.org/*' => Http::response([
+                'code' => 'Ok',
+                'routes' => [
+                    ['distance' => 1800.5, 'duration' => 1320.0, 'geometry' => ''],
+                ],
+            ]),
+        ]);
+    }
+
+    /**
+     * Test a route through stops visits them in the requested order.
+     */
+    public function test_route_passes_through_stops_in_order(): void
+    {
+        $options = RouteOptions::fromArray([
+            'waypoints' => [
+                ['latitude' => -23.552, 'longitude' => -46.642],
+                ['latitude' => -23.554, 'longitude' => -46.644],
+            ],
+        ]);
+
+        $route = $this->adapter->calculateRoute(
+            new Coordinates(-23.55, -46.64),
+            new Coordinates(-23.556, -46.646),
+            $options
+        );
+
+        Http::assertSent(fn(Request $request) => str_contains(
+            $request->url(),
+            '/-46.64,-23.55;-46.642,-23.552;-46.644,-23.554;-46.646,-23.556?'
+        ));
+        $this->assertSame(1800.5, $route->distance);
+    }
+
+    /**
+     * Test the same trip through different stops isn't served from cache.
+     */
+    public function test_stops_are_part_of_the_cached_route(): void
+    {
+        $origin = new Coordinates(-23.55, -46.64);
+        $destination = new Coordinates(-23.556, -46.646);
+
+        $this->adapter->calculateRoute($origin, $destination);
+        $this->adapter->calculateRoute($origin, $destination, RouteOptions::fromArray([
+            'waypoints' => [['latitude' => -23.552, 'longitude' => -46.642]],
+        ]));
+
+        Http::assertSentCount(2);
+    }
+}
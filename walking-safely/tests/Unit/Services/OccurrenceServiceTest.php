@@ -0,0 +1,141 @@
+<?php
+
+namespace Tests\Unit\Services;
+
+use App\Enums\OccurrenceStatus;
+use App\Models\Occurrence;
+use App\Models\OccurrenceAttachment;
+use App\Models\OccurrenceValidation;
+use App\Services\OccurrenceService;
+use Illuminate\Support\Carbon;
+use Tests\TestCase;
+
+class OccurrenceServiceTest extends TestCase
+{
+    private OccurrenceService $occurrenceService;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+        $this->occurrenceService = new OccurrenceService();
+        Carbon::setTestNow('2025-01-05 10:00:00');
+    }
+
+    protected function tearDown(): void
+    {
+        Carbon::setTestNow();
+        parent::tearDown();
+    }
+
+    /**
+     * Helper: an unsaved report created some minutes ago.
+     */
+    private function makeOccurrence(int $minutesAgo, int $createdBy = 7): Occurrence
+    {
+        $occurrence = new Occurrence([
+            'created_by' => $createdBy,
+            'status' => OccurrenceStatus::ACTIVE,
+        ]);
+        $occurrence->created_at = now()->subMinutes($minutesAgo);
+
+        return $occurrence;
+    }
+
+    /**
+     * Test the reporter can edit within the edit window.
+     */
+    public function test_reporter_can_edit_within_window(): void
+    {
+        $occurrence = $this->makeOccurrence(OccurrenceService::EDIT_WINDOW_MINUTES);
+
+        $this->assertTrue($this->occurrenceService->canUserEdit($occurrence, 7));
+    }
+
+    /**
+     * Test the reporter can't edit after the edit window.
+     */
+    public function test_reporter_cannot_edit_after_window(): void
+    {
+        $occurrence = $this->makeOccurrence(OccurrenceService::EDIT_WINDOW_MINUTES + 1);
+
+        $this->assertFalse($this->occurrenceService->canUserEdit($occurrence, 7));
+    }
+
+    /**
+     * Test other users can't edit a report.
+     */
+    public function test_other_user_cannot_edit(): void
+    {
+        $occurrence = $this->makeOccurrence(1);
+
+        $this->assertFalse($this->occurrenceService->canUserEdit($occurrence, 8));
+    }
+
+    /**
+     * Test withdrawn reports can't be edited.
+     */
+    public function test_withdrawn_report_cannot_be_edited(): void
+    {
+        $occurrence = $this->makeOccurrence(1);
+        $occurrence->status = OccurrenceStatus::WITHDRAWN;
+
+        $this->assertFalse($this->occurrenceService->canUserEdit($occurrence, 7));
+    }
+
+    /**
+     * Test users can vote only on other users' active reports.
+     */
+    public function test_only_other_users_can_vote_on_active_reports(): void
+    {
+        $occurrence = $this->makeOccurrence(1);
+
+        $this->assertTrue($this->occurrenceService->canUserVote($occurrence, 8));
+        $this->assertFalse($this->occurrenceService->canUserVote($occurrence, 7));
+
+        $occurrence->status = OccurrenceStatus::WITHDRAWN;
+
+        $this->assertFalse($this->occurrenceService->canUserVote($occurrence, 8));
+    }
+
+    /**
+     * Test votes move the confidence score within the collaborative bounds.
+     */
+    public function test_vote_confidence_stays_within_bounds(): void
+    {
+        $confirm = OccurrenceValidation::VOTE_CONFIRM;
+        $dispute = OccurrenceValidation::VOTE_DISPUTE;
+
+        $this->assertEquals(3, $this->occurrenceService->calculateVoteConfidence(2, $confirm));
+        $this->assertEquals(1, $this->occurrenceService->calculateVoteConfidence(2, $dispute));
+        $this->assertEquals(
+            OccurrenceService::MAX_COLLABORATIVE_CONFIDENCE,
+            $this->occurrenceService->calculateVoteConfidence(OccurrenceService::MAX_COLLABORATIVE_CONFIDENCE, $confirm)
+        );
+        $this->assertEquals(
+            OccurrenceService::MIN_COLLABORATIVE_CONFIDENCE,
+            $this->occurrenceService->calculateVoteConfidence(OccurrenceService::MIN_COLLABORATIVE_CONFIDENCE, $dispute)
+        );
+    }
+
+    /**
+     * Test only the reporter can add evidence, while the report is still editable.
+     */
+    public function test_only_the_reporter_can_attach_within_the_edit_window(): void
+    {
+        $this->assertTrue($this->occurrenceService->canUserAttach($this->makeOccurrence(1), 7));
+        $this->assertFalse($this->occurrenceService->canUserAttach($this->makeOccurrence(1), 8));
+        $this->assertFalse($this->occurrenceService->canUserAttach(
+            $this->makeOccurrence(OccurrenceService::EDIT_WINDOW_MINUTES + 1),
+            7
+        ));
+    }
+
+    /**
+     * Test a report takes up to three photos and a single voice note.
+     */
+    public function test_attachment_limit_depends_on_type(): void
+    {
+        $this->assertEquals(3, $this->occurrenceService->attachmentLimit(OccurrenceAttachment::TYPE_PHOTO));
+        $this->assertEquals(1, $this->occurrenceService->attachmentLimit(OccurrenceAttachment::TYPE_AUDIO));
+    }
+}
@@ -74,4 +74,30 @@ public function test_cache_ttl_constant(): void
     {
         $this->assertEquals(300, TimeSeriesService::CACHE_TTL);
     }
+
+    /**
+     * Test calculateWeekOverWeek compares the two weeks.
+     */
+    public function test_calculate_week_over_week(): void
+    {
+        $result = $this->timeSeriesService->calculateWeekOverWeek(6, 4);
+
+        $this->assertEquals(6, $result['current_week']);
+        $this->assertEquals(4, $result['previous_week']);
+        $this->assertEquals(2, $result['absolute_change']);
+        $this->assertEquals(50, $result['percent_change']);
+        $this->assertEquals('increasing', $result['trend']);
+
+        $this->assertEquals('decreasing', $this->timeSeriesService->calculateWeekOverWeek(1, 4)['trend']);
+        $this->assertEquals('stable', $this->timeSeriesService->calculateWeekOverWeek(3, 3)['trend']);
+    }
+
+    /**
+     * Test calculateWeekOverWeek handles an empty previous week.
+     */
+    public function test_calculate_week_over_week_without_previous_week(): void
+    {
+        $this->assertEquals(100, $this->timeSeriesService->calculateWeekOverWeek(2, 0)['percent_change']);
+        $this->assertEquals(0, $this->timeSeriesService->calculateWeekOverWeek(0, 0)['percent_change']);
+    }
 }
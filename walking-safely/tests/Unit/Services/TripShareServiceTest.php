@@ -0,0 +1,132 @@
+<?php
+
+namespace Tests\Unit\Services;
+
+use App\Models\TripShare;
+use App\Models\User;
+use App\Services\TripShareService;
+use Illuminate\Support\Carbon;
+use Tests\TestCase;
+
+class TripShareServiceTest extends TestCase
+{
+    private TripShareService $tripShareService;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+        $this->tripShareService = new TripShareService();
+        Carbon::setTestNow(Carbon::parse('2025-01-05 22:30:00'));
+    }
+
+    protected function tearDown(): void
+    {
+        Carbon::setTestNow();
+        parent::tearDown();
+    }
+
+    /**
+     * Helper: an unsaved share with a recorded position.
+     */
+    private function makeShare(array $attributes = []): TripShare
+    {
+        $share = new TripShare(array_merge([
+            'user_id' => 7,
+            'navigation_session_id' => 'nav_1736116200000_abc123',
+            'token' => str_repeat('a', TripShareService::TOKEN_LENGTH),
+            'status' => TripShare::STATUS_ACTIVE,
+            'latitude' => -23.5505,
+            'longitude' => -46.6333,
+            'remaining_duration' => 600,
+            'remaining_distance' => 800,
+            'progress' => 0.4,
+            'eta' => Carbon::parse('2025-01-05 22:40:00'),
+            'last_update_at' => Carbon::parse('2025-01-05 22:29:50'),
+            'expires_at' => now()->addHours(TripShareService::EXPIRES_AFTER_HOURS),
+        ], $attributes));
+        $share->setRelation('user', new User(['name' => 'Maria']));
+
+        return $share;
+    }
+
+    /**
+     * Test an open share shows the user's position to the companion.
+     */
+    public function test_companion_sees_position_of_open_share(): void
+    {
+        $view = $this->tripShareService->companionView($this->makeShare());
+
+        $this->assertSame(TripShare::STATUS_ACTIVE, $view['status']);
+        $this->assertSame(['latitude' => -23.5505, 'longitude' => -46.6333], $view['position']);
+        $this->assertSame(600, $view['remaining_duration']);
+        $this->assertSame('Maria', $view['user_name']);
+        $this->assertNull($view['end_reason']);
+    }
+
+    /**
+     * Test an ended share no longer shows where the user is.
+     */
+    public function test_companion_does_not_see_position_of_ended_share(): void
+    {
+        $view = $this->tripShareService->companionView($this->makeShare([
+            'status' => TripShare::STATUS_ENDED,
+            'end_reason' => TripShare::END_ARRIVED,
+        ]));
+
+        $this->assertSame(TripShare::STATUS_ENDED, $view['status']);
+        $this->assertSame(TripShare::END_ARRIVED, $view['end_reason']);
+        $this->assertNull($view['position']);
+        $this->assertNull($view['eta']);
+    }
+
+    /**
+     * Test a share the app never ended is shown as expired.
+     */
+    public function test_abandoned_share_expires(): void
+    {
+        $share = $this->makeShare();
+
+        Carbon::setTestNow(now()->addHours(TripShareService::EXPIRES_AFTER_HOURS)->addMinute());
+        $view = $this->tripShareService->companionView($share);
+
+        $this->assertTrue($share->isEnded());
+        $this->assertSame(TripShare::END_EXPIRED, $view['end_reason']);
+        $this->assertNull($view['position']);
+    }
+
+    /**
+     * Test updates sent while paused keep the last shared position.
+     */
+    public function test_paused_share_ignores_updates(): void
+    {
+        $share = $this->makeShare(['status' => TripShare::STATUS_PAUSED]);
+
+        $recorded = $this->tripShareService->recordUpdate($share, [
+            'latitude' => -23.56,
+            'longitude' => -46.64,
+            'remaining_duration' => 300,
+            'remaining_distance' => 400,
+            'progress' => 0.7,
+            'eta' => '2025-01-05T22:35:00Z',
+            'timestamp' => '2025-01-05T22:30:00Z',
+        ]);
+
+        $this->assertFalse($recorded);
+        $this->assertSame(-23.5505, $share->latitude);
+    }
+
+    /**
+     * Test stopping an ended share keeps the reason it first ended with.
+     */
+    public function test_stopping_ended_share_keeps_first_reason(): void
+    {
+        $share = $this->makeShare([
+            'status' => TripShare::STATUS_ENDED,
+            'end_reason' => TripShare::END_ARRIVED,
+        ]);
+
+        $this->tripShareService->stop($share, TripShare::END_NAVIGATION_ENDED);
+
+        $this->assertSame(TripShare::END_ARRIVED, $share->end_reason);
+    }
+}